@@ -0,0 +1,109 @@
+/**
+ * Unit tests for optimization parameter space helpers
+ *
+ * Pure functions - no database access.
+ */
+
+import {
+  rangeValues,
+  countGrid,
+  expandGrid,
+  sampleRandom,
+  applyParameters,
+  buildWalkForwardWindows,
+  calculateDegradation,
+} from '@/lib/services/backtesting/parameterSpace';
+
+describe('Parameter space', () => {
+  describe('rangeValues', () => {
+    it('should include both ends without floating point drift', () => {
+      expect(rangeValues({ min: 1, max: 2, step: 0.25 })).toEqual([1, 1.25, 1.5, 1.75, 2]);
+      expect(rangeValues({ min: 0.1, max: 0.3, step: 0.1 })).toEqual([0.1, 0.2, 0.3]);
+    });
+
+    it('should reject empty ranges', () => {
+      expect(() => rangeValues({ min: 5, max: 1, step: 1 })).toThrow('Invalid range');
+    });
+  });
+
+  describe('expandGrid', () => {
+    it('should build the cartesian product', () => {
+      const space = {
+        'entryConditions.rsi.value': { min: 20, max: 30, step: 10 },
+        stopLoss: { values: [3, 5, 8] },
+      };
+
+      const grid = expandGrid(space);
+
+      expect(countGrid(space)).toBe(6);
+      expect(grid).toHaveLength(6);
+      expect(grid[0]).toEqual({ 'entryConditions.rsi.value': 20, stopLoss: 3 });
+      expect(grid[5]).toEqual({ 'entryConditions.rsi.value': 30, stopLoss: 8 });
+    });
+  });
+
+  describe('sampleRandom', () => {
+    const space = {
+      a: { min: 1, max: 10, step: 1 },
+      b: { values: ['x', 'y'] },
+    };
+
+    it('should return distinct sets reproducibly for a seed', () => {
+      const first = sampleRandom(space, 8, 42);
+      const second = sampleRandom(space, 8, 42);
+
+      expect(first).toEqual(second);
+      expect(new Set(first.map(set => JSON.stringify(set))).size).toBe(8);
+    });
+
+    it('should cap the sample at the grid size', () => {
+      expect(sampleRandom(space, 100, 1)).toHaveLength(20);
+    });
+  });
+
+  describe('applyParameters', () => {
+    it('should write values at dot paths without mutating the original', () => {
+      const original = {
+        entryConditions: { rules: [{ indicator: 'RSI', operator: '<', value: 30 }] },
+        exitConditions: JSON.stringify({ stopLoss: { enabled: true, type: 'percentage', value: 5 } }),
+        stopLoss: 5,
+      };
+
+      const applied = applyParameters(original, {
+        'entryConditions.rules.0.value': 25,
+        'exitConditions.stopLoss.value': 7,
+        stopLoss: 7,
+      });
+
+      expect(applied.entryConditions.rules[0].value).toBe(25);
+      expect((applied.exitConditions as any).stopLoss.value).toBe(7);
+      expect(applied.stopLoss).toBe(7);
+      expect(original.entryConditions.rules[0].value).toBe(30);
+    });
+  });
+
+  describe('buildWalkForwardWindows', () => {
+    it('should roll in-sample/out-of-sample windows by the step', () => {
+      const windows = buildWalkForwardWindows(
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2024-12-31T00:00:00Z'),
+        180,
+        60,
+        60
+      );
+
+      expect(windows).toHaveLength(3);
+      expect(windows[0].outOfSampleStart).toEqual(windows[0].inSampleEnd);
+      expect(windows[1].inSampleStart.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+      expect(windows[2].outOfSampleEnd.getTime()).toBeLessThanOrEqual(new Date('2024-12-31T00:00:00Z').getTime());
+    });
+  });
+
+  describe('calculateDegradation', () => {
+    it('should report the percentage drop from in-sample to out-of-sample', () => {
+      expect(calculateDegradation(2, 1)).toBeCloseTo(50);
+      expect(calculateDegradation(-1, -2)).toBeCloseTo(100);
+      expect(calculateDegradation(0, 1)).toBeNull();
+    });
+  });
+});
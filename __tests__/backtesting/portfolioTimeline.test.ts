@@ -0,0 +1,67 @@
+/**
+ * Unit tests for portfolio backtest timeline helpers
+ *
+ * Pure functions - no database access.
+ */
+
+import { alignBarSeries, calculateCorrelationMatrix, TimelineBar } from '@/lib/services/backtesting/portfolioTimeline';
+
+function makeBars(closes: number[], dayOffsets?: number[]): TimelineBar[] {
+  const start = new Date('2024-01-02T00:00:00Z').getTime();
+  return closes.map((close, i) => ({
+    timestamp: new Date(start + (dayOffsets ? dayOffsets[i] : i) * 24 * 60 * 60 * 1000),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+  }));
+}
+
+describe('Portfolio timeline', () => {
+  describe('alignBarSeries', () => {
+    it('should merge timestamps and index bars per symbol', () => {
+      const timeline = alignBarSeries({
+        AAA: makeBars([10, 11, 12], [0, 1, 2]),
+        BBB: makeBars([20, 21], [1, 3]),
+      });
+
+      expect(timeline).toHaveLength(4);
+      expect(timeline.map(step => step.barIndex)).toEqual([
+        { AAA: 0 },
+        { AAA: 1, BBB: 0 },
+        { AAA: 2 },
+        { BBB: 1 },
+      ]);
+    });
+  });
+
+  describe('calculateCorrelationMatrix', () => {
+    it('should return 1 for identical returns and -1 for opposite returns', () => {
+      const returns = [0.02, -0.01, 0.04, -0.02, 0.05];
+      const compound = (start: number, sign: number) =>
+        returns.reduce((closes, r) => closes.concat(closes[closes.length - 1] * (1 + sign * r)), [start]);
+
+      const { symbols, matrix } = calculateCorrelationMatrix({
+        AAA: makeBars(compound(100, 1)),
+        BBB: makeBars(compound(50, 1)),
+        CCC: makeBars(compound(100, -1)),
+      });
+
+      expect(symbols).toEqual(['AAA', 'BBB', 'CCC']);
+      expect(matrix[0][0]).toBe(1);
+      expect(matrix[0][1]).toBeCloseTo(1);
+      expect(matrix[1][0]).toBeCloseTo(1);
+      expect(matrix[0][2]).toBeCloseTo(-1);
+    });
+
+    it('should only use shared timestamps and return null without enough overlap', () => {
+      const { matrix } = calculateCorrelationMatrix({
+        AAA: makeBars([100, 101, 102], [0, 1, 2]),
+        BBB: makeBars([50, 51, 52], [3, 4, 5]),
+      });
+
+      expect(matrix[0][1]).toBeNull();
+    });
+  });
+});
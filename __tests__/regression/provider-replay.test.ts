@@ -0,0 +1,89 @@
+/**
+ * Regression Tests - Provider Replay
+ *
+ * Runs the provider-backed services offline against __tests__/fixtures/providers
+ * (providerFixtureService in replay mode): no network, no API keys, no database.
+ *
+ * The fixtures are hand-written in the recorded file format: each payload is what the gateway
+ * request returns (the service's fetcher result, e.g. already mapped senate trades).
+ * Re-record them from the live APIs with PROVIDER_FIXTURE_MODE=record (same endpoints and
+ * params) when a provider changes its format.
+ *
+ * @group regression
+ */
+
+import * as path from 'path';
+
+jest.mock('@/lib/config/env', () => ({
+  env: {
+    PROVIDER_FIXTURE_MODE: 'replay',
+    PROVIDER_FIXTURE_DIR: '__tests__/fixtures/providers',
+    FMP_API_KEY: 'replay',
+    ALPACA_API_KEY: 'replay-key',
+    ALPACA_SECRET_KEY: 'replay-secret',
+    ALPACA_BASE_URL: 'https://paper-api.alpaca.markets',
+  },
+  getAlphaVantageKey: () => 'replay',
+}));
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { providerFixtureService, ProviderFixtureMissingError } from '@/lib/services/providerFixtureService';
+import { marketEventsService } from '@/lib/services/marketEventsService';
+import { technicalIndicatorService } from '@/lib/services/technicalIndicatorService';
+import { alpacaTradingService } from '@/lib/services/alpacaTradingService';
+
+const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'providers');
+
+describe('Regression Tests - Provider Replay', () => {
+  const mockFetch = jest.fn(async () => {
+    throw new Error('network access in replay mode');
+  });
+
+  beforeAll(() => {
+    providerFixtureService.configure('replay', FIXTURE_DIR);
+    global.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  beforeEach(() => {
+    mockFetch.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    expect(mockFetch).not.toHaveBeenCalled();
+    jest.restoreAllMocks();
+  });
+
+  it('should replay senate trades from FMP', async () => {
+    const trades = await marketEventsService.getSenateTrading();
+
+    expect(trades).toHaveLength(5);
+    expect(trades.map(trade => `${trade.symbol}:${trade.transactionType}`)).toEqual([
+      'NVDA:purchase',
+      'NVDA:purchase',
+      'INTC:sale',
+      'AAPL:sale',
+      'MSFT:exchange',
+    ]);
+    expect(trades[0]).toMatchObject({ firstName: 'Jane', lastName: 'Doe', disclosureDate: '2025-11-03' });
+  });
+
+  it('should replay Alpha Vantage indicators', async () => {
+    await expect(technicalIndicatorService.fetchRSI('AAPL')).resolves.toBeCloseTo(58.4215, 4);
+  });
+
+  it('should replay Alpaca account and price reads', async () => {
+    const account = await alpacaTradingService.getAccount();
+
+    expect(account).toMatchObject({ cash: 42150.37, equity: 101384.52, lastEquity: 100912.18, daytradeCount: 0 });
+    await expect(alpacaTradingService.getLatestPrice('AAPL')).resolves.toBe(272.41);
+  });
+
+  it('should fail instead of going live when a request was never recorded', async () => {
+    await expect(technicalIndicatorService.fetchRSI('TSLA')).resolves.toBeNull();
+    expect(console.error).toHaveBeenCalledWith('Error fetching RSI:', expect.any(ProviderFixtureMissingError));
+  });
+});
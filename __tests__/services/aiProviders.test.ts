@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the AI provider abstraction and the no-LLM (rule-based) mode
+ *
+ * No OpenAI key: every call goes through the rule-based provider.
+ *
+ * @jest-environment node
+ */
+
+let mockEnv: Record<string, any> = {};
+let mockBotProvider: string = 'OPENAI';
+
+jest.mock('@/lib/config/env', () => ({
+  get env() {
+    return mockEnv;
+  },
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    bot: {
+      findUnique: jest.fn(async () => ({ aiProvider: mockBotProvider })),
+    },
+  },
+}));
+
+// The simulated broker reads env at import time; no broker is used here
+jest.mock('@/lib/services/brokers', () => ({
+  getBrokerForBot: jest.fn(),
+}));
+
+jest.mock('@/lib/services/dataGatewayService', () => ({
+  dataGatewayService: { request: jest.fn((req: any) => req.fetcher()) },
+}));
+
+import { getAIProvider, getAIProviderForBot, ruleBasedProvider, scoreKeywords } from '@/lib/services/aiProviders';
+import { newsAnalysisService } from '@/lib/services/newsAnalysisService';
+import { aiTradingService } from '@/lib/services/aiTradingService';
+import { generateText } from '@/lib/utils/openai';
+
+describe('AI providers', () => {
+  beforeEach(() => {
+    mockEnv = { OPENAI_MODEL: 'gpt-4o-mini' };
+    mockBotProvider = 'OPENAI';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('provider selection', () => {
+    it('should follow the bot setting unless AI_PROVIDER overrides it', async () => {
+      expect(getAIProvider().name).toBe('openai');
+      expect(getAIProvider('RULE_BASED').name).toBe('rule-based');
+
+      mockBotProvider = 'RULE_BASED';
+      expect((await getAIProviderForBot('bot-1')).name).toBe('rule-based');
+
+      mockBotProvider = 'OPENAI';
+      mockEnv.AI_PROVIDER = 'rule-based';
+      expect((await getAIProviderForBot('bot-1')).name).toBe('rule-based');
+    });
+
+    it('should fail at call time, not import time, without an OpenAI key', async () => {
+      await expect(generateText('hello')).rejects.toThrow('OPENAI_API_KEY is not set');
+    });
+  });
+
+  describe('rule-based provider', () => {
+    it('should score keywords by whole word', () => {
+      expect(scoreKeywords('Earnings beat, record growth despite lawsuit')).toEqual({ positive: 3, negative: 1, sentiment: 0.5 });
+      expect(scoreKeywords('Beaten path, no missing data')).toEqual({ positive: 0, negative: 0, sentiment: 0 });
+    });
+
+    it('should answer every task deterministically', async () => {
+      const request = { task: 'news-sentiment' as const, prompt: 'ignored', input: 'Upgrade after earnings beat' };
+      const first = await ruleBasedProvider.complete(request);
+      const second = await ruleBasedProvider.complete(request);
+
+      expect(first).toEqual(second);
+      expect(first).toMatchObject({ provider: 'rule-based', model: 'rule-based-v1' });
+      expect(JSON.parse(first.text)).toMatchObject({ sentiment: 1, sentimentLabel: 'Very Positive' });
+
+      const adjustment = await ruleBasedProvider.complete({ task: 'trade-adjustment', prompt: 'anything' });
+      expect(JSON.parse(adjustment.text).adjustment).toBe(0);
+    });
+  });
+
+  describe('no-LLM pipeline', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      mockEnv.AI_PROVIDER = 'rule-based';
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should analyze news without OpenAI', async () => {
+      mockEnv.ALPHA_VANTAGE_KEY = 'test';
+      (global as any).fetch = jest.fn(async () => ({
+        ok: true,
+        json: async () => ({
+          feed: [{ title: 'Apple shares surge on record iPhone growth', summary: 'Analysts upgrade the stock.', source: 'Wire' }],
+        }),
+      }));
+
+      const analysis = await newsAnalysisService.analyzeNews('AAPL');
+
+      expect(analysis.articles).toHaveLength(1);
+      expect(analysis.sentiment).toBe(1);
+      expect(analysis.summary).toContain('LLM 미사용');
+    });
+
+    it('should record the provider and model that produced the adjustment', async () => {
+      const decision = await aiTradingService.makeUnifiedDecision({
+        symbol: 'AAPL',
+        currentPrice: 100,
+        currentPosition: null,
+        technicalSignal: true,
+        technicalConditions: [{ condition: 'RSI < 30', actual: '28', result: true }],
+        newsAnalysis: { articles: [], summary: '', sentiment: 0.5, sentimentLabel: 'Positive' },
+        fundAllocation: 1000,
+      });
+
+      expect(decision).toMatchObject({ aiProvider: 'rule-based', aiModel: 'rule-based-v1', gptAdjustment: 0, action: 'BUY' });
+      expect(decision.finalScore).toBeCloseTo(0.5);
+    });
+  });
+});
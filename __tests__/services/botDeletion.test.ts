@@ -0,0 +1,103 @@
+/**
+ * Unit tests for bot deletion (protective legs, position close, cascade delete)
+ *
+ * Prisma, broker, kill switch and protective order service are mocked.
+ */
+
+const mockCalls: string[] = [];
+
+const mockBroker = {
+  name: 'simulated',
+  getPosition: jest.fn(async () => ({ qty: 10 })),
+  executeTrade: jest.fn(async () => {
+    mockCalls.push('sell');
+    return { success: true, orderId: 'order-sell', message: 'ok' };
+  }),
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    bot: {
+      findUnique: jest.fn(async () => ({
+        id: 'bot-1',
+        name: 'Bot 1',
+        symbol: 'AAPL',
+        mode: 'PAPER',
+        positions: [{ symbol: 'AAPL', quantity: 10 }],
+      })),
+      delete: jest.fn(async () => {
+        mockCalls.push('delete');
+        return {};
+      }),
+    },
+  },
+}));
+
+jest.mock('@/lib/services/brokers', () => ({
+  getBroker: jest.fn(() => mockBroker),
+}));
+
+jest.mock('@/lib/services/protectiveOrderService', () => ({
+  protectiveOrderService: {
+    openLegSymbols: jest.fn(async () => ['AAPL', 'MSFT']),
+    releaseForExit: jest.fn(async (_botId: string, symbol: string) => {
+      mockCalls.push(`release:${symbol}`);
+      return 1;
+    }),
+  },
+}));
+
+const mockControl = { halted: false, haltReason: null as string | null };
+
+jest.mock('@/lib/services/killSwitchService', () => ({
+  killSwitchService: { getControl: jest.fn(async () => mockControl) },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { protectiveOrderService } from '@/lib/services/protectiveOrderService';
+import { deleteBot } from '@/lib/services/botDeletionService';
+
+describe('botDeletionService', () => {
+  beforeEach(() => {
+    mockCalls.length = 0;
+    mockControl.halted = false;
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should cancel protective legs of every symbol before selling and deleting', async () => {
+    const result = await deleteBot('bot-1');
+
+    expect(result).toMatchObject({ success: true, positionsClosed: 1 });
+    expect(mockCalls).toEqual(['release:AAPL', 'release:MSFT', 'sell', 'delete']);
+  });
+
+  it('should keep the bot when a protective leg cannot be cancelled', async () => {
+    (protectiveOrderService.releaseForExit as any).mockRejectedValueOnce(
+      new Error('Failed to cancel 1 protective order(s) for AAPL: leg-1')
+    );
+
+    const result = await deleteBot('bot-1');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('PROTECTIVE_ORDER_CANCEL_FAILED');
+    expect(mockBroker.executeTrade).not.toHaveBeenCalled();
+    expect(prisma.bot.delete).not.toHaveBeenCalled();
+  });
+
+  it('should not sell or delete a bot holding shares while trading is halted', async () => {
+    Object.assign(mockControl, { halted: true, haltReason: 'Daily drawdown 6%' });
+
+    const result = await deleteBot('bot-1');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'TRADING_HALTED' });
+    expect(result.error?.message).toContain('Daily drawdown 6%');
+    expect(mockCalls).toEqual([]);
+  });
+});
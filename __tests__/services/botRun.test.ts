@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the bot run audit log (botRunService)
+ *
+ * In-memory Prisma stand-in - no database access.
+ */
+
+const mockRuns: any[] = [];
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    botRun: {
+      create: jest.fn(async ({ data }: any) => {
+        const run = { id: `run-${mockRuns.length + 1}`, startedAt: new Date(Date.now() - 1500), tradeIds: [], ...data };
+        mockRuns.push(run);
+        return run;
+      }),
+      update: jest.fn(async ({ where, data }: any) =>
+        Object.assign(mockRuns.find(run => run.id === where.id), data)
+      ),
+    },
+  },
+}));
+
+import { botRunService, describeOutcome } from '@/lib/services/botRunService';
+import type { TestReport } from '@/lib/services/botTestService';
+
+function report(overrides: Partial<TestReport>): TestReport {
+  return {
+    symbol: 'AAPL',
+    timestamp: new Date().toISOString(),
+    executionTime: 1200,
+    apiCalls: [],
+    conditions: [],
+    finalDecision: 'HOLD',
+    reason: 'RSI 55 - no entry\n\n🤖 AI 종합 판단:\n관망',
+    ...overrides,
+  };
+}
+
+describe('Bot run audit log', () => {
+  beforeEach(() => {
+    mockRuns.length = 0;
+  });
+
+  it('should record the decision, linked report and trades, and API usage of a finished run', async () => {
+    const run = await botRunService.startRun('bot-1', { trigger: 'CRON', timeHorizon: 'SWING', jobId: 'job-1' });
+
+    const completed = await botRunService.completeRun(run, report({
+      finalDecision: 'BUY',
+      tradeExecuted: true,
+      tradeResult: { success: true, orderId: 'order-1', message: 'BUY order placed' },
+      reportId: 'report-1',
+      tradeIds: ['trade-1'],
+      apiUsage: { broker: 2, news: 1, fmp: 1, openai: 1 },
+    }));
+
+    expect(completed).toMatchObject({
+      botId: 'bot-1',
+      trigger: 'CRON',
+      timeHorizon: 'SWING',
+      jobId: 'job-1',
+      status: 'SUCCEEDED',
+      decision: 'BUY',
+      tradeExecuted: true,
+      outcome: 'BUY order submitted (order-1)',
+      reportId: 'report-1',
+      tradeIds: ['trade-1'],
+      apiCallCount: 5,
+    });
+    expect(completed.durationMs).toBeGreaterThanOrEqual(1500);
+  });
+
+  it('should mark runs FAILED when the test or the execution errors', async () => {
+    const failedTest = await botRunService.completeRun(
+      await botRunService.startRun('bot-1', { trigger: 'MANUAL' }),
+      report({ error: 'No cached bars for AAPL' })
+    );
+    const failedRun = await botRunService.failRun(
+      await botRunService.startRun('bot-1', { trigger: 'BULK' }),
+      new Error('Failed to fetch current price from any source (Alpaca, Alpha Vantage)')
+    );
+
+    expect(failedTest).toMatchObject({ status: 'FAILED', outcome: 'Run failed: No cached bars for AAPL' });
+    expect(failedRun).toMatchObject({
+      status: 'FAILED',
+      trigger: 'BULK',
+      error: 'Failed to fetch current price from any source (Alpaca, Alpha Vantage)',
+    });
+  });
+
+  it('should explain why a run did not trade', () => {
+    expect(describeOutcome(report({}))).toBe('HOLD: RSI 55 - no entry');
+    expect(describeOutcome(report({ finalDecision: 'BUY', tradeSkippedReason: '1 open order(s) pending' })))
+      .toBe('BUY signal, no order: 1 open order(s) pending');
+    expect(describeOutcome(report({
+      finalDecision: 'SELL',
+      tradeResult: { success: false, message: 'Trade failed', error: 'insufficient qty' },
+    }))).toBe('SELL order failed: insufficient qty');
+  });
+});
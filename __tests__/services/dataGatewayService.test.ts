@@ -0,0 +1,228 @@
+/**
+ * Unit tests for the data gateway (shared cache, request coalescing, priority budgets)
+ *
+ * Prisma is replaced by in-memory cache entries and usage logs.
+ */
+
+interface MockCacheEntry {
+  key: string;
+  provider: string;
+  endpoint: string;
+  payload: unknown;
+  expiresAt: Date;
+  updatedAt: Date;
+}
+
+let mockCache: Map<string, MockCacheEntry>;
+let mockLogs: Array<{ id?: string; provider: string; endpoint: string; priority: string; status: string; timestamp?: Date }>;
+
+jest.mock('@/lib/config/env', () => ({
+  env: { PROVIDER_FIXTURE_MODE: 'off', PROVIDER_FIXTURE_DIR: '__tests__/fixtures/providers' },
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    providerCacheEntry: {
+      findUnique: jest.fn(async ({ where }: any) => mockCache.get(where.key) || null),
+      upsert: jest.fn(async ({ where, create, update }: any) => {
+        const existing = mockCache.get(where.key);
+        const entry = existing ? { ...existing, ...update } : { ...create };
+        entry.updatedAt = new Date();
+        mockCache.set(where.key, entry);
+        return entry;
+      }),
+    },
+    providerApiLog: {
+      create: jest.fn(async ({ data }: any) => {
+        const row = { id: `log-${mockLogs.length + 1}`, timestamp: new Date(), ...data };
+        mockLogs.push(row);
+        return row;
+      }),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(mockLogs.find(log => log.id === where.id)!, data)),
+      count: jest.fn(async ({ where }: any) =>
+        mockLogs.filter(log => log.provider === where.provider && where.status.in.includes(log.status)).length
+      ),
+      findMany: jest.fn(async ({ where }: any) =>
+        mockLogs.filter(log =>
+          log.provider === where.provider &&
+          where.status.in.includes(log.status) &&
+          (log.timestamp || new Date()).getTime() >= where.timestamp.gte.getTime()
+        )
+      ),
+    },
+  },
+}));
+
+import { dataGatewayService, buildCacheKey, ProviderBudgetExceededError } from '@/lib/services/dataGatewayService';
+
+describe('dataGatewayService', () => {
+  beforeEach(() => {
+    mockCache = new Map();
+    mockLogs = [];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should build the same key regardless of param order', () => {
+    expect(buildCacheKey('fmp', '/v3/stock_news', { tickers: 'AAPL', page: '0' })).toBe(
+      buildCacheKey('fmp', '/v3/stock_news', { page: '0', tickers: 'AAPL', limit: undefined })
+    );
+    expect(buildCacheKey('fmp', '/v4/senate-trading')).toBe('fmp:/v4/senate-trading');
+  });
+
+  it('should serve cached responses and coalesce concurrent requests', async () => {
+    const fetcher = jest.fn(async () => ({ feed: ['news'] }));
+    const request = () =>
+      dataGatewayService.request({ provider: 'fmp', endpoint: '/v3/stock_news', params: { tickers: 'AAPL' }, ttlMs: 60000, fetcher });
+
+    const [first, second] = await Promise.all([request(), request()]);
+    const third = await request();
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first).toEqual({ feed: ['news'] });
+    expect(second).toEqual(first);
+    expect(third).toEqual(first);
+    expect(mockLogs).toEqual([
+      expect.objectContaining({ provider: 'fmp', endpoint: '/v3/stock_news', status: 'SUCCESS', priority: 'DASHBOARD' }),
+    ]);
+  });
+
+  it('should fall back to an expired entry when the provider call fails', async () => {
+    mockCache.set('fmp:/v4/senate-trading', {
+      key: 'fmp:/v4/senate-trading',
+      provider: 'fmp',
+      endpoint: '/v4/senate-trading',
+      payload: ['stale'],
+      expiresAt: new Date(Date.now() - 1000),
+      updatedAt: new Date(Date.now() - 61000),
+    });
+
+    const result = await dataGatewayService.request({
+      provider: 'fmp',
+      endpoint: '/v4/senate-trading',
+      ttlMs: 60000,
+      fetcher: async () => {
+        throw new Error('Limit Reach. Please upgrade your plan (rate limit)');
+      },
+    });
+
+    expect(result).toEqual(['stale']);
+    expect(mockLogs[0].status).toBe('RATE_LIMITED');
+  });
+
+  it('should not cache a payload that fails the request validator', async () => {
+    const validate = (data: any) => {
+      if (data.Information) throw new Error(`Alpha Vantage error: ${data.Information}`);
+    };
+    const fetcher = jest.fn()
+      .mockResolvedValueOnce({ Information: 'Our standard API rate limit is 25 requests per day.' })
+      .mockResolvedValueOnce({ price: 272.41 });
+    const request = () =>
+      dataGatewayService.request({ provider: 'alphaVantage', endpoint: 'GLOBAL_QUOTE', params: { symbol: 'AAPL' }, ttlMs: 60000, fetcher, validate });
+
+    await expect(request()).rejects.toThrow('rate limit');
+    expect(mockCache.size).toBe(0);
+    expect(mockLogs[0].status).toBe('RATE_LIMITED');
+
+    await expect(request()).resolves.toEqual({ price: 272.41 });
+    expect(mockCache.get('alphaVantage:GLOBAL_QUOTE?symbol=AAPL')?.payload).toEqual({ price: 272.41 });
+  });
+
+  it('should skip a cached entry that fails the request validator', async () => {
+    mockCache.set('alphaVantage:GLOBAL_QUOTE?symbol=AAPL', {
+      key: 'alphaVantage:GLOBAL_QUOTE?symbol=AAPL',
+      provider: 'alphaVantage',
+      endpoint: 'GLOBAL_QUOTE',
+      payload: { Information: 'throttled' },
+      expiresAt: new Date(Date.now() + 60000),
+      updatedAt: new Date(),
+    });
+    const fetcher = jest.fn(async () => ({ price: 272.41 }));
+
+    const result = await dataGatewayService.request({
+      provider: 'alphaVantage',
+      endpoint: 'GLOBAL_QUOTE',
+      params: { symbol: 'AAPL' },
+      ttlMs: 60000,
+      fetcher,
+      validate: (data: any) => {
+        if (data.Information) throw new Error(data.Information);
+      },
+    });
+
+    expect(result).toEqual({ price: 272.41 });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse dashboards before bot execution runs out of budget', async () => {
+    const fetcher = jest.fn(async () => ({ ok: true }));
+    const call = () => dataGatewayService.request({ provider: 'alphaVantage', endpoint: 'GLOBAL_QUOTE', fetcher });
+
+    // 분당 5회 중 대시보드는 60% (3회)까지만
+    await call();
+    await call();
+    await call();
+    await expect(call()).rejects.toBeInstanceOf(ProviderBudgetExceededError);
+
+    await dataGatewayService.runWithPriority('BOT_EXECUTION', async () => {
+      await call();
+      await call();
+    });
+
+    expect(fetcher).toHaveBeenCalledTimes(5);
+    expect(mockLogs.map(log => log.status)).toEqual(['SUCCESS', 'SUCCESS', 'SUCCESS', 'BUDGET_EXCEEDED', 'SUCCESS', 'SUCCESS']);
+    expect(mockLogs[5].priority).toBe('BOT_EXECUTION');
+  });
+
+  it('should count calls of other instances and calls still in flight against the minute window', async () => {
+    // 다른 인스턴스(또는 콜드 스타트 이전)의 최근 호출 2건 + 아직 응답이 없는 호출 1건
+    mockLogs = [
+      { id: 'other-1', provider: 'alphaVantage', endpoint: 'RSI', priority: 'BOT_EXECUTION', status: 'SUCCESS', timestamp: new Date(Date.now() - 30000) },
+      { id: 'other-2', provider: 'alphaVantage', endpoint: 'RSI', priority: 'BOT_EXECUTION', status: 'PENDING', timestamp: new Date(Date.now() - 5000) },
+      { id: 'old', provider: 'alphaVantage', endpoint: 'RSI', priority: 'BOT_EXECUTION', status: 'SUCCESS', timestamp: new Date(Date.now() - 120000) },
+    ];
+    const fetcher = jest.fn(async () => ({ ok: true }));
+    const call = () => dataGatewayService.request({ provider: 'alphaVantage', endpoint: 'GLOBAL_QUOTE', fetcher });
+
+    await call();
+    await expect(call()).rejects.toMatchObject({ provider: 'alphaVantage', window: 'minute' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reserve the usage row before the call and record the outcome on it', async () => {
+    let statusDuringCall: string | undefined;
+    await dataGatewayService.request({
+      provider: 'fmp',
+      endpoint: '/v3/profile/AAPL',
+      fetcher: async () => {
+        statusDuringCall = mockLogs[0].status;
+        return [];
+      },
+    });
+
+    expect(statusDuringCall).toBe('PENDING');
+    expect(mockLogs).toHaveLength(1);
+    expect(mockLogs[0].status).toBe('SUCCESS');
+  });
+
+  it('should enforce the daily budget from the usage log', async () => {
+    mockLogs = Array.from({ length: 150 }, () => ({
+      provider: 'fmp',
+      endpoint: '/v3/stock_news',
+      priority: 'DASHBOARD',
+      status: 'SUCCESS',
+    }));
+    const fetcher = jest.fn(async () => []);
+
+    await expect(
+      dataGatewayService.request({ provider: 'fmp', endpoint: '/v3/profile/AAPL', fetcher })
+    ).rejects.toMatchObject({ provider: 'fmp', window: 'day' });
+
+    await dataGatewayService.request({ provider: 'fmp', endpoint: '/v3/profile/AAPL', priority: 'BOT_EXECUTION', fetcher });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for replaying stored report decisions (decisionReplayService)
+ *
+ * In-memory Prisma stand-in - no database, OpenAI or broker access.
+ */
+
+let mockReports: any[] = [];
+let mockTrades: any[] = [];
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    report: {
+      findMany: jest.fn(async () => mockReports),
+    },
+    bot: {
+      findMany: jest.fn(async () => [{ id: 'bot-1', fundAllocation: 1000 }]),
+    },
+    trade: {
+      findMany: jest.fn(async () => mockTrades),
+    },
+  },
+}));
+
+import { decisionReplayService } from '@/lib/services/decisionReplayService';
+import type { RecordedDecisionInputs } from '@/lib/utils/unifiedDecision';
+
+function storedReport(overrides: Record<string, any>) {
+  return {
+    id: 'report-1',
+    botId: 'bot-1',
+    symbol: 'AAPL',
+    timestamp: new Date(Date.UTC(2025, 10, 5)),
+    currentPrice: 100,
+    stopLossPercent: 5,
+    takeProfitPercent: 10,
+    newsSentiment: null,
+    sentimentLabel: null,
+    technicalScore: null,
+    baseScore: null,
+    gptAdjustment: null,
+    finalScore: null,
+    aiReasoning: null,
+    aiAction: null,
+    aiQuantity: null,
+    conditions: '[]',
+    decisionInputs: null,
+    ...overrides,
+  };
+}
+
+const recordedInputs: RecordedDecisionInputs = {
+  currentPrice: 100,
+  currentPosition: null,
+  fundAllocation: 1000,
+  stopLoss: 5,
+  takeProfit: 10,
+  sentimentScore: 0.5,
+  sentimentLabel: 'Bullish',
+  socialScore: 0,
+  technicalSignal: true,
+  technicalConditions: [{ condition: 'RSI < 30', actual: '28', result: true }],
+  gpt: { adjustment: 0.25, reasoning: 'earnings beat' },
+};
+
+describe('Decision replay', () => {
+  beforeEach(() => {
+    mockReports = [];
+    mockTrades = [];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should replay recorded inputs and report the changed decision', async () => {
+    mockReports = [storedReport({
+      aiAction: 'HOLD',
+      finalScore: 0.2,
+      baseScore: 0.2,
+      decisionInputs: JSON.stringify(recordedInputs),
+    })];
+
+    const replay = await decisionReplayService.replay({ botId: 'bot-1' });
+
+    expect(replay).toMatchObject({ total: 1, replayed: 1, changed: 1, transitions: { 'HOLD→BUY': 1 } });
+    expect(replay.results[0]).toMatchObject({
+      inputSource: 'RECORDED',
+      original: { action: 'HOLD', finalScore: 0.2 },
+      replayed: { action: 'BUY', quantity: 7 },
+      actionChanged: true,
+    });
+    expect(replay.results[0].scoreDelta).toBeCloseTo(0.55);
+  });
+
+  it('should rebuild older reports from the fills before the report', async () => {
+    mockTrades = [
+      { botId: 'bot-1', symbol: 'AAPL', side: 'BUY', status: 'FILLED', quantity: 10, price: 100, filledQuantity: 10, filledAvgPrice: 100, executedAt: new Date(Date.UTC(2025, 10, 1)) },
+      // Sold after the report → not part of the position at the time
+      { botId: 'bot-1', symbol: 'AAPL', side: 'SELL', status: 'FILLED', quantity: 10, price: 94, filledQuantity: 10, filledAvgPrice: 94, executedAt: new Date(Date.UTC(2025, 10, 6)) },
+    ];
+    mockReports = [storedReport({
+      currentPrice: 94,
+      technicalScore: -0.5,
+      baseScore: -0.5,
+      gptAdjustment: -0.1,
+      finalScore: -0.6,
+      aiReasoning: 'weak guidance',
+      aiAction: 'SELL',
+      aiQuantity: 10,
+      conditions: JSON.stringify([{ condition: 'RSI < 30', actual: '55', result: false }]),
+    })];
+
+    const replay = await decisionReplayService.replay();
+
+    expect(replay.changed).toBe(0);
+    expect(replay.results[0]).toMatchObject({
+      inputSource: 'RECONSTRUCTED',
+      replayed: { action: 'SELL', quantity: 10 },
+      actionChanged: false,
+    });
+    expect(replay.results[0].replayed.finalScore).toBeCloseTo(-0.6);
+  });
+
+  it('should skip reports without an AI decision and hide unchanged ones with changedOnly', async () => {
+    mockReports = [
+      storedReport({ id: 'report-error' }),
+      storedReport({ id: 'report-same', aiAction: 'BUY', finalScore: 0.75, decisionInputs: JSON.stringify(recordedInputs) }),
+    ];
+
+    const replay = await decisionReplayService.replay({ changedOnly: true });
+
+    expect(replay.skipped).toEqual([{ reportId: 'report-error', reason: 'No AI decision recorded' }]);
+    expect(replay.replayed).toBe(1);
+    expect(replay.results).toHaveLength(0);
+  });
+});
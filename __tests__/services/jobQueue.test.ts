@@ -0,0 +1,407 @@
+/**
+ * Integration tests for the job queue (jobQueueService + cronExecutor)
+ *
+ * Runs the real queue against an in-memory Prisma stand-in - no database access.
+ * Bot execution itself is mocked.
+ */
+
+const mockDb: {
+  jobs: any[];
+  attempts: any[];
+  bots: any[];
+  runs: any[];
+  trades: any[];
+  control: any;
+} = { jobs: [], attempts: [], bots: [], runs: [], trades: [], control: null };
+
+let mockSequence = 0;
+
+function mockMatches(row: any, where: any = {}): boolean {
+  return Object.keys(where).every(key => {
+    const condition = where[key];
+    const value = row[key];
+    if (condition instanceof Date) {
+      return value instanceof Date && value.getTime() === condition.getTime();
+    }
+    if (condition && typeof condition === 'object') {
+      if ('in' in condition && condition.in.indexOf(value) === -1) return false;
+      if ('lte' in condition && !(value <= condition.lte)) return false;
+      if ('lt' in condition && !(value < condition.lt)) return false;
+      if ('gte' in condition && !(value >= condition.gte)) return false;
+      return true;
+    }
+    return value === condition;
+  });
+}
+
+function mockApply(row: any, data: any) {
+  Object.keys(data).forEach(key => {
+    const value = data[key];
+    if (value && typeof value === 'object' && 'increment' in value) {
+      row[key] += value.increment;
+    } else if (value !== undefined) {
+      row[key] = value;
+    }
+  });
+  return row;
+}
+
+jest.mock('@/lib/config/env', () => ({
+  env: {
+    JOB_QUEUE_CONCURRENCY: 2,
+    JOB_QUEUE_RATE_LIMIT_PER_MINUTE: 10,
+    JOB_QUEUE_MAX_ATTEMPTS: 3,
+    JOB_QUEUE_RETRY_BASE_MS: 1000,
+    JOB_QUEUE_JOB_TIMEOUT_MS: 50,
+    JOB_QUEUE_WORKER_BUDGET_MS: 5000,
+  },
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    job: {
+      findFirst: jest.fn(async ({ where }: any) =>
+        mockDb.jobs.filter(row => mockMatches(row, where))[0] || null
+      ),
+      findMany: jest.fn(async ({ where, take }: any) =>
+        mockDb.jobs
+          .filter(row => mockMatches(row, where))
+          .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+          .slice(0, take ?? undefined)
+      ),
+      findUnique: jest.fn(async ({ where }: any) => mockDb.jobs.find(row => row.id === where.id) || null),
+      count: jest.fn(async ({ where }: any) => mockDb.jobs.filter(row => mockMatches(row, where)).length),
+      create: jest.fn(async ({ data }: any) => {
+        // 부분 유니크 인덱스 jobs_type_botId_active_key
+        const duplicate = data.botId && mockDb.jobs.some(row =>
+          row.type === data.type && row.botId === data.botId && ['QUEUED', 'RUNNING'].indexOf(row.status) !== -1
+        );
+        if (duplicate) {
+          throw Object.assign(new Error('Unique constraint failed on the fields: (`type`,`botId`)'), { code: 'P2002' });
+        }
+
+        const job = {
+          id: `job-${++mockSequence}`,
+          botId: null,
+          payload: null,
+          status: 'QUEUED',
+          attempts: 0,
+          lockedAt: null,
+          lockedBy: null,
+          lastError: null,
+          result: null,
+          completedAt: null,
+          createdAt: new Date(),
+          ...data,
+        };
+        mockDb.jobs.push(job);
+        return job;
+      }),
+      update: jest.fn(async ({ where, data }: any) =>
+        mockApply(mockDb.jobs.find(row => row.id === where.id), data)
+      ),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const rows = mockDb.jobs.filter(row => mockMatches(row, where));
+        rows.forEach(row => mockApply(row, data));
+        return { count: rows.length };
+      }),
+    },
+    jobAttempt: {
+      findFirst: jest.fn(async ({ where }: any) =>
+        mockDb.attempts.filter(row => mockMatches(row, where)).sort((a, b) => a.attempt - b.attempt)[0] || null
+      ),
+      count: jest.fn(async ({ where }: any) => mockDb.attempts.filter(row => mockMatches(row, where)).length),
+      create: jest.fn(async ({ data }: any) => {
+        const attempt = { id: `attempt-${++mockSequence}`, startedAt: new Date(), success: null, error: null, ...data };
+        mockDb.attempts.push(attempt);
+        return attempt;
+      }),
+      update: jest.fn(async ({ where, data }: any) =>
+        mockApply(mockDb.attempts.find(row => row.id === where.id), data)
+      ),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const rows = mockDb.attempts.filter(row => mockMatches(row, where));
+        rows.forEach(row => mockApply(row, data));
+        return { count: rows.length };
+      }),
+    },
+    trade: {
+      count: jest.fn(async ({ where }: any) => mockDb.trades.filter(row => mockMatches(row, where)).length),
+    },
+    botRun: {
+      findFirst: jest.fn(async ({ where }: any) => mockDb.runs.filter(row => mockMatches(row, where))[0] || null),
+      create: jest.fn(async ({ data }: any) => {
+        const run = { id: `run-${++mockSequence}`, ...data };
+        mockDb.runs.push(run);
+        return run;
+      }),
+    },
+    tradingControl: {
+      findUnique: jest.fn(async () => mockDb.control),
+      create: jest.fn(async ({ data }: any) => (mockDb.control = { halted: false, haltReason: null, ...data })),
+    },
+    bot: {
+      findMany: jest.fn(async () => mockDb.bots.filter(bot => bot.status === 'ACTIVE').map(bot => ({ id: bot.id }))),
+      findUnique: jest.fn(async ({ where }: any) => mockDb.bots.find(bot => bot.id === where.id) || null),
+      update: jest.fn(async ({ where, data }: any) =>
+        mockApply(mockDb.bots.find(bot => bot.id === where.id), data)
+      ),
+    },
+  },
+}));
+
+const mockRunBot = jest.fn();
+jest.mock('@/lib/services/botExecutionService', () => ({
+  botExecutionService: { runBot: (botId: string, context?: any) => mockRunBot(botId, context) },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { jobQueueService } from '@/lib/services/jobQueueService';
+import { enqueueBotsForTimeHorizon } from '@/lib/services/cronExecutor';
+
+// enqueue()는 JobType으로 제한되므로 테스트용 작업 타입은 직접 생성
+const prismaJobCreate = (data: any) => (prisma.job.create as any)({ data });
+
+describe('Job queue', () => {
+  beforeEach(() => {
+    mockDb.jobs = [];
+    mockDb.attempts = [];
+    mockDb.runs = [];
+    mockDb.trades = [];
+    mockDb.control = null;
+    mockDb.bots = [
+      { id: 'bot-1', status: 'ACTIVE', lastExecutedAt: null },
+      { id: 'bot-2', status: 'ACTIVE', lastExecutedAt: null },
+      { id: 'bot-3', status: 'ACTIVE', lastExecutedAt: null },
+    ];
+    mockRunBot.mockReset();
+    mockRunBot.mockImplementation(async (botId: string) => ({
+      botId,
+      botName: botId,
+      runId: `run-${botId}`,
+      currentPrice: 100,
+      priceSource: 'simulated',
+      report: { finalDecision: 'HOLD', reason: 'No signal', tradeExecuted: false },
+    }));
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should enqueue one job per active bot and skip bots that already have one pending', async () => {
+    const first = await enqueueBotsForTimeHorizon('SWING');
+    const second = await enqueueBotsForTimeHorizon('SWING');
+
+    expect(first).toMatchObject({ success: true, botsFound: 3, jobsEnqueued: 3, jobsSkipped: 0 });
+    expect(second).toMatchObject({ success: true, botsFound: 3, jobsEnqueued: 0, jobsSkipped: 3 });
+    expect(mockDb.jobs).toHaveLength(3);
+    expect(mockDb.jobs[0].payload).toEqual({ timeHorizon: 'SWING', trigger: 'cron' });
+    expect(mockRunBot).not.toHaveBeenCalled();
+  });
+
+  it('should run bot jobs in batches no larger than the concurrency limit', async () => {
+    await enqueueBotsForTimeHorizon('SWING');
+
+    let running = 0;
+    let maxRunning = 0;
+    mockRunBot.mockImplementation(async (botId: string) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return { botId, botName: botId, currentPrice: 100, priceSource: 'simulated', report: { finalDecision: 'BUY', reason: 'RSI < 30' } };
+    });
+
+    const result = await jobQueueService.processQueue();
+
+    expect(result).toMatchObject({ claimed: 3, succeeded: 3, failed: 0, retried: 0, stoppedBy: 'empty' });
+    expect(maxRunning).toBe(2);
+    expect(mockDb.jobs.every(job => job.status === 'SUCCEEDED')).toBe(true);
+    expect(mockDb.jobs[0].result).toMatchObject({ decision: 'BUY', priceSource: 'simulated' });
+    expect(mockDb.bots.every(bot => bot.lastExecutedAt instanceof Date)).toBe(true);
+    expect(mockDb.attempts).toHaveLength(3);
+  });
+
+  it('should stop when the per-minute rate budget is spent', async () => {
+    await enqueueBotsForTimeHorizon('SWING');
+
+    const result = await jobQueueService.processQueue({ rateLimitPerMinute: 1 });
+
+    expect(result).toMatchObject({ claimed: 1, succeeded: 1, stoppedBy: 'rate_limit' });
+    expect(mockDb.jobs.filter(job => job.status === 'QUEUED')).toHaveLength(2);
+  });
+
+  it('should retry failures with exponential backoff and record every attempt', async () => {
+    mockDb.bots = [mockDb.bots[0]];
+    await enqueueBotsForTimeHorizon('SWING');
+    mockRunBot.mockRejectedValue(new Error('Alpha Vantage rate limit'));
+
+    const first = await jobQueueService.processQueue();
+    const job = mockDb.jobs[0];
+
+    expect(first).toMatchObject({ claimed: 1, retried: 1 });
+    expect(job.status).toBe('QUEUED');
+    expect(job.attempts).toBe(1);
+    expect(job.lastError).toBe('Alpha Vantage rate limit');
+    expect(job.runAt.getTime() - Date.now()).toBeGreaterThan(900);
+
+    // Second attempt backs off 2x the base, third attempt exhausts the job
+    job.runAt = new Date(0);
+    await jobQueueService.processQueue();
+    expect(job.runAt.getTime() - Date.now()).toBeGreaterThan(1900);
+
+    job.runAt = new Date(0);
+    const last = await jobQueueService.processQueue();
+
+    expect(last.failed).toBe(1);
+    expect(job.status).toBe('FAILED');
+    expect(job.completedAt).toBeInstanceOf(Date);
+    expect(mockDb.attempts.map(attempt => [attempt.attempt, attempt.success])).toEqual([[1, false], [2, false], [3, false]]);
+  });
+
+  it('should time out slow bot runs and fail them and missing bots without retrying', async () => {
+    await jobQueueService.enqueue('BOT_RUN', { botId: 'bot-1' });
+    await jobQueueService.enqueue('BOT_RUN', { botId: 'bot-missing' });
+    mockRunBot.mockImplementation(() => new Promise(() => undefined));
+
+    const result = await jobQueueService.processQueue();
+
+    // 시간 초과된 실행은 백그라운드에서 계속될 수 있으므로 재시도하면 주문이 중복될 수 있음
+    expect(result).toMatchObject({ claimed: 2, retried: 0, failed: 2 });
+    expect(mockDb.jobs[0]).toMatchObject({ status: 'FAILED', attempts: 1, lastError: 'Job timed out after 50ms' });
+    expect(mockDb.jobs[1]).toMatchObject({ status: 'FAILED', attempts: 1, lastError: 'Bot not found: bot-missing' });
+  });
+
+  it('should retry timeouts of other job types', async () => {
+    jobQueueService.registerHandler('SLOW_TEST', () => new Promise(() => undefined));
+    const job = await prismaJobCreate({ type: 'SLOW_TEST', maxAttempts: 3, runAt: new Date() });
+
+    const result = await jobQueueService.processQueue();
+
+    expect(result).toMatchObject({ claimed: 1, retried: 1 });
+    expect(job).toMatchObject({ status: 'QUEUED', lastError: 'Job timed out after 50ms' });
+  });
+
+  it('should not retry a bot run once it has submitted an order', async () => {
+    mockDb.bots = [mockDb.bots[0]];
+    await enqueueBotsForTimeHorizon('SWING');
+    mockRunBot.mockImplementation(async (botId: string) => {
+      mockDb.trades.push({ id: 'trade-1', botId, createdAt: new Date() });
+      throw new Error('Report save failed');
+    });
+
+    const result = await jobQueueService.processQueue();
+
+    expect(result).toMatchObject({ claimed: 1, retried: 0, failed: 1 });
+    expect(mockDb.jobs[0]).toMatchObject({
+      status: 'FAILED',
+      attempts: 1,
+      lastError: 'Report save failed (not retried: 1 order(s) already submitted for bot bot-1)',
+    });
+  });
+
+  it('should pass the cron context to the run and record a skipped run for paused bots', async () => {
+    await enqueueBotsForTimeHorizon('SHORT_TERM');
+    mockDb.bots[1].status = 'PAUSED';
+
+    const result = await jobQueueService.processQueue();
+
+    expect(result.succeeded).toBe(3);
+    expect(mockRunBot).toHaveBeenCalledTimes(2);
+    expect(mockRunBot).toHaveBeenCalledWith('bot-1', { trigger: 'CRON', timeHorizon: 'SHORT_TERM', jobId: mockDb.jobs[0].id });
+    expect(mockDb.jobs[0].result).toMatchObject({ runId: 'run-bot-1' });
+
+    expect(mockDb.runs).toHaveLength(1);
+    expect(mockDb.runs[0]).toMatchObject({
+      botId: 'bot-2',
+      trigger: 'CRON',
+      timeHorizon: 'SHORT_TERM',
+      jobId: mockDb.jobs[1].id,
+      status: 'SKIPPED',
+      outcome: 'Skipped: bot is PAUSED',
+    });
+  });
+
+  it('should not enqueue while trading is halted and skip jobs queued before the halt', async () => {
+    await enqueueBotsForTimeHorizon('SWING');
+    mockDb.control = { id: 'global', halted: true, haltReason: '5 consecutive order failures' };
+
+    const enqueue = await enqueueBotsForTimeHorizon('SWING');
+    const result = await jobQueueService.processQueue();
+
+    expect(enqueue).toMatchObject({ success: false, halted: true, jobsEnqueued: 0 });
+    expect(result).toMatchObject({ claimed: 3, succeeded: 3 });
+    expect(mockRunBot).not.toHaveBeenCalled();
+    expect(mockDb.jobs[0].result).toMatchObject({ skipped: true, reason: 'Trading halted: 5 consecutive order failures' });
+    expect(mockDb.runs.map(run => run.outcome)).toEqual(
+      new Array(3).fill('Skipped: trading halted (5 consecutive order failures)')
+    );
+  });
+
+  it('should recover jobs left running by a dead worker', async () => {
+    const { job } = await jobQueueService.enqueue('BOT_RUN', { botId: 'bot-1' });
+    Object.assign(job, { status: 'RUNNING', attempts: 1, lockedAt: new Date(Date.now() - 60 * 1000), lockedBy: 'worker-dead' });
+    mockDb.attempts.push({ id: 'attempt-dead', jobId: job.id, attempt: 1, startedAt: new Date(Date.now() - 60 * 1000), success: null });
+
+    const result = await jobQueueService.processQueue();
+
+    expect(result.recovered).toBe(1);
+    expect(mockDb.attempts[0]).toMatchObject({ success: false, error: 'Worker worker-dead stopped before finishing' });
+    expect(job.status).toBe('QUEUED');
+    expect(job.attempts).toBe(1);
+  });
+
+  it('should return the winning job when two enqueues for the same bot race', async () => {
+    const [first, second] = await Promise.all([
+      jobQueueService.enqueue('BOT_RUN', { botId: 'bot-1' }),
+      jobQueueService.enqueue('BOT_RUN', { botId: 'bot-1' }),
+    ]);
+
+    expect(mockDb.jobs).toHaveLength(1);
+    expect([first.created, second.created].sort()).toEqual([false, true]);
+    expect(second.job.id).toBe(first.job.id);
+  });
+
+  it('should leave a stale job alone when its worker finishes during recovery', async () => {
+    const { job } = await jobQueueService.enqueue('BOT_RUN', { botId: 'bot-1' });
+    Object.assign(job, { status: 'RUNNING', attempts: 1, lockedAt: new Date(Date.now() - 60 * 1000), lockedBy: 'worker-slow' });
+    mockDb.attempts.push({ id: 'attempt-slow', jobId: job.id, attempt: 1, startedAt: new Date(Date.now() - 60 * 1000), success: null });
+
+    // 재시도 확인 중에 느린 워커가 작업을 완료
+    (prisma.botRun.findFirst as any).mockImplementationOnce(async () => {
+      Object.assign(job, { status: 'SUCCEEDED', lockedAt: null, lockedBy: null, completedAt: new Date() });
+      mockDb.attempts[0].success = true;
+      return null;
+    });
+
+    const result = await jobQueueService.processQueue();
+
+    expect(result).toMatchObject({ recovered: 0, claimed: 0 });
+    expect(job).toMatchObject({ status: 'SUCCEEDED', lastError: null });
+    expect(mockDb.attempts[0].success).toBe(true);
+  });
+
+  it('should not retry a crashed bot run that had already started executing', async () => {
+    const { job } = await jobQueueService.enqueue('BOT_RUN', { botId: 'bot-1' });
+    Object.assign(job, { status: 'RUNNING', attempts: 1, lockedAt: new Date(Date.now() - 60 * 1000), lockedBy: 'worker-dead' });
+    mockDb.attempts.push({ id: 'attempt-dead', jobId: job.id, attempt: 1, startedAt: new Date(Date.now() - 60 * 1000), success: null });
+    // 주문 전송 후 Trade 기록 전에 워커가 죽었을 수 있음
+    mockDb.runs.push({ id: 'run-crashed', botId: 'bot-1', jobId: job.id, status: 'RUNNING' });
+
+    const result = await jobQueueService.processQueue();
+
+    expect(result).toMatchObject({ recovered: 1, claimed: 0 });
+    expect(mockRunBot).not.toHaveBeenCalled();
+    expect(job).toMatchObject({
+      status: 'FAILED',
+      attempts: 1,
+      lastError: 'Worker worker-dead stopped before finishing (not retried: bot run run-crashed may have submitted orders before the worker stopped)',
+    });
+    expect(mockDb.attempts[0]).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for the kill switch and its circuit breakers (killSwitchService)
+ *
+ * In-memory Prisma stand-in - no database access.
+ */
+
+const mockDb: { control: any; events: any[]; peaks: Record<string, any> } = { control: null, events: [], peaks: {} };
+
+function mockApply(row: any, data: any) {
+  Object.keys(data).forEach(key => {
+    const value = data[key];
+    if (value && typeof value === 'object' && 'increment' in value) {
+      row[key] += value.increment;
+    } else if (value !== undefined) {
+      row[key] = value;
+    }
+  });
+  return row;
+}
+
+jest.mock('@/lib/config/env', () => ({
+  env: {
+    KILL_SWITCH_MAX_ORDER_FAILURES: 3,
+    KILL_SWITCH_MAX_DRAWDOWN_PERCENT: 5,
+    KILL_SWITCH_MAX_STALE_PRICES: 2,
+  },
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    tradingControl: {
+      findUnique: jest.fn(async () => mockDb.control && { ...mockDb.control }),
+      create: jest.fn(async ({ data }: any) => {
+        if (mockDb.control) {
+          throw Object.assign(new Error('Unique constraint failed on the fields: (`id`)'), { code: 'P2002' });
+        }
+        mockDb.control = {
+          halted: false,
+          haltedAt: null,
+          haltTrigger: null,
+          haltReason: null,
+          consecutiveOrderFailures: 0,
+          consecutiveStalePrices: 0,
+          ...data,
+        };
+        return mockDb.control;
+      }),
+      update: jest.fn(async ({ data }: any) => ({ ...mockApply(mockDb.control, data) })),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        if (mockDb.control.halted !== where.halted) return { count: 0 };
+        mockApply(mockDb.control, data);
+        return { count: 1 };
+      }),
+    },
+    equityPeak: {
+      // Conditional writes are evaluated per row, like the database does
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const row = mockDb.peaks[where.broker];
+        if (!row) return { count: 0 };
+        const dateMatches = typeof where.date === 'string' ? row.date === where.date : row.date < where.date.lt;
+        const equityMatches = !where.equity || row.equity < where.equity.lt;
+        if (!dateMatches || !equityMatches) return { count: 0 };
+        mockApply(row, data);
+        return { count: 1 };
+      }),
+      findUnique: jest.fn(async ({ where }: any) => mockDb.peaks[where.broker] && { ...mockDb.peaks[where.broker] }),
+      create: jest.fn(async ({ data }: any) => {
+        if (mockDb.peaks[data.broker]) {
+          throw Object.assign(new Error('Unique constraint failed on the fields: (`broker`)'), { code: 'P2002' });
+        }
+        mockDb.peaks[data.broker] = { ...data };
+        return { ...data };
+      }),
+    },
+    tradingHaltEvent: {
+      create: jest.fn(async ({ data }: any) => {
+        const event = { id: `event-${mockDb.events.length + 1}`, createdAt: new Date(), ...data };
+        mockDb.events.push(event);
+        return event;
+      }),
+      findMany: jest.fn(async () => mockDb.events.slice().reverse()),
+    },
+  },
+}));
+
+import { killSwitchService } from '@/lib/services/killSwitchService';
+
+function account(equity: number, lastEquity: number) {
+  return { cash: 0, portfolioValue: equity, equity, lastEquity, buyingPower: 0, daytradeCount: 0 };
+}
+
+describe('Kill switch', () => {
+  beforeEach(() => {
+    mockDb.control = null;
+    mockDb.events = [];
+    mockDb.peaks = {};
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should halt until an explicit resume and log every trip and resume once', async () => {
+    await killSwitchService.trip('MANUAL', 'Bad news day', { actor: 'ops' });
+    await killSwitchService.trip('ORDER_FAILURES', 'second trip while halted');
+
+    await expect(killSwitchService.assertTradingAllowed()).rejects.toThrow('Trading halted: Bad news day');
+
+    await killSwitchService.resume('News digested', 'ops');
+    await killSwitchService.resume('already running');
+
+    const status = await killSwitchService.getStatus();
+    expect(status.halted).toBe(false);
+    await expect(killSwitchService.assertTradingAllowed()).resolves.toBeUndefined();
+    expect(mockDb.events.map(event => [event.action, event.trigger, event.reason])).toEqual([
+      ['TRIP', 'MANUAL', 'Bad news day'],
+      ['RESUME', 'MANUAL', 'News digested'],
+    ]);
+    expect(mockDb.events[1].details).toMatchObject({ haltTrigger: 'MANUAL', haltReason: 'Bad news day' });
+  });
+
+  it('should trip after N consecutive order failures and reset the count on success', async () => {
+    await killSwitchService.recordOrderResult(false, 'insufficient buying power');
+    await killSwitchService.recordOrderResult(false, 'insufficient buying power');
+    await killSwitchService.recordOrderResult(true);
+    expect(mockDb.control).toMatchObject({ halted: false, consecutiveOrderFailures: 0 });
+
+    await killSwitchService.recordOrderResult(false, 'timeout');
+    await killSwitchService.recordOrderResult(false, 'timeout');
+    await killSwitchService.recordOrderResult(false, 'broker 503');
+
+    expect(mockDb.control).toMatchObject({ halted: true, haltTrigger: 'ORDER_FAILURES' });
+    expect(mockDb.control.haltReason).toBe('3 consecutive order failures (last: broker 503)');
+
+    // Resume clears the counters
+    await killSwitchService.resume('Broker recovered');
+    expect(mockDb.control).toMatchObject({ halted: false, consecutiveOrderFailures: 0 });
+  });
+
+  it('should trip on consecutive stale price lookups', async () => {
+    await killSwitchService.recordPriceCheck('AAPL', false, 'Alpha Vantage');
+    expect(mockDb.control.halted).toBe(false);
+
+    await killSwitchService.recordPriceCheck('MSFT', false, 'unknown');
+
+    expect(mockDb.control).toMatchObject({ halted: true, haltTrigger: 'STALE_PRICE_DATA' });
+    expect(mockDb.events[0].details).toEqual({ consecutiveStalePrices: 2, symbol: 'MSFT', source: 'unknown' });
+  });
+
+  it('should trip when equity falls too far below the intraday peak', async () => {
+    // Peak starts at yesterday's close, then rises intraday
+    expect(await killSwitchService.checkEquityDrawdown('alpaca', account(100000, 100000))).toBe(false);
+    expect(await killSwitchService.checkEquityDrawdown('alpaca', account(110000, 100000))).toBe(false);
+    // 4.5% below the 110k peak (still above yesterday's close)
+    expect(await killSwitchService.checkEquityDrawdown('alpaca', account(105050, 100000))).toBe(false);
+    // Another broker account keeps its own peak
+    expect(await killSwitchService.checkEquityDrawdown('simulated', account(50000, 50000))).toBe(false);
+
+    expect(await killSwitchService.checkEquityDrawdown('alpaca', account(104000, 100000))).toBe(true);
+    expect(mockDb.control).toMatchObject({ halted: true, haltTrigger: 'EQUITY_DRAWDOWN' });
+    expect(mockDb.events[0].details).toMatchObject({ broker: 'alpaca', equity: 104000, peak: 110000 });
+  });
+
+  it('should keep the higher peak when bot runs check equity concurrently', async () => {
+    await Promise.all([
+      killSwitchService.checkEquityDrawdown('alpaca', account(110000, 100000)),
+      killSwitchService.checkEquityDrawdown('alpaca', account(100500, 100000)),
+      killSwitchService.checkEquityDrawdown('alpaca', account(108000, 100000)),
+    ]);
+
+    expect(mockDb.peaks.alpaca.equity).toBe(110000);
+    expect(await killSwitchService.checkEquityDrawdown('alpaca', account(104000, 100000))).toBe(true);
+  });
+
+  it('should share the control row when first-time callers race to create it', async () => {
+    const [first, second] = await Promise.all([killSwitchService.getControl(), killSwitchService.getControl()]);
+
+    expect(first.id).toBe('global');
+    expect(second.id).toBe('global');
+  });
+
+  it('should restart the peak from the previous close on a new day', async () => {
+    mockDb.peaks.alpaca = { broker: 'alpaca', date: '2000-01-03', equity: 150000 };
+
+    expect(await killSwitchService.checkEquityDrawdown('alpaca', account(99000, 100000))).toBe(false);
+    expect(mockDb.peaks.alpaca).toMatchObject({ date: new Date().toISOString().slice(0, 10), equity: 100000 });
+  });
+});
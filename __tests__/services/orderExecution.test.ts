@@ -0,0 +1,273 @@
+/**
+ * Unit tests for live order execution (orderExecutionService)
+ *
+ * Prisma, broker and kill switch are mocked - no database or broker access.
+ */
+
+const mockDb: { executions: any[]; trades: any[]; positions: any[]; bars: any[] } = {
+  executions: [],
+  trades: [],
+  positions: [],
+  bars: [],
+};
+
+const mockBroker = {
+  name: 'simulated',
+  orders: {} as Record<string, any>,
+  getLatestPrice: jest.fn(async () => 100),
+  getOrder: jest.fn(async (id: string): Promise<any> => ({ ...mockBroker.orders[id] })),
+  cancelOrder: jest.fn(async (id: string) => {
+    mockBroker.orders[id].status = 'canceled';
+  }),
+  placeLimitOrder: jest.fn(async () => ({ success: true, orderId: 'order-limit-2', message: 'ok' })),
+  executeTrade: jest.fn(async () => ({ success: true, orderId: 'order-market', message: 'ok' })),
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    orderExecution: {
+      findMany: jest.fn(async ({ where }: any) =>
+        mockDb.executions.filter(row => (!where.status || row.status === where.status) && (!where.botId || row.botId === where.botId))
+          .map(row => ({ ...row }))
+      ),
+      create: jest.fn(async ({ data }: any) => {
+        const row = { id: `execution-${mockDb.executions.length + 1}`, status: 'WORKING', attempts: 1, filledQuantity: 0, ...data };
+        mockDb.executions.push(row);
+        return { ...row };
+      }),
+      update: jest.fn(async ({ where, data }: any) =>
+        ({ ...Object.assign(mockDb.executions.find(row => row.id === where.id), data) })
+      ),
+    },
+    trade: {
+      findFirst: jest.fn(async ({ where }: any) => mockDb.trades.find(trade => trade.alpacaOrderId === where.alpacaOrderId) || null),
+      create: jest.fn(async ({ data }: any) => {
+        mockDb.trades.push(data);
+        return data;
+      }),
+    },
+    position: {
+      findUnique: jest.fn(async ({ where }: any) =>
+        mockDb.positions.find(row => row.botId === where.botId_symbol.botId && row.symbol === where.botId_symbol.symbol) || null
+      ),
+    },
+    marketData: {
+      findMany: jest.fn(async () => mockDb.bars.slice().reverse()),
+    },
+  },
+}));
+
+jest.mock('@/lib/services/brokers', () => ({
+  getBrokerForBot: jest.fn(async () => mockBroker),
+}));
+
+jest.mock('@/lib/services/killSwitchService', () => ({
+  killSwitchService: { isHalted: jest.fn(async () => false) },
+}));
+
+jest.mock('@/lib/services/positionReconciliationService', () => ({
+  positionReconciliationService: { syncBotPosition: jest.fn(async () => ({})) },
+}));
+
+jest.mock('@/lib/services/protectiveOrderService', () => ({
+  protectiveOrderService: {
+    planEntry: jest.fn(async () => null),
+    planReplacement: jest.fn(async () => null),
+    releaseForExit: jest.fn(async () => 0),
+    recordLegs: jest.fn(async () => 0),
+  },
+}));
+
+import { orderExecutionService, summarizeExecutions } from '@/lib/services/orderExecutionService';
+import { protectiveOrderService } from '@/lib/services/protectiveOrderService';
+
+const HOUR = 60 * 60 * 1000;
+const submittedAt = new Date('2025-03-03T15:00:00Z');
+
+function bars(count: number) {
+  return Array.from({ length: count }, (_, index) => ({
+    timestamp: new Date(submittedAt.getTime() - (count - index) * HOUR),
+    open: 100,
+    high: 101,
+    low: 99,
+    close: 100,
+    volume: 1000,
+  }));
+}
+
+function workingBuy(overrides: Record<string, any> = {}) {
+  return {
+    id: 'execution-buy',
+    botId: 'bot-1',
+    symbol: 'AAPL',
+    side: 'BUY',
+    quantity: 10,
+    status: 'WORKING',
+    referencePrice: 100,
+    initialLimitPrice: 100.1,
+    lastLimitPrice: 100.1,
+    initialOrderType: 'limit',
+    marketFallback: false,
+    attempts: 1,
+    currentOrderId: 'order-limit-1',
+    orderIds: ['order-limit-1'],
+    filledQuantity: 0,
+    filledAvgPrice: null,
+    lastSubmittedAt: submittedAt,
+    createdAt: submittedAt,
+    ...overrides,
+  };
+}
+
+describe('Order execution service', () => {
+  beforeEach(() => {
+    mockDb.executions = [];
+    mockDb.trades = [{ botId: 'bot-1', alpacaOrderId: 'order-limit-1', reason: 'AI buy' }];
+    mockDb.positions = [];
+    mockDb.bars = bars(30);
+    mockBroker.orders = {
+      'order-limit-1': { id: 'order-limit-1', type: 'limit', status: 'new', filled_qty: '0', filled_avg_price: null, filled_at: null },
+    };
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should price buys slightly above the market and record the execution', async () => {
+    const plan = await orderExecutionService.planOrder(
+      { symbol: 'AAPL', action: 'BUY', quantity: 7, limitPrice: 99.5, botId: 'bot-1', finalScore: 85, rsi: 45 },
+      mockBroker as any
+    );
+
+    expect(plan.referencePrice).toBe(100);
+    expect(plan.order).toMatchObject({ type: 'limit', side: 'buy', qty: 7 });
+    expect(plan.order.limit_price).toBeGreaterThan(100);
+    expect(plan.order.limit_price).toBeLessThanOrEqual(100.2);
+
+    const result = await orderExecutionService.submit(plan, mockBroker as any, 'bot-1');
+
+    expect(result).toMatchObject({ success: true, orderId: 'order-limit-2', orderType: 'limit', executionId: 'execution-1' });
+    expect(mockDb.executions[0]).toMatchObject({ botId: 'bot-1', side: 'BUY', referencePrice: 100, initialOrderType: 'limit', orderIds: ['order-limit-2'] });
+  });
+
+  it('should not sell while protective legs could not be cancelled', async () => {
+    (protectiveOrderService.releaseForExit as any).mockRejectedValueOnce(
+      new Error('Failed to cancel 1 protective order(s) for AAPL: leg-stop')
+    );
+    const plan = await orderExecutionService.planOrder(
+      { symbol: 'AAPL', action: 'SELL', quantity: 4, limitPrice: 100, botId: 'bot-1', finalScore: 60 },
+      mockBroker as any
+    );
+
+    const result = await orderExecutionService.submit(plan, mockBroker as any, 'bot-1');
+
+    expect(result).toMatchObject({ success: false, error: 'Failed to cancel 1 protective order(s) for AAPL: leg-stop' });
+    expect(mockBroker.placeLimitOrder).not.toHaveBeenCalled();
+    expect(mockBroker.executeTrade).not.toHaveBeenCalled();
+    expect(mockDb.executions).toHaveLength(0);
+  });
+
+  it('should exit with a market order below the stop loss', async () => {
+    mockDb.positions = [{ botId: 'bot-1', symbol: 'AAPL', quantity: 10, avgEntryPrice: 120, createdAt: submittedAt }];
+
+    const plan = await orderExecutionService.planOrder(
+      { symbol: 'AAPL', action: 'SELL', quantity: 4, limitPrice: 100, botId: 'bot-1', finalScore: 60 },
+      mockBroker as any
+    );
+
+    expect(plan.order).toMatchObject({ type: 'market', side: 'sell', qty: 4 });
+  });
+
+  it('should leave limit orders alone until the timeout, then cancel and reprice', async () => {
+    mockDb.executions = [workingBuy()];
+
+    const early = await orderExecutionService.manageWorkingExecutions(new Date(submittedAt.getTime() + 30 * 60 * 1000));
+    expect(early).toMatchObject({ checked: 1, repriced: 0, completed: 0 });
+    expect(mockBroker.cancelOrder).not.toHaveBeenCalled();
+
+    const late = await orderExecutionService.manageWorkingExecutions(new Date(submittedAt.getTime() + 2 * HOUR));
+
+    expect(late).toMatchObject({ repriced: 1, marketFallbacks: 0 });
+    expect(mockBroker.cancelOrder).toHaveBeenCalledWith('order-limit-1');
+    expect(mockBroker.placeLimitOrder).toHaveBeenCalledWith('AAPL', 10, 'buy', expect.any(Number), 'bot-1');
+    expect(mockDb.executions[0]).toMatchObject({ attempts: 2, currentOrderId: 'order-limit-2', orderIds: ['order-limit-1', 'order-limit-2'] });
+    expect(mockDb.trades[1]).toMatchObject({
+      alpacaOrderId: 'order-limit-2',
+      replacesOrderId: 'order-limit-1',
+      quantity: 10,
+      status: 'PENDING',
+      reason: 'AI buy',
+    });
+  });
+
+  it('should attach the bracket legs of the entry to its replacement order', async () => {
+    mockDb.executions = [workingBuy()];
+    (protectiveOrderService.planReplacement as any).mockResolvedValueOnce({
+      stopPrice: 95, takeProfitPrice: 110, trailPercent: null,
+    });
+    mockBroker.executeTrade.mockResolvedValueOnce({
+      success: true, orderId: 'order-bracket-2', message: 'ok', data: { id: 'order-bracket-2', legs: [] },
+    } as any);
+
+    const result = await orderExecutionService.manageWorkingExecutions(new Date(submittedAt.getTime() + 2 * HOUR));
+
+    expect(result.repriced).toBe(1);
+    expect(protectiveOrderService.planReplacement).toHaveBeenCalledWith('bot-1', 'AAPL', 'order-limit-1', expect.any(Number));
+    expect(mockBroker.placeLimitOrder).not.toHaveBeenCalled();
+    expect(mockBroker.executeTrade).toHaveBeenCalledWith(expect.objectContaining({
+      symbol: 'AAPL', qty: 10, side: 'buy', type: 'limit', orderClass: 'bracket', stopLossPrice: 95, takeProfitPrice: 110,
+    }));
+    expect(protectiveOrderService.recordLegs).toHaveBeenCalledWith(
+      'bot-1', 'AAPL', { id: 'order-bracket-2', legs: [] }, false, expect.any(Number)
+    );
+    expect(mockDb.trades[1]).toMatchObject({ alpacaOrderId: 'order-bracket-2', replacesOrderId: 'order-limit-1' });
+  });
+
+  it('should send the unfilled remainder as a market order after the last limit attempt', async () => {
+    mockDb.executions = [workingBuy({ attempts: 3 })];
+    mockBroker.orders['order-limit-1'] = {
+      id: 'order-limit-1', type: 'limit', status: 'canceled', filled_qty: '4', filled_avg_price: '100.05', filled_at: null,
+    };
+
+    const result = await orderExecutionService.manageWorkingExecutions(new Date(submittedAt.getTime() + 10 * 60 * 1000));
+
+    expect(result.marketFallbacks).toBe(1);
+    expect(mockBroker.executeTrade).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'AAPL', qty: 6, side: 'buy', type: 'market' }));
+    expect(mockDb.executions[0]).toMatchObject({ marketFallback: true, filledQuantity: 4, filledAvgPrice: 100.05, currentOrderId: 'order-market' });
+  });
+
+  it('should measure slippage and price improvement once the order fills', async () => {
+    mockDb.executions = [workingBuy({ filledQuantity: 4, filledAvgPrice: 100, attempts: 2 })];
+    mockBroker.orders['order-limit-1'] = {
+      id: 'order-limit-1', type: 'limit', status: 'filled', filled_qty: '6', filled_avg_price: '100.05',
+      filled_at: new Date(submittedAt.getTime() + 20 * 60 * 1000).toISOString(),
+    };
+
+    await orderExecutionService.manageWorkingExecutions(new Date(submittedAt.getTime() + HOUR));
+
+    const execution = mockDb.executions[0];
+    expect(execution).toMatchObject({ status: 'FILLED', filledQuantity: 10, fillTimeMs: 20 * 60 * 1000 });
+    expect(execution.filledAvgPrice).toBeCloseTo(100.03);
+    expect(execution.slippage).toBeCloseTo(0.0003);
+    expect(execution.priceImprovement).toBeCloseTo(0.07 / 100.1);
+  });
+
+  it('should summarize execution quality per bot', () => {
+    const summary = summarizeExecutions([
+      workingBuy({ status: 'FILLED', slippage: 0.001, priceImprovement: 0.001, fillTimeMs: 1000 }),
+      workingBuy({ id: 'b', status: 'FILLED', marketFallback: true, slippage: 0.003, priceImprovement: -0.001, fillTimeMs: 3000 }),
+      workingBuy({ id: 'c', side: 'SELL', initialOrderType: 'market', initialLimitPrice: null, status: 'FILLED', slippage: 0.002, priceImprovement: null, fillTimeMs: 2000 }),
+      workingBuy({ id: 'd' }),
+    ] as any);
+
+    expect(summary).toMatchObject({ executions: 4, completed: 3, working: 1, marketFallbacks: 1, missedEntries: 1, emergencyExits: 1 });
+    expect(summary.fillRate).toBeCloseTo(0.5);
+    expect(summary.avgSlippage).toBeCloseTo(0.002);
+    expect(summary.priceImprovement).toBeCloseTo(0);
+    expect(summary.avgFillTime).toBeCloseTo(2000);
+  });
+});
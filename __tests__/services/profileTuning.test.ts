@@ -0,0 +1,222 @@
+/**
+ * Unit tests for the adaptive profile tuning job (profileTuningService)
+ *
+ * Prisma and the saved-profile service are mocked - no database access.
+ */
+
+const mockDb: { bots: any[]; trades: any[]; adjustments: any[]; profiles: any[] } = {
+  bots: [],
+  trades: [],
+  adjustments: [],
+  profiles: [],
+};
+
+jest.mock('@/lib/config/env', () => ({
+  env: {
+    PROFILE_TUNING_INDEX_SYMBOL: 'SPY',
+    PROFILE_TUNING_MIN_TRADES: 3,
+    PROFILE_TUNING_AUTO_APPLY: true,
+    PROFILE_TUNING_MAX_AUTO_CHANGE: 0.2,
+  },
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    bot: {
+      findUnique: jest.fn(async ({ where }: any) => mockDb.bots.find(bot => bot.id === where.id) || null),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(mockDb.bots.find(bot => bot.id === where.id), data)),
+    },
+    trade: {
+      findMany: jest.fn(async ({ where }: any) => mockDb.trades.filter(trade => trade.botId === where.botId)),
+    },
+    profileAdjustment: {
+      findFirst: jest.fn(async () => null),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const rows = mockDb.adjustments.filter(row =>
+          (!where.botId || row.botId === where.botId) &&
+          (!where.id || row.id === where.id) &&
+          row.status === where.status &&
+          (where.appliedProfileId !== null || !row.appliedProfileId)
+        );
+        rows.forEach(row => Object.assign(row, data));
+        return { count: rows.length };
+      }),
+      create: jest.fn(async ({ data }: any) => {
+        const row = { id: `adjustment-${mockDb.adjustments.length + 1}`, status: 'PENDING', ...data };
+        mockDb.adjustments.push(row);
+        return { ...row };
+      }),
+      findUnique: jest.fn(async ({ where }: any) => {
+        const row = mockDb.adjustments.find(adjustment => adjustment.id === where.id);
+        return row ? { ...row, bot: mockDb.bots.find(bot => bot.id === row.botId) } : null;
+      }),
+      update: jest.fn(async ({ where, data }: any) =>
+        ({ ...Object.assign(mockDb.adjustments.find(row => row.id === where.id), data) })
+      ),
+    },
+    tradingProfile: {
+      findUnique: jest.fn(async ({ where }: any) => mockDb.profiles.find(profile => profile.id === where.id) || null),
+    },
+    tradingProfileVersion: {
+      findUnique: jest.fn(async ({ where }: any) => ({
+        id: `${where.profileId_version.profileId}-v${where.profileId_version.version}`,
+        version: where.profileId_version.version,
+      })),
+    },
+  },
+}));
+
+jest.mock('@/lib/services/tradingProfileService', () => {
+  const { TradingProfileBuilder } = jest.requireActual('@/lib/trading-profile-builder');
+  return {
+    tradingProfileService: {
+      resolveForBot: jest.fn(async () => ({
+        profile: TradingProfileBuilder.create({ timeHorizon: 'swing', riskAppetite: 'balanced' }),
+        profileId: null,
+        versionId: null,
+        version: null,
+        timeHorizon: 'SWING',
+      })),
+      createProfile: jest.fn(async (input: any) => {
+        const profile = { id: 'profile-tuned', currentVersion: 1, ...input };
+        mockDb.profiles.push(profile);
+        return profile;
+      }),
+      updateProfile: jest.fn(async (id: string, input: any) => {
+        const profile = mockDb.profiles.find(row => row.id === id);
+        Object.assign(profile, { overrides: input.overrides, currentVersion: profile.currentVersion + 1 });
+        return profile;
+      }),
+    },
+  };
+});
+
+import { profileTuningService, AdjustmentNotPendingError } from '@/lib/services/profileTuningService';
+import { tradingProfileService } from '@/lib/services/tradingProfileService';
+import { TradingProfileBuilder } from '@/lib/trading-profile-builder';
+import { TimeHorizon, RiskAppetite } from '@/lib/trading-profile-types';
+
+const grid = TradingProfileBuilder.create({ timeHorizon: TimeHorizon.SWING, riskAppetite: RiskAppetite.BALANCED });
+
+// count losing round trips of 10 shares bought at 100
+function losingTrades(botId: string, count: number, sellPrice: number) {
+  const trades: any[] = [];
+  for (let i = 0; i < count; i++) {
+    [['BUY', 100], ['SELL', sellPrice]].forEach(([side, price], leg) => {
+      trades.push({
+        botId,
+        side,
+        status: 'FILLED',
+        quantity: 10,
+        price,
+        filledQuantity: 10,
+        filledAvgPrice: price,
+        executedAt: new Date(Date.UTC(2025, 0, 1 + i * 2 + leg)),
+      });
+    });
+  }
+  return trades;
+}
+
+describe('Profile tuning service', () => {
+  beforeEach(() => {
+    mockDb.bots = [
+      { id: 'bot-small', name: 'Small', fundAllocation: 1000, profileId: null, strategy: { timeHorizon: 'SWING', riskAppetite: 'BALANCED' } },
+      { id: 'bot-large', name: 'Large', fundAllocation: 100000, profileId: 'profile-bot', strategy: { timeHorizon: 'SWING', riskAppetite: 'BALANCED' } },
+    ];
+    mockDb.trades = [];
+    mockDb.adjustments = [];
+    mockDb.profiles = [{ id: 'profile-bot', name: 'Bot profile', currentVersion: 1, overrides: { takeProfit: 0.2 } }];
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should skip bots without enough closed trades', async () => {
+    mockDb.trades = losingTrades('bot-small', 2, 80);
+
+    const outcome = await profileTuningService.proposeForBot('bot-small', null);
+
+    expect(outcome).toEqual({ skipped: '2 closed trade(s), need 3' });
+    expect(mockDb.adjustments).toHaveLength(0);
+  });
+
+  it('should keep large changes pending and apply them to a bot-level copy on approval', async () => {
+    // 큰 손실 → 낙폭 한도 초과 → 변화율 20% 초과
+    mockDb.trades = losingTrades('bot-small', 3, 80);
+    mockDb.adjustments.push({ id: 'adjustment-old', botId: 'bot-small', status: 'PENDING' });
+
+    const outcome = await profileTuningService.proposeForBot('bot-small', null);
+
+    expect(outcome).toMatchObject({ adjustment: { status: 'PENDING', profileId: null } });
+    expect(mockDb.adjustments[0].status).toBe('SUPERSEDED');
+
+    const id = mockDb.adjustments[1].id;
+    const applied = await profileTuningService.applyAdjustment(id, 'ops', 'looks right');
+
+    expect(tradingProfileService.createProfile).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'Small (tuned)',
+      overrides: { stopLoss: expect.closeTo(grid.stopLoss * 0.72, 4), maxPositionSize: expect.closeTo(grid.maxPositionSize * 0.63, 4) },
+    }));
+    expect(mockDb.bots[0].profileId).toBe('profile-tuned');
+    expect(applied).toMatchObject({
+      status: 'APPLIED',
+      autoApplied: false,
+      appliedProfileId: 'profile-tuned',
+      appliedVersionId: 'profile-tuned-v1',
+      decidedBy: 'ops',
+    });
+
+    await expect(profileTuningService.rejectAdjustment(id)).rejects.toBeInstanceOf(AdjustmentNotPendingError);
+  });
+
+  it('should auto-apply small changes as a new version of the bot profile', async () => {
+    // 작은 손실 → 승률만 낮음 → 10% 축소
+    mockDb.trades = losingTrades('bot-large', 3, 99);
+
+    const outcome = await profileTuningService.proposeForBot('bot-large', null);
+
+    expect(outcome).toMatchObject({ adjustment: { status: 'APPLIED', autoApplied: true, decidedBy: 'auto', appliedVersionId: 'profile-bot-v2' } });
+    expect(tradingProfileService.updateProfile).toHaveBeenCalledWith('profile-bot', expect.objectContaining({
+      overrides: { takeProfit: 0.2, stopLoss: expect.closeTo(grid.stopLoss * 0.9, 4), maxPositionSize: expect.closeTo(grid.maxPositionSize * 0.9, 4) },
+    }));
+    expect(tradingProfileService.createProfile).not.toHaveBeenCalled();
+  });
+
+  it('should apply an adjustment only once when approvals race', async () => {
+    mockDb.adjustments.push({
+      id: 'adjustment-race',
+      botId: 'bot-large',
+      status: 'PENDING',
+      changes: [{ parameter: 'stopLoss', oldValue: 0.05, newValue: 0.045, reason: 'test' }],
+    });
+
+    const results = await Promise.allSettled([
+      profileTuningService.applyAdjustment('adjustment-race', 'auto'),
+      profileTuningService.applyAdjustment('adjustment-race', 'ops'),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((results.find(result => result.status === 'rejected') as PromiseRejectedResult).reason)
+      .toBeInstanceOf(AdjustmentNotPendingError);
+    expect(tradingProfileService.updateProfile).toHaveBeenCalledTimes(1);
+    expect(mockDb.profiles[0].currentVersion).toBe(2);
+  });
+
+  it('should release the claim when the profile cannot be written', async () => {
+    mockDb.adjustments.push({
+      id: 'adjustment-fail',
+      botId: 'bot-large',
+      status: 'PENDING',
+      changes: [{ parameter: 'stopLoss', oldValue: 0.05, newValue: 0.045, reason: 'test' }],
+    });
+    (tradingProfileService.updateProfile as any).mockRejectedValueOnce(new Error('version conflict'));
+
+    await expect(profileTuningService.applyAdjustment('adjustment-fail', 'ops')).rejects.toThrow('version conflict');
+
+    expect(mockDb.adjustments[0]).toMatchObject({ status: 'PENDING', decidedBy: null, decidedAt: null });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for provider fixture recording and offline replay
+ *
+ * Requests go through the real data gateway; Prisma is mocked so replay can be
+ * shown to need neither the network nor the shared cache.
+ */
+
+jest.mock('@/lib/config/env', () => ({
+  env: { PROVIDER_FIXTURE_MODE: 'off', PROVIDER_FIXTURE_DIR: '__tests__/fixtures/providers' },
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    providerCacheEntry: {
+      findUnique: jest.fn(async () => null),
+      upsert: jest.fn(async () => null),
+    },
+    providerApiLog: {
+      create: jest.fn(async () => null),
+      count: jest.fn(async () => 0),
+    },
+  },
+}));
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { prisma } from '@/lib/prisma';
+import { buildCacheKey, dataGatewayService } from '@/lib/services/dataGatewayService';
+import { ProviderFixtureMissingError, providerFixtureService } from '@/lib/services/providerFixtureService';
+import { endpointSlug, fixturePath } from '@/lib/utils/providerFixtures';
+
+describe('providerFixtureService', () => {
+  let dir: string;
+
+  const request = (fetcher: () => Promise<unknown>, symbol: string = 'AAPL') =>
+    dataGatewayService.request({
+      provider: 'fmp',
+      endpoint: `/v3/profile/${symbol}`,
+      params: { limit: 1 },
+      ttlMs: 60000,
+      fetcher,
+    });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'provider-fixtures-'));
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    providerFixtureService.configure('off');
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should name fixture files after the endpoint and the request key', () => {
+    expect(endpointSlug('/v3/profile/AAPL')).toBe('v3-profile-AAPL');
+    expect(endpointSlug('TIME_SERIES_DAILY')).toBe('TIME_SERIES_DAILY');
+
+    const aapl = fixturePath('fmp', '/v3/stock_news', buildCacheKey('fmp', '/v3/stock_news', { tickers: 'AAPL' }));
+    const tsla = fixturePath('fmp', '/v3/stock_news', buildCacheKey('fmp', '/v3/stock_news', { tickers: 'TSLA' }));
+    expect(aapl).toMatch(/^fmp\/v3-stock_news-[0-9a-f]{12}\.json$/);
+    expect(aapl).not.toBe(tsla);
+  });
+
+  it('should record provider responses to fixture files', async () => {
+    providerFixtureService.configure('record', dir);
+
+    const result = await request(async () => [{ symbol: 'AAPL', sector: 'Technology' }]);
+
+    const key = buildCacheKey('fmp', '/v3/profile/AAPL', { limit: 1 });
+    const file = path.join(dir, fixturePath('fmp', '/v3/profile/AAPL', key));
+    const fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+
+    expect(result).toEqual([{ symbol: 'AAPL', sector: 'Technology' }]);
+    expect(fixture).toMatchObject({
+      key,
+      provider: 'fmp',
+      endpoint: '/v3/profile/AAPL',
+      params: { limit: 1 },
+      payload: [{ symbol: 'AAPL', sector: 'Technology' }],
+    });
+  });
+
+  it('should replay recorded responses without network, cache or budget', async () => {
+    providerFixtureService.configure('record', dir);
+    await request(async () => [{ symbol: 'AAPL', sector: 'Technology' }]);
+    jest.clearAllMocks();
+
+    providerFixtureService.configure('replay', dir);
+    const fetcher = jest.fn(async () => [{ symbol: 'AAPL', sector: 'Live' }]);
+    const result = await request(fetcher);
+
+    expect(result).toEqual([{ symbol: 'AAPL', sector: 'Technology' }]);
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(prisma.providerCacheEntry.findUnique).not.toHaveBeenCalled();
+    expect(prisma.providerApiLog.create).not.toHaveBeenCalled();
+  });
+
+  it('should fail instead of calling the provider when a fixture is missing', async () => {
+    providerFixtureService.configure('replay', dir);
+    const fetcher = jest.fn(async () => []);
+
+    await expect(request(fetcher, 'TSLA')).rejects.toBeInstanceOf(ProviderFixtureMissingError);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for the pre-trade risk gate (riskEngineService)
+ *
+ * Prisma, the broker and the FMP profile lookup are mocked - no database or network access.
+ */
+
+const mockState: {
+  bots: any[];
+  positions: any[];
+  tradesToday: { botId: string; replacesOrderId?: string }[];
+  rejections: any[];
+  account: any;
+  brokerPositions: any[];
+  sectors: Record<string, string>;
+} = { bots: [], positions: [], tradesToday: [], rejections: [], account: null, brokerPositions: [], sectors: {} };
+
+jest.mock('@/lib/config/env', () => ({
+  env: {
+    RISK_ENGINE_ENABLED: true,
+    RISK_MAX_TRADES_PER_DAY: 20,
+    RISK_DAILY_LOSS_LIMIT_PERCENT: 3,
+    RISK_MAX_SECTOR_EXPOSURE: 0.4,
+    FMP_API_KEY: 'test-key',
+  },
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    bot: {
+      findUnique: jest.fn(async ({ where }: any) => mockState.bots.find(bot => bot.id === where.id) || null),
+    },
+    trade: {
+      count: jest.fn(async ({ where }: any) =>
+        mockState.tradesToday.filter(trade =>
+          (!where.botId || trade.botId === where.botId) &&
+          !(where.replacesOrderId === null && trade.replacesOrderId)
+        ).length
+      ),
+    },
+    position: {
+      findMany: jest.fn(async ({ where }: any) =>
+        mockState.positions.filter(position => position.symbol === where.symbol && position.quantity > 0)
+      ),
+    },
+    riskRejection: {
+      create: jest.fn(async ({ data }: any) => {
+        const rejection = { id: `rejection-${mockState.rejections.length + 1}`, ...data };
+        mockState.rejections.push(rejection);
+        return rejection;
+      }),
+    },
+  },
+}));
+
+jest.mock('@/lib/services/dataGatewayService', () => ({
+  dataGatewayService: { request: jest.fn((req: any) => req.fetcher()) },
+}));
+
+jest.mock('@/lib/services/brokers', () => ({
+  getBrokerForBot: jest.fn(async () => ({
+    getAccount: async () => mockState.account,
+    getPositions: async () => mockState.brokerPositions,
+  })),
+}));
+
+import { riskEngineService } from '@/lib/services/riskEngineService';
+import { tradingProfileService } from '@/lib/services/tradingProfileService';
+
+function strategy(timeHorizon: string, riskAppetite: string) {
+  return { timeHorizon, riskAppetite } as any;
+}
+
+describe('Risk engine', () => {
+  beforeEach(() => {
+    mockState.bots = [
+      { id: 'bot-swing', strategy: strategy('SWING', 'BALANCED') },
+      { id: 'bot-day', strategy: strategy('SHORT_TERM', 'DEFENSIVE') },
+    ];
+    mockState.positions = [];
+    mockState.tradesToday = [];
+    mockState.rejections = [];
+    mockState.account = { cash: 100000, portfolioValue: 100000, equity: 100000, lastEquity: 100000, buyingPower: 100000, daytradeCount: 0 };
+    mockState.brokerPositions = [];
+    mockState.sectors = { AAPL: 'Technology', MSFT: 'Technology', XOM: 'Energy' };
+
+    (global as any).fetch = jest.fn(async (url: string) => {
+      const symbol = url.split('/v3/profile/')[1].split('?')[0];
+      return { ok: true, json: async () => [{ symbol, sector: mockState.sectors[symbol] || '' }] };
+    });
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should approve orders within every limit and never check sells', async () => {
+    const buy = await riskEngineService.checkOrder({ symbol: 'AAPL', side: 'BUY', quantity: 10, price: 200, botId: 'bot-swing' });
+    const sell = await riskEngineService.checkOrder({ symbol: 'AAPL', side: 'SELL', quantity: 10000, price: 200, botId: 'bot-swing' });
+
+    expect(buy).toEqual({ approved: true, profileId: 'swing-balanced' });
+    expect(sell).toEqual({ approved: true, profileId: 'swing-balanced' });
+    expect(mockState.rejections).toHaveLength(0);
+  });
+
+  it('should block an order that would concentrate a symbol across bots and record the rule', async () => {
+    const profile = tradingProfileService.getDefaultProfile(strategy('SWING', 'BALANCED'));
+    const symbolLimit = 100000 * profile.maxPositionSize;
+    // Another bot already holds just under the symbol limit
+    mockState.positions = [{ botId: 'bot-other', symbol: 'XOM', quantity: Math.floor(symbolLimit / 100) - 1 }];
+
+    const result = await riskEngineService.checkOrder({ symbol: 'XOM', side: 'BUY', quantity: 5, price: 100, botId: 'bot-swing' });
+
+    expect(result).toMatchObject({ approved: false, rule: 'SYMBOL_CONCENTRATION', limit: symbolLimit, rejectionId: 'rejection-1' });
+    expect(mockState.rejections[0]).toMatchObject({
+      botId: 'bot-swing',
+      symbol: 'XOM',
+      side: 'BUY',
+      orderValue: 500,
+      rule: 'SYMBOL_CONCENTRATION',
+      profileId: 'swing-balanced',
+    });
+  });
+
+  it('should enforce the total exposure of the bot profile on the whole account', async () => {
+    const profile = tradingProfileService.getDefaultProfile(strategy('SWING', 'BALANCED'));
+    mockState.brokerPositions = [{ symbol: 'SPY', marketValue: 100000 * profile.maxTotalExposure - 100 }];
+
+    const result = await riskEngineService.checkOrder({ symbol: 'XOM', side: 'BUY', quantity: 2, price: 100, botId: 'bot-swing' });
+
+    expect(result).toMatchObject({ approved: false, rule: 'MAX_TOTAL_EXPOSURE', actual: 100000 * profile.maxTotalExposure + 100 });
+  });
+
+  it('should apply the profile maxTradesPerDay per bot and the account-wide daily count', async () => {
+    mockState.tradesToday = [1, 2, 3, 4, 5].map(() => ({ botId: 'bot-day' }));
+
+    const dayBot = await riskEngineService.checkOrder({ symbol: 'XOM', side: 'BUY', quantity: 1, price: 100, botId: 'bot-day' });
+    const swingBot = await riskEngineService.checkOrder({ symbol: 'XOM', side: 'BUY', quantity: 1, price: 100, botId: 'bot-swing' });
+
+    expect(dayBot).toMatchObject({ approved: false, rule: 'DAILY_TRADE_COUNT', limit: 5, actual: 6 });
+    expect(swingBot.approved).toBe(true);
+
+    mockState.tradesToday = new Array(20).fill({ botId: 'bot-other' });
+    const accountWide = await riskEngineService.checkOrder({ symbol: 'XOM', side: 'BUY', quantity: 1, price: 100, botId: 'bot-swing' });
+    expect(accountWide).toMatchObject({ approved: false, rule: 'DAILY_TRADE_COUNT', limit: 20 });
+  });
+
+  it('should not count repriced replacement orders toward the daily trade count', async () => {
+    mockState.tradesToday = [
+      { botId: 'bot-day' },
+      ...[1, 2, 3, 4, 5, 6].map(n => ({ botId: 'bot-day', replacesOrderId: `order-${n}` })),
+    ];
+
+    const result = await riskEngineService.checkOrder({ symbol: 'XOM', side: 'BUY', quantity: 1, price: 100, botId: 'bot-day' });
+
+    expect(result.approved).toBe(true);
+  });
+
+  it('should stop new buys after the daily loss limit', async () => {
+    mockState.account = { ...mockState.account, equity: 96000, portfolioValue: 96000 };
+
+    const result = await riskEngineService.checkOrder({ symbol: 'XOM', side: 'BUY', quantity: 1, price: 100, botId: 'bot-swing' });
+
+    expect(result).toMatchObject({ approved: false, rule: 'DAILY_LOSS_LIMIT', limit: 3000, actual: 4000 });
+  });
+
+  it('should cap exposure per sector and skip the check when the sector is unknown', async () => {
+    mockState.bots.push({ id: 'bot-aggressive', strategy: strategy('LONG_TERM', 'AGGRESSIVE') });
+    mockState.brokerPositions = [
+      { symbol: 'AAPL', marketValue: 30000 },
+      { symbol: 'XOM', marketValue: 5000 },
+    ];
+
+    const tech = await riskEngineService.checkOrder({ symbol: 'MSFT', side: 'BUY', quantity: 26, price: 400, botId: 'bot-aggressive' });
+    const etf = await riskEngineService.checkOrder({ symbol: 'QQQ', side: 'BUY', quantity: 20, price: 500, botId: 'bot-aggressive' });
+
+    expect(tech).toMatchObject({ approved: false, rule: 'SECTOR_CAP', limit: 40000, actual: 30000 + 10400 });
+    expect(etf.approved).toBe(true);
+  });
+});
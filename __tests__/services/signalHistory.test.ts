@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the signal history store (daily snapshots, forward-return evaluation)
+ *
+ * Prisma and the market data services are mocked.
+ */
+
+let mockSnapshots: any[];
+let mockUpdates: Array<{ id: string; data: any }>;
+let mockHistory: Record<string, Array<{ date: string; close: string }> | Error>;
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+    opportunitySnapshot: {
+      deleteMany: jest.fn(async () => ({ count: 0 })),
+      create: jest.fn(async ({ data }: any) => data),
+      findMany: jest.fn(async () => mockSnapshots),
+      update: jest.fn(async ({ where, data }: any) => {
+        mockUpdates.push({ id: where.id, data });
+        return data;
+      }),
+    },
+  },
+}));
+
+jest.mock('@/lib/services/dataGatewayService', () => {
+  class ProviderBudgetExceededError extends Error {
+    constructor(provider: string, window: string, retryAfterMs: number) {
+      super(`${provider} ${window} budget exceeded (retry in ${retryAfterMs}ms)`);
+    }
+  }
+  return { ProviderBudgetExceededError };
+});
+
+jest.mock('@/lib/services/historicalDataService', () => ({
+  historicalDataService: {
+    fetchHistoricalData: jest.fn(async (symbol: string) => {
+      const history = mockHistory[symbol];
+      if (history instanceof Error) throw history;
+      return history;
+    }),
+  },
+}));
+
+jest.mock('@/lib/services/marketEventsService', () => ({ marketEventsService: {} }));
+jest.mock('@/lib/services/investmentOpportunityService', () => ({ investmentOpportunityService: {} }));
+jest.mock('@/lib/services/scoringConfigService', () => ({ scoringConfigService: {} }));
+
+import { prisma } from '@/lib/prisma';
+import { ProviderBudgetExceededError } from '@/lib/services/dataGatewayService';
+import { signalHistoryService } from '@/lib/services/signalHistoryService';
+
+const NOW = new Date('2025-11-20T21:15:00Z');
+
+function bars(closes: number[]) {
+  // 2025-11-10(월)부터 평일 종가
+  const dates = ['2025-11-10', '2025-11-11', '2025-11-12', '2025-11-13', '2025-11-14', '2025-11-17', '2025-11-18', '2025-11-19'];
+  return closes.map((close, index) => ({ date: dates[index], close: String(close) }));
+}
+
+describe('signalHistoryService', () => {
+  beforeEach(() => {
+    mockSnapshots = [];
+    mockUpdates = [];
+    mockHistory = {};
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should replace the snapshot of the day with the ranked opportunities and signals', async () => {
+    const result = await signalHistoryService.captureSnapshot(
+      [
+        {
+          symbol: 'NVDA',
+          totalScore: 16,
+          rank: 1,
+          price: 180,
+          signals: [
+            { type: 'momentum', score: 11, source: 'FMP', description: 'High Momentum Stock', date: '2025-11-20' },
+            { type: 'analyst_upgrade', score: 9, source: 'Goldman Sachs', description: 'Buy', date: 'unknown' },
+          ],
+        },
+      ],
+      NOW,
+      2
+    );
+
+    expect(result).toEqual({ snapshotDate: '2025-11-20', opportunities: 1, signals: 2 });
+    expect(prisma.opportunitySnapshot.deleteMany).toHaveBeenCalledWith({
+      where: { snapshotDate: new Date('2025-11-20T00:00:00Z') },
+    });
+
+    const { data } = (prisma.opportunitySnapshot.create as any).mock.calls[0][0];
+    expect(data).toMatchObject({ symbol: 'NVDA', rank: 1, totalScore: 16, price: 180, scoringVersion: 2 });
+    expect(data.signals.create).toHaveLength(2);
+    // 날짜를 해석할 수 없는 시그널은 스냅샷 날짜로
+    expect(data.signals.create[1].signalDate).toEqual(new Date('2025-11-20T00:00:00Z'));
+  });
+
+  it('should fill forward returns per symbol and leave the rest when the budget runs out', async () => {
+    mockSnapshots = [
+      { id: 's1', symbol: 'NVDA', snapshotDate: new Date('2025-11-10T00:00:00Z') },
+      { id: 's2', symbol: 'NVDA', snapshotDate: new Date('2025-11-17T00:00:00Z') },
+      { id: 's3', symbol: 'XYZ', snapshotDate: new Date('2025-11-10T00:00:00Z') },
+      { id: 's4', symbol: 'AAPL', snapshotDate: new Date('2025-11-10T00:00:00Z') },
+      { id: 's5', symbol: 'TSLA', snapshotDate: new Date('2025-11-10T00:00:00Z') },
+    ];
+    mockHistory = {
+      NVDA: bars([100, 101, 102, 103, 104, 110, 99, 120]),
+      XYZ: new Error('Invalid API call'),
+      AAPL: new ProviderBudgetExceededError('alphaVantage', 'minute', 12000),
+    };
+
+    const result = await signalHistoryService.evaluatePending(NOW);
+
+    expect(result).toEqual({
+      pendingSnapshots: 5,
+      evaluated: 2,
+      symbols: ['NVDA'],
+      failedSymbols: ['XYZ'],
+      remainingSymbols: 2,
+    });
+
+    const first = mockUpdates.find(update => update.id === 's1')!.data;
+    expect(first.baseClose).toBe(100);
+    expect(first.return1d).toBeCloseTo(0.01);
+    expect(first.return5d).toBeCloseTo(0.1);
+    expect(first.return20d).toBeNull();
+    expect(first.evaluatedAt).toEqual(NOW);
+
+    const second = mockUpdates.find(update => update.id === 's2')!.data;
+    expect(second.return1d).toBeCloseTo(-0.1);
+    expect(second.return5d).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the simulated broker
+ *
+ * Fills against an in-memory MarketData stand-in - no database or network access.
+ */
+
+let mockBars: Array<{ symbol: string; interval: string; timestamp: Date; open: number; high: number; low: number; close: number }> = [];
+
+jest.mock('@/lib/config/env', () => ({
+  env: {
+    SIM_BROKER_INITIAL_CASH: 10000,
+    SIM_BROKER_SLIPPAGE_BPS: 0,
+    SIM_BROKER_COMMISSION: 0,
+    SIM_BROKER_INTERVAL: 'daily',
+  },
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    marketData: {
+      findFirst: jest.fn(async ({ where }: any) => {
+        const bars = mockBars
+          .filter(bar => bar.symbol === where.symbol && bar.interval === where.interval)
+          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+        return bars[0] || null;
+      }),
+      findMany: jest.fn(async ({ where }: any) =>
+        mockBars
+          .filter(bar =>
+            bar.symbol === where.symbol &&
+            bar.interval === where.interval &&
+            bar.timestamp.getTime() > where.timestamp.gt.getTime()
+          )
+          .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      ),
+    },
+  },
+}));
+
+import { SimulatedBroker } from '@/lib/services/brokers/simulatedBroker';
+
+function addBar(day: number, open: number, high: number, low: number, close: number) {
+  mockBars.push({
+    symbol: 'AAPL',
+    interval: 'daily',
+    timestamp: new Date(Date.UTC(2025, 0, day)),
+    open,
+    high,
+    low,
+    close,
+  });
+}
+
+describe('SimulatedBroker', () => {
+  let broker: SimulatedBroker;
+
+  beforeEach(() => {
+    mockBars = [];
+    addBar(2, 100, 102, 98, 100);
+    broker = new SimulatedBroker();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should fill market orders at the latest close with slippage and commission', async () => {
+    broker.reset({ slippageBps: 50, commissionPerTrade: 1 });
+
+    const result = await broker.executeTrade({ symbol: 'AAPL', side: 'buy', type: 'market', qty: 10 });
+    const order = await broker.getOrder(result.orderId as string);
+    const account = await broker.getAccount();
+
+    expect(result.success).toBe(true);
+    expect(order.status).toBe('filled');
+    expect(order.filled_qty).toBe('10');
+    expect(parseFloat(order.filled_avg_price as string)).toBeCloseTo(100.5);
+    expect(account.cash).toBeCloseTo(10000 - 1005 - 1);
+  });
+
+  it('should keep a non-marketable limit order open until a newer bar crosses it', async () => {
+    const result = await broker.placeLimitOrder('AAPL', 5, 'buy', 97);
+    expect((await broker.getOrder(result.orderId as string)).status).toBe('new');
+
+    // Next trading day gaps below the limit → fills at the open
+    addBar(3, 96, 99, 95, 98);
+    const order = await broker.getOrder(result.orderId as string);
+
+    expect(order.status).toBe('filled');
+    expect(order.filled_avg_price).toBe('96');
+
+    const position = await broker.getPosition('AAPL');
+    expect(position?.qty).toBe(5);
+    expect(position?.currentPrice).toBe(98);
+  });
+
+  it('should expire day orders on the next trading day without a fill', async () => {
+    const result = await broker.placeLimitOrder('AAPL', 5, 'buy', 90);
+
+    addBar(3, 101, 104, 99, 103);
+
+    expect((await broker.getOrder(result.orderId as string)).status).toBe('expired');
+    expect(await broker.getOrders('open')).toHaveLength(0);
+  });
+
+  it('should reject sells beyond the held quantity and buys beyond the cash', async () => {
+    const sell = await broker.executeTrade({ symbol: 'AAPL', side: 'sell', type: 'market', qty: 1 });
+    expect(sell.success).toBe(false);
+
+    const buy = await broker.executeTrade({ symbol: 'AAPL', side: 'buy', type: 'market', qty: 1000 });
+    expect(buy.success).toBe(false);
+    expect((await broker.getOrder(buy.orderId as string)).status).toBe('rejected');
+  });
+
+  it('should hold bracket legs until the entry fills, then cancel the stop when the target fills', async () => {
+    const entry = await broker.executeTrade({
+      symbol: 'AAPL', side: 'buy', type: 'limit', qty: 10, price: 99, timeInForce: 'gtc',
+      orderClass: 'bracket', takeProfitPrice: 105, stopLossPrice: 95,
+    });
+    const submitted = await broker.getOrder(entry.orderId as string);
+    expect(submitted.legs?.map(leg => [leg.type, leg.status])).toEqual([['limit', 'held'], ['stop', 'held']]);
+
+    // Day 3 fills the entry, day 4 reaches the take profit
+    addBar(3, 99.5, 101, 98, 100);
+    addBar(4, 101, 106, 100, 104);
+    const order = await broker.getOrder(entry.orderId as string);
+
+    expect(order.status).toBe('filled');
+    expect(order.legs?.map(leg => [leg.type, leg.status, leg.filled_avg_price])).toEqual([
+      ['limit', 'filled', '105'],
+      ['stop', 'canceled', null],
+    ]);
+    expect(await broker.getPosition('AAPL')).toBeNull();
+  });
+
+  it('should reserve OCO shares once and fill the stop at the open on a gap down', async () => {
+    await broker.executeTrade({ symbol: 'AAPL', side: 'buy', type: 'market', qty: 10 });
+    const oco = await broker.executeTrade({
+      symbol: 'AAPL', side: 'sell', type: 'limit', qty: 10, price: 110, timeInForce: 'gtc',
+      orderClass: 'oco', takeProfitPrice: 110, stopLossPrice: 95,
+    });
+    expect(oco.success).toBe(true);
+    expect((await broker.executeTrade({ symbol: 'AAPL', side: 'sell', type: 'market', qty: 1 })).success).toBe(false);
+
+    addBar(3, 93, 96, 92, 94);
+    const order = await broker.getOrder(oco.orderId as string);
+
+    expect(order.status).toBe('canceled');
+    expect(order.legs?.[0]).toMatchObject({ type: 'stop', status: 'filled', filled_avg_price: '93' });
+    expect(await broker.getPosition('AAPL')).toBeNull();
+  });
+
+  it('should trail the stop behind the high-water mark', async () => {
+    await broker.executeTrade({ symbol: 'AAPL', side: 'buy', type: 'market', qty: 10 });
+    const trailing = await broker.executeTrade({
+      symbol: 'AAPL', side: 'sell', type: 'trailing_stop', qty: 10, trailPercent: 5, timeInForce: 'gtc',
+    });
+
+    addBar(3, 106, 110, 105, 109);
+    const raised = await broker.getOrder(trailing.orderId as string);
+    expect(raised).toMatchObject({ status: 'new', hwm: '110' });
+
+    addBar(4, 108, 108, 104, 105);
+    const order = await broker.getOrder(trailing.orderId as string);
+    expect(order).toMatchObject({ status: 'filled', filled_avg_price: '104.5' });
+  });
+
+  it('should fail orders for symbols without cached bars', async () => {
+    const result = await broker.executeTrade({ symbol: 'MSFT', side: 'buy', type: 'market', qty: 1 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No cached MarketData bars');
+    expect(await broker.getLatestPrice('MSFT')).toBeNull();
+  });
+});
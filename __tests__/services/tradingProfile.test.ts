@@ -0,0 +1,222 @@
+/**
+ * Unit tests for saved trading profiles (tradingProfileService)
+ *
+ * In-memory Prisma stand-in - no database access.
+ */
+
+const mockDb: { profiles: any[]; versions: any[]; references: Record<string, { strategies: number; bots: number }> } = {
+  profiles: [],
+  versions: [],
+  references: {},
+};
+
+jest.mock('@/lib/prisma', () => {
+  const prisma: any = {
+    // 트랜잭션은 같은 인메모리 클라이언트로 실행 (콜백이 던지면 반영된 행을 되돌림)
+    $transaction: jest.fn(async (callback: (tx: any) => Promise<unknown>) => {
+      const snapshot = { profiles: mockDb.profiles.map(row => ({ ...row })), versions: mockDb.versions.slice() };
+      try {
+        return await callback(prisma);
+      } catch (error) {
+        mockDb.profiles = snapshot.profiles;
+        mockDb.versions = snapshot.versions;
+        throw error;
+      }
+    }),
+    tradingProfile: {
+      create: jest.fn(async ({ data }: any) => {
+        const profile = { id: `profile-${mockDb.profiles.length + 1}`, currentVersion: 1, ...data };
+        mockDb.profiles.push(profile);
+        return { ...profile };
+      }),
+      findUnique: jest.fn(async ({ where, include }: any) => {
+        const profile = mockDb.profiles.find(row => row.id === where.id);
+        if (!profile) return null;
+        return include?._count
+          ? { ...profile, _count: mockDb.references[profile.id] || { strategies: 0, bots: 0 } }
+          : { ...profile };
+      }),
+      update: jest.fn(async ({ where, data }: any) => {
+        const profile = mockDb.profiles.find(row => row.id === where.id);
+        Object.assign(profile, data);
+        return { ...profile };
+      }),
+      delete: jest.fn(async ({ where }: any) => {
+        mockDb.profiles = mockDb.profiles.filter(row => row.id !== where.id);
+        mockDb.versions = mockDb.versions.filter(row => row.profileId !== where.id);
+      }),
+    },
+    tradingProfileVersion: {
+      create: jest.fn(async ({ data }: any) => {
+        if (mockDb.versions.some(row => row.profileId === data.profileId && row.version === data.version)) {
+          throw new Error('Unique constraint failed on the fields: (`profileId`,`version`)');
+        }
+        const version = { id: `version-${mockDb.versions.length + 1}`, ...data };
+        mockDb.versions.push(version);
+        return version;
+      }),
+      findUnique: jest.fn(async ({ where }: any) => {
+        const { profileId, version } = where.profileId_version;
+        return mockDb.versions.find(row => row.profileId === profileId && row.version === version) || null;
+      }),
+    },
+  };
+  return { prisma };
+});
+
+import {
+  tradingProfileService,
+  toAppliedSnapshot,
+  toProfileExitRules,
+  ProfileInUseError,
+} from '@/lib/services/tradingProfileService';
+import { TimeHorizon, RiskAppetite } from '@/lib/trading-profile-types';
+
+const swingStrategy = { timeHorizon: 'SWING', riskAppetite: 'BALANCED' } as const;
+
+describe('Trading profiles', () => {
+  beforeEach(() => {
+    mockDb.profiles = [];
+    mockDb.versions = [];
+    mockDb.references = {};
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should merge overrides into the grid profile and store them as version 1', async () => {
+    const saved = await tradingProfileService.createProfile({
+      name: 'Tight swing',
+      timeHorizon: TimeHorizon.SWING,
+      riskAppetite: RiskAppetite.BALANCED,
+      overrides: {
+        stopLoss: 0.03,
+        indicators: { rsi: { period: 10, overbought: 75, oversold: 25 } },
+        holdingPeriod: { max: '5 days' },
+        trailingStop: { enabled: true, activation: 0.02 },
+        specialRules: { maxTradesPerDay: 2 },
+      },
+    });
+
+    expect(saved).toMatchObject({ name: 'Tight swing', timeHorizon: 'SWING', riskAppetite: 'BALANCED' });
+    expect(mockDb.versions).toHaveLength(1);
+
+    const config = mockDb.versions[0].config;
+    const grid = tradingProfileService.getDefaultProfile(swingStrategy);
+    expect(mockDb.versions[0]).toMatchObject({ profileId: saved.id, version: 1 });
+    expect(config).toMatchObject({
+      id: saved.id,
+      name: 'Tight swing',
+      stopLoss: 0.03,
+      takeProfit: grid.takeProfit,
+      holdingPeriod: { ...grid.holdingPeriod, max: '5 days' },
+      trailingStop: { ...grid.trailingStop, enabled: true, activation: 0.02 },
+      specialRules: { maxTradesPerDay: 2 },
+    });
+    expect(config.indicators.rsi).toEqual({ period: 10, overbought: 75, oversold: 25 });
+  });
+
+  it('should version settings changes only and keep earlier versions intact', async () => {
+    const saved = await tradingProfileService.createProfile({
+      name: 'Swing',
+      timeHorizon: TimeHorizon.SWING,
+      riskAppetite: RiskAppetite.BALANCED,
+      overrides: { stopLoss: 0.04 },
+    });
+
+    await tradingProfileService.updateProfile(saved.id, { name: 'Swing (renamed)' });
+    expect(mockDb.versions).toHaveLength(1);
+
+    const updated = await tradingProfileService.updateProfile(saved.id, {
+      overrides: { stopLoss: 0.06 },
+      changeNote: 'Wider stop',
+    });
+
+    expect(updated).toMatchObject({ name: 'Swing (renamed)', currentVersion: 2 });
+    expect(mockDb.versions.map(version => [version.version, version.config.stopLoss])).toEqual([
+      [1, 0.04],
+      [2, 0.06],
+    ]);
+    expect(mockDb.versions[1]).toMatchObject({ changeNote: 'Wider stop' });
+  });
+
+  it('should leave the profile untouched when its new version cannot be stored', async () => {
+    const saved = await tradingProfileService.createProfile({
+      name: 'Swing',
+      timeHorizon: TimeHorizon.SWING,
+      riskAppetite: RiskAppetite.BALANCED,
+      overrides: { stopLoss: 0.04 },
+    });
+    // 다른 요청이 먼저 v2를 만든 경우
+    mockDb.versions.push({ id: 'version-concurrent', profileId: saved.id, version: 2, config: { stopLoss: 0.05 } });
+
+    await expect(tradingProfileService.updateProfile(saved.id, { name: 'Renamed', overrides: { stopLoss: 0.06 } }))
+      .rejects.toThrow('Unique constraint');
+
+    expect(mockDb.profiles[0]).toMatchObject({ name: 'Swing', currentVersion: 1, overrides: { stopLoss: 0.04 } });
+    expect(mockDb.versions.map(version => version.id)).toEqual(['version-1', 'version-concurrent']);
+  });
+
+  it('should resolve the bot profile before the strategy profile and fall back to the grid', async () => {
+    const strategyProfile = await tradingProfileService.createProfile({
+      name: 'Strategy profile',
+      timeHorizon: TimeHorizon.POSITION,
+      riskAppetite: RiskAppetite.DEFENSIVE,
+    });
+    const botProfile = await tradingProfileService.createProfile({
+      name: 'Bot profile',
+      timeHorizon: TimeHorizon.DAY,
+      riskAppetite: RiskAppetite.AGGRESSIVE,
+      overrides: { takeProfit: 0.2 },
+    });
+    const strategy = { ...swingStrategy, profileId: strategyProfile.id };
+
+    const fromBot = await tradingProfileService.resolveForBot({ profileId: botProfile.id, strategy });
+    const fromStrategy = await tradingProfileService.resolveForBot({ profileId: null, strategy });
+    const fromGrid = await tradingProfileService.resolveForBot({ strategy: swingStrategy });
+    const missing = await tradingProfileService.resolveForBot({ profileId: 'deleted', strategy: swingStrategy });
+
+    expect(fromBot).toMatchObject({ profileId: botProfile.id, version: 1, timeHorizon: 'SHORT_TERM' });
+    expect(toAppliedSnapshot(fromBot)).toMatchObject({ name: 'Bot profile', takeProfit: 20, versionId: 'version-2' });
+    expect(fromStrategy).toMatchObject({ profileId: strategyProfile.id, timeHorizon: 'LONG_TERM' });
+    expect(fromGrid).toMatchObject({ profileId: null, versionId: null, timeHorizon: 'SWING' });
+    expect(fromGrid.profile.id).toBe('swing-balanced');
+    expect(missing.profileId).toBeNull();
+  });
+
+  it('should refuse to delete a profile that strategies or bots still use', async () => {
+    const saved = await tradingProfileService.createProfile({
+      name: 'In use',
+      timeHorizon: TimeHorizon.SWING,
+      riskAppetite: RiskAppetite.BALANCED,
+    });
+    mockDb.references[saved.id] = { strategies: 1, bots: 2 };
+
+    await expect(tradingProfileService.deleteProfile(saved.id)).rejects.toBeInstanceOf(ProfileInUseError);
+
+    mockDb.references[saved.id] = { strategies: 0, bots: 0 };
+    await expect(tradingProfileService.deleteProfile(saved.id)).resolves.toBe(true);
+    expect(mockDb.versions).toHaveLength(0);
+  });
+
+  it('should turn the trailing stop and holding period into exit rules', () => {
+    const balanced = tradingProfileService.getDefaultProfile(swingStrategy);
+    expect(toProfileExitRules(balanced)).toEqual({
+      trailingPercent: 2.5,
+      trailingActivationPercent: 5,
+      maxHoldMinutes: 30 * 24 * 60,
+    });
+
+    expect(toProfileExitRules({
+      ...balanced,
+      trailingStop: { enabled: false, activation: null, distance: null },
+      holdingPeriod: { ...balanced.holdingPeriod, max: '5 days' },
+    })).toEqual({ trailingPercent: null, trailingActivationPercent: null, maxHoldMinutes: 5 * 24 * 60 });
+
+    expect(toProfileExitRules({ ...balanced, holdingPeriod: { ...balanced.holdingPeriod, max: 'until target' } }).maxHoldMinutes)
+      .toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Unit tests for Alpha Vantage response checks (error / rate limit payloads returned with HTTP 200)
+ */
+
+import { assertAlphaVantagePayload, assertGlobalQuote, assertTimeSeries } from '@/lib/utils/alphaVantageResponse';
+
+const QUOTE = { 'Global Quote': { '01. symbol': 'AAPL', '05. price': '272.4100' } };
+
+describe('alphaVantageResponse', () => {
+  it('should reject error, note and information payloads', () => {
+    expect(() => assertAlphaVantagePayload({ 'Error Message': 'Invalid API call.' })).toThrow('Invalid API call.');
+    expect(() => assertAlphaVantagePayload({ Note: 'Thank you for using Alpha Vantage!' })).toThrow('Alpha Vantage error');
+    expect(() => assertAlphaVantagePayload({
+      Information: 'Our standard API rate limit is 25 requests per day.',
+    })).toThrow('rate limit');
+    expect(() => assertAlphaVantagePayload(null)).toThrow('empty response');
+  });
+
+  it('should require a non-empty global quote', () => {
+    expect(() => assertGlobalQuote(QUOTE)).not.toThrow();
+    expect(() => assertGlobalQuote({ 'Global Quote': {} })).toThrow('no quote data received');
+    expect(() => assertGlobalQuote({ Information: 'Please subscribe to a premium plan.' })).toThrow('premium plan');
+  });
+
+  it('should require the requested time series', () => {
+    const daily = { 'Time Series (Daily)': { '2025-11-14': { '4. close': '272.41' } } };
+
+    expect(() => assertTimeSeries(daily, 'Time Series (Daily)')).not.toThrow();
+    expect(() => assertTimeSeries(daily, 'Time Series (5min)')).toThrow('no Time Series (5min) data received');
+  });
+});
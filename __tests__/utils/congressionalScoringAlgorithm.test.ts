@@ -0,0 +1,103 @@
+/**
+ * Unit tests for Congressional Trade Score Algorithm
+ */
+
+import {
+  calculateCongressionalTradeScore,
+  CongressionalTradeParams,
+  disclosureLagDays,
+  explainCongressionalTradeScore,
+  normalizeCongressionalTransactionType,
+  parseAmountLowerBound,
+} from '@/lib/utils/congressionalScoringAlgorithm';
+
+const BASE_PARAMS: CongressionalTradeParams = {
+  amount: '$15,001 - $50,000',
+  transactionDate: '2025-01-02',
+  disclosureDate: '2025-01-25',
+  legislatorCount: 1,
+};
+
+describe('Congressional Trade Score Algorithm', () => {
+  describe('calculateCongressionalTradeScore', () => {
+    it('should score the common band with a normal disclosure at the base score', () => {
+      // $15K-$50K (1.0x), 23일 후 공시 (1.0x), 의원 1명
+      expect(calculateCongressionalTradeScore(BASE_PARAMS)).toBe(2);
+    });
+
+    it('should weight larger amount bands higher', () => {
+      const small = calculateCongressionalTradeScore({ ...BASE_PARAMS, amount: '$1,001 - $15,000' });
+      const large = calculateCongressionalTradeScore({ ...BASE_PARAMS, amount: '$1,000,001 - $5,000,000' });
+
+      expect(small).toBe(1.2);
+      expect(large).toBe(5);
+    });
+
+    it('should reward clusters of legislators up to 2x', () => {
+      expect(calculateCongressionalTradeScore({ ...BASE_PARAMS, legislatorCount: 3 })).toBe(3);
+      expect(calculateCongressionalTradeScore({ ...BASE_PARAMS, legislatorCount: 10 })).toBe(4);
+    });
+
+    it('should discount late disclosures and reward fast ones', () => {
+      const fast = calculateCongressionalTradeScore({ ...BASE_PARAMS, disclosureDate: '2025-01-10' });
+      const late = calculateCongressionalTradeScore({ ...BASE_PARAMS, disclosureDate: '2025-03-20' });
+
+      expect(fast).toBe(2.4);
+      expect(late).toBe(1.2);
+    });
+
+    it('should boost committee-relevant trades and cap the total', () => {
+      expect(calculateCongressionalTradeScore({ ...BASE_PARAMS, committeeRelevant: true })).toBe(2.6);
+      expect(calculateCongressionalTradeScore({ ...BASE_PARAMS, committeeRelevant: false })).toBe(2);
+
+      const maxed = calculateCongressionalTradeScore({
+        amount: 'Over $50,000,000',
+        transactionDate: '2025-01-02',
+        disclosureDate: '2025-01-03',
+        legislatorCount: 5,
+        committeeRelevant: true,
+      });
+      expect(maxed).toBe(10);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should read the lower bound of disclosed amount ranges', () => {
+      expect(parseAmountLowerBound('$250,001 - $500,000')).toBe(250001);
+      expect(parseAmountLowerBound('Over $50,000,000')).toBe(50000000);
+      expect(parseAmountLowerBound('Unknown')).toBeNull();
+    });
+
+    it('should read the trade direction from raw FMP transaction types', () => {
+      expect(normalizeCongressionalTransactionType('Purchase')).toBe('purchase');
+      expect(normalizeCongressionalTransactionType('Sale (Full)')).toBe('sale');
+      expect(normalizeCongressionalTransactionType('Sale (Partial)')).toBe('sale');
+      expect(normalizeCongressionalTransactionType('Exchange')).toBe('exchange');
+    });
+
+    it('should measure disclosure lag in days', () => {
+      expect(disclosureLagDays('2025-01-02', '2025-01-25')).toBe(23);
+      expect(disclosureLagDays('2025-01-02', '')).toBeNull();
+    });
+  });
+
+  describe('explainCongressionalTradeScore', () => {
+    it('should provide detailed breakdown', () => {
+      const explanation = explainCongressionalTradeScore({
+        ...BASE_PARAMS,
+        amount: '$100,001 - $250,000',
+        disclosureDate: '2025-01-12',
+        legislatorCount: 2,
+      });
+
+      expect(explanation.finalScore).toBe(4.8);
+      expect(explanation.breakdown.amountMultiplier).toBe(1.6);
+      expect(explanation.breakdown.clusterMultiplier).toBe(1.25);
+      expect(explanation.breakdown.lagDays).toBe(10);
+      expect(explanation.breakdown.lagMultiplier).toBe(1.2);
+      expect(explanation.breakdown.explanation).toContain('2 legislators');
+      expect(explanation.breakdown.explanation).toContain('Fast (10 days)');
+      expect(explanation.breakdown.explanation).toContain('No committee data');
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for per-strategy decision config validation
+ */
+
+import {
+  DEFAULT_DECISION_CONFIG,
+  DecisionConfigSchema,
+  describeDecisionConfig,
+  resolveDecisionConfig,
+} from '@/lib/utils/decisionConfig';
+
+describe('Decision config', () => {
+  it('should fill missing fields with the AI_TRADING defaults', () => {
+    const config = DecisionConfigSchema.parse({ components: { gpt: false } });
+
+    expect(config.components).toEqual({ news: true, social: true, analyst: true, gpt: false });
+    expect(config.weights).toEqual({ sentiment: 0.7, technical: 0.3, socialShare: 0.1 });
+    expect(config.thresholds).toEqual({ buy: 0.35, strongBuy: 0.5, veryStrongBuy: 0.7, sell: -0.35 });
+    expect(config.maxGptAdjustment).toBe(0.5);
+  });
+
+  it('should reject weights that do not add up and unordered thresholds', () => {
+    expect(DecisionConfigSchema.safeParse({ weights: { sentiment: 0.5, technical: 0.3 } }).success).toBe(false);
+    expect(DecisionConfigSchema.safeParse({ weights: { sentiment: 0.2, technical: 0.8, socialShare: 0.3 } }).success).toBe(false);
+    expect(DecisionConfigSchema.safeParse({ thresholds: { buy: 0.6, strongBuy: 0.5 } }).success).toBe(false);
+    expect(DecisionConfigSchema.safeParse({ thresholds: { sell: 0.1 } }).success).toBe(false);
+  });
+
+  it('should fall back to the defaults for missing or invalid stored values', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(resolveDecisionConfig(null)).toBe(DEFAULT_DECISION_CONFIG);
+    expect(resolveDecisionConfig({ maxGptAdjustment: 3 })).toBe(DEFAULT_DECISION_CONFIG);
+    expect(resolveDecisionConfig({ thresholds: { buy: 0.2 } }).thresholds.buy).toBe(0.2);
+
+    jest.restoreAllMocks();
+  });
+
+  it('should describe the enabled components', () => {
+    const config = DecisionConfigSchema.parse({ components: { news: false, social: false, analyst: false, gpt: false } });
+
+    expect(describeDecisionConfig(config)).toBe('technical only, no GPT, buy ≥ 0.35, sell ≤ -0.35');
+  });
+});
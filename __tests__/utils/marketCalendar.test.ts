@@ -0,0 +1,64 @@
+/**
+ * Unit tests for the US equity market calendar (holidays, latest session, market hours)
+ */
+
+import {
+  getEasternDayStart,
+  getLatestSessionDate,
+  getMarketHolidays,
+  isMarketOpen,
+  isTradingDay,
+  previousTradingDay,
+} from '@/lib/utils/marketCalendar';
+
+describe('marketCalendar', () => {
+  it('should list the observed NYSE holidays of a year', () => {
+    expect(getMarketHolidays(2025)).toEqual([
+      '2025-01-01',
+      '2025-01-20',
+      '2025-02-17',
+      '2025-04-18',
+      '2025-05-26',
+      '2025-06-19',
+      '2025-07-04',
+      '2025-09-01',
+      '2025-11-27',
+      '2025-12-25',
+    ]);
+
+    // 2026-07-04 is a Saturday → observed Friday; 2022-01-01 (Saturday) is not observed
+    expect(getMarketHolidays(2026)).toContain('2026-07-03');
+    expect(getMarketHolidays(2022)).not.toContain('2021-12-31');
+    expect(getMarketHolidays(2021)).not.toContain('2021-06-18');
+  });
+
+  it('should skip weekends and holidays when stepping back', () => {
+    expect(isTradingDay('2025-11-27')).toBe(false);
+    expect(isTradingDay('2025-11-28')).toBe(true);
+    expect(previousTradingDay('2025-11-28')).toBe('2025-11-26');
+    expect(previousTradingDay('2025-01-21')).toBe('2025-01-17');
+  });
+
+  it('should report the latest completed session in US/Eastern', () => {
+    // Good Friday 2025-04-18, Monday 2025-04-21 10:00 EDT → previous session Thursday
+    expect(getLatestSessionDate(new Date('2025-04-21T14:00:00Z'))).toBe('2025-04-17');
+    // After Monday's close the same day counts
+    expect(getLatestSessionDate(new Date('2025-04-21T20:30:00Z'))).toBe('2025-04-21');
+    // Christmas evening → Christmas Eve session
+    expect(getLatestSessionDate(new Date('2025-12-25T23:00:00Z'))).toBe('2025-12-24');
+  });
+
+  it('should start the day at midnight US/Eastern across DST', () => {
+    // 2025-07-15 22:00 EDT is still July 15 in New York
+    expect(getEasternDayStart(new Date('2025-07-16T02:00:00Z')).toISOString()).toBe('2025-07-15T04:00:00.000Z');
+    expect(getEasternDayStart(new Date('2025-12-01T15:00:00Z')).toISOString()).toBe('2025-12-01T05:00:00.000Z');
+    // DST starts at 2am on 2025-03-09 → that day still begins at EST midnight
+    expect(getEasternDayStart(new Date('2025-03-09T18:00:00Z')).toISOString()).toBe('2025-03-09T05:00:00.000Z');
+  });
+
+  it('should treat holidays as closed', () => {
+    expect(isMarketOpen(new Date('2025-11-26T15:00:00Z'))).toBe(true);
+    expect(isMarketOpen(new Date('2025-11-27T15:00:00Z'))).toBe(false);
+    expect(isMarketOpen(new Date('2025-11-26T21:30:00Z'))).toBe(false);
+  });
+});
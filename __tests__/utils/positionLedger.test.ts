@@ -0,0 +1,122 @@
+/**
+ * Unit tests for bot-scoped position ledger helpers
+ *
+ * Pure functions - no database or Alpaca access.
+ */
+
+import {
+  rebuildPositionFromFills,
+  parseBrokerOrder,
+  effectiveFill,
+  mapOrderStatus,
+  comparePositions,
+  LedgerFill,
+} from '@/lib/utils/positionLedger';
+
+function fill(side: 'BUY' | 'SELL', quantity: number, price: number, day: number): LedgerFill {
+  return { side, quantity, price, executedAt: new Date(Date.UTC(2025, 0, day)) };
+}
+
+describe('Position ledger', () => {
+  describe('rebuildPositionFromFills', () => {
+    it('should use average cost and realize P&L on sells', () => {
+      const position = rebuildPositionFromFills([
+        fill('BUY', 10, 100, 1),
+        fill('BUY', 10, 110, 2),
+        fill('SELL', 5, 120, 3),
+      ]);
+
+      expect(position.quantity).toBe(15);
+      expect(position.avgEntryPrice).toBeCloseTo(105);
+      expect(position.totalCost).toBeCloseTo(1575);
+      expect(position.realizedPL).toBeCloseTo(75);
+      expect(position.realizedCash).toBeCloseTo(600);
+      expect(position.closedTrades).toBe(1);
+      expect(position.winningTrades).toBe(1);
+    });
+
+    it('should order fills by time and clip sells beyond the held quantity', () => {
+      const position = rebuildPositionFromFills([
+        fill('SELL', 20, 90, 2),
+        fill('BUY', 10, 100, 1),
+        fill('SELL', 5, 95, 3),
+      ]);
+
+      expect(position.quantity).toBe(0);
+      expect(position.totalCost).toBe(0);
+      expect(position.realizedPL).toBeCloseTo(-100);
+    });
+  });
+
+  describe('parseBrokerOrder / effectiveFill', () => {
+    it('should count a canceled order only by its filled quantity', () => {
+      const order = parseBrokerOrder({ status: 'canceled', filled_qty: '3', filled_avg_price: '101.5', qty: '10' });
+      expect(order.isFinal).toBe(true);
+      expect(order.status).toBe('CANCELED');
+
+      const contribution = effectiveFill({
+        status: order.status,
+        quantity: 10,
+        price: 100,
+        filledQuantity: order.filledQuantity,
+        filledAvgPrice: order.filledAvgPrice,
+      });
+
+      expect(contribution).toEqual({ quantity: 3, price: 101.5 });
+    });
+
+    it('should only count the filled part of an open order', () => {
+      const order = parseBrokerOrder({ status: 'partially_filled', filled_qty: '4', filled_avg_price: '99', qty: '10' });
+      expect(order.isFinal).toBe(false);
+      expect(order.status).toBe('PARTIALLY_FILLED');
+
+      expect(effectiveFill({
+        status: order.status,
+        quantity: 10,
+        price: 100,
+        filledQuantity: order.filledQuantity,
+        filledAvgPrice: order.filledAvgPrice,
+      })).toEqual({ quantity: 4, price: 99 });
+    });
+
+    it('should treat unsynced legacy EXECUTED trades as filled and new PENDING trades as unfilled', () => {
+      const trade = { quantity: 10, price: 100, filledQuantity: null, filledAvgPrice: null };
+
+      expect(effectiveFill({ ...trade, status: 'EXECUTED' })).toEqual({ quantity: 10, price: 100 });
+      expect(effectiveFill({ ...trade, status: 'PENDING' })).toEqual({ quantity: 0, price: 100 });
+    });
+  });
+
+  describe('mapOrderStatus', () => {
+    it('should map Alpaca order states to trade statuses', () => {
+      expect(mapOrderStatus('new', 0)).toBe('PENDING');
+      expect(mapOrderStatus('accepted', 0)).toBe('PENDING');
+      expect(mapOrderStatus('filled', 10)).toBe('FILLED');
+      expect(mapOrderStatus('expired', 0)).toBe('EXPIRED');
+      expect(mapOrderStatus('done_for_day', 2)).toBe('CANCELED');
+      expect(mapOrderStatus('rejected', 0)).toBe('FAILED');
+    });
+  });
+
+  describe('comparePositions', () => {
+    it('should sum bots per symbol and report only mismatches', () => {
+      const mismatches = comparePositions(
+        [
+          { botId: 'bot-a', symbol: 'AAPL', quantity: 5 },
+          { botId: 'bot-b', symbol: 'AAPL', quantity: 3 },
+          { botId: 'bot-c', symbol: 'MSFT', quantity: 2 },
+        ],
+        [
+          { symbol: 'AAPL', qty: 8 },
+          { symbol: 'MSFT', qty: 1 },
+          { symbol: 'TSLA', qty: 4 },
+        ]
+      );
+
+      expect(mismatches).toEqual([
+        { symbol: 'MSFT', botQuantity: 2, brokerQuantity: 1, difference: -1, botIds: ['bot-c'] },
+        { symbol: 'TSLA', botQuantity: 0, brokerQuantity: 4, difference: 4, botIds: [] },
+      ]);
+    });
+  });
+});
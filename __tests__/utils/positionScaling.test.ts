@@ -0,0 +1,164 @@
+/**
+ * Unit tests for partial take-profits and staged entries
+ *
+ * Pure functions shared by live bots and the backtester - no database or API access.
+ */
+
+import { prepareStrategy } from '@/lib/utils/strategyEngine';
+import {
+  resolveScalingPlan,
+  scalingStateFromFills,
+  initialEntryQuantity,
+  planScaleOut,
+  planScaleIn,
+  breakevenStopPrice,
+  ScalingFill,
+  ScalingPlan,
+} from '@/lib/utils/positionScaling';
+
+const entryConditions = { rsi: { period: 14, operator: '<', value: 30 } };
+
+function fill(day: number, side: 'BUY' | 'SELL', quantity: number, price: number): ScalingFill {
+  return { side, quantity, price, executedAt: new Date(Date.UTC(2025, 0, day)) };
+}
+
+describe('Position scaling', () => {
+  const plan: ScalingPlan = {
+    scaleOut: [
+      { percentage: 5, exitPercent: 50 },
+      { percentage: 10, exitPercent: 100 },
+    ],
+    scaleIn: { tranches: 3, pullbackPercent: 2 },
+  };
+
+  describe('resolveScalingPlan', () => {
+    it('should read partial levels and staged entries from the strategy', () => {
+      const strategy = prepareStrategy({
+        entryConditions: { ...entryConditions, scaleIn: { enabled: true, tranches: 4, pullbackPercent: 3 } },
+        exitConditions: {
+          stopLoss: { enabled: true, type: 'percentage', value: 5 },
+          takeProfit: {
+            enabled: true,
+            type: 'percentage',
+            value: 12,
+            partialTakingEnabled: true,
+            partialLevels: [
+              { percentage: 12, exitPercent: 100 },
+              { percentage: 6, exitPercent: 50 },
+            ],
+          },
+        },
+      });
+
+      expect(resolveScalingPlan(strategy)).toEqual({
+        scaleOut: [
+          { percentage: 6, exitPercent: 50 },
+          { percentage: 12, exitPercent: 100 },
+        ],
+        scaleIn: { tranches: 4, pullbackPercent: 3 },
+      });
+    });
+
+    it('should fall back to the profile special rules', () => {
+      const strategy = prepareStrategy({ entryConditions, stopLoss: 5, takeProfit: 10 });
+
+      expect(resolveScalingPlan(strategy)).toEqual({ scaleOut: [], scaleIn: null });
+      expect(resolveScalingPlan(strategy, { partialProfits: true, pyramiding: true })).toEqual({
+        scaleOut: [
+          { percentage: 5, exitPercent: 50 },
+          { percentage: 10, exitPercent: 100 },
+        ],
+        scaleIn: { tranches: 3, pullbackPercent: 2 },
+      });
+    });
+
+    it('should let a disabled strategy setting override the pyramiding rule', () => {
+      const strategy = prepareStrategy({
+        entryConditions: { ...entryConditions, scaleIn: { enabled: false, tranches: 3, pullbackPercent: 2 } },
+      });
+
+      expect(resolveScalingPlan(strategy, { pyramiding: true }).scaleIn).toBeNull();
+    });
+  });
+
+  describe('scalingStateFromFills', () => {
+    it('should track the current position only', () => {
+      const state = scalingStateFromFills([
+        fill(1, 'BUY', 10, 100),
+        fill(2, 'SELL', 10, 90),
+        fill(3, 'BUY', 5, 80),
+        fill(5, 'SELL', 5, 85),
+        fill(4, 'BUY', 5, 78),
+      ]);
+
+      expect(state).toEqual({
+        entries: 2,
+        firstEntryQuantity: 5,
+        lastEntryPrice: 78,
+        peakQuantity: 10,
+        profitTakenQuantity: 5,
+        openedAt: new Date(Date.UTC(2025, 0, 3)),
+      });
+    });
+
+    it('should not count losing sells as profit taken', () => {
+      const state = scalingStateFromFills([fill(1, 'BUY', 10, 100), fill(2, 'SELL', 4, 95)]);
+
+      expect(state?.profitTakenQuantity).toBe(0);
+      expect(scalingStateFromFills([fill(1, 'BUY', 10, 100), fill(2, 'SELL', 10, 110)])).toBeNull();
+    });
+  });
+
+  it('should size a new position as the first tranche', () => {
+    expect(initialEntryQuantity(plan, 30)).toBe(10);
+    expect(initialEntryQuantity(plan, 2)).toBe(1);
+    expect(initialEntryQuantity({ scaleOut: [], scaleIn: null }, 30)).toBe(30);
+  });
+
+  describe('planScaleOut', () => {
+    const state = { entries: 1, firstEntryQuantity: 10, lastEntryPrice: 100, peakQuantity: 10, profitTakenQuantity: 0, openedAt: new Date() };
+
+    it('should sell the share owed to every level reached', () => {
+      expect(planScaleOut(plan, state, { quantity: 10, avgEntryPrice: 100 }, 104)).toBeNull();
+      expect(planScaleOut(plan, state, { quantity: 10, avgEntryPrice: 100 }, 106)).toMatchObject({
+        side: 'SELL',
+        quantity: 5,
+        step: 1,
+      });
+      // Gap through both levels → everything in one order
+      expect(planScaleOut(plan, state, { quantity: 10, avgEntryPrice: 100 }, 112)).toMatchObject({
+        quantity: 10,
+        step: 2,
+      });
+    });
+
+    it('should not repeat a level already taken', () => {
+      const taken = { ...state, profitTakenQuantity: 5 };
+
+      expect(planScaleOut(plan, taken, { quantity: 5, avgEntryPrice: 100 }, 107)).toBeNull();
+      expect(planScaleOut(plan, taken, { quantity: 5, avgEntryPrice: 100 }, 110)).toMatchObject({ quantity: 5, step: 2 });
+    });
+  });
+
+  describe('planScaleIn', () => {
+    const state = { entries: 1, firstEntryQuantity: 10, lastEntryPrice: 100, peakQuantity: 10, profitTakenQuantity: 0, openedAt: new Date() };
+
+    it('should add a tranche on a pullback below the last entry', () => {
+      expect(planScaleIn(plan, state, 99)).toBeNull();
+      expect(planScaleIn(plan, state, 98)).toMatchObject({ side: 'BUY', quantity: 10, step: 2 });
+    });
+
+    it('should stop adding after the last tranche or once profit has been taken', () => {
+      expect(planScaleIn(plan, { ...state, entries: 3 }, 90)).toBeNull();
+      expect(planScaleIn(plan, { ...state, profitTakenQuantity: 5 }, 90)).toBeNull();
+    });
+  });
+
+  it('should move the stop to breakeven only after a partial take-profit', () => {
+    const state = { entries: 1, firstEntryQuantity: 10, lastEntryPrice: 100, peakQuantity: 10, profitTakenQuantity: 0, openedAt: new Date() };
+
+    expect(breakevenStopPrice(plan, state, 100)).toBeNull();
+    expect(breakevenStopPrice(plan, { ...state, profitTakenQuantity: 5 }, 100)).toBe(100);
+    expect(breakevenStopPrice({ ...plan, scaleOut: [] }, { ...state, profitTakenQuantity: 5 }, 100)).toBeNull();
+  });
+});
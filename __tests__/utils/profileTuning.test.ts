@@ -0,0 +1,140 @@
+/**
+ * Unit tests for adaptive profile tuning helpers
+ *
+ * Pure functions - no database or API access.
+ */
+
+import {
+  computePerformanceMetrics,
+  computeMarketState,
+  proposeProfileChanges,
+  isWithinAutoApplyBounds,
+  RealizedPerformance,
+  IndexBar,
+} from '@/lib/utils/profileTuning';
+import { LedgerFill } from '@/lib/utils/positionLedger';
+import { TradingProfileBuilder } from '@/lib/trading-profile-builder';
+import { TimeHorizon, RiskAppetite } from '@/lib/trading-profile-types';
+
+function fill(side: 'BUY' | 'SELL', quantity: number, price: number, day: number): LedgerFill {
+  return { side, quantity, price, executedAt: new Date(Date.UTC(2025, 0, day)) };
+}
+
+function bars(count: number, close: (index: number) => number, lastVolume: number = 1000): IndexBar[] {
+  return Array.from({ length: count }, (_, index) => ({
+    close: close(index),
+    volume: index === count - 1 ? lastVolume : 1000,
+  }));
+}
+
+function performance(overrides: Partial<RealizedPerformance>): RealizedPerformance {
+  return {
+    winRate: 0.6,
+    sharpeRatio: 1,
+    maxDrawdown: 0,
+    avgReturn: 0.01,
+    totalReturn: 0.05,
+    profitFactor: 1.5,
+    avgHoldingPeriod: '3.0 days',
+    closedTrades: 10,
+    ...overrides,
+  };
+}
+
+describe('Profile tuning', () => {
+  const fills = [
+    fill('BUY', 10, 100, 1),
+    fill('SELL', 10, 110, 3),
+    fill('BUY', 10, 100, 5),
+    fill('SELL', 10, 90, 6),
+    fill('BUY', 10, 100, 7),
+    fill('SELL', 10, 105, 10),
+  ];
+
+  describe('computePerformanceMetrics', () => {
+    it('should measure closed trades against the allocated capital', () => {
+      const metrics = computePerformanceMetrics(fills, 1000);
+
+      expect(metrics.closedTrades).toBe(3);
+      expect(metrics.winRate).toBeCloseTo(2 / 3);
+      expect(metrics.avgReturn).toBeCloseTo(0.05 / 3);
+      expect(metrics.totalReturn).toBeCloseTo(0.05);
+      expect(metrics.profitFactor).toBeCloseTo(1.5);
+      expect(metrics.maxDrawdown).toBeCloseTo(100 / 1100);
+      expect(metrics.avgHoldingPeriod).toBe('2.0 days');
+      expect(metrics.sharpeRatio).toBeGreaterThan(0);
+    });
+
+    it('should only count sells after the cutoff but keep the earlier average cost', () => {
+      const metrics = computePerformanceMetrics(
+        [fill('BUY', 10, 100, 1), fill('SELL', 5, 90, 2), fill('SELL', 5, 120, 8)],
+        1000,
+        new Date(Date.UTC(2025, 0, 5))
+      );
+
+      expect(metrics.closedTrades).toBe(1);
+      expect(metrics.winRate).toBe(1);
+      expect(metrics.avgReturn).toBeCloseTo(0.2);
+      expect(metrics.profitFactor).toBe(999);
+    });
+  });
+
+  describe('computeMarketState', () => {
+    it('should need at least 21 daily bars', () => {
+      expect(computeMarketState(bars(20, index => 100 + index))).toBeNull();
+    });
+
+    it('should detect a calm strong bull market', () => {
+      const state = computeMarketState(bars(60, index => 100 + index * 0.5));
+
+      expect(state).toMatchObject({ trend: 'strong_bull', volume: 'normal' });
+      expect(state!.volatility).toBeLessThan(30);
+    });
+
+    it('should detect a volatile strong bear market with a volume spike', () => {
+      const state = computeMarketState(bars(60, index => 100 - index * 0.5 + (index % 2 ? 3 : -3), 3000));
+
+      expect(state).toMatchObject({ trend: 'strong_bear', volume: 'high' });
+      expect(state!.volatility).toBeGreaterThan(30);
+    });
+  });
+
+  describe('proposeProfileChanges', () => {
+    const profile = TradingProfileBuilder.create({ timeHorizon: TimeHorizon.SWING, riskAppetite: RiskAppetite.BALANCED });
+
+    it('should tighten risk after poor performance and leave the profile untouched', () => {
+      const trailingBefore = { ...profile.trailingStop };
+      const changes = proposeProfileChanges(
+        profile,
+        performance({ winRate: profile.minWinRate * 0.5, maxDrawdown: profile.maxDrawdown + 0.05 }),
+        null
+      );
+
+      expect(changes.map(change => change.parameter)).toEqual(['stopLoss', 'maxPositionSize']);
+      expect(changes[0].newValue).toBeCloseTo(profile.stopLoss * 0.72, 4);
+      expect(changes[1].newValue).toBeCloseTo(profile.maxPositionSize * 0.63, 4);
+      expect(changes[0].reason).toMatch(/^performance: win rate/);
+      expect(profile.trailingStop).toEqual(trailingBefore);
+    });
+
+    it('should attribute volatility changes to the market state', () => {
+      const changes = proposeProfileChanges(
+        profile,
+        performance({ winRate: profile.minWinRate }),
+        { volatility: 35, trend: 'neutral', volume: 'normal', correlations: {} }
+      );
+
+      expect(changes.map(change => [change.parameter, change.reason])).toEqual([
+        ['stopLoss', 'market: volatility 35.0, trend neutral'],
+        ['maxPositionSize', 'market: volatility 35.0, trend neutral'],
+        ['maxTotalExposure', 'market: volatility 35.0, trend neutral'],
+      ]);
+      expect(isWithinAutoApplyBounds(changes, 0.2)).toBe(false);
+      expect(isWithinAutoApplyBounds(changes, 0.5)).toBe(true);
+    });
+
+    it('should propose nothing when performance and market are unremarkable', () => {
+      expect(proposeProfileChanges(profile, performance({ winRate: profile.minWinRate }), null)).toEqual([]);
+    });
+  });
+});
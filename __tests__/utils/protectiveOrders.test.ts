@@ -0,0 +1,91 @@
+/**
+ * Unit tests for protective order levels and fills
+ *
+ * Pure functions shared by the simulated broker and the backtester - no database or API access.
+ */
+
+import { prepareStrategy } from '@/lib/utils/strategyEngine';
+import {
+  resolveProtectionLevels,
+  openProtection,
+  checkProtectiveFill,
+  advanceHighWaterMark,
+  ProtectiveOrderState,
+} from '@/lib/utils/protectiveOrders';
+
+const entryConditions = { rsi: { period: 14, operator: '<', value: 30 } };
+
+describe('Protective orders', () => {
+  describe('resolveProtectionLevels', () => {
+    it('should use the strategy stop loss and take profit percentages', () => {
+      const strategy = prepareStrategy({ entryConditions, stopLoss: 5, takeProfit: 10 });
+
+      expect(resolveProtectionLevels(strategy, 100)).toEqual({ stopPrice: 95, takeProfitPrice: 110, trailPercent: null });
+    });
+
+    it('should protect trailing strategies with the trailing stop alone', () => {
+      const strategy = prepareStrategy({
+        entryConditions,
+        exitConditions: {
+          stopLoss: { enabled: true, type: 'percentage', value: 5, trailingEnabled: true, trailingDistance: 3 },
+          takeProfit: { enabled: true, type: 'percentage', value: 10 },
+        },
+      });
+
+      expect(resolveProtectionLevels(strategy, 100)).toEqual({ stopPrice: null, takeProfitPrice: null, trailPercent: 3 });
+    });
+
+    it('should drop fixed prices the entry has already crossed', () => {
+      const strategy = prepareStrategy({
+        entryConditions,
+        exitConditions: {
+          stopLoss: { enabled: true, type: 'fixed_price', value: 120 },
+          takeProfit: { enabled: true, type: 'fixed_price', value: 130 },
+        },
+      });
+
+      expect(resolveProtectionLevels(strategy, 118)).toEqual({ stopPrice: null, takeProfitPrice: 130, trailPercent: null });
+    });
+
+    it('should keep fixed legs until the profile trailing stop activates', () => {
+      const strategy = prepareStrategy({
+        entryConditions,
+        stopLoss: 5,
+        takeProfit: 10,
+        profileExits: { trailingPercent: 2.5, trailingActivationPercent: 5, maxHoldMinutes: null },
+      });
+
+      expect(resolveProtectionLevels(strategy, 100, undefined, 104)).toEqual({ stopPrice: 95, takeProfitPrice: 110, trailPercent: null });
+      expect(resolveProtectionLevels(strategy, 100, undefined, 105)).toEqual({ stopPrice: null, takeProfitPrice: null, trailPercent: 2.5 });
+    });
+  });
+
+  describe('checkProtectiveFill', () => {
+    const bracket: ProtectiveOrderState = { stopPrice: 95, takeProfitPrice: 110, trailPercent: null, highWaterMark: 100 };
+
+    it('should fill at the level inside the bar and at the open through a gap', () => {
+      expect(checkProtectiveFill(bracket, { open: 100, high: 111, low: 99 })).toEqual({ leg: 'TAKE_PROFIT', price: 110 });
+      expect(checkProtectiveFill(bracket, { open: 92, high: 96, low: 90 })).toEqual({ leg: 'STOP_LOSS', price: 92 });
+      expect(checkProtectiveFill(bracket, { open: 100, high: 105, low: 97 })).toBeNull();
+    });
+
+    it('should assume the stop fills first when a bar touches both legs', () => {
+      expect(checkProtectiveFill(bracket, { open: 100, high: 112, low: 94 })).toEqual({ leg: 'STOP_LOSS', price: 95 });
+    });
+
+    it('should trail the stop behind the highest high', () => {
+      let trailing = openProtection({ stopPrice: null, takeProfitPrice: null, trailPercent: 5 }, 100) as ProtectiveOrderState;
+
+      const rally = { open: 101, high: 120, low: 100 };
+      expect(checkProtectiveFill(trailing, rally)).toBeNull();
+      trailing = advanceHighWaterMark(trailing, rally);
+
+      expect(trailing.highWaterMark).toBe(120);
+      expect(checkProtectiveFill(trailing, { open: 118, high: 119, low: 113 })).toEqual({ leg: 'TRAILING_STOP', price: 114 });
+    });
+  });
+
+  it('should not open protection without any level', () => {
+    expect(openProtection({ stopPrice: null, takeProfitPrice: null, trailPercent: null }, 100)).toBeNull();
+  });
+});
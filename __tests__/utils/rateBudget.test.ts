@@ -0,0 +1,42 @@
+/**
+ * Unit tests for provider rate budgets (per-minute window, daily budget, priority shares)
+ */
+
+import { checkBudget, msUntilUtcMidnight } from '@/lib/utils/rateBudget';
+
+const NOW = Date.UTC(2025, 10, 15, 12, 0, 0);
+
+describe('rateBudget', () => {
+  it('should only count calls of the last minute', () => {
+    const budget = { perMinute: 5, perDay: null };
+    const recentCalls = [NOW - 61000, NOW - 60000, NOW - 30000, NOW - 1000];
+
+    expect(checkBudget({ budget, recentCalls, usedToday: 0, share: 0.6, now: NOW })).toEqual({ allowed: true });
+  });
+
+  it('should keep part of the per-minute window for higher priorities', () => {
+    const budget = { perMinute: 5, perDay: null };
+    const recentCalls = [NOW - 20000, NOW - 50000, NOW - 10000];
+
+    // 대시보드(60%)는 분당 3회까지 → 가장 오래된 호출(50초 전)이 창을 벗어날 때까지 대기
+    const dashboard = checkBudget({ budget, recentCalls, usedToday: 0, share: 0.6, now: NOW });
+    expect(dashboard).toEqual({ allowed: false, reason: 'minute', retryAfterMs: 10000 });
+
+    expect(checkBudget({ budget, recentCalls, usedToday: 0, share: 1, now: NOW })).toEqual({ allowed: true });
+    expect(checkBudget({ budget, recentCalls: recentCalls.concat([NOW - 5000, NOW]), usedToday: 0, share: 1, now: NOW }))
+      .toEqual({ allowed: false, reason: 'minute', retryAfterMs: 10000 });
+  });
+
+  it('should cap the daily budget per priority until UTC midnight', () => {
+    const budget = { perMinute: null, perDay: 250 };
+
+    expect(checkBudget({ budget, recentCalls: [], usedToday: 149, share: 0.6, now: NOW })).toEqual({ allowed: true });
+    expect(checkBudget({ budget, recentCalls: [], usedToday: 150, share: 0.6, now: NOW })).toEqual({
+      allowed: false,
+      reason: 'day',
+      retryAfterMs: 12 * 60 * 60 * 1000,
+    });
+    expect(checkBudget({ budget, recentCalls: [], usedToday: 249, share: 1, now: NOW })).toEqual({ allowed: true });
+    expect(msUntilUtcMidnight(NOW)).toBe(12 * 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for signal evaluation (forward returns, score buckets, per-signal verdicts)
+ */
+
+import {
+  EvaluatedOpportunity,
+  computeForwardReturns,
+  scoreBucket,
+  signalVerdict,
+  summarizeSignalPerformance,
+} from '@/lib/utils/signalEvaluation';
+
+const OPTIONS = {
+  horizons: [1, 5, 20],
+  primaryHorizon: 1,
+  scoreBuckets: [0, 2, 5, 10],
+  totalScoreBuckets: [0, 5, 10, 20],
+  minSamples: 3,
+  minTStat: 2,
+  currentScores: { momentum: 11, insider_selling: -5, high_volume: 0.5 },
+};
+
+function opportunity(
+  snapshotDate: string,
+  return1d: number,
+  signals: Array<{ type: string; score: number; signalDate?: string }>,
+  totalScore: number = 10,
+  symbol: string = 'AAPL'
+): EvaluatedOpportunity {
+  return {
+    snapshotDate,
+    symbol,
+    totalScore,
+    returns: { 1: return1d, 5: null, 20: null },
+    signals: signals.map(signal => ({ ...signal, signalDate: signal.signalDate || snapshotDate })),
+  };
+}
+
+describe('signalEvaluation', () => {
+  it('should measure forward returns from the last close on or before the snapshot date', () => {
+    const bars = [
+      { date: '2025-11-14', close: 100 },
+      { date: '2025-11-17', close: 102 },
+      { date: '2025-11-18', close: 105 },
+      { date: '2025-11-12', close: 98 },
+    ];
+
+    // 주말 스냅샷 → 금요일 종가 기준
+    const forward = computeForwardReturns(bars, '2025-11-15', [1, 2, 5]);
+    expect(forward!.baseClose).toBe(100);
+    expect(forward!.returns[1]).toBeCloseTo(0.02);
+    expect(forward!.returns[2]).toBeCloseTo(0.05);
+    expect(forward!.returns[5]).toBeNull();
+
+    expect(computeForwardReturns(bars, '2025-11-01', [1])).toBeNull();
+  });
+
+  it('should label score buckets from the configured edges', () => {
+    const edges = [0, 2, 5, 10];
+    expect(scoreBucket(-3, edges)).toBe('<0');
+    expect(scoreBucket(0, edges)).toBe('0-2');
+    expect(scoreBucket(4.9, edges)).toBe('2-5');
+    expect(scoreBucket(12, edges)).toBe('10+');
+  });
+
+  it('should judge negative-weight signals by the opposite direction', () => {
+    const stats = { count: 30, avgReturn: -0.01, avgExcessReturn: -0.01, hitRate: 0.3, tStat: -2.5 };
+    expect(signalVerdict(stats, -5, 20, 2)).toBe('predictive');
+    expect(signalVerdict(stats, 9, 20, 2)).toBe('inverse');
+    expect(signalVerdict({ ...stats, tStat: 1 }, 9, 20, 2)).toBe('no_edge');
+    expect(signalVerdict({ ...stats, count: 5 }, 9, 20, 2)).toBe('insufficient_data');
+  });
+
+  it('should compare each signal type with the same day average', () => {
+    const opportunities: EvaluatedOpportunity[] = [];
+    ['2025-11-03', '2025-11-04', '2025-11-05', '2025-11-06'].forEach((date, day) => {
+      const drift = day * 0.01;   // 날마다 시장 전체가 움직여도 초과 수익률은 그대로
+      opportunities.push(opportunity(date, 0.03 + drift + day * 0.001, [{ type: 'momentum', score: 11 }]));
+      opportunities.push(opportunity(date, -0.02 + drift, [{ type: 'insider_selling', score: -5 }]));
+      opportunities.push(opportunity(date, 0.0 + drift, [{ type: 'high_volume', score: 0.5 }, { type: 'high_volume', score: 0.2 }], 1));
+    });
+
+    const report = summarizeSignalPerformance(opportunities, OPTIONS);
+    const byType = (type: string) => report.signalTypes.find(signal => signal.type === type)!;
+
+    expect(report.opportunities).toBe(12);
+    expect(report.snapshotDays).toBe(4);
+
+    const momentum = byType('momentum');
+    expect(momentum.observations).toBe(4);
+    expect(momentum.horizons[1].avgExcessReturn).toBeGreaterThan(0.02);
+    expect(momentum.horizons[1].hitRate).toBe(1);
+    expect(momentum.horizons[5].count).toBe(0);
+    expect(momentum.verdict).toBe('predictive');
+    expect(momentum.buckets.map(bucket => bucket.bucket)).toEqual(['10+']);
+
+    expect(byType('insider_selling').verdict).toBe('predictive');
+    expect(byType('high_volume').observations).toBe(4);   // 같은 기회의 중복 시그널은 1건
+    expect(byType('high_volume').verdict).toBe('inverse');
+
+    expect(report.totalScoreBuckets.map(bucket => bucket.bucket)).toEqual(['0-5', '10-20']);
+    expect(report.signalTypes[report.signalTypes.length - 1].type).toBe('high_volume');
+  });
+
+  it('should count a signal that stays in the daily snapshots once', () => {
+    const opportunities: EvaluatedOpportunity[] = [];
+    ['2025-11-03', '2025-11-04', '2025-11-05', '2025-11-06', '2025-11-07'].forEach((date, day) => {
+      // 같은 내부자 매수 공시가 닷새 동안 NVDA 스냅샷에 남음 + 날마다 새 모멘텀 시그널
+      opportunities.push(opportunity(date, 0.02 + day * 0.001, [
+        { type: 'insider_buying', score: 7, signalDate: '2025-11-02' },
+        { type: 'momentum', score: 11 },
+      ], 18, 'NVDA'));
+      opportunities.push(opportunity(date, 0, [{ type: 'high_volume', score: 0.5 }], 1, 'XOM'));
+    });
+    // 다른 종목의 같은 날짜 공시는 별개 이벤트
+    opportunities.push(opportunity('2025-11-05', 0.01, [{ type: 'insider_buying', score: 7, signalDate: '2025-11-02' }], 7, 'AMD'));
+
+    const report = summarizeSignalPerformance(opportunities, OPTIONS);
+    const byType = (type: string) => report.signalTypes.find(signal => signal.type === type)!;
+
+    expect(byType('insider_buying').observations).toBe(2);
+    expect(byType('insider_buying').verdict).toBe('insufficient_data');
+    expect(byType('momentum').observations).toBe(5);
+    expect(report.opportunities).toBe(11);
+  });
+});
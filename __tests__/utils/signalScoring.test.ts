@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the editable signal scoring rules (defaults, caps, bonuses, validation)
+ */
+
+import { Signal } from '@/lib/types/investmentOpportunity';
+import {
+  DEFAULT_SCORING_CONFIG,
+  ScoringConfigSchema,
+  calculateOpportunityScore,
+  isAnalystBuySignal,
+  isCommitteeRelevant,
+  resolveScoringConfig,
+  ruleScore,
+} from '@/lib/utils/signalScoring';
+
+const NOW = new Date('2025-11-20T12:00:00Z');
+
+function signal(type: string, score: number, date: string = NOW.toISOString()): Signal {
+  return { type, score, source: 'test', description: type, date };
+}
+
+describe('signalScoring', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reproduce the built-in scoring with the default config', () => {
+    // 같은 타입 3개 (100% / 50% / 25%) + 다른 타입 2개 → 3개 타입 보너스 +5
+    const signals = [
+      signal('analyst_upgrade', 9),
+      signal('analyst_upgrade', 9),
+      signal('analyst_upgrade', 9),
+      signal('merger_acquisition', 10),
+      signal('insider_selling', -4),
+    ];
+
+    expect(calculateOpportunityScore(signals, DEFAULT_SCORING_CONFIG, NOW)).toBeCloseTo(9 * 1.75 + 10 - 4 + 5);
+    expect(calculateOpportunityScore([signal('momentum', 11), signal('top_gainer', 2)], DEFAULT_SCORING_CONFIG, NOW))
+      .toBeCloseTo(16);
+
+    // Half-Life 만큼 지난 시그널은 절반
+    const weekOld = new Date(NOW.getTime() - DEFAULT_SCORING_CONFIG.signals.analyst_upgrade.halfLifeDays * 86400000);
+    expect(calculateOpportunityScore([signal('analyst_upgrade', 9, weekOld.toISOString())], DEFAULT_SCORING_CONFIG, NOW))
+      .toBeCloseTo(4.5, 1);
+
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(resolveScoringConfig(null)).toBe(DEFAULT_SCORING_CONFIG);
+    expect(resolveScoringConfig({ signals: { bad: { source: 'nowhere' } } })).toBe(DEFAULT_SCORING_CONFIG);
+  });
+
+  it('should clamp each type to its cap and add combination bonuses', () => {
+    const config = ScoringConfigSchema.parse({
+      signals: {
+        ...DEFAULT_SCORING_CONFIG.signals,
+        analyst_upgrade: { ...DEFAULT_SCORING_CONFIG.signals.analyst_upgrade, cap: 10 },
+        split_watch: { source: 'stockSplits', label: 'Split Watch', score: 4, halfLifeDays: 30 },
+      },
+      diversityBonuses: [],
+      combinationBonuses: [{ types: ['split_watch', 'insider_buying'], bonus: 6 }],
+    });
+
+    const analysts = [signal('analyst_upgrade', 9), signal('analyst_upgrade', 9), signal('analyst_upgrade', 9)];
+    expect(calculateOpportunityScore(analysts, config, NOW)).toBe(10);
+
+    const insider = ruleScore(config.signals.insider_buying, 7);
+    expect(calculateOpportunityScore([signal('split_watch', 4), signal('insider_buying', insider)], config, NOW))
+      .toBeCloseTo(4 + 7 + 6);
+    expect(ruleScore(config.signals.insider_selling, 7)).toBe(-7);
+    expect(ruleScore(config.signals.split_watch, 7)).toBe(4);
+    expect(ruleScore(config.signals.senate_sale, 3)).toBe(-3);
+  });
+
+  it('should treat buy-like grades and upgrades along the grade order as analyst buys', () => {
+    const rules = DEFAULT_SCORING_CONFIG.analyst;
+    expect(isAnalystBuySignal({ previousGrade: 'Hold', newGrade: 'Overweight' }, rules)).toBe(true);
+    expect(isAnalystBuySignal({ previousGrade: 'Sell', newGrade: 'Neutral' }, rules)).toBe(true);
+    expect(isAnalystBuySignal({ previousGrade: 'Buy', newGrade: 'Hold' }, rules)).toBe(false);
+    expect(isAnalystBuySignal({ newGrade: 'Accumulate' }, { ...rules, buyKeywords: ['accumulate'] })).toBe(true);
+  });
+
+  it('should look up committee tickers per legislator only when they are listed', () => {
+    const rules = { committeeTickers: { 'Jane Doe': ['lmt', 'RTX'] } };
+    expect(isCommitteeRelevant('jane doe', 'LMT', rules)).toBe(true);
+    expect(isCommitteeRelevant('Jane Doe', 'AAPL', rules)).toBe(false);
+    expect(isCommitteeRelevant('John Roe', 'LMT', rules)).toBeUndefined();
+  });
+
+  it('should reject unknown sources and combinations of undefined signal types', () => {
+    const result = ScoringConfigSchema.safeParse({
+      signals: { 'Senate-Buy': { source: 'senatePurchases', label: 'x', score: 1, halfLifeDays: 30 } },
+      combinationBonuses: [{ types: ['momentum', 'house_purchase'], bonus: 2 }],
+    });
+    expect(result.success).toBe(false);
+
+    const unknownType = ScoringConfigSchema.safeParse({
+      combinationBonuses: [{ types: ['momentum', 'house_purchase'], bonus: 2 }],
+    });
+    expect(unknownType.success).toBe(false);
+    if (!unknownType.success) {
+      expect(unknownType.error.errors[0].message).toContain('house_purchase');
+      expect(unknownType.error.errors[0].path).toEqual(['combinationBonuses', 0, 'types']);
+    }
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Unit tests for the Strategy Evaluation Engine
+ *
+ * Pure evaluation on synthetic bars and indicator snapshots - no database or API access.
+ */
+
+import {
+  prepareStrategy,
+  evaluateStrategy,
+  evaluateEntryConditions,
+  parseRequiredIndicators,
+  calculateTechnicalScore,
+  computeIndicatorReadings,
+  computeIndicatorSeries,
+  StrategyBar,
+  IndicatorReading,
+} from '@/lib/utils/strategyEngine';
+
+function makeBars(closes: number[], start = new Date('2025-01-02T21:00:00Z')): StrategyBar[] {
+  return closes.map((close, i) => ({
+    timestamp: new Date(start.getTime() + i * 24 * 60 * 60 * 1000),
+    open: close,
+    high: close * 1.01,
+    low: close * 0.99,
+    close,
+    volume: 1000000,
+  }));
+}
+
+function range(count: number, fn: (i: number) => number): number[] {
+  return Array.from({ length: count }, (_, i) => fn(i));
+}
+
+describe('Strategy Evaluation Engine', () => {
+  describe('parseRequiredIndicators', () => {
+    it('should request both periods for crossovers', () => {
+      const requests = parseRequiredIndicators({
+        rsi: { period: 14, operator: '<', value: 30 },
+        smaCrossover: { fastPeriod: 50, slowPeriod: 200, operator: 'golden_cross' },
+      });
+
+      expect(requests).toEqual([
+        { type: 'rsi', params: { period: 14 } },
+        { type: 'sma', params: { period: 50 } },
+        { type: 'sma', params: { period: 200 } },
+      ]);
+    });
+  });
+
+  describe('evaluateEntryConditions (indicator snapshot)', () => {
+    it('should evaluate API results the same way as live bots', () => {
+      const readings: IndicatorReading[] = [
+        { indicator: 'rsi', params: { period: 14 }, result: 25.4, success: true },
+        { indicator: 'macd', params: {}, result: { macdLine: 1.2, signalLine: 0.8, histogram: 0.4 }, success: true },
+      ];
+
+      const result = evaluateEntryConditions(
+        { rsi: { period: 14, operator: '<', value: 30 }, macd: { operator: 'bullish_crossover' } },
+        readings,
+        150
+      );
+
+      expect(result.allMet).toBe(true);
+      expect(result.conditions.map(c => c.condition)).toEqual(['RSI(14) < 30', 'MACD bullish crossover']);
+    });
+
+    it('should match crossover readings by period', () => {
+      const readings: IndicatorReading[] = [
+        { indicator: 'sma', params: { period: 50 }, result: 180, success: true },
+        { indicator: 'sma', params: { period: 200 }, result: 170, success: true },
+      ];
+
+      const result = evaluateEntryConditions(
+        { smaCrossover: { fastPeriod: 50, slowPeriod: 200, operator: 'golden_cross' } },
+        readings,
+        185
+      );
+
+      expect(result.allMet).toBe(true);
+      expect(result.conditions[0].actual).toBe('180.00 > 170.00');
+    });
+
+    it('should not substitute a reading with another period', () => {
+      const readings: IndicatorReading[] = [
+        { indicator: 'sma', params: { period: 50 }, result: 180, success: true },
+      ];
+
+      const result = evaluateEntryConditions(
+        { smaCrossover: { fastPeriod: 20, slowPeriod: 50, operator: 'golden_cross' } },
+        readings,
+        185
+      );
+
+      expect(result.allMet).toBe(false);
+    });
+
+    it('should treat failed indicator fetches as unmet conditions', () => {
+      const readings: IndicatorReading[] = [
+        { indicator: 'rsi', params: { period: 14 }, result: 25, success: true },
+        { indicator: 'sma', params: { period: 20 }, result: null, success: false },
+      ];
+
+      const result = evaluateEntryConditions(
+        { rsi: { period: 14, operator: '<', value: 30 }, sma: { period: 20, operator: 'price_above' } },
+        readings,
+        100
+      );
+
+      expect(result.allMet).toBe(false);
+      expect(result.conditions).toHaveLength(2);
+      expect(result.failedReasons).toContain('SMA data unavailable');
+    });
+  });
+
+  describe('computeIndicatorSeries', () => {
+    it('should match per-bar readings computed on each prefix of the series', () => {
+      const bars = makeBars(range(60, i => 100 + 10 * Math.sin(i / 4) + i * 0.3));
+      const requests = [
+        { type: 'rsi' as const, params: { period: 14 } },
+        { type: 'sma' as const, params: { period: 20 } },
+        { type: 'ema' as const, params: { period: 12 } },
+        { type: 'macd' as const, params: {} },
+        { type: 'bollinger' as const, params: { period: 20 } },
+        { type: 'stochastic' as const, params: {} },
+        { type: 'atr' as const, params: { period: 14 } },
+      ];
+
+      const series = computeIndicatorSeries(bars, requests);
+
+      expect(series).toHaveLength(bars.length);
+      [0, 13, 14, 19, 33, 45, 59].forEach(i => {
+        const expected = computeIndicatorReadings(bars.slice(0, i + 1), requests);
+        series[i].forEach((reading, j) => {
+          expect(reading.success).toBe(expected[j].success);
+          if (typeof reading.result === 'number') {
+            expect(reading.result).toBeCloseTo(expected[j].result as number, 8);
+          } else if (reading.success) {
+            const actual = reading.result as { [key: string]: number };
+            const values = expected[j].result as { [key: string]: number };
+            Object.keys(values).forEach(key => expect(actual[key]).toBeCloseTo(values[key], 8));
+          }
+        });
+      });
+    });
+  });
+
+  describe('evaluateStrategy (bar series)', () => {
+    it('should BUY when price is above SMA in an uptrend', () => {
+      const strategy = prepareStrategy({
+        entryConditions: { sma: { period: 20, operator: 'price_above' } },
+        exitConditions: {},
+      });
+
+      const decision = evaluateStrategy(strategy, { bars: makeBars(range(30, i => 100 + i)) });
+
+      expect(decision.action).toBe('BUY');
+      expect(decision.trace).toHaveLength(1);
+      expect(decision.reason).toContain('SMA(20)');
+      expect(decision.technicalScore).toBeCloseTo(0.5);
+    });
+
+    it('should HOLD during indicator warm-up', () => {
+      const strategy = prepareStrategy({
+        entryConditions: { sma: { period: 20, operator: 'price_above' } },
+        exitConditions: {},
+      });
+
+      const decision = evaluateStrategy(strategy, { bars: makeBars(range(10, i => 100 + i)) });
+
+      expect(decision.action).toBe('HOLD');
+      expect(decision.entry.conditions[0].result).toBe(false);
+    });
+
+    it('should require every condition to be met', () => {
+      const strategy = prepareStrategy({
+        entryConditions: {
+          sma: { period: 20, operator: 'price_above' },
+          rsi: { period: 14, operator: '<', value: 30 },
+        },
+        exitConditions: {},
+      });
+
+      // Steady uptrend: price above SMA but RSI is high
+      const decision = evaluateStrategy(strategy, { bars: makeBars(range(40, i => 100 + i)) });
+
+      expect(decision.action).toBe('HOLD');
+      expect(decision.entry.conditions.filter(c => c.result)).toHaveLength(1);
+      expect(decision.technicalScore).toBeCloseTo(0);
+    });
+
+    it('should accept rules-based DB conditions stored as JSON', () => {
+      const strategy = prepareStrategy({
+        entryConditions: JSON.stringify({ rules: [{ indicator: 'RSI', operator: '<', value: 30 }] }),
+        exitConditions: null,
+      });
+
+      const decision = evaluateStrategy(strategy, { bars: makeBars(range(30, i => 200 - i * 2)) });
+
+      expect(decision.action).toBe('BUY');
+    });
+  });
+
+  describe('evaluateStrategy (exits)', () => {
+    const position = (entryPrice: number, bars: StrategyBar[], entryIndex = 0) => ({
+      entryPrice,
+      entryTime: bars[entryIndex].timestamp,
+    });
+
+    it('should fall back to strategy stop loss percentage', () => {
+      const strategy = prepareStrategy({ entryConditions: {}, exitConditions: {}, stopLoss: 5, takeProfit: 10 });
+      const bars = makeBars([100, 98, 94]);
+
+      const decision = evaluateStrategy(strategy, { bars }, position(100, bars));
+
+      expect(decision.action).toBe('SELL');
+      expect(decision.exit?.riskManagementTriggered).toBe(true);
+      expect(decision.reason).toContain('Stop loss');
+    });
+
+    it('should use take profit from exit conditions', () => {
+      const strategy = prepareStrategy({
+        entryConditions: {},
+        exitConditions: { takeProfit: { enabled: true, type: 'percentage', value: 3 } },
+        stopLoss: 5,
+        takeProfit: 10,
+      });
+      const bars = makeBars([100, 102, 103.5]);
+
+      const decision = evaluateStrategy(strategy, { bars }, position(100, bars));
+
+      expect(decision.action).toBe('SELL');
+      expect(decision.reason).toContain('Take profit');
+    });
+
+    it('should trigger trailing stop from the peak close since entry', () => {
+      const strategy = prepareStrategy({
+        entryConditions: {},
+        exitConditions: {
+          stopLoss: { enabled: true, type: 'percentage', value: 10, trailingEnabled: true, trailingDistance: 3 },
+          takeProfit: { enabled: true, type: 'percentage', value: 50 },
+        },
+      });
+      const bars = makeBars([100, 110, 120, 116]);
+
+      const decision = evaluateStrategy(strategy, { bars }, position(100, bars));
+
+      expect(decision.action).toBe('SELL');
+      expect(decision.reason).toContain('Trailing stop');
+    });
+
+    it('should evaluate technical exits only for listed indicators', () => {
+      const exitConditions = {
+        stopLoss: { enabled: true, type: 'percentage', value: 50 },
+        takeProfit: { enabled: true, type: 'percentage', value: 50 },
+        rsi: { period: 14, exitSignal: 'overbought', overboughtThreshold: 70 },
+      };
+      const bars = makeBars(range(30, i => 100 + i));
+
+      const withoutIndicator = prepareStrategy({ entryConditions: {}, exitConditions });
+      expect(evaluateStrategy(withoutIndicator, { bars }, position(110, bars, 10)).action).toBe('HOLD');
+
+      const withIndicator = prepareStrategy({
+        entryConditions: {},
+        exitConditions: { ...exitConditions, indicators: ['RSI'] },
+      });
+      const decision = evaluateStrategy(withIndicator, { bars }, position(110, bars, 10));
+      expect(decision.action).toBe('SELL');
+      expect(decision.exit?.technicalExitTriggered).toBe(true);
+      expect(decision.reason).toContain('RSI overbought');
+    });
+
+    it('should evaluate exits from an indicator snapshot without bars', () => {
+      const strategy = prepareStrategy({
+        entryConditions: {},
+        exitConditions: {
+          stopLoss: { enabled: true, type: 'percentage', value: 50 },
+          takeProfit: { enabled: true, type: 'percentage', value: 50 },
+          indicators: ['MACD'],
+          macd: { exitSignal: 'histogram_negative' },
+        },
+      });
+
+      const decision = evaluateStrategy(
+        strategy,
+        {
+          currentPrice: 105,
+          indicators: [
+            { indicator: 'macd', params: {}, result: { macdLine: -0.2, signalLine: 0.1, histogram: -0.3 }, success: true },
+          ],
+        },
+        { entryPrice: 100 }
+      );
+
+      expect(decision.action).toBe('SELL');
+      expect(decision.reason).toBe('MACD histogram negative (-0.3000)');
+    });
+
+    it('should exit after max hold time', () => {
+      const strategy = prepareStrategy({
+        entryConditions: {},
+        exitConditions: {
+          stopLoss: { enabled: true, type: 'percentage', value: 50 },
+          takeProfit: { enabled: true, type: 'percentage', value: 50 },
+          timeBasedExit: { enabled: true, maxHoldTime: 3 * 24 * 60 },
+        },
+      });
+      const bars = makeBars([100, 100, 100, 100]);
+
+      const decision = evaluateStrategy(strategy, { bars }, position(100, bars));
+
+      expect(decision.action).toBe('SELL');
+      expect(decision.exit?.timeBasedExitTriggered).toBe(true);
+      expect(decision.reason).toBe('Maximum hold time exceeded');
+    });
+
+    it('should apply the profile trailing stop once its activation gain is reached', () => {
+      const profileExits = { trailingPercent: 3, trailingActivationPercent: 15, maxHoldMinutes: null };
+      const strategy = prepareStrategy({ entryConditions: {}, exitConditions: {}, stopLoss: 10, takeProfit: 50, profileExits });
+
+      // 고점 110 (+10%) - 활성화 전이므로 3% 하락에도 보유
+      const notArmed = makeBars([100, 110, 106]);
+      expect(evaluateStrategy(strategy, { bars: notArmed }, position(100, notArmed)).action).toBe('HOLD');
+
+      const armed = makeBars([100, 120, 116]);
+      const decision = evaluateStrategy(strategy, { bars: armed }, position(100, armed));
+      expect(decision.action).toBe('SELL');
+      expect(decision.reason).toContain('Trailing stop');
+    });
+
+    it('should exit legacy exit conditions after the profile holding period', () => {
+      const strategy = prepareStrategy({
+        entryConditions: {},
+        exitConditions: { rsi: { period: 14, operator: '>', value: 90 } },
+        stopLoss: 50,
+        takeProfit: 50,
+        profileExits: { trailingPercent: null, trailingActivationPercent: null, maxHoldMinutes: 2 * 24 * 60 },
+      });
+      const bars = makeBars([100, 100, 100]);
+
+      const decision = evaluateStrategy(strategy, { bars }, position(100, bars));
+
+      expect(decision.exit?.timeBasedExitTriggered).toBe(true);
+      expect(decision.reason).toBe('Maximum hold time exceeded');
+    });
+  });
+
+  describe('evaluateStrategy (decision thresholds)', () => {
+    it('should BUY on a partial match once the technical score reaches the buy threshold', () => {
+      const entryConditions = {
+        sma: { period: 20, operator: 'price_above' },
+        rsi: { period: 14, operator: '<', value: 30 },
+      };
+      const bars = makeBars(range(40, i => 100 + i));
+
+      const strict = prepareStrategy({ entryConditions, exitConditions: {} });
+      expect(strict.decisionConfig).toBeNull();
+      expect(evaluateStrategy(strict, { bars }).action).toBe('HOLD');
+
+      const thresholds = prepareStrategy({ entryConditions, exitConditions: {}, decisionConfig: { thresholds: { buy: 0 } } });
+      const decision = evaluateStrategy(thresholds, { bars });
+      expect(decision.action).toBe('BUY');
+      expect(decision.reason).toContain('buy threshold');
+    });
+
+    it('should SELL an open position when the technical score falls to the sell threshold', () => {
+      const strategy = prepareStrategy({
+        entryConditions: { sma: { period: 20, operator: 'price_above' } },
+        exitConditions: {},
+        stopLoss: 50,
+        takeProfit: 500,
+        decisionConfig: {},
+      });
+      const bars = makeBars(range(30, i => 200 - i));
+
+      const decision = evaluateStrategy(strategy, { bars }, { entryPrice: 170, entryTime: bars[0].timestamp });
+
+      expect(decision.action).toBe('SELL');
+      expect(decision.technicalScore).toBeCloseTo(-0.5);
+      expect(decision.reason).toContain('sell threshold -0.35');
+    });
+  });
+
+  describe('calculateTechnicalScore', () => {
+    it('should score +0.5/n per met and -0.5/n per unmet condition', () => {
+      const score = calculateTechnicalScore([
+        { condition: 'a', actual: '', result: true },
+        { condition: 'b', actual: '', result: true },
+        { condition: 'c', actual: '', result: false },
+      ]);
+
+      expect(score).toBeCloseTo(0.5 / 3);
+    });
+  });
+});
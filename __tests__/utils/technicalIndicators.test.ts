@@ -0,0 +1,135 @@
+/**
+ * Fixture tests for local indicator calculations
+ *
+ * Each fixture in __tests__/fixtures/indicators holds OHLCV bars plus expected indicator values,
+ * rounded to 4 decimals like Alpha Vantage responses. reference-daily.json is a synthetic series
+ * whose values were computed independently with the TA-Lib algorithms Alpha Vantage uses - it is
+ * not recorded Alpha Vantage output. Fixtures recorded from the API with
+ * `npm run fixtures:indicators -- SYMBOL` are picked up the same way (their `source` says so).
+ * Local results must match within TOLERANCE (1e-3, a few units of the 4-decimal rounding).
+ *
+ * The synthetic fixture only checks the local code against an independent implementation.
+ * Until a recorded Alpha Vantage fixture is committed, the comparison against the API itself
+ * is reported as a todo instead of passing silently.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TechnicalIndicatorCalculator, MarketDataPoint } from '@/lib/utils/technicalIndicators';
+
+interface IndicatorFixture {
+  symbol: string;
+  interval: string;
+  source: string;
+  compareLast: number;
+  bars: Array<{ timestamp: string; open: number; high: number; low: number; close: number; volume: number }>;
+  indicators: Record<string, {
+    params: Record<string, number>;
+    values: Record<string, Record<string, string>>;
+  }>;
+}
+
+const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'indicators');
+const TOLERANCE = 1e-3;
+
+const fixtures: Array<[string, IndicatorFixture]> = fs
+  .readdirSync(FIXTURE_DIR)
+  .filter(file => file.endsWith('.json'))
+  .map(file => [file, JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8'))]);
+
+// scripts/record-indicator-fixtures.ts writes "Alpha Vantage (...), recorded <date>"
+const recordedFixtures = fixtures.filter(([, fixture]) => fixture.source.indexOf('Alpha Vantage') === 0);
+
+// Compute a local series per Alpha Vantage output field, aligned to the fixture bars
+function localSeries(
+  name: string,
+  params: Record<string, number>,
+  data: MarketDataPoint[]
+): Record<string, (number | null)[]> {
+  const closes = data.map(d => d.close);
+
+  switch (name) {
+    case 'RSI':
+      return { RSI: TechnicalIndicatorCalculator.calculateRSISeries(data, params.time_period) };
+    case 'SMA':
+      return { SMA: TechnicalIndicatorCalculator.calculateSMASeries(closes, params.time_period) };
+    case 'EMA':
+      return { EMA: TechnicalIndicatorCalculator.calculateEMASeries(closes, params.time_period) };
+    case 'MACD': {
+      const series = TechnicalIndicatorCalculator.calculateMACDSeries(
+        data, params.fastperiod, params.slowperiod, params.signalperiod
+      );
+      return {
+        MACD: series.map(s => s.macdLine),
+        MACD_Signal: series.map(s => s.signalLine),
+        MACD_Hist: series.map(s => s.histogram),
+      };
+    }
+    case 'BBANDS': {
+      const bands = data.map((_, i) =>
+        TechnicalIndicatorCalculator.calculateBollingerBands(data.slice(0, i + 1), params.time_period, params.nbdevup)
+      );
+      return {
+        'Real Upper Band': bands.map(b => b.upper),
+        'Real Middle Band': bands.map(b => b.middle),
+        'Real Lower Band': bands.map(b => b.lower),
+      };
+    }
+    case 'STOCH': {
+      const series = TechnicalIndicatorCalculator.calculateStochasticSeries(
+        data, params.fastkperiod, params.slowkperiod, params.slowdperiod
+      );
+      return { SlowK: series.map(s => s.slowK), SlowD: series.map(s => s.slowD) };
+    }
+    case 'ATR':
+      return { ATR: data.map((_, i) => TechnicalIndicatorCalculator.calculateATR(data.slice(0, i + 1), params.time_period)) };
+    default:
+      throw new Error(`No local calculation for ${name}`);
+  }
+}
+
+describe('Technical indicators match Alpha Vantage fixtures', () => {
+  it('should have at least one fixture', () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  if (recordedFixtures.length === 0) {
+    it.todo('should match a recorded Alpha Vantage response (npm run fixtures:indicators -- IBM)');
+  }
+
+  fixtures.forEach(([file, fixture]) => {
+    describe(file, () => {
+      const data: MarketDataPoint[] = fixture.bars.map(bar => ({
+        close: bar.close,
+        high: bar.high,
+        low: bar.low,
+        volume: bar.volume,
+        timestamp: new Date(bar.timestamp),
+      }));
+      const indexByDate = new Map(fixture.bars.map((bar, i) => [bar.timestamp, i] as [string, number]));
+
+      Object.keys(fixture.indicators).forEach(name => {
+        it(`should match ${name}`, () => {
+          const { params, values } = fixture.indicators[name];
+          const series = localSeries(name, params, data);
+          // Only compare recent values - early values depend on warm-up history before the first bar
+          const dates = Object.keys(values).sort().slice(-fixture.compareLast);
+
+          expect(dates.length).toBeGreaterThan(0);
+
+          dates.forEach(date => {
+            const index = indexByDate.get(date);
+            expect(index).toBeDefined();
+
+            Object.keys(values[date]).forEach(field => {
+              const local = series[field][index as number];
+              if (local === null || Math.abs(local - parseFloat(values[date][field])) > TOLERANCE) {
+                throw new Error(`${name} ${field} on ${date}: expected ${values[date][field]}, got ${local}`);
+              }
+            });
+          });
+        });
+      });
+    });
+  });
+});
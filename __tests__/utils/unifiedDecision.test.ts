@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the deterministic part of the unified trade decision
+ *
+ * Same code the decision replay runs - no database, OpenAI or broker access.
+ */
+
+import {
+  DecisionInputs,
+  computeObjectiveScore,
+  limitGptAdjustment,
+  resolveUnifiedDecision,
+} from '@/lib/utils/unifiedDecision';
+import { DecisionConfigSchema } from '@/lib/utils/decisionConfig';
+
+const baseInputs: DecisionInputs = {
+  currentPrice: 100,
+  currentPosition: null,
+  fundAllocation: 1000,
+  stopLoss: 5,
+  takeProfit: 10,
+  sentimentScore: 0.5,
+  sentimentLabel: 'Bullish',
+  socialScore: 0,
+  technicalSignal: true,
+  technicalConditions: [
+    { condition: 'RSI < 30', actual: '28', result: true },
+    { condition: 'Price > SMA(20)', actual: '98', result: false },
+  ],
+};
+
+function withPosition(quantity: number, entryPrice: number, currentPrice = 100): DecisionInputs {
+  return {
+    ...baseInputs,
+    currentPrice,
+    currentPosition: {
+      quantity,
+      entryPrice,
+      currentValue: quantity * currentPrice,
+      unrealizedPL: quantity * (currentPrice - entryPrice),
+      unrealizedPLPercent: ((currentPrice - entryPrice) / entryPrice) * 100,
+    },
+  };
+}
+
+describe('Unified decision', () => {
+  describe('computeObjectiveScore', () => {
+    it('should weight news and technical conditions 70/30', () => {
+      const score = computeObjectiveScore(baseInputs);
+
+      expect(score.technicalScore).toBe(0);
+      expect(score.baseScore).toBeCloseTo(0.35);
+    });
+
+    it('should blend social sentiment in when it is available', () => {
+      expect(computeObjectiveScore({ ...baseInputs, socialScore: 0.4 }).baseScore).toBeCloseTo(0.34);
+      expect(computeObjectiveScore({ ...baseInputs, sentimentScore: 0, socialScore: 0.4 }).baseScore).toBeCloseTo(0.28);
+      expect(computeObjectiveScore({ ...baseInputs, sentimentScore: 0, technicalConditions: undefined }).baseScore).toBe(0.5);
+    });
+  });
+
+  describe('limitGptAdjustment', () => {
+    it('should cap the adjustment at ±0.5', () => {
+      expect(limitGptAdjustment(baseInputs, { adjustment: -0.9, reasoning: 'lawsuit' }).gptAdjustment).toBe(-0.5);
+    });
+
+    it('should damp positive adjustments for a concentrated position and block adds at 80%', () => {
+      expect(limitGptAdjustment(withPosition(6, 100), { adjustment: 0.4, reasoning: 'beat' }).gptAdjustment).toBeCloseTo(0.34);
+      expect(limitGptAdjustment(withPosition(8, 100), { adjustment: 0.4, reasoning: 'beat' }).gptAdjustment).toBe(0);
+    });
+  });
+
+  describe('resolveUnifiedDecision', () => {
+    it('should size a new position from the target ratio', () => {
+      const decision = resolveUnifiedDecision(baseInputs, { adjustment: 0.4, reasoning: 'earnings beat' });
+
+      expect(decision.finalScore).toBeCloseTo(0.75);
+      expect(decision).toMatchObject({
+        action: 'BUY',
+        actionType: 'NEW_POSITION',
+        shouldTrade: true,
+        quantity: 7,
+        limitPrice: 100.15,
+      });
+    });
+
+    it('should exit the whole position at the stop loss whatever the score', () => {
+      const decision = resolveUnifiedDecision(withPosition(5, 100, 94), { adjustment: 0.3, reasoning: 'upgrade' });
+
+      expect(decision).toMatchObject({ action: 'SELL', actionType: 'FULL_EXIT', sellType: 'FULL', quantity: 5 });
+      expect(decision.aiReasoning).toContain('Stop Loss');
+    });
+
+    it('should hold inside the neutral band', () => {
+      const decision = resolveUnifiedDecision(withPosition(3, 100), { adjustment: -0.2, reasoning: 'mixed' });
+
+      expect(decision).toMatchObject({ action: 'HOLD', actionType: 'HOLD', shouldTrade: false });
+    });
+
+    it('should fall back to the objective score when GPT failed', () => {
+      const decision = resolveUnifiedDecision(baseInputs, null, { gptError: 'timeout' });
+
+      expect(decision).toMatchObject({ action: 'BUY', gptAdjustment: 0, quantity: 3 });
+      expect(decision.finalScore).toBeCloseTo(0.35);
+      expect(decision.aiReasoning).toContain('timeout');
+    });
+  });
+
+  describe('strategy decision config', () => {
+    it('should apply custom weights and drop disabled sentiment sources', () => {
+      const technicalHeavy = DecisionConfigSchema.parse({ weights: { sentiment: 0.4, technical: 0.6, socialShare: 0.2 } });
+      expect(computeObjectiveScore({ ...baseInputs, socialScore: 0.4 }, technicalHeavy).baseScore).toBeCloseTo(0.18);
+
+      const noNews = DecisionConfigSchema.parse({ components: { news: false } });
+      expect(computeObjectiveScore(baseInputs, noNews)).toMatchObject({ sentimentScore: 0, baseScore: 0 });
+    });
+
+    it('should ignore the GPT judgement when GPT is disabled', () => {
+      const config = DecisionConfigSchema.parse({ components: { gpt: false }, thresholds: { buy: 0.3 } });
+
+      const decision = resolveUnifiedDecision(baseInputs, { adjustment: 0.4, reasoning: 'earnings beat' }, { config });
+
+      expect(decision).toMatchObject({ action: 'BUY', gptAdjustment: 0, quantity: 4 });
+      expect(decision.finalScore).toBeCloseTo(0.35);
+      expect(decision.aiReasoning).toContain('GPT 비활성화');
+    });
+
+    it('should cap the adjustment at the configured maximum', () => {
+      const config = DecisionConfigSchema.parse({ maxGptAdjustment: 0.2 });
+
+      const decision = resolveUnifiedDecision(baseInputs, { adjustment: 0.4, reasoning: 'earnings beat' }, { config });
+
+      expect(decision.gptAdjustment).toBe(0.2);
+      expect(decision.finalScore).toBeCloseTo(0.55);
+    });
+  });
+});
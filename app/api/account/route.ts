@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { alpacaTradingService } from '@/lib/services/alpacaTradingService';
+import { getBroker } from '@/lib/services/brokers';
 import { technicalIndicatorService } from '@/lib/services/technicalIndicatorService';
+import { positionReconciliationService } from '@/lib/services/positionReconciliationService';
 
 // GET /api/account - 전체 포트폴리오 현황 조회 (모든 봇 합산)
 export async function GET() {
@@ -12,7 +13,8 @@ export async function GET() {
         id: true,
         symbol: true,
         fundAllocation: true,
-        totalReturns: true
+        totalReturns: true,
+        mode: true
       }
     });
 
@@ -36,16 +38,16 @@ export async function GET() {
       let positionTotalCost = 0;
 
       if (position && position.quantity > 0) {
-        // 실시간 시장가 조회 (Alpaca 우선, fallback Alpha Vantage)
+        // 실시간 시장가 조회 (봇 브로커 우선, fallback Alpha Vantage)
         let currentPrice = 0;
 
         try {
-          const alpacaPosition = await alpacaTradingService.getPosition(symbol);
-          if (alpacaPosition && alpacaPosition.currentPrice) {
-            currentPrice = alpacaPosition.currentPrice;
+          const brokerPosition = await getBroker(bot.mode).getPosition(symbol);
+          if (brokerPosition && brokerPosition.currentPrice) {
+            currentPrice = brokerPosition.currentPrice;
           }
         } catch {
-          // Alpaca 실패 시 Alpha Vantage
+          // 브로커 실패 시 Alpha Vantage
           const alphaPrice = await technicalIndicatorService.fetchCurrentPrice(symbol);
           if (alphaPrice) {
             currentPrice = alphaPrice;
@@ -81,6 +83,9 @@ export async function GET() {
       ? (totalReturns / totalAllocatedFunds) * 100
       : 0;
 
+    // 봇 포지션 합계 vs Alpaca 계좌 포지션 비교 (불일치 시 경고)
+    const reconciliation = await positionReconciliationService.getReconciliationReport();
+
     return NextResponse.json({
       success: true,
       data: {
@@ -89,6 +94,7 @@ export async function GET() {
         totalReturns: totalReturns,
         totalReturnsPercent: totalReturnsPercent,
         botCount: bots.length,
+        reconciliationWarnings: reconciliation.mismatches,
         lastUpdated: new Date()
       }
     });
@@ -17,11 +17,27 @@ interface RouteParams {
  *
  * Query params:
  * - resolution?: 'full' | 'hourly' | 'daily' (default: 'full')
+ * - symbol?: string - portfolio backtests only: that symbol's P&L curve instead of the combined curve
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { searchParams } = new URL(request.url);
     const resolution = searchParams.get('resolution') || 'full';
+    const symbol = searchParams.get('symbol');
+
+    if (symbol) {
+      const symbolCurve = await prisma.backtestSymbolEquityCurve.findMany({
+        where: { backtestRunId: params.id, symbol: symbol.toUpperCase() },
+        orderBy: { timestamp: 'asc' },
+      });
+
+      return NextResponse.json({
+        success: true,
+        symbol: symbol.toUpperCase(),
+        count: symbolCurve.length,
+        data: symbolCurve,
+      });
+    }
 
     const equityCurve = await prisma.backtestEquityCurve.findMany({
       where: { backtestRunId: params.id },
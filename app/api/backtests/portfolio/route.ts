@@ -0,0 +1,87 @@
+/**
+ * Portfolio Backtest API Route
+ *
+ * POST   /api/backtests/portfolio  - Start a multi-symbol backtest with shared cash
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { portfolioBacktestController, PortfolioBacktestConfig } from '@/lib/services/backtesting';
+
+/**
+ * POST /api/backtests/portfolio
+ * Start a portfolio backtest from a symbol list (one strategy) or existing bots
+ *
+ * Body:
+ * {
+ *   symbols?: string[],           // with strategyId
+ *   strategyId?: string,
+ *   botIds?: string[],            // or: each bot's symbol, strategy and fundAllocation
+ *   timeHorizon: 'SHORT_TERM' | 'SWING' | 'LONG_TERM',
+ *   startDate: string (ISO),
+ *   endDate: string (ISO),
+ *   initialCash?: number,         // shared by all symbols
+ *   positionSizing?: 'FIXED_DOLLAR' | 'FIXED_SHARES' | 'PERCENT_EQUITY',
+ *   positionSize?: number,
+ *   slippageBps?: number,
+ *   commissionPerTrade?: number
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validation
+    if (!body.timeHorizon || !body.startDate || !body.endDate) {
+      return NextResponse.json(
+        { error: 'Missing required fields: timeHorizon, startDate, endDate' },
+        { status: 400 }
+      );
+    }
+
+    const hasBots = Array.isArray(body.botIds) && body.botIds.length > 0;
+    const hasSymbols = Array.isArray(body.symbols) && body.symbols.length > 0;
+
+    if (!hasBots && !(hasSymbols && body.strategyId)) {
+      return NextResponse.json(
+        { error: 'Provide botIds, or symbols with strategyId' },
+        { status: 400 }
+      );
+    }
+
+    const legs = hasBots
+      ? await portfolioBacktestController.buildLegsFromBots(body.botIds)
+      : body.symbols.map((symbol: string) => ({
+          symbol: symbol.toUpperCase(),
+          strategyId: body.strategyId,
+        }));
+
+    // Build backtest config
+    const config: PortfolioBacktestConfig = {
+      legs,
+      timeHorizon: body.timeHorizon,
+      startDate: new Date(body.startDate),
+      endDate: new Date(body.endDate),
+      initialCash: body.initialCash || 10000.0,
+      positionSizing: body.positionSizing || 'FIXED_DOLLAR',
+      positionSize: body.positionSize || 1000.0,
+      slippageBps: body.slippageBps || 10,
+      commissionPerTrade: body.commissionPerTrade || 1.0,
+    };
+
+    const backtestRunId = await portfolioBacktestController.runPortfolioBacktest(config);
+
+    return NextResponse.json({
+      success: true,
+      backtestRunId,
+      symbols: legs.map((leg: { symbol: string }) => leg.symbol),
+      message: 'Portfolio backtest started',
+    });
+
+  } catch (error: any) {
+    console.error('POST /api/backtests/portfolio error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { orderExecutionService } from '@/lib/services/orderExecutionService';
+
+// GET /api/bots/[id]/execution - Order execution quality (fill rate, slippage, price improvement)
+// Query: limit (recent executions, default 20, max 100)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const bot = await prisma.bot.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!bot) {
+      return NextResponse.json(
+        { success: false, error: 'Bot not found' },
+        { status: 404 }
+      );
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+    const { recent, ...metrics } = await orderExecutionService.getBotMetrics(id, limit);
+
+    return NextResponse.json({
+      success: true,
+      metrics,
+      executions: recent
+    });
+  } catch (error: any) {
+    console.error('Error fetching execution quality:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch execution quality' },
+      { status: 500 }
+    );
+  }
+}
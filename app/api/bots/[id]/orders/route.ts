@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { alpacaTradingService } from '@/lib/services/alpacaTradingService';
+import { getBrokerForBot } from '@/lib/services/brokers';
 
 // Order with fill status from Alpaca
 export interface OrderWithFillStatus {
@@ -38,6 +38,7 @@ export async function GET(
       orderBy: { createdAt: 'desc' },
       take: 20 // Get latest 20 orders
     });
+    const broker = await getBrokerForBot(id);
 
     // Transform trades and enrich with Alpaca fill status
     const ordersWithStatus: OrderWithFillStatus[] = await Promise.all(
@@ -55,10 +56,20 @@ export async function GET(
           alpacaOrderId: trade.alpacaOrderId || undefined
         };
 
-        // If we have Alpaca order ID, fetch fill status
-        if (trade.alpacaOrderId) {
+        // Final orders: fill status already recorded by the fill tracking job
+        if (trade.alpacaOrderId && trade.reconciledAt && trade.brokerStatus) {
+          const filledQty = trade.filledQuantity || 0;
+          baseOrder.fillStatus = {
+            status: trade.brokerStatus,
+            filledQty,
+            remainingQty: trade.quantity - filledQty,
+            fillRate: trade.quantity > 0 ? Math.round((filledQty / trade.quantity) * 100) : 0,
+            averageFillPrice: trade.filledAvgPrice || undefined
+          };
+        } else if (trade.alpacaOrderId) {
+          // Open orders: fetch fill status from the bot's broker
           try {
-            const alpacaOrder = await alpacaTradingService.getOrder(trade.alpacaOrderId);
+            const alpacaOrder = await broker.getOrder(trade.alpacaOrderId);
 
             const filledQty = parseFloat(alpacaOrder.filled_qty || '0');
             const orderQty = parseFloat(alpacaOrder.qty || trade.quantity.toString());
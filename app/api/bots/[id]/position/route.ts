@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { alpacaTradingService } from '@/lib/services/alpacaTradingService';
+import { getBroker } from '@/lib/services/brokers';
 import { technicalIndicatorService } from '@/lib/services/technicalIndicatorService';
 
 // GET /api/bots/[id]/position - 특정 봇의 포지션과 자금 현황 조회
@@ -19,7 +19,8 @@ export async function GET(
         symbol: true,
         fundAllocation: true,
         totalReturns: true,  // 실현 손익
-        realizedCash: true   // 매도로 회수한 현금
+        realizedCash: true,  // 매도로 회수한 현금
+        mode: true           // 브로커 선택 (PAPER / SIMULATED)
       }
     });
 
@@ -46,21 +47,22 @@ export async function GET(
       });
 
       if (dbPosition && dbPosition.quantity > 0) {
-        // 실시간 시장가 조회 (Alpaca 우선, fallback Alpha Vantage)
+        // 실시간 시장가 조회 (봇 브로커 우선, fallback Alpha Vantage)
         let realTimePrice: number | null = null;
+        const broker = getBroker(bot.mode);
 
-        // 1. Alpaca에서 실시간 가격 조회 시도
+        // 1. 브로커에서 실시간 가격 조회 시도
         try {
-          const alpacaPosition = await alpacaTradingService.getPosition(symbol);
-          if (alpacaPosition && alpacaPosition.currentPrice) {
-            realTimePrice = alpacaPosition.currentPrice;
-            console.log(`📊 Alpaca 실시간 가격 사용: $${realTimePrice.toFixed(2)}`);
+          const brokerPosition = await broker.getPosition(symbol);
+          if (brokerPosition && brokerPosition.currentPrice) {
+            realTimePrice = brokerPosition.currentPrice;
+            console.log(`📊 ${broker.name} 실시간 가격 사용: $${realTimePrice.toFixed(2)}`);
           }
-        } catch (alpacaError) {
-          console.warn('⚠️ Alpaca 가격 조회 실패, Alpha Vantage fallback 시도');
+        } catch (brokerError) {
+          console.warn(`⚠️ ${broker.name} 가격 조회 실패, Alpha Vantage fallback 시도`);
         }
 
-        // 2. Alpaca 실패 시 Alpha Vantage fallback
+        // 2. 브로커 실패 시 Alpha Vantage fallback
         if (!realTimePrice) {
           try {
             realTimePrice = await technicalIndicatorService.fetchCurrentPrice(symbol);
@@ -13,6 +13,7 @@ export async function GET(
       where: { id },
       include: {
         strategy: true,
+        profile: true,
         trades: {
           take: 10,
           orderBy: { createdAt: 'desc' }
@@ -65,7 +66,14 @@ export async function PUT(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { name, symbol, status, orderType, fundAllocation } = body;
+    const { name, symbol, status, orderType, fundAllocation, profileId, aiProvider } = body;
+
+    if (aiProvider !== undefined && !['OPENAI', 'RULE_BASED'].includes(aiProvider)) {
+      return NextResponse.json(
+        { error: 'aiProvider must be either OPENAI or RULE_BASED' },
+        { status: 400 }
+      );
+    }
 
     const bot = await prisma.bot.update({
       where: { id },
@@ -75,6 +83,8 @@ export async function PUT(
         ...(status && { status }),
         ...(orderType && { orderType }),
         ...(fundAllocation !== undefined && { fundAllocation }),
+        ...(profileId !== undefined && { profileId: profileId || null }),
+        ...(aiProvider !== undefined && { aiProvider }),
       },
       include: {
         strategy: true,
@@ -104,7 +114,9 @@ export async function DELETE(
     const result = await deleteBot(id);
 
     if (!result.success) {
-      const statusCode = result.error?.code === 'BOT_NOT_FOUND' ? 404 : 500;
+      const statusCode = result.error?.code === 'BOT_NOT_FOUND'
+        ? 404
+        : result.error?.code === 'TRADING_HALTED' ? 423 : 500;
       return NextResponse.json(
         {
           error: result.error?.message,
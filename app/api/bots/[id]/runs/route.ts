@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BotRunStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { botRunService } from '@/lib/services/botRunService';
+
+const RUN_STATUSES: BotRunStatus[] = ['RUNNING', 'SUCCEEDED', 'FAILED', 'SKIPPED'];
+
+// GET /api/bots/[id]/runs - Bot execution history (newest first)
+// Query: limit (default 50, max 200), status (RUNNING | SUCCEEDED | FAILED | SKIPPED), before (ISO date, paging)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const bot = await prisma.bot.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!bot) {
+      return NextResponse.json(
+        { success: false, error: 'Bot not found' },
+        { status: 404 }
+      );
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+    const statusParam = searchParams.get('status');
+    const beforeParam = searchParams.get('before');
+
+    if (statusParam && RUN_STATUSES.indexOf(statusParam as BotRunStatus) === -1) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${RUN_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const before = beforeParam ? new Date(beforeParam) : undefined;
+    if (before && isNaN(before.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'before must be an ISO date' },
+        { status: 400 }
+      );
+    }
+
+    const runs = await botRunService.getRunsByBotId(id, {
+      limit,
+      status: (statusParam as BotRunStatus) || undefined,
+      before
+    });
+
+    return NextResponse.json({
+      success: true,
+      runs,
+      hasMore: runs.length === limit
+    });
+  } catch (error: any) {
+    console.error('Error fetching bot runs:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch bot runs' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,8 @@
  *
  * Runs tests on ALL ACTIVE bots regardless of their schedule.
  * Tests are executed in parallel for optimal performance.
- * Reuses the existing individual bot test logic.
+ * Reuses the individual bot test logic (botExecutionService); each run is
+ * recorded as a BotRun with trigger BULK.
  *
  * Response:
  * {
@@ -24,8 +25,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { botTestService } from '@/lib/services/botTestService';
-import { technicalIndicatorService } from '@/lib/services/technicalIndicatorService';
+import { botExecutionService } from '@/lib/services/botExecutionService';
+import { killSwitchService } from '@/lib/services/killSwitchService';
 
 /**
  * Interface for individual bot test result
@@ -36,127 +37,41 @@ interface BotTestResult {
   symbol: string;
   status: 'passed' | 'failed' | 'skipped';
   report?: any;
+  runId?: string;
   error?: string;
   executionTime?: number;
 }
 
 /**
- * Run test for a single bot (reuses existing logic)
+ * Run test for a single bot (shared botExecutionService, recorded as a BULK BotRun)
  */
-async function runBotTest(bot: any): Promise<BotTestResult> {
+async function runBotTest(bot: { id: string; name: string; symbol: string }): Promise<BotTestResult> {
   const startTime = Date.now();
 
   try {
     console.log(`[BulkTest] Testing bot: ${bot.name} (${bot.symbol})`);
 
-    // Get current real-time price from Alpha Vantage
-    let currentPrice: number;
-    try {
-      const price = await technicalIndicatorService.fetchCurrentPrice(bot.symbol);
-      if (price) {
-        currentPrice = price;
-        console.log(`[BulkTest] ${bot.symbol} real-time price: $${currentPrice}`);
-      } else {
-        throw new Error('No real-time price available');
-      }
-    } catch (error) {
-      console.error(`[BulkTest] ${bot.symbol} price fetch failed:`, error);
+    const result = await botExecutionService.runBot(bot.id, { trigger: 'BULK' });
+    const executionTime = Date.now() - startTime;
+
+    if (!result) {
       return {
         botId: bot.id,
         botName: bot.name,
         symbol: bot.symbol,
-        status: 'failed',
-        error: 'Failed to fetch current price from Alpha Vantage'
+        status: 'skipped',
+        error: 'Bot not found',
+        executionTime
       };
     }
 
-    // Parse strategy configuration with safe defaults
-    let entryConditions;
-    let exitConditions;
-    let strategyName = 'Default Strategy';
-    let stopLoss = 5.0;
-    let takeProfit = 10.0;
-
-    try {
-      if (bot.strategy) {
-        strategyName = bot.strategy.name || 'Custom Strategy';
-
-        // Parse entry conditions
-        if (bot.strategy.entryConditions) {
-          entryConditions = typeof bot.strategy.entryConditions === 'string'
-            ? JSON.parse(bot.strategy.entryConditions)
-            : bot.strategy.entryConditions;
-        }
-
-        // Parse exit conditions
-        if (bot.strategy.exitConditions) {
-          exitConditions = typeof bot.strategy.exitConditions === 'string'
-            ? JSON.parse(bot.strategy.exitConditions)
-            : bot.strategy.exitConditions;
-        }
-
-        // Get stop loss and take profit from strategy
-        if (bot.strategy.stopLoss !== null && bot.strategy.stopLoss !== undefined) {
-          stopLoss = bot.strategy.stopLoss;
-        }
-        if (bot.strategy.takeProfit !== null && bot.strategy.takeProfit !== undefined) {
-          takeProfit = bot.strategy.takeProfit;
-        }
-      }
-
-      // Fallback to default strategy if no entry conditions found
-      if (!entryConditions || Object.keys(entryConditions).length === 0) {
-        console.warn(`[BulkTest] ${bot.symbol} no entry conditions, using default RSI strategy`);
-        entryConditions = {
-          rsi: {
-            period: 14,
-            operator: '<',
-            value: 30
-          }
-        };
-      }
-
-    } catch (error) {
-      console.error(`[BulkTest] ${bot.symbol} strategy parsing failed, using default:`, error);
-      // Safe fallback strategy
-      entryConditions = {
-        rsi: {
-          period: 14,
-          operator: '<',
-          value: 30
-        }
-      };
-      exitConditions = {};
-    }
-
-    // Build complete strategy object
-    const strategyConfig = {
-      id: bot.strategy?.id || 'default',
-      name: strategyName,
-      timeHorizon: bot.strategy?.timeHorizon,
-      entryConditions,
-      exitConditions: exitConditions || {},
-      stopLoss,
-      takeProfit
-    };
-
-    // Run the test (reusing existing service)
-    const report = await botTestService.runTest(
-      strategyConfig,
-      bot.symbol,
-      currentPrice,
-      bot.fundAllocation,
-      bot.id
-    );
-
-    const executionTime = Date.now() - startTime;
-
     return {
       botId: bot.id,
       botName: bot.name,
       symbol: bot.symbol,
       status: 'passed',
-      report,
+      report: result.report,
+      runId: result.runId,
       executionTime
     };
 
@@ -184,13 +99,28 @@ export async function POST(request: NextRequest) {
   try {
     console.log('[BulkTest] Starting bulk bot test operation');
 
+    const control = await killSwitchService.getControl();
+    if (control.halted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Trading halted',
+          details: control.haltReason,
+          executionTime: Date.now() - overallStartTime
+        },
+        { status: 423 }
+      );
+    }
+
     // Get all ACTIVE bots with their strategies
     const activeBots = await prisma.bot.findMany({
       where: {
         status: 'ACTIVE'
       },
-      include: {
-        strategy: true
+      select: {
+        id: true,
+        name: true,
+        symbol: true
       }
     });
 
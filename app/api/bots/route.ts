@@ -37,7 +37,10 @@ export async function POST(request: NextRequest) {
       orderType,
       strategyId,
       underlyingAsset,
-      extendedHours
+      extendedHours,
+      mode,
+      aiProvider,
+      profileId
     } = body;
 
     // Use common bot creation service
@@ -49,7 +52,10 @@ export async function POST(request: NextRequest) {
       orderType: orderType || 'MARKET',
       description,
       underlyingAsset: underlyingAsset || null,
-      extendedHours: extendedHours || false
+      extendedHours: extendedHours || false,
+      mode: mode || 'PAPER',
+      aiProvider: aiProvider || 'OPENAI',
+      profileId
     });
 
     // Handle creation result
@@ -0,0 +1,55 @@
+/**
+ * Vercel Cron Job: Job Queue Worker
+ *
+ * Drains the job queue (BOT_RUN jobs enqueued by the time horizon crons) with
+ * the configured concurrency limit, per-minute rate budget and retry backoff.
+ * Schedule: every minute during market hours (configured in vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { jobQueueService } from '@/lib/services/jobQueueService';
+
+// Worker budget (JOB_QUEUE_WORKER_BUDGET_MS) + one job timeout must fit in this
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Only allow execution in production environment (Vercel)
+    // Vercel Cron jobs don't send Authorization headers automatically
+    if (process.env.NODE_ENV === 'production') {
+      // In production, only accept requests from Vercel's domain
+      const host = request.headers.get('host');
+      if (!host?.includes('vercel.app')) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    console.log('⏰ [Cron] Job queue worker triggered');
+
+    const result = await jobQueueService.processQueue();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('❌ [Cron] Job queue worker failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Allow POST as well for manual testing
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
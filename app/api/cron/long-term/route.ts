@@ -1,12 +1,13 @@
 /**
  * Vercel Cron Job: LONG_TERM Bots
  *
- * Executes all active LONG_TERM trading bots.
+ * Enqueues a BOT_RUN job for every active LONG_TERM trading bot
+ * (executed by the job queue worker, /api/cron/jobs).
  * Schedule: 10 AM daily (configured in vercel.json)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { executeBotsForTimeHorizon } from '@/lib/services/cronExecutor';
+import { enqueueBotsForTimeHorizon } from '@/lib/services/cronExecutor';
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,13 +26,8 @@ export async function GET(request: NextRequest) {
 
     console.log('⏰ [Cron] LONG_TERM execution triggered');
 
-    // Get base URL
-    const baseUrl = process.env.NEXTAUTH_URL ||
-                    `https://${request.headers.get('host')}` ||
-                    'http://localhost:3000';
-
-    // Execute LONG_TERM bots
-    const result = await executeBotsForTimeHorizon('LONG_TERM', baseUrl);
+    // Enqueue LONG_TERM bots
+    const result = await enqueueBotsForTimeHorizon('LONG_TERM');
 
     return NextResponse.json({
       timeHorizon: 'LONG_TERM',
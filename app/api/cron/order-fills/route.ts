@@ -0,0 +1,72 @@
+/**
+ * Vercel Cron Job: Order Fill Tracking
+ *
+ * Polls Alpaca for every open bot order (PENDING / PARTIALLY_FILLED) and records
+ * fills, cancellations and expirations. Bots with changes get their Position,
+ * totalReturns, winRate and realizedCash recomputed from real fills.
+ * Then limit orders past the execution strategy's timeout are repriced or converted to market orders,
+ * and every bot position gets protective legs (OCO stop/take-profit or trailing stop) matching its size.
+ * While the kill switch is tripped no order is placed: fills are still tracked, working orders are not
+ * repriced and protective legs are left as they are.
+ * Schedule: every 10 minutes during market hours (configured in vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { positionReconciliationService } from '@/lib/services/positionReconciliationService';
+import { orderExecutionService } from '@/lib/services/orderExecutionService';
+import { protectiveOrderService } from '@/lib/services/protectiveOrderService';
+import { killSwitchService } from '@/lib/services/killSwitchService';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Only allow execution in production environment (Vercel)
+    // Vercel Cron jobs don't send Authorization headers automatically
+    if (process.env.NODE_ENV === 'production') {
+      // In production, only accept requests from Vercel's domain
+      const host = request.headers.get('host');
+      if (!host?.includes('vercel.app')) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    console.log('⏰ [Cron] Order fill tracking triggered');
+
+    const result = await positionReconciliationService.trackOpenOrders();
+
+    // 체결 추적은 계속하되 정지 중에는 주문을 내는 단계(재호가, 보호 주문)가 새 주문을 만들지 않음
+    const halted = await killSwitchService.isHalted();
+    if (halted) {
+      console.log('🛑 [Cron] Trading halted - fills tracked only, no new orders');
+    }
+
+    const executions = await orderExecutionService.manageWorkingExecutions();
+    const protection = await protectiveOrderService.syncAll();
+
+    return NextResponse.json({
+      success: true,
+      halted,
+      ...result,
+      executions,
+      protection,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('❌ [Cron] Order fill tracking failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Allow POST as well for manual testing
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
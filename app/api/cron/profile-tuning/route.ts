@@ -0,0 +1,54 @@
+/**
+ * Vercel Cron Job: Adaptive Profile Tuning
+ *
+ * Computes each active bot's realized performance and the index market state, runs
+ * ProfileAdjuster and stores the proposed stop-loss / position size / exposure changes.
+ * Changes within PROFILE_TUNING_MAX_AUTO_CHANGE are applied when PROFILE_TUNING_AUTO_APPLY is on;
+ * the rest wait for approval via POST /api/profiles/adjustments/[id].
+ * Schedule: once a day after the US market close (configured in vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { profileTuningService } from '@/lib/services/profileTuningService';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Only allow execution in production environment (Vercel)
+    // Vercel Cron jobs don't send Authorization headers automatically
+    if (process.env.NODE_ENV === 'production') {
+      // In production, only accept requests from Vercel's domain
+      const host = request.headers.get('host');
+      if (!host?.includes('vercel.app')) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    console.log('⏰ [Cron] Profile tuning triggered');
+
+    const result = await profileTuningService.runTuning();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('❌ [Cron] Profile tuning failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Allow POST as well for manual testing
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
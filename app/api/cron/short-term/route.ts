@@ -1,12 +1,13 @@
 /**
  * Vercel Cron Job: SHORT_TERM Bots
  *
- * Executes all active SHORT_TERM trading bots.
+ * Enqueues a BOT_RUN job for every active SHORT_TERM trading bot
+ * (executed by the job queue worker, /api/cron/jobs).
  * Schedule: Every 4 hours (configured in vercel.json)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { executeBotsForTimeHorizon } from '@/lib/services/cronExecutor';
+import { enqueueBotsForTimeHorizon } from '@/lib/services/cronExecutor';
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,13 +26,8 @@ export async function GET(request: NextRequest) {
 
     console.log('⏰ [Cron] SHORT_TERM execution triggered');
 
-    // Get base URL
-    const baseUrl = process.env.NEXTAUTH_URL ||
-                    `https://${request.headers.get('host')}` ||
-                    'http://localhost:3000';
-
-    // Execute SHORT_TERM bots
-    const result = await executeBotsForTimeHorizon('SHORT_TERM', baseUrl);
+    // Enqueue SHORT_TERM bots
+    const result = await enqueueBotsForTimeHorizon('SHORT_TERM');
 
     return NextResponse.json({
       timeHorizon: 'SHORT_TERM',
@@ -0,0 +1,58 @@
+/**
+ * Vercel Cron Job: Signal History
+ *
+ * Stores today's ranked investment opportunities and their signals (OpportunitySnapshot),
+ * then fills the 1/5/20 trading-day forward returns of earlier snapshots from daily bars.
+ * Results: GET /api/investment-opportunities/signal-performance
+ * Schedule: once a day after the US market close (configured in vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { signalHistoryService } from '@/lib/services/signalHistoryService';
+import { dataGatewayService } from '@/lib/services/dataGatewayService';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Only allow execution in production environment (Vercel)
+    // Vercel Cron jobs don't send Authorization headers automatically
+    if (process.env.NODE_ENV === 'production') {
+      // In production, only accept requests from Vercel's domain
+      const host = request.headers.get('host');
+      if (!host?.includes('vercel.app')) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    console.log('⏰ [Cron] Signal history triggered');
+
+    const { snapshot, evaluation } = await dataGatewayService.runWithPriority('BACKGROUND', async () => ({
+      snapshot: await signalHistoryService.captureDailySnapshot(),
+      evaluation: await signalHistoryService.evaluatePending(),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      snapshot,
+      evaluation,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('❌ [Cron] Signal history failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Allow POST as well for manual testing
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -1,14 +1,20 @@
 import { NextResponse } from 'next/server';
 import { getSchedulerStatus, triggerManualExecution } from '@/lib/services/botScheduler';
+import { jobQueueService } from '@/lib/services/jobQueueService';
+import { killSwitchService } from '@/lib/services/killSwitchService';
 
-// GET /api/cron/status - Get scheduler status
+// GET /api/cron/status - Get scheduler, job queue and kill switch status
 export async function GET() {
   try {
     const status = getSchedulerStatus();
+    const queue = await jobQueueService.getStatus();
+    const killSwitch = await killSwitchService.getStatus(5);
 
     return NextResponse.json({
       success: true,
-      ...status
+      ...status,
+      queue,
+      killSwitch
     });
   } catch (error) {
     console.error('Error getting scheduler status:', error);
@@ -19,16 +25,18 @@ export async function GET() {
   }
 }
 
-// POST /api/cron/status - Manually trigger execution
+// POST /api/cron/status - Manually enqueue all active bots
 export async function POST() {
   try {
     console.log('🔧 [API] Manual execution requested');
 
-    await triggerManualExecution();
+    const results = await triggerManualExecution();
+    const jobsEnqueued = results.reduce((sum, result) => sum + result.jobsEnqueued, 0);
 
     return NextResponse.json({
       success: true,
-      message: 'Manual execution triggered for all active bots'
+      message: `Manual execution queued for all active bots (${jobsEnqueued} jobs)`,
+      results
     });
   } catch (error) {
     console.error('Error triggering manual execution:', error);
@@ -1,12 +1,13 @@
 /**
  * Vercel Cron Job: SWING Bots
  *
- * Executes all active SWING trading bots.
+ * Enqueues a BOT_RUN job for every active SWING trading bot
+ * (executed by the job queue worker, /api/cron/jobs).
  * Schedule: 9 AM and 3 PM (configured in vercel.json)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { executeBotsForTimeHorizon } from '@/lib/services/cronExecutor';
+import { enqueueBotsForTimeHorizon } from '@/lib/services/cronExecutor';
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,13 +26,8 @@ export async function GET(request: NextRequest) {
 
     console.log('⏰ [Cron] SWING execution triggered');
 
-    // Get base URL
-    const baseUrl = process.env.NEXTAUTH_URL ||
-                    `https://${request.headers.get('host')}` ||
-                    'http://localhost:3000';
-
-    // Execute SWING bots
-    const result = await executeBotsForTimeHorizon('SWING', baseUrl);
+    // Enqueue SWING bots
+    const result = await enqueueBotsForTimeHorizon('SWING');
 
     return NextResponse.json({
       timeHorizon: 'SWING',
@@ -91,7 +91,7 @@ export async function GET(request: NextRequest) {
       metadata: {
         totalOpportunities: filteredOpportunities.length,
         timestamp: new Date().toISOString(),
-        cached: investmentOpportunityService.getCacheStatus().isCached,
+        cached: (await investmentOpportunityService.getCacheStatus()).isCached,
         dataSources: ['FMP', 'Alpha Vantage'],
       },
     };
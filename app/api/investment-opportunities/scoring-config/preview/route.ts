@@ -0,0 +1,43 @@
+/**
+ * POST /api/investment-opportunities/scoring-config/preview
+ *
+ * 초안 점수 설정으로 현재 시장 이벤트의 투자 기회를 다시 순위 매김 (저장하지 않음)
+ *
+ * Body:
+ * - config: 초안 점수 설정 (생략한 필드는 기본값)
+ * - limit: 반환할 종목 수 (기본: 20, 최대: 50)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequest } from '@/lib/middleware/validation';
+import { marketEventsService } from '@/lib/services/marketEventsService';
+import { investmentOpportunityService } from '@/lib/services/investmentOpportunityService';
+import { ScoringConfigSchema } from '@/lib/utils/signalScoring';
+
+const PreviewScoringConfigSchema = z.object({
+  config: ScoringConfigSchema,
+  limit: z.number().int().min(1).max(50).default(20),
+});
+
+export async function POST(request: NextRequest) {
+  const { data, error } = await validateRequest(request, PreviewScoringConfigSchema);
+  if (error) return error;
+
+  try {
+    const marketEvents = await marketEventsService.getAllMarketEvents();
+    const opportunities = await investmentOpportunityService.previewOpportunities(marketEvents, data.config);
+
+    return NextResponse.json({
+      success: true,
+      total: opportunities.length,
+      opportunities: opportunities.slice(0, data.limit),
+    });
+  } catch (error: any) {
+    console.error('[API] Scoring config preview failed:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to preview scoring config' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Investment Opportunity Scoring Config API
+ *
+ * GET  /api/investment-opportunities/scoring-config - 활성 점수 설정 + 기본 설정 + 사용 가능한 이벤트 소스
+ * POST /api/investment-opportunities/scoring-config - 새 버전으로 저장하고 활성화
+ *
+ * Body (POST):
+ * - config: 점수 설정 (생략한 필드는 기본값)
+ * - changeNote: 변경 사유 (선택)
+ * - createdBy: 작성자 (선택)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequest } from '@/lib/middleware/validation';
+import { scoringConfigService } from '@/lib/services/scoringConfigService';
+import { investmentOpportunityService } from '@/lib/services/investmentOpportunityService';
+import {
+  DEFAULT_SCORING_CONFIG,
+  DYNAMIC_SIGNAL_SOURCES,
+  SIGNAL_SOURCES,
+  ScoringConfigSchema,
+} from '@/lib/utils/signalScoring';
+
+const SaveScoringConfigSchema = z.object({
+  config: ScoringConfigSchema,
+  changeNote: z.string().max(500).optional(),
+  createdBy: z.string().max(100).optional(),
+});
+
+export async function GET() {
+  try {
+    const active = await scoringConfigService.getActive();
+
+    return NextResponse.json({
+      success: true,
+      active,
+      defaults: DEFAULT_SCORING_CONFIG,
+      sources: SIGNAL_SOURCES,
+      dynamicSources: DYNAMIC_SIGNAL_SOURCES,
+    });
+  } catch (error: any) {
+    console.error('[API] Scoring config fetch failed:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch scoring config' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { data, error } = await validateRequest(request, SaveScoringConfigSchema);
+  if (error) return error;
+
+  try {
+    const saved = await scoringConfigService.saveVersion(data.config, data.changeNote, data.createdBy);
+
+    // 새 버전은 별도 캐시 키 - 이전 버전 결과는 정리
+    await investmentOpportunityService.clearCache();
+
+    return NextResponse.json({ success: true, version: saved }, { status: 201 });
+  } catch (error: any) {
+    console.error('[API] Scoring config save failed:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to save scoring config' },
+      { status: 500 }
+    );
+  }
+}
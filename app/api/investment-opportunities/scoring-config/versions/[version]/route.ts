@@ -0,0 +1,41 @@
+/**
+ * POST /api/investment-opportunities/scoring-config/versions/[version]
+ *
+ * 저장된 점수 설정 버전을 다시 활성화 (롤백)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ScoringConfigVersionNotFoundError,
+  scoringConfigService,
+} from '@/lib/services/scoringConfigService';
+import { investmentOpportunityService } from '@/lib/services/investmentOpportunityService';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ version: string }> }
+) {
+  const { version: versionParam } = await params;
+  const version = parseInt(versionParam, 10);
+
+  if (isNaN(version) || version <= 0) {
+    return NextResponse.json({ success: false, error: 'version must be a positive number' }, { status: 400 });
+  }
+
+  try {
+    const activated = await scoringConfigService.activateVersion(version);
+    await investmentOpportunityService.clearCache();
+
+    return NextResponse.json({ success: true, version: activated });
+  } catch (error: any) {
+    if (error instanceof ScoringConfigVersionNotFoundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+    }
+
+    console.error('[API] Scoring config activation failed:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to activate scoring config' },
+      { status: 500 }
+    );
+  }
+}
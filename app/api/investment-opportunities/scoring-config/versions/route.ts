@@ -0,0 +1,22 @@
+/**
+ * GET /api/investment-opportunities/scoring-config/versions
+ *
+ * 저장된 점수 설정 버전 목록 (최신순)
+ */
+
+import { NextResponse } from 'next/server';
+import { scoringConfigService } from '@/lib/services/scoringConfigService';
+
+export async function GET() {
+  try {
+    const versions = await scoringConfigService.listVersions();
+
+    return NextResponse.json({ success: true, versions });
+  } catch (error: any) {
+    console.error('[API] Scoring config versions fetch failed:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch scoring config versions' },
+      { status: 500 }
+    );
+  }
+}
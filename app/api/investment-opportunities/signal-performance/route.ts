@@ -0,0 +1,45 @@
+/**
+ * GET /api/investment-opportunities/signal-performance
+ *
+ * 저장된 투자 기회 스냅샷의 선행 수익률로 시그널 타입별 / 점수 구간별 예측력 리포트
+ *
+ * Query Parameters:
+ * - days: 최근 N일 스냅샷 (기본: 180)
+ * - horizon: 판정 기준 기간 (1, 5, 20 거래일, 기본: 5)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { signalHistoryService } from '@/lib/services/signalHistoryService';
+import { SIGNAL_EVALUATION } from '@/lib/config/trading';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = parseInt(searchParams.get('days') || '180', 10);
+    const horizon = parseInt(searchParams.get('horizon') || String(SIGNAL_EVALUATION.PRIMARY_HORIZON), 10);
+
+    if (isNaN(days) || days <= 0) {
+      return NextResponse.json({ error: 'days must be a positive number' }, { status: 400 });
+    }
+    if ((SIGNAL_EVALUATION.HORIZONS as readonly number[]).indexOf(horizon) < 0) {
+      return NextResponse.json(
+        { error: `horizon must be one of ${SIGNAL_EVALUATION.HORIZONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const report = await signalHistoryService.getPerformanceReport({ days, horizon });
+
+    return NextResponse.json({
+      success: true,
+      days,
+      ...report,
+    });
+  } catch (error: any) {
+    console.error('[API] Signal performance report failed:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to build signal performance report' },
+      { status: 500 }
+    );
+  }
+}
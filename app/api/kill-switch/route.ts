@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { killSwitchService } from '@/lib/services/killSwitchService';
+
+// GET /api/kill-switch - Halt state, circuit breaker counters and recent trip/resume events
+export async function GET() {
+  try {
+    const status = await killSwitchService.getStatus();
+
+    return NextResponse.json({
+      success: true,
+      ...status
+    });
+  } catch (error: any) {
+    console.error('Error fetching kill switch status:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch kill switch status' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/kill-switch - Halt or resume all trading
+// Body: { action: 'HALT' | 'RESUME', reason: string, actor?: string }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, actor } = body;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (action !== 'HALT' && action !== 'RESUME') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action. Must be HALT or RESUME' },
+        { status: 400 }
+      );
+    }
+
+    if (!reason) {
+      return NextResponse.json(
+        { success: false, error: 'reason is required' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'HALT') {
+      await killSwitchService.trip('MANUAL', reason, { actor });
+    } else {
+      await killSwitchService.resume(reason, actor);
+    }
+
+    const status = await killSwitchService.getStatus();
+
+    return NextResponse.json({
+      success: true,
+      message: status.halted ? `Trading halted: ${status.reason}` : 'Trading resumed',
+      ...status
+    });
+  } catch (error: any) {
+    console.error('Error updating kill switch:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to update kill switch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { dataGatewayService } from '@/lib/services/dataGatewayService';
+import { API } from '@/lib/config/trading';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/market-data/usage - Today's external provider calls per status (UTC day) with budgets
+export async function GET() {
+  try {
+    const usage = await dataGatewayService.getUsage();
+
+    return NextResponse.json({
+      success: true,
+      usage,
+      priorityShares: API.PRIORITY_SHARES,
+    });
+  } catch (error: any) {
+    console.error('Error fetching provider usage:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch provider usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -16,7 +16,7 @@ export const dynamic = 'force-dynamic';
  */
 export async function GET() {
   try {
-    const cacheStatus = marketEventsService.getCacheStatus();
+    const cacheStatus = await marketEventsService.getCacheStatus();
 
     return NextResponse.json({
       cacheStatus,
@@ -41,7 +41,7 @@ export async function GET() {
  */
 export async function DELETE() {
   try {
-    marketEventsService.clearCache();
+    await marketEventsService.clearCache();
 
     return NextResponse.json({
       message: 'All caches cleared successfully',
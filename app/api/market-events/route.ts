@@ -71,7 +71,7 @@ export async function GET(request: NextRequest) {
 
     // Clear cache if forceRefresh is true
     if (forceRefresh) {
-      marketEventsService.clearCache();
+      await marketEventsService.clearCache();
     }
 
     // Fetch specific category if requested
@@ -162,7 +162,7 @@ export async function GET(request: NextRequest) {
  */
 export async function HEAD(request: NextRequest) {
   try {
-    const cacheStatus = marketEventsService.getCacheStatus();
+    const cacheStatus = await marketEventsService.getCacheStatus();
 
     return NextResponse.json({
       cacheStatus,
@@ -0,0 +1,67 @@
+/**
+ * Single Optimization Job API Route
+ *
+ * GET    /api/optimizations/:id - Job summary, window results and linked trial backtests
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * GET /api/optimizations/:id
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const job = await prisma.optimizationJob.findUnique({
+      where: { id: params.id },
+      include: {
+        strategy: {
+          select: { id: true, name: true },
+        },
+        trials: {
+          orderBy: [{ windowIndex: 'asc' }, { createdAt: 'asc' }],
+          select: {
+            id: true,
+            status: true,
+            parameters: true,
+            windowIndex: true,
+            sampleType: true,
+            startDate: true,
+            endDate: true,
+            totalTrades: true,
+            winRate: true,
+            totalReturnPct: true,
+            sharpeRatio: true,
+            sortinoRatio: true,
+            maxDrawdown: true,
+            profitFactor: true,
+            expectancy: true,
+          },
+        },
+      },
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Optimization job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      job,
+    });
+
+  } catch (error: any) {
+    console.error(`GET /api/optimizations/${params.id} error:`, error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Strategy Optimization API Routes
+ *
+ * POST   /api/optimizations     - Start a walk-forward parameter sweep
+ * GET    /api/optimizations     - List optimization jobs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { validateRequest } from '@/lib/middleware/validation';
+import { walkForwardOptimizer } from '@/lib/services/backtesting';
+
+const RangeSchema = z.union([
+  z.object({
+    min: z.number(),
+    max: z.number(),
+    step: z.number().positive(),
+  }),
+  z.object({
+    values: z.array(z.union([z.number(), z.string(), z.boolean()])).min(1),
+  }),
+]);
+
+const OptimizationSchema = z.object({
+  strategyId: z.string().min(1),
+  symbol: z.string().min(1).max(10).toUpperCase(),
+  timeHorizon: z.enum(['SHORT_TERM', 'SWING', 'LONG_TERM']),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  method: z.enum(['GRID', 'RANDOM']).default('GRID'),
+  // Keys are dot paths into the strategy: "stopLoss", "entryConditions.rsi.value", ...
+  parameterSpace: z.record(RangeSchema).refine(space => Object.keys(space).length > 0, {
+    message: 'At least one parameter range is required',
+  }),
+  objective: z.enum(['sharpeRatio', 'sortinoRatio', 'totalReturnPct', 'profitFactor', 'expectancy', 'winRate']).optional(),
+  maxTrials: z.number().int().positive().max(500).optional(),
+  seed: z.number().int().optional(),
+  inSampleDays: z.number().int().positive().optional(),
+  outOfSampleDays: z.number().int().positive().optional(),
+  stepDays: z.number().int().positive().optional(),
+  backtestSettings: z.object({
+    initialCash: z.number().positive().optional(),
+    positionSizing: z.enum(['FIXED_DOLLAR', 'FIXED_SHARES', 'PERCENT_EQUITY']).optional(),
+    positionSize: z.number().positive().optional(),
+    slippageBps: z.number().min(0).optional(),
+    commissionPerTrade: z.number().min(0).optional(),
+  }).optional(),
+});
+
+/**
+ * POST /api/optimizations
+ * Create an optimization job and run it in the background
+ */
+export async function POST(request: NextRequest) {
+  const { data, error } = await validateRequest(request, OptimizationSchema);
+  if (error) return error;
+
+  try {
+    const strategy = await prisma.strategy.findUnique({
+      where: { id: data.strategyId },
+    });
+
+    if (!strategy) {
+      return NextResponse.json(
+        { error: `Strategy ${data.strategyId} not found` },
+        { status: 404 }
+      );
+    }
+
+    let jobId: string;
+    try {
+      jobId = await walkForwardOptimizer.createJob({
+        ...data,
+        method: data.method ?? 'GRID',
+        startDate: new Date(data.startDate),
+        endDate: new Date(data.endDate),
+      });
+    } catch (configError: any) {
+      return NextResponse.json(
+        { success: false, error: configError.message },
+        { status: 400 }
+      );
+    }
+
+    // Trials can take minutes - progress is stored on the job
+    walkForwardOptimizer.runOptimization(jobId).catch(runError => {
+      console.error(`Optimization ${jobId} failed:`, runError);
+    });
+
+    return NextResponse.json({
+      success: true,
+      optimizationJobId: jobId,
+      message: 'Optimization started',
+    });
+
+  } catch (error: any) {
+    console.error('POST /api/optimizations error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/optimizations
+ * List optimization jobs
+ *
+ * Query params:
+ * - strategyId?: string
+ * - status?: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
+ * - limit?: number (default: 50)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const strategyId = searchParams.get('strategyId');
+    const status = searchParams.get('status');
+    const limit = parseInt(searchParams.get('limit') || '50');
+
+    const where: any = {};
+    if (strategyId) where.strategyId = strategyId;
+    if (status) where.status = status;
+
+    const jobs = await prisma.optimizationJob.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        strategy: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      count: jobs.length,
+      jobs,
+    });
+
+  } catch (error: any) {
+    console.error('GET /api/optimizations error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
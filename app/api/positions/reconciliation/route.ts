@@ -0,0 +1,34 @@
+/**
+ * Position Reconciliation API Route
+ *
+ * GET    /api/positions/reconciliation          - Compare summed bot positions with broker positions
+ * GET    /api/positions/reconciliation?sync=1   - Sync open order fills first, then compare
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { positionReconciliationService } from '@/lib/services/positionReconciliationService';
+
+export async function GET(request: NextRequest) {
+  try {
+    const sync = request.nextUrl.searchParams.get('sync');
+
+    if (sync === '1' || sync === 'true') {
+      // 미체결 주문 체결 상태 동기화 → Position / 봇 통계 재계산
+      await positionReconciliationService.trackOpenOrders();
+    }
+
+    const report = await positionReconciliationService.getReconciliationReport();
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+
+  } catch (error: any) {
+    console.error('GET /api/positions/reconciliation error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
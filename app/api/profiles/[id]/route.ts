@@ -0,0 +1,125 @@
+/**
+ * Saved Trading Profile API Routes
+ * GET /api/profiles/[id] - Saved profile with its version history
+ * PUT /api/profiles/[id] - Update (settings changes create a new version)
+ * DELETE /api/profiles/[id] - Delete an unused profile
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { TimeHorizon, RiskAppetite } from '@/lib/trading-profile-types';
+import { tradingProfileService, ProfileInUseError } from '@/lib/services/tradingProfileService';
+
+// GET /api/profiles/[id] - Saved profile with its version history (newest first)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const profile = await tradingProfileService.getProfile(id);
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Profile not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: profile
+    });
+  } catch (error) {
+    console.error('Error fetching profile:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch trading profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/profiles/[id] - Update a saved profile
+// Body: { name?, description?, timeHorizon?, riskAppetite?, overrides?, changeNote? }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { name, description, timeHorizon, riskAppetite, overrides, changeNote } = await request.json();
+
+    if (timeHorizon && !Object.values(TimeHorizon).includes(timeHorizon)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid timeHorizon. Must be one of: ${Object.values(TimeHorizon).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (riskAppetite && !Object.values(RiskAppetite).includes(riskAppetite)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid riskAppetite. Must be one of: ${Object.values(RiskAppetite).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const profile = await tradingProfileService.updateProfile(id, {
+      name,
+      description,
+      timeHorizon,
+      riskAppetite,
+      overrides,
+      changeNote
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Profile not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: profile
+    });
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update trading profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/profiles/[id] - Delete a profile no strategy or bot references
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const deleted = await tradingProfileService.deleteProfile(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Profile not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ProfileInUseError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error deleting profile:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete trading profile' },
+      { status: 500 }
+    );
+  }
+}
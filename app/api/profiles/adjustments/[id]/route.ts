@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { profileTuningService, AdjustmentNotPendingError } from '@/lib/services/profileTuningService';
+
+// POST /api/profiles/adjustments/[id] - Approve (apply) or reject a pending profile change
+// Body: { action: 'APPROVE' | 'REJECT', actor?: string, note?: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { action, actor, note } = await request.json();
+
+    if (action !== 'APPROVE' && action !== 'REJECT') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action. Must be APPROVE or REJECT' },
+        { status: 400 }
+      );
+    }
+
+    const adjustment = action === 'APPROVE'
+      ? await profileTuningService.applyAdjustment(id, actor || 'manual', note)
+      : await profileTuningService.rejectAdjustment(id, actor, note);
+
+    if (!adjustment) {
+      return NextResponse.json(
+        { success: false, error: 'Adjustment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      adjustment
+    });
+  } catch (error: any) {
+    if (error instanceof AdjustmentNotPendingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error deciding profile adjustment:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to decide profile adjustment' },
+      { status: 500 }
+    );
+  }
+}
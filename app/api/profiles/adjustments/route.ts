@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProfileAdjustmentStatus } from '@prisma/client';
+import { profileTuningService } from '@/lib/services/profileTuningService';
+
+const STATUSES: ProfileAdjustmentStatus[] = ['PENDING', 'APPLIED', 'REJECTED', 'SUPERSEDED'];
+
+// GET /api/profiles/adjustments - Proposed and decided profile changes (newest first)
+// Query: botId, status (PENDING | APPLIED | REJECTED | SUPERSEDED), limit (default 50, max 200)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const botId = searchParams.get('botId') || undefined;
+    const status = searchParams.get('status') as ProfileAdjustmentStatus | null;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+
+    if (status && STATUSES.indexOf(status) === -1) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status. Must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const adjustments = await profileTuningService.listAdjustments({ botId, status: status || undefined, limit });
+
+    return NextResponse.json({
+      success: true,
+      adjustments
+    });
+  } catch (error: any) {
+    console.error('Error fetching profile adjustments:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch profile adjustments' },
+      { status: 500 }
+    );
+  }
+}
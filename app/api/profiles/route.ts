@@ -1,12 +1,13 @@
 /**
  * Trading Profile API Routes
- * GET /api/profiles - Get all available profiles
- * POST /api/profiles - Create a custom profile
+ * GET /api/profiles - Get all available profiles (grid + saved)
+ * POST /api/profiles - Create a custom profile (saved when a name is given)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { TradingProfileBuilder } from '@/lib/trading-profile-builder';
-import { TimeHorizon, RiskAppetite, CreateProfileInput } from '@/lib/trading-profile-types';
+import { TimeHorizon, RiskAppetite, ProfileOverrides } from '@/lib/trading-profile-types';
+import { tradingProfileService } from '@/lib/services/tradingProfileService';
 
 // GET /api/profiles - Get all available profiles
 export async function GET(request: NextRequest) {
@@ -30,6 +31,7 @@ export async function GET(request: NextRequest) {
 
     // Otherwise, get all profiles
     const allProfiles = TradingProfileBuilder.getAllProfiles();
+    const savedProfiles = await tradingProfileService.listProfiles();
 
     // Group by time horizon for easier consumption
     const grouped = allProfiles.reduce((acc, profile) => {
@@ -45,8 +47,10 @@ export async function GET(request: NextRequest) {
       data: {
         profiles: allProfiles,
         grouped,
+        saved: savedProfiles,
         metadata: {
           total: allProfiles.length,
+          saved: savedProfiles.length,
           timeHorizons: Object.keys(TimeHorizon),
           riskAppetites: Object.keys(RiskAppetite)
         }
@@ -68,7 +72,8 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { timeHorizon, riskAppetite, customizations } = body as CreateProfileInput;
+    const { name, description, timeHorizon, riskAppetite, changeNote } = body;
+    const overrides: ProfileOverrides | undefined = body.overrides ?? body.customizations;
 
     // Validate required fields
     if (!timeHorizon || !riskAppetite) {
@@ -102,11 +107,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Named profiles are saved (version 1); otherwise preview only
+    if (name) {
+      const saved = await tradingProfileService.createProfile({
+        name,
+        description,
+        timeHorizon,
+        riskAppetite,
+        overrides,
+        changeNote
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...saved,
+          config: tradingProfileService.buildConfig({ name, description, timeHorizon, riskAppetite, overrides }, saved.id)
+        }
+      }, { status: 201 });
+    }
+
     // Create profile
     const profile = TradingProfileBuilder.create({
       timeHorizon,
       riskAppetite,
-      customizations
+      customizations: overrides
     });
 
     return NextResponse.json({
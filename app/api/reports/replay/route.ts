@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decisionReplayService, MAX_REPLAY_REPORTS } from '@/lib/services/decisionReplayService';
+
+// GET /api/reports/replay - Replay stored reports through the current decision logic (no network)
+// Query: botId, symbol, from / to (ISO date), limit (default 200, max 1000), changedOnly (true = only changed decisions)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+
+    const from = fromParam ? new Date(fromParam) : undefined;
+    const to = toParam ? new Date(toParam) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be ISO dates' },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '200', 10) || 200, 1), MAX_REPLAY_REPORTS);
+
+    const replay = await decisionReplayService.replay({
+      botId: searchParams.get('botId') || undefined,
+      symbol: searchParams.get('symbol')?.toUpperCase() || undefined,
+      from,
+      to,
+      limit,
+      changedOnly: searchParams.get('changedOnly') === 'true'
+    });
+
+    return NextResponse.json({
+      success: true,
+      replay
+    });
+  } catch (error: any) {
+    console.error('Error replaying reports:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to replay reports' },
+      { status: 500 }
+    );
+  }
+}
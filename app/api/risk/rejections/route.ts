@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { riskEngineService } from '@/lib/services/riskEngineService';
+
+// GET /api/risk/rejections - Orders blocked by the pre-trade risk gate (newest first)
+// Query: botId (optional), limit (default 50, max 200)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const botId = searchParams.get('botId') || undefined;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+
+    const rejections = await riskEngineService.getRecentRejections({ botId, limit });
+
+    return NextResponse.json({
+      success: true,
+      rejections
+    });
+  } catch (error: any) {
+    console.error('Error fetching risk rejections:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch risk rejections' },
+      { status: 500 }
+    );
+  }
+}
@@ -55,7 +55,7 @@ export async function GET(request: NextRequest) {
     const result = await stockScreenerService.getScreenedStocks(params);
 
     // Get cache status for debugging
-    const cacheStatus = stockScreenerService.getCacheStatus();
+    const cacheStatus = await stockScreenerService.getCacheStatus();
 
     return NextResponse.json({
       ...result,
@@ -96,7 +96,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
 
     if (body.action === 'clear_cache') {
-      stockScreenerService.clearCache();
+      await stockScreenerService.clearCache();
       return NextResponse.json({
         message: 'Cache cleared successfully'
       });
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { DecisionConfigSchema } from '@/lib/utils/decisionConfig';
 
 // GET /api/strategies/[id] - Get strategy by ID
 export async function GET(
@@ -40,7 +42,7 @@ export async function PUT(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { name, description, entryConditions, exitConditions, stopLoss, takeProfit } = body;
+    const { name, description, entryConditions, exitConditions, stopLoss, takeProfit, profileId, decisionConfig } = body;
 
     const existingStrategy = await prisma.strategy.findUnique({
       where: { id },
@@ -53,6 +55,24 @@ export async function PUT(
       );
     }
 
+    // 통합 판단 설정: undefined = 유지, null = 기본값으로 초기화
+    let nextDecisionConfig: Prisma.InputJsonValue | typeof Prisma.DbNull | undefined;
+    if (decisionConfig === null) {
+      nextDecisionConfig = Prisma.DbNull;
+    } else if (decisionConfig !== undefined) {
+      const parsed = DecisionConfigSchema.safeParse(decisionConfig);
+      if (!parsed.success) {
+        return NextResponse.json(
+          {
+            error: 'Invalid decisionConfig',
+            details: parsed.error.errors.map(err => ({ path: err.path.join('.'), message: err.message })),
+          },
+          { status: 400 }
+        );
+      }
+      nextDecisionConfig = parsed.data;
+    }
+
     const strategy = await prisma.strategy.update({
       where: { id },
       data: {
@@ -62,6 +82,8 @@ export async function PUT(
         exitConditions: exitConditions || existingStrategy.exitConditions,
         stopLoss: stopLoss !== undefined ? stopLoss : existingStrategy.stopLoss,
         takeProfit: takeProfit !== undefined ? takeProfit : existingStrategy.takeProfit,
+        profileId: profileId !== undefined ? profileId || null : existingStrategy.profileId,
+        decisionConfig: nextDecisionConfig,
       },
     });
 
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { validateRequest } from '@/lib/middleware/validation';
+import { historicalDataProvider } from '@/lib/services/backtesting';
+import { prepareStrategy, evaluateStrategy } from '@/lib/utils/strategyEngine';
+import { DecisionConfigSchema } from '@/lib/utils/decisionConfig';
+
+const PreviewSchema = z.object({
+  symbol: z.string().min(1).max(10).toUpperCase(),
+  // Either a saved strategy or unsaved conditions from the strategy wizard
+  strategyId: z.string().optional(),
+  entryConditions: z.any().optional(),
+  exitConditions: z.any().optional(),
+  stopLoss: z.number().positive().optional(),
+  takeProfit: z.number().positive().optional(),
+  timeHorizon: z.enum(['SHORT_TERM', 'SWING', 'LONG_TERM']).optional(),
+  decisionConfig: DecisionConfigSchema.optional(),
+  position: z.object({
+    entryPrice: z.number().positive(),
+    entryTime: z.string().datetime().optional(),
+  }).optional(),
+});
+
+// Bars loaded for indicator warm-up (enough for SMA 200 on daily bars)
+const LOOKBACK_DAYS = {
+  SHORT_TERM: 10,
+  SWING: 400,
+  LONG_TERM: 400,
+} as const;
+
+// POST /api/strategies/preview - Evaluate strategy conditions on recent bars (no orders, nothing saved)
+export async function POST(request: NextRequest) {
+  const { data, error } = await validateRequest(request, PreviewSchema);
+  if (error) return error;
+
+  try {
+    let definition = {
+      entryConditions: data.entryConditions,
+      exitConditions: data.exitConditions,
+      stopLoss: data.stopLoss,
+      takeProfit: data.takeProfit,
+      timeHorizon: data.timeHorizon,
+      decisionConfig: data.decisionConfig as unknown,
+    };
+
+    if (data.strategyId) {
+      const strategy = await prisma.strategy.findUnique({
+        where: { id: data.strategyId },
+      });
+
+      if (!strategy) {
+        return NextResponse.json(
+          { success: false, error: 'Strategy not found' },
+          { status: 404 }
+        );
+      }
+
+      definition = {
+        entryConditions: strategy.entryConditions,
+        exitConditions: strategy.exitConditions,
+        stopLoss: strategy.stopLoss ?? undefined,
+        takeProfit: strategy.takeProfit ?? undefined,
+        timeHorizon: data.timeHorizon ?? strategy.timeHorizon,
+        decisionConfig: data.decisionConfig ?? strategy.decisionConfig,
+      };
+    }
+
+    if (!definition.entryConditions) {
+      return NextResponse.json(
+        { success: false, error: 'strategyId or entryConditions is required' },
+        { status: 400 }
+      );
+    }
+
+    const timeHorizon = definition.timeHorizon ?? 'SWING';
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - LOOKBACK_DAYS[timeHorizon] * 24 * 60 * 60 * 1000);
+
+    const bars = await historicalDataProvider.loadHistoricalBars({
+      symbol: data.symbol,
+      timeHorizon,
+      startDate,
+      endDate,
+    });
+
+    const decision = evaluateStrategy(
+      prepareStrategy(definition),
+      { bars },
+      data.position
+        ? {
+            entryPrice: data.position.entryPrice,
+            entryTime: data.position.entryTime ? new Date(data.position.entryTime) : undefined,
+          }
+        : null
+    );
+
+    const lastBar = bars[bars.length - 1];
+
+    return NextResponse.json({
+      success: true,
+      symbol: data.symbol,
+      timeHorizon,
+      asOf: lastBar.timestamp,
+      price: lastBar.close,
+      barsUsed: bars.length,
+      decision,
+    });
+  } catch (error: any) {
+    console.error('Error previewing strategy:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to preview strategy' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { mergeConfigs } from '@/lib/utils/strategyConfig';
+import { DecisionConfigSchema } from '@/lib/utils/decisionConfig';
 
 // GET /api/strategies - List all strategies
 export async function GET() {
@@ -44,7 +45,9 @@ export async function POST(request: NextRequest) {
       entryConditions,
       exitConditions,
       stopLoss,
-      takeProfit
+      takeProfit,
+      profileId,
+      decisionConfig
     } = body;
 
     // Validate required fields
@@ -55,6 +58,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 통합 판단 설정 검증 (없으면 기본 가중치 / 임계값)
+    let parsedDecisionConfig;
+    if (decisionConfig !== undefined && decisionConfig !== null) {
+      const parsed = DecisionConfigSchema.safeParse(decisionConfig);
+      if (!parsed.success) {
+        return NextResponse.json(
+          {
+            error: 'Invalid decisionConfig',
+            details: parsed.error.errors.map(err => ({ path: err.path.join('.'), message: err.message })),
+          },
+          { status: 400 }
+        );
+      }
+      parsedDecisionConfig = parsed.data;
+    }
+
     // If 2D profile is provided, use merged configs
     let finalStopLoss = stopLoss || 5.0;
     let finalTakeProfit = takeProfit || 10.0;
@@ -81,6 +100,8 @@ export async function POST(request: NextRequest) {
         exitConditions,
         stopLoss: finalStopLoss,
         takeProfit: finalTakeProfit,
+        profileId: profileId || null,
+        decisionConfig: parsedDecisionConfig,
       },
     });
 
@@ -7,6 +7,8 @@ import Layout from '@/components/layout/Layout';
 import TestRunReport from '@/components/bot/TestRunReport';
 import BotScheduleStatus from '@/components/bot/BotScheduleStatus';
 import AnalystRatingCard from '@/components/bot/AnalystRatingCard';
+import BotRunTimeline from '@/components/bot/BotRunTimeline';
+import ExecutionQualityCard from '@/components/bot/ExecutionQualityCard';
 import { TestReport } from '@/lib/services/botTestService';
 
 interface Bot {
@@ -622,6 +624,12 @@ export default function BotDetailPage() {
           )}
         </div>
 
+        {/* Order Execution Quality */}
+        <ExecutionQualityCard botId={bot.id} />
+
+        {/* Execution History */}
+        <BotRunTimeline botId={bot.id} onViewReport={handleViewReport} />
+
         {/* Report History */}
         <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
           <div className="flex items-center justify-between mb-6">
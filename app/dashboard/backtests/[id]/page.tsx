@@ -90,6 +90,9 @@ export default async function BacktestDetailPage({ params }: PageProps) {
       equityCurve: {
         orderBy: { timestamp: 'asc' },
       },
+      symbolEquityCurve: {
+        orderBy: { timestamp: 'asc' },
+      },
     },
   });
 
@@ -107,6 +110,19 @@ export default async function BacktestDetailPage({ params }: PageProps) {
     drawdownPct: point.drawdownPct,
   }));
 
+  // Portfolio backtests: final P&L contribution per symbol (last snapshot wins)
+  const symbolBreakdown = backtest.symbols.map((symbol) => {
+    const points = backtest.symbolEquityCurve.filter(point => point.symbol === symbol);
+    const last = points[points.length - 1];
+    return {
+      symbol,
+      realizedPL: last?.realizedPL || 0,
+      unrealizedPL: last?.unrealizedPL || 0,
+      cumulativePL: last?.cumulativePL || 0,
+    };
+  });
+  const correlation = backtest.correlationMatrix as { symbols: string[]; matrix: (number | null)[][] } | null;
+
   // Calculate trade statistics
   const completedTrades = backtest.trades.filter(t => t.side === 'SELL');
   const avgHoldingPeriod = completedTrades.length > 0
@@ -238,6 +254,67 @@ export default async function BacktestDetailPage({ params }: PageProps) {
           </div>
         )}
 
+        {/* Portfolio Breakdown */}
+        {backtest.isPortfolio && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Portfolio Breakdown</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">P&L by Symbol</h3>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 uppercase">
+                      <th className="py-2">Symbol</th>
+                      <th className="py-2 text-right">Realized</th>
+                      <th className="py-2 text-right">Unrealized</th>
+                      <th className="py-2 text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {symbolBreakdown.map((row) => (
+                      <tr key={row.symbol}>
+                        <td className="py-2 font-medium text-gray-900">{row.symbol}</td>
+                        <td className="py-2 text-right text-gray-700">${row.realizedPL.toFixed(2)}</td>
+                        <td className="py-2 text-right text-gray-700">${row.unrealizedPL.toFixed(2)}</td>
+                        <td className={`py-2 text-right font-semibold ${row.cumulativePL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {row.cumulativePL >= 0 ? '+' : ''}${row.cumulativePL.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {correlation && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Return Correlation</h3>
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-xs text-gray-500">
+                        <th className="py-2"></th>
+                        {correlation.symbols.map((symbol) => (
+                          <th key={symbol} className="py-2 text-right">{symbol}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {correlation.symbols.map((symbol, i) => (
+                        <tr key={symbol}>
+                          <td className="py-2 font-medium text-gray-900">{symbol}</td>
+                          {correlation.matrix[i].map((value, j) => (
+                            <td key={j} className="py-2 text-right text-gray-700">
+                              {value === null ? '-' : value.toFixed(2)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Strategy Details */}
         {backtest.strategy && (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -8,6 +8,7 @@
 import React, { useState, useEffect } from 'react';
 import Layout from '@/components/layout/Layout';
 import InvestmentOpportunitiesSection from '@/components/market-events/InvestmentOpportunitiesSection';
+import ScoringConfigPanel from '@/components/market-events/ScoringConfigPanel';
 import SenateTradesCard from '@/components/market-events/SenateTradesCard';
 import MergersCard from '@/components/market-events/MergersCard';
 import RatingChangesCard from '@/components/market-events/RatingChangesCard';
@@ -97,6 +98,9 @@ export default function MarketEventsPage() {
         {/* Investment Opportunities Section */}
         <InvestmentOpportunitiesSection />
 
+        {/* Scoring Config (draft preview / versions) */}
+        <ScoringConfigPanel />
+
         {/* Error State */}
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Layout from '@/components/layout/Layout';
 import Link from 'next/link';
+import StrategyPreviewPanel from '@/components/strategy/StrategyPreviewPanel';
 
 interface Strategy {
   id: string;
@@ -373,7 +374,8 @@ export default function StrategyDetailPage() {
                     {Object.keys(strategy.entryConditions).filter(key =>
                       strategy.entryConditions[key] &&
                       typeof strategy.entryConditions[key] === 'object' &&
-                      key !== 'indicators'
+                      key !== 'indicators' &&
+                      key !== 'scaleIn'
                     ).map((indicator, index) => {
                       const config = strategy.entryConditions[indicator];
                       return (
@@ -506,10 +508,12 @@ export default function StrategyDetailPage() {
                               {strategy.exitConditions.stopLoss.trailingEnabled ? 'Trailing' : 'Fixed'}
                             </span>
                           </div>
-                          {strategy.exitConditions.stopLoss.trailingEnabled && strategy.exitConditions.stopLoss.trailingDeviation && (
+                          {strategy.exitConditions.stopLoss.trailingEnabled && (
                             <div className="flex justify-between items-center py-1 px-2 bg-white rounded border">
-                              <span className="text-sm font-medium text-gray-700">Trailing Deviation</span>
-                              <span className="text-sm font-bold text-red-700">{strategy.exitConditions.stopLoss.trailingDeviation}%</span>
+                              <span className="text-sm font-medium text-gray-700">Trailing Distance</span>
+                              <span className="text-sm font-bold text-red-700">
+                                {strategy.exitConditions.stopLoss.trailingDistance || strategy.exitConditions.stopLoss.value || strategy.stopLoss}%
+                              </span>
                             </div>
                           )}
                         </div>
@@ -554,6 +558,11 @@ export default function StrategyDetailPage() {
                       </div>
                     )}
                   </div>
+                  <p className="text-xs text-gray-500 mt-3">
+                    {strategy.exitConditions.stopLoss?.enabled && strategy.exitConditions.stopLoss.trailingEnabled
+                      ? 'Bot positions are protected by a native trailing stop order at the broker.'
+                      : 'Bot entries go out as bracket orders; open positions keep OCO stop / take-profit orders at the broker.'}
+                  </p>
                 </div>
               )}
 
@@ -566,6 +575,15 @@ export default function StrategyDetailPage() {
             </div>
           </div>
         </div>
+
+        {/* Signal Preview */}
+        <div className="bg-white rounded-2xl p-6 border border-gray-100 shadow-sm mt-8">
+          <h3 className="text-xl font-semibold text-gray-900 mb-4">Signal Preview</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Evaluates this strategy&apos;s entry conditions on the latest bars. No orders are placed.
+          </p>
+          <StrategyPreviewPanel strategyId={strategy.id} />
+        </div>
       </div>
     </Layout>
   );
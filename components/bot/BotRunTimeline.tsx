@@ -0,0 +1,233 @@
+/**
+ * BotRunTimeline Component
+ *
+ * Displays the bot's execution history (BotRun audit log):
+ * - Trigger (cron time horizon, manual, bulk) and timing
+ * - Outcome: decision, order placed or the reason nothing was traded
+ * - Errors, external API calls used, trades created, link to the saved report
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface BotRunTimelineProps {
+  botId: string;
+  onViewReport?: (reportId: string) => void;
+}
+
+interface BotRunEntry {
+  id: string;
+  trigger: 'CRON' | 'MANUAL' | 'BULK';
+  timeHorizon: 'SHORT_TERM' | 'SWING' | 'LONG_TERM' | null;
+  status: 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  decision: string | null;
+  tradeExecuted: boolean;
+  outcome: string | null;
+  error: string | null;
+  reportId: string | null;
+  apiCallCount: number;
+  apiCalls: Record<string, number> | null;
+  trades: Array<{
+    id: string;
+    side: string;
+    quantity: number;
+    price: number;
+    status: string;
+  }>;
+}
+
+type StatusFilter = 'ALL' | 'FAILED' | 'SKIPPED';
+
+const PAGE_SIZE = 20;
+
+export default function BotRunTimeline({ botId, onViewReport }: BotRunTimelineProps) {
+  const [runs, setRuns] = useState<BotRunEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [filter, setFilter] = useState<StatusFilter>('ALL');
+
+  useEffect(() => {
+    fetchRuns(true);
+  }, [botId, filter]);
+
+  const fetchRuns = async (reset: boolean) => {
+    try {
+      setLoading(true);
+      const query = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (filter !== 'ALL') query.set('status', filter);
+      if (!reset && runs.length > 0) query.set('before', runs[runs.length - 1].startedAt);
+
+      const response = await fetch(`/api/bots/${botId}/runs?${query.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setRuns(reset ? data.runs : [...runs, ...data.runs]);
+        setHasMore(data.hasMore);
+      }
+    } catch (err) {
+      console.error('Failed to fetch bot runs:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getStatusStyle = (status: BotRunEntry['status']) => {
+    switch (status) {
+      case 'SUCCEEDED':
+        return { dot: 'bg-green-500', badge: 'bg-green-100 text-green-800', label: '완료' };
+      case 'FAILED':
+        return { dot: 'bg-red-500', badge: 'bg-red-100 text-red-800', label: '실패' };
+      case 'SKIPPED':
+        return { dot: 'bg-gray-400', badge: 'bg-gray-100 text-gray-700', label: '건너뜀' };
+      default:
+        return { dot: 'bg-blue-500 animate-pulse', badge: 'bg-blue-100 text-blue-800', label: '실행 중' };
+    }
+  };
+
+  const getTriggerLabel = (run: BotRunEntry) => {
+    switch (run.trigger) {
+      case 'CRON':
+        return run.timeHorizon ? `Cron · ${run.timeHorizon}` : 'Cron';
+      case 'BULK':
+        return 'Bulk';
+      default:
+        return 'Manual';
+    }
+  };
+
+  const getDecisionColor = (decision: string | null) => {
+    switch (decision) {
+      case 'BUY':
+        return 'bg-green-100 text-green-800';
+      case 'SELL':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  const formatDuration = (ms: number | null) => {
+    if (ms === null) return '-';
+    if (ms < 1000) return `${ms}ms`;
+    return `${(ms / 1000).toFixed(1)}s`;
+  };
+
+  const formatApiCalls = (apiCalls: Record<string, number> | null) => {
+    if (!apiCalls) return '';
+    return Object.keys(apiCalls)
+      .map(provider => `${provider} ${apiCalls[provider]}`)
+      .join(', ');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-gray-900">실행 이력</h2>
+        <div className="flex items-center space-x-2">
+          {(['ALL', 'FAILED', 'SKIPPED'] as StatusFilter[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                filter === option ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {option === 'ALL' ? '전체' : option === 'FAILED' ? '실패' : '건너뜀'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {runs.length === 0 && !loading ? (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">실행 기록이 없습니다</h3>
+          <p className="text-gray-500 text-sm">
+            예약 실행이나 테스트 실행이 끝나면 여기에 기록됩니다.
+          </p>
+        </div>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2">
+          {runs.map(run => {
+            const style = getStatusStyle(run.status);
+
+            return (
+              <li key={run.id} className="mb-6 ml-6">
+                <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${style.dot}`}></span>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900">
+                    {new Date(run.startedAt).toLocaleString('ko-KR')}
+                  </span>
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                    {getTriggerLabel(run)}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${style.badge}`}>
+                    {style.label}
+                  </span>
+                  {run.decision && (
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${getDecisionColor(run.decision)}`}>
+                      {run.decision}
+                    </span>
+                  )}
+                  <span className="text-xs text-gray-400">{formatDuration(run.durationMs)}</span>
+                </div>
+
+                {run.outcome && (
+                  <p className="mt-1 text-sm text-gray-700 line-clamp-2" title={run.outcome}>
+                    {run.outcome}
+                  </p>
+                )}
+                {run.error && !run.outcome?.includes(run.error) && (
+                  <p className="mt-1 text-sm text-red-600">{run.error}</p>
+                )}
+
+                {run.trades.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {run.trades.map(trade => (
+                      <span key={trade.id} className="px-2 py-1 rounded bg-gray-50 border border-gray-200 text-xs text-gray-700">
+                        {trade.side} {trade.quantity} @ ${trade.price.toFixed(2)} · {trade.status}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <div className="mt-2 flex items-center space-x-4 text-xs text-gray-500">
+                  <span title={formatApiCalls(run.apiCalls)}>API 호출 {run.apiCallCount}회</span>
+                  {run.reportId && onViewReport && (
+                    <button
+                      onClick={() => onViewReport(run.reportId!)}
+                      className="text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      리포트 보기
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600 text-sm">Loading runs...</span>
+        </div>
+      )}
+
+      {hasMore && !loading && (
+        <div className="text-center">
+          <button
+            onClick={() => fetchRuns(false)}
+            className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+          >
+            더 보기
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * ExecutionQualityCard Component
+ *
+ * Displays how the bot's live orders were executed (OrderExecution rows):
+ * - Fill rate of limit orders, average slippage, price improvement and fill time
+ * - Missed entries and emergency exits (market fallbacks, stop-loss market orders)
+ * - Recent executions with repricing attempts
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface ExecutionQualityCardProps {
+  botId: string;
+}
+
+interface ExecutionMetrics {
+  fillRate: number;
+  avgSlippage: number;
+  avgFillTime: number;
+  priceImprovement: number;
+  missedEntries: number;
+  emergencyExits: number;
+  executions: number;
+  completed: number;
+  working: number;
+  marketFallbacks: number;
+}
+
+interface ExecutionEntry {
+  id: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  status: 'WORKING' | 'FILLED' | 'UNFILLED' | 'FAILED';
+  initialOrderType: string;
+  initialLimitPrice: number | null;
+  marketFallback: boolean;
+  attempts: number;
+  filledQuantity: number;
+  filledAvgPrice: number | null;
+  slippage: number | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export default function ExecutionQualityCard({ botId }: ExecutionQualityCardProps) {
+  const [metrics, setMetrics] = useState<ExecutionMetrics | null>(null);
+  const [executions, setExecutions] = useState<ExecutionEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchExecution();
+  }, [botId]);
+
+  const fetchExecution = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/bots/${botId}/execution?limit=10`);
+      if (response.ok) {
+        const data = await response.json();
+        setMetrics(data.metrics);
+        setExecutions(data.executions);
+      }
+    } catch (err) {
+      console.error('Failed to fetch execution quality:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatPercent = (value: number, digits: number = 2) => `${value >= 0 ? '' : '-'}${Math.abs(value * 100).toFixed(digits)}%`;
+
+  const formatFillTime = (ms: number) => {
+    if (ms <= 0) return '-';
+    if (ms < 60000) return `${(ms / 1000).toFixed(0)}s`;
+    if (ms < 3600000) return `${(ms / 60000).toFixed(1)}m`;
+    return `${(ms / 3600000).toFixed(1)}h`;
+  };
+
+  const getStatusStyle = (status: ExecutionEntry['status']) => {
+    switch (status) {
+      case 'FILLED':
+        return { badge: 'bg-green-100 text-green-800', label: '체결' };
+      case 'UNFILLED':
+        return { badge: 'bg-gray-100 text-gray-700', label: '미체결' };
+      case 'FAILED':
+        return { badge: 'bg-red-100 text-red-800', label: '실패' };
+      default:
+        return { badge: 'bg-blue-100 text-blue-800', label: '진행 중' };
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600 text-sm">Loading execution quality...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-gray-900">주문 집행 품질</h2>
+        {metrics && metrics.working > 0 && (
+          <span className="px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
+            진행 중 {metrics.working}건
+          </span>
+        )}
+      </div>
+
+      {!metrics || metrics.executions === 0 ? (
+        <div className="text-center py-8">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">집행 기록이 없습니다</h3>
+          <p className="text-gray-500 text-sm">
+            봇이 주문을 내면 체결률과 슬리피지가 여기에 집계됩니다.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-gray-50 rounded-xl p-4">
+              <p className="text-xs text-gray-500 mb-1">지정가 체결률</p>
+              <p className="text-lg font-bold text-gray-900">{formatPercent(metrics.fillRate, 0)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-xl p-4">
+              <p className="text-xs text-gray-500 mb-1">평균 슬리피지</p>
+              <p className={`text-lg font-bold ${metrics.avgSlippage > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatPercent(metrics.avgSlippage)}
+              </p>
+            </div>
+            <div className="bg-gray-50 rounded-xl p-4">
+              <p className="text-xs text-gray-500 mb-1">가격 개선</p>
+              <p className={`text-lg font-bold ${metrics.priceImprovement >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatPercent(metrics.priceImprovement)}
+              </p>
+            </div>
+            <div className="bg-gray-50 rounded-xl p-4">
+              <p className="text-xs text-gray-500 mb-1">평균 체결 시간</p>
+              <p className="text-lg font-bold text-gray-900">{formatFillTime(metrics.avgFillTime)}</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-xs text-gray-500 mb-4">
+            <span>완료 {metrics.completed}건</span>
+            <span>시장가 전환 {metrics.marketFallbacks}건</span>
+            <span>놓친 진입 {metrics.missedEntries}건</span>
+            <span>긴급 청산 {metrics.emergencyExits}건</span>
+          </div>
+
+          <div className="space-y-2">
+            {executions.map(execution => {
+              const style = getStatusStyle(execution.status);
+
+              return (
+                <div key={execution.id} className="flex flex-wrap items-center gap-2 text-sm border-t border-gray-100 pt-2">
+                  <span className="text-gray-500 text-xs">{new Date(execution.createdAt).toLocaleString('ko-KR')}</span>
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${execution.side === 'BUY' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                    {execution.side}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${style.badge}`}>{style.label}</span>
+                  <span className="text-gray-700">
+                    {execution.filledQuantity}/{execution.quantity}주
+                    {execution.filledAvgPrice !== null && ` @ $${execution.filledAvgPrice.toFixed(2)}`}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {execution.initialOrderType === 'market'
+                      ? '시장가'
+                      : `지정가 $${execution.initialLimitPrice?.toFixed(2)} · 시도 ${execution.attempts}회`}
+                    {execution.marketFallback && ' → 시장가'}
+                  </span>
+                  {execution.slippage !== null && (
+                    <span className="text-xs text-gray-500">슬리피지 {formatPercent(execution.slippage)}</span>
+                  )}
+                  {execution.note && <span className="text-xs text-gray-400">{execution.note}</span>}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -30,11 +30,20 @@ function SummaryCard({ title, value, icon, bgColor, loading }: SummaryCardProps)
   );
 }
 
+interface ReconciliationWarning {
+  broker: string;
+  symbol: string;
+  botQuantity: number;
+  brokerQuantity: number;
+  difference: number;
+}
+
 interface AccountData {
   cash: number;
   portfolioValue: number;
   totalReturns: number;
   totalReturnsPercent: number;
+  reconciliationWarnings?: ReconciliationWarning[];
 }
 
 export default function SummaryCards() {
@@ -74,43 +83,62 @@ export default function SummaryCards() {
     }).format(value);
   };
 
+  const warnings = accountData?.reconciliationWarnings || [];
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-      <SummaryCard
-        title="Cash"
-        value={accountData ? formatCurrency(accountData.cash) : '$0.00'}
-        bgColor="bg-blue-50"
-        loading={loading}
-        icon={
-          <svg className="w-6 h-6 text-blue-600" fill="currentColor" viewBox="0 0 20 20">
-            <path d="M8.433 7.418c.155-.103.346-.196.567-.267v1.698a2.305 2.305 0 01-.567-.267C8.07 8.34 8 8.114 8 8c0-.114.07-.34.433-.582zM11 12.849v-1.698c.22.071.412.164.567.267.364.243.433.468.433.582 0 .114-.07.34-.433.582a2.305 2.305 0 01-.567.267z" />
-            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-13a1 1 0 10-2 0v.092a4.535 4.535 0 00-1.676.662C6.602 6.234 6 7.009 6 8c0 .99.602 1.765 1.324 2.246.48.32 1.054.545 1.676.662v1.941c-.391-.127-.68-.317-.843-.504a1 1 0 10-1.51 1.31c.562.649 1.413 1.076 2.353 1.253V15a1 1 0 102 0v-.092a4.535 4.535 0 001.676-.662C13.398 13.766 14 12.991 14 12c0-.99-.602-1.765-1.324-2.246A4.535 4.535 0 0011 9.092V7.151c.391.127.68.317.843.504a1 1 0 101.511-1.31c-.563-.649-1.413-1.076-2.354-1.253V5z" clipRule="evenodd" />
-          </svg>
-        }
-      />
-      <SummaryCard
-        title="Portfolio"
-        value={accountData ? formatCurrency(accountData.portfolioValue) : '$0.00'}
-        bgColor="bg-green-50"
-        loading={loading}
-        icon={
-          <svg className="w-6 h-6 text-green-600" fill="currentColor" viewBox="0 0 20 20">
-            <path d="M4 4a2 2 0 00-2 2v1h16V6a2 2 0 00-2-2H4z" />
-            <path fillRule="evenodd" d="M18 9H2v5a2 2 0 002 2h12a2 2 0 002-2V9zM4 13a1 1 0 011-1h1a1 1 0 110 2H5a1 1 0 01-1-1zm5-1a1 1 0 100 2h1a1 1 0 100-2H9z" clipRule="evenodd" />
-          </svg>
-        }
-      />
-      <SummaryCard
-        title="Total Returns"
-        value={accountData ? formatCurrency(accountData.totalReturns) : '$0.00'}
-        bgColor="bg-purple-50"
-        loading={loading}
-        icon={
-          <svg className="w-6 h-6 text-purple-600" fill="currentColor" viewBox="0 0 20 20">
-            <path fillRule="evenodd" d="M3 3a1 1 0 000 2v8a2 2 0 002 2h2.586l-1.293 1.293a1 1 0 101.414 1.414L10 15.414l2.293 2.293a1 1 0 001.414-1.414L12.414 15H15a2 2 0 002-2V5a1 1 0 100-2H3zm11.707 4.707a1 1 0 00-1.414-1.414L10 9.586 8.707 8.293a1 1 0 00-1.414 0l-2 2a1 1 0 101.414 1.414L8 10.414l1.293 1.293a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-          </svg>
-        }
-      />
-    </div>
+    <>
+      {warnings.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-4 mb-6">
+          <p className="text-sm font-semibold text-yellow-800 mb-2">
+            Position reconciliation warning: bot positions differ from the broker account
+          </p>
+          <ul className="text-sm text-yellow-700 space-y-1">
+            {warnings.map((warning) => (
+              <li key={`${warning.broker}:${warning.symbol}`}>
+                {warning.symbol}: bots {warning.botQuantity} shares, {warning.broker} {warning.brokerQuantity} shares
+                ({warning.difference > 0 ? '+' : ''}{warning.difference})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <SummaryCard
+          title="Cash"
+          value={accountData ? formatCurrency(accountData.cash) : '$0.00'}
+          bgColor="bg-blue-50"
+          loading={loading}
+          icon={
+            <svg className="w-6 h-6 text-blue-600" fill="currentColor" viewBox="0 0 20 20">
+              <path d="M8.433 7.418c.155-.103.346-.196.567-.267v1.698a2.305 2.305 0 01-.567-.267C8.07 8.34 8 8.114 8 8c0-.114.07-.34.433-.582zM11 12.849v-1.698c.22.071.412.164.567.267.364.243.433.468.433.582 0 .114-.07.34-.433.582a2.305 2.305 0 01-.567.267z" />
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-13a1 1 0 10-2 0v.092a4.535 4.535 0 00-1.676.662C6.602 6.234 6 7.009 6 8c0 .99.602 1.765 1.324 2.246.48.32 1.054.545 1.676.662v1.941c-.391-.127-.68-.317-.843-.504a1 1 0 10-1.51 1.31c.562.649 1.413 1.076 2.353 1.253V15a1 1 0 102 0v-.092a4.535 4.535 0 001.676-.662C13.398 13.766 14 12.991 14 12c0-.99-.602-1.765-1.324-2.246A4.535 4.535 0 0011 9.092V7.151c.391.127.68.317.843.504a1 1 0 101.511-1.31c-.563-.649-1.413-1.076-2.354-1.253V5z" clipRule="evenodd" />
+            </svg>
+          }
+        />
+        <SummaryCard
+          title="Portfolio"
+          value={accountData ? formatCurrency(accountData.portfolioValue) : '$0.00'}
+          bgColor="bg-green-50"
+          loading={loading}
+          icon={
+            <svg className="w-6 h-6 text-green-600" fill="currentColor" viewBox="0 0 20 20">
+              <path d="M4 4a2 2 0 00-2 2v1h16V6a2 2 0 00-2-2H4z" />
+              <path fillRule="evenodd" d="M18 9H2v5a2 2 0 002 2h12a2 2 0 002-2V9zM4 13a1 1 0 011-1h1a1 1 0 110 2H5a1 1 0 01-1-1zm5-1a1 1 0 100 2h1a1 1 0 100-2H9z" clipRule="evenodd" />
+            </svg>
+          }
+        />
+        <SummaryCard
+          title="Total Returns"
+          value={accountData ? formatCurrency(accountData.totalReturns) : '$0.00'}
+          bgColor="bg-purple-50"
+          loading={loading}
+          icon={
+            <svg className="w-6 h-6 text-purple-600" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M3 3a1 1 0 000 2v8a2 2 0 002 2h2.586l-1.293 1.293a1 1 0 101.414 1.414L10 15.414l2.293 2.293a1 1 0 001.414-1.414L12.414 15H15a2 2 0 002-2V5a1 1 0 100-2H3zm11.707 4.707a1 1 0 00-1.414-1.414L10 9.586 8.707 8.293a1 1 0 00-1.414 0l-2 2a1 1 0 101.414 1.414L8 10.414l1.293 1.293a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+            </svg>
+          }
+        />
+      </div>
+    </>
   );
 }
\ No newline at end of file
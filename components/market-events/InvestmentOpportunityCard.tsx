@@ -133,6 +133,23 @@ export default function InvestmentOpportunityCard({
           </div>
         </div>
 
+        {/* Score Breakdown (dynamic scoring signals) */}
+        {opportunity.signals.some((signal) => signal.explanation) && (
+          <details className="text-xs text-gray-600">
+            <summary className="cursor-pointer font-semibold text-gray-700">Score Breakdown</summary>
+            <div className="mt-2 space-y-2">
+              {opportunity.signals
+                .filter((signal) => signal.explanation)
+                .map((signal, index) => (
+                  <div key={index} className="bg-gray-50 rounded-lg p-2">
+                    <div className="font-medium text-gray-800">{signal.description}</div>
+                    <div className="whitespace-pre-line mt-1">{signal.explanation}</div>
+                  </div>
+                ))}
+            </div>
+          </details>
+        )}
+
         {/* Volume */}
         {opportunity.volume && (
           <div className="text-xs text-gray-500">
@@ -0,0 +1,268 @@
+/**
+ * ScoringConfigPanel Component
+ * Edits the investment opportunity scoring config as JSON, previews the re-ranked
+ * opportunities under the draft and saves it as a new version
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ScoringPreviewOpportunity } from '@/lib/types/investmentOpportunity';
+
+interface ActiveConfig {
+  version: number;
+  config: unknown;
+  changeNote: string | null;
+  createdAt: string | null;
+}
+
+interface ValidationDetail {
+  path: string;
+  message: string;
+}
+
+export default function ScoringConfigPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [active, setActive] = useState<ActiveConfig | null>(null);
+  const [sources, setSources] = useState<string[]>([]);
+  const [draft, setDraft] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [preview, setPreview] = useState<ScoringPreviewOpportunity[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [details, setDetails] = useState<ValidationDetail[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Fetch active config
+  const fetchActive = useCallback(async () => {
+    try {
+      const response = await fetch('/api/investment-opportunities/scoring-config');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch scoring config: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setActive(data.active);
+      setSources(data.sources);
+      setDraft(JSON.stringify(data.active.config, null, 2));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '점수 설정을 불러오지 못했습니다');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen && !active) {
+      fetchActive();
+    }
+  }, [isOpen, active, fetchActive]);
+
+  // 초안 JSON 파싱 (문법 오류는 바로 표시)
+  const parseDraft = (): unknown | null => {
+    try {
+      return JSON.parse(draft);
+    } catch (err) {
+      setError(`JSON 형식 오류: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  };
+
+  const submit = async (url: string, body: Record<string, unknown>) => {
+    setError(null);
+    setDetails([]);
+    setMessage(null);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error || `Request failed: ${response.statusText}`);
+      setDetails(data.details || []);
+      return null;
+    }
+    return data;
+  };
+
+  const handlePreview = async () => {
+    const config = parseDraft();
+    if (config === null) return;
+
+    try {
+      setLoading(true);
+      const data = await submit('/api/investment-opportunities/scoring-config/preview', { config, limit: 20 });
+      if (data) {
+        setPreview(data.opportunities);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '미리보기에 실패했습니다');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const config = parseDraft();
+    if (config === null) return;
+
+    try {
+      setSaving(true);
+      const data = await submit('/api/investment-opportunities/scoring-config', {
+        config,
+        ...(changeNote && { changeNote }),
+      });
+      if (data) {
+        setMessage(`v${data.version.version} 저장 및 활성화 완료 - 새로고침하면 추천 종목에 반영됩니다`);
+        setChangeNote('');
+        setPreview(null);
+        await fetchActive();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '저장에 실패했습니다');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rankChange = (opportunity: ScoringPreviewOpportunity) => {
+    if (opportunity.previousRank === null) {
+      return <span className="text-blue-600 font-semibold">NEW</span>;
+    }
+
+    const diff = opportunity.previousRank - opportunity.rank;
+    if (diff > 0) return <span className="text-green-600 font-semibold">▲{diff}</span>;
+    if (diff < 0) return <span className="text-red-600 font-semibold">▼{-diff}</span>;
+    return <span className="text-gray-400">-</span>;
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-md border border-gray-200">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 flex items-center space-x-2">
+            <span>⚖️</span>
+            <span>점수 설정</span>
+          </h2>
+          <p className="text-gray-600 text-sm mt-1">
+            {active
+              ? `활성 버전: ${active.version === 0 ? '기본 설정' : `v${active.version}`}${active.changeNote ? ` (${active.changeNote})` : ''}`
+              : '시그널 점수, Half-Life, 타입별 상한, 조합 보너스'}
+          </p>
+        </div>
+
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-4 py-2 rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-colors duration-200"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? '닫기' : '편집'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          {sources.length > 0 && (
+            <p className="text-xs text-gray-500">
+              사용 가능한 source: {sources.join(', ')}
+            </p>
+          )}
+
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={18}
+            spellCheck={false}
+            className="w-full font-mono text-xs px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="점수 설정 JSON"
+          />
+
+          <div className="flex items-center space-x-3">
+            <input
+              type="text"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="변경 사유 (선택)"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handlePreview}
+              disabled={loading || saving || !draft}
+              className="px-4 py-2 rounded-lg border border-blue-600 text-blue-600 font-semibold hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {loading ? '계산 중...' : '미리보기'}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={loading || saving || !draft}
+              className="px-4 py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {saving ? '저장 중...' : '저장'}
+            </button>
+          </div>
+
+          {/* Error / Success */}
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+              <p className="font-medium">{error}</p>
+              {details.length > 0 && (
+                <ul className="mt-1 list-disc list-inside text-red-700">
+                  {details.map((detail, index) => (
+                    <li key={index}>
+                      <code>{detail.path || '(root)'}</code>: {detail.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+              {message}
+            </div>
+          )}
+
+          {/* Preview Table */}
+          {preview && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-500">
+                    <th className="py-2 pr-4">순위</th>
+                    <th className="py-2 pr-4">변동</th>
+                    <th className="py-2 pr-4">종목</th>
+                    <th className="py-2 pr-4 text-right">점수 (초안)</th>
+                    <th className="py-2 pr-4 text-right">점수 (현재)</th>
+                    <th className="py-2">시그널</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((opportunity) => (
+                    <tr key={opportunity.symbol} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 font-semibold">{opportunity.rank}</td>
+                      <td className="py-2 pr-4">{rankChange(opportunity)}</td>
+                      <td className="py-2 pr-4 font-semibold text-gray-900">{opportunity.symbol}</td>
+                      <td className="py-2 pr-4 text-right">{opportunity.totalScore.toFixed(1)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-500">
+                        {opportunity.previousScore !== null ? opportunity.previousScore.toFixed(1) : '-'}
+                      </td>
+                      <td className="py-2 text-xs text-gray-600">
+                        {opportunity.signals.map((signal) => signal.label || signal.type).join(', ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.length === 0 && (
+                <p className="text-sm text-gray-500 py-4 text-center">초안 설정으로 잡히는 종목이 없습니다</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -59,6 +59,16 @@ const SIGNAL_COLORS: Record<SignalType, { bg: string; text: string; border: stri
     text: 'text-gray-700',
     border: 'border-gray-300',
   },
+  senate_purchase: {
+    bg: 'bg-sky-100',
+    text: 'text-sky-700',
+    border: 'border-sky-300',
+  },
+  senate_sale: {
+    bg: 'bg-rose-100',
+    text: 'text-rose-700',
+    border: 'border-rose-300',
+  },
 };
 
 // Icon mapping for each signal type
@@ -72,6 +82,8 @@ const SIGNAL_ICONS: Record<SignalType, string> = {
   stock_split: '✂️',
   earnings_upcoming: '📊',
   high_volume: '📢',
+  senate_purchase: '🏛️',
+  senate_sale: '🏛️',
 };
 
 // Display names for signal types
@@ -85,13 +97,25 @@ const SIGNAL_NAMES: Record<SignalType, string> = {
   stock_split: 'Stock Split',
   earnings_upcoming: 'Earnings',
   high_volume: 'High Volume',
+  senate_purchase: 'Senate Buy',
+  senate_sale: 'Senate Sell',
+};
+
+// Custom signal types from the scoring config
+const DEFAULT_COLORS = {
+  bg: 'bg-teal-100',
+  text: 'text-teal-700',
+  border: 'border-teal-300',
 };
+const DEFAULT_ICON = '🔔';
 
 export default function SignalBadge({ signal }: SignalBadgeProps) {
   const [showTooltip, setShowTooltip] = useState(false);
-  const colors = SIGNAL_COLORS[signal.type];
-  const icon = SIGNAL_ICONS[signal.type];
-  const name = SIGNAL_NAMES[signal.type];
+  const type = signal.type as SignalType;
+  const colors = SIGNAL_COLORS[type] || DEFAULT_COLORS;
+  const icon = SIGNAL_ICONS[type] || DEFAULT_ICON;
+  const name = SIGNAL_NAMES[type] || signal.label || signal.type;
+  const score = `${signal.score >= 0 ? '+' : ''}${signal.score}`;
 
   return (
     <div className="relative inline-block">
@@ -107,13 +131,13 @@ export default function SignalBadge({ signal }: SignalBadgeProps) {
       >
         <span>{icon}</span>
         <span>{name}</span>
-        <span className="font-bold">+{signal.score}</span>
+        <span className="font-bold">{score}</span>
       </div>
 
       {/* Tooltip */}
       {showTooltip && (
         <div
-          className="absolute z-10 bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-64"
+          className={`absolute z-10 bottom-full left-1/2 transform -translate-x-1/2 mb-2 ${signal.explanation ? 'w-80' : 'w-64'}`}
           role="tooltip"
         >
           <div className="bg-gray-900 text-white text-xs rounded-lg p-3 shadow-lg">
@@ -121,8 +145,13 @@ export default function SignalBadge({ signal }: SignalBadgeProps) {
             <div className="text-gray-300 text-xs space-y-1">
               <div>Source: {signal.source}</div>
               <div>Date: {new Date(signal.date).toLocaleDateString()}</div>
-              <div>Score: +{signal.score} points</div>
+              <div>Score: {score} points</div>
             </div>
+            {signal.explanation && (
+              <div className="mt-2 pt-2 border-t border-gray-700 text-gray-300 text-xs whitespace-pre-line">
+                {signal.explanation}
+              </div>
+            )}
             {/* Tooltip arrow */}
             <div className="absolute top-full left-1/2 transform -translate-x-1/2">
               <div className="border-4 border-transparent border-t-gray-900" />
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+
+interface ConditionTrace {
+  condition: string;
+  actual: string;
+  result: boolean;
+  details?: string;
+}
+
+interface PreviewResult {
+  symbol: string;
+  asOf: string;
+  price: number;
+  barsUsed: number;
+  decision: {
+    action: 'BUY' | 'SELL' | 'HOLD';
+    reason: string;
+    trace: ConditionTrace[];
+    technicalScore: number;
+  };
+}
+
+interface StrategyPreviewPanelProps {
+  strategyId?: string;
+  entryConditions?: any;
+  exitConditions?: any;
+  stopLoss?: number;
+  takeProfit?: number;
+  timeHorizon?: 'SHORT_TERM' | 'SWING' | 'LONG_TERM';
+  defaultSymbol?: string;
+}
+
+const ACTION_STYLES = {
+  BUY: 'bg-green-100 text-green-800',
+  SELL: 'bg-red-100 text-red-800',
+  HOLD: 'bg-gray-100 text-gray-800',
+};
+
+export default function StrategyPreviewPanel({
+  strategyId,
+  entryConditions,
+  exitConditions,
+  stopLoss,
+  takeProfit,
+  timeHorizon,
+  defaultSymbol = 'AAPL',
+}: StrategyPreviewPanelProps) {
+  const [symbol, setSymbol] = useState(defaultSymbol);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<PreviewResult | null>(null);
+
+  const runPreview = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/strategies/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          symbol,
+          strategyId,
+          entryConditions,
+          exitConditions,
+          stopLoss,
+          takeProfit,
+          timeHorizon,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Failed to evaluate strategy');
+        setResult(null);
+        return;
+      }
+
+      setResult(data);
+    } catch (err) {
+      console.error('💥 Error previewing strategy:', err);
+      setError('Failed to evaluate strategy');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+      <div className="flex items-end space-x-3">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Evaluate on symbol</label>
+          <input
+            type="text"
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={runPreview}
+          disabled={loading || !symbol}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {loading ? 'Evaluating...' : 'Evaluate'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <span className={`px-2 py-1 rounded text-sm font-semibold ${ACTION_STYLES[result.decision.action]}`}>
+                {result.decision.action}
+              </span>
+              <span className="text-sm text-gray-600">
+                {result.symbol} @ ${result.price.toFixed(2)}
+              </span>
+            </div>
+            <span className="text-xs text-gray-500">
+              {new Date(result.asOf).toLocaleString()} · {result.barsUsed} bars · score {result.decision.technicalScore.toFixed(2)}
+            </span>
+          </div>
+
+          <p className="text-sm text-gray-700">{result.decision.reason}</p>
+
+          <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {result.decision.trace.map((trace, index) => (
+              <div key={index} className="flex items-start justify-between p-2 text-sm">
+                <div>
+                  <div className="font-medium text-gray-900">{trace.condition}</div>
+                  <div className="text-xs text-gray-500">{trace.details || trace.actual}</div>
+                </div>
+                <span className={trace.result ? 'text-green-600 font-semibold' : 'text-gray-400'}>
+                  {trace.result ? '✓' : '✗'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { StrategyFormData } from '../StepWizard';
+import StrategyPreviewPanel from '../StrategyPreviewPanel';
 
 interface EntryConditionsStepProps {
   formData: StrategyFormData;
@@ -578,6 +579,71 @@ export default function EntryConditionsStep({ formData, updateFormData }: EntryC
         </div>
       )}
 
+      {/* Staged Entries */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={formData.entryConditions?.scaleIn?.enabled || false}
+            onChange={(e) => updateFormData({
+              entryConditions: {
+                ...formData.entryConditions,
+                scaleIn: e.target.checked
+                  ? { tranches: 3, pullbackPercent: 2, ...formData.entryConditions?.scaleIn, enabled: true }
+                  : undefined
+              }
+            })}
+            className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="text-sm font-medium text-gray-700">Enable Staged Entries</span>
+        </label>
+
+        {formData.entryConditions?.scaleIn?.enabled && (
+          <div className="mt-3 ml-7 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Tranches
+              </label>
+              <input
+                type="number"
+                min="2"
+                max="5"
+                value={formData.entryConditions.scaleIn.tranches}
+                onChange={(e) => updateFormData({
+                  entryConditions: {
+                    ...formData.entryConditions,
+                    scaleIn: { ...formData.entryConditions.scaleIn, tranches: parseInt(e.target.value) }
+                  }
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Pullback per Tranche (%)
+              </label>
+              <input
+                type="number"
+                min="0.5"
+                step="0.5"
+                value={formData.entryConditions.scaleIn.pullbackPercent}
+                onChange={(e) => updateFormData({
+                  entryConditions: {
+                    ...formData.entryConditions,
+                    scaleIn: { ...formData.entryConditions.scaleIn, pullbackPercent: parseFloat(e.target.value) }
+                  }
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900"
+              />
+            </div>
+            <div className="md:col-span-2 text-xs text-gray-600">
+              The first entry buys 1/{formData.entryConditions.scaleIn.tranches} of the position. Each further tranche is
+              added when the price pulls back {formData.entryConditions.scaleIn.pullbackPercent}% below the last entry.
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Preview */}
       {getSelectedIndicators().length > 0 && (
         <div className="bg-gray-50 rounded-lg p-4">
@@ -585,6 +651,13 @@ export default function EntryConditionsStep({ formData, updateFormData }: EntryC
           <div className="text-sm text-gray-600">
             <p>Selected indicators: <span className="font-medium text-gray-900">{getSelectedIndicators().join(', ')}</span></p>
           </div>
+          <div className="mt-4">
+            <StrategyPreviewPanel
+              entryConditions={formData.entryConditions}
+              timeHorizon={formData.timeHorizon}
+              defaultSymbol={formData.asset || undefined}
+            />
+          </div>
         </div>
       )}
     </div>
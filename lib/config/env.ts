@@ -23,13 +23,57 @@ const envSchema = z.object({
   ALPACA_SECRET_KEY: z.string().min(1, 'ALPACA_SECRET_KEY is required'),
   ALPACA_BASE_URL: z.string().url('ALPACA_BASE_URL must be a valid URL'),
 
-  // OpenAI API
-  OPENAI_API_KEY: z.string().min(1, 'OPENAI_API_KEY is required'),
+  // Broker selection: overrides every bot's TradingMode (e.g. "simulated" for dev/CI without network)
+  BROKER_ADAPTER: z.enum(['alpaca', 'simulated']).optional(),
+
+  // Simulated broker (fills against cached MarketData bars)
+  SIM_BROKER_INITIAL_CASH: z.coerce.number().positive().default(100000),
+  SIM_BROKER_SLIPPAGE_BPS: z.coerce.number().min(0).default(5),
+  SIM_BROKER_COMMISSION: z.coerce.number().min(0).default(0),
+  SIM_BROKER_INTERVAL: z.string().default('daily'),
+
+  // Broker-side exits: bracket / OCO legs and native trailing stops from each bot's exit conditions
+  PROTECTIVE_ORDERS_ENABLED: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+
+  // Job queue (cron fan-out: one BOT_RUN job per bot)
+  JOB_QUEUE_CONCURRENCY: z.coerce.number().int().positive().default(3),         // 동시에 실행할 작업 수
+  JOB_QUEUE_RATE_LIMIT_PER_MINUTE: z.coerce.number().int().positive().default(10), // 분당 시작할 수 있는 작업 수 (API 호출 예산)
+  JOB_QUEUE_MAX_ATTEMPTS: z.coerce.number().int().positive().default(3),
+  JOB_QUEUE_RETRY_BASE_MS: z.coerce.number().int().positive().default(30000),   // 재시도 백오프 기준 (2배씩 증가)
+  JOB_QUEUE_JOB_TIMEOUT_MS: z.coerce.number().int().positive().default(120000), // 작업 하나의 최대 실행 시간
+  JOB_QUEUE_WORKER_BUDGET_MS: z.coerce.number().int().positive().default(120000), // 워커가 새 작업을 시작하는 시간
+
+  // Pre-trade risk gate (TradingProfile limits + account-wide caps)
+  RISK_ENGINE_ENABLED: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  RISK_MAX_TRADES_PER_DAY: z.coerce.number().int().positive().default(20),      // 계좌 전체 일일 주문 수
+  RISK_DAILY_LOSS_LIMIT_PERCENT: z.coerce.number().positive().default(3),       // 전일 대비 자산 손실 % 초과 시 신규 매수 차단
+  RISK_MAX_SECTOR_EXPOSURE: z.coerce.number().positive().max(1).default(0.4),   // 섹터별 최대 비중 (자산 대비)
+
+  // Kill switch: circuit breakers that halt all trading until an explicit resume
+  KILL_SWITCH_MAX_ORDER_FAILURES: z.coerce.number().int().positive().default(5),  // 연속 주문 실패 횟수
+  KILL_SWITCH_MAX_DRAWDOWN_PERCENT: z.coerce.number().positive().default(5),      // 당일 최고 자산 대비 하락 %
+  KILL_SWITCH_MAX_STALE_PRICES: z.coerce.number().int().positive().default(3),    // 연속 실시간 가격 조회 실패 횟수
+
+  // Adaptive profile tuning (ProfileAdjuster from live performance + market state)
+  PROFILE_TUNING_INDEX_SYMBOL: z.string().default('SPY'),                        // 시장 상태 계산용 지수 (MarketData daily 캐시)
+  PROFILE_TUNING_MIN_TRADES: z.coerce.number().int().positive().default(5),      // 조정 제안에 필요한 최소 청산 거래 수
+  PROFILE_TUNING_AUTO_APPLY: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  PROFILE_TUNING_MAX_AUTO_CHANGE: z.coerce.number().positive().max(1).default(0.2), // 자동 적용 허용 변화율 (값별 ±20%)
+
+  // OpenAI API (only required when a bot uses the OpenAI provider)
+  OPENAI_API_KEY: z.string().min(1, 'OPENAI_API_KEY is required').optional(),
   OPENAI_MODEL: z.string().min(1, 'OPENAI_MODEL is required').default('gpt-4o-mini'),
 
+  // AI provider: overrides every bot's aiProvider (e.g. "rule-based" for tests/CI without an API key)
+  AI_PROVIDER: z.enum(['openai', 'rule-based']).optional(),
+
   // FMP (Financial Modeling Prep)
   FMP_API_KEY: z.string().min(1, 'FMP_API_KEY is required'),
 
+  // Provider fixtures: record real provider responses / replay them offline (no API keys needed in replay)
+  PROVIDER_FIXTURE_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+  PROVIDER_FIXTURE_DIR: z.string().default('__tests__/fixtures/providers'),
+
   // Next.js (Public)
   NEXT_PUBLIC_APP_NAME: z.string().default('StockHero Clone'),
   NEXT_PUBLIC_APP_VERSION: z.string().default('1.0.0'),
@@ -52,6 +96,18 @@ const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
 });
 
+/**
+ * Provider credentials used when PROVIDER_FIXTURE_MODE=replay and the real ones are missing
+ */
+const REPLAY_PLACEHOLDERS: Record<string, string> = {
+  ALPHA_VANTAGE_API_KEY: 'replay',
+  ALPACA_API_KEY: 'replay',
+  ALPACA_SECRET_KEY: 'replay',
+  ALPACA_BASE_URL: 'https://paper-api.alpaca.markets',
+  FMP_API_KEY: 'replay',
+  OPENAI_API_KEY: 'replay',
+};
+
 /**
  * Validate and parse environment variables
  */
@@ -67,10 +123,17 @@ function validateEnv() {
       }
     }
 
+    // Replay mode serves every provider from fixtures, so provider keys are not required
+    const replayDefaults: Record<string, string> =
+      trimmedEnv.PROVIDER_FIXTURE_MODE === 'replay' ? REPLAY_PLACEHOLDERS : {};
+
     // Handle Alpha Vantage key (ALPHA_VANTAGE_API_KEY is primary, ALPHA_VANTAGE_KEY is fallback)
-    const alphaVantageKey = (trimmedEnv.ALPHA_VANTAGE_API_KEY || trimmedEnv.ALPHA_VANTAGE_KEY || '').trim();
+    const alphaVantageKey = (
+      trimmedEnv.ALPHA_VANTAGE_API_KEY || trimmedEnv.ALPHA_VANTAGE_KEY || replayDefaults.ALPHA_VANTAGE_API_KEY || ''
+    ).trim();
 
     const parsed = envSchema.parse({
+      ...replayDefaults,
       ...trimmedEnv,
       ALPHA_VANTAGE_API_KEY: alphaVantageKey,
       ALPHA_VANTAGE_KEY: alphaVantageKey,
@@ -123,6 +186,6 @@ export const isTest = env.NODE_ENV === 'test';
  * Returns trimmed value
  */
 export const getAlphaVantageKey = () => {
-  const key = process.env.ALPHA_VANTAGE_API_KEY || process.env.ALPHA_VANTAGE_KEY || '';
+  const key = process.env.ALPHA_VANTAGE_API_KEY || process.env.ALPHA_VANTAGE_KEY || env.ALPHA_VANTAGE_API_KEY || '';
   return typeof key === 'string' ? key.trim() : key;
 };
@@ -105,36 +105,86 @@ export const TECHNICAL_ANALYSIS = {
 
 /**
  * AI Trading Decision Configuration
+ *
+ * Defaults for Strategy.decisionConfig (lib/utils/decisionConfig.ts) - read by
+ * the unified decision, the decision replay and the backtester.
  */
 export const AI_TRADING = {
   /**
-   * GPT adjustment range
+   * GPT adjustment range (±MAX around the objective score)
    */
   GPT_ADJUSTMENT: {
-    MIN: -0.5,
     MAX: 0.5,
-    STRONG_SIGNAL: 0.3,  // Threshold for "strong" signal
   },
 
   /**
-   * Decision thresholds
+   * Decision thresholds on the final score
+   * - BUY / STRONG_BUY / VERY_STRONG_BUY: target position 40% / 60% / 80% of the fund
+   * - SELL: target position 0% (full exit)
+   * - Between SELL and BUY: keep the current position
    */
   DECISION_THRESHOLDS: {
-    BUY: 0.3,           // Buy if final score >= 0.3
-    SELL: -0.3,         // Sell if final score <= -0.3
-    HOLD_MIN: -0.3,     // Hold if -0.3 < score < 0.3
-    HOLD_MAX: 0.3,
+    BUY: 0.35,
+    STRONG_BUY: 0.5,
+    VERY_STRONG_BUY: 0.7,
+    SELL: -0.35,
   },
 
   /**
    * Objective score calculation weights
+   * - SENTIMENT: news sentiment (or social sentiment when there is no news)
+   * - SOCIAL_SHARE: part of the sentiment weight given to social sentiment when both exist
+   * - Without any sentiment the technical score is used alone
    */
   OBJECTIVE_WEIGHTS: {
-    NEWS: 0.7,          // 70% weight for news sentiment
-    TECHNICAL: 0.3,     // 30% weight for technical signals
+    SENTIMENT: 0.7,
+    TECHNICAL: 0.3,
+    SOCIAL_SHARE: 0.1,
   },
 } as const;
 
+/**
+ * Signal History Evaluation
+ *
+ * Forward-return evaluation of the daily opportunity snapshots
+ * (lib/services/signalHistoryService.ts, lib/utils/signalEvaluation.ts).
+ */
+export const SIGNAL_EVALUATION = {
+  /**
+   * Forward return horizons (trading days) - OpportunitySnapshot.return1d / return5d / return20d
+   */
+  HORIZONS: [1, 5, 20],
+
+  /**
+   * Horizon used for the per-signal verdict unless the report asks for another one
+   */
+  PRIMARY_HORIZON: 5,
+
+  /**
+   * Signal score bucket edges (lower bounds; below the first edge = negative scores)
+   */
+  SCORE_BUCKETS: [0, 2, 5, 10],
+
+  /**
+   * Opportunity total score bucket edges
+   */
+  TOTAL_SCORE_BUCKETS: [0, 5, 10, 20],
+
+  /**
+   * Verdict: at least MIN_SAMPLES observations and |t-stat of the excess return| >= MIN_T_STAT
+   */
+  MIN_SAMPLES: 20,
+  MIN_T_STAT: 2,
+
+  /**
+   * Evaluation job limits
+   * - LOOKBACK_DAYS: snapshots older than this are no longer evaluated
+   * - MAX_SYMBOLS_PER_RUN: daily bar requests per run (Alpha Vantage budget)
+   */
+  LOOKBACK_DAYS: 60,
+  MAX_SYMBOLS_PER_RUN: 10,
+} as const;
+
 /**
  * API Configuration
  */
@@ -146,6 +196,55 @@ export const API = {
     ALPHA_VANTAGE: 5,    // 5 calls per minute (free tier)
     FMP: 250,            // 250 calls per day (free tier)
     OPENAI: 60,          // 60 calls per minute
+    ALPACA: 200,         // 200 calls per minute (market data)
+  },
+
+  /**
+   * Data gateway budgets (lib/services/dataGatewayService.ts)
+   * perMinute = calls per sliding minute, perDay = daily budget (UTC day)
+   */
+  PROVIDER_BUDGETS: {
+    alphaVantage: { perMinute: 5, perDay: null },
+    fmp: { perMinute: null, perDay: 250 },
+    alpaca: { perMinute: 200, perDay: null },
+    openai: { perMinute: 60, perDay: null },
+  },
+
+  /**
+   * Share of each budget a request priority may use
+   * Lower priorities leave the rest of the budget for bot execution.
+   */
+  PRIORITY_SHARES: {
+    BOT_EXECUTION: 1.0,
+    BACKGROUND: 0.8,
+    DASHBOARD: 0.6,
+  },
+
+  /**
+   * Longest a bot-execution request waits for a per-minute token (milliseconds)
+   */
+  MAX_BUDGET_WAIT_MS: 15000,
+
+  /**
+   * Shared cache TTLs per endpoint (milliseconds)
+   */
+  CACHE_TTLS: {
+    MARKET_EVENTS: 5 * 60 * 1000,          // M&A, rating changes, insider trades
+    CALENDAR: 60 * 60 * 1000,              // earnings, splits, senate disclosures
+    SCREENER: 5 * 60 * 1000,
+    STOCK_NEWS: 5 * 60 * 1000,
+    SOCIAL_SENTIMENT: 15 * 60 * 1000,
+    SEC_FILINGS: 6 * 60 * 60 * 1000,
+    ANALYST: 6 * 60 * 60 * 1000,
+    COMPANY_PROFILE: 24 * 60 * 60 * 1000,
+    DAILY_BARS: 6 * 60 * 60 * 1000,
+    INTRADAY_BARS: 60 * 1000,
+    QUOTE: 60 * 1000,
+    TECHNICAL_INDICATORS: 5 * 60 * 1000,
+    NEWS_SENTIMENT: 15 * 60 * 1000,
+    SEC_SUMMARY: 7 * 24 * 60 * 60 * 1000,  // 공시 요약은 바뀌지 않음
+    INVESTMENT_OPPORTUNITIES: 5 * 60 * 1000,
+    AI_RECOMMENDATIONS: 24 * 60 * 60 * 1000,
   },
 
   /**
@@ -217,6 +316,7 @@ export type RiskManagementConfig = typeof RISK_MANAGEMENT;
 export type NewsAnalysisConfig = typeof NEWS_ANALYSIS;
 export type TechnicalAnalysisConfig = typeof TECHNICAL_ANALYSIS;
 export type AITradingConfig = typeof AI_TRADING;
+export type SignalEvaluationConfig = typeof SIGNAL_EVALUATION;
 export type APIConfig = typeof API;
 export type PortfolioConfig = typeof PORTFOLIO;
 export type SchedulerConfig = typeof SCHEDULER;
@@ -14,6 +14,9 @@ import { ChatOpenAI } from '@langchain/openai';
 import { HumanMessage, SystemMessage } from '@langchain/core/messages';
 import { prisma } from '@/lib/prisma';
 import { env } from '@/lib/config/env';
+import { API } from '@/lib/config/trading';
+import { dataGatewayService } from './dataGatewayService';
+import { contentDigest } from '@/lib/utils/providerFixtures';
 
 /**
  * AI Bot Recommendation
@@ -44,18 +47,9 @@ interface StrategyOption {
   riskAppetite: string;
 }
 
-/**
- * Cache entry structure
- */
-interface CacheEntry {
-  data: BotRecommendationResponse;
-  timestamp: Date;
-}
-
 class AIBotRecommendationService {
   private chatModel: ChatOpenAI;
-  private readonly CACHE_DURATION_MS = 24 * 60 * 60 * 1000; // 1 day (24 hours)
-  private cache: CacheEntry | null = null;
+  private readonly CACHE_DURATION_MS = API.CACHE_TTLS.AI_RECOMMENDATIONS; // 1 day (24 hours)
 
   constructor() {
     const apiKey = env.OPENAI_API_KEY;
@@ -72,16 +66,6 @@ class AIBotRecommendationService {
     });
   }
 
-  /**
-   * Check if cached data is still valid
-   */
-  private isCacheValid(): boolean {
-    if (!this.cache) return false;
-    const now = new Date().getTime();
-    const cacheTime = this.cache.timestamp.getTime();
-    return now - cacheTime < this.CACHE_DURATION_MS;
-  }
-
   /**
    * Check if a stock symbol is an OTC (Over-The-Counter) stock
    * OTC stocks typically:
@@ -107,7 +91,7 @@ class AIBotRecommendationService {
    * - Excludes OTC stocks (limited API support, lower liquidity)
    * - Returns only "high" confidence recommendations
    * - Caches results for 24 hours to reduce API calls
-   * - Checks database first, then memory cache, then generates new
+   * - Checks the latest database report first, then generates new (OpenAI call through dataGatewayService)
    */
   async generateRecommendations(
     opportunities: InvestmentOpportunity[],
@@ -125,7 +109,7 @@ class AIBotRecommendationService {
           const reportTime = new Date(latestReport.timestamp).getTime();
           const ageInHours = (now - reportTime) / (1000 * 60 * 60);
 
-          if (ageInHours < 24) {
+          if (now - reportTime < this.CACHE_DURATION_MS) {
             console.log(`[AIBotRecommendation] ✅ Using DB cached recommendations (${ageInHours.toFixed(1)} hours old)`);
 
             const recommendations = JSON.parse(latestReport.recommendations);
@@ -135,12 +119,6 @@ class AIBotRecommendationService {
               timestamp: latestReport.timestamp.toISOString(),
             };
 
-            // Update memory cache for faster subsequent access
-            this.cache = {
-              data: response,
-              timestamp: new Date(latestReport.timestamp),
-            };
-
             return response;
           } else {
             console.log(`[AIBotRecommendation] DB cache expired (${ageInHours.toFixed(1)} hours old), regenerating...`);
@@ -148,13 +126,7 @@ class AIBotRecommendationService {
         }
       } catch (dbError) {
         console.warn('[AIBotRecommendation] ⚠️ Failed to check DB cache:', dbError);
-        // Continue to memory cache check
-      }
-
-      // 2️⃣ Check memory cache (faster than DB)
-      if (this.isCacheValid()) {
-        console.log('[AIBotRecommendation] ✅ Using memory cached recommendations (24-hour cache)');
-        return this.cache!.data;
+        // Continue to generate new recommendations
       }
 
       console.log('[AIBotRecommendation] Analyzing opportunities for bot creation...');
@@ -174,8 +146,13 @@ class AIBotRecommendationService {
 
       const prompt = this.buildPrompt(nonOTCOpportunities, availableStrategies);
 
-      const aiResponse = await this.chatModel.invoke([
-        new SystemMessage(`You are an expert trading bot strategist. Analyze investment opportunities and recommend stocks suitable for automated trading bots. Consider:
+      const aiResponse = await dataGatewayService.request({
+        provider: 'openai',
+        endpoint: 'bot-recommendations',
+        params: { model: env.OPENAI_MODEL, input: contentDigest(prompt) },
+        fetcher: async () => {
+          const message = await this.chatModel.invoke([
+            new SystemMessage(`You are an expert trading bot strategist. Analyze investment opportunities and recommend stocks suitable for automated trading bots. Consider:
 - Signal strength and diversity
 - Market momentum and volatility
 - Risk-reward ratio
@@ -184,12 +161,15 @@ class AIBotRecommendationService {
 IMPORTANT: Only provide "high" confidence recommendations. Do not include medium or low confidence stocks.
 
 Provide recommendations in JSON format.`),
-        new HumanMessage(prompt)
-      ], {
-        response_format: { type: "json_object" }
+            new HumanMessage(prompt)
+          ], {
+            response_format: { type: "json_object" }
+          });
+          return { content: message.content as string };
+        },
       });
 
-      const rawContent = aiResponse.content as string;
+      const rawContent = aiResponse.content;
       if (!rawContent) {
         throw new Error('OpenAI returned empty response');
       }
@@ -216,14 +196,7 @@ Provide recommendations in JSON format.`),
         timestamp: new Date().toISOString(),
       };
 
-      // Update cache
-      this.cache = {
-        data: botResponse,
-        timestamp: new Date(),
-      };
-      console.log('[AIBotRecommendation] ✅ Cached recommendations for 24 hours');
-
-      // Save to database
+      // Save to database (next 24 hours are served from this report)
       try {
         await prisma.botRecommendationReport.create({
           data: {
@@ -316,6 +289,8 @@ ${JSON.stringify(opportunitiesData, null, 2)}
 7. earnings_upcoming - Earnings events
 8. high_volume - Volume spikes
 9. stock_split - Stock splits
+10. senate_purchase - Senate member purchases (POSITIVE signal, disclosed up to 45 days late)
+11. senate_sale - Senate member sales (NEGATIVE signal)
 
 **When evaluating stocks, COUNT UNIQUE SIGNAL TYPES, not total number of signals!**
 
@@ -134,6 +134,7 @@ function categorizeSignals(signals: InvestmentOpportunity['signals']) {
       ['top_gainer', 'high_volume'].includes(s.type)
     ),
     fundamental: signals.filter((s) => s.type === 'earnings_upcoming'),
+    congress: signals.filter((s) => s.type === 'senate_purchase' || s.type === 'senate_sale'),
   };
 }
 
@@ -195,6 +196,19 @@ function buildSignalContext(signalsByType: ReturnType<typeof categorizeSignals>)
     sections.push(`**Upcoming Events:**\n${earningsDetails}`);
   }
 
+  // Congressional trades (disclosed with a lag)
+  if (signalsByType.congress.length > 0) {
+    const congressDetails = signalsByType.congress
+      .map((signal) => {
+        const lag = signal.metadata?.disclosureLagDays;
+        const lagStr = lag !== null && lag !== undefined ? `, disclosed ${lag} days later` : '';
+        return `  • ${signal.description}${lagStr} [Score: ${signal.score.toFixed(1)}]`;
+      })
+      .join('\n');
+
+    sections.push(`**Congressional Trades:**\n${congressDetails}`);
+  }
+
   return sections.join('\n\n');
 }
 
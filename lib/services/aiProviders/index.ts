@@ -0,0 +1,46 @@
+/**
+ * AI Providers - Service Exports
+ *
+ * Resolves the AI provider for a bot from its aiProvider setting:
+ * - OPENAI     → OpenAI chat completions (OPENAI_MODEL unless the caller picks a model)
+ * - RULE_BASED → deterministic rule-based provider (no LLM, no API key)
+ *
+ * AI_PROVIDER overrides every bot (e.g. "rule-based" in tests/CI without an API key).
+ */
+
+import { AIProviderMode } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { env } from '@/lib/config/env';
+import { AIProvider, AIProviderName } from './types';
+import { openAIProvider } from './openaiProvider';
+import { ruleBasedProvider } from './ruleBasedProvider';
+
+export { OpenAIProvider, openAIProvider } from './openaiProvider';
+export { RuleBasedProvider, ruleBasedProvider, scoreKeywords, RULE_BASED_MODEL } from './ruleBasedProvider';
+
+export type { AIProvider, AIProviderName, AITask, AICompletion, AICompletionRequest } from './types';
+export type { KeywordScore } from './ruleBasedProvider';
+
+/**
+ * AI provider for a bot setting (default: the global override or OpenAI)
+ */
+export function getAIProvider(mode?: AIProviderMode | null): AIProvider {
+  const name: AIProviderName = env.AI_PROVIDER || (mode === 'RULE_BASED' ? 'rule-based' : 'openai');
+  return name === 'rule-based' ? ruleBasedProvider : openAIProvider;
+}
+
+/**
+ * AI provider for a bot (looks up its aiProvider); falls back to the default provider without a bot
+ */
+export async function getAIProviderForBot(botId?: string | null): Promise<AIProvider> {
+  if (!botId || env.AI_PROVIDER) {
+    return getAIProvider();
+  }
+
+  const bot = await prisma.bot.findUnique({
+    where: { id: botId },
+    select: { aiProvider: true },
+  });
+
+  return getAIProvider(bot?.aiProvider);
+}
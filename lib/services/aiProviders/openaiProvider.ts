@@ -0,0 +1,66 @@
+/**
+ * OpenAI Provider
+ *
+ * Chat completions through LangChain's ChatOpenAI (LangSmith tracing when configured).
+ * The client is created per request, so importing this module needs no API key.
+ * Calls go through dataGatewayService (per-minute budget and usage log, no caching);
+ * the prompt digest in the params keys recorded fixtures.
+ */
+
+import { ChatOpenAI } from '@langchain/openai';
+import { BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { env } from '@/lib/config/env';
+import { dataGatewayService } from '@/lib/services/dataGatewayService';
+import { contentDigest } from '@/lib/utils/providerFixtures';
+import { AIProvider, AICompletion, AICompletionRequest } from './types';
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai' as const;
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const apiKey = env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not set (use AI_PROVIDER=rule-based to run without an LLM)');
+    }
+
+    const model = request.model || env.OPENAI_MODEL;
+    const chatModel = new ChatOpenAI({
+      apiKey,
+      model,
+      temperature: request.temperature ?? 0.7,
+      maxTokens: request.maxTokens ?? 500,
+    });
+
+    const messages: BaseMessage[] = [];
+    if (request.systemPrompt) {
+      messages.push(new SystemMessage(request.systemPrompt));
+    }
+    messages.push(new HumanMessage(request.prompt));
+
+    const response = await dataGatewayService.request({
+      provider: 'openai',
+      endpoint: request.task,
+      params: {
+        model,
+        json: request.json ? 1 : undefined,
+        input: contentDigest(`${request.systemPrompt || ''}\n${request.prompt}`),
+      },
+      fetcher: async () => {
+        const message = await chatModel.invoke(
+          messages,
+          request.json ? { response_format: { type: 'json_object' } } : undefined
+        );
+        // 직렬화 가능한 형태로 반환 (픽스처 녹화/재생)
+        return { content: message.content as string };
+      },
+    });
+
+    return {
+      text: response.content || (request.json ? '{}' : ''),
+      provider: this.name,
+      model,
+    };
+  }
+}
+
+export const openAIProvider = new OpenAIProvider();
@@ -0,0 +1,106 @@
+/**
+ * Rule-Based Provider
+ *
+ * Deterministic stand-in for the LLM (no network, no API key):
+ * - News / SEC sentiment from positive and negative keyword counts in the request input
+ * - No GPT adjustment (the unified decision runs on the objective score)
+ * - Same input → same output, so runs can be reproduced offline and in CI
+ */
+
+import { AIProvider, AICompletion, AICompletionRequest } from './types';
+
+export const RULE_BASED_MODEL = 'rule-based-v1';
+
+const POSITIVE_KEYWORDS = [
+  'beat', 'beats', 'growth', 'surge', 'surges', 'upgrade', 'upgraded', 'record', 'raises', 'expansion',
+  'profit', 'partnership', 'acquisition', 'buyback', 'outperform', 'strong', 'gain', 'gains', 'approval',
+  '상회', '성장', '증가', '상향', '호실적', '인수', '계약',
+];
+
+const NEGATIVE_KEYWORDS = [
+  'miss', 'misses', 'decline', 'declines', 'lawsuit', 'downgrade', 'downgraded', 'layoff', 'layoffs',
+  'loss', 'losses', 'recall', 'investigation', 'resigns', 'resignation', 'weak', 'cuts', 'plunge',
+  'bankruptcy', 'fraud',
+  '하회', '감소', '소송', '하향', '구조조정', '사임', '적자',
+];
+
+export interface KeywordScore {
+  positive: number;
+  negative: number;
+  sentiment: number;   // -1.0 ~ +1.0
+}
+
+function countKeywords(text: string, keywords: string[]): number {
+  return keywords.reduce((count, keyword) => {
+    // 영문은 단어 단위, 한글은 부분 일치
+    const pattern = /^[a-z]+$/.test(keyword)
+      ? new RegExp(`\\b${keyword}\\b`, 'g')
+      : new RegExp(keyword, 'g');
+    const matches = text.match(pattern);
+    return count + (matches ? matches.length : 0);
+  }, 0);
+}
+
+/**
+ * Keyword sentiment: (positive - negative) / (positive + negative), 0 without keywords
+ */
+export function scoreKeywords(text: string): KeywordScore {
+  const lower = text.toLowerCase();
+  const positive = countKeywords(lower, POSITIVE_KEYWORDS);
+  const negative = countKeywords(lower, NEGATIVE_KEYWORDS);
+  const total = positive + negative;
+  const sentiment = total > 0 ? Math.round(((positive - negative) / total) * 100) / 100 : 0;
+  return { positive, negative, sentiment };
+}
+
+function sentimentLabel(sentiment: number): string {
+  if (sentiment >= 0.7) return 'Very Positive';
+  if (sentiment >= 0.3) return 'Positive';
+  if (sentiment > -0.3) return 'Neutral';
+  if (sentiment > -0.7) return 'Negative';
+  return 'Very Negative';
+}
+
+export class RuleBasedProvider implements AIProvider {
+  readonly name = 'rule-based' as const;
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const score = scoreKeywords(request.input ?? request.prompt);
+    const keywordText = `긍정 키워드 ${score.positive}개, 부정 키워드 ${score.negative}개`;
+
+    let text: string;
+    switch (request.task) {
+      case 'news-sentiment':
+        text = JSON.stringify({
+          summary: `규칙 기반 분석 (LLM 미사용): ${keywordText}`,
+          sentiment: score.sentiment,
+          sentimentLabel: sentimentLabel(score.sentiment),
+        });
+        break;
+
+      case 'sec-summary': {
+        const firstSentence = (request.input || '').replace(/\s+/g, ' ').trim().split(/[.!?]\s/)[0] || '';
+        text = JSON.stringify({
+          summary: firstSentence.slice(0, 150) || '문서 내용 없음',
+          sentiment: score.sentiment > 0 ? 'positive' : score.sentiment < 0 ? 'negative' : 'neutral',
+          impact: `규칙 기반 분석 (LLM 미사용): ${keywordText}`,
+        });
+        break;
+      }
+
+      case 'trade-adjustment':
+        text = JSON.stringify({
+          adjustment: 0,
+          reasoning: '규칙 기반 제공자: GPT 조정 없음 (객관적 점수로 판단)',
+        });
+        break;
+
+      default:
+        text = `규칙 기반 분석 (LLM 미사용): ${keywordText}, 감성 ${score.sentiment.toFixed(2)} (${sentimentLabel(score.sentiment)})`;
+    }
+
+    return { text, provider: this.name, model: RULE_BASED_MODEL };
+  }
+}
+
+export const ruleBasedProvider = new RuleBasedProvider();
@@ -0,0 +1,39 @@
+/**
+ * AI Provider Types
+ *
+ * Common interface for everything that generates text for the trading pipeline:
+ * news summaries, SEC filing summaries, the GPT adjustment and free-form analysis.
+ * Callers tag each request with a task so providers that don't read prompts
+ * (rule-based) can still answer in the expected shape.
+ */
+
+export type AIProviderName = 'openai' | 'rule-based';
+
+export type AITask =
+  | 'text'               // 자유 형식 텍스트 (generateText)
+  | 'news-sentiment'     // { summary, sentiment, sentimentLabel }
+  | 'sec-summary'        // { summary, sentiment, impact, financialQuality? }
+  | 'trade-adjustment';  // { adjustment, reasoning }
+
+export interface AICompletionRequest {
+  task: AITask;
+  prompt: string;
+  systemPrompt?: string;
+  input?: string;        // Raw material the prompt was built from (articles, filing text)
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;        // Respond with a JSON object
+}
+
+export interface AICompletion {
+  text: string;
+  provider: AIProviderName;
+  model: string;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+
+  complete(request: AICompletionRequest): Promise<AICompletion>;
+}
@@ -1,11 +1,24 @@
 import { NewsAnalysis } from './newsAnalysisService';
-import { alpacaTradingService } from './alpacaTradingService';
-import { ChatOpenAI } from '@langchain/openai';
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { getBrokerForBot } from './brokers';
+import { riskEngineService, RiskCheckResult } from './riskEngineService';
+import { killSwitchService } from './killSwitchService';
+import { orderExecutionService, ExecutionSubmitResult } from './orderExecutionService';
+import { AIProvider, getAIProvider } from './aiProviders';
 import { AnalystRating } from './fmpAnalystService';
 import { FMPNewsData } from '@/lib/types/fmpNews';
 import { parseFMPDataForGPT, ParsedFMPData } from '@/lib/utils/fmpDataParser';
-import { env } from '@/lib/config/env';
+import { DecisionConfig, DEFAULT_DECISION_CONFIG, describeDecisionConfig } from '@/lib/utils/decisionConfig';
+import {
+  DecisionInputs,
+  GptJudgement,
+  RecordedDecisionInputs,
+  calculateLimitPriceOffset,
+  calculateTargetPositionRatio,
+  computeObjectiveScore,
+  currentPositionRatio,
+  resolveUnifiedDecision,
+  socialScoreFromFMP
+} from '@/lib/utils/unifiedDecision';
 
 export interface CurrentPosition {
   quantity: number;
@@ -58,25 +71,20 @@ export interface AITradeDecision {
 
   // 매도 타입 (일부/전량) - deprecated, use actionType instead
   sellType?: 'FULL' | 'PARTIAL';
+
+  // 🆕 판단 재현용 입력 (makeUnifiedDecision만 기록, Report.decisionInputs)
+  decisionInputs?: RecordedDecisionInputs;
+
+  // 조정값을 만든 AI 제공자 / 모델 (Report.aiProvider, Report.aiModel)
+  aiProvider?: string;
+  aiModel?: string;
 }
 
-class AITradingService {
-  private chatModel: ChatOpenAI;
+// GPT 조정 요청 공통 설정
+const ADJUSTMENT_TEMPERATURE = 0.5;
+const ADJUSTMENT_MAX_TOKENS = 500;
 
-  constructor() {
-    const apiKey = env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not set');
-    }
-    const model = env.OPENAI_MODEL;
-
-    this.chatModel = new ChatOpenAI({
-      apiKey,
-      model,
-      temperature: 0.5,
-      maxTokens: 500,
-    });
-  }
+class AITradingService {
 
   /**
    * AI 기반 거래 결정 (객관적 점수 + GPT 조정)
@@ -131,15 +139,17 @@ class AITradingService {
 }`;
 
     try {
-      const response = await this.chatModel.invoke([
-        new SystemMessage('You are a professional investment analyst. Always respond with valid JSON only.'),
-        new HumanMessage(prompt)
-      ], {
-        response_format: { type: "json_object" }
+      const completion = await getAIProvider().complete({
+        task: 'trade-adjustment',
+        systemPrompt: 'You are a professional investment analyst. Always respond with valid JSON only.',
+        prompt,
+        temperature: ADJUSTMENT_TEMPERATURE,
+        maxTokens: ADJUSTMENT_MAX_TOKENS,
+        json: true
       });
 
-      const responseText = response.content as string || '{}';
-      console.log('🤖 GPT raw response:', responseText);
+      const responseText = completion.text || '{}';
+      console.log(`🤖 GPT raw response (${completion.provider}/${completion.model}):`, responseText);
 
       const gptResponse = JSON.parse(responseText);
       let gptAdjustment = gptResponse.adjustment || 0;
@@ -181,7 +191,7 @@ class AITradingService {
 
       if (action === 'BUY') {
         // 리미트 가격: finalScore 기반
-        const limitPriceOffset = this.calculateLimitPriceOffset(finalScore);
+        const limitPriceOffset = calculateLimitPriceOffset(finalScore);
         limitPrice = parseFloat((currentPrice * (1 + limitPriceOffset)).toFixed(2));
 
         // ✅ Kelly Criterion 기반 수량 계산
@@ -349,75 +359,9 @@ class AITradingService {
     return Math.max(0, quantity);
   }
 
-  /**
-   * ✨ 목표 포지션 비율 계산 (신호 강도 기반)
-   *
-   * @param finalScore - AI 최종 점수 (-1.0 ~ 1.0)
-   * @returns 목표 포지션 비율 (0.0 ~ 0.8)
-   */
-  private calculateTargetPositionRatio(finalScore: number): number {
-    if (finalScore >= 0.7) {
-      // 매우 강한 신호: 80% (단일 종목 집중 투자)
-      return 0.80;
-    } else if (finalScore >= 0.5) {
-      // 강한 신호: 60%
-      return 0.60;
-    } else if (finalScore >= 0.35) {
-      // 보통 신호: 40% (BUY 임계값과 일치)
-      return 0.40;
-    } else if (finalScore <= -0.35) {
-      // 강한 매도 신호: 0% (전량 매도, SELL 임계값과 일치)
-      return 0.0;
-    } else {
-      // HOLD 범위 (-0.35 ~ 0.35): 현재 포지션 유지
-      return -1; // -1은 "유지" 신호
-    }
-  }
-
-  /**
-   * 🆕 기술적 조건 개별 평가 점수 계산
-   *
-   * - 각 조건당: 충족하면 +(0.5 / 조건수), 불충족하면 -(0.5 / 조건수)
-   * - 예: RSI, MACD, Bollinger 3개 중 2개 충족 → +0.17 +0.17 -0.17 = +0.17
-   *
-   * @param conditions - 기술적 조건 평가 결과 배열
-   * @returns 기술적 점수 (-0.5 ~ +0.5)
-   */
-  private calculateTechnicalScore(conditions?: Array<{ condition: string; actual: string; result: boolean; details?: string }>): number {
-    if (!conditions || conditions.length === 0) {
-      // 조건이 없으면 중립 (0점)
-      return 0;
-    }
-
-    const scorePerCondition = 0.5 / conditions.length;
-    let totalScore = 0;
-
-    conditions.forEach(cond => {
-      totalScore += cond.result ? scorePerCondition : -scorePerCondition;
-    });
-
-    return totalScore;
-  }
-
-  /**
-   * finalScore에 따라 리미트 가격 오프셋 계산
-   *
-   * - 매우 긍정적 (0.7 이상): 현재가 대비 +0.3% 리미트 (빠른 체결)
-   * - 긍정적 (0.3 ~ 0.7): 현재가 대비 0% 리미트 (시장가)
-   * - 중립 (0.2 ~ 0.3): 현재가 대비 -0.3% 리미트 (저가 매수)
-   */
-  private calculateLimitPriceOffset(finalScore: number): number {
-    if (finalScore >= 0.7) {
-      return 0.003; // +0.3% (강한 긍정, 빠른 체결 우선)
-    } else if (finalScore >= 0.3) {
-      return 0; // 현재가 (시장가 수준)
-    } else {
-      return -0.003; // -0.3% (저가 매수 시도)
-    }
-  }
-
   /**
    * 🆕 통합 거래 판단 (매수/매도/추가매수/일부매도 모두 처리)
+   * GPT 호출 외의 계산은 lib/utils/unifiedDecision (리포트 재현과 같은 코드)
    *
    * @param params - 통합 판단에 필요한 모든 정보
    * @returns AI 거래 결정
@@ -434,6 +378,8 @@ class AITradingService {
     takeProfit?: number;  // 예: 10 (%)
     analystRating?: AnalystRating | null;  // 🆕 애널리스트 레이팅
     fmpNewsData?: FMPNewsData | null;  // 🆕 FMP 뉴스 데이터
+    decisionConfig?: DecisionConfig;  // 전략별 가중치 / 구성요소 / 임계값 (없으면 기본값)
+    aiProvider?: AIProvider;  // 봇의 AI 제공자 (없으면 AI_PROVIDER 또는 OpenAI)
   }): Promise<AITradeDecision> {
     const {
       symbol,
@@ -448,58 +394,50 @@ class AITradingService {
       analystRating,
       fmpNewsData
     } = params;
+    const config = params.decisionConfig || DEFAULT_DECISION_CONFIG;
+    const provider = params.aiProvider || getAIProvider();
 
     console.log('\n🧠 통합 거래 판단 시작 (세컨드 브레인 모드)...');
     console.log(`📊 현재 포지션:`, currentPosition ? `${currentPosition.quantity}주 @ $${currentPosition.entryPrice.toFixed(2)}` : '없음');
+    if (params.decisionConfig) {
+      console.log(`⚙️ 판단 설정: ${describeDecisionConfig(config)}`);
+    }
+
+    // 판단 재현용 입력 (GPT 응답과 함께 Report.decisionInputs에 기록)
+    const inputs: DecisionInputs = {
+      currentPrice,
+      currentPosition,
+      fundAllocation,
+      stopLoss,
+      takeProfit,
+      sentimentScore: newsAnalysis.sentiment || 0,
+      sentimentLabel: newsAnalysis.sentimentLabel,
+      socialScore: socialScoreFromFMP(fmpNewsData),
+      technicalSignal,
+      technicalConditions
+    };
 
     // === 포지션 비율 사전 계산 (감쇠 로직용) ===
-    const currentPositionValue = currentPosition ? currentPosition.quantity * currentPrice : 0;
-    const currentRatio = fundAllocation > 0 ? currentPositionValue / fundAllocation : 0;
+    const currentRatio = currentPositionRatio(inputs);
 
-    // === 1단계: 객관적 점수 계산 ===
-    const sentimentScore = newsAnalysis.sentiment || 0;
+    // === 1단계: 객관적 점수 계산 (뉴스 + 소셜 + 기술적 조건) ===
+    const {
+      sentimentScore,
+      socialScore,
+      technicalScore,
+      baseScore,
+      scoreExplanation,
+      objectiveReasoning
+    } = computeObjectiveScore(inputs, config);
 
-    // 🆕 소셜 감성 점수 추출 (FMP 데이터)
-    let socialScore = 0;
     if (fmpNewsData && fmpNewsData.socialSentiment.length > 0) {
       const latest = fmpNewsData.socialSentiment[0];
-      socialScore = (latest.stocktwitsSentiment + latest.twitterSentiment) / 2;
       console.log(`📱 소셜 감성: ${socialScore.toFixed(2)} (StockTwits: ${latest.stocktwitsSentiment.toFixed(2)}, Twitter: ${latest.twitterSentiment.toFixed(2)})`);
       console.log(`   게시물: StockTwits ${latest.stocktwitsPosts}개, Twitter ${latest.twitterPosts}개`);
     } else {
       console.log(`📱 소셜 감성: 데이터 없음`);
     }
-
-    // 🆕 기술적 조건 개별 평가 (각 조건당 점수 계산)
-    const technicalScore = technicalConditions
-      ? this.calculateTechnicalScore(technicalConditions)
-      : (technicalSignal ? 0.5 : -0.5);  // fallback to old logic
-
-    // 🆕 점수 계산 로직 개선 (소셜 감성 통합)
-    let baseScore: number;
-    let scoreExplanation: string;
-
-    if (sentimentScore === 0 && socialScore !== 0) {
-      // Alpha Vantage 없고 소셜만 있음 → 소셜을 주요 소스로
-      baseScore = socialScore * 0.7 + technicalScore * 0.3;
-      scoreExplanation = `소셜 ${socialScore.toFixed(2)} * 0.7 + 기술 ${technicalScore.toFixed(2)} * 0.3`;
-      console.log(`📊 점수 계산 (소셜 중심): ${scoreExplanation}`);
-    } else if (sentimentScore !== 0 && socialScore !== 0) {
-      // 둘 다 있음 → 둘 다 활용
-      baseScore = sentimentScore * 0.6 + socialScore * 0.1 + technicalScore * 0.3;
-      scoreExplanation = `Alpha ${sentimentScore.toFixed(2)} * 0.6 + 소셜 ${socialScore.toFixed(2)} * 0.1 + 기술 ${technicalScore.toFixed(2)} * 0.3`;
-      console.log(`📊 점수 계산 (통합): ${scoreExplanation}`);
-    } else if (sentimentScore !== 0) {
-      // Alpha Vantage만 있음 → 기존 로직
-      baseScore = sentimentScore * 0.7 + technicalScore * 0.3;
-      scoreExplanation = `Alpha ${sentimentScore.toFixed(2)} * 0.7 + 기술 ${technicalScore.toFixed(2)} * 0.3`;
-      console.log(`📊 점수 계산 (Alpha 중심): ${scoreExplanation}`);
-    } else {
-      // 둘 다 없음 → 기술적 신호만
-      baseScore = technicalScore * 1.0;
-      scoreExplanation = `기술 ${technicalScore.toFixed(2)} * 1.0 (뉴스 데이터 없음)`;
-      console.log(`📊 점수 계산 (기술만): ${scoreExplanation}`);
-    }
+    console.log(`📊 점수 계산: ${scoreExplanation}`);
 
     // 기술적 조건 상세 로그
     if (technicalConditions && technicalConditions.length > 0) {
@@ -512,14 +450,6 @@ class AITradingService {
       console.log(`  • 총 기술적 점수: ${technicalScore.toFixed(2)}`);
     }
 
-    const objectiveReasoning = [
-      `📊 객관적 분석:`,
-      `  • Alpha Vantage 감성: ${sentimentScore.toFixed(2)} (${newsAnalysis.sentimentLabel})`,
-      socialScore !== 0 ? `  • 소셜 감성: ${socialScore.toFixed(2)} (StockTwits + Twitter)` : null,
-      `  • 기술적 조건: ${technicalScore.toFixed(2)} (${technicalConditions ? `${technicalConditions.filter(c => c.result).length}/${technicalConditions.length} 충족` : (technicalSignal ? '충족' : '불충족')})`,
-      `  • 기초 점수: ${baseScore.toFixed(2)} (${scoreExplanation})`
-    ].filter(Boolean).join('\n');
-
     console.log(objectiveReasoning);
 
     // === 2단계: 포지션 & 자금 상태 분석 ===
@@ -560,7 +490,9 @@ class AITradingService {
 
     // === 3단계: 애널리스트 레이팅 정보 추가 ===
     let analystRatingText = '';
-    if (analystRating && analystRating.latestChange) {
+    if (!config.components.analyst) {
+      console.log(`ℹ️ 애널리스트 레이팅 비활성화 (전략 설정)`);
+    } else if (analystRating && analystRating.latestChange) {
       const { latestChange, consensus, totalChanges } = analystRating;
       const daysAgo = Math.floor(
         (Date.now() - new Date(latestChange.publishedDate).getTime()) / (1000 * 60 * 60 * 24)
@@ -581,8 +513,8 @@ class AITradingService {
 
     // === 3-1단계: FMP 뉴스 데이터 파싱 (SEC Filings, Insider Trading 등) ===
     let fmpDataText = '';
-    if (fmpNewsData) {
-      const parsedFMP = await parseFMPDataForGPT(fmpNewsData, symbol);
+    if (fmpNewsData && config.components.gpt) {
+      const parsedFMP = await parseFMPDataForGPT(fmpNewsData, symbol, provider);
 
       fmpDataText = `
 
@@ -613,7 +545,7 @@ ${positionStatus}
 - Alpha Vantage 뉴스 요약: ${newsAnalysis.summary.slice(0, 300)}${analystRatingText}${fmpDataText}
 
 ## 임무:
-FMP 데이터(SEC 문서, 내부자 거래)를 종합하여 기초 점수를 ±0.5 범위 내에서 조정하세요.
+FMP 데이터(SEC 문서, 내부자 거래)를 종합하여 기초 점수를 ±${config.maxGptAdjustment} 범위 내에서 조정하세요.
 
 **⚠️ 중요: 조정 방향 규칙**
 - ✅ 긍정 신호 → **+ 조정** (상향)
@@ -661,331 +593,172 @@ FMP 뉴스 헤드라인이 유일한 정보원입니다!
   "reasoning": "SEC 문서 $100M 투자 확정으로 강한 긍정 신호 (+0.30)"
 }`;
 
-    try {
-      const response = await this.chatModel.invoke([
-        new SystemMessage('You are a professional trader. Always respond with valid JSON only.'),
-        new HumanMessage(prompt)
-      ], {
-        response_format: { type: "json_object" }
-      });
-
-      const responseText = response.content as string || '{}';
-      console.log('🤖 GPT raw response:', responseText);
+    let gpt: GptJudgement | null = null;
+    let gptError: string | undefined;
+    let producedBy: { aiProvider: string; aiModel: string } | undefined;
 
-      const gptResponse = JSON.parse(responseText);
-      let gptAdjustment = gptResponse.adjustment || 0;
-      let aiReasoning = gptResponse.reasoning || '판단 없음';
-
-      // === 5단계: 안전장치 (±0.5 제한) ===
-      if (Math.abs(gptAdjustment) > 0.5) {
-        console.warn(`⚠️ GPT 조정이 ±0.5 초과 (${gptAdjustment.toFixed(2)}), 제한 적용`);
-        gptAdjustment = Math.sign(gptAdjustment) * 0.5;
-        aiReasoning += ` (조정값이 제한됨: ±0.5)`;
+    if (!config.components.gpt) {
+      // 전략에서 GPT 비활성화 → 호출 없이 객관적 점수만 사용
+      console.log('ℹ️ GPT 조정 비활성화 (전략 설정) - 객관적 점수로 판단');
+    } else {
+      try {
+        const completion = await provider.complete({
+          task: 'trade-adjustment',
+          systemPrompt: 'You are a professional trader. Always respond with valid JSON only.',
+          prompt,
+          temperature: ADJUSTMENT_TEMPERATURE,
+          maxTokens: ADJUSTMENT_MAX_TOKENS,
+          json: true
+        });
+        producedBy = { aiProvider: completion.provider, aiModel: completion.model };
+
+        const responseText = completion.text || '{}';
+        console.log(`🤖 GPT raw response (${completion.provider}/${completion.model}):`, responseText);
+
+        const gptResponse = JSON.parse(responseText);
+        gpt = {
+          adjustment: gptResponse.adjustment || 0,
+          reasoning: gptResponse.reasoning || '판단 없음'
+        };
+      } catch (error: any) {
+        // GPT 실패시 기초 점수 + 손절/익절만으로 판단
+        console.error('❌ GPT 분석 실패:', error);
+        gptError = error.message;
       }
+    }
 
-      // === 5-1단계: 포지션 비율 기반 조정값 감쇠 ===
-      if (currentPosition && currentRatio > 0.5 && gptAdjustment > 0) {
-        // 50% 이상 보유 중이면 긍정 조정값 감소
-        const dampingFactor = Math.max(0.3, 1 - ((currentRatio - 0.5) * 1.5)); // 50%부터 감쇠 시작
-        const originalAdjustment = gptAdjustment;
-        gptAdjustment *= dampingFactor;
-
-        aiReasoning += ` [포지션 ${(currentRatio * 100).toFixed(1)}%로 조정값 ${originalAdjustment.toFixed(2)} → ${gptAdjustment.toFixed(2)} 감쇠]`;
-        console.log(`⚖️ 포지션 감쇠: ${originalAdjustment.toFixed(2)} → ${gptAdjustment.toFixed(2)} (비율: ${(currentRatio * 100).toFixed(1)}%)`);
-      }
+    // === 5~7단계: 조정값 안전장치(±maxGptAdjustment, 포지션 감쇠), 손절/익절, 목표 기반 리밸런싱, 리미트 가격 ===
+    const decision = resolveUnifiedDecision(inputs, gpt, { config, gptError });
 
-      // 80% 이상 보유 시 추가 매수 차단
-      if (currentPosition && currentRatio >= 0.8 && gptAdjustment > 0) {
-        gptAdjustment = Math.min(0, gptAdjustment); // 긍정 조정 무효화
-        aiReasoning += ` [포지션 ${(currentRatio * 100).toFixed(1)}% 집중도 초과 - 추가 매수 차단]`;
-        console.warn(`⚠️ 집중도 초과: 포지션 ${(currentRatio * 100).toFixed(1)}% ≥ 80%, 추가 매수 차단`);
+    if (gpt) {
+      if (decision.gptAdjustment !== gpt.adjustment) {
+        console.warn(`⚖️ GPT 조정 제한/감쇠: ${gpt.adjustment.toFixed(2)} → ${decision.gptAdjustment.toFixed(2)} (포지션 비율: ${(currentRatio * 100).toFixed(1)}%)`);
       }
+      console.log(`🎯 GPT 조정: ${decision.gptAdjustment >= 0 ? '+' : ''}${decision.gptAdjustment.toFixed(2)}`);
+      console.log(`📈 최종 점수: ${decision.finalScore.toFixed(2)}`);
+      console.log(`💭 GPT 판단: ${decision.aiReasoning}`);
 
-      const finalScore = Math.max(-1.0, Math.min(1.0, baseScore + gptAdjustment));
-
-      console.log(`🎯 GPT 조정: ${gptAdjustment >= 0 ? '+' : ''}${gptAdjustment.toFixed(2)}`);
-      console.log(`📈 최종 점수: ${finalScore.toFixed(2)}`);
-      console.log(`💭 GPT 판단: ${aiReasoning}`);
-
-      // === 6단계: 목표 기반 리밸런싱 결정 ===
-      let action: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
-      let quantity = 0;
-      let sellType: 'FULL' | 'PARTIAL' | undefined;
-      let actionType: ActionType = 'HOLD';
-      let shouldTrade = false;
-
-      // 6-1. 현재 포지션 비율은 이미 line 412-413에서 계산됨 (currentRatio, currentPositionValue)
-
-      // 6-2. 목표 포지션 비율 계산
-      const targetRatio = this.calculateTargetPositionRatio(finalScore);
-
+      const targetRatio = calculateTargetPositionRatio(decision.finalScore, config.thresholds);
       console.log(`📊 포지션 리밸런싱 분석:`);
-      console.log(`   현재 포지션 비율: ${(currentRatio * 100).toFixed(1)}% (${currentPosition?.quantity || 0}주, $${currentPositionValue.toFixed(2)})`);
+      console.log(`   현재 포지션 비율: ${(currentRatio * 100).toFixed(1)}% (${currentPosition?.quantity || 0}주)`);
       console.log(`   목표 포지션 비율: ${targetRatio >= 0 ? (targetRatio * 100).toFixed(1) + '%' : '유지'}`);
+    }
 
-      // 6-3. Stop Loss / Take Profit 체크 (우선순위)
-      console.log(`\n🔍 포지션 & Stop Loss/Take Profit 체크 상세:`);
-      console.log(`   현재 포지션: ${currentPosition ? currentPosition.quantity + '주 @ $' + currentPosition.entryPrice.toFixed(2) : '없음'}`);
-      console.log(`   현재가: $${currentPrice.toFixed(2)}`);
-
-      if (currentPosition) {
-        console.log(`   진입가: $${currentPosition.entryPrice.toFixed(2)}`);
-        console.log(`   수익률: ${profitPercent > 0 ? '+' : ''}${profitPercent.toFixed(2)}%`);
-        console.log(`   미실현 손익: ${currentPosition.unrealizedPL >= 0 ? '+' : ''}$${currentPosition.unrealizedPL.toFixed(2)}`);
-        console.log(`   Stop Loss 기준: -${stopLoss}%`);
-        console.log(`   Take Profit 기준: +${takeProfit}%`);
-
-        const isStopLoss = profitPercent <= -stopLoss;
-        const isTakeProfit = profitPercent >= takeProfit;
-
-        console.log(`   Stop Loss 도달 여부: ${isStopLoss ? '⚠️ YES' : '✅ NO'} (${profitPercent.toFixed(2)}% <= -${stopLoss}%)`);
-        console.log(`   Take Profit 도달 여부: ${isTakeProfit ? '✅ YES' : '❌ NO'} (${profitPercent.toFixed(2)}% >= +${takeProfit}%)`);
-
-        if (isStopLoss) {
-          console.log(`\n⚠️ ===== STOP LOSS 도달 (-${stopLoss}%) ===== `);
-          console.log(`   현재 수익률: ${profitPercent.toFixed(2)}%`);
-          console.log(`   → 전량 매도 실행`);
-          action = 'SELL';
-          quantity = currentPosition.quantity;
-          sellType = 'FULL';
-          actionType = 'FULL_EXIT';
-          shouldTrade = true;
-          aiReasoning = `Stop Loss 도달 (${profitPercent.toFixed(2)}%). ${aiReasoning}`;
-        } else if (isTakeProfit) {
-          console.log(`\n✅ ===== TAKE PROFIT 도달 (+${takeProfit}%) =====`);
-          console.log(`   현재 수익률: ${profitPercent.toFixed(2)}%`);
-          console.log(`   → 전량 매도 실행`);
-          action = 'SELL';
-          quantity = currentPosition.quantity;
-          sellType = 'FULL';
-          actionType = 'FULL_EXIT';
-          shouldTrade = true;
-          aiReasoning = `Take Profit 도달 (${profitPercent.toFixed(2)}%). ${aiReasoning}`;
-        } else {
-          console.log(`   → Stop Loss/Take Profit 미도달, 목표 기반 리밸런싱 검토`);
-        }
-      } else {
-        console.log(`   → 보유 포지션 없음, 신규 진입 검토`);
-      }
-
-      // 6-4. Stop Loss/Take Profit 미도달시 목표 기반 리밸런싱
-      if (!shouldTrade && targetRatio >= 0) {
-        const deltaRatio = targetRatio - currentRatio;
-        console.log(`   델타 비율: ${(deltaRatio * 100).toFixed(1)}%`);
-
-        if (deltaRatio > 0.05) {
-          // 추가 매수 필요
-          action = 'BUY';
-          actionType = currentPosition ? 'ADD_TO_POSITION' : 'NEW_POSITION';
-
-          // Kelly Criterion으로 목표 수량 계산
-          const targetValue = fundAllocation * targetRatio;
-          const additionalValue = targetValue - currentPositionValue;
-          const limitPriceOffset = this.calculateLimitPriceOffset(finalScore);
-          const estimatedLimitPrice = currentPrice * (1 + limitPriceOffset);
-          quantity = Math.floor(additionalValue / estimatedLimitPrice);
-
-          if (quantity > 0) {
-            shouldTrade = true;
-            console.log(`📈 추가 매수: ${quantity}주 (목표 비율 ${(targetRatio * 100).toFixed(1)}% 도달)`);
-          }
-
-        } else if (deltaRatio < -0.05) {
-          // 일부 매도 필요
-          if (currentPosition && currentPosition.quantity > 0) {
-            action = 'SELL';
-
-            const targetValue = fundAllocation * targetRatio;
-            const reduceValue = currentPositionValue - targetValue;
-            quantity = Math.floor(reduceValue / currentPrice);
-
-            // 전량 매도 vs 일부 매도
-            if (quantity >= currentPosition.quantity || targetRatio === 0) {
-              quantity = currentPosition.quantity;
-              sellType = 'FULL';
-              actionType = 'FULL_EXIT';
-              console.log(`📉 전량 매도: ${quantity}주 (목표 비율 ${(targetRatio * 100).toFixed(1)}%)`);
-            } else if (quantity > 0) {
-              sellType = 'PARTIAL';
-              actionType = 'PARTIAL_EXIT';
-              console.log(`📉 일부 매도: ${quantity}주 / ${currentPosition.quantity}주 (목표 비율 ${(targetRatio * 100).toFixed(1)}% 도달)`);
-            }
-
-            if (quantity > 0) shouldTrade = true;
-          }
-
-        } else {
-          // 델타가 작음 → HOLD
-          action = 'HOLD';
-          actionType = 'HOLD';
-          quantity = 0;
-          console.log(`✋ 포지션 유지 (델타 ${(deltaRatio * 100).toFixed(1)}% < 임계값 ±5%)`);
-        }
-
-      } else if (!shouldTrade && targetRatio === -1) {
-        // 중립 신호 → HOLD
-        action = 'HOLD';
-        actionType = 'HOLD';
-        quantity = 0;
-        console.log(`✋ 포지션 유지 (중립 신호)`);
-      }
-
-      // === 7단계: 매수/매도 가격 계산 ===
-      let limitPrice: number | undefined;
-
-      if (action === 'BUY' && quantity > 0) {
-        // 기계적 오프셋: +0.15%
-        const buyOffset = 0.0015;
-        const rawLimitPrice = currentPrice * (1 + buyOffset);
-
-        // 🆕 Alpaca 가격 규칙 준수: $1 이상은 소수점 2자리, $1 미만은 4자리
-        limitPrice = currentPrice >= 1
-          ? parseFloat(rawLimitPrice.toFixed(2))
-          : parseFloat(rawLimitPrice.toFixed(4));
-
-        console.log(`💰 매수 전략:`);
-        console.log(`   현재가: $${currentPrice.toFixed(2)}`);
-        console.log(`   오프셋: +${(buyOffset * 100).toFixed(2)}%`);
-        console.log(`   계산된 가격: $${rawLimitPrice.toFixed(5)} → 반올림: $${limitPrice.toFixed(2)}`);
-        console.log(`   리미트 가격: $${limitPrice.toFixed(2)}`);
-        console.log(`   ${currentPosition ? '추가' : '신규'} 매수 수량: ${quantity}주`);
-        console.log(`   예상 투자액: $${(quantity * limitPrice).toFixed(2)}`);
-      } else if (action === 'SELL' && quantity > 0) {
-        // 기계적 오프셋: -0.10%
-        const sellOffset = -0.001;
-        const rawLimitPrice = currentPrice * (1 + sellOffset);
-
-        // 🆕 Alpaca 가격 규칙 준수: $1 이상은 소수점 2자리, $1 미만은 4자리
-        limitPrice = currentPrice >= 1
-          ? parseFloat(rawLimitPrice.toFixed(2))
-          : parseFloat(rawLimitPrice.toFixed(4));
-
-        console.log(`💰 매도 전략:`);
-        console.log(`   현재가: $${currentPrice.toFixed(2)}`);
-        console.log(`   오프셋: ${(sellOffset * 100).toFixed(2)}%`);
-        console.log(`   계산된 가격: $${rawLimitPrice.toFixed(5)} → 반올림: $${limitPrice.toFixed(2)}`);
-        console.log(`   리미트 가격: $${limitPrice.toFixed(2)}`);
-        console.log(`   매도 타입: ${sellType === 'FULL' ? '전량 매도' : '일부 매도'}`);
-        console.log(`   매도 수량: ${quantity}주 / ${currentPosition?.quantity}주`);
-        console.log(`   예상 매도액: $${(quantity * limitPrice).toFixed(2)}`);
-        console.log(`   예상 손익: ${profitPercent > 0 ? '+' : ''}${((limitPrice - (currentPosition?.entryPrice || 0)) * quantity).toFixed(2)}`);
-      }
-
-      console.log(`🎯 최종 결정: ${action} ${quantity > 0 ? `(${quantity}주)` : ''}`);
-
-      return {
-        shouldTrade,
-        action,
-        actionType,  // 🆕 액션 타입 추가
-        objectiveScore: {
-          sentiment: sentimentScore,
-          technical: technicalScore,
-          baseScore
-        },
-        gptAdjustment,
-        finalScore,
-        objectiveReasoning,
-        aiReasoning,
-        limitPrice,
-        quantity,
-        sellType
-      };
-
-    } catch (error: any) {
-      console.error('❌ GPT 분석 실패:', error);
-
-      // GPT 실패시 기본 로직
-      let action: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
-
-      if (currentPosition) {
-        // 보유 중: Stop Loss/Take Profit 체크
-        if (profitPercent <= -stopLoss) {
-          action = 'SELL';
-        } else if (profitPercent >= takeProfit) {
-          action = 'SELL';
-        } else if (baseScore >= 0.5) {
-          action = 'BUY'; // 추가 매수
-        }
-      } else {
-        // 보유 없음: 기초 점수로 판단
-        if (baseScore >= 0.2) {
-          action = 'BUY';
-        }
-      }
-
-      // 🆕 Alpaca 가격 규칙 준수: $1 이상은 소수점 2자리, $1 미만은 4자리
-      const roundedPrice = currentPrice >= 1
-        ? parseFloat(currentPrice.toFixed(2))
-        : parseFloat(currentPrice.toFixed(4));
-
-      // Map action to actionType
-      let actionType: ActionType;
-      if (action === 'BUY') {
-        actionType = currentPosition ? 'ADD_TO_POSITION' : 'NEW_POSITION';
-      } else if (action === 'SELL') {
-        actionType = 'FULL_EXIT';
-      } else {
-        actionType = 'HOLD';
-      }
-
-      return {
-        shouldTrade: action !== 'HOLD',
-        action,
-        actionType,
-        objectiveScore: {
-          sentiment: sentimentScore,
-          technical: technicalScore,
-          baseScore
-        },
-        gptAdjustment: 0,
-        finalScore: baseScore,
-        objectiveReasoning,
-        aiReasoning: `GPT 분석 실패 (${error.message}). 기본 로직으로 판단.`,
-        limitPrice: roundedPrice,
-        quantity: action === 'BUY' ? Math.floor((fundAllocation * 0.3) / currentPrice) : (currentPosition?.quantity || 0),
-        sellType: action === 'SELL' && currentPosition ? 'FULL' : undefined
-      };
+    if (decision.limitPrice !== undefined && decision.quantity) {
+      console.log(`💰 ${decision.action === 'BUY' ? '매수' : '매도'} 전략: ${decision.quantity}주 @ $${decision.limitPrice.toFixed(2)} (현재가 $${currentPrice.toFixed(2)})`);
     }
+    console.log(`🎯 최종 결정: ${decision.action} ${decision.quantity ? `(${decision.quantity}주)` : ''}`);
+
+    return {
+      ...decision,
+      ...producedBy,
+      decisionInputs: { ...inputs, gpt, gptError }
+    };
   }
 
   /**
-   * 리미트 오더 실행
+   * 리미트 오더 실행 (킬 스위치 해제 + 리스크 점검 통과 시에만 브로커로 전송)
+   * 주문 가격/유형은 SwingOrderExecutionStrategy가 결정하고 미체결 시 order-fills 크론이 재호가/시장가 전환
    */
   async executeLimitOrder(
     symbol: string,
     action: 'BUY' | 'SELL',
     quantity: number,
     limitPrice: number,
-    botId?: string
-  ) {
+    botId?: string,
+    signal?: { finalScore?: number; rsi?: number | null; interval?: string }
+  ): Promise<ExecutionSubmitResult & { riskRejection?: RiskCheckResult; tradingHalted?: boolean }> {
     console.log(`\n📝 리미트 오더 실행 중...`);
     console.log(`   종목: ${symbol}`);
     console.log(`   행동: ${action}`);
     console.log(`   수량: ${quantity}주`);
     console.log(`   리미트 가격: $${limitPrice.toFixed(2)}`);
 
+    // 브로커에 주문을 보낸 뒤의 실패만 연속 주문 실패로 집계
+    let submitted = false;
+
     try {
-      const side = action === 'BUY' ? 'buy' : 'sell';
+      // 🛑 킬 스위치: 전체 매매 정지 중이면 어떤 주문도 보내지 않음
+      const control = await killSwitchService.getControl();
+      if (control.halted) {
+        return {
+          success: false,
+          error: `Trading halted: ${control.haltReason}`,
+          message: `${action} 리미트 오더 차단 (전체 매매 정지)`,
+          tradingHalted: true
+        };
+      }
 
-      const result = await alpacaTradingService.placeLimitOrder(
+      const broker = await getBrokerForBot(botId);
+
+      // 🎯 주문 집행 전략: 점수/RSI/변동성 기반 지정가 (손절 청산은 시장가)
+      const plan = await orderExecutionService.planOrder({
         symbol,
+        action,
         quantity,
-        side,
         limitPrice,
-        botId
-      );
+        botId,
+        ...signal
+      }, broker);
+      const orderPrice = plan.order.limit_price ?? plan.referencePrice;
+      console.log(`   집행 주문: ${plan.order.type === 'market' ? '시장가' : `지정가 $${orderPrice.toFixed(2)}`}`);
+
+      // 🛡️ 사전 리스크 점검 (점검 자체가 실패하면 주문하지 않음)
+      const riskCheck = await riskEngineService.checkOrder({ symbol, side: action, quantity, price: orderPrice, botId });
+      if (!riskCheck.approved) {
+        return {
+          success: false,
+          error: riskCheck.message,
+          message: `${action} 리미트 오더 차단 (리스크 한도: ${riskCheck.rule})`,
+          riskRejection: riskCheck
+        };
+      }
+
+      // 📉 서킷 브레이커: 당일 최고 자산 대비 하락폭 점검
+      const account = await broker.getAccount();
+      if (await killSwitchService.checkEquityDrawdown(broker.name, account)) {
+        return {
+          success: false,
+          error: 'Trading halted: intraday equity drawdown limit reached',
+          message: `${action} 리미트 오더 차단 (전체 매매 정지)`,
+          tradingHalted: true
+        };
+      }
+
+      submitted = true;
+      const result = await orderExecutionService.submit(plan, broker, botId);
+
+      if (!result.success || !result.orderId) {
+        throw new Error(result.error || result.message || 'Broker did not return an order ID');
+      }
 
       console.log(`✅ 리미트 오더 성공: ${result.orderId}`);
+      try {
+        await killSwitchService.recordOrderResult(true);
+      } catch (breakerError) {
+        console.error('⚠️ 주문 성공 집계 실패:', breakerError);
+      }
 
       return {
         success: true,
         orderId: result.orderId,
-        message: `${action} 리미트 오더 실행 완료 (${quantity}주 @ $${limitPrice.toFixed(2)})`
+        orderType: result.orderType,
+        limitPrice: result.limitPrice,
+        executionId: result.executionId,
+        message: `${action} ${result.orderType === 'market' ? '시장가' : '리미트'} 오더 실행 완료 (${quantity}주 @ $${orderPrice.toFixed(2)})`
       };
 
     } catch (error: any) {
       console.error(`❌ 리미트 오더 실패:`, error);
 
+      if (submitted) {
+        try {
+          await killSwitchService.recordOrderResult(false, error.message);
+        } catch (breakerError) {
+          console.error('⚠️ 주문 실패 집계 실패:', breakerError);
+        }
+      }
+
       return {
         success: false,
         error: error.message || '리미트 오더 실행 실패',
@@ -1,5 +1,8 @@
 // Alpaca Trading Service - Execute real trades via Alpaca API
 import { env } from '@/lib/config/env';
+import { roundOrderPrice } from '@/lib/utils/protectiveOrders';
+import { buildCacheKey, dataGatewayService } from './dataGatewayService';
+import { providerFixtureService } from './providerFixtureService';
 
 export interface AlpacaConfig {
   apiKey: string;
@@ -10,11 +13,17 @@ export interface AlpacaConfig {
 export interface TradeRequest {
   symbol: string;
   side: 'buy' | 'sell';
-  type: 'market' | 'limit';
+  type: 'market' | 'limit' | 'stop' | 'trailing_stop';
   qty: number;
   price?: number; // For limit orders
+  stopPrice?: number; // For stop orders
+  trailPercent?: number; // For trailing_stop orders (3 = 3% below the high-water mark)
   timeInForce?: 'day' | 'gtc' | 'ioc' | 'fok';
   extendedHours?: boolean; // Enable pre-market and after-hours trading
+  // Protective legs: bracket (entry + take profit + stop), oto (entry + one leg), oco (take profit limit + stop)
+  orderClass?: 'simple' | 'bracket' | 'oto' | 'oco';
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
 }
 
 export interface TradeResponse {
@@ -45,7 +54,7 @@ export interface Position {
   currentPrice: number;  // 실시간 현재가
 }
 
-class AlpacaTradingService {
+export class AlpacaTradingService {
   private config: AlpacaConfig;
 
   constructor() {
@@ -74,7 +83,25 @@ class AlpacaTradingService {
     };
   }
 
+  /**
+   * Account reads (GET) go through the fixture layer (PROVIDER_FIXTURE_MODE);
+   * orders are never recorded or replayed
+   */
   private async makeRequest(endpoint: string, method: 'GET' | 'POST' | 'DELETE' = 'GET', body?: any): Promise<any> {
+    if (method === 'GET') {
+      return providerFixtureService.resolve(
+        { key: buildCacheKey('alpaca', endpoint), provider: 'alpaca', endpoint },
+        () => this.send(endpoint, method, body)
+      );
+    }
+
+    if (providerFixtureService.isReplaying()) {
+      throw new Error(`Alpaca ${method} ${endpoint} is not available in fixture replay mode (use BROKER_ADAPTER=simulated)`);
+    }
+    return this.send(endpoint, method, body);
+  }
+
+  private async send(endpoint: string, method: 'GET' | 'POST' | 'DELETE', body?: any): Promise<any> {
     try {
       const url = `${this.config.baseUrl}${endpoint}`;
       console.log(`📡 Alpaca API ${method} ${url}`);
@@ -89,7 +116,8 @@ class AlpacaTradingService {
 
       console.log(`📊 Response Status: ${response.status} ${response.statusText}`);
 
-      const data = await response.json();
+      // DELETE /v2/orders/{id} responds 204 without a body
+      const data = response.status === 204 ? null : await response.json();
 
       if (!response.ok) {
         // 404 position not found는 정상 케이스이므로 에러 로그를 줄임
@@ -168,19 +196,26 @@ class AlpacaTradingService {
       console.log(`💰 Fetching latest Alpaca price for ${symbol}...`);
 
       const url = `https://data.alpaca.markets/v2/stocks/${symbol}/bars/latest?feed=iex`;
-      const response = await fetch(url, {
-        headers: {
-          'APCA-API-KEY-ID': this.config.apiKey,
-          'APCA-API-SECRET-KEY': this.config.secretKey
-        }
+      // 주문 가격에 쓰이므로 캐시하지 않음 (예산과 사용량 로그만 적용)
+      const data = await dataGatewayService.request({
+        provider: 'alpaca',
+        endpoint: '/v2/stocks/bars/latest',
+        params: { symbol, feed: 'iex' },
+        fetcher: async () => {
+          const response = await fetch(url, {
+            headers: {
+              'APCA-API-KEY-ID': this.config.apiKey,
+              'APCA-API-SECRET-KEY': this.config.secretKey
+            }
+          });
+
+          if (!response.ok) {
+            throw new Error(`Alpaca bars request failed: ${response.status}`);
+          }
+
+          return response.json();
+        },
       });
-
-      if (!response.ok) {
-        console.warn(`⚠️ Alpaca bars request failed: ${response.status}`);
-        return null;
-      }
-
-      const data = await response.json();
       const closePrice = data.bar?.c;
 
       if (closePrice && closePrice > 0) {
@@ -263,6 +298,12 @@ class AlpacaTradingService {
         type: trade.type,
         time_in_force: trade.timeInForce || 'day',
         ...(finalPrice && { limit_price: finalPrice.toString() }),  // 🆕 반올림된 가격 사용
+        ...(trade.type === 'stop' && trade.stopPrice && { stop_price: roundOrderPrice(trade.stopPrice).toString() }),
+        ...(trade.type === 'trailing_stop' && trade.trailPercent && { trail_percent: trade.trailPercent.toString() }),
+        // 보호 주문 레그 (브래킷/OTO/OCO)
+        ...(trade.orderClass && trade.orderClass !== 'simple' && { order_class: trade.orderClass }),
+        ...(trade.orderClass && trade.takeProfitPrice && { take_profit: { limit_price: roundOrderPrice(trade.takeProfitPrice).toString() } }),
+        ...(trade.orderClass && trade.stopLossPrice && { stop_loss: { stop_price: roundOrderPrice(trade.stopLossPrice).toString() } }),
         ...(trade.extendedHours && { extended_hours: true })  // 🆕 시간외 거래 지원
       };
 
@@ -352,6 +393,17 @@ class AlpacaTradingService {
     }
   }
 
+  // Cancel a single open order (Alpaca keeps any partial fill)
+  async cancelOrder(orderId: string): Promise<void> {
+    try {
+      await this.makeRequest(`/v2/orders/${orderId}`, 'DELETE');
+      console.log(`✅ Order ${orderId} cancelled`);
+    } catch (error: any) {
+      console.error(`❌ Failed to cancel order ${orderId}:`, error);
+      throw new Error(`Failed to cancel order: ${error.message}`);
+    }
+  }
+
   // Cancel all open orders
   async cancelAllOrders(): Promise<void> {
     try {
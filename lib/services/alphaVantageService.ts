@@ -1,5 +1,8 @@
 import { prisma } from '@/lib/prisma';
 import { getAlphaVantageKey } from '@/lib/config/env';
+import { API } from '@/lib/config/trading';
+import { assertGlobalQuote, assertTimeSeries } from '@/lib/utils/alphaVantageResponse';
+import { dataGatewayService } from './dataGatewayService';
 
 class AlphaVantageService {
   private intervalId: NodeJS.Timeout | null = null;
@@ -15,17 +18,20 @@ class AlphaVantageService {
     const url = `https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${apiKey}`;
 
     try {
-      const response = await fetch(url);
-      const data = await response.json();
-
-      if (data['Error Message'] || data['Note']) {
-        throw new Error(`Alpha Vantage error: ${data['Error Message'] || data['Note']}`);
-      }
+      const data = await dataGatewayService.request({
+        provider: 'alphaVantage',
+        endpoint: 'GLOBAL_QUOTE',
+        params: { symbol },
+        ttlMs: API.CACHE_TTLS.QUOTE,
+        fetcher: async () => {
+          const response = await fetch(url);
+          return response.json();
+        },
+        // 한도 안내(Information 등)나 빈 Global Quote는 캐시하지 않음 (fetchCurrentPrice와 같은 키)
+        validate: assertGlobalQuote,
+      });
 
       const quote = data['Global Quote'];
-      if (!quote) {
-        throw new Error('No quote data received');
-      }
 
       return {
         symbol: symbol.toUpperCase(),
@@ -90,13 +96,14 @@ class AlphaVantageService {
     console.log('Starting market data polling (15-minute intervals)');
     this.isPolling = true;
 
+    // 폴링은 백그라운드 우선순위 (봇 실행 몫의 예산은 남겨둠)
+    const poll = () => dataGatewayService.runWithPriority('BACKGROUND', () => this.updateMarketData());
+
     // Fetch immediately
-    this.updateMarketData();
+    poll();
 
     // Then poll every 15 minutes
-    this.intervalId = setInterval(() => {
-      this.updateMarketData();
-    }, this.POLL_INTERVAL);
+    this.intervalId = setInterval(poll, this.POLL_INTERVAL);
   }
 
   stopPolling() {
@@ -141,16 +148,17 @@ class AlphaVantageService {
     const url = `https://www.alphavantage.co/query?function=TIME_SERIES_DAILY&symbol=${symbol}&outputsize=${outputsize}&apikey=${apiKey}`;
 
     try {
-      const response = await fetch(url);
-      const data = await response.json();
-
-      if (data['Error Message']) {
-        throw new Error(`Alpha Vantage error: ${data['Error Message']}`);
-      }
-
-      if (data['Note']) {
-        throw new Error(`Alpha Vantage API limit: ${data['Note']}`);
-      }
+      const data = await dataGatewayService.request({
+        provider: 'alphaVantage',
+        endpoint: 'TIME_SERIES_DAILY',
+        params: { symbol, outputsize },
+        ttlMs: API.CACHE_TTLS.DAILY_BARS,
+        fetcher: async () => {
+          const response = await fetch(url);
+          return response.json();
+        },
+        validate: data => assertTimeSeries(data, 'Time Series (Daily)'),
+      });
 
       const timeSeries = data['Time Series (Daily)'];
       if (!timeSeries) {
@@ -180,6 +188,94 @@ class AlphaVantageService {
     }
   }
 
+  /**
+   * Fetch intraday historical data from Alpha Vantage
+   * Alpha Vantage timestamps are US/Eastern wall-clock times - converted to UTC here
+   * outputsize=full returns roughly the last 30 days
+   */
+  async fetchIntradayTimeSeries(
+    symbol: string,
+    interval: '1min' | '5min' | '15min' | '60min',
+    outputsize: 'compact' | 'full' = 'full'
+  ) {
+    const apiKey = getAlphaVantageKey();
+    if (!apiKey) {
+      throw new Error('Alpha Vantage API key not configured');
+    }
+
+    const url = `https://www.alphavantage.co/query?function=TIME_SERIES_INTRADAY&symbol=${symbol}&interval=${interval}&outputsize=${outputsize}&apikey=${apiKey}`;
+
+    try {
+      const data = await dataGatewayService.request({
+        provider: 'alphaVantage',
+        endpoint: 'TIME_SERIES_INTRADAY',
+        params: { symbol, interval, outputsize },
+        ttlMs: API.CACHE_TTLS.INTRADAY_BARS,
+        fetcher: async () => {
+          const response = await fetch(url);
+          return response.json();
+        },
+        validate: data => assertTimeSeries(data, `Time Series (${interval})`),
+      });
+
+      const timeSeries = data[`Time Series (${interval})`];
+      if (!timeSeries) {
+        throw new Error('No time series data received');
+      }
+
+      return Object.entries(timeSeries).map(([dateTimeStr, values]: [string, any]) => ({
+        symbol: symbol.toUpperCase(),
+        interval,
+        timestamp: this.easternToUtc(dateTimeStr),
+        open: parseFloat(values['1. open']),
+        high: parseFloat(values['2. high']),
+        low: parseFloat(values['3. low']),
+        close: parseFloat(values['4. close']),
+        volume: parseFloat(values['5. volume']),
+        isValidated: true,
+        hasGap: false,
+        isAnomaly: false,
+        source: 'ALPHA_VANTAGE',
+      }));
+    } catch (error) {
+      console.error(`Error fetching ${interval} time series for ${symbol}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch and cache intraday data for a symbol (skips bars already cached)
+   */
+  async fetchAndCacheIntradayData(
+    symbol: string,
+    interval: '1min' | '5min' | '15min' | '60min'
+  ): Promise<number> {
+    console.log(`🔄 Fetching ${interval} data for ${symbol} from Alpha Vantage...`);
+
+    try {
+      const bars = await this.fetchIntradayTimeSeries(symbol, interval, 'full');
+
+      await prisma.marketData.createMany({
+        data: bars,
+        skipDuplicates: true,
+      });
+
+      console.log(`✅ Cached ${bars.length} ${interval} bars for ${symbol}`);
+      return bars.length;
+    } catch (error) {
+      console.error(`Failed to fetch ${interval} data for ${symbol}:`, error);
+      throw error;
+    }
+  }
+
+  // "2024-01-02 15:45:00" (US/Eastern) -> UTC Date
+  private easternToUtc(dateTimeStr: string): Date {
+    const wallClock = new Date(dateTimeStr.replace(' ', 'T') + 'Z');
+    const eastern = new Date(wallClock.toLocaleString('en-US', { timeZone: 'America/New_York' }));
+    const utc = new Date(wallClock.toLocaleString('en-US', { timeZone: 'UTC' }));
+    return new Date(wallClock.getTime() + (utc.getTime() - eastern.getTime()));
+  }
+
   /**
    * Fetch and cache historical data for a symbol
    * Saves to database to avoid repeated API calls
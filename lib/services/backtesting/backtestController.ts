@@ -5,6 +5,8 @@
  * - Manages chronological time progression
  * - Coordinates data fetching, signal generation, and order execution
  * - Integrates with HistoricalDataProvider, VirtualPortfolioEngine, and PerformanceAnalytics
+ * - Models the live bots' broker-side exits: stop / take-profit / trailing legs fill intrabar
+ * - Partial take-profit levels and staged entries like live bots (positionScaling)
  *
  * Reference: docs/backtesting/PHASE2_VIRTUAL_PORTFOLIO_SIMULATOR.md
  */
@@ -14,6 +16,18 @@ import { HistoricalDataProvider } from './historicalDataProvider';
 import { VirtualPortfolioEngine } from './virtualPortfolioEngine';
 import { PerformanceAnalytics } from './performanceAnalytics';
 import { TimeHorizon } from '@prisma/client';
+import { env } from '@/lib/config/env';
+import { prepareStrategy, evaluateStrategy, computeIndicatorSeries } from '@/lib/utils/strategyEngine';
+import {
+  ProtectiveOrderState,
+  resolveProtectionLevels,
+  raiseStopToBreakeven,
+  openProtection,
+  checkProtectiveFill,
+  advanceHighWaterMark,
+  describeProtectiveFill,
+} from '@/lib/utils/protectiveOrders';
+import { resolveScalingPlan, initialEntryQuantity } from '@/lib/utils/positionScaling';
 import {
   emitBacktestStarted,
   emitBacktestProgress,
@@ -34,6 +48,19 @@ export interface BacktestConfig {
   positionSize: number;
   slippageBps: number;
   commissionPerTrade: number;
+  protectiveOrders?: boolean; // Broker-side exit legs like live bots (default: PROTECTIVE_ORDERS_ENABLED)
+
+  // Optimization trials: strategy definition with swept parameters applied, linked to the job
+  strategyOverrides?: {
+    entryConditions?: any;
+    exitConditions?: any;
+    stopLoss?: number;
+    takeProfit?: number;
+  };
+  optimizationJobId?: string;
+  parameters?: Record<string, number | string | boolean>;
+  windowIndex?: number;
+  sampleType?: 'IN_SAMPLE' | 'OUT_OF_SAMPLE';
 }
 
 export class BacktestController {
@@ -81,6 +108,10 @@ export class BacktestController {
           positionSize: config.positionSize,
           slippageBps: config.slippageBps,
           commissionPerTrade: config.commissionPerTrade,
+          optimizationJobId: config.optimizationJobId,
+          parameters: config.parameters,
+          windowIndex: config.windowIndex,
+          sampleType: config.sampleType,
           status: 'RUNNING',
         },
       });
@@ -113,6 +144,17 @@ export class BacktestController {
 
       console.log(`✅ Strategy loaded: ${strategy.name}`);
 
+      const overrides = config.strategyOverrides || {};
+      const preparedStrategy = prepareStrategy({
+        entryConditions: overrides.entryConditions ?? strategy.entryConditions,
+        exitConditions: overrides.exitConditions ?? strategy.exitConditions,
+        stopLoss: overrides.stopLoss ?? strategy.stopLoss,
+        takeProfit: overrides.takeProfit ?? strategy.takeProfit,
+        timeHorizon: config.timeHorizon,
+        decisionConfig: strategy.decisionConfig,
+      });
+      const scalingPlan = resolveScalingPlan(preparedStrategy);
+
       // 3. Load historical OHLCV data (automatically fetches from API if not cached)
       console.log(`\n📊 Loading historical data...`);
       const historicalBars = await this.dataProvider.loadHistoricalBars({
@@ -137,12 +179,89 @@ export class BacktestController {
       console.log(`\n🔄 Running simulation...`);
       let barsProcessed = 0;
       const totalBars = historicalBars.length;
+      const useProtectiveOrders = config.protectiveOrders ?? env.PROTECTIVE_ORDERS_ENABLED;
+      let protection: ProtectiveOrderState | null = null;
+
+      // Indicator series are computed once for the whole run and indexed per bar
+      const indicatorSeries = computeIndicatorSeries(
+        historicalBars,
+        preparedStrategy.entryIndicators.concat(preparedStrategy.exitIndicators)
+      );
 
       for (let i = 0; i < historicalBars.length; i++) {
         const bar = historicalBars[i];
         const currentPrice = bar.close;
         const currentTimestamp = bar.timestamp;
 
+        // Protective legs fill intrabar, before the strategy sees the close
+        const protectedPosition = this.portfolio.getPosition(config.symbol);
+        if (protection && protectedPosition?.isOpen) {
+          const fill = checkProtectiveFill(protection, bar);
+
+          if (fill) {
+            const trade = await this.portfolio.executeSellOrder({
+              backtestRunId: backtestRun.id,
+              symbol: config.symbol,
+              targetPrice: fill.price,
+              signalBar: currentTimestamp,
+              executionBar: currentTimestamp,
+              exitReason: describeProtectiveFill(fill),
+              quantity: protectedPosition.quantity,
+            });
+            protection = null;
+
+            emitBacktestTradeExecuted({
+              backtestRunId: backtestRun.id,
+              tradeId: trade.id,
+              side: 'SELL',
+              symbol: config.symbol,
+              quantity: trade.quantity,
+              executedPrice: trade.executedPrice,
+              realizedPL: trade.realizedPL,
+              realizedPLPct: trade.realizedPLPct,
+              timestamp: currentTimestamp,
+            });
+          } else {
+            protection = advanceHighWaterMark(protection, bar);
+          }
+        }
+
+        // Partial take-profits and staged entries at the close
+        const scaled = await this.portfolio.executeScaling({
+          backtestRunId: backtestRun.id,
+          symbol: config.symbol,
+          plan: scalingPlan,
+          price: currentPrice,
+          bar: currentTimestamp,
+        });
+        if (scaled) {
+          const scaledPosition = this.portfolio.getPosition(config.symbol);
+          if (!scaledPosition?.isOpen) {
+            protection = null;
+          } else if (scaled.action.side === 'SELL') {
+            protection = protection &&
+              raiseStopToBreakeven(protection, this.portfolio.getBreakevenPrice(config.symbol, scalingPlan));
+          } else if (useProtectiveOrders) {
+            // Added tranche → legs re-placed around the new average entry
+            protection = openProtection(
+              resolveProtectionLevels(preparedStrategy, scaledPosition.avgEntryPrice, historicalBars.slice(0, i + 1)),
+              scaled.trade.executedPrice
+            );
+          }
+
+          emitBacktestTradeExecuted({
+            backtestRunId: backtestRun.id,
+            tradeId: scaled.trade.id,
+            side: scaled.action.side,
+            symbol: config.symbol,
+            quantity: scaled.trade.quantity,
+            executedPrice: scaled.trade.executedPrice,
+            realizedPL: scaled.trade.realizedPL,
+            realizedPLPct: scaled.trade.realizedPLPct,
+            timestamp: currentTimestamp,
+          });
+        }
+
         // Update position prices for all open positions
         const openPosition = this.portfolio.getPosition(config.symbol);
         if (openPosition?.isOpen) {
@@ -153,16 +272,22 @@ export class BacktestController {
           );
         }
 
+        // Evaluate strategy on all bars up to and including the current bar
+        const decision = evaluateStrategy(
+          preparedStrategy,
+          { bars: historicalBars.slice(0, i + 1), indicators: indicatorSeries[i] },
+          openPosition?.isOpen
+            ? {
+                entryPrice: openPosition.avgEntryPrice,
+                entryTime: openPosition.entryBar,
+                breakevenPrice: this.portfolio.getBreakevenPrice(config.symbol, scalingPlan),
+              }
+            : null
+        );
+
         // Check exit conditions (if we have an open position)
         if (openPosition?.isOpen) {
-          const shouldExit = await this.evaluateExitSignal(
-            strategy,
-            bar,
-            historicalBars.slice(0, i + 1),
-            openPosition
-          );
-
-          if (shouldExit) {
+          if (decision.action === 'SELL') {
             // Exit position
             const trade = await this.portfolio.executeSellOrder({
               backtestRunId: backtestRun.id,
@@ -170,9 +295,10 @@ export class BacktestController {
               targetPrice: currentPrice,
               signalBar: currentTimestamp,
               executionBar: currentTimestamp,
-              exitReason: 'STRATEGY_EXIT',
+              exitReason: decision.reason,
               quantity: openPosition.quantity,
             });
+            protection = null;
 
             // Emit trade executed event
             emitBacktestTradeExecuted({
@@ -191,20 +317,14 @@ export class BacktestController {
 
         // Check entry conditions (if we have no position)
         if (!openPosition || !openPosition.isOpen) {
-          const shouldEnter = await this.evaluateEntrySignal(
-            strategy,
-            bar,
-            historicalBars.slice(0, i + 1)
-          );
-
-          if (shouldEnter) {
-            // Calculate position size
-            const quantity = this.calculatePositionSize(
+          if (decision.action === 'BUY') {
+            // Calculate position size (first tranche only with staged entries)
+            const quantity = initialEntryQuantity(scalingPlan, BacktestController.calculatePositionSize(
               config.positionSizing,
               config.positionSize,
               currentPrice,
               this.portfolio.getCash()
-            );
+            ));
 
             if (quantity > 0) {
               // Enter position
@@ -215,9 +335,17 @@ export class BacktestController {
                 targetPrice: currentPrice,
                 signalBar: currentTimestamp,
                 executionBar: currentTimestamp,
-                entryReason: 'STRATEGY_ENTRY',
+                entryReason: decision.reason,
+                technicalScore: decision.technicalScore,
               });
 
+              protection = useProtectiveOrders
+                ? openProtection(
+                    resolveProtectionLevels(preparedStrategy, trade.executedPrice, historicalBars.slice(0, i + 1)),
+                    trade.executedPrice
+                  )
+                : null;
+
               // Emit trade executed event
               emitBacktestTradeExecuted({
                 backtestRunId: backtestRun.id,
@@ -355,84 +483,10 @@ export class BacktestController {
     }
   }
 
-  /**
-   * Evaluate entry signal based on strategy conditions
-   *
-   * TODO: This is a simplified implementation. In a full system, this should:
-   * 1. Extract exact logic from botTestService.ts
-   * 2. Calculate technical indicators from historical bars
-   * 3. Evaluate all strategy conditions
-   * 4. Return true if all entry conditions are met
-   *
-   * For now, this is a placeholder that always returns false.
-   */
-  private async evaluateEntrySignal(
-    strategy: any,
-    currentBar: any,
-    historicalBars: any[]
-  ): Promise<boolean> {
-    // Placeholder: Simple price-based entry
-    // In real implementation, this would evaluate strategy.entryConditions
-    // using technical indicators (RSI, SMA, MACD, etc.) from historicalBars
-
-    // For testing: enter on every 50th bar (to generate some trades)
-    if (historicalBars.length % 50 === 0) {
-      return true;
-    }
-
-    return false;
-  }
-
-  /**
-   * Evaluate exit signal based on strategy conditions and position state
-   *
-   * TODO: This is a simplified implementation. In a full system, this should:
-   * 1. Check stop loss / take profit levels
-   * 2. Evaluate exit conditions from strategy
-   * 3. Calculate technical indicators
-   * 4. Return true if any exit condition is met
-   *
-   * For now, this is a placeholder that exits after 10 bars or based on simple price movement.
-   */
-  private async evaluateExitSignal(
-    strategy: any,
-    currentBar: any,
-    historicalBars: any[],
-    position: any
-  ): Promise<boolean> {
-    // Placeholder: Simple holding period exit
-    // In real implementation, this would:
-    // - Check stop loss: currentBar.close < position.avgEntryPrice * (1 - stopLossPercent/100)
-    // - Check take profit: currentBar.close > position.avgEntryPrice * (1 + takeProfitPercent/100)
-    // - Evaluate strategy exit conditions
-
-    // Simple holding period: exit after 10 bars
-    const holdingPeriod = historicalBars.length - historicalBars.findIndex(
-      (b) => b.timestamp.getTime() === position.entryBar.getTime()
-    );
-
-    if (holdingPeriod >= 10) {
-      return true;
-    }
-
-    // Simple profit target: exit if 5% profit
-    const profitPct = ((currentBar.close - position.avgEntryPrice) / position.avgEntryPrice) * 100;
-    if (profitPct >= 5) {
-      return true;
-    }
-
-    // Simple stop loss: exit if 2% loss
-    if (profitPct <= -2) {
-      return true;
-    }
-
-    return false;
-  }
-
   /**
    * Calculate position size based on strategy
    */
-  private calculatePositionSize(
+  static calculatePositionSize(
     positionSizing: string,
     positionSize: number,
     currentPrice: number,
@@ -5,9 +5,15 @@
  */
 
 export { BacktestController, backtestController } from './backtestController';
+export { PortfolioBacktestController, portfolioBacktestController } from './portfolioBacktestController';
+export { WalkForwardOptimizer, walkForwardOptimizer } from './walkForwardOptimizer';
 export { VirtualPortfolioEngine } from './virtualPortfolioEngine';
 export { PerformanceAnalytics, performanceAnalytics } from './performanceAnalytics';
 export { HistoricalDataProvider, historicalDataProvider } from './historicalDataProvider';
 export { BacktestAlertService, backtestAlertService } from './backtestAlertService';
 
 export type { BacktestConfig } from './backtestController';
+export type { PortfolioBacktestConfig, PortfolioBacktestLeg } from './portfolioBacktestController';
+export type { CorrelationMatrix } from './portfolioTimeline';
+export type { OptimizationJobConfig, OptimizationObjective } from './walkForwardOptimizer';
+export type { ParameterSpace, ParameterRange, ParameterSet } from './parameterSpace';
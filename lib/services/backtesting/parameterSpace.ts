@@ -0,0 +1,192 @@
+/**
+ * Parameter Space
+ *
+ * Pure helpers for strategy optimization:
+ * - Expands parameter ranges into grid or random trial sets
+ * - Applies a parameter set to stored strategy conditions (dot paths)
+ * - Builds rolling in-sample / out-of-sample walk-forward windows
+ *
+ * No database access - used by WalkForwardOptimizer.
+ */
+
+/**
+ * Range for one parameter, keyed by a dot path into the strategy definition:
+ *   "stopLoss", "entryConditions.rsi.value", "entryConditions.rules.0.value"
+ */
+export type ParameterRange =
+  | { min: number; max: number; step: number }
+  | { values: Array<number | string | boolean> };
+
+export type ParameterSpace = Record<string, ParameterRange>;
+
+export type ParameterSet = Record<string, number | string | boolean>;
+
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: Date;
+  inSampleEnd: Date;
+  outOfSampleStart: Date;
+  outOfSampleEnd: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Candidate values for one range (min..max inclusive by step)
+ */
+export function rangeValues(range: ParameterRange): Array<number | string | boolean> {
+  if ('values' in range) {
+    return range.values.slice();
+  }
+
+  if (range.step <= 0 || range.max < range.min) {
+    throw new Error(`Invalid range: min=${range.min}, max=${range.max}, step=${range.step}`);
+  }
+
+  const values: number[] = [];
+  const count = Math.floor((range.max - range.min) / range.step + 1e-9);
+  for (let i = 0; i <= count; i++) {
+    // Round away floating point drift (e.g. 0.1 steps)
+    values.push(parseFloat((range.min + i * range.step).toFixed(10)));
+  }
+  return values;
+}
+
+/**
+ * Number of grid combinations without materializing them
+ */
+export function countGrid(space: ParameterSpace): number {
+  return Object.keys(space).reduce((total, key) => total * rangeValues(space[key]).length, 1);
+}
+
+/**
+ * Cartesian product of all parameter ranges
+ */
+export function expandGrid(space: ParameterSpace): ParameterSet[] {
+  return Object.keys(space).reduce<ParameterSet[]>(
+    (sets, key) => {
+      const values = rangeValues(space[key]);
+      const expanded: ParameterSet[] = [];
+      sets.forEach(set => {
+        values.forEach(value => expanded.push({ ...set, [key]: value }));
+      });
+      return expanded;
+    },
+    [{}]
+  );
+}
+
+/**
+ * Distinct random parameter sets (seeded, so a job can be re-run with the same trials)
+ */
+export function sampleRandom(space: ParameterSpace, count: number, seed: number = 1): ParameterSet[] {
+  const keys = Object.keys(space);
+  const valuesByKey = keys.map(key => rangeValues(space[key]));
+  const limit = Math.min(count, countGrid(space));
+  const random = mulberry32(seed);
+
+  const sets: ParameterSet[] = [];
+  const seen: Record<string, boolean> = {};
+
+  while (sets.length < limit) {
+    const set: ParameterSet = {};
+    keys.forEach((key, i) => {
+      const values = valuesByKey[i];
+      set[key] = values[Math.floor(random() * values.length)];
+    });
+
+    const id = JSON.stringify(set);
+    if (!seen[id]) {
+      seen[id] = true;
+      sets.push(set);
+    }
+  }
+
+  return sets;
+}
+
+/**
+ * Return a copy of the strategy definition with parameter values written at their dot paths
+ * JSON-string conditions (as stored by some strategy wizards) are parsed first.
+ */
+export function applyParameters<T extends Record<string, any>>(definition: T, parameters: ParameterSet): T {
+  const result: any = {};
+  Object.keys(definition).forEach(key => {
+    const value = definition[key];
+    result[key] = typeof value === 'string' && (key === 'entryConditions' || key === 'exitConditions')
+      ? JSON.parse(value)
+      : cloneJson(value);
+  });
+
+  Object.keys(parameters).forEach(path => {
+    const parts = path.split('.');
+    let target = result;
+
+    for (let i = 0; i < parts.length - 1; i++) {
+      if (target[parts[i]] === undefined || target[parts[i]] === null) {
+        target[parts[i]] = /^\d+$/.test(parts[i + 1]) ? [] : {};
+      }
+      target = target[parts[i]];
+    }
+
+    target[parts[parts.length - 1]] = parameters[path];
+  });
+
+  return result;
+}
+
+/**
+ * Rolling windows: [in-sample][out-of-sample], advanced by stepDays until the OOS window passes endDate
+ */
+export function buildWalkForwardWindows(
+  startDate: Date,
+  endDate: Date,
+  inSampleDays: number,
+  outOfSampleDays: number,
+  stepDays: number
+): WalkForwardWindow[] {
+  if (inSampleDays <= 0 || outOfSampleDays <= 0 || stepDays <= 0) {
+    throw new Error('Window lengths must be positive');
+  }
+
+  const windows: WalkForwardWindow[] = [];
+  let inSampleStart = startDate.getTime();
+
+  while (inSampleStart + (inSampleDays + outOfSampleDays) * DAY_MS <= endDate.getTime()) {
+    const inSampleEnd = inSampleStart + inSampleDays * DAY_MS;
+    windows.push({
+      index: windows.length,
+      inSampleStart: new Date(inSampleStart),
+      inSampleEnd: new Date(inSampleEnd),
+      outOfSampleStart: new Date(inSampleEnd),
+      outOfSampleEnd: new Date(inSampleEnd + outOfSampleDays * DAY_MS),
+    });
+    inSampleStart += stepDays * DAY_MS;
+  }
+
+  return windows;
+}
+
+/**
+ * Percentage drop from in-sample to out-of-sample score (positive = OOS is worse)
+ */
+export function calculateDegradation(inSampleScore: number, outOfSampleScore: number): number | null {
+  if (inSampleScore === 0) return null;
+  return ((inSampleScore - outOfSampleScore) / Math.abs(inSampleScore)) * 100;
+}
+
+function cloneJson(value: any): any {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+// Small deterministic PRNG (uniform in [0, 1))
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,514 @@
+/**
+ * PortfolioBacktestController
+ *
+ * Multi-symbol backtests drawing on one shared cash balance (how the live bot fleet trades):
+ * - Legs come from a symbol list (one strategy) or from existing bots (each bot's strategy/allocation)
+ * - All bar series are stepped forward on one aligned clock
+ * - Orders go through a single VirtualPortfolioEngine, so legs compete for cash
+ * - Stop / take-profit / trailing legs fill intrabar like the live bots' broker-side exits
+ * - Partial take-profit levels and staged entries per leg (positionScaling)
+ * - Produces combined + per-symbol equity curves and a return correlation matrix
+ *
+ * Reference: docs/backtesting/PHASE2_VIRTUAL_PORTFOLIO_SIMULATOR.md
+ */
+
+import { prisma } from '@/lib/prisma';
+import { TimeHorizon } from '@prisma/client';
+import { HistoricalDataProvider } from './historicalDataProvider';
+import { VirtualPortfolioEngine } from './virtualPortfolioEngine';
+import { PerformanceAnalytics } from './performanceAnalytics';
+import { BacktestController } from './backtestController';
+import { alignBarSeries, calculateCorrelationMatrix, TimelineBar } from './portfolioTimeline';
+import { env } from '@/lib/config/env';
+import { prepareStrategy, evaluateStrategy, PreparedStrategy } from '@/lib/utils/strategyEngine';
+import {
+  ProtectiveOrderState,
+  resolveProtectionLevels,
+  raiseStopToBreakeven,
+  openProtection,
+  checkProtectiveFill,
+  advanceHighWaterMark,
+  describeProtectiveFill,
+} from '@/lib/utils/protectiveOrders';
+import { ScalingPlan, resolveScalingPlan, initialEntryQuantity } from '@/lib/utils/positionScaling';
+import {
+  emitBacktestStarted,
+  emitBacktestProgress,
+  emitBacktestTradeExecuted,
+  emitBacktestEquityUpdate,
+  emitBacktestCompleted,
+  emitBacktestFailed,
+} from '@/lib/realtime/backtestEvents';
+
+export interface PortfolioBacktestLeg {
+  symbol: string;
+  strategyId: string;
+  botId?: string;
+  positionSize?: number; // Overrides config.positionSize (bots: fundAllocation)
+}
+
+export interface PortfolioBacktestConfig {
+  legs: PortfolioBacktestLeg[];
+  timeHorizon: TimeHorizon;
+  startDate: Date;
+  endDate: Date;
+  initialCash: number;
+  positionSizing: 'FIXED_DOLLAR' | 'FIXED_SHARES' | 'PERCENT_EQUITY';
+  positionSize: number;
+  slippageBps: number;
+  commissionPerTrade: number;
+  protectiveOrders?: boolean; // Broker-side exit legs like live bots (default: PROTECTIVE_ORDERS_ENABLED)
+}
+
+interface LegState {
+  leg: PortfolioBacktestLeg;
+  strategy: PreparedStrategy;
+  scaling: ScalingPlan;
+  bars: TimelineBar[];
+}
+
+export class PortfolioBacktestController {
+  private dataProvider: HistoricalDataProvider;
+  private portfolio: VirtualPortfolioEngine;
+  private analytics: PerformanceAnalytics;
+
+  constructor() {
+    this.dataProvider = new HistoricalDataProvider();
+    this.portfolio = new VirtualPortfolioEngine();
+    this.analytics = new PerformanceAnalytics();
+  }
+
+  /**
+   * Build legs from existing bots (symbol, strategy and fund allocation)
+   */
+  async buildLegsFromBots(botIds: string[]): Promise<PortfolioBacktestLeg[]> {
+    const bots = await prisma.bot.findMany({
+      where: { id: { in: botIds } },
+      select: { id: true, symbol: true, strategyId: true, fundAllocation: true },
+    });
+
+    const missing = botIds.filter(id => !bots.some(bot => bot.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Bots not found: ${missing.join(', ')}`);
+    }
+
+    return bots.map(bot => ({
+      symbol: bot.symbol,
+      strategyId: bot.strategyId,
+      botId: bot.id,
+      positionSize: bot.fundAllocation,
+    }));
+  }
+
+  /**
+   * Run a portfolio backtest
+   *
+   * Steps:
+   * 1. Create BacktestRun record (isPortfolio, status: RUNNING)
+   * 2. Load strategies and historical bars for every leg
+   * 3. Align all bar series on one clock
+   * 4. For each timestamp:
+   *    - Mark open positions to market
+   *    - Exits first (frees cash), then entries, in leg order
+   *    - Record combined and per-symbol equity snapshots
+   * 5. Calculate metrics and correlation matrix, update BacktestRun
+   */
+  async runPortfolioBacktest(config: PortfolioBacktestConfig): Promise<string> {
+    const startTime = Date.now();
+    let backtestRunId: string | null = null;
+
+    const symbols = config.legs.map(leg => leg.symbol);
+    if (symbols.length === 0) {
+      throw new Error('Portfolio backtest requires at least one symbol');
+    }
+    const duplicates = symbols.filter((symbol, i) => symbols.indexOf(symbol) !== i);
+    if (duplicates.length > 0) {
+      // VirtualPortfolioEngine keeps one position per symbol
+      throw new Error(`Duplicate symbols in portfolio: ${duplicates.join(', ')}`);
+    }
+
+    try {
+      // 1. Create BacktestRun record
+      const botIds = config.legs.filter(leg => leg.botId).map(leg => leg.botId as string);
+      const backtestRun = await prisma.backtestRun.create({
+        data: {
+          strategyId: config.legs[0].strategyId,
+          symbol: symbols.join(','),
+          isPortfolio: true,
+          symbols,
+          botIds,
+          timeHorizon: config.timeHorizon,
+          startDate: config.startDate,
+          endDate: config.endDate,
+          initialCash: config.initialCash,
+          positionSizing: config.positionSizing,
+          positionSize: config.positionSize,
+          slippageBps: config.slippageBps,
+          commissionPerTrade: config.commissionPerTrade,
+          status: 'RUNNING',
+        },
+      });
+
+      backtestRunId = backtestRun.id;
+      console.log(`📊 Starting portfolio backtest: ${backtestRunId}`);
+      console.log(`   Symbols: ${symbols.join(', ')}`);
+      console.log(`   Period: ${config.startDate.toISOString().split('T')[0]} to ${config.endDate.toISOString().split('T')[0]}`);
+      console.log(`   Initial Cash (shared): $${config.initialCash.toFixed(2)}`);
+
+      emitBacktestStarted({
+        backtestRunId: backtestRun.id,
+        symbol: backtestRun.symbol,
+        strategyId: backtestRun.strategyId,
+        startDate: config.startDate,
+        endDate: config.endDate,
+      });
+
+      // 2. Load strategies and bars for every leg
+      const strategyIds = config.legs
+        .map(leg => leg.strategyId)
+        .filter((id, i, ids) => ids.indexOf(id) === i);
+      const strategies = await prisma.strategy.findMany({
+        where: { id: { in: strategyIds } },
+      });
+
+      const legs: LegState[] = [];
+      for (const leg of config.legs) {
+        const strategy = strategies.find(s => s.id === leg.strategyId);
+        if (!strategy) {
+          throw new Error(`Strategy not found: ${leg.strategyId}`);
+        }
+
+        console.log(`\n📊 Loading historical data: ${leg.symbol} (${strategy.name})`);
+        const bars = await this.dataProvider.loadHistoricalBars({
+          symbol: leg.symbol,
+          timeHorizon: config.timeHorizon,
+          startDate: config.startDate,
+          endDate: config.endDate,
+        });
+
+        const prepared = prepareStrategy({
+          entryConditions: strategy.entryConditions,
+          exitConditions: strategy.exitConditions,
+          stopLoss: strategy.stopLoss,
+          takeProfit: strategy.takeProfit,
+          timeHorizon: config.timeHorizon,
+          decisionConfig: strategy.decisionConfig,
+        });
+
+        legs.push({
+          leg,
+          strategy: prepared,
+          scaling: resolveScalingPlan(prepared),
+          bars,
+        });
+      }
+
+      // 3. Align bar series
+      const barsBySymbol: Record<string, TimelineBar[]> = {};
+      legs.forEach(state => { barsBySymbol[state.leg.symbol] = state.bars; });
+      const timeline = alignBarSeries(barsBySymbol);
+      console.log(`✅ Aligned ${legs.length} series on ${timeline.length} timestamps`);
+
+      // 4. Initialize shared portfolio
+      this.portfolio.initialize({
+        backtestRunId: backtestRun.id,
+        initialCash: config.initialCash,
+        slippageBps: config.slippageBps,
+        commissionPerTrade: config.commissionPerTrade,
+      });
+
+      // 5. Step the clock
+      console.log(`\n🔄 Running portfolio simulation...`);
+      const totalSteps = timeline.length;
+      const useProtectiveOrders = config.protectiveOrders ?? env.PROTECTIVE_ORDERS_ENABLED;
+      const protection: Record<string, ProtectiveOrderState | null> = {};
+
+      for (let step = 0; step < totalSteps; step++) {
+        const { timestamp, barIndex } = timeline[step];
+        const activeLegs = legs.filter(state => barIndex[state.leg.symbol] !== undefined);
+
+        // Protective legs fill intrabar, before the strategies see the close
+        for (const state of activeLegs) {
+          const symbol = state.leg.symbol;
+          const legProtection = protection[symbol];
+          const position = this.portfolio.getPosition(symbol);
+          if (!legProtection || !position?.isOpen) continue;
+
+          const bar = state.bars[barIndex[symbol]];
+          const fill = checkProtectiveFill(legProtection, bar);
+          if (!fill) {
+            protection[symbol] = advanceHighWaterMark(legProtection, bar);
+            continue;
+          }
+
+          protection[symbol] = null;
+          const trade = await this.portfolio.executeSellOrder({
+            backtestRunId: backtestRun.id,
+            symbol,
+            targetPrice: fill.price,
+            signalBar: timestamp,
+            executionBar: timestamp,
+            exitReason: describeProtectiveFill(fill),
+            quantity: position.quantity,
+          });
+
+          if (trade) {
+            emitBacktestTradeExecuted({
+              backtestRunId: backtestRun.id,
+              tradeId: trade.id,
+              side: 'SELL',
+              symbol,
+              quantity: trade.quantity,
+              executedPrice: trade.executedPrice,
+              realizedPL: trade.realizedPL,
+              realizedPLPct: trade.realizedPLPct,
+              timestamp,
+            });
+          }
+        }
+
+        // Partial take-profits and staged entries at the close
+        for (const state of activeLegs) {
+          const symbol = state.leg.symbol;
+          const index = barIndex[symbol];
+          const scaled = await this.portfolio.executeScaling({
+            backtestRunId: backtestRun.id,
+            symbol,
+            plan: state.scaling,
+            price: state.bars[index].close,
+            bar: timestamp,
+          });
+          if (!scaled) continue;
+
+          const position = this.portfolio.getPosition(symbol);
+          const legProtection = protection[symbol];
+          if (!position?.isOpen) {
+            protection[symbol] = null;
+          } else if (scaled.action.side === 'SELL') {
+            protection[symbol] = legProtection &&
+              raiseStopToBreakeven(legProtection, this.portfolio.getBreakevenPrice(symbol, state.scaling));
+          } else if (useProtectiveOrders) {
+            // Added tranche → legs re-placed around the new average entry
+            protection[symbol] = openProtection(
+              resolveProtectionLevels(state.strategy, position.avgEntryPrice, state.bars.slice(0, index + 1)),
+              scaled.trade.executedPrice
+            );
+          }
+
+          emitBacktestTradeExecuted({
+            backtestRunId: backtestRun.id,
+            tradeId: scaled.trade.id,
+            side: scaled.action.side,
+            symbol,
+            quantity: scaled.trade.quantity,
+            executedPrice: scaled.trade.executedPrice,
+            realizedPL: scaled.trade.realizedPL,
+            realizedPLPct: scaled.trade.realizedPLPct,
+            timestamp,
+          });
+        }
+
+        // Mark to market and evaluate every leg that has a bar at this timestamp
+        const decisions = [];
+        for (const state of activeLegs) {
+          const index = barIndex[state.leg.symbol];
+          const price = state.bars[index].close;
+          const position = this.portfolio.getPosition(state.leg.symbol);
+
+          if (position?.isOpen) {
+            await this.portfolio.updateCurrentPrice(state.leg.symbol, price, timestamp);
+          }
+
+          decisions.push({
+            state,
+            price,
+            position,
+            decision: evaluateStrategy(
+              state.strategy,
+              { bars: state.bars.slice(0, index + 1) },
+              position?.isOpen
+                ? {
+                    entryPrice: position.avgEntryPrice,
+                    entryTime: position.entryBar,
+                    breakevenPrice: this.portfolio.getBreakevenPrice(state.leg.symbol, state.scaling),
+                  }
+                : null
+            ),
+          });
+        }
+
+        // Exits first so freed cash is available to entries on the same bar
+        for (const { state, price, position, decision } of decisions) {
+          if (!position?.isOpen || decision.action !== 'SELL') continue;
+
+          const trade = await this.portfolio.executeSellOrder({
+            backtestRunId: backtestRun.id,
+            symbol: state.leg.symbol,
+            targetPrice: price,
+            signalBar: timestamp,
+            executionBar: timestamp,
+            exitReason: decision.reason,
+            quantity: position.quantity,
+          });
+          protection[state.leg.symbol] = null;
+
+          if (trade) {
+            emitBacktestTradeExecuted({
+              backtestRunId: backtestRun.id,
+              tradeId: trade.id,
+              side: 'SELL',
+              symbol: state.leg.symbol,
+              quantity: trade.quantity,
+              executedPrice: trade.executedPrice,
+              realizedPL: trade.realizedPL,
+              realizedPLPct: trade.realizedPLPct,
+              timestamp,
+            });
+          }
+        }
+
+        for (const { state, price, position, decision } of decisions) {
+          if (position?.isOpen || decision.action !== 'BUY') continue;
+
+          const quantity = initialEntryQuantity(state.scaling, BacktestController.calculatePositionSize(
+            config.positionSizing,
+            state.leg.positionSize ?? config.positionSize,
+            price,
+            this.portfolio.getCash()
+          ));
+          if (quantity <= 0) continue;
+
+          const trade = await this.portfolio.executeBuyOrder({
+            backtestRunId: backtestRun.id,
+            symbol: state.leg.symbol,
+            quantity,
+            targetPrice: price,
+            signalBar: timestamp,
+            executionBar: timestamp,
+            entryReason: decision.reason,
+            technicalScore: decision.technicalScore,
+          });
+
+          if (trade && useProtectiveOrders) {
+            protection[state.leg.symbol] = openProtection(
+              resolveProtectionLevels(state.strategy, trade.executedPrice, state.bars.slice(0, barIndex[state.leg.symbol] + 1)),
+              trade.executedPrice
+            );
+          }
+
+          if (trade) {
+            emitBacktestTradeExecuted({
+              backtestRunId: backtestRun.id,
+              tradeId: trade.id,
+              side: 'BUY',
+              symbol: state.leg.symbol,
+              quantity: trade.quantity,
+              executedPrice: trade.executedPrice,
+              timestamp,
+            });
+          }
+        }
+
+        // Combined + per-symbol snapshots (in memory)
+        this.portfolio.recordEquityCurveSnapshot(timestamp);
+        this.portfolio.recordSymbolEquitySnapshots(timestamp, symbols);
+
+        if ((step + 1) % Math.ceil(totalSteps / 10) === 0) {
+          const progress = ((step + 1) / totalSteps) * 100;
+          const cash = this.portfolio.getCash();
+          const totalEquity = this.portfolio.getEquity();
+          console.log(`   Progress: ${progress.toFixed(0)}% (${step + 1}/${totalSteps} steps)`);
+
+          emitBacktestProgress({
+            backtestRunId: backtestRun.id,
+            barsProcessed: step + 1,
+            totalBars: totalSteps,
+            progressPct: progress,
+            currentEquity: totalEquity,
+            currentTimestamp: timestamp,
+          });
+
+          emitBacktestEquityUpdate({
+            backtestRunId: backtestRun.id,
+            timestamp,
+            cash,
+            stockValue: totalEquity - cash,
+            totalEquity,
+            drawdownPct: 0, // Will be calculated properly by analytics
+          });
+        }
+      }
+
+      console.log(`✅ Portfolio simulation complete: ${totalSteps} steps processed`);
+
+      // 6. Persist curves, metrics and correlations
+      await this.portfolio.finalizeEquityCurve();
+      const metrics = await this.analytics.calculateMetrics(backtestRun.id);
+      const correlationMatrix = calculateCorrelationMatrix(barsBySymbol);
+
+      await prisma.backtestRun.update({
+        where: { id: backtestRun.id },
+        data: {
+          status: 'COMPLETED',
+          executionTime: Date.now() - startTime,
+          correlationMatrix: correlationMatrix as any,
+          totalTrades: metrics.totalTrades,
+          winningTrades: metrics.winningTrades,
+          losingTrades: metrics.losingTrades,
+          winRate: metrics.winRate,
+          finalCash: metrics.finalCash,
+          finalEquity: metrics.finalEquity,
+          totalReturn: metrics.totalReturn,
+          totalReturnPct: metrics.totalReturnPct,
+          sharpeRatio: metrics.sharpeRatio,
+          sortinoRatio: metrics.sortinoRatio,
+          maxDrawdown: metrics.maxDrawdown,
+          maxDrawdownDate: metrics.maxDrawdownDate,
+          avgWinPct: metrics.avgWinPct,
+          avgLossPct: metrics.avgLossPct,
+          profitFactor: metrics.profitFactor,
+          expectancy: metrics.expectancy,
+        },
+      });
+
+      console.log(`\n✅ Portfolio backtest completed: ${backtestRun.id}`);
+      console.log(`   Total Trades: ${metrics.totalTrades}`);
+      console.log(`   Total Return: ${metrics.totalReturnPct.toFixed(2)}%`);
+      console.log(`   Execution Time: ${((Date.now() - startTime) / 1000).toFixed(2)}s`);
+
+      emitBacktestCompleted({
+        backtestRunId: backtestRun.id,
+        finalEquity: metrics.finalEquity,
+        totalReturn: metrics.totalReturn,
+        totalReturnPct: metrics.totalReturnPct,
+        totalTrades: metrics.totalTrades,
+        executionTime: (Date.now() - startTime) / 1000,
+      });
+
+      return backtestRun.id;
+
+    } catch (error: any) {
+      console.error(`\n❌ Portfolio backtest failed:`, error);
+
+      if (backtestRunId) {
+        await prisma.backtestRun.update({
+          where: { id: backtestRunId },
+          data: {
+            status: 'FAILED',
+            errorMessage: error.message,
+            executionTime: Date.now() - startTime,
+          },
+        });
+
+        emitBacktestFailed({
+          backtestRunId,
+          error: error.message,
+        });
+      }
+
+      throw error;
+    }
+  }
+}
+
+export const portfolioBacktestController = new PortfolioBacktestController();
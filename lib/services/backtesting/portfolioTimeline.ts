@@ -0,0 +1,110 @@
+/**
+ * Portfolio Timeline
+ *
+ * Pure helpers for multi-symbol (portfolio) backtests:
+ * - Aligns several bar series onto one chronological clock
+ * - Calculates the correlation matrix of per-symbol returns
+ *
+ * No database access - used by PortfolioBacktestController.
+ */
+
+export interface TimelineBar {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface TimelineStep {
+  timestamp: Date;
+  // Index of the bar at this timestamp for each symbol that has one
+  barIndex: Record<string, number>;
+}
+
+export interface CorrelationMatrix {
+  symbols: string[];
+  matrix: (number | null)[][];
+}
+
+/**
+ * Merge bar series into one clock (union of timestamps, ascending)
+ * Symbols without a bar at a timestamp are omitted from that step.
+ */
+export function alignBarSeries(barsBySymbol: Record<string, TimelineBar[]>): TimelineStep[] {
+  const steps = new Map<number, TimelineStep>();
+
+  Object.keys(barsBySymbol).forEach(symbol => {
+    barsBySymbol[symbol].forEach((bar, index) => {
+      const time = bar.timestamp.getTime();
+      let step = steps.get(time);
+      if (!step) {
+        step = { timestamp: bar.timestamp, barIndex: {} };
+        steps.set(time, step);
+      }
+      step.barIndex[symbol] = index;
+    });
+  });
+
+  return Array.from(steps.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Pearson correlation of close-to-close returns on timestamps shared by both symbols
+ * Returns null for pairs with fewer than 3 common returns or zero variance.
+ */
+export function calculateCorrelationMatrix(barsBySymbol: Record<string, TimelineBar[]>): CorrelationMatrix {
+  const symbols = Object.keys(barsBySymbol);
+  const returnsBySymbol: Record<string, Map<number, number>> = {};
+
+  symbols.forEach(symbol => {
+    const bars = barsBySymbol[symbol];
+    const returns = new Map<number, number>();
+    for (let i = 1; i < bars.length; i++) {
+      if (bars[i - 1].close > 0) {
+        returns.set(bars[i].timestamp.getTime(), bars[i].close / bars[i - 1].close - 1);
+      }
+    }
+    returnsBySymbol[symbol] = returns;
+  });
+
+  const matrix = symbols.map((a, i) =>
+    symbols.map((b, j) => {
+      if (i === j) return 1;
+      return pearson(returnsBySymbol[a], returnsBySymbol[b]);
+    })
+  );
+
+  return { symbols, matrix };
+}
+
+function pearson(a: Map<number, number>, b: Map<number, number>): number | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  Array.from(a.keys()).forEach(time => {
+    const y = b.get(time);
+    if (y !== undefined) {
+      xs.push(a.get(time) as number);
+      ys.push(y);
+    }
+  });
+
+  if (xs.length < 3) return null;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += Math.pow(xs[i] - meanX, 2);
+    varianceY += Math.pow(ys[i] - meanY, 2);
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
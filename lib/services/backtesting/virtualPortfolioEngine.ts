@@ -6,11 +6,22 @@
  * - Executes buy/sell orders with slippage and commissions
  * - Updates position market values
  * - Records equity curve snapshots
+ * - Keeps the open position's fills for staged entries / partial exits (positionScaling)
  *
  * Reference: docs/backtesting/PHASE2_VIRTUAL_PORTFOLIO_SIMULATOR.md
  */
 
 import { prisma } from '@/lib/prisma';
+import {
+  ScalingPlan,
+  ScalingFill,
+  ScalingState,
+  ScaleAction,
+  scalingStateFromFills,
+  planScaleOut,
+  planScaleIn,
+  breakevenStopPrice,
+} from '@/lib/utils/positionScaling';
 
 interface PortfolioConfig {
   backtestRunId: string;
@@ -43,11 +54,20 @@ interface SellOrderRequest {
   quantity: number;
 }
 
+interface ScalingRequest {
+  backtestRunId: string;
+  symbol: string;
+  plan: ScalingPlan;
+  price: number;
+  bar: Date;
+}
+
 export class VirtualPortfolioEngine {
   private backtestRunId: string = '';
   private cash: number = 0;
   private initialCash: number = 0;
   private positions: Map<string, any> = new Map();
+  private positionFills: Map<string, ScalingFill[]> = new Map();
   private slippageBps: number = 10;
   private commissionPerTrade: number = 1.0;
   private portfolioHighWaterMark: number = 0;
@@ -61,6 +81,16 @@ export class VirtualPortfolioEngine {
     drawdown: number;
     tradeCount: number;
   }> = [];
+  // Portfolio backtests: cumulative realized P&L and per-symbol snapshots
+  private realizedPLBySymbol: Map<string, number> = new Map();
+  private symbolEquitySnapshots: Array<{
+    symbol: string;
+    timestamp: Date;
+    marketValue: number;
+    realizedPL: number;
+    unrealizedPL: number;
+    cumulativePL: number;
+  }> = [];
 
   /**
    * Initialize portfolio with starting parameters
@@ -72,9 +102,12 @@ export class VirtualPortfolioEngine {
     this.slippageBps = config.slippageBps;
     this.commissionPerTrade = config.commissionPerTrade;
     this.positions.clear();
+    this.positionFills.clear();
     this.portfolioHighWaterMark = config.initialCash;
     this.tradeCount = 0;
     this.equityCurveSnapshots = [];
+    this.realizedPLBySymbol.clear();
+    this.symbolEquitySnapshots = [];
 
     console.log(`💰 Portfolio initialized: $${this.cash} cash`);
   }
@@ -168,6 +201,8 @@ export class VirtualPortfolioEngine {
       console.log(`🟢 NEW position opened: ${request.quantity} shares @ $${executedPrice.toFixed(2)}`);
     }
 
+    this.recordFill(request.symbol, 'BUY', request.quantity, executedPrice, request.executionBar);
+
     // 6. Record trade
     const trade = await prisma.backtestTrade.create({
       data: {
@@ -206,7 +241,7 @@ export class VirtualPortfolioEngine {
    * Steps:
    * 1. Calculate execution price (target - slippage)
    * 2. Calculate proceeds (price * quantity - commission)
-   * 3. Calculate realized P&L
+   * 3. Calculate realized P&L (cost basis = sold share of totalCost, buy commissions included)
    * 4. Add cash back
    * 5. Update or close position
    * 6. Record trade
@@ -228,12 +263,13 @@ export class VirtualPortfolioEngine {
     const netAmount = grossAmount - commission;
 
     // 3. Calculate realized P&L
-    const costBasis = position.avgEntryPrice * request.quantity;
+    const costBasis = position.totalCost * (request.quantity / position.quantity);
     const realizedPL = netAmount - costBasis;
     const realizedPLPct = (realizedPL / costBasis) * 100;
 
     // 4. Add cash back
     this.cash += netAmount;
+    this.realizedPLBySymbol.set(request.symbol, (this.realizedPLBySymbol.get(request.symbol) || 0) + realizedPL);
 
     // 5. Update or close position
     const newQuantity = position.quantity - request.quantity;
@@ -251,10 +287,12 @@ export class VirtualPortfolioEngine {
       });
 
       this.positions.delete(request.symbol);
+      this.positionFills.delete(request.symbol);
+      position.isOpen = false;
       console.log(`🔴 Position CLOSED: realized P&L ${realizedPL >= 0 ? '+' : ''}$${realizedPL.toFixed(2)} (${realizedPLPct.toFixed(2)}%)`);
     } else {
-      // Partial sell
-      const newTotalCost = position.avgEntryPrice * newQuantity;
+      // Partial sell (average cost is unchanged, the remaining shares keep their cost basis)
+      const newTotalCost = position.totalCost - costBasis;
       const newMarketValue = newQuantity * request.targetPrice;
       const newUnrealizedPL = newMarketValue - newTotalCost;
       const newUnrealizedPLPct = (newUnrealizedPL / newTotalCost) * 100;
@@ -280,6 +318,7 @@ export class VirtualPortfolioEngine {
         },
       });
 
+      this.recordFill(request.symbol, 'SELL', request.quantity, executedPrice, request.executionBar);
       console.log(`🟡 Partial sell: ${newQuantity.toFixed(2)} shares remaining, realized P&L: ${realizedPL >= 0 ? '+' : ''}$${realizedPL.toFixed(2)}`);
     }
 
@@ -430,6 +469,30 @@ export class VirtualPortfolioEngine {
     }
   }
 
+  /**
+   * Record per-symbol P&L snapshots for current bar (portfolio backtests)
+   *
+   * Each symbol's curve is its contribution to the shared portfolio equity:
+   * cumulative realized P&L plus unrealized P&L of the open position.
+   */
+  recordSymbolEquitySnapshots(timestamp: Date, symbols: string[]): void {
+    symbols.forEach(symbol => {
+      const position = this.positions.get(symbol);
+      const marketValue = position?.isOpen ? position.marketValue : 0;
+      const unrealizedPL = position?.isOpen ? position.unrealizedPL : 0;
+      const realizedPL = this.realizedPLBySymbol.get(symbol) || 0;
+
+      this.symbolEquitySnapshots.push({
+        symbol,
+        timestamp,
+        marketValue,
+        realizedPL,
+        unrealizedPL,
+        cumulativePL: realizedPL + unrealizedPL,
+      });
+    });
+  }
+
   /**
    * Batch insert all equity curve snapshots to database
    *
@@ -452,10 +515,78 @@ export class VirtualPortfolioEngine {
       })),
     });
 
+    if (this.symbolEquitySnapshots.length > 0) {
+      await prisma.backtestSymbolEquityCurve.createMany({
+        data: this.symbolEquitySnapshots.map(snapshot => ({
+          backtestRunId: this.backtestRunId,
+          ...snapshot,
+        })),
+      });
+    }
+
     const duration = Date.now() - startTime;
     console.log(`✅ Equity curve saved in ${duration}ms (${this.equityCurveSnapshots.length} snapshots)`);
   }
 
+  /**
+   * Execute the partial take-profit or staged entry due for the open position at `price`
+   *
+   * Partial exits come first; a tranche is only added when no level is due.
+   */
+  async executeScaling(request: ScalingRequest): Promise<{ action: ScaleAction; trade: any } | null> {
+    const position = this.positions.get(request.symbol);
+    const state = this.getScalingState(request.symbol);
+    if (!position || !position.isOpen || !state) return null;
+
+    const action = planScaleOut(request.plan, state, position, request.price) ||
+      planScaleIn(request.plan, state, request.price);
+    if (!action) return null;
+
+    const trade = action.side === 'SELL'
+      ? await this.executeSellOrder({
+          backtestRunId: request.backtestRunId,
+          symbol: request.symbol,
+          targetPrice: request.price,
+          signalBar: request.bar,
+          executionBar: request.bar,
+          exitReason: action.reason,
+          quantity: action.quantity,
+        })
+      : await this.executeBuyOrder({
+          backtestRunId: request.backtestRunId,
+          symbol: request.symbol,
+          quantity: action.quantity,
+          targetPrice: request.price,
+          signalBar: request.bar,
+          executionBar: request.bar,
+          entryReason: action.reason,
+        });
+
+    return trade ? { action, trade } : null;
+  }
+
+  /**
+   * Stop floor for the open position after a partial take-profit (null = strategy stop only)
+   */
+  getBreakevenPrice(symbol: string, plan: ScalingPlan): number | null {
+    const position = this.positions.get(symbol);
+    if (!position || !position.isOpen) return null;
+    return breakevenStopPrice(plan, this.getScalingState(symbol), position.avgEntryPrice);
+  }
+
+  /**
+   * Staged entry / partial exit state of the open position (null when flat)
+   */
+  getScalingState(symbol: string): ScalingState | null {
+    return scalingStateFromFills(this.positionFills.get(symbol) || []);
+  }
+
+  private recordFill(symbol: string, side: 'BUY' | 'SELL', quantity: number, price: number, executedAt: Date): void {
+    const fills = this.positionFills.get(symbol) || [];
+    fills.push({ side, quantity, price, executedAt });
+    this.positionFills.set(symbol, fills);
+  }
+
   getCash(): number {
     return this.cash;
   }
@@ -463,4 +594,12 @@ export class VirtualPortfolioEngine {
   getPosition(symbol: string): any {
     return this.positions.get(symbol);
   }
+
+  getEquity(): number {
+    let stockValue = 0;
+    this.positions.forEach(position => {
+      if (position.isOpen) stockValue += position.marketValue;
+    });
+    return this.cash + stockValue;
+  }
 }
@@ -0,0 +1,334 @@
+/**
+ * WalkForwardOptimizer
+ *
+ * Parameter sweeps for a Strategy with walk-forward validation:
+ * - Grid or random search over parameter ranges (dot paths into the strategy definition)
+ * - Every trial is a regular BacktestRun linked to the OptimizationJob
+ * - Per window: all parameter sets run in-sample, the winner runs out-of-sample
+ * - Reports the best parameter set and its out-of-sample degradation (overfitting check)
+ *
+ * Reference: docs/backtesting/PHASE2_VIRTUAL_PORTFOLIO_SIMULATOR.md
+ */
+
+import { prisma } from '@/lib/prisma';
+import { TimeHorizon } from '@prisma/client';
+import { BacktestController, BacktestConfig } from './backtestController';
+import {
+  ParameterSpace,
+  ParameterSet,
+  WalkForwardWindow,
+  countGrid,
+  expandGrid,
+  sampleRandom,
+  applyParameters,
+  buildWalkForwardWindows,
+  calculateDegradation,
+} from './parameterSpace';
+
+export type OptimizationObjective =
+  | 'sharpeRatio'
+  | 'sortinoRatio'
+  | 'totalReturnPct'
+  | 'profitFactor'
+  | 'expectancy'
+  | 'winRate';
+
+export interface OptimizationJobConfig {
+  strategyId: string;
+  symbol: string;
+  timeHorizon: TimeHorizon;
+  startDate: Date;
+  endDate: Date;
+  method: 'GRID' | 'RANDOM';
+  parameterSpace: ParameterSpace;
+  objective?: OptimizationObjective;
+  maxTrials?: number;
+  seed?: number;
+  inSampleDays?: number;
+  outOfSampleDays?: number;
+  stepDays?: number;
+  backtestSettings?: {
+    initialCash?: number;
+    positionSizing?: BacktestConfig['positionSizing'];
+    positionSize?: number;
+    slippageBps?: number;
+    commissionPerTrade?: number;
+  };
+}
+
+interface WindowResult {
+  windowIndex: number;
+  inSampleStart: Date;
+  inSampleEnd: Date;
+  outOfSampleStart: Date;
+  outOfSampleEnd: Date;
+  bestParameters: ParameterSet | null;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  inSampleRunId: string | null;
+  outOfSampleRunId: string | null;
+}
+
+const MAX_TRIALS_LIMIT = 500;
+
+export class WalkForwardOptimizer {
+  private controller: BacktestController;
+
+  constructor() {
+    this.controller = new BacktestController();
+  }
+
+  /**
+   * Validate the config and create the OptimizationJob (status: PENDING)
+   */
+  async createJob(config: OptimizationJobConfig): Promise<string> {
+    const maxTrials = Math.min(config.maxTrials ?? 50, MAX_TRIALS_LIMIT);
+    const gridSize = countGrid(config.parameterSpace);
+
+    if (config.method === 'GRID' && gridSize > maxTrials) {
+      throw new Error(
+        `Grid has ${gridSize} combinations (maxTrials ${maxTrials}). Narrow the ranges or use RANDOM search.`
+      );
+    }
+
+    const inSampleDays = config.inSampleDays ?? 180;
+    const outOfSampleDays = config.outOfSampleDays ?? 60;
+    const stepDays = config.stepDays ?? outOfSampleDays;
+    const windows = buildWalkForwardWindows(config.startDate, config.endDate, inSampleDays, outOfSampleDays, stepDays);
+
+    if (windows.length === 0) {
+      throw new Error(
+        `Date range is shorter than one walk-forward window (${inSampleDays} + ${outOfSampleDays} days)`
+      );
+    }
+
+    const trialsPerWindow = config.method === 'GRID' ? gridSize : Math.min(maxTrials, gridSize);
+
+    const job = await prisma.optimizationJob.create({
+      data: {
+        strategyId: config.strategyId,
+        symbol: config.symbol,
+        timeHorizon: config.timeHorizon,
+        startDate: config.startDate,
+        endDate: config.endDate,
+        method: config.method,
+        parameterSpace: config.parameterSpace as any,
+        objective: config.objective ?? 'sharpeRatio',
+        maxTrials,
+        seed: config.seed,
+        inSampleDays,
+        outOfSampleDays,
+        stepDays,
+        backtestSettings: (config.backtestSettings ?? {}) as any,
+        // In-sample trials for every window plus one out-of-sample run per window
+        totalTrials: windows.length * (trialsPerWindow + 1),
+        status: 'PENDING',
+      },
+    });
+
+    console.log(`🧪 Optimization job created: ${job.id} (${windows.length} windows x ${trialsPerWindow} parameter sets)`);
+    return job.id;
+  }
+
+  /**
+   * Run all trials of a job sequentially and store the summary
+   */
+  async runOptimization(jobId: string): Promise<void> {
+    const startTime = Date.now();
+
+    const job = await prisma.optimizationJob.findUnique({
+      where: { id: jobId },
+      include: { strategy: true },
+    });
+
+    if (!job) {
+      throw new Error(`OptimizationJob not found: ${jobId}`);
+    }
+
+    try {
+      await prisma.optimizationJob.update({
+        where: { id: jobId },
+        data: { status: 'RUNNING' },
+      });
+
+      const space = job.parameterSpace as unknown as ParameterSpace;
+      const parameterSets = job.method === 'RANDOM'
+        ? sampleRandom(space, job.maxTrials, job.seed ?? 1)
+        : expandGrid(space);
+      const windows = buildWalkForwardWindows(job.startDate, job.endDate, job.inSampleDays, job.outOfSampleDays, job.stepDays);
+      const objective = job.objective as OptimizationObjective;
+
+      console.log(`🧪 Running optimization ${jobId}: ${parameterSets.length} parameter sets, ${windows.length} windows, objective=${objective}`);
+
+      const baseDefinition = {
+        entryConditions: job.strategy.entryConditions,
+        exitConditions: job.strategy.exitConditions,
+        stopLoss: job.strategy.stopLoss,
+        takeProfit: job.strategy.takeProfit,
+      };
+
+      // In-sample scores per parameter set across windows (for the overall best set)
+      const inSampleScores: Record<string, number[]> = {};
+      const windowResults: WindowResult[] = [];
+      let completedTrials = 0;
+
+      for (const window of windows) {
+        let best: { parameters: ParameterSet; score: number; runId: string } | null = null;
+
+        for (const parameters of parameterSets) {
+          const trial = await this.runTrial(job, baseDefinition, parameters, window, 'IN_SAMPLE');
+          completedTrials++;
+
+          if (trial.score !== null) {
+            const key = JSON.stringify(parameters);
+            (inSampleScores[key] = inSampleScores[key] || []).push(trial.score);
+
+            if (!best || trial.score > best.score) {
+              best = { parameters, score: trial.score, runId: trial.runId as string };
+            }
+          }
+        }
+
+        let outOfSample: { runId: string | null; score: number | null } = { runId: null, score: null };
+        if (best) {
+          outOfSample = await this.runTrial(job, baseDefinition, best.parameters, window, 'OUT_OF_SAMPLE');
+        }
+        completedTrials++;
+
+        windowResults.push({
+          windowIndex: window.index,
+          inSampleStart: window.inSampleStart,
+          inSampleEnd: window.inSampleEnd,
+          outOfSampleStart: window.outOfSampleStart,
+          outOfSampleEnd: window.outOfSampleEnd,
+          bestParameters: best ? best.parameters : null,
+          inSampleScore: best ? best.score : null,
+          outOfSampleScore: outOfSample.score,
+          inSampleRunId: best ? best.runId : null,
+          outOfSampleRunId: outOfSample.runId,
+        });
+
+        console.log(
+          `   Window ${window.index + 1}/${windows.length}: IS ${best ? best.score.toFixed(3) : 'N/A'} → OOS ${outOfSample.score !== null ? outOfSample.score.toFixed(3) : 'N/A'}`
+        );
+
+        await prisma.optimizationJob.update({
+          where: { id: jobId },
+          data: { completedTrials, windowResults: windowResults as any },
+        });
+      }
+
+      // Best overall = highest mean in-sample score across windows
+      let bestParameters: ParameterSet | null = null;
+      let bestMean = -Infinity;
+      Object.keys(inSampleScores).forEach(key => {
+        const scores = inSampleScores[key];
+        const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+        if (mean > bestMean) {
+          bestMean = mean;
+          bestParameters = JSON.parse(key);
+        }
+      });
+
+      // Degradation of window winners: in-sample vs out-of-sample
+      const scored = windowResults.filter(w => w.inSampleScore !== null && w.outOfSampleScore !== null);
+      const bestInSampleScore = scored.length > 0
+        ? scored.reduce((sum, w) => sum + (w.inSampleScore as number), 0) / scored.length
+        : null;
+      const bestOutOfSampleScore = scored.length > 0
+        ? scored.reduce((sum, w) => sum + (w.outOfSampleScore as number), 0) / scored.length
+        : null;
+      const degradationPct = bestInSampleScore !== null && bestOutOfSampleScore !== null
+        ? calculateDegradation(bestInSampleScore, bestOutOfSampleScore)
+        : null;
+
+      await prisma.optimizationJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'COMPLETED',
+          bestParameters: bestParameters as any,
+          bestInSampleScore,
+          bestOutOfSampleScore,
+          degradationPct,
+          windowResults: windowResults as any,
+          completedTrials,
+          executionTime: Date.now() - startTime,
+        },
+      });
+
+      console.log(`✅ Optimization completed: ${jobId}`);
+      console.log(`   Best parameters: ${JSON.stringify(bestParameters)}`);
+      console.log(`   OOS degradation: ${degradationPct !== null ? degradationPct.toFixed(1) + '%' : 'N/A'}`);
+
+    } catch (error: any) {
+      console.error(`❌ Optimization failed: ${jobId}`, error);
+
+      await prisma.optimizationJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'FAILED',
+          errorMessage: error.message,
+          executionTime: Date.now() - startTime,
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Run one backtest trial; failed trials (e.g. not enough bars) score null
+   */
+  private async runTrial(
+    job: {
+      id: string;
+      strategyId: string;
+      symbol: string;
+      timeHorizon: TimeHorizon;
+      objective: string;
+      backtestSettings: any;
+    },
+    baseDefinition: Record<string, any>,
+    parameters: ParameterSet,
+    window: WalkForwardWindow,
+    sampleType: 'IN_SAMPLE' | 'OUT_OF_SAMPLE'
+  ): Promise<{ runId: string | null; score: number | null }> {
+    const settings = job.backtestSettings || {};
+    const definition = applyParameters(baseDefinition, parameters);
+
+    try {
+      const runId = await this.controller.runBacktest({
+        strategyId: job.strategyId,
+        symbol: job.symbol,
+        timeHorizon: job.timeHorizon,
+        startDate: sampleType === 'IN_SAMPLE' ? window.inSampleStart : window.outOfSampleStart,
+        endDate: sampleType === 'IN_SAMPLE' ? window.inSampleEnd : window.outOfSampleEnd,
+        initialCash: settings.initialCash || 10000.0,
+        positionSizing: settings.positionSizing || 'FIXED_DOLLAR',
+        positionSize: settings.positionSize || 1000.0,
+        slippageBps: settings.slippageBps || 10,
+        commissionPerTrade: settings.commissionPerTrade || 1.0,
+        strategyOverrides: {
+          entryConditions: definition.entryConditions,
+          exitConditions: definition.exitConditions,
+          stopLoss: definition.stopLoss,
+          takeProfit: definition.takeProfit,
+        },
+        optimizationJobId: job.id,
+        parameters,
+        windowIndex: window.index,
+        sampleType,
+      });
+
+      const run = await prisma.backtestRun.findUnique({ where: { id: runId } });
+      const score = run ? (run as any)[job.objective] : null;
+
+      return { runId, score: typeof score === 'number' && isFinite(score) ? score : null };
+    } catch (error) {
+      console.warn(`⚠️ Trial failed (${sampleType}, window ${window.index}, ${JSON.stringify(parameters)}):`, error);
+      return { runId: null, score: null };
+    }
+  }
+}
+
+export const walkForwardOptimizer = new WalkForwardOptimizer();
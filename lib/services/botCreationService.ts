@@ -15,6 +15,7 @@
 
 import { prisma } from '@/lib/prisma';
 import { fmpAnalystService } from '@/lib/services/fmpAnalystService';
+import { AIProviderMode, TradingMode } from '@prisma/client';
 
 export interface CreateBotParams {
   name: string;
@@ -25,6 +26,9 @@ export interface CreateBotParams {
   description?: string;
   underlyingAsset?: string | null;
   extendedHours?: boolean;
+  mode?: TradingMode;  // PAPER (Alpaca) or SIMULATED (local broker)
+  aiProvider?: AIProviderMode;  // OPENAI or RULE_BASED (no LLM)
+  profileId?: string | null;  // Saved TradingProfile (overrides the strategy's profile)
 }
 
 export interface CreateBotResult {
@@ -68,6 +72,14 @@ function validateBotParams(params: CreateBotParams): { valid: boolean; error?: s
     return { valid: false, error: 'orderType must be either MARKET or LIMIT' };
   }
 
+  if (params.mode && !['PAPER', 'SIMULATED'].includes(params.mode)) {
+    return { valid: false, error: 'mode must be either PAPER or SIMULATED' };
+  }
+
+  if (params.aiProvider && !['OPENAI', 'RULE_BASED'].includes(params.aiProvider)) {
+    return { valid: false, error: 'aiProvider must be either OPENAI or RULE_BASED' };
+  }
+
   return { valid: true };
 }
 
@@ -75,7 +87,7 @@ function validateBotParams(params: CreateBotParams): { valid: boolean; error?: s
  * Main function: Create a single bot with all validation and FMP integration
  */
 export async function createBot(params: CreateBotParams): Promise<CreateBotResult> {
-  const { name, symbol, strategyId, fundAllocation, orderType, description, underlyingAsset, extendedHours } = params;
+  const { name, symbol, strategyId, fundAllocation, orderType, description, underlyingAsset, extendedHours, mode, aiProvider, profileId } = params;
 
   try {
     // 1. Validate input parameters
@@ -154,7 +166,9 @@ export async function createBot(params: CreateBotParams): Promise<CreateBotResul
         fundAllocation,
         orderType: orderType || 'MARKET',
         status: 'STOPPED',
-        mode: 'PAPER',
+        mode: mode || 'PAPER',
+        aiProvider: aiProvider || 'OPENAI',
+        profileId: profileId || null,
         analystRating: analystRatingJson,
       },
       select: {
@@ -2,12 +2,17 @@
  * Bot Deletion Service
  *
  * Handles bot deletion with automatic position cleanup
- * - Closes all Alpaca positions for the bot's symbol
+ * - Refuses while trading is halted if the bot still holds shares (closing them means market sells)
+ * - Cancels the bot's protective legs first (they hold the shares, and the cascade delete
+ *   would remove the Trade rows that track them)
+ * - Sells the bot's own shares at its broker (other bots may hold the same symbol)
  * - Deletes bot from database (cascade deletes Position, Trade, Report records)
  */
 
 import { prisma } from '@/lib/prisma';
-import { alpacaTradingService } from './alpacaTradingService';
+import { getBroker } from './brokers';
+import { protectiveOrderService } from './protectiveOrderService';
+import { killSwitchService } from './killSwitchService';
 
 export interface DeleteBotResult {
   success: boolean;
@@ -26,8 +31,10 @@ export interface DeleteBotResult {
  *
  * Steps:
  * 1. Fetch bot and its positions from database
- * 2. Close all Alpaca positions (fail-safe: continues even if Alpaca fails)
- * 3. Delete bot from database (cascade deletes related records)
+ * 2. Abort while trading is halted and positions would have to be sold, then cancel
+ *    protective legs (aborts the deletion if a leg cannot be cancelled)
+ * 3. Close the bot's broker positions (fail-safe: continues even if the broker fails)
+ * 4. Delete bot from database (cascade deletes related records)
  */
 export async function deleteBot(botId: string): Promise<DeleteBotResult> {
   try {
@@ -57,26 +64,74 @@ export async function deleteBot(botId: string): Promise<DeleteBotResult> {
     console.log(`📊 [BotDeletion] Active positions: ${bot.positions.length}`);
 
     let positionsClosed = 0;
+    const broker = getBroker(bot.mode);
+
+    // Step 2: Kill switch - 매매 정지 중에는 시장가 매도를 내지 않음 (보호 주문도 그대로 유지)
+    const hasShares = bot.positions.some(position => position.quantity > 0);
+    if (hasShares) {
+      const control = await killSwitchService.getControl();
+      if (control.halted) {
+        const reason = control.haltReason || 'kill switch tripped';
+        console.error(`🛑 [BotDeletion] Trading halted, not closing positions - 삭제 중단: ${reason}`);
+        return {
+          success: false,
+          botId,
+          botName: bot.name,
+          symbol: bot.symbol,
+          error: {
+            code: 'TRADING_HALTED',
+            message: `Trading halted: ${reason}. Resume trading before deleting a bot with open positions`
+          }
+        };
+      }
+    }
+
+    // Cancel protective legs (bracket / OCO / trailing)
+    // 레그가 주식을 잡고 있으면 매도가 거부되고, 삭제 후에는 주인 없는 주문으로 남음
+    const legSymbols = bot.positions
+      .map(position => position.symbol)
+      .concat(await protectiveOrderService.openLegSymbols(bot.id))
+      .filter((symbol, index, symbols) => symbols.indexOf(symbol) === index);
+
+    for (const symbol of legSymbols) {
+      try {
+        await protectiveOrderService.releaseForExit(bot.id, symbol, broker);
+      } catch (releaseError: any) {
+        console.error(`❌ [BotDeletion] ${symbol} 보호 주문 취소 실패 - 삭제 중단:`, releaseError.message);
+        return {
+          success: false,
+          botId,
+          botName: bot.name,
+          symbol: bot.symbol,
+          error: {
+            code: 'PROTECTIVE_ORDER_CANCEL_FAILED',
+            message: releaseError.message || `Failed to cancel protective orders for ${symbol}`
+          }
+        };
+      }
+    }
 
-    // Step 2: Close Alpaca positions (if any)
+    // Step 3: Close broker positions (if any)
     if (bot.positions.length > 0) {
-      console.log(`🔄 [BotDeletion] Closing ${bot.positions.length} position(s) on Alpaca...`);
+      console.log(`🔄 [BotDeletion] Closing ${bot.positions.length} position(s) on ${broker.name}...`);
 
       for (const position of bot.positions) {
         if (position.quantity > 0) {
           try {
-            // Check if position exists on Alpaca
-            const alpacaPosition = await alpacaTradingService.getPosition(position.symbol);
+            // Check if position exists at the broker
+            const brokerPosition = await broker.getPosition(position.symbol);
 
-            if (alpacaPosition && alpacaPosition.qty > 0) {
-              console.log(`📉 [BotDeletion] Closing ${alpacaPosition.qty} shares of ${position.symbol}...`);
+            if (brokerPosition && brokerPosition.qty > 0) {
+              // Broker position is account-wide - only sell this bot's own shares
+              const closeQty = Math.min(position.quantity, brokerPosition.qty);
+              console.log(`📉 [BotDeletion] Closing ${closeQty} of ${brokerPosition.qty} shares of ${position.symbol}...`);
 
               // Close position with market sell order
-              const closeResult = await alpacaTradingService.executeTrade({
+              const closeResult = await broker.executeTrade({
                 symbol: position.symbol,
                 side: 'sell',
                 type: 'market',
-                qty: alpacaPosition.qty,
+                qty: closeQty,
                 timeInForce: 'day'
               });
 
@@ -88,10 +143,10 @@ export async function deleteBot(botId: string): Promise<DeleteBotResult> {
                 // Continue anyway (fail-safe)
               }
             } else {
-              console.log(`ℹ️ [BotDeletion] No active Alpaca position for ${position.symbol}, skipping`);
+              console.log(`ℹ️ [BotDeletion] No active ${broker.name} position for ${position.symbol}, skipping`);
             }
-          } catch (alpacaError: any) {
-            console.warn(`⚠️ [BotDeletion] Alpaca position close error for ${position.symbol}:`, alpacaError.message);
+          } catch (brokerError: any) {
+            console.warn(`⚠️ [BotDeletion] ${broker.name} position close error for ${position.symbol}:`, brokerError.message);
             // Continue anyway (fail-safe: Paper trading has no real money at risk)
           }
 
@@ -107,7 +162,7 @@ export async function deleteBot(botId: string): Promise<DeleteBotResult> {
       console.log(`ℹ️ [BotDeletion] No positions to close`);
     }
 
-    // Step 3: Delete bot from database
+    // Step 4: Delete bot from database
     // Cascade delete will automatically remove:
     // - Position records
     // - Trade records
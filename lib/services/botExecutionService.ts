@@ -0,0 +1,244 @@
+/**
+ * Bot Execution Service
+ *
+ * Runs one bot end to end (price lookup, strategy parsing, botTestService.runTest).
+ * Shared by POST /api/bots/[id]/test, the bulk test route and the BOT_RUN job
+ * handler, so cron fan-out runs bots in-process instead of calling its own HTTP API.
+ * Every run is recorded as a BotRun (trigger, outcome, linked Report/Trades).
+ * Runs are refused (and recorded as skipped) while the kill switch is tripped.
+ * A saved TradingProfile (bot or strategy) overrides stop loss, take profit, interval and RSI defaults.
+ * Data provider calls made during a run get BOT_EXECUTION priority in dataGatewayService.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { parseAnalystRating } from '@/lib/types/analyst';
+import { botTestService, TestReport } from './botTestService';
+import { technicalIndicatorService } from './technicalIndicatorService';
+import { getBroker } from './brokers';
+import { botRunService, BotRunContext } from './botRunService';
+import { killSwitchService, TradingHaltedError } from './killSwitchService';
+import { tradingProfileService, toAppliedSnapshot, toProfileExitRules } from './tradingProfileService';
+import { resolveDecisionConfig } from '@/lib/utils/decisionConfig';
+import { dataGatewayService } from './dataGatewayService';
+
+export interface BotExecutionResult {
+  botId: string;
+  botName: string;
+  runId: string;
+  currentPrice: number;
+  priceSource: string;
+  report: TestReport;
+}
+
+type BotWithStrategy = Prisma.BotGetPayload<{ include: { strategy: true } }>;
+
+class BotExecutionService {
+  /**
+   * Run a bot once. Returns null if the bot does not exist.
+   * Throws TradingHaltedError while trading is halted.
+   */
+  async runBot(
+    botId: string,
+    context: BotRunContext = { trigger: 'MANUAL' }
+  ): Promise<BotExecutionResult | null> {
+    // Get bot details
+    const bot = await prisma.bot.findUnique({
+      where: { id: botId },
+      include: { strategy: true }
+    });
+
+    if (!bot) {
+      return null;
+    }
+
+    const control = await killSwitchService.getControl();
+    if (control.halted) {
+      const reason = control.haltReason || 'kill switch tripped';
+      console.log(`🛑 Trading halted, skipping bot ${bot.name}: ${reason}`);
+      await botRunService.recordSkipped(bot.id, context, `trading halted (${reason})`);
+      throw new TradingHaltedError(reason);
+    }
+
+    const run = await botRunService.startRun(bot.id, context);
+
+    try {
+      // 봇 실행은 데이터 제공자 예산을 우선 사용 (대시보드 조회보다 먼저)
+      const execution = await dataGatewayService.runWithPriority('BOT_EXECUTION', () => this.execute(bot));
+
+      try {
+        await botRunService.completeRun(run, execution.report);
+      } catch (auditError) {
+        console.error(`⚠️ Failed to record bot run ${run.id}:`, auditError);
+      }
+
+      return { ...execution, runId: run.id };
+    } catch (error) {
+      try {
+        await botRunService.failRun(run, error);
+      } catch (auditError) {
+        console.error(`⚠️ Failed to record bot run ${run.id}:`, auditError);
+      }
+      throw error;
+    }
+  }
+
+  private async execute(bot: BotWithStrategy): Promise<Omit<BotExecutionResult, 'runId'>> {
+    // Parse analyst rating if available
+    const analystRating = parseAnalystRating(bot.analystRating);
+
+    // Get current real-time price - bot's broker first, then Alpha Vantage fallback
+    let currentPrice: number | null = null;
+    let priceSource = 'unknown';
+    const broker = getBroker(bot.mode);
+
+    try {
+      // 1. Try the broker's latest price (highest priority)
+      currentPrice = await broker.getLatestPrice(bot.symbol);
+      if (currentPrice && currentPrice > 0) {
+        priceSource = broker.name;
+        console.log(`✅ Real-time price from ${broker.name}: $${currentPrice}`);
+      }
+    } catch (brokerError) {
+      console.warn(`⚠️ ${broker.name} price failed, trying Alpha Vantage...`, brokerError);
+    }
+
+    // 2. Fallback to Alpha Vantage if the broker fails
+    if (!currentPrice || currentPrice <= 0) {
+      try {
+        currentPrice = await technicalIndicatorService.fetchCurrentPrice(bot.symbol);
+        if (currentPrice && currentPrice > 0) {
+          priceSource = 'Alpha Vantage';
+          console.log(`✅ Real-time price from Alpha Vantage (fallback): $${currentPrice}`);
+        }
+      } catch (avError) {
+        console.error('❌ Alpha Vantage price fetch also failed:', avError);
+      }
+    }
+
+    // 서킷 브레이커: 브로커 실시간 가격을 연속으로 못 받으면 전체 매매 정지
+    try {
+      await killSwitchService.recordPriceCheck(bot.symbol, priceSource === broker.name, priceSource);
+    } catch (breakerError) {
+      console.error('⚠️ Failed to record price check:', breakerError);
+    }
+
+    // 3. Final validation
+    if (!currentPrice || currentPrice <= 0) {
+      throw new Error('Failed to fetch current price from any source (Alpaca, Alpha Vantage)');
+    }
+
+    console.log(`📊 Using price: $${currentPrice} from ${priceSource}`);
+
+    // Parse strategy configuration with safe defaults
+    let entryConditions;
+    let exitConditions;
+    let strategyName = 'Default Strategy';
+    let stopLoss = 5.0;
+    let takeProfit = 10.0;
+
+    // Saved profile (bot → strategy) takes precedence over the strategy's own settings
+    const resolvedProfile = await tradingProfileService.resolveForBot(bot);
+    const savedProfile = resolvedProfile.profileId ? resolvedProfile : null;
+    const profileRsi = savedProfile?.profile.indicators.rsi;
+
+    try {
+      if (bot.strategy) {
+        strategyName = bot.strategy.name || 'Custom Strategy';
+
+        // Parse entry conditions
+        if (bot.strategy.entryConditions) {
+          entryConditions = typeof bot.strategy.entryConditions === 'string'
+            ? JSON.parse(bot.strategy.entryConditions)
+            : bot.strategy.entryConditions;
+        }
+
+        // Parse exit conditions
+        if (bot.strategy.exitConditions) {
+          exitConditions = typeof bot.strategy.exitConditions === 'string'
+            ? JSON.parse(bot.strategy.exitConditions)
+            : bot.strategy.exitConditions;
+        }
+
+        // Get stop loss and take profit from strategy
+        if (bot.strategy.stopLoss !== null && bot.strategy.stopLoss !== undefined) {
+          stopLoss = bot.strategy.stopLoss;
+        }
+        if (bot.strategy.takeProfit !== null && bot.strategy.takeProfit !== undefined) {
+          takeProfit = bot.strategy.takeProfit;
+        }
+      }
+
+      if (savedProfile) {
+        stopLoss = savedProfile.profile.stopLoss * 100;
+        takeProfit = savedProfile.profile.takeProfit * 100;
+        console.log(`🧩 Applying trading profile ${savedProfile.profile.name} (v${savedProfile.version})`);
+      }
+
+      // Fallback to default strategy if no entry conditions found
+      if (!entryConditions || Object.keys(entryConditions).length === 0) {
+        console.warn('⚠️ No entry conditions found, using default RSI strategy');
+        entryConditions = {
+          rsi: {
+            period: profileRsi?.period ?? 14,
+            operator: '<',
+            value: profileRsi?.oversold ?? 30
+          }
+        };
+      }
+
+    } catch (error) {
+      console.error('❌ Strategy parsing failed, using default:', error);
+      // Safe fallback strategy
+      entryConditions = {
+        rsi: {
+          period: profileRsi?.period ?? 14,
+          operator: '<',
+          value: profileRsi?.oversold ?? 30
+        }
+      };
+      exitConditions = {};
+    }
+
+    console.log(`🧪 Running test for bot ${bot.name} (${bot.symbol})`);
+    console.log(`💰 Current price: $${currentPrice}`);
+    console.log(`💼 Allocated fund: $${bot.fundAllocation}`);
+    console.log(`📊 Strategy:`, strategyName);
+    console.log(`📈 Entry conditions:`, JSON.stringify(entryConditions, null, 2));
+
+    // Build complete strategy object
+    const strategyConfig = {
+      id: bot.strategy?.id || 'default',
+      name: strategyName,
+      timeHorizon: savedProfile ? savedProfile.timeHorizon : bot.strategy?.timeHorizon,
+      entryConditions,
+      exitConditions: exitConditions || {},
+      stopLoss,
+      takeProfit,
+      profile: savedProfile ? toAppliedSnapshot(savedProfile) : undefined,
+      // 트레일링 스탑 → 보호 주문, 최대 보유 기간 → 보유 초과 시 전량 매도
+      profileExits: savedProfile ? toProfileExitRules(savedProfile.profile) : undefined,
+      decisionConfig: resolveDecisionConfig(bot.strategy?.decisionConfig)
+    };
+
+    // Run the test
+    const report = await botTestService.runTest(
+      strategyConfig,
+      bot.symbol,
+      currentPrice,
+      bot.fundAllocation,
+      bot.id,
+      analystRating
+    );
+
+    return {
+      botId: bot.id,
+      botName: bot.name,
+      currentPrice,
+      priceSource,
+      report
+    };
+  }
+}
+
+export const botExecutionService = new BotExecutionService();
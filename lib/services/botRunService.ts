@@ -0,0 +1,191 @@
+/**
+ * Bot Run Service
+ *
+ * Execution audit log: one BotRun row per scheduled (cron), manual or bulk run.
+ * - startRun / completeRun / failRun wrap botExecutionService.runBot
+ * - recordSkipped logs runs that never started (e.g. bot paused while queued)
+ * - Runs keep the trigger, timing, decision, outcome, linked Report/Trade ids
+ *   and external API usage, so "why didn't my bot trade at 14:00?" has an answer
+ */
+
+import { prisma } from '@/lib/prisma';
+import { BotRun, BotRunStatus, BotRunTrigger, TimeHorizon } from '@prisma/client';
+import type { TestReport } from './botTestService';
+
+export interface BotRunContext {
+  trigger: BotRunTrigger;
+  timeHorizon?: TimeHorizon | null;
+  jobId?: string | null;
+}
+
+export interface BotRunTimelineEntry {
+  id: string;
+  trigger: BotRunTrigger;
+  timeHorizon: TimeHorizon | null;
+  status: BotRunStatus;
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationMs: number | null;
+  decision: string | null;
+  tradeExecuted: boolean;
+  outcome: string | null;
+  error: string | null;
+  reportId: string | null;
+  apiCallCount: number;
+  apiCalls: Record<string, number> | null;
+  trades: Array<{
+    id: string;
+    side: string;
+    quantity: number;
+    price: number;
+    status: string;
+  }>;
+}
+
+class BotRunService {
+  async startRun(botId: string, context: BotRunContext): Promise<BotRun> {
+    return prisma.botRun.create({
+      data: {
+        botId,
+        trigger: context.trigger,
+        timeHorizon: context.timeHorizon ?? null,
+        jobId: context.jobId ?? null,
+      },
+    });
+  }
+
+  /**
+   * Record the report of a finished run (runTest errors are kept as FAILED)
+   */
+  async completeRun(run: BotRun, report: TestReport): Promise<BotRun> {
+    const apiUsage = report.apiUsage || {};
+    const finishedAt = new Date();
+
+    return prisma.botRun.update({
+      where: { id: run.id },
+      data: {
+        status: report.error ? 'FAILED' : 'SUCCEEDED',
+        finishedAt,
+        durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+        decision: report.finalDecision,
+        tradeExecuted: report.tradeExecuted || false,
+        outcome: describeOutcome(report),
+        error: report.error || null,
+        reportId: report.reportId || null,
+        tradeIds: report.tradeIds || [],
+        apiCallCount: Object.keys(apiUsage).reduce((sum, provider) => sum + apiUsage[provider], 0),
+        apiCalls: apiUsage,
+      },
+    });
+  }
+
+  async failRun(run: BotRun, error: unknown): Promise<BotRun> {
+    const message = error instanceof Error ? error.message : String(error);
+    const finishedAt = new Date();
+
+    return prisma.botRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'FAILED',
+        finishedAt,
+        durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+        outcome: `Run failed: ${message}`,
+        error: message,
+      },
+    });
+  }
+
+  async recordSkipped(botId: string, context: BotRunContext, reason: string): Promise<BotRun> {
+    const now = new Date();
+
+    return prisma.botRun.create({
+      data: {
+        botId,
+        trigger: context.trigger,
+        timeHorizon: context.timeHorizon ?? null,
+        jobId: context.jobId ?? null,
+        status: 'SKIPPED',
+        startedAt: now,
+        finishedAt: now,
+        durationMs: 0,
+        outcome: `Skipped: ${reason}`,
+      },
+    });
+  }
+
+  /**
+   * Bot run timeline (newest first) with the trades each run created
+   */
+  async getRunsByBotId(
+    botId: string,
+    options: { limit?: number; status?: BotRunStatus; before?: Date } = {}
+  ): Promise<BotRunTimelineEntry[]> {
+    const runs = await prisma.botRun.findMany({
+      where: {
+        botId,
+        ...(options.status && { status: options.status }),
+        ...(options.before && { startedAt: { lt: options.before } }),
+      },
+      orderBy: { startedAt: 'desc' },
+      take: options.limit ?? 50,
+    });
+
+    const tradeIds = runs.reduce<string[]>((ids, run) => ids.concat(run.tradeIds), []);
+    const trades = tradeIds.length > 0
+      ? await prisma.trade.findMany({
+          where: { id: { in: tradeIds } },
+          select: { id: true, side: true, quantity: true, price: true, status: true },
+        })
+      : [];
+    const tradesById = new Map(trades.map(trade => [trade.id, trade]));
+
+    return runs.map(run => ({
+      id: run.id,
+      trigger: run.trigger,
+      timeHorizon: run.timeHorizon,
+      status: run.status,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      durationMs: run.durationMs,
+      decision: run.decision,
+      tradeExecuted: run.tradeExecuted,
+      outcome: run.outcome,
+      error: run.error,
+      reportId: run.reportId,
+      apiCallCount: run.apiCallCount,
+      apiCalls: run.apiCalls as Record<string, number> | null,
+      trades: run.tradeIds
+        .map(id => tradesById.get(id))
+        .filter((trade): trade is NonNullable<typeof trade> => !!trade),
+    }));
+  }
+}
+
+/**
+ * One-line summary of what a run did (or why it did not trade)
+ */
+export function describeOutcome(report: TestReport): string {
+  if (report.error) {
+    return `Run failed: ${report.error}`;
+  }
+
+  const decision = report.finalDecision;
+  const result = report.tradeResult;
+
+  if (decision === 'HOLD') {
+    const firstLine = (report.reason || '').split('\n')[0].trim();
+    return firstLine ? `HOLD: ${firstLine}` : 'HOLD';
+  }
+  if (report.tradeSkippedReason) {
+    return `${decision} signal, no order: ${report.tradeSkippedReason}`;
+  }
+  if (report.tradeExecuted && result) {
+    return `${decision} order submitted${result.orderId ? ` (${result.orderId})` : ''}`;
+  }
+  if (result && !result.success) {
+    return `${decision} order failed: ${result.error || result.message}`;
+  }
+  return `${decision} signal, no order placed`;
+}
+
+export const botRunService = new BotRunService();
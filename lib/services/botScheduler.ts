@@ -2,12 +2,13 @@
 // Scheduling is now handled by Vercel Cron Jobs (see vercel.json).
 // This file is kept for manual execution and status checking.
 
-import { prisma } from '../prisma';
+import { enqueueBotsForTimeHorizon } from './cronExecutor';
 
 interface SchedulerConfig {
   SHORT_TERM: string;  // Every 30 minutes during market hours
   SWING: string[];     // 3 times per day
   LONG_TERM: string;   // Once per day
+  JOB_WORKER: string;  // Runs the queued bot jobs
 }
 
 // Cron schedule patterns (for reference only - actual scheduling in vercel.json)
@@ -20,81 +21,13 @@ const SCHEDULES: SchedulerConfig = {
     '0 17 * * 1-5',  // 5:00 PM UTC (1:00 PM ET - midday), Mon-Fri
     '0 20 * * 1-5'   // 8:00 PM UTC (4:00 PM ET - market close), Mon-Fri
   ],
-  LONG_TERM: '0 14 * * 1-5'  // 2:00 PM UTC (10:00 AM ET), Mon-Fri
+  LONG_TERM: '0 14 * * 1-5',  // 2:00 PM UTC (10:00 AM ET), Mon-Fri
+  JOB_WORKER: '* 8-23 * * 1-5'  // Every minute, 8 AM - 11:59 PM UTC, Mon-Fri
 };
 
 // Scheduler is disabled (using Vercel Cron Jobs instead)
 const isSchedulerActive = false;
 
-/**
- * Execute a single bot's trading logic
- */
-async function executeBotTest(botId: string): Promise<void> {
-  try {
-    console.log(`🤖 [Scheduler] Executing bot: ${botId}`);
-
-    const response = await fetch(`http://localhost:3000/api/bots/${botId}/test`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Bot execution failed: ${response.statusText}`);
-    }
-
-    const result = await response.json();
-    console.log(`✅ [Scheduler] Bot ${botId} executed successfully:`, result.decision);
-
-    // Update lastExecutedAt
-    await prisma.bot.update({
-      where: { id: botId },
-      data: { lastExecutedAt: new Date() }
-    });
-
-  } catch (error) {
-    console.error(`❌ [Scheduler] Bot ${botId} execution failed:`, error);
-  }
-}
-
-/**
- * Execute all active bots for a specific time horizon
- */
-async function executeBotsForTimeHorizon(timeHorizon: string): Promise<void> {
-  try {
-    console.log(`📊 [Scheduler] Checking ${timeHorizon} bots...`);
-
-    // Fetch all active bots with the specified time horizon
-    const bots = await prisma.bot.findMany({
-      where: {
-        status: 'ACTIVE',
-        strategy: {
-          timeHorizon: timeHorizon as any
-        }
-      },
-      include: {
-        strategy: true
-      }
-    });
-
-    if (bots.length === 0) {
-      console.log(`ℹ️ [Scheduler] No active ${timeHorizon} bots found`);
-      return;
-    }
-
-    console.log(`🔄 [Scheduler] Found ${bots.length} active ${timeHorizon} bots`);
-
-    // Execute all bots in parallel
-    await Promise.all(
-      bots.map(bot => executeBotTest(bot.id))
-    );
-
-  } catch (error) {
-    console.error(`❌ [Scheduler] Error executing ${timeHorizon} bots:`, error);
-  }
-}
-
 /**
  * Initialize and start all cron jobs
  * NOTE: This function is now a no-op. Scheduling is handled by Vercel Cron Jobs.
@@ -126,19 +59,20 @@ export function getSchedulerStatus(): {
     isRunning: isSchedulerActive,
     activeJobs: [], // No active jobs (using Vercel Cron instead)
     schedules: SCHEDULES,
-    note: 'Scheduling handled by Vercel Cron Jobs. See vercel.json for configuration.'
+    note: 'Scheduling handled by Vercel Cron Jobs (enqueue only; /api/cron/jobs runs the queue). See vercel.json for configuration.'
   };
 }
 
 /**
  * Manually trigger execution for all active bots (for testing)
+ * Bots are enqueued; the job queue worker runs them.
  */
-export async function triggerManualExecution(): Promise<void> {
+export async function triggerManualExecution(): Promise<Awaited<ReturnType<typeof enqueueBotsForTimeHorizon>>[]> {
   console.log('🔧 [Scheduler] Manual execution triggered for all active bots');
 
-  await Promise.all([
-    executeBotsForTimeHorizon('SHORT_TERM'),
-    executeBotsForTimeHorizon('SWING'),
-    executeBotsForTimeHorizon('LONG_TERM')
+  return Promise.all([
+    enqueueBotsForTimeHorizon('SHORT_TERM', 'manual'),
+    enqueueBotsForTimeHorizon('SWING', 'manual'),
+    enqueueBotsForTimeHorizon('LONG_TERM', 'manual')
   ]);
 }
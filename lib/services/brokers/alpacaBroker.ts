@@ -0,0 +1,74 @@
+/**
+ * Alpaca Broker
+ *
+ * BrokerAdapter backed by the alpacaTradingService singleton.
+ * The service is loaded on first use: it requires Alpaca credentials at construction,
+ * which simulated-only environments (dev, CI) do not need.
+ */
+
+import type { AlpacaTradingService } from '../alpacaTradingService';
+import {
+  BrokerAdapter,
+  BrokerOrder,
+  AccountInfo,
+  Position,
+  TradeRequest,
+  TradeResponse,
+} from './types';
+
+export class AlpacaBroker implements BrokerAdapter {
+  readonly name = 'alpaca' as const;
+
+  private async service(): Promise<AlpacaTradingService> {
+    const { alpacaTradingService } = await import('../alpacaTradingService');
+    return alpacaTradingService;
+  }
+
+  async getAccount(): Promise<AccountInfo> {
+    return (await this.service()).getAccount();
+  }
+
+  async getPositions(): Promise<Position[]> {
+    return (await this.service()).getPositions();
+  }
+
+  async getPosition(symbol: string): Promise<Position | null> {
+    return (await this.service()).getPosition(symbol);
+  }
+
+  async getLatestPrice(symbol: string): Promise<number | null> {
+    return (await this.service()).getLatestPrice(symbol);
+  }
+
+  async executeTrade(trade: TradeRequest): Promise<TradeResponse> {
+    return (await this.service()).executeTrade(trade);
+  }
+
+  async placeLimitOrder(
+    symbol: string,
+    quantity: number,
+    side: 'buy' | 'sell',
+    limitPrice: number,
+    botId?: string
+  ): Promise<TradeResponse> {
+    return (await this.service()).placeLimitOrder(symbol, quantity, side, limitPrice, botId);
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrder> {
+    return (await this.service()).getOrder(orderId);
+  }
+
+  async getOrders(status?: 'open' | 'closed' | 'all'): Promise<BrokerOrder[]> {
+    return (await this.service()).getOrders(status);
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    return (await this.service()).cancelOrder(orderId);
+  }
+
+  async cancelAllOrders(): Promise<void> {
+    return (await this.service()).cancelAllOrders();
+  }
+}
+
+export const alpacaBroker = new AlpacaBroker();
@@ -0,0 +1,46 @@
+/**
+ * Broker Adapters - Service Exports
+ *
+ * Resolves the broker for a bot from its TradingMode:
+ * - PAPER     → Alpaca (paper or live, depending on ALPACA_BASE_URL)
+ * - SIMULATED → in-process simulated broker (cached MarketData bars)
+ *
+ * BROKER_ADAPTER overrides every bot (e.g. "simulated" in dev/CI without network).
+ */
+
+import { TradingMode } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { env } from '@/lib/config/env';
+import { BrokerAdapter, BrokerName } from './types';
+import { alpacaBroker } from './alpacaBroker';
+import { simulatedBroker } from './simulatedBroker';
+
+export { AlpacaBroker, alpacaBroker } from './alpacaBroker';
+export { SimulatedBroker, simulatedBroker } from './simulatedBroker';
+
+export type { BrokerAdapter, BrokerName, BrokerOrder, BrokerOrderStatus } from './types';
+export type { SimulatedBrokerSettings } from './simulatedBroker';
+
+/**
+ * Broker for a trading mode (default: the global override or Alpaca)
+ */
+export function getBroker(mode?: TradingMode | null): BrokerAdapter {
+  const name: BrokerName = env.BROKER_ADAPTER || (mode === 'SIMULATED' ? 'simulated' : 'alpaca');
+  return name === 'simulated' ? simulatedBroker : alpacaBroker;
+}
+
+/**
+ * Broker for a bot (looks up its TradingMode); falls back to the default broker without a bot
+ */
+export async function getBrokerForBot(botId?: string | null): Promise<BrokerAdapter> {
+  if (!botId || env.BROKER_ADAPTER) {
+    return getBroker();
+  }
+
+  const bot = await prisma.bot.findUnique({
+    where: { id: botId },
+    select: { mode: true },
+  });
+
+  return getBroker(bot?.mode);
+}
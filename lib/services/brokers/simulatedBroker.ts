@@ -0,0 +1,613 @@
+/**
+ * Simulated Broker
+ *
+ * Fully local BrokerAdapter (no network) for dev and CI:
+ * - Fills orders against cached MarketData bars (latest bar at submission, newer bars afterwards)
+ * - Configurable slippage (bps, never beyond the limit price) and commission per fill
+ * - Account, positions and orders live in process memory
+ *
+ * Fill rules:
+ * - Market: latest bar close +/- slippage
+ * - Limit at submission: fills if marketable against the latest close
+ * - Limit afterwards: fills on the first newer bar whose range crosses the limit (at the open if it gaps through)
+ * - Day orders expire once a bar from a later trading day arrives without a fill
+ *
+ * Protective orders (same rules as the backtester, see protectiveOrders.ts):
+ * - Stop / trailing stop sells trigger on the bar low (at the open if it gaps through) and fill with slippage
+ * - Bracket / OTO legs are held until the entry fills; OCO legs share the shares and cancel each other
+ */
+
+import { prisma } from '@/lib/prisma';
+import { env } from '@/lib/config/env';
+import {
+  BrokerAdapter,
+  BrokerOrder,
+  AccountInfo,
+  Position,
+  TradeRequest,
+  TradeResponse,
+} from './types';
+import { ProtectiveBar, ProtectiveOrderState, checkProtectiveFill, advanceHighWaterMark } from '@/lib/utils/protectiveOrders';
+
+export interface SimulatedBrokerSettings {
+  initialCash: number;
+  slippageBps: number;
+  commissionPerTrade: number;
+  interval: string;  // MarketData interval used for fills ("daily", "60min", ...)
+}
+
+interface SimulatedBar {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+interface OrderState {
+  order: BrokerOrder;
+  lastBarTime: number;       // 마지막으로 체결 판단에 사용한 봉
+  submissionDay: string;     // 주문 시점 봉의 거래일 (YYYY-MM-DD)
+  parentId?: string;         // 브래킷/OCO 레그의 부모 주문
+  group?: string;            // OCO 그룹 (한쪽 체결 시 나머지 취소, 보유 수량은 한 번만 예약)
+}
+
+const OPEN_STATUSES = ['new', 'accepted', 'partially_filled'];
+
+export class SimulatedBroker implements BrokerAdapter {
+  readonly name = 'simulated' as const;
+
+  private settings: SimulatedBrokerSettings;
+  private cash: number;
+  private positions = new Map<string, { qty: number; costBasis: number }>();
+  private orders = new Map<string, OrderState>();
+  private orderSequence = 0;
+
+  constructor(settings?: Partial<SimulatedBrokerSettings>) {
+    this.settings = {
+      initialCash: env.SIM_BROKER_INITIAL_CASH,
+      slippageBps: env.SIM_BROKER_SLIPPAGE_BPS,
+      commissionPerTrade: env.SIM_BROKER_COMMISSION,
+      interval: env.SIM_BROKER_INTERVAL,
+      ...settings,
+    };
+    this.cash = this.settings.initialCash;
+  }
+
+  /**
+   * Clear account state (tests, CI runs)
+   */
+  reset(settings?: Partial<SimulatedBrokerSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.cash = this.settings.initialCash;
+    this.positions.clear();
+    this.orders.clear();
+    this.orderSequence = 0;
+  }
+
+  async getAccount(): Promise<AccountInfo> {
+    await this.refreshOpenOrders();
+    const positions = await this.getPositions();
+    const equity = this.cash + positions.reduce((sum, position) => sum + position.marketValue, 0);
+
+    return {
+      cash: this.cash,
+      portfolioValue: equity,
+      equity,
+      lastEquity: equity,
+      buyingPower: this.cash,
+      daytradeCount: 0,
+    };
+  }
+
+  async getPositions(): Promise<Position[]> {
+    await this.refreshOpenOrders();
+    const symbols = Array.from(this.positions.keys());
+    const positions: Position[] = [];
+
+    for (const symbol of symbols) {
+      const position = await this.buildPosition(symbol);
+      if (position) positions.push(position);
+    }
+
+    return positions;
+  }
+
+  async getPosition(symbol: string): Promise<Position | null> {
+    await this.refreshOpenOrders(symbol);
+    return this.buildPosition(symbol);
+  }
+
+  async getLatestPrice(symbol: string): Promise<number | null> {
+    const bar = await this.getLatestBar(symbol);
+    return bar ? bar.close : null;
+  }
+
+  async executeTrade(trade: TradeRequest): Promise<TradeResponse> {
+    try {
+      if (trade.qty <= 0) {
+        throw new Error('Quantity must be positive');
+      }
+      if (trade.type === 'limit' && !(trade.price && trade.price > 0)) {
+        throw new Error('Limit orders require a positive price');
+      }
+      if (trade.type === 'stop' && !(trade.stopPrice && trade.stopPrice > 0)) {
+        throw new Error('Stop orders require a positive stop price');
+      }
+      if (trade.type === 'trailing_stop' && !(trade.trailPercent && trade.trailPercent > 0)) {
+        throw new Error('Trailing stop orders require a positive trail percent');
+      }
+      if (trade.orderClass === 'oco' && !(trade.side === 'sell' && trade.type === 'limit' && trade.stopLossPrice)) {
+        throw new Error('OCO orders must be limit sells with a stop loss');
+      }
+      if ((trade.orderClass === 'bracket' || trade.orderClass === 'oto') && trade.side !== 'buy') {
+        throw new Error('Bracket orders must be buys');
+      }
+
+      const bar = await this.getLatestBar(trade.symbol);
+      if (!bar) {
+        throw new Error(`No cached MarketData bars for ${trade.symbol} (${this.settings.interval})`);
+      }
+
+      if (trade.side === 'sell') {
+        const held = this.positions.get(trade.symbol)?.qty || 0;
+        const reserved = this.openOrderQuantity(trade.symbol, 'sell');
+        if (trade.qty > held - reserved) {
+          throw new Error(`Insufficient position: ${held - reserved} shares available`);
+        }
+      }
+
+      const orderClass = trade.orderClass || 'simple';
+      const state = this.createOrder(trade, bar, {
+        type: trade.type,
+        side: trade.side,
+        limitPrice: trade.type === 'limit' ? trade.price : undefined,
+        stopPrice: trade.stopPrice,
+        trailPercent: trade.trailPercent,
+        orderClass,
+        status: 'new',
+      });
+      const id = state.order.id;
+
+      // 보호 주문 레그: 브래킷/OTO는 진입 체결 전까지 대기, OCO는 익절 지정가(부모)와 같은 그룹
+      if (orderClass === 'bracket' || orderClass === 'oto' || orderClass === 'oco') {
+        state.group = orderClass === 'oco' ? id : undefined;
+        const legStatus = orderClass === 'oco' ? 'new' : 'held';
+
+        if (trade.takeProfitPrice && orderClass !== 'oco') {
+          this.createOrder(trade, bar, { type: 'limit', side: 'sell', limitPrice: trade.takeProfitPrice, orderClass, status: legStatus, parentId: id });
+        }
+        if (trade.stopLossPrice) {
+          this.createOrder(trade, bar, { type: 'stop', side: 'sell', stopPrice: trade.stopLossPrice, orderClass, status: legStatus, parentId: id });
+        }
+      }
+
+      if (this.isProtective(state)) {
+        const latest: ProtectiveBar = { open: bar.close, high: bar.close, low: bar.close };
+        this.fillProtective(this.protectiveGroup(state), latest, bar.timestamp);
+      } else {
+        const fillPrice = this.fillPrice(state.order, bar, true);
+        if (fillPrice !== null) {
+          this.fill(state, fillPrice, bar.timestamp);
+        }
+      }
+
+      const priceLabel = state.order.limit_price
+        ? ` @ $${state.order.limit_price}`
+        : state.order.stop_price ? ` stop $${state.order.stop_price}` : state.order.trail_percent ? ` trail ${state.order.trail_percent}%` : '';
+      console.log(`🧪 [SimBroker] ${trade.side.toUpperCase()} ${trade.qty} ${trade.symbol} (${trade.type}${priceLabel}${orderClass !== 'simple' ? `, ${orderClass}` : ''}) → ${state.order.status}`);
+
+      return {
+        success: state.order.status !== 'rejected',
+        orderId: id,
+        message: `${trade.side.toUpperCase()} order placed for ${trade.qty} shares of ${trade.symbol} (simulated, ${state.order.status})`,
+        data: this.snapshot(state),
+      };
+    } catch (error: any) {
+      console.error(`💥 [SimBroker] Trade execution failed:`, error.message);
+      return {
+        success: false,
+        message: `Trade failed: ${error.message}`,
+        error: error.message,
+      };
+    }
+  }
+
+  async placeLimitOrder(
+    symbol: string,
+    quantity: number,
+    side: 'buy' | 'sell',
+    limitPrice: number,
+    _botId?: string
+  ): Promise<TradeResponse> {
+    return this.executeTrade({
+      symbol,
+      qty: quantity,
+      side,
+      type: 'limit',
+      price: limitPrice,
+      timeInForce: 'day',
+    });
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrder> {
+    const state = this.orders.get(orderId);
+    if (!state) {
+      throw new Error(`Failed to get order: order not found (${orderId})`);
+    }
+
+    await this.refreshOpenOrders(state.order.symbol);
+    return this.snapshot(state);
+  }
+
+  async getOrders(status?: 'open' | 'closed' | 'all'): Promise<BrokerOrder[]> {
+    await this.refreshOpenOrders();
+
+    return Array.from(this.orders.values())
+      .filter(state => !state.parentId)  // 레그는 부모 주문의 legs로 반환 (Alpaca nested)
+      .map(state => this.snapshot(state))
+      .filter(order => {
+        const isOpen = OPEN_STATUSES.indexOf(order.status) !== -1;
+        if (status === 'all') return true;
+        if (status === 'closed') return !isOpen;
+        return isOpen;  // Alpaca default: open orders
+      });
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    const state = this.orders.get(orderId);
+    if (!state) {
+      throw new Error(`Failed to cancel order: order not found (${orderId})`);
+    }
+
+    // 취소 직전까지 도착한 봉으로 먼저 체결 판단
+    await this.refreshOpenOrders(state.order.symbol);
+    if (OPEN_STATUSES.indexOf(state.order.status) !== -1) {
+      state.order.status = 'canceled';
+      // 미체결 진입 주문 취소 → 대기 중인 레그 취소, OCO 한쪽 취소 → 그룹 전체 취소
+      this.closeChildren(state.order.id, 'canceled');
+      if (state.group) {
+        this.protectiveGroup(state).forEach(leg => { leg.order.status = 'canceled'; });
+      }
+    }
+  }
+
+  async cancelAllOrders(): Promise<void> {
+    Array.from(this.orders.values()).forEach(state => {
+      if (OPEN_STATUSES.indexOf(state.order.status) !== -1 || state.order.status === 'held') {
+        state.order.status = 'canceled';
+      }
+    });
+  }
+
+  // ===== Fill simulation =====
+
+  /**
+   * Re-evaluate open orders against bars that arrived since the last check
+   */
+  private async refreshOpenOrders(symbol?: string): Promise<void> {
+    // 브래킷 진입이 체결되면 레그가 새로 열림 → 다음 패스에서 같은 봉들로 판단
+    const checked: OrderState[] = [];
+    let open = this.pendingRefresh(checked, symbol);
+
+    while (open.length > 0) {
+      await this.refreshOrders(open);
+      checked.push(...open);
+      open = this.pendingRefresh(checked, symbol);
+    }
+  }
+
+  private pendingRefresh(checked: OrderState[], symbol?: string): OrderState[] {
+    return Array.from(this.orders.values()).filter(state =>
+      OPEN_STATUSES.indexOf(state.order.status) !== -1 &&
+      (!symbol || state.order.symbol === symbol) &&
+      checked.indexOf(state) === -1
+    );
+  }
+
+  private async refreshOrders(open: OrderState[]): Promise<void> {
+    for (const state of open) {
+      // 앞선 주문의 체결로 취소된 OCO 레그는 건너뜀
+      if (OPEN_STATUSES.indexOf(state.order.status) === -1) continue;
+
+      if (this.isProtective(state)) {
+        await this.refreshProtective(state);
+        continue;
+      }
+
+      const bars = await this.getBarsAfter(state.order.symbol, new Date(state.lastBarTime));
+
+      for (const bar of bars) {
+        state.lastBarTime = bar.timestamp.getTime();
+
+        const fillPrice = this.fillPrice(state.order, bar, false);
+        if (fillPrice !== null) {
+          this.fill(state, fillPrice, bar.timestamp);
+          break;
+        }
+
+        if (state.order.time_in_force === 'day' && bar.timestamp.toISOString().slice(0, 10) !== state.submissionDay) {
+          state.order.status = 'expired';
+          this.closeChildren(state.order.id, 'canceled');
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop, trailing stop and OCO legs: evaluated together so only one leg of a group fills
+   */
+  private async refreshProtective(state: OrderState): Promise<void> {
+    const legs = this.protectiveGroup(state);
+    const bars = await this.getBarsAfter(state.order.symbol, new Date(state.lastBarTime));
+
+    for (const bar of bars) {
+      legs.forEach(leg => { leg.lastBarTime = bar.timestamp.getTime(); });
+
+      if (this.fillProtective(legs, bar, bar.timestamp)) {
+        break;
+      }
+
+      if (state.order.time_in_force === 'day' && bar.timestamp.toISOString().slice(0, 10) !== state.submissionDay) {
+        legs.forEach(leg => { leg.order.status = 'expired'; });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Fill the leg a bar triggers and cancel the rest of its group (true if one filled)
+   */
+  private fillProtective(legs: OrderState[], bar: ProtectiveBar, time: Date): boolean {
+    const stopLeg = legs.find(leg => leg.order.type === 'stop');
+    const trailingLeg = legs.find(leg => leg.order.type === 'trailing_stop');
+    const limitLeg = legs.find(leg => leg.order.type === 'limit');
+
+    const protection: ProtectiveOrderState = {
+      stopPrice: stopLeg ? parseFloat(stopLeg.order.stop_price as string) : null,
+      takeProfitPrice: limitLeg ? parseFloat(limitLeg.order.limit_price as string) : null,
+      trailPercent: trailingLeg ? parseFloat(trailingLeg.order.trail_percent as string) : null,
+      highWaterMark: trailingLeg ? parseFloat(trailingLeg.order.hwm as string) : 0,
+    };
+
+    const triggered = checkProtectiveFill(protection, bar);
+    if (!triggered) {
+      if (trailingLeg) {
+        trailingLeg.order.hwm = advanceHighWaterMark(protection, bar).highWaterMark.toString();
+      }
+      return false;
+    }
+
+    const leg = triggered.leg === 'TAKE_PROFIT' ? limitLeg : triggered.leg === 'TRAILING_STOP' ? trailingLeg : stopLeg;
+    // 스탑은 발동 후 시장가로 체결 (슬리피지), 익절은 지정가 이상으로 체결
+    const price = triggered.leg === 'TAKE_PROFIT'
+      ? triggered.price
+      : triggered.price * (1 - this.settings.slippageBps / 10000);
+
+    this.fill(leg as OrderState, price, time);
+    legs.forEach(other => {
+      if (other !== leg && OPEN_STATUSES.indexOf(other.order.status) !== -1) {
+        other.order.status = 'canceled';
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Fill price for an order on a bar, or null if it does not fill
+   */
+  private fillPrice(order: BrokerOrder, bar: SimulatedBar, atSubmission: boolean): number | null {
+    const slippage = this.settings.slippageBps / 10000;
+    const isBuy = order.side === 'buy';
+    // 주문 시점은 최신 종가, 이후 봉은 시가 기준으로 체결
+    const reference = atSubmission ? bar.close : bar.open;
+    const slipped = isBuy ? reference * (1 + slippage) : reference * (1 - slippage);
+
+    if (order.type === 'market') {
+      return slipped;
+    }
+
+    const limit = parseFloat(order.limit_price as string);
+
+    if (isBuy) {
+      const touched = atSubmission ? limit >= bar.close : bar.low <= limit;
+      return touched ? Math.min(limit, slipped) : null;
+    }
+
+    const touched = atSubmission ? limit <= bar.close : bar.high >= limit;
+    return touched ? Math.max(limit, slipped) : null;
+  }
+
+  private fill(state: OrderState, rawPrice: number, time: Date): void {
+    const order = state.order;
+    const qty = parseFloat(order.qty);
+    const price = roundPrice(rawPrice);
+    const commission = this.settings.commissionPerTrade;
+    const position = this.positions.get(order.symbol) || { qty: 0, costBasis: 0 };
+
+    if (order.side === 'buy') {
+      const cost = qty * price + commission;
+      if (cost > this.cash) {
+        order.status = 'rejected';
+        this.closeChildren(order.id, 'canceled');
+        console.warn(`⚠️ [SimBroker] ${order.id} rejected: insufficient cash ($${this.cash.toFixed(2)} < $${cost.toFixed(2)})`);
+        return;
+      }
+      this.cash -= cost;
+      position.qty += qty;
+      position.costBasis += qty * price;
+    } else {
+      const avgCost = position.qty > 0 ? position.costBasis / position.qty : 0;
+      this.cash += qty * price - commission;
+      position.qty -= qty;
+      position.costBasis = position.qty > 0 ? avgCost * position.qty : 0;
+    }
+
+    if (position.qty > 0) {
+      this.positions.set(order.symbol, position);
+    } else {
+      this.positions.delete(order.symbol);
+    }
+
+    order.status = 'filled';
+    order.filled_qty = order.qty;
+    order.filled_avg_price = price.toString();
+    order.filled_at = time.toISOString();
+
+    // 브래킷 진입 체결 → 대기 중인 레그 활성화 (체결 봉 이후부터 판단)
+    this.children(order.id).forEach(child => {
+      if (child.order.status !== 'held') return;
+      child.order.status = 'new';
+      child.lastBarTime = time.getTime();
+      child.submissionDay = time.toISOString().slice(0, 10);
+      if (child.order.type === 'trailing_stop') {
+        child.order.hwm = price.toString();
+      }
+    });
+  }
+
+  private openOrderQuantity(symbol: string, side: 'buy' | 'sell'): number {
+    // OCO 레그는 같은 주식을 공유 → 그룹당 한 번만 합산
+    const reserved: Record<string, number> = {};
+    Array.from(this.orders.values())
+      .filter(state =>
+        state.order.symbol === symbol &&
+        state.order.side === side &&
+        OPEN_STATUSES.indexOf(state.order.status) !== -1
+      )
+      .forEach(state => {
+        const key = state.group || state.order.id;
+        reserved[key] = Math.max(reserved[key] || 0, parseFloat(state.order.qty));
+      });
+
+    return Object.keys(reserved).reduce((sum, key) => sum + reserved[key], 0);
+  }
+
+  private createOrder(
+    trade: TradeRequest,
+    bar: SimulatedBar,
+    spec: {
+      type: BrokerOrder['type'];
+      side: 'buy' | 'sell';
+      limitPrice?: number;
+      stopPrice?: number;
+      trailPercent?: number;
+      orderClass: string;
+      status: string;
+      parentId?: string;
+    }
+  ): OrderState {
+    const id = `sim-${Date.now().toString(36)}-${++this.orderSequence}`;
+    const state: OrderState = {
+      order: {
+        id,
+        symbol: trade.symbol,
+        side: spec.side,
+        type: spec.type,
+        time_in_force: trade.timeInForce || 'day',
+        qty: trade.qty.toString(),
+        limit_price: spec.limitPrice !== undefined ? roundPrice(spec.limitPrice).toString() : null,
+        stop_price: spec.type === 'stop' && spec.stopPrice !== undefined ? roundPrice(spec.stopPrice).toString() : null,
+        trail_percent: spec.type === 'trailing_stop' && spec.trailPercent !== undefined ? spec.trailPercent.toString() : null,
+        hwm: spec.type === 'trailing_stop' ? bar.close.toString() : null,
+        order_class: spec.orderClass,
+        status: spec.status,
+        filled_qty: '0',
+        filled_avg_price: null,
+        submitted_at: new Date().toISOString(),
+        filled_at: null,
+      },
+      lastBarTime: bar.timestamp.getTime(),
+      submissionDay: bar.timestamp.toISOString().slice(0, 10),
+      parentId: spec.parentId,
+      // 브래킷 레그끼리, OCO 레그와 부모가 한 그룹
+      group: spec.parentId,
+    };
+    this.orders.set(id, state);
+    return state;
+  }
+
+  private isProtective(state: OrderState): boolean {
+    return state.order.side === 'sell' &&
+      (state.order.type === 'stop' || state.order.type === 'trailing_stop' || !!state.group);
+  }
+
+  /**
+   * Open sell legs that share the state's OCO group (just the state for a standalone stop)
+   */
+  private protectiveGroup(state: OrderState): OrderState[] {
+    if (!state.group) return [state];
+
+    return Array.from(this.orders.values()).filter(other =>
+      other.group === state.group &&
+      other.order.side === 'sell' &&
+      OPEN_STATUSES.indexOf(other.order.status) !== -1
+    );
+  }
+
+  private children(parentId: string): OrderState[] {
+    return Array.from(this.orders.values()).filter(state => state.parentId === parentId);
+  }
+
+  private closeChildren(parentId: string, status: 'canceled'): void {
+    this.children(parentId).forEach(child => {
+      if (child.order.status === 'held') {
+        child.order.status = status;
+      }
+    });
+  }
+
+  /**
+   * Order as the broker reports it (legs nested like Alpaca's bracket / OCO orders)
+   */
+  private snapshot(state: OrderState): BrokerOrder {
+    const legs = this.children(state.order.id);
+    return { ...state.order, legs: legs.length > 0 ? legs.map(leg => ({ ...leg.order })) : null };
+  }
+
+  private async buildPosition(symbol: string): Promise<Position | null> {
+    const position = this.positions.get(symbol);
+    if (!position || position.qty <= 0) return null;
+
+    const currentPrice = (await this.getLatestPrice(symbol)) ?? position.costBasis / position.qty;
+    const marketValue = position.qty * currentPrice;
+    const unrealizedPl = marketValue - position.costBasis;
+
+    return {
+      symbol,
+      qty: position.qty,
+      side: 'long',
+      marketValue,
+      costBasis: position.costBasis,
+      unrealizedPl,
+      unrealizedPlpc: position.costBasis > 0 ? unrealizedPl / position.costBasis : 0,
+      currentPrice,
+    };
+  }
+
+  // ===== MarketData access =====
+
+  private async getLatestBar(symbol: string): Promise<SimulatedBar | null> {
+    return prisma.marketData.findFirst({
+      where: { symbol, interval: this.settings.interval },
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true, open: true, high: true, low: true, close: true },
+    });
+  }
+
+  private async getBarsAfter(symbol: string, after: Date): Promise<SimulatedBar[]> {
+    return prisma.marketData.findMany({
+      where: { symbol, interval: this.settings.interval, timestamp: { gt: after } },
+      orderBy: { timestamp: 'asc' },
+      select: { timestamp: true, open: true, high: true, low: true, close: true },
+    });
+  }
+}
+
+// Alpaca price rules: 2 decimals at $1 and above, 4 below
+function roundPrice(price: number): number {
+  return price >= 1 ? parseFloat(price.toFixed(2)) : parseFloat(price.toFixed(4));
+}
+
+export const simulatedBroker = new SimulatedBroker();
@@ -0,0 +1,66 @@
+/**
+ * Broker Adapter Types
+ *
+ * Common interface for everything that trades: account, positions, orders and latest price.
+ * Orders use Alpaca's JSON shape (snake_case strings) so Trade reconciliation works
+ * the same for every broker.
+ */
+
+import type { AccountInfo, Position, TradeRequest, TradeResponse } from '../alpacaTradingService';
+
+export type { AccountInfo, Position, TradeRequest, TradeResponse };
+
+export type BrokerName = 'alpaca' | 'simulated';
+
+export type BrokerOrderStatus =
+  | 'new'
+  | 'accepted'
+  | 'partially_filled'
+  | 'filled'
+  | 'canceled'
+  | 'expired'
+  | 'rejected'
+  | 'held';  // 브래킷 레그: 진입 주문 체결 전 대기
+
+export interface BrokerOrder {
+  id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit' | 'stop' | 'trailing_stop';
+  time_in_force: string;
+  qty: string;
+  limit_price: string | null;
+  stop_price?: string | null;
+  trail_percent?: string | null;
+  hwm?: string | null;            // trailing stop high-water mark
+  order_class?: string;           // '' / 'simple', 'bracket', 'oto', 'oco'
+  legs?: BrokerOrder[] | null;    // child orders of a bracket / OCO order
+  status: BrokerOrderStatus | string;
+  filled_qty: string;
+  filled_avg_price: string | null;
+  submitted_at: string;
+  filled_at: string | null;
+}
+
+export interface BrokerAdapter {
+  readonly name: BrokerName;
+
+  getAccount(): Promise<AccountInfo>;
+  getPositions(): Promise<Position[]>;
+  getPosition(symbol: string): Promise<Position | null>;
+  getLatestPrice(symbol: string): Promise<number | null>;
+
+  executeTrade(trade: TradeRequest): Promise<TradeResponse>;
+  placeLimitOrder(
+    symbol: string,
+    quantity: number,
+    side: 'buy' | 'sell',
+    limitPrice: number,
+    botId?: string
+  ): Promise<TradeResponse>;
+
+  getOrder(orderId: string): Promise<BrokerOrder>;
+  getOrders(status?: 'open' | 'closed' | 'all'): Promise<BrokerOrder[]>;
+  cancelOrder(orderId: string): Promise<void>;
+  cancelAllOrders(): Promise<void>;
+}
@@ -2,60 +2,46 @@
  * Cron Executor for Vercel Cron Jobs
  *
  * Replaces node-cron scheduler with Vercel Cron Jobs.
- * This service executes bot trading logic on a schedule.
+ * Cron routes only enqueue one BOT_RUN job per active bot; the job queue
+ * worker (/api/cron/jobs) runs them with concurrency, rate and retry limits.
+ * Nothing is enqueued while the kill switch is tripped.
  */
 
 import { prisma } from '../prisma';
 import { TimeHorizon } from '@prisma/client';
+import { jobQueueService } from './jobQueueService';
+import { killSwitchService } from './killSwitchService';
 
 /**
- * Execute a single bot's trading logic
+ * Enqueue all active bots for a specific time horizon
  */
-async function executeBotTest(botId: string, baseUrl: string): Promise<{ success: boolean; error?: string }> {
-  try {
-    console.log(`🤖 [Cron] Executing bot: ${botId}`);
-
-    const response = await fetch(`${baseUrl}/api/bots/${botId}/test`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Bot execution failed: ${response.statusText}`);
-    }
-
-    const result = await response.json();
-    console.log(`✅ [Cron] Bot ${botId} executed successfully:`, result.decision);
-
-    // Update lastExecutedAt
-    await prisma.bot.update({
-      where: { id: botId },
-      data: { lastExecutedAt: new Date() }
-    });
-
-    return { success: true };
-  } catch (error: any) {
-    console.error(`❌ [Cron] Bot ${botId} execution failed:`, error);
-    return { success: false, error: error.message };
-  }
-}
-
-/**
- * Execute all active bots for a specific time horizon
- */
-export async function executeBotsForTimeHorizon(
+export async function enqueueBotsForTimeHorizon(
   timeHorizon: TimeHorizon,
-  baseUrl: string
+  trigger: string = 'cron'
 ): Promise<{
   success: boolean;
   botsFound: number;
-  botsExecuted: number;
-  botsFailed: number;
+  jobsEnqueued: number;
+  jobsSkipped: number;  // 이미 대기/실행 중인 작업이 있는 봇
+  jobIds: string[];
   errors: string[];
+  halted?: boolean;     // 킬 스위치로 전체 매매 정지 중
 }> {
   try {
+    const control = await killSwitchService.getControl();
+    if (control.halted) {
+      console.log(`🛑 [Cron] Trading halted, not enqueueing ${timeHorizon} bots: ${control.haltReason}`);
+      return {
+        success: false,
+        botsFound: 0,
+        jobsEnqueued: 0,
+        jobsSkipped: 0,
+        jobIds: [],
+        errors: [`Trading halted: ${control.haltReason}`],
+        halted: true
+      };
+    }
+
     console.log(`📊 [Cron] Checking ${timeHorizon} bots...`);
 
     // Fetch all active bots with the specified time horizon
@@ -66,9 +52,7 @@ export async function executeBotsForTimeHorizon(
           timeHorizon: timeHorizon
         }
       },
-      include: {
-        strategy: true
-      }
+      select: { id: true }
     });
 
     if (bots.length === 0) {
@@ -76,39 +60,57 @@ export async function executeBotsForTimeHorizon(
       return {
         success: true,
         botsFound: 0,
-        botsExecuted: 0,
-        botsFailed: 0,
+        jobsEnqueued: 0,
+        jobsSkipped: 0,
+        jobIds: [],
         errors: []
       };
     }
 
     console.log(`🔄 [Cron] Found ${bots.length} active ${timeHorizon} bots`);
 
-    // Execute all bots in parallel
-    const results = await Promise.all(
-      bots.map(bot => executeBotTest(bot.id, baseUrl))
-    );
+    const jobIds: string[] = [];
+    const errors: string[] = [];
+    let jobsEnqueued = 0;
+    let jobsSkipped = 0;
+
+    for (const bot of bots) {
+      try {
+        const { job, created } = await jobQueueService.enqueue('BOT_RUN', {
+          botId: bot.id,
+          payload: { timeHorizon, trigger }
+        });
 
-    const botsExecuted = results.filter(r => r.success).length;
-    const botsFailed = results.filter(r => !r.success).length;
-    const errors = results.filter(r => !r.success).map(r => r.error || 'Unknown error');
+        jobIds.push(job.id);
+        if (created) {
+          jobsEnqueued++;
+        } else {
+          jobsSkipped++;
+        }
+      } catch (error: any) {
+        console.error(`❌ [Cron] Failed to enqueue bot ${bot.id}:`, error);
+        errors.push(`${bot.id}: ${error.message}`);
+      }
+    }
 
-    console.log(`✅ [Cron] ${timeHorizon} execution complete: ${botsExecuted} success, ${botsFailed} failed`);
+    console.log(`✅ [Cron] ${timeHorizon} enqueue complete: ${jobsEnqueued} queued, ${jobsSkipped} already pending`);
 
     return {
-      success: true,
+      success: errors.length === 0,
       botsFound: bots.length,
-      botsExecuted,
-      botsFailed,
+      jobsEnqueued,
+      jobsSkipped,
+      jobIds,
       errors
     };
   } catch (error: any) {
-    console.error(`❌ [Cron] Error executing ${timeHorizon} bots:`, error);
+    console.error(`❌ [Cron] Error enqueueing ${timeHorizon} bots:`, error);
     return {
       success: false,
       botsFound: 0,
-      botsExecuted: 0,
-      botsFailed: 0,
+      jobsEnqueued: 0,
+      jobsSkipped: 0,
+      jobIds: [],
       errors: [error.message]
     };
   }
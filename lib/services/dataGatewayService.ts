@@ -0,0 +1,458 @@
+/**
+ * Data Gateway Service
+ *
+ * Single entry point for external data providers (Alpha Vantage, FMP, Alpaca data, OpenAI):
+ * - Shared response cache in Postgres (ProviderCacheEntry) with per-endpoint TTLs,
+ *   so every service and every server instance sees the same cached responses
+ * - Request coalescing: concurrent requests for the same key share one network call
+ * - Per-minute window / daily budget per provider (API.PROVIDER_BUDGETS) with priorities:
+ *   bot execution may use the whole budget, dashboards only part of it
+ * - Usage log per call (ProviderApiLog); both budget windows are counted from it, so the
+ *   limits hold across server instances and cold starts. A call reserves its log row
+ *   (PENDING) when it takes the budget and fills in the outcome when it returns.
+ *
+ * When a call is refused or fails, an expired cache entry is served instead if one exists.
+ * Requests with a validator only cache responses that pass it and skip cached entries
+ * that don't (another caller of the same key may have stored it without checking).
+ *
+ * PROVIDER_FIXTURE_MODE=record saves every provider response as a fixture file;
+ * replay serves them without network, cache or budget (lib/services/providerFixtureService.ts).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { API } from '@/lib/config/trading';
+import {
+  RequestPriority,
+  ProviderBudget,
+  MINUTE_WINDOW_MS,
+  checkBudget,
+} from '@/lib/utils/rateBudget';
+import { providerFixtureService } from './providerFixtureService';
+
+export type DataProvider = 'alphaVantage' | 'fmp' | 'alpaca' | 'openai';
+
+export interface GatewayRequest<T> {
+  provider: DataProvider;
+  endpoint: string;                                    // e.g. "/v4/senate-trading", "TIME_SERIES_DAILY"
+  params?: Record<string, string | number | undefined>; // cache key (API 키 제외)
+  ttlMs?: number;                                      // 0 / 없음 = 캐시하지 않음 (예산과 로그만 적용)
+  priority?: RequestPriority;                          // 없으면 runWithPriority 컨텍스트, 기본 DASHBOARD
+  fetcher: () => Promise<T>;                           // 실제 네트워크 호출 (오류 시 throw)
+  validate?: (data: T) => void;                        // 응답 검증 (실패 시 throw) - 통과한 응답만 캐시 / 반환
+}
+
+export interface CacheStatus {
+  isCached: boolean;
+  age?: number;       // seconds
+  expiresAt?: string; // ISO
+}
+
+export interface ProviderUsage {
+  provider: DataProvider;
+  budget: ProviderBudget;
+  today: Record<string, number>; // status -> count
+}
+
+/**
+ * Thrown when a provider budget has no room left for the request priority
+ */
+export class ProviderBudgetExceededError extends Error {
+  constructor(
+    public readonly provider: DataProvider,
+    public readonly window: 'minute' | 'day',
+    public readonly retryAfterMs: number
+  ) {
+    super(`${provider} ${window} budget exceeded (retry in ${Math.ceil(retryAfterMs / 1000)}s)`);
+    this.name = 'ProviderBudgetExceededError';
+  }
+}
+
+const INTERNAL_PROVIDER = 'internal';
+const DEFAULT_PRIORITY: RequestPriority = 'DASHBOARD';
+const COUNTED_STATUSES = ['PENDING', 'SUCCESS', 'ERROR', 'RATE_LIMITED'];
+const RATE_LIMIT_PATTERN = /rate.?limit|api limit|call frequency|429/i;
+
+/**
+ * Stable cache key: provider:endpoint:sorted params
+ */
+export function buildCacheKey(
+  provider: string,
+  endpoint: string,
+  params: Record<string, string | number | undefined> = {}
+): string {
+  const query = Object.keys(params)
+    .filter(name => params[name] !== undefined)
+    .sort()
+    .map(name => `${name}=${params[name]}`)
+    .join('&');
+  return `${provider}:${endpoint}${query ? `?${query}` : ''}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+class DataGatewayService {
+  private inFlight = new Map<string, Promise<unknown>>();
+  private priorityContext = new AsyncLocalStorage<RequestPriority>();
+
+  /**
+   * Run fn with a request priority (every gateway call inside inherits it)
+   */
+  runWithPriority<T>(priority: RequestPriority, fn: () => Promise<T>): Promise<T> {
+    return this.priorityContext.run(priority, fn);
+  }
+
+  currentPriority(): RequestPriority {
+    return this.priorityContext.getStore() || DEFAULT_PRIORITY;
+  }
+
+  /**
+   * Call an external provider through the shared cache and budget
+   */
+  async request<T>(req: GatewayRequest<T>): Promise<T> {
+    const key = buildCacheKey(req.provider, req.endpoint, req.params);
+    return providerFixtureService.resolve(
+      { key, provider: req.provider, endpoint: req.endpoint, params: req.params },
+      () => this.live(key, req)
+    );
+  }
+
+  /**
+   * Cache a derived value (e.g. an aggregated dashboard result) in the shared cache
+   * No budget or usage log - the providers it calls go through request() themselves.
+   */
+  async remember<T>(key: string, ttlMs: number, compute: () => Promise<T>): Promise<T> {
+    if (providerFixtureService.isReplaying()) {
+      return compute();
+    }
+    return this.cached(`${INTERNAL_PROVIDER}:${key}`, INTERNAL_PROVIDER, key, ttlMs, compute);
+  }
+
+  /**
+   * Cache status of the newest entry whose key starts with the prefix
+   */
+  async getCacheStatus(keyPrefix: string): Promise<CacheStatus> {
+    if (providerFixtureService.isReplaying()) {
+      return { isCached: false };
+    }
+
+    try {
+      const entry = await prisma.providerCacheEntry.findFirst({
+        where: { key: { startsWith: keyPrefix } },
+        orderBy: { updatedAt: 'desc' },
+      });
+      if (!entry) return { isCached: false };
+
+      return {
+        isCached: entry.expiresAt.getTime() > Date.now(),
+        age: Math.floor((Date.now() - entry.updatedAt.getTime()) / 1000),
+        expiresAt: entry.expiresAt.toISOString(),
+      };
+    } catch (error) {
+      console.warn('[DataGateway] ⚠️ 캐시 상태 조회 실패:', error);
+      return { isCached: false };
+    }
+  }
+
+  /**
+   * Delete cached entries whose key starts with the prefix
+   */
+  async clearCache(keyPrefix: string): Promise<number> {
+    if (providerFixtureService.isReplaying()) {
+      return 0;
+    }
+
+    const result = await prisma.providerCacheEntry.deleteMany({
+      where: { key: { startsWith: keyPrefix } },
+    });
+    console.log(`[DataGateway] 🗑️ 캐시 삭제: ${keyPrefix}* (${result.count}건)`);
+    return result.count;
+  }
+
+  /**
+   * Today's calls per provider and status (UTC day)
+   */
+  async getUsage(): Promise<ProviderUsage[]> {
+    const since = this.startOfUtcDay();
+    const rows = await prisma.providerApiLog.groupBy({
+      by: ['provider', 'status'],
+      where: { timestamp: { gte: since } },
+      _count: { _all: true },
+    });
+
+    const providers = Object.keys(API.PROVIDER_BUDGETS) as DataProvider[];
+    return providers.map(provider => {
+      const today: Record<string, number> = {};
+      rows
+        .filter(row => row.provider === provider)
+        .forEach(row => {
+          today[row.status] = row._count._all;
+        });
+      return { provider, budget: this.getBudget(provider), today };
+    });
+  }
+
+  /**
+   * Shared cache (when the request has a TTL) → budget → provider
+   */
+  private live<T>(key: string, req: GatewayRequest<T>): Promise<T> {
+    const priority = req.priority || this.currentPriority();
+    const ttlMs = req.ttlMs || 0;
+
+    if (ttlMs <= 0) {
+      return this.callProvider(req, priority);
+    }
+    return this.cached(key, req.provider, req.endpoint, ttlMs, () => this.callProvider(req, priority), req.validate);
+  }
+
+  /**
+   * Fresh cache → in-flight request → compute (stale entry as fallback)
+   */
+  private async cached<T>(
+    key: string,
+    provider: string,
+    endpoint: string,
+    ttlMs: number,
+    compute: () => Promise<T>,
+    validate?: (data: T) => void
+  ): Promise<T> {
+    const entry = await this.readCache(key, validate);
+    if (entry && entry.expiresAt.getTime() > Date.now()) {
+      return entry.payload as T;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      console.log(`[DataGateway] ⏳ 진행 중인 요청 공유: ${key}`);
+      return pending as Promise<T>;
+    }
+
+    const promise = (async () => {
+      try {
+        const data = await compute();
+        await this.writeCache(key, provider, endpoint, data, ttlMs);
+        return data;
+      } catch (error) {
+        if (entry) {
+          console.warn(
+            `[DataGateway] ⚠️ ${key} 호출 실패 - 만료된 캐시 사용:`,
+            error instanceof Error ? error.message : error
+          );
+          return entry.payload as T;
+        }
+        throw error;
+      }
+    })();
+
+    this.inFlight.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async callProvider<T>(req: GatewayRequest<T>, priority: RequestPriority): Promise<T> {
+    const logId = await this.acquire(req.provider, req.endpoint, priority);
+
+    const startTime = Date.now();
+    try {
+      const data = await req.fetcher();
+      if (req.validate) {
+        req.validate(data);
+      }
+      await this.finish(logId, req.provider, req.endpoint, priority, 'SUCCESS', Date.now() - startTime);
+      return data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const status = RATE_LIMIT_PATTERN.test(error instanceof Error ? `${error.name} ${message}` : message)
+        ? 'RATE_LIMITED'
+        : 'ERROR';
+      await this.finish(logId, req.provider, req.endpoint, priority, status, Date.now() - startTime, message);
+      throw error;
+    }
+  }
+
+  /**
+   * Take a slot from the provider budget and reserve the call in the usage log
+   * Bot execution and background work wait for a per-minute slot; dashboards are refused at once.
+   * Returns the id of the reserved log row (null if it could not be written).
+   */
+  private async acquire(provider: DataProvider, endpoint: string, priority: RequestPriority): Promise<string | null> {
+    const budget = this.getBudget(provider);
+    const share = API.PRIORITY_SHARES[priority];
+    const waitUntil = Date.now() + API.MAX_BUDGET_WAIT_MS;
+
+    for (;;) {
+      const [usedToday, recentCalls] = await Promise.all([
+        budget.perDay !== null ? this.countCallsToday(provider) : Promise.resolve(0),
+        budget.perMinute !== null ? this.recentCallTimes(provider) : Promise.resolve([]),
+      ]);
+      const now = Date.now();
+      const decision = checkBudget({ budget, recentCalls, usedToday, share, now });
+
+      if (decision.allowed) {
+        return this.reserve(provider, endpoint, priority, now);
+      }
+
+      const canWait =
+        priority !== 'DASHBOARD' && decision.reason === 'minute' && now + decision.retryAfterMs <= waitUntil;
+      if (!canWait) {
+        console.warn(`[DataGateway] 🚫 ${provider} ${decision.reason} 예산 초과 (${priority}) - ${endpoint}`);
+        await this.log(provider, endpoint, priority, 'BUDGET_EXCEEDED', 0);
+        throw new ProviderBudgetExceededError(provider, decision.reason, decision.retryAfterMs);
+      }
+
+      console.log(`[DataGateway] ⏱️ ${provider} 분당 한도 대기 ${decision.retryAfterMs}ms (${priority})`);
+      await sleep(decision.retryAfterMs);
+    }
+  }
+
+  private getBudget(provider: DataProvider): ProviderBudget {
+    return API.PROVIDER_BUDGETS[provider];
+  }
+
+  private startOfUtcDay(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+
+  /**
+   * Calls made today across all instances (refusals don't count)
+   */
+  private async countCallsToday(provider: DataProvider): Promise<number> {
+    try {
+      return await prisma.providerApiLog.count({
+        where: {
+          provider,
+          status: { in: COUNTED_STATUSES },
+          timestamp: { gte: this.startOfUtcDay() },
+        },
+      });
+    } catch (error) {
+      console.warn(`[DataGateway] ⚠️ ${provider} 사용량 조회 실패 - 일일 예산 검사 생략:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Timestamps of the calls in the last minute across all instances (refusals don't count)
+   */
+  private async recentCallTimes(provider: DataProvider): Promise<number[]> {
+    try {
+      const rows = await prisma.providerApiLog.findMany({
+        where: {
+          provider,
+          status: { in: COUNTED_STATUSES },
+          timestamp: { gte: new Date(Date.now() - MINUTE_WINDOW_MS) },
+        },
+        select: { timestamp: true },
+        orderBy: { timestamp: 'asc' },
+      });
+      return rows.map(row => row.timestamp.getTime());
+    } catch (error) {
+      console.warn(`[DataGateway] ⚠️ ${provider} 분당 사용량 조회 실패 - 분당 한도 검사 생략:`, error);
+      return [];
+    }
+  }
+
+  private async readCache<T>(key: string, validate?: (data: T) => void) {
+    try {
+      const entry = await prisma.providerCacheEntry.findUnique({ where: { key } });
+      if (entry && validate) {
+        try {
+          validate(entry.payload as T);
+        } catch (error) {
+          console.warn(`[DataGateway] ⚠️ 검증되지 않은 캐시 무시 (${key}):`, error instanceof Error ? error.message : error);
+          return null;
+        }
+      }
+      return entry;
+    } catch (error) {
+      console.warn(`[DataGateway] ⚠️ 캐시 조회 실패 (${key}):`, error);
+      return null;
+    }
+  }
+
+  private async writeCache(key: string, provider: string, endpoint: string, data: unknown, ttlMs: number) {
+    const payload = JSON.parse(JSON.stringify(data ?? null)) as Prisma.InputJsonValue;
+    const expiresAt = new Date(Date.now() + ttlMs);
+    try {
+      await prisma.providerCacheEntry.upsert({
+        where: { key },
+        create: { key, provider, endpoint, payload, expiresAt },
+        update: { payload, expiresAt },
+      });
+    } catch (error) {
+      console.warn(`[DataGateway] ⚠️ 캐시 저장 실패 (${key}):`, error);
+    }
+  }
+
+  /**
+   * Reserve the call in the usage log before it goes out (counts against both windows right away)
+   */
+  private async reserve(
+    provider: DataProvider,
+    endpoint: string,
+    priority: RequestPriority,
+    now: number
+  ): Promise<string | null> {
+    try {
+      const row = await prisma.providerApiLog.create({
+        data: { provider, endpoint, priority, status: 'PENDING', responseTime: 0, timestamp: new Date(now) },
+      });
+      return row.id;
+    } catch (error) {
+      console.warn(`[DataGateway] ⚠️ 사용량 예약 실패 (${provider} ${endpoint}):`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Record the outcome on the reserved row (or as a new row if the reservation failed)
+   */
+  private async finish(
+    logId: string | null,
+    provider: DataProvider,
+    endpoint: string,
+    priority: RequestPriority,
+    status: string,
+    responseTime: number,
+    errorMessage?: string
+  ) {
+    if (!logId) {
+      return this.log(provider, endpoint, priority, status, responseTime, errorMessage);
+    }
+
+    try {
+      await prisma.providerApiLog.update({
+        where: { id: logId },
+        data: { status, responseTime, errorMessage },
+      });
+    } catch (error) {
+      console.warn(`[DataGateway] ⚠️ 사용량 로그 갱신 실패 (${provider} ${endpoint}):`, error);
+    }
+  }
+
+  private async log(
+    provider: DataProvider,
+    endpoint: string,
+    priority: RequestPriority,
+    status: string,
+    responseTime: number,
+    errorMessage?: string
+  ) {
+    try {
+      await prisma.providerApiLog.create({
+        data: { provider, endpoint, priority, status, responseTime, errorMessage },
+      });
+    } catch (error) {
+      console.warn(`[DataGateway] ⚠️ 사용량 로그 저장 실패 (${provider} ${endpoint}):`, error);
+    }
+  }
+}
+
+export const dataGatewayService = new DataGatewayService();
@@ -0,0 +1,311 @@
+/**
+ * Decision Replay Service
+ *
+ * Feeds stored Reports back through the current decision logic (lib/utils/unifiedDecision)
+ * and diffs the result against the recorded decision:
+ * - Reports with decisionInputs replay with the recorded position, fund allocation and GPT response
+ * - Older reports are reconstructed: position from the bot's fills before the report, the bot's
+ *   current fund allocation, the recorded GPT adjustment (un-damped) and the social sentiment
+ *   solved from the recorded base score
+ *
+ * Each bot's current strategy decisionConfig (weights, components, thresholds) is applied to the replay.
+ *
+ * No network: the recorded GPT judgement is reused, nothing is sent to OpenAI, news APIs or the broker.
+ * Used to check scoring changes before deploying them (GET /api/reports/replay, scripts/replay-decisions.ts).
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Report, Trade } from '@prisma/client';
+import type { AITradeDecision, CurrentPosition } from './aiTradingService';
+import { effectiveFill, rebuildPositionFromFills } from '@/lib/utils/positionLedger';
+import {
+  DecisionInputs,
+  GptJudgement,
+  RecordedDecisionInputs,
+  TechnicalConditionResult,
+  currentPositionRatio,
+  positionDampingFactor,
+  resolveUnifiedDecision,
+} from '@/lib/utils/unifiedDecision';
+import { DecisionConfig, resolveDecisionConfig } from '@/lib/utils/decisionConfig';
+
+export interface ReplayFilter {
+  botId?: string;
+  symbol?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  changedOnly?: boolean;   // results에 결정이 바뀐 리포트만 포함 (집계는 전체 기준)
+}
+
+export type ReplayInputSource = 'RECORDED' | 'RECONSTRUCTED';
+
+export interface ReplayedDecision {
+  action: 'BUY' | 'SELL' | 'HOLD';
+  finalScore: number;
+  baseScore: number;
+  quantity: number;
+}
+
+export interface DecisionReplayResult {
+  reportId: string;
+  botId: string;
+  symbol: string;
+  timestamp: Date;
+  inputSource: ReplayInputSource;
+  original: ReplayedDecision;
+  replayed: ReplayedDecision;
+  actionChanged: boolean;
+  scoreDelta: number;   // replayed - original finalScore
+}
+
+export interface DecisionReplaySummary {
+  total: number;
+  replayed: number;
+  changed: number;
+  transitions: Record<string, number>;   // 'BUY→HOLD' 등 바뀐 결정 집계
+  averageScoreDelta: number;
+  results: DecisionReplayResult[];
+  skipped: { reportId: string; reason: string }[];
+}
+
+export const MAX_REPLAY_REPORTS = 1000;
+
+const GPT_FAILURE_PREFIX = 'GPT 분석 실패';
+const SCORE_EPSILON = 1e-6;
+
+type ReplayReport = Pick<
+  Report,
+  | 'id' | 'botId' | 'symbol' | 'timestamp' | 'currentPrice' | 'stopLossPercent' | 'takeProfitPercent'
+  | 'newsSentiment' | 'sentimentLabel' | 'technicalScore' | 'baseScore' | 'gptAdjustment' | 'finalScore'
+  | 'aiReasoning' | 'aiAction' | 'aiQuantity' | 'conditions' | 'decisionInputs'
+>;
+
+/**
+ * Social sentiment that produced the recorded base score (reports before decisionInputs)
+ * Solves the default weighting those reports were scored with: 0.7 social / 0.3 technical without
+ * Alpha Vantage, 0.6 Alpha / 0.1 social / 0.3 technical with both.
+ */
+function inferSocialScore(baseScore: number, sentimentScore: number, technicalScore: number): number {
+  if (sentimentScore === 0) {
+    // 뉴스/소셜 모두 없으면 기초 점수 = 기술 점수
+    if (Math.abs(baseScore - technicalScore) < SCORE_EPSILON) return 0;
+    return (baseScore - technicalScore * 0.3) / 0.7;
+  }
+
+  const withoutSocial = sentimentScore * 0.7 + technicalScore * 0.3;
+  if (Math.abs(baseScore - withoutSocial) < SCORE_EPSILON) return 0;
+  return (baseScore - sentimentScore * 0.6 - technicalScore * 0.3) / 0.1;
+}
+
+/**
+ * Bot position just before the report from its own fills
+ */
+function positionAt(trades: Trade[], before: Date, price: number): CurrentPosition | null {
+  const ledger = rebuildPositionFromFills(
+    trades
+      .filter(trade => trade.executedAt.getTime() < before.getTime())
+      .map(trade => ({ side: trade.side, executedAt: trade.executedAt, ...effectiveFill(trade) }))
+  );
+  if (ledger.quantity <= 0) return null;
+
+  const currentValue = ledger.quantity * price;
+  const unrealizedPL = currentValue - ledger.totalCost;
+  return {
+    quantity: ledger.quantity,
+    entryPrice: ledger.avgEntryPrice,
+    currentValue,
+    unrealizedPL,
+    unrealizedPLPercent: ledger.totalCost > 0 ? (unrealizedPL / ledger.totalCost) * 100 : 0,
+  };
+}
+
+/**
+ * Decision inputs for a report saved before Report.decisionInputs existed
+ */
+function reconstructInputs(
+  report: ReplayReport,
+  trades: Trade[],
+  fundAllocation: number
+): { inputs: DecisionInputs; gpt: GptJudgement | null; gptError?: string } {
+  const conditions: TechnicalConditionResult[] = JSON.parse(report.conditions || '[]');
+  const sentimentScore = report.newsSentiment || 0;
+
+  const inputs: DecisionInputs = {
+    currentPrice: report.currentPrice,
+    currentPosition: positionAt(trades, report.timestamp, report.currentPrice),
+    fundAllocation,
+    stopLoss: report.stopLossPercent ?? 5,
+    takeProfit: report.takeProfitPercent ?? 10,
+    sentimentScore,
+    sentimentLabel: report.sentimentLabel || 'Neutral',
+    socialScore: inferSocialScore(report.baseScore ?? 0, sentimentScore, report.technicalScore ?? 0),
+    technicalSignal: conditions.length > 0 && conditions.every(cond => cond.result),
+    technicalConditions: conditions,
+  };
+
+  const aiReasoning = report.aiReasoning || '';
+  if (aiReasoning.indexOf(GPT_FAILURE_PREFIX) === 0) {
+    return { inputs, gpt: null, gptError: aiReasoning };
+  }
+
+  // 기록된 조정값은 포지션 감쇠 후 값 → 감쇠 전으로 되돌려 이중 감쇠 방지
+  let adjustment = report.gptAdjustment ?? 0;
+  const ratio = currentPositionRatio(inputs);
+  if (inputs.currentPosition && adjustment > 0 && ratio < 0.8) {
+    adjustment /= positionDampingFactor(ratio);
+  }
+
+  return { inputs, gpt: { adjustment, reasoning: aiReasoning } };
+}
+
+class DecisionReplayService {
+  /**
+   * Replay stored reports (oldest first) with the current decision logic
+   */
+  async replay(filter: ReplayFilter = {}): Promise<DecisionReplaySummary> {
+    const limit = Math.min(Math.max(filter.limit || 200, 1), MAX_REPLAY_REPORTS);
+
+    const reports: ReplayReport[] = await prisma.report.findMany({
+      where: {
+        botId: filter.botId,
+        symbol: filter.symbol,
+        timestamp: filter.from || filter.to ? { gte: filter.from, lte: filter.to } : undefined,
+      },
+      orderBy: { timestamp: 'asc' },
+      take: limit,
+      select: {
+        id: true,
+        botId: true,
+        symbol: true,
+        timestamp: true,
+        currentPrice: true,
+        stopLossPercent: true,
+        takeProfitPercent: true,
+        newsSentiment: true,
+        sentimentLabel: true,
+        technicalScore: true,
+        baseScore: true,
+        gptAdjustment: true,
+        finalScore: true,
+        aiReasoning: true,
+        aiAction: true,
+        aiQuantity: true,
+        conditions: true,
+        decisionInputs: true,
+      },
+    });
+
+    console.log(`🔁 [Replay] 리포트 ${reports.length}건 재현 시작`);
+
+    const unique = (botId: string, index: number, all: string[]) => all.indexOf(botId) === index;
+    const botIds = reports.map(report => report.botId).filter(unique);
+    // 기록된 입력이 없는 리포트만 봇 체결 내역 필요
+    const legacyBotIds = reports
+      .filter(report => !report.decisionInputs)
+      .map(report => report.botId)
+      .filter(unique);
+
+    let bots: { id: string; fundAllocation: number; strategy: { decisionConfig: unknown } | null }[] = [];
+    let trades: Trade[] = [];
+    if (botIds.length > 0) {
+      [bots, trades] = await Promise.all([
+        prisma.bot.findMany({
+          where: { id: { in: botIds } },
+          select: { id: true, fundAllocation: true, strategy: { select: { decisionConfig: true } } },
+        }),
+        legacyBotIds.length > 0
+          ? prisma.trade.findMany({ where: { botId: { in: legacyBotIds } }, orderBy: { executedAt: 'asc' } })
+          : Promise.resolve([] as Trade[]),
+      ]);
+    }
+
+    // 봇별 현재 전략의 판단 설정
+    const configs: Record<string, DecisionConfig> = {};
+    bots.forEach(bot => {
+      configs[bot.id] = resolveDecisionConfig(bot.strategy?.decisionConfig);
+    });
+
+    const summary: DecisionReplaySummary = {
+      total: reports.length,
+      replayed: 0,
+      changed: 0,
+      transitions: {},
+      averageScoreDelta: 0,
+      results: [],
+      skipped: [],
+    };
+    let scoreDeltaSum = 0;
+
+    reports.forEach(report => {
+      if (!report.aiAction || report.finalScore === null) {
+        summary.skipped.push({ reportId: report.id, reason: 'No AI decision recorded' });
+        return;
+      }
+
+      let inputSource: ReplayInputSource;
+      let replayedDecision: AITradeDecision;
+      const config = configs[report.botId];
+      try {
+        if (report.decisionInputs) {
+          const recorded: RecordedDecisionInputs = JSON.parse(report.decisionInputs);
+          inputSource = 'RECORDED';
+          replayedDecision = resolveUnifiedDecision(recorded, recorded.gpt, { config, gptError: recorded.gptError });
+        } else {
+          const bot = bots.find(b => b.id === report.botId);
+          const botTrades = trades.filter(trade => trade.botId === report.botId && trade.symbol === report.symbol);
+          const { inputs, gpt, gptError } = reconstructInputs(report, botTrades, bot?.fundAllocation ?? 1000);
+          inputSource = 'RECONSTRUCTED';
+          replayedDecision = resolveUnifiedDecision(inputs, gpt, { config, gptError });
+        }
+      } catch (error: any) {
+        summary.skipped.push({ reportId: report.id, reason: `Invalid recorded inputs: ${error.message}` });
+        return;
+      }
+
+      const original: ReplayedDecision = {
+        action: report.aiAction as ReplayedDecision['action'],
+        finalScore: report.finalScore,
+        baseScore: report.baseScore ?? 0,
+        quantity: report.aiQuantity ?? 0,
+      };
+      const replayed: ReplayedDecision = {
+        action: replayedDecision.action,
+        finalScore: replayedDecision.finalScore,
+        baseScore: replayedDecision.objectiveScore.baseScore,
+        quantity: replayedDecision.quantity || 0,
+      };
+      const actionChanged = original.action !== replayed.action;
+      const scoreDelta = replayed.finalScore - original.finalScore;
+
+      summary.replayed++;
+      scoreDeltaSum += scoreDelta;
+      if (actionChanged) {
+        summary.changed++;
+        const transition = `${original.action}→${replayed.action}`;
+        summary.transitions[transition] = (summary.transitions[transition] || 0) + 1;
+      }
+
+      if (!filter.changedOnly || actionChanged) {
+        summary.results.push({
+          reportId: report.id,
+          botId: report.botId,
+          symbol: report.symbol,
+          timestamp: report.timestamp,
+          inputSource,
+          original,
+          replayed,
+          actionChanged,
+          scoreDelta,
+        });
+      }
+    });
+
+    summary.averageScoreDelta = summary.replayed > 0 ? scoreDeltaSum / summary.replayed : 0;
+    console.log(`✅ [Replay] ${summary.replayed}건 재현, 결정 변경 ${summary.changed}건, 건너뜀 ${summary.skipped.length}건`);
+
+    return summary;
+  }
+}
+
+export const decisionReplayService = new DecisionReplayService();
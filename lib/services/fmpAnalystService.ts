@@ -6,6 +6,8 @@
  */
 
 import { env } from '@/lib/config/env';
+import { API } from '@/lib/config/trading';
+import { dataGatewayService } from './dataGatewayService';
 
 export interface AnalystChange {
   company: string;
@@ -59,18 +61,28 @@ class FMPAnalystService {
     const url = `${this.baseUrl}/upgrades-downgrades?symbol=${symbol}&apikey=${this.apiKey}`;
 
     try {
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error(`FMP API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-
-      // 에러 메시지가 포함된 경우
-      if (data['Error Message']) {
-        throw new Error(data['Error Message']);
-      }
+      const data = await dataGatewayService.request({
+        provider: 'fmp',
+        endpoint: '/v4/upgrades-downgrades',
+        params: { symbol },
+        ttlMs: API.CACHE_TTLS.ANALYST,
+        fetcher: async () => {
+          const response = await fetch(url);
+
+          if (!response.ok) {
+            throw new Error(`FMP API error: ${response.statusText}`);
+          }
+
+          const data = await response.json();
+
+          // 에러 메시지가 포함된 경우
+          if (data['Error Message']) {
+            throw new Error(data['Error Message']);
+          }
+
+          return data;
+        },
+      });
 
       return data || [];
 
@@ -9,13 +9,15 @@
  * 5. Insider Trading - Insider trading transactions
  *
  * Features:
- * - 5-minute in-memory caching per data source
+ * - Shared cache and rate budget via dataGatewayService (TTL per data source)
  * - Rate limit protection (300 calls/minute on paid plan)
  * - Parallel API calls for performance
- * - Graceful error handling with fallback to cached data
+ * - Graceful error handling with fallback to cached data (expired entries included)
  */
 
 import { env } from '@/lib/config/env';
+import { API } from '@/lib/config/trading';
+import { dataGatewayService } from './dataGatewayService';
 import {
   FMPStockNews,
   FMPPressRelease,
@@ -27,12 +29,15 @@ import {
 } from '@/lib/types/fmpNews';
 
 /**
- * Cache entry structure
+ * Gateway cache key prefixes of the per-symbol endpoints
  */
-interface CacheEntry<T> {
-  data: T;
-  timestamp: Date;
-}
+const CACHE_KEY_PREFIXES = [
+  'fmp:/v3/stock_news',
+  'fmp:/v3/press-releases/',
+  'fmp:/v4/historical/social-sentiment',
+  'fmp:/v3/sec_filings/',
+  'fmp:/v4/insider-trading?page=0&symbol=',
+];
 
 /**
  * FMP News Service Class
@@ -40,14 +45,6 @@ interface CacheEntry<T> {
 class FMPNewsService {
   private readonly FMP_BASE_URL = 'https://financialmodelingprep.com/api';
   private readonly FMP_API_KEY: string;
-  private readonly CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
-
-  // Individual caches per symbol
-  private stockNewsCache = new Map<string, CacheEntry<FMPStockNews[]>>();
-  private pressReleaseCache = new Map<string, CacheEntry<FMPPressRelease[]>>();
-  private socialSentimentCache = new Map<string, CacheEntry<FMPSocialSentiment[]>>();
-  private secFilingsCache = new Map<string, CacheEntry<FMPSecFiling[]>>();
-  private insiderTradesCache = new Map<string, CacheEntry<FMPInsiderTrade[]>>();
 
   constructor() {
     const apiKey = env.FMP_API_KEY;
@@ -62,19 +59,22 @@ class FMPNewsService {
   // ========================================
 
   /**
-   * Check if cached data is still valid
+   * FMP request through the shared gateway cache and budget
    */
-  private isCacheValid<T>(cache: CacheEntry<T> | undefined): boolean {
-    if (!cache) return false;
-    const now = new Date().getTime();
-    const cacheTime = cache.timestamp.getTime();
-    return now - cacheTime < this.CACHE_DURATION_MS;
+  private async fetchFMP<T>(endpoint: string, params: Record<string, string>, ttlMs: number): Promise<T> {
+    return dataGatewayService.request({
+      provider: 'fmp',
+      endpoint,
+      params,
+      ttlMs,
+      fetcher: () => this.fetchFromFMP<T>(endpoint, params),
+    });
   }
 
   /**
    * Generic FMP API fetch method
    */
-  private async fetchFMP<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
+  private async fetchFromFMP<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
     const queryParams = new URLSearchParams({
       ...params,
       apikey: this.FMP_API_KEY,
@@ -114,36 +114,22 @@ class FMPNewsService {
    * Get stock news for a specific symbol
    */
   async getStockNews(symbol: string, limit: number = 5): Promise<FMPStockNews[]> {
-    const cacheKey = `${symbol}_${limit}`;
-    const cached = this.stockNewsCache.get(cacheKey);
-
-    // Check cache
-    if (cached && this.isCacheValid(cached)) {
-      console.log(`[FMPNews] Using cached stock news for ${symbol}`);
-      return cached.data;
-    }
-
     console.log(`[FMPNews] Fetching fresh stock news for ${symbol}`);
 
     try {
-      const rawData = await this.fetchFMP<FMPStockNews[]>('/v3/stock_news', {
-        tickers: symbol,
-        page: '0',
-      });
+      const rawData = await this.fetchFMP<FMPStockNews[]>(
+        '/v3/stock_news',
+        { tickers: symbol, page: '0' },
+        API.CACHE_TTLS.STOCK_NEWS
+      );
 
       // Limit results
       const news = Array.isArray(rawData) ? rawData.slice(0, limit) : [];
 
-      // Update cache
-      this.stockNewsCache.set(cacheKey, {
-        data: news,
-        timestamp: new Date(),
-      });
-
       return news;
     } catch (error) {
       console.error(`[FMPNews] Failed to fetch stock news for ${symbol}:`, error);
-      return cached?.data || [];
+      return [];
     }
   }
 
@@ -155,35 +141,22 @@ class FMPNewsService {
    * Get press releases for a specific symbol
    */
   async getPressReleases(symbol: string, limit: number = 5): Promise<FMPPressRelease[]> {
-    const cacheKey = `${symbol}_${limit}`;
-    const cached = this.pressReleaseCache.get(cacheKey);
-
-    // Check cache
-    if (cached && this.isCacheValid(cached)) {
-      console.log(`[FMPNews] Using cached press releases for ${symbol}`);
-      return cached.data;
-    }
-
     console.log(`[FMPNews] Fetching fresh press releases for ${symbol}`);
 
     try {
-      const rawData = await this.fetchFMP<FMPPressRelease[]>(`/v3/press-releases/${symbol}`, {
-        page: '0',
-      });
+      const rawData = await this.fetchFMP<FMPPressRelease[]>(
+        `/v3/press-releases/${symbol}`,
+        { page: '0' },
+        API.CACHE_TTLS.STOCK_NEWS
+      );
 
       // Limit results
       const releases = Array.isArray(rawData) ? rawData.slice(0, limit) : [];
 
-      // Update cache
-      this.pressReleaseCache.set(cacheKey, {
-        data: releases,
-        timestamp: new Date(),
-      });
-
       return releases;
     } catch (error) {
       console.error(`[FMPNews] Failed to fetch press releases for ${symbol}:`, error);
-      return cached?.data || [];
+      return [];
     }
   }
 
@@ -195,15 +168,6 @@ class FMPNewsService {
    * Get social sentiment data (optional - may not be available for all symbols)
    */
   async getSocialSentiment(symbol: string, page: number = 0): Promise<FMPSocialSentiment[]> {
-    const cacheKey = `${symbol}_${page}`;
-    const cached = this.socialSentimentCache.get(cacheKey);
-
-    // Check cache
-    if (cached && this.isCacheValid(cached)) {
-      console.log(`[FMPNews] Using cached social sentiment for ${symbol}`);
-      return cached.data;
-    }
-
     console.log(`[FMPNews] Fetching social sentiment for ${symbol} (may fail if not available)`);
 
     try {
@@ -212,22 +176,17 @@ class FMPNewsService {
         {
           symbol,
           page: page.toString(),
-        }
+        },
+        API.CACHE_TTLS.SOCIAL_SENTIMENT
       );
 
       const sentiment = Array.isArray(rawData) ? rawData : [];
 
-      // Update cache
-      this.socialSentimentCache.set(cacheKey, {
-        data: sentiment,
-        timestamp: new Date(),
-      });
-
       return sentiment;
     } catch (error) {
       // Social sentiment may not be available for all stocks - return empty array
       console.warn(`[FMPNews] Social sentiment not available for ${symbol} (this is normal)`);
-      return cached?.data || [];
+      return [];
     }
   }
 
@@ -239,15 +198,6 @@ class FMPNewsService {
    * Get SEC filings for a specific symbol
    */
   async getSecFilings(symbol: string, limit: number = 5, type?: string): Promise<FMPSecFiling[]> {
-    const cacheKey = `${symbol}_${limit}_${type || 'all'}`;
-    const cached = this.secFilingsCache.get(cacheKey);
-
-    // Check cache
-    if (cached && this.isCacheValid(cached)) {
-      console.log(`[FMPNews] Using cached SEC filings for ${symbol}`);
-      return cached.data;
-    }
-
     console.log(`[FMPNews] Fetching fresh SEC filings for ${symbol}`);
 
     try {
@@ -262,22 +212,17 @@ class FMPNewsService {
 
       const rawData = await this.fetchFMP<FMPSecFiling[]>(
         `/v3/sec_filings/${symbol}`,
-        params
+        params,
+        API.CACHE_TTLS.SEC_FILINGS
       );
 
       // Limit results
       const filings = Array.isArray(rawData) ? rawData.slice(0, limit) : [];
 
-      // Update cache
-      this.secFilingsCache.set(cacheKey, {
-        data: filings,
-        timestamp: new Date(),
-      });
-
       return filings;
     } catch (error) {
       console.error(`[FMPNews] Failed to fetch SEC filings for ${symbol}:`, error);
-      return cached?.data || [];
+      return [];
     }
   }
 
@@ -289,22 +234,14 @@ class FMPNewsService {
    * Get insider trading transactions for a specific symbol
    */
   async getInsiderTrades(symbol: string, limit: number = 5): Promise<FMPInsiderTrade[]> {
-    const cacheKey = `${symbol}_${limit}`;
-    const cached = this.insiderTradesCache.get(cacheKey);
-
-    // Check cache
-    if (cached && this.isCacheValid(cached)) {
-      console.log(`[FMPNews] Using cached insider trades for ${symbol}`);
-      return cached.data;
-    }
-
     console.log(`[FMPNews] Fetching fresh insider trades for ${symbol}`);
 
     try {
-      const rawData = await this.fetchFMP<FMPInsiderTrade[]>('/v4/insider-trading', {
-        symbol,
-        page: '0',
-      });
+      const rawData = await this.fetchFMP<FMPInsiderTrade[]>(
+        '/v4/insider-trading',
+        { symbol, page: '0' },
+        API.CACHE_TTLS.MARKET_EVENTS
+      );
 
       // Filter for last 30 days and limit results
       const thirtyDaysAgo = new Date();
@@ -316,16 +253,10 @@ class FMPNewsService {
             .slice(0, limit)
         : [];
 
-      // Update cache
-      this.insiderTradesCache.set(cacheKey, {
-        data: trades,
-        timestamp: new Date(),
-      });
-
       return trades;
     } catch (error) {
       console.error(`[FMPNews] Failed to fetch insider trades for ${symbol}:`, error);
-      return cached?.data || [];
+      return [];
     }
   }
 
@@ -382,12 +313,8 @@ class FMPNewsService {
   /**
    * Clear all caches
    */
-  clearCache(): void {
-    this.stockNewsCache.clear();
-    this.pressReleaseCache.clear();
-    this.socialSentimentCache.clear();
-    this.secFilingsCache.clear();
-    this.insiderTradesCache.clear();
+  async clearCache(): Promise<void> {
+    await Promise.all(CACHE_KEY_PREFIXES.map((prefix) => dataGatewayService.clearCache(prefix)));
     console.log('[FMPNews] All caches cleared');
   }
 }
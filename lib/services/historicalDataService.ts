@@ -1,5 +1,7 @@
 import { prisma } from '@/lib/prisma';
 import { getAlphaVantageKey } from '@/lib/config/env';
+import { API } from '@/lib/config/trading';
+import { dataGatewayService } from './dataGatewayService';
 
 export interface HistoricalDataPoint {
   date: string;
@@ -53,14 +55,25 @@ class HistoricalDataService {
     try {
       console.log(`Fetching historical data for ${symbol}...`);
 
-      const response = await fetch(url);
-      const data: AlphaVantageTimeSeriesResponse = await response.json();
+      // alphaVantageService.fetchDailyTimeSeries와 같은 캐시 키 (응답 원문 공유)
+      const data = await dataGatewayService.request({
+        provider: 'alphaVantage',
+        endpoint: 'TIME_SERIES_DAILY',
+        params: { symbol, outputsize: outputSize },
+        ttlMs: API.CACHE_TTLS.DAILY_BARS,
+        fetcher: async (): Promise<AlphaVantageTimeSeriesResponse> => {
+          const response = await fetch(url);
+          const data: AlphaVantageTimeSeriesResponse = await response.json();
+
+          // Check for API errors (use type assertion for error properties)
+          const dataWithErrors = data as any;
+          if (dataWithErrors['Error Message'] || dataWithErrors['Note']) {
+            throw new Error(`Alpha Vantage error: ${dataWithErrors['Error Message'] || dataWithErrors['Note']}`);
+          }
 
-      // Check for API errors (use type assertion for error properties)
-      const dataWithErrors = data as any;
-      if (dataWithErrors['Error Message'] || dataWithErrors['Note']) {
-        throw new Error(`Alpha Vantage error: ${dataWithErrors['Error Message'] || dataWithErrors['Note']}`);
-      }
+          return data;
+        },
+      });
 
       if (!data['Time Series (Daily)']) {
         throw new Error('No time series data received from Alpha Vantage');
@@ -2,67 +2,59 @@
  * Investment Opportunity Service
  *
  * 여러 시장 이벤트 시그널을 종합하여 투자 기회를 분석하고 스코어링하는 서비스
+ * 시그널 타입, 점수, Half-Life, 보너스는 활성 점수 설정 버전을 따름 (scoringConfigService)
  */
 
 import {
   InvestmentOpportunity,
+  ScoringPreviewOpportunity,
   Signal,
   SignalType,
-  SIGNAL_SCORES,
   SIGNAL_DESCRIPTIONS,
 } from '@/lib/types/investmentOpportunity';
-import {
-  MarketEventsResponse,
-  AnalystRating,
-  MergerAcquisition,
-  MarketMover,
-  StockSplit,
-  UpcomingEarnings,
-} from '@/lib/types/marketEvents';
+import { MarketEventsResponse } from '@/lib/types/marketEvents';
 import { generateText, GPT_MODELS } from '@/lib/utils/openai';
-import { calculateInsiderBuyingScore } from '@/lib/utils/insiderScoringAlgorithm';
+import { explainInsiderScore } from '@/lib/utils/insiderScoringAlgorithm';
+import { explainCongressionalTradeScore, parseAmountLowerBound } from '@/lib/utils/congressionalScoringAlgorithm';
+import {
+  ScoringConfig,
+  ScoringConfigInput,
+  ScoringConfigSchema,
+  SignalSource,
+  calculateOpportunityScore,
+  isAnalystBuySignal,
+  isCommitteeRelevant,
+  ruleScore,
+} from '@/lib/utils/signalScoring';
 import { generateInvestmentAnalysis } from '@/lib/services/aiInvestmentAnalysis';
 import { momentumScreenerService } from '@/lib/services/momentumScreenerService';
+import { dataGatewayService } from '@/lib/services/dataGatewayService';
+import { scoringConfigService } from '@/lib/services/scoringConfigService';
+import { API } from '@/lib/config/trading';
 
 /**
- * 캐시 인터페이스
- */
-interface OpportunityCache {
-  data: InvestmentOpportunity[];
-  timestamp: number;
-  expiresAt: number;
-}
-
-/**
- * 캐시 TTL (5분)
+ * 공유 캐시 키 (dataGatewayService, TTL: API.CACHE_TTLS.INVESTMENT_OPPORTUNITIES)
+ * 점수 설정 버전별로 따로 캐시 (":v{version}")
  */
-const CACHE_TTL_MS = 5 * 60 * 1000;
+const OPPORTUNITY_CACHE_KEY = 'investment-opportunities';
 
 /**
- * 시그널 타입별 Half-Life (일 단위)
- * 시간이 지남에 따라 시그널의 가치가 감소하는 속도를 정의
- */
-const SIGNAL_HALF_LIFE_DAYS: Record<SignalType, number> = {
-  momentum: 5,                // 5일 (중단기 모멘텀)
-  insider_buying: 60,         // 2개월 (장기 신호)
-  insider_selling: 60,        // 2개월 (장기 부정 신호)
-  analyst_upgrade: 30,        // 1개월 후 50% 가치
-  merger_acquisition: 14,     // 2주 (빠르게 프라이싱됨)
-  top_gainer: 3,              // 3일 (단기 모멘텀)
-  stock_split: 21,            // 3주
-  earnings_upcoming: 7,       // 1주일
-  high_volume: 1,             // 당일만 유효
-};
-
-/**
- * 인메모리 캐시
+ * 종목별 시그널을 그룹화하기 위한 맵
  */
-let opportunityCache: OpportunityCache | null = null;
+type SymbolSignalsMap = Map<string, Signal[]>;
 
 /**
- * 종목별 시그널을 그룹화하기 위한 맵
+ * 이벤트 소스에서 추출한 시그널 후보 (타입과 점수는 점수 설정 규칙이 정함)
  */
-type SymbolSignalsMap = Map<string, Signal[]>;
+interface SourceEvent {
+  symbol: string;
+  source: string;
+  description: string;
+  date: string;
+  metadata?: Record<string, any>;
+  score?: number;         // 동적 소스의 이벤트 점수
+  explanation?: string;   // 동적 소스의 점수 산출 근거
+}
 
 /**
  * 종목별 가격 정보를 저장하기 위한 맵
@@ -80,7 +72,7 @@ type SymbolInfoMap = Map<string, StockInfo>;
  */
 class InvestmentOpportunityService {
   /**
-   * Market Events 데이터를 분석하여 투자 기회 목록 생성
+   * Market Events 데이터를 분석하여 투자 기회 목록 생성 (활성 점수 설정)
    *
    * @param marketEvents - Market Events 데이터
    * @param useCache - 캐시 사용 여부 (기본: true)
@@ -90,33 +82,64 @@ class InvestmentOpportunityService {
     marketEvents: MarketEventsResponse,
     useCache: boolean = true
   ): Promise<InvestmentOpportunity[]> {
-    // 캐시 확인
-    if (useCache && opportunityCache && Date.now() < opportunityCache.expiresAt) {
-      console.log('[InvestmentOpportunity] Using cached data');
-      return opportunityCache.data;
+    if (!useCache) {
+      await this.clearCache();
     }
 
+    const active = await scoringConfigService.getActive();
+    return dataGatewayService.remember(
+      `${OPPORTUNITY_CACHE_KEY}:v${active.version}`,
+      API.CACHE_TTLS.INVESTMENT_OPPORTUNITIES,
+      () => this.buildOpportunities(marketEvents, active.config)
+    );
+  }
+
+  /**
+   * 초안 점수 설정으로 다시 순위를 매긴 투자 기회 (저장 전 미리보기, 캐시하지 않음)
+   * 각 기회에 활성 설정 기준 순위 / 점수를 함께 반환
+   */
+  async previewOpportunities(
+    marketEvents: MarketEventsResponse,
+    draft: ScoringConfigInput
+  ): Promise<ScoringPreviewOpportunity[]> {
+    const config = ScoringConfigSchema.parse(draft);
+    const [current, preview] = await Promise.all([
+      this.analyzeMarketEvents(marketEvents),
+      this.buildOpportunities(marketEvents, config),
+    ]);
+
+    const currentBySymbol = new Map(current.map((opportunity) => [opportunity.symbol, opportunity] as [string, InvestmentOpportunity]));
+    return preview.map((opportunity) => {
+      const previous = currentBySymbol.get(opportunity.symbol);
+      return {
+        ...opportunity,
+        previousRank: previous ? previous.rank : null,
+        previousScore: previous ? previous.totalScore : null,
+      };
+    });
+  }
+
+  /**
+   * 시그널 수집 → 기회 생성 → 순위 부여 (캐시 미스 시)
+   */
+  private async buildOpportunities(
+    marketEvents: MarketEventsResponse,
+    config: ScoringConfig
+  ): Promise<InvestmentOpportunity[]> {
     console.log('[InvestmentOpportunity] Analyzing market events...');
 
     // 1. 종목별 시그널 수집
-    const symbolSignals = await this.collectSignals(marketEvents);
+    const symbolSignals = await this.collectSignals(marketEvents, config);
 
     // 2. 종목별 가격 정보 수집
     const symbolInfo = this.collectStockInfo(marketEvents);
 
     // 3. 투자 기회 객체 생성
-    const opportunities = this.createOpportunities(symbolSignals, symbolInfo);
+    const opportunities = this.createOpportunities(symbolSignals, symbolInfo, config);
 
     // 4. 점수 기준으로 정렬 및 순위 부여
     const sortedOpportunities = this.rankOpportunities(opportunities);
 
-    // 5. 캐시 저장
-    opportunityCache = {
-      data: sortedOpportunities,
-      timestamp: Date.now(),
-      expiresAt: Date.now() + CACHE_TTL_MS,
-    };
-
     console.log(
       `[InvestmentOpportunity] Found ${sortedOpportunities.length} opportunities`
     );
@@ -126,167 +149,222 @@ class InvestmentOpportunityService {
 
   /**
    * Market Events에서 종목별 시그널 수집
+   * 활성화된 규칙마다 소스 이벤트를 시그널로 변환 (같은 소스는 한 번만 추출)
    */
-  private async collectSignals(marketEvents: MarketEventsResponse): Promise<SymbolSignalsMap> {
+  private async collectSignals(
+    marketEvents: MarketEventsResponse,
+    config: ScoringConfig
+  ): Promise<SymbolSignalsMap> {
     const signalsMap: SymbolSignalsMap = new Map();
+    const eventsBySource = new Map<SignalSource, SourceEvent[]>();
 
-    // Helper: 시그널 추가
-    const addSignal = (symbol: string, signal: Signal) => {
-      if (!signalsMap.has(symbol)) {
-        signalsMap.set(symbol, []);
-      }
-      signalsMap.get(symbol)!.push(signal);
-    };
+    for (const type of Object.keys(config.signals)) {
+      const rule = config.signals[type];
+      if (!rule.enabled) continue;
 
-    // 1. Analyst Ratings (Buy/Upgrade)
-    marketEvents.analystRatings.forEach((rating) => {
-      if (this.isBuySignal(rating)) {
-        addSignal(rating.symbol, {
-          type: 'analyst_upgrade',
-          score: SIGNAL_SCORES.analyst_upgrade,
-          source: rating.gradingCompany,
-          description: `${rating.previousGrade} → ${rating.newGrade}`,
-          date: rating.publishedDate,
-          metadata: {
-            newsURL: rating.newsURL,
-            newsTitle: rating.newsTitle,
-          },
-        });
+      if (!eventsBySource.has(rule.source)) {
+        eventsBySource.set(rule.source, await this.collectSourceEvents(rule.source, marketEvents, config));
       }
-    });
 
-    // 2. Mergers & Acquisitions
-    marketEvents.mergersAcquisitions.forEach((ma) => {
-      addSignal(ma.symbol, {
-        type: 'merger_acquisition',
-        score: SIGNAL_SCORES.merger_acquisition,
-        source: 'FMP',
-        description: ma.title,
-        date: ma.publishedDate,
-        metadata: {
-          url: ma.url,
-          dealType: ma.dealType,
-          dealValue: ma.dealValue,
-        },
+      eventsBySource.get(rule.source)!.forEach((event) => {
+        if (!signalsMap.has(event.symbol)) {
+          signalsMap.set(event.symbol, []);
+        }
+        signalsMap.get(event.symbol)!.push({
+          type,
+          label: rule.label,
+          score: ruleScore(rule, event.score),
+          source: event.source,
+          description: event.description,
+          date: event.date,
+          explanation: event.explanation,
+          metadata: event.metadata,
+        });
       });
-    });
+    }
 
-    // 3. Top Gainers (상위 30개로 확대 - 교집합 확률 증가)
-    const topGainers = marketEvents.marketMovers.topGainers.slice(0, 30);
-    topGainers.forEach((gainer) => {
-      addSignal(gainer.symbol, {
-        type: 'top_gainer',
-        score: SIGNAL_SCORES.top_gainer,
-        source: 'Alpha Vantage',
-        description: `+${gainer.changePercent.toFixed(2)}% today`,
-        date: new Date().toISOString(),
-        metadata: {
-          price: gainer.price,
-          changeAmount: gainer.changeAmount,
-        },
-      });
-    });
+    return signalsMap;
+  }
 
-    // 4. Stock Splits (향후 30일 이내)
+  /**
+   * 이벤트 소스별 시그널 후보 추출
+   */
+  private async collectSourceEvents(
+    source: SignalSource,
+    marketEvents: MarketEventsResponse,
+    config: ScoringConfig
+  ): Promise<SourceEvent[]> {
     const now = new Date();
-    const thirtyDaysLater = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
 
-    marketEvents.stockSplits.forEach((split) => {
-      const splitDate = new Date(split.date);
-      if (splitDate >= now && splitDate <= thirtyDaysLater) {
-        addSignal(split.symbol, {
-          type: 'stock_split',
-          score: SIGNAL_SCORES.stock_split,
+    switch (source) {
+      // Analyst Ratings (Buy/Upgrade)
+      case 'analystRatings':
+        return marketEvents.analystRatings
+          .filter((rating) => isAnalystBuySignal(rating, config.analyst))
+          .map((rating) => ({
+            symbol: rating.symbol,
+            source: rating.gradingCompany,
+            description: `${rating.previousGrade} → ${rating.newGrade}`,
+            date: rating.publishedDate,
+            metadata: {
+              newsURL: rating.newsURL,
+              newsTitle: rating.newsTitle,
+            },
+          }));
+
+      // Mergers & Acquisitions
+      case 'mergersAcquisitions':
+        return marketEvents.mergersAcquisitions.map((ma) => ({
+          symbol: ma.symbol,
           source: 'FMP',
-          description: `${split.numerator}-for-${split.denominator} split on ${split.date}`,
-          date: split.date,
+          description: ma.title,
+          date: ma.publishedDate,
           metadata: {
-            numerator: split.numerator,
-            denominator: split.denominator,
-            label: split.label,
+            url: ma.url,
+            dealType: ma.dealType,
+            dealValue: ma.dealValue,
           },
-        });
+        }));
+
+      // Top Gainers (상위 30개로 확대 - 교집합 확률 증가)
+      case 'topGainers':
+        return marketEvents.marketMovers.topGainers.slice(0, 30).map((gainer) => ({
+          symbol: gainer.symbol,
+          source: 'Alpha Vantage',
+          description: `+${gainer.changePercent.toFixed(2)}% today`,
+          date: now.toISOString(),
+          metadata: {
+            price: gainer.price,
+            changeAmount: gainer.changeAmount,
+          },
+        }));
+
+      // Stock Splits (향후 30일 이내)
+      case 'stockSplits': {
+        const thirtyDaysLater = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
+        return marketEvents.stockSplits
+          .filter((split) => {
+            const splitDate = new Date(split.date);
+            return splitDate >= now && splitDate <= thirtyDaysLater;
+          })
+          .map((split) => ({
+            symbol: split.symbol,
+            source: 'FMP',
+            description: `${split.numerator}-for-${split.denominator} split on ${split.date}`,
+            date: split.date,
+            metadata: {
+              numerator: split.numerator,
+              denominator: split.denominator,
+              label: split.label,
+            },
+          }));
       }
-    });
 
-    // 5. Upcoming Earnings (긍정적 전망 - EPS 추정치가 있는 경우)
-    const sevenDaysLater = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+      // Upcoming Earnings (향후 7일 이내 + EPS 추정치가 긍정적인 경우)
+      case 'upcomingEarnings': {
+        const sevenDaysLater = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+        return marketEvents.upcomingEarnings
+          .filter((earnings) => {
+            const earningsDate = new Date(earnings.date);
+            return (
+              earningsDate >= now &&
+              earningsDate <= sevenDaysLater &&
+              !!earnings.epsEstimated &&
+              earnings.epsEstimated > 0
+            );
+          })
+          .map((earnings) => ({
+            symbol: earnings.symbol,
+            source: 'FMP',
+            description: `Earnings on ${earnings.date} (EPS est: $${earnings.epsEstimated?.toFixed(2)})`,
+            date: earnings.date,
+            metadata: {
+              epsEstimated: earnings.epsEstimated,
+              revenueEstimated: earnings.revenueEstimated,
+              time: earnings.time,
+            },
+          }));
+      }
 
-    marketEvents.upcomingEarnings.forEach((earnings) => {
-      const earningsDate = new Date(earnings.date);
-      // 향후 7일 이내 + EPS 추정치가 긍정적인 경우
-      if (
-        earningsDate >= now &&
-        earningsDate <= sevenDaysLater &&
-        earnings.epsEstimated &&
-        earnings.epsEstimated > 0
-      ) {
-        addSignal(earnings.symbol, {
-          type: 'earnings_upcoming',
-          score: SIGNAL_SCORES.earnings_upcoming,
-          source: 'FMP',
-          description: `Earnings on ${earnings.date} (EPS est: $${earnings.epsEstimated?.toFixed(2)})`,
-          date: earnings.date,
+      // Most Active (상위 30개로 확대 - 교집합 확률 증가)
+      case 'mostActive':
+        return marketEvents.marketMovers.mostActive.slice(0, 30).map((active) => ({
+          symbol: active.symbol,
+          source: 'Alpha Vantage',
+          description: `Volume: ${this.formatVolume(active.volume)}`,
+          date: now.toISOString(),
           metadata: {
-            epsEstimated: earnings.epsEstimated,
-            revenueEstimated: earnings.revenueEstimated,
-            time: earnings.time,
+            volume: active.volume,
+            price: active.price,
           },
-        });
-      }
-    });
-
-    // 6. Most Active (상위 30개로 확대 - 교집합 확률 증가)
-    const mostActive = marketEvents.marketMovers.mostActive.slice(0, 30);
-    mostActive.forEach((active) => {
-      addSignal(active.symbol, {
-        type: 'high_volume',
-        score: SIGNAL_SCORES.high_volume,
-        source: 'Alpha Vantage',
-        description: `Volume: ${this.formatVolume(active.volume)}`,
-        date: new Date().toISOString(),
-        metadata: {
-          volume: active.volume,
-          price: active.price,
-        },
-      });
-    });
+        }));
+
+      // Insider Trading - 동적 스코어링 (거래 규모, 직책, 확신도)
+      // 같은 사람이 같은 종목을 여러 번 거래한 경우 중복 제거 (가장 큰 거래량만 선택)
+      case 'insiderBuying':
+      case 'insiderSelling':
+        return this.collectInsiderEvents(marketEvents, source === 'insiderBuying' ? 'A' : 'D');
+
+      // Momentum Stocks (거래량 급증 + 가격 상승 + 강한 RSI 조건 충족 종목)
+      case 'momentum':
+        try {
+          const momentumStocks = await momentumScreenerService.getMomentumStocks();
+          if (momentumStocks.length > 0) {
+            console.log(`[InvestmentOpportunity] Found ${momentumStocks.length} momentum stocks`);
+          }
+          return momentumStocks.map((symbol) => ({
+            symbol,
+            source: 'Hybrid (AV + FMP)',
+            description: 'High momentum: Volume spike + Price surge + Strong fundamentals',
+            date: now.toISOString(),
+            metadata: {
+              criteria: 'Volume > 200% avg, Price change > 3%, MarketCap > $1B, RSI < 80',
+            },
+          }));
+        } catch (error) {
+          console.error('[InvestmentOpportunity] Failed to get momentum stocks:', error);
+          // Continue without momentum signals
+          return [];
+        }
 
-    // 7. Insider Trading (내부자 매수/매도)
-    // 같은 사람이 같은 종목을 여러 번 거래한 경우 중복 제거 (가장 큰 거래량만 선택)
-    // 매수와 매도를 별도로 처리
-    const insiderBuyingMap = new Map<string, typeof marketEvents.insiderTrading[0]>();
-    const insiderSellingMap = new Map<string, typeof marketEvents.insiderTrading[0]>();
+      // Senate Trading (상원 의원 매수/매도 공시) - 동적 스코어링 (금액 구간, 의원 수, 공시 지연, 위원회)
+      case 'senatePurchases':
+      case 'senateSales':
+        return this.collectCongressionalEvents(marketEvents, source === 'senatePurchases' ? 'purchase' : 'sale', config);
 
-    marketEvents.insiderTrading.forEach((insider) => {
-      const key = `${insider.reportingName}-${insider.symbol}`;
+      default:
+        return [];
+    }
+  }
 
-      if (insider.acquistionOrDisposition === 'A') {
-        // 매수 (Acquisition)
-        const existing = insiderBuyingMap.get(key);
-        if (!existing || insider.securitiesTransacted > existing.securitiesTransacted) {
-          insiderBuyingMap.set(key, insider);
-        }
-      } else if (insider.acquistionOrDisposition === 'D') {
-        // 매도 (Disposition)
-        const existing = insiderSellingMap.get(key);
+  /**
+   * Insider Trading 이벤트 (A = 매수, D = 매도)
+   * 매도도 매수와 같은 알고리즘으로 점수를 매기고, 부호는 규칙 점수(-1)가 정함
+   */
+  private collectInsiderEvents(
+    marketEvents: MarketEventsResponse,
+    direction: 'A' | 'D'
+  ): SourceEvent[] {
+    const largestByInsider = new Map<string, typeof marketEvents.insiderTrading[0]>();
+
+    marketEvents.insiderTrading
+      .filter((insider) => insider.acquistionOrDisposition === direction)
+      .forEach((insider) => {
+        const key = `${insider.reportingName}-${insider.symbol}`;
+        const existing = largestByInsider.get(key);
         if (!existing || insider.securitiesTransacted > existing.securitiesTransacted) {
-          insiderSellingMap.set(key, insider);
+          largestByInsider.set(key, insider);
         }
-      }
-    });
+      });
 
-    // 7a. Insider Buying (매수)
-    insiderBuyingMap.forEach((insider) => {
-      const sharesBought = insider.securitiesTransacted.toLocaleString();
+    return Array.from(largestByInsider.values()).map((insider) => {
+      const shares = insider.securitiesTransacted.toLocaleString();
       const totalValue = (insider.securitiesTransacted * insider.price).toLocaleString('en-US', {
         style: 'currency',
         currency: 'USD',
         maximumFractionDigits: 0,
       });
-
-      // Dynamic scoring based on transaction size, owner role, and conviction
-      const dynamicScore = calculateInsiderBuyingScore({
+      const explained = explainInsiderScore({
         securitiesTransacted: insider.securitiesTransacted,
         pricePerShare: insider.price,
         typeOfOwner: insider.typeOfOwner,
@@ -294,12 +372,13 @@ class InvestmentOpportunityService {
         transactionDate: insider.transactionDate,
       });
 
-      addSignal(insider.symbol, {
-        type: 'insider_buying',
-        score: dynamicScore,
+      return {
+        symbol: insider.symbol,
         source: 'FMP',
-        description: `${insider.reportingName} bought ${sharesBought} shares (${totalValue})`,
+        description: `${insider.reportingName} ${direction === 'A' ? 'bought' : 'sold'} ${shares} shares (${totalValue})`,
         date: insider.transactionDate,
+        score: explained.finalScore,
+        explanation: explained.breakdown.explanation,
         metadata: {
           reportingName: insider.reportingName,
           typeOfOwner: insider.typeOfOwner,
@@ -308,72 +387,71 @@ class InvestmentOpportunityService {
           securitiesOwned: insider.securitiesOwned,
           link: insider.link,
         },
-      });
+      };
     });
+  }
 
-    // 7b. Insider Selling (매도) - 부정적 신호
-    insiderSellingMap.forEach((insider) => {
-      const sharesSold = insider.securitiesTransacted.toLocaleString();
-      const totalValue = (insider.securitiesTransacted * insider.price).toLocaleString('en-US', {
-        style: 'currency',
-        currency: 'USD',
-        maximumFractionDigits: 0,
+  /**
+   * Senate Trading 이벤트 (purchase = 매수, sale = 매도)
+   * 같은 의원이 같은 종목을 여러 번 거래한 경우 금액이 가장 큰 공시만 사용하고,
+   * 같은 종목을 같은 방향으로 거래한 의원 수를 클러스터 점수에 반영
+   * 시그널 날짜는 공시일 (시장에 알려진 시점)
+   */
+  private collectCongressionalEvents(
+    marketEvents: MarketEventsResponse,
+    transactionType: 'purchase' | 'sale',
+    config: ScoringConfig
+  ): SourceEvent[] {
+    const largestByLegislator = new Map<string, typeof marketEvents.senateTrading[0]>();
+    const legislatorsBySymbol = new Map<string, Set<string>>();
+
+    marketEvents.senateTrading
+      .filter((trade) => trade.transactionType === transactionType && !!trade.symbol)
+      .forEach((trade) => {
+        const legislator = `${trade.firstName} ${trade.lastName}`;
+        const key = `${legislator}-${trade.symbol}`;
+        const existing = largestByLegislator.get(key);
+        if (!existing || (parseAmountLowerBound(trade.amount) || 0) > (parseAmountLowerBound(existing.amount) || 0)) {
+          largestByLegislator.set(key, trade);
+        }
+
+        if (!legislatorsBySymbol.has(trade.symbol)) {
+          legislatorsBySymbol.set(trade.symbol, new Set());
+        }
+        legislatorsBySymbol.get(trade.symbol)!.add(legislator);
       });
 
-      // Use same scoring algorithm but make it negative
-      const buyingScore = calculateInsiderBuyingScore({
-        securitiesTransacted: insider.securitiesTransacted,
-        pricePerShare: insider.price,
-        typeOfOwner: insider.typeOfOwner,
-        securitiesOwned: insider.securitiesOwned,
-        transactionDate: insider.transactionDate,
+    return Array.from(largestByLegislator.values()).map((trade) => {
+      const legislator = `${trade.firstName} ${trade.lastName}`;
+      const legislatorCount = legislatorsBySymbol.get(trade.symbol)!.size;
+      const committeeRelevant = isCommitteeRelevant(legislator, trade.symbol, config.congress);
+      const explained = explainCongressionalTradeScore({
+        amount: trade.amount,
+        transactionDate: trade.transactionDate,
+        disclosureDate: trade.disclosureDate,
+        legislatorCount,
+        committeeRelevant,
       });
-      const sellingScore = -buyingScore; // 매도는 음수
 
-      addSignal(insider.symbol, {
-        type: 'insider_selling',
-        score: sellingScore,
+      return {
+        symbol: trade.symbol,
         source: 'FMP',
-        description: `${insider.reportingName} sold ${sharesSold} shares (${totalValue})`,
-        date: insider.transactionDate,
+        description: `Sen. ${legislator} ${transactionType === 'purchase' ? 'bought' : 'sold'} ${trade.amount}${legislatorCount > 1 ? ` (${legislatorCount} senators)` : ''}`,
+        date: trade.disclosureDate || trade.transactionDate,
+        score: explained.finalScore,
+        explanation: explained.breakdown.explanation,
         metadata: {
-          reportingName: insider.reportingName,
-          typeOfOwner: insider.typeOfOwner,
-          securitiesTransacted: insider.securitiesTransacted,
-          price: insider.price,
-          securitiesOwned: insider.securitiesOwned,
-          link: insider.link,
+          legislator,
+          party: trade.party,
+          amount: trade.amount,
+          transactionDate: trade.transactionDate,
+          disclosureDate: trade.disclosureDate,
+          disclosureLagDays: explained.breakdown.lagDays,
+          legislatorCount,
+          committeeRelevant,
         },
-      });
+      };
     });
-
-    // 8. Momentum Stocks (복합 모멘텀 시그널)
-    // 거래량 급증 + 가격 상승 + 강한 RSI 조건 충족 종목
-    try {
-      const momentumStocks = await momentumScreenerService.getMomentumStocks();
-
-      momentumStocks.forEach((symbol) => {
-        addSignal(symbol, {
-          type: 'momentum',
-          score: SIGNAL_SCORES.momentum,
-          source: 'Hybrid (AV + FMP)',
-          description: 'High momentum: Volume spike + Price surge + Strong fundamentals',
-          date: new Date().toISOString(),
-          metadata: {
-            criteria: 'Volume > 200% avg, Price change > 3%, MarketCap > $1B, RSI < 80',
-          },
-        });
-      });
-
-      if (momentumStocks.length > 0) {
-        console.log(`[InvestmentOpportunity] Added ${momentumStocks.length} momentum signals`);
-      }
-    } catch (error) {
-      console.error('[InvestmentOpportunity] Failed to get momentum stocks:', error);
-      // Continue without momentum signals
-    }
-
-    return signalsMap;
   }
 
   /**
@@ -431,13 +509,15 @@ class InvestmentOpportunityService {
    */
   private createOpportunities(
     symbolSignals: SymbolSignalsMap,
-    symbolInfo: SymbolInfoMap
+    symbolInfo: SymbolInfoMap,
+    config: ScoringConfig
   ): InvestmentOpportunity[] {
     const opportunities: InvestmentOpportunity[] = [];
+    const now = new Date();
 
     symbolSignals.forEach((signals, symbol) => {
-      // 총 점수 계산 (시간 감쇠 + 중복 감점 + 다양성 보너스 적용)
-      const totalScore = this.calculateTotalScore(signals);
+      // 총 점수 계산 (시간 감쇠 + 중복 감점 + 타입별 상한 + 다양성 / 조합 보너스)
+      const totalScore = calculateOpportunityScore(signals, config, now);
 
       // 가격 정보 가져오기
       const info = symbolInfo.get(symbol);
@@ -458,61 +538,6 @@ class InvestmentOpportunityService {
     return opportunities;
   }
 
-  /**
-   * 총 점수 계산 (중복 시그널 감점 + 시간 감쇠 + 다양성 보너스)
-   *
-   * 개선 사항:
-   * 1. 중복 시그널 감점: 같은 타입 2번째 50%, 3번째 25%
-   * 2. 다양성 보너스: 2개 타입 +3점, 3개+ 타입 +5점
-   */
-  private calculateTotalScore(signals: Signal[]): number {
-    // 1. 시그널 타입별로 그룹화
-    const signalsByType = new Map<SignalType, Signal[]>();
-    signals.forEach(signal => {
-      if (!signalsByType.has(signal.type)) {
-        signalsByType.set(signal.type, []);
-      }
-      signalsByType.get(signal.type)!.push(signal);
-    });
-
-    // 2. 각 타입별로 점수 계산 (중복 감점 + 시간 감쇠 적용)
-    let baseScore = 0;
-    signalsByType.forEach((typeSignals, signalType) => {
-      // 시그널을 점수 기준 내림차순 정렬 (큰 것부터 처리)
-      const sortedSignals = [...typeSignals].sort((a, b) => b.score - a.score);
-
-      sortedSignals.forEach((signal, index) => {
-        // 시간 감쇠 적용
-        const decayFactor = this.getDecayFactor(signal);
-        const decayedScore = signal.score * decayFactor;
-
-        // 중복 감점 적용
-        let duplicatePenalty = 1.0;
-        if (index === 1) {
-          duplicatePenalty = 0.5;  // 2번째: 50%
-        } else if (index === 2) {
-          duplicatePenalty = 0.25; // 3번째: 25%
-        } else if (index >= 3) {
-          duplicatePenalty = 0.1;  // 4번째 이상: 10%
-        }
-
-        baseScore += decayedScore * duplicatePenalty;
-      });
-    });
-
-    // 3. 시그널 다양성 보너스
-    const uniqueSignalTypes = signalsByType.size;
-    let diversityBonus = 0;
-    if (uniqueSignalTypes >= 3) {
-      diversityBonus = 5;  // 3개 이상 타입: +5점
-    } else if (uniqueSignalTypes === 2) {
-      diversityBonus = 3;  // 2개 타입: +3점
-    }
-    // 1개 타입: +0점 (보너스 없음)
-
-    return baseScore + diversityBonus;
-  }
-
   /**
    * 투자 기회를 점수 기준으로 정렬하고 순위 부여
    */
@@ -530,53 +555,6 @@ class InvestmentOpportunityService {
     return sorted;
   }
 
-  /**
-   * Analyst Rating이 Buy 시그널인지 확인
-   */
-  private isBuySignal(rating: AnalystRating): boolean {
-    const buyKeywords = ['buy', 'outperform', 'overweight', 'strong buy'];
-    const newGradeLower = rating.newGrade?.toLowerCase() || '';
-
-    // 새 등급이 Buy 계열인지 확인
-    const isNewGradeBuy = buyKeywords.some((keyword) =>
-      newGradeLower.includes(keyword)
-    );
-
-    // 업그레이드인지 확인 (Hold → Buy, Sell → Hold 등)
-    const ratingOrder = ['sell', 'underperform', 'hold', 'neutral', 'buy', 'outperform'];
-    const previousGradeLower = rating.previousGrade?.toLowerCase() || '';
-    const previousIndex = previousGradeLower ? ratingOrder.findIndex((r) =>
-      previousGradeLower.includes(r)
-    ) : -1;
-    const newIndex = ratingOrder.findIndex((r) =>
-      newGradeLower.includes(r)
-    );
-    const isUpgrade = newIndex > previousIndex && previousIndex !== -1;
-
-    return isNewGradeBuy || isUpgrade;
-  }
-
-  /**
-   * 시그널의 시간 감쇠 계수 계산
-   * Exponential decay: e^(-ln(2) * t / t_half)
-   */
-  private getDecayFactor(signal: Signal): number {
-    try {
-      const signalDate = new Date(signal.date);
-      const now = new Date();
-      const daysSince = Math.max(0, (now.getTime() - signalDate.getTime()) / (1000 * 60 * 60 * 24));
-      const halfLife = SIGNAL_HALF_LIFE_DAYS[signal.type];
-
-      // Exponential decay function
-      const decayFactor = Math.exp(-0.693 * daysSince / halfLife);
-
-      return decayFactor;
-    } catch (error) {
-      // 날짜 파싱 실패 시 최대 감쇠 적용
-      return 0.5;
-    }
-  }
-
   /**
    * 거래량을 읽기 쉬운 형식으로 변환
    */
@@ -616,7 +594,7 @@ class InvestmentOpportunityService {
    * AI 요약 실패 시 기본 요약 생성
    */
   private generateFallbackSummary(opportunity: InvestmentOpportunity): string {
-    const signalTypes = opportunity.signals.map((s) => SIGNAL_DESCRIPTIONS[s.type]);
+    const signalTypes = opportunity.signals.map((s) => s.label || SIGNAL_DESCRIPTIONS[s.type as SignalType] || s.type);
     const uniqueTypes = Array.from(new Set(signalTypes)).slice(0, 3).join(', ');
 
     return `${opportunity.symbol}은(는) ${uniqueTypes} 등 ${opportunity.signals.length}개의 시그널에서 총 ${opportunity.totalScore}점을 기록했습니다. ${
@@ -629,20 +607,21 @@ class InvestmentOpportunityService {
   /**
    * 캐시 강제 초기화
    */
-  clearCache(): void {
-    opportunityCache = null;
+  async clearCache(): Promise<void> {
+    await dataGatewayService.clearCache(`internal:${OPPORTUNITY_CACHE_KEY}`);
     console.log('[InvestmentOpportunity] Cache cleared');
   }
 
   /**
    * 캐시 상태 확인
    */
-  getCacheStatus(): {
+  async getCacheStatus(): Promise<{
     isCached: boolean;
     expiresAt: string | null;
     remainingMs: number | null;
-  } {
-    if (!opportunityCache || Date.now() >= opportunityCache.expiresAt) {
+  }> {
+    const status = await dataGatewayService.getCacheStatus(`internal:${OPPORTUNITY_CACHE_KEY}`);
+    if (!status.isCached || !status.expiresAt) {
       return {
         isCached: false,
         expiresAt: null,
@@ -652,8 +631,8 @@ class InvestmentOpportunityService {
 
     return {
       isCached: true,
-      expiresAt: new Date(opportunityCache.expiresAt).toISOString(),
-      remainingMs: opportunityCache.expiresAt - Date.now(),
+      expiresAt: status.expiresAt,
+      remainingMs: new Date(status.expiresAt).getTime() - Date.now(),
     };
   }
 }
@@ -0,0 +1,611 @@
+/**
+ * Job Queue Service
+ *
+ * Durable Postgres-backed queue (jobs / job_attempts tables) for background work:
+ * - Cron routes enqueue one BOT_RUN job per bot; /api/cron/jobs drains the queue
+ * - Concurrency limit (RUNNING jobs) and rate budget (attempts started per minute)
+ * - Per-job timeout, retry with exponential backoff, every attempt recorded
+ * - Jobs left RUNNING by a crashed worker are recovered as failed attempts
+ *
+ * Workers claim jobs with a conditional update (status QUEUED → RUNNING), so two
+ * overlapping workers never run the same job. They may briefly exceed the
+ * concurrency limit together, which the rate budget still bounds. Finishing a
+ * job is conditional on the claim it ran under (RUNNING + lockedAt), so a slow
+ * worker and stale-job recovery cannot overwrite each other's outcome.
+ *
+ * A partial unique index (type, botId WHERE status IN QUEUED/RUNNING) backs the
+ * per-bot dedupe in enqueue.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { env } from '@/lib/config/env';
+import { Job, JobStatus, Prisma, TimeHorizon } from '@prisma/client';
+import { botRunService, BotRunContext } from './botRunService';
+import { killSwitchService } from './killSwitchService';
+
+export type JobType = 'BOT_RUN';
+
+export type JobHandler = (job: Job) => Promise<Prisma.InputJsonValue | void>;
+
+export interface JobHandlerOptions {
+  retryOnTimeout?: boolean;                          // false: 시간 초과된 작업은 재시도하지 않음 (기본 true)
+  retryBlocker?: (job: Job) => Promise<string | null>; // 재시도하면 안 되는 이유 (null = 재시도 가능)
+  crashRetryBlocker?: (job: Job) => Promise<string | null>; // 워커가 죽은 작업을 재시도하면 안 되는 이유
+}
+
+export interface JobQueueSettings {
+  concurrency: number;
+  rateLimitPerMinute: number;
+  maxAttempts: number;
+  retryBaseMs: number;
+  jobTimeoutMs: number;
+  workerBudgetMs: number;   // 새 작업을 시작할 수 있는 시간 (실행 중인 작업은 끝까지 기다림)
+}
+
+export interface EnqueueOptions {
+  botId?: string;
+  payload?: Prisma.InputJsonValue;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export interface EnqueueResult {
+  job: Job;
+  created: boolean;  // false: 같은 봇의 작업이 이미 대기/실행 중
+}
+
+export interface ProcessQueueResult {
+  workerId: string;
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  failed: number;
+  recovered: number;
+  stoppedBy: 'empty' | 'concurrency' | 'rate_limit' | 'budget';
+  durationMs: number;
+}
+
+export interface QueueStatus {
+  counts: Record<JobStatus, number>;
+  attemptsLastMinute: number;
+  oldestQueuedAt: Date | null;
+  settings: JobQueueSettings;
+  recentJobs: Array<Job & {
+    bot: { name: string; symbol: string } | null;
+    attemptLog: Array<{
+      attempt: number;
+      workerId: string;
+      startedAt: Date;
+      finishedAt: Date | null;
+      durationMs: number | null;
+      success: boolean | null;
+      error: string | null;
+    }>;
+  }>;
+}
+
+/**
+ * Errors that retrying cannot fix (missing bot, unknown job type)
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableJobError';
+  }
+}
+
+/**
+ * Attempt exceeded the job timeout. The handler itself is not cancelled and may still be running.
+ */
+export class JobTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+const ACTIVE_STATUSES: JobStatus[] = ['QUEUED', 'RUNNING'];
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+class JobQueueService {
+  private handlers: Record<string, JobHandler> = {};
+  private handlerOptions: Record<string, JobHandlerOptions> = {};
+
+  constructor() {
+    // 시간 초과된 봇 실행은 백그라운드에서 계속 주문을 낼 수 있으므로 재시도하지 않음
+    // 워커가 죽은 봇 실행은 주문 단계 전에 멈춘 것이 확인될 때만 재시도
+    this.registerHandler('BOT_RUN', job => this.runBotJob(job), {
+      retryOnTimeout: false,
+      retryBlocker: job => this.botOrdersSinceFirstAttempt(job),
+      crashRetryBlocker: job => this.botRunStartedByCrashedAttempt(job),
+    });
+  }
+
+  /**
+   * Default settings from env (overridable per worker run)
+   */
+  getSettings(overrides?: Partial<JobQueueSettings>): JobQueueSettings {
+    return {
+      concurrency: env.JOB_QUEUE_CONCURRENCY,
+      rateLimitPerMinute: env.JOB_QUEUE_RATE_LIMIT_PER_MINUTE,
+      maxAttempts: env.JOB_QUEUE_MAX_ATTEMPTS,
+      retryBaseMs: env.JOB_QUEUE_RETRY_BASE_MS,
+      jobTimeoutMs: env.JOB_QUEUE_JOB_TIMEOUT_MS,
+      workerBudgetMs: env.JOB_QUEUE_WORKER_BUDGET_MS,
+      ...overrides,
+    };
+  }
+
+  registerHandler(type: string, handler: JobHandler, options: JobHandlerOptions = {}): void {
+    this.handlers[type] = handler;
+    this.handlerOptions[type] = options;
+  }
+
+  /**
+   * Add a job. Jobs for a bot are deduplicated: if one is already QUEUED or
+   * RUNNING, it is returned instead of queueing a second run. Concurrent
+   * enqueues that both miss the lookup are settled by the unique index.
+   */
+  async enqueue(type: JobType, options: EnqueueOptions = {}): Promise<EnqueueResult> {
+    if (options.botId) {
+      const existing = await this.findActiveJob(type, options.botId);
+      if (existing) {
+        return { job: existing, created: false };
+      }
+    }
+
+    try {
+      const job = await prisma.job.create({
+        data: {
+          type,
+          botId: options.botId,
+          payload: options.payload,
+          maxAttempts: options.maxAttempts ?? env.JOB_QUEUE_MAX_ATTEMPTS,
+          runAt: options.runAt ?? new Date(),
+        },
+      });
+
+      return { job, created: true };
+    } catch (error: any) {
+      // 동시에 등록된 같은 봇의 작업이 먼저 들어감 → 이미 대기 중으로 처리
+      if (error?.code === 'P2002' && options.botId) {
+        const existing = await this.findActiveJob(type, options.botId);
+        if (existing) {
+          return { job: existing, created: false };
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run queued jobs until the queue is empty, a limit is hit or the time budget runs out
+   */
+  async processQueue(overrides?: Partial<JobQueueSettings>): Promise<ProcessQueueResult> {
+    const settings = this.getSettings(overrides);
+    const workerId = `worker-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const startedAt = Date.now();
+    const result: ProcessQueueResult = {
+      workerId,
+      claimed: 0,
+      succeeded: 0,
+      retried: 0,
+      failed: 0,
+      recovered: 0,
+      stoppedBy: 'empty',
+      durationMs: 0,
+    };
+
+    console.log(`🧵 [JobQueue] Worker ${workerId} started (concurrency ${settings.concurrency}, ${settings.rateLimitPerMinute}/min)`);
+
+    result.recovered = await this.recoverStaleJobs(settings);
+
+    while (true) {
+      if (Date.now() - startedAt >= settings.workerBudgetMs) {
+        result.stoppedBy = 'budget';
+        break;
+      }
+
+      const running = await prisma.job.count({ where: { status: 'RUNNING' } });
+      const concurrencySlots = settings.concurrency - running;
+      if (concurrencySlots <= 0) {
+        result.stoppedBy = 'concurrency';
+        break;
+      }
+
+      const recentAttempts = await prisma.jobAttempt.count({
+        where: { startedAt: { gte: new Date(Date.now() - 60 * 1000) } },
+      });
+      const rateSlots = settings.rateLimitPerMinute - recentAttempts;
+      if (rateSlots <= 0) {
+        result.stoppedBy = 'rate_limit';
+        break;
+      }
+
+      const jobs = await this.claimJobs(Math.min(concurrencySlots, rateSlots), workerId);
+      if (jobs.length === 0) {
+        result.stoppedBy = 'empty';
+        break;
+      }
+
+      result.claimed += jobs.length;
+      const outcomes = await Promise.all(jobs.map(job => this.runJob(job, workerId, settings)));
+      outcomes.forEach(outcome => {
+        result[outcome]++;
+      });
+    }
+
+    result.durationMs = Date.now() - startedAt;
+    console.log(`✅ [JobQueue] Worker ${workerId} done: ${result.succeeded} succeeded, ${result.retried} retried, ${result.failed} failed (stopped: ${result.stoppedBy})`);
+
+    return result;
+  }
+
+  /**
+   * Queue counts, rate budget usage and the latest jobs with their attempts
+   */
+  async getStatus(limit: number = 20): Promise<QueueStatus> {
+    const [grouped, attemptsLastMinute, oldestQueued, recentJobs] = await Promise.all([
+      prisma.job.groupBy({ by: ['status'], _count: { _all: true } }),
+      prisma.jobAttempt.count({ where: { startedAt: { gte: new Date(Date.now() - 60 * 1000) } } }),
+      prisma.job.findFirst({
+        where: { status: 'QUEUED' },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+      }),
+      prisma.job.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        include: {
+          bot: { select: { name: true, symbol: true } },
+          attemptLog: {
+            orderBy: { attempt: 'asc' },
+            select: {
+              attempt: true,
+              workerId: true,
+              startedAt: true,
+              finishedAt: true,
+              durationMs: true,
+              success: true,
+              error: true,
+            },
+          },
+        },
+      }),
+    ]);
+
+    const counts: Record<JobStatus, number> = { QUEUED: 0, RUNNING: 0, SUCCEEDED: 0, FAILED: 0, CANCELED: 0 };
+    grouped.forEach(group => {
+      counts[group.status] = group._count._all;
+    });
+
+    return {
+      counts,
+      attemptsLastMinute,
+      oldestQueuedAt: oldestQueued?.createdAt ?? null,
+      settings: this.getSettings(),
+      recentJobs,
+    };
+  }
+
+  // ===== Worker internals =====
+
+  /**
+   * Claim up to `limit` due jobs for this worker
+   */
+  private async claimJobs(limit: number, workerId: string): Promise<Job[]> {
+    const now = new Date();
+    const candidates = await prisma.job.findMany({
+      where: { status: 'QUEUED', runAt: { lte: now } },
+      orderBy: { runAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    const claimed: Job[] = [];
+    for (const candidate of candidates) {
+      // 다른 워커가 먼저 가져갔으면 count = 0
+      const { count } = await prisma.job.updateMany({
+        where: { id: candidate.id, status: 'QUEUED' },
+        data: { status: 'RUNNING', lockedAt: now, lockedBy: workerId, attempts: { increment: 1 } },
+      });
+
+      if (count === 1) {
+        const job = await prisma.job.findUnique({ where: { id: candidate.id } });
+        if (job) claimed.push(job);
+      }
+    }
+
+    return claimed;
+  }
+
+  private async runJob(
+    job: Job,
+    workerId: string,
+    settings: JobQueueSettings
+  ): Promise<'succeeded' | 'retried' | 'failed'> {
+    const startedAt = Date.now();
+    const attempt = await prisma.jobAttempt.create({
+      data: { jobId: job.id, attempt: job.attempts, workerId },
+    });
+
+    try {
+      const handler = this.handlers[job.type];
+      if (!handler) {
+        throw new NonRetryableJobError(`No handler registered for job type ${job.type}`);
+      }
+
+      // 시간 초과 시 핸들러는 계속 실행될 수 있음 (취소 불가) - 재시도 여부는 핸들러 옵션에 따름
+      const output = await withTimeout(
+        handler(job),
+        settings.jobTimeoutMs,
+        `Job timed out after ${settings.jobTimeoutMs}ms`
+      );
+
+      await prisma.jobAttempt.update({
+        where: { id: attempt.id },
+        data: { finishedAt: new Date(), durationMs: Date.now() - startedAt, success: true },
+      });
+      const finished = await this.finishClaim(job, {
+        status: 'SUCCEEDED',
+        result: output ?? undefined,
+        lastError: null,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+      });
+      if (!finished) {
+        console.warn(`⚠️ [JobQueue] ${job.type} ${job.id} finished after it was recovered as stale, result not saved`);
+      }
+
+      return 'succeeded';
+    } catch (error: any) {
+      const message = error?.message || 'Unknown error';
+
+      await prisma.jobAttempt.update({
+        where: { id: attempt.id },
+        data: { finishedAt: new Date(), durationMs: Date.now() - startedAt, success: false, error: message },
+      });
+
+      const options = this.handlerOptions[job.type] || {};
+      const nonRetryable =
+        error instanceof NonRetryableJobError ||
+        (error instanceof JobTimeoutError && options.retryOnTimeout === false);
+
+      return (await this.failJob(job, message, settings, nonRetryable)) ?? 'failed';
+    }
+  }
+
+  /**
+   * Requeue with backoff, or mark FAILED once attempts are exhausted
+   * or the handler's retry blocker vetoes another attempt.
+   * Returns null when the job is no longer under the claim that failed.
+   */
+  private async failJob(
+    job: Job,
+    message: string,
+    settings: JobQueueSettings,
+    nonRetryable: boolean = false,
+    crashed: boolean = false
+  ): Promise<'retried' | 'failed' | null> {
+    const options = this.handlerOptions[job.type] || {};
+    const blockers = [crashed ? options.crashRetryBlocker : undefined, options.retryBlocker];
+
+    for (const blocker of blockers) {
+      if (nonRetryable || job.attempts >= job.maxAttempts) break;
+      if (!blocker) continue;
+
+      let blockedBy: string | null;
+      try {
+        blockedBy = await blocker(job);
+      } catch (error: any) {
+        // 재시도해도 안전한지 확인할 수 없으면 재시도하지 않음
+        blockedBy = `retry check failed: ${error?.message || 'Unknown error'}`;
+      }
+      if (blockedBy) {
+        message = `${message} (not retried: ${blockedBy})`;
+        nonRetryable = true;
+      }
+    }
+
+    if (!nonRetryable && job.attempts < job.maxAttempts) {
+      const delay = retryDelay(job.attempts, settings.retryBaseMs);
+      const requeued = await this.finishClaim(job, {
+        status: 'QUEUED',
+        runAt: new Date(Date.now() + delay),
+        lastError: message,
+        lockedAt: null,
+        lockedBy: null,
+      });
+      if (!requeued) return null;
+
+      console.warn(`⚠️ [JobQueue] ${job.type} ${job.id} attempt ${job.attempts}/${job.maxAttempts} failed, retry in ${Math.round(delay / 1000)}s: ${message}`);
+      return 'retried';
+    }
+
+    const failed = await this.finishClaim(job, {
+      status: 'FAILED',
+      lastError: message,
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: new Date(),
+    });
+    if (!failed) return null;
+
+    console.error(`❌ [JobQueue] ${job.type} ${job.id} failed after ${job.attempts} attempt(s): ${message}`);
+    return 'failed';
+  }
+
+  /**
+   * Update a job only while it is still RUNNING under the claim this worker saw
+   */
+  private async finishClaim(job: Job, data: Prisma.JobUpdateManyMutationInput): Promise<boolean> {
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, status: 'RUNNING', lockedAt: job.lockedAt },
+      data,
+    });
+    return count === 1;
+  }
+
+  /**
+   * Jobs still RUNNING long after their timeout belong to a worker that died
+   */
+  private async recoverStaleJobs(settings: JobQueueSettings): Promise<number> {
+    const staleBefore = new Date(Date.now() - settings.jobTimeoutMs * 2);
+    const staleJobs = await prisma.job.findMany({
+      where: { status: 'RUNNING', lockedAt: { lt: staleBefore } },
+    });
+
+    let recovered = 0;
+    for (const job of staleJobs) {
+      const message = `Worker ${job.lockedBy || 'unknown'} stopped before finishing`;
+
+      // 느린 워커가 방금 끝낸 작업이면 null → 건드리지 않음
+      const outcome = await this.failJob(job, message, settings, false, true);
+      if (!outcome) continue;
+
+      await prisma.jobAttempt.updateMany({
+        where: { jobId: job.id, attempt: { lte: job.attempts }, success: null },
+        data: { finishedAt: new Date(), success: false, error: message },
+      });
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      console.warn(`⚠️ [JobQueue] Recovered ${recovered} stale job(s)`);
+    }
+
+    return recovered;
+  }
+
+  private findActiveJob(type: JobType, botId: string): Promise<Job | null> {
+    return prisma.job.findFirst({
+      where: { type, botId, status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // ===== Handlers =====
+
+  /**
+   * BOT_RUN retry blocker: once any attempt has submitted an order, a retry could duplicate it
+   */
+  private async botOrdersSinceFirstAttempt(job: Job): Promise<string | null> {
+    if (!job.botId) return null;
+
+    const firstAttempt = await prisma.jobAttempt.findFirst({
+      where: { jobId: job.id },
+      orderBy: { attempt: 'asc' },
+      select: { startedAt: true },
+    });
+    if (!firstAttempt) return null;
+
+    const orders = await prisma.trade.count({
+      where: { botId: job.botId, createdAt: { gte: firstAttempt.startedAt } },
+    });
+
+    return orders > 0 ? `${orders} order(s) already submitted for bot ${job.botId}` : null;
+  }
+
+  /**
+   * BOT_RUN crash blocker: the run is logged before any order is placed, so a job
+   * that never started a BotRun cannot have submitted orders
+   */
+  private async botRunStartedByCrashedAttempt(job: Job): Promise<string | null> {
+    if (!job.botId) return null;
+
+    const run = await prisma.botRun.findFirst({
+      where: { jobId: job.id },
+      select: { id: true },
+    });
+
+    return run ? `bot run ${run.id} may have submitted orders before the worker stopped` : null;
+  }
+
+  private async runBotJob(job: Job): Promise<Prisma.InputJsonValue> {
+    if (!job.botId) {
+      throw new NonRetryableJobError('BOT_RUN job has no botId');
+    }
+
+    const bot = await prisma.bot.findUnique({
+      where: { id: job.botId },
+      select: { status: true },
+    });
+    if (!bot) {
+      throw new NonRetryableJobError(`Bot not found: ${job.botId}`);
+    }
+
+    const payload = (job.payload || {}) as { timeHorizon?: TimeHorizon; trigger?: string };
+    const context: BotRunContext = {
+      trigger: payload.trigger === 'manual' ? 'MANUAL' : 'CRON',
+      timeHorizon: payload.timeHorizon ?? null,
+      jobId: job.id,
+    };
+
+    if (bot.status !== 'ACTIVE') {
+      // 대기 중 봇이 정지된 경우
+      console.log(`ℹ️ [JobQueue] Bot ${job.botId} is ${bot.status}, skipping run`);
+      const run = await botRunService.recordSkipped(job.botId, context, `bot is ${bot.status}`);
+      return { skipped: true, reason: `Bot is ${bot.status}`, runId: run.id };
+    }
+
+    const control = await killSwitchService.getControl();
+    if (control.halted) {
+      // 정지 전에 등록된 작업은 재개 후 다시 실행하지 않고 건너뜀
+      const reason = control.haltReason || 'kill switch tripped';
+      console.log(`🛑 [JobQueue] Trading halted, skipping bot ${job.botId}: ${reason}`);
+      const run = await botRunService.recordSkipped(job.botId, context, `trading halted (${reason})`);
+      return { skipped: true, reason: `Trading halted: ${reason}`, runId: run.id };
+    }
+
+    // botTestService 등 무거운 의존성은 실행 시점에만 로드
+    const { botExecutionService } = await import('./botExecutionService');
+
+    console.log(`🤖 [JobQueue] Executing bot: ${job.botId}`);
+    const execution = await botExecutionService.runBot(job.botId, context);
+    if (!execution) {
+      throw new NonRetryableJobError(`Bot not found: ${job.botId}`);
+    }
+
+    await prisma.bot.update({
+      where: { id: job.botId },
+      data: { lastExecutedAt: new Date() },
+    });
+
+    console.log(`✅ [JobQueue] Bot ${job.botId} executed successfully:`, execution.report.finalDecision);
+
+    return {
+      runId: execution.runId,
+      decision: execution.report.finalDecision,
+      reason: execution.report.reason,
+      currentPrice: execution.currentPrice,
+      priceSource: execution.priceSource,
+      tradeExecuted: execution.report.tradeExecuted ?? false,
+    };
+  }
+}
+
+// Exponential backoff: base, 2x base, 4x base ... (capped at 30 minutes)
+function retryDelay(attempt: number, baseMs: number): number {
+  return Math.min(baseMs * Math.pow(2, Math.max(0, attempt - 1)), MAX_RETRY_DELAY_MS);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new JobTimeoutError(message)), ms);
+  });
+
+  return Promise.race([promise, timeout]).then(
+    value => {
+      clearTimeout(timer);
+      return value;
+    },
+    error => {
+      clearTimeout(timer);
+      throw error;
+    }
+  );
+}
+
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,277 @@
+/**
+ * Kill Switch Service
+ *
+ * Account-wide trading halt (trading_control row) with an audit log (trading_halt_events):
+ * - While halted, cron enqueue, queued BOT_RUN jobs, bot test runs and every order are refused
+ * - Trips manually (POST /api/kill-switch) or automatically via circuit breakers:
+ *   consecutive order failures, intraday equity drawdown, consecutive stale price lookups
+ * - Only an explicit resume clears it; every trip and resume is logged with its reason
+ */
+
+import { prisma } from '@/lib/prisma';
+import { env } from '@/lib/config/env';
+import { Prisma, TradingControl, TradingHaltEvent, TradingHaltTrigger } from '@prisma/client';
+import type { AccountInfo } from './alpacaTradingService';
+
+const CONTROL_ID = 'global';
+
+export interface KillSwitchStatus {
+  halted: boolean;
+  haltedAt: Date | null;
+  trigger: TradingHaltTrigger | null;
+  reason: string | null;
+  consecutiveOrderFailures: number;
+  consecutiveStalePrices: number;
+  thresholds: {
+    maxOrderFailures: number;
+    maxDrawdownPercent: number;
+    maxStalePrices: number;
+  };
+  events: TradingHaltEvent[];
+}
+
+/**
+ * Thrown by trading entry points while the kill switch is tripped
+ */
+export class TradingHaltedError extends Error {
+  constructor(public readonly haltReason: string) {
+    super(`Trading halted: ${haltReason}`);
+    this.name = 'TradingHaltedError';
+  }
+}
+
+class KillSwitchService {
+  async getControl(): Promise<TradingControl> {
+    const control = await prisma.tradingControl.findUnique({ where: { id: CONTROL_ID } });
+    if (control) return control;
+
+    try {
+      return await prisma.tradingControl.create({ data: { id: CONTROL_ID } });
+    } catch (error: any) {
+      // 동시에 처음 호출한 다른 실행이 먼저 만들었으면 그 행을 사용
+      if (error?.code === 'P2002') {
+        const created = await prisma.tradingControl.findUnique({ where: { id: CONTROL_ID } });
+        if (created) return created;
+      }
+      throw error;
+    }
+  }
+
+  async isHalted(): Promise<boolean> {
+    const control = await prisma.tradingControl.findUnique({ where: { id: CONTROL_ID } });
+    return !!control?.halted;
+  }
+
+  /**
+   * Throws TradingHaltedError while trading is halted
+   */
+  async assertTradingAllowed(): Promise<void> {
+    const control = await prisma.tradingControl.findUnique({ where: { id: CONTROL_ID } });
+    if (control?.halted) {
+      throw new TradingHaltedError(control.haltReason || 'kill switch tripped');
+    }
+  }
+
+  async getStatus(eventLimit: number = 20): Promise<KillSwitchStatus> {
+    const [control, events] = await Promise.all([
+      this.getControl(),
+      prisma.tradingHaltEvent.findMany({ orderBy: { createdAt: 'desc' }, take: eventLimit }),
+    ]);
+
+    return {
+      halted: control.halted,
+      haltedAt: control.haltedAt,
+      trigger: control.haltTrigger,
+      reason: control.haltReason,
+      consecutiveOrderFailures: control.consecutiveOrderFailures,
+      consecutiveStalePrices: control.consecutiveStalePrices,
+      thresholds: {
+        maxOrderFailures: env.KILL_SWITCH_MAX_ORDER_FAILURES,
+        maxDrawdownPercent: env.KILL_SWITCH_MAX_DRAWDOWN_PERCENT,
+        maxStalePrices: env.KILL_SWITCH_MAX_STALE_PRICES,
+      },
+      events,
+    };
+  }
+
+  /**
+   * Halt all trading. A second trip while halted keeps the original reason and is not logged.
+   */
+  async trip(
+    trigger: TradingHaltTrigger,
+    reason: string,
+    options: { actor?: string; details?: Prisma.InputJsonValue } = {}
+  ): Promise<TradingControl> {
+    await this.getControl();
+
+    // 조건부 업데이트: 동시에 여러 트립이 와도 이벤트는 한 번만 기록
+    const { count } = await prisma.tradingControl.updateMany({
+      where: { id: CONTROL_ID, halted: false },
+      data: { halted: true, haltedAt: new Date(), haltTrigger: trigger, haltReason: reason },
+    });
+    if (count === 0) {
+      return this.getControl();
+    }
+
+    console.error(`🛑 [KillSwitch] 전체 매매 정지 (${trigger}): ${reason}`);
+
+    await prisma.tradingHaltEvent.create({
+      data: { action: 'TRIP', trigger, reason, actor: options.actor ?? null, details: options.details },
+    });
+
+    return this.getControl();
+  }
+
+  /**
+   * Clear the halt (explicit only) and reset the circuit breaker counters
+   */
+  async resume(reason: string, actor?: string): Promise<TradingControl> {
+    const control = await this.getControl();
+
+    const { count } = await prisma.tradingControl.updateMany({
+      where: { id: CONTROL_ID, halted: true },
+      data: {
+        halted: false,
+        haltedAt: null,
+        haltTrigger: null,
+        haltReason: null,
+        consecutiveOrderFailures: 0,
+        consecutiveStalePrices: 0,
+      },
+    });
+    if (count === 0) {
+      return this.getControl();
+    }
+
+    console.log(`▶️ [KillSwitch] 매매 재개: ${reason}`);
+
+    await prisma.tradingHaltEvent.create({
+      data: {
+        action: 'RESUME',
+        trigger: 'MANUAL',
+        reason,
+        actor: actor ?? null,
+        details: { haltedAt: control.haltedAt?.toISOString() ?? null, haltTrigger: control.haltTrigger, haltReason: control.haltReason },
+      },
+    });
+
+    return this.getControl();
+  }
+
+  /**
+   * Circuit breaker: N consecutive broker order failures
+   */
+  async recordOrderResult(success: boolean, error?: string): Promise<void> {
+    const control = await this.getControl();
+
+    if (success) {
+      if (control.consecutiveOrderFailures > 0) {
+        await prisma.tradingControl.update({ where: { id: CONTROL_ID }, data: { consecutiveOrderFailures: 0 } });
+      }
+      return;
+    }
+
+    const updated = await prisma.tradingControl.update({
+      where: { id: CONTROL_ID },
+      data: { consecutiveOrderFailures: { increment: 1 } },
+    });
+
+    if (updated.consecutiveOrderFailures >= env.KILL_SWITCH_MAX_ORDER_FAILURES) {
+      await this.trip(
+        'ORDER_FAILURES',
+        `${updated.consecutiveOrderFailures} consecutive order failures (last: ${error || 'unknown error'})`,
+        { details: { consecutiveOrderFailures: updated.consecutiveOrderFailures, lastError: error ?? null } }
+      );
+    }
+  }
+
+  /**
+   * Circuit breaker: N consecutive runs without a live broker price
+   */
+  async recordPriceCheck(symbol: string, fresh: boolean, source: string): Promise<void> {
+    const control = await this.getControl();
+
+    if (fresh) {
+      if (control.consecutiveStalePrices > 0) {
+        await prisma.tradingControl.update({ where: { id: CONTROL_ID }, data: { consecutiveStalePrices: 0 } });
+      }
+      return;
+    }
+
+    const updated = await prisma.tradingControl.update({
+      where: { id: CONTROL_ID },
+      data: { consecutiveStalePrices: { increment: 1 } },
+    });
+
+    if (updated.consecutiveStalePrices >= env.KILL_SWITCH_MAX_STALE_PRICES) {
+      await this.trip(
+        'STALE_PRICE_DATA',
+        `${updated.consecutiveStalePrices} consecutive price lookups without a live broker quote (last: ${symbol} via ${source})`,
+        { details: { consecutiveStalePrices: updated.consecutiveStalePrices, symbol, source } }
+      );
+    }
+  }
+
+  /**
+   * Circuit breaker: equity drawdown from today's peak (per broker account).
+   * Returns true if the check tripped (or found) the halt.
+   */
+  async checkEquityDrawdown(broker: string, account: AccountInfo): Promise<boolean> {
+    const control = await this.getControl();
+    if (control.halted) {
+      return true;
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const peak = await this.raiseEquityPeak(broker, today, account);
+
+    const drawdownPercent = peak > 0 ? ((peak - account.equity) / peak) * 100 : 0;
+    if (drawdownPercent <= env.KILL_SWITCH_MAX_DRAWDOWN_PERCENT) {
+      return false;
+    }
+
+    await this.trip(
+      'EQUITY_DRAWDOWN',
+      `${broker} equity $${account.equity.toFixed(2)} is ${drawdownPercent.toFixed(2)}% below today's peak $${peak.toFixed(2)} (max ${env.KILL_SWITCH_MAX_DRAWDOWN_PERCENT}%)`,
+      { details: { broker, equity: account.equity, peak, drawdownPercent } }
+    );
+    return true;
+  }
+
+  /**
+   * Raise today's equity peak of a broker account and return it.
+   * Conditional single-row writes only, so concurrent bot runs cannot overwrite a higher peak.
+   */
+  private async raiseEquityPeak(broker: string, date: string, account: AccountInfo): Promise<number> {
+    const openingPeak = Math.max(account.lastEquity, account.equity);
+
+    // 같은 날: 더 높은 자산일 때만 갱신
+    await prisma.equityPeak.updateMany({
+      where: { broker, date, equity: { lt: account.equity } },
+      data: { equity: account.equity },
+    });
+    // 날짜가 바뀜: 전일 종가 기준으로 다시 시작 (더 최신 날짜는 덮어쓰지 않음)
+    await prisma.equityPeak.updateMany({
+      where: { broker, date: { lt: date } },
+      data: { date, equity: openingPeak },
+    });
+
+    const peak = await prisma.equityPeak.findUnique({ where: { broker } });
+    if (peak) {
+      return peak.date === date ? peak.equity : openingPeak;
+    }
+
+    try {
+      const created = await prisma.equityPeak.create({ data: { broker, date, equity: openingPeak } });
+      return created.equity;
+    } catch (error: any) {
+      // 다른 실행이 먼저 행을 만들었으면 조건부 갱신을 다시 수행
+      if (error?.code === 'P2002') {
+        return this.raiseEquityPeak(broker, date, account);
+      }
+      throw error;
+    }
+  }
+}
+
+export const killSwitchService = new KillSwitchService();
@@ -0,0 +1,240 @@
+/**
+ * Local Technical Indicator Service
+ *
+ * Computes indicators from cached MarketData bars instead of one Alpha Vantage call per indicator:
+ * - Cache-first: bars are read from the MarketData table
+ * - Alpha Vantage is only called to fill gaps (missing warm-up history or a missed trading session)
+ * - Calculations match Alpha Vantage / TA-Lib (see __tests__/fixtures/indicators)
+ *
+ * Same method signatures as technicalIndicatorService, plus ATR and a batch snapshot.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { alphaVantageService } from './alphaVantageService';
+import type { AlphaVantageIndicatorResponse } from './technicalIndicatorService';
+import {
+  StrategyBar,
+  IndicatorRequest,
+  IndicatorReading,
+  computeIndicatorReadings,
+} from '@/lib/utils/strategyEngine';
+import type { TechnicalIndicatorResults } from '@/lib/utils/technicalIndicators';
+import {
+  getEasternClock,
+  getLatestSessionDate,
+  isMarketOpen,
+} from '@/lib/utils/marketCalendar';
+
+type IntradayInterval = '1min' | '5min' | '15min' | '60min';
+
+const INTERVAL_MINUTES: Record<IntradayInterval, number> = {
+  '1min': 1,
+  '5min': 5,
+  '15min': 15,
+  '60min': 60,
+};
+
+export interface LocalIndicatorResponse extends AlphaVantageIndicatorResponse {
+  atr: number | null;
+}
+
+export interface IndicatorSnapshot {
+  bars: StrategyBar[];
+  readings: IndicatorReading[];
+  currentPrice: number | null;
+  asOf: Date | null;
+}
+
+class LocalIndicatorService {
+  // Enough history for SMA 200 plus EMA/RSI smoothing warm-up
+  private readonly WARMUP_BARS = 300;
+  // Don't hit Alpha Vantage again for the same symbol/interval within this window
+  // (the provider can lag a few minutes behind the close)
+  private readonly REFILL_COOLDOWN = 15 * 60 * 1000;
+  private lastRefill = new Map<string, number>();
+
+  /**
+   * Load the most recent bars for a symbol (chronological order)
+   * Fills from Alpha Vantage only when the cache is short or stale
+   */
+  async loadBars(symbol: string, interval: string = 'daily', minBars: number = this.WARMUP_BARS): Promise<StrategyBar[]> {
+    let bars = await this.readCachedBars(symbol, interval, minBars);
+    const gap = this.detectGap(bars, interval, minBars);
+
+    if (gap && this.canRefill(symbol, interval)) {
+      console.log(`🔄 ${symbol} (${interval}) cache gap: ${gap} - filling from Alpha Vantage`);
+      this.lastRefill.set(`${symbol}:${interval}`, Date.now());
+
+      try {
+        if (interval === 'daily') {
+          const endDate = new Date();
+          const startDate = new Date(endDate.getTime() - Math.ceil(minBars * 1.5) * 24 * 60 * 60 * 1000);
+          await alphaVantageService.fetchAndCacheHistoricalData(symbol, startDate, endDate);
+        } else if (interval in INTERVAL_MINUTES) {
+          await alphaVantageService.fetchAndCacheIntradayData(symbol, interval as IntradayInterval);
+        }
+
+        bars = await this.readCachedBars(symbol, interval, minBars);
+      } catch (error) {
+        console.warn(`⚠️ Gap fill failed for ${symbol} (${interval}), using ${bars.length} cached bars:`, error);
+      }
+    }
+
+    return bars;
+  }
+
+  /**
+   * Calculate a batch of indicators from one bar load
+   * Readings have the same shape as TestReport['apiCalls'] entries
+   */
+  async getIndicatorSnapshot(symbol: string, interval: string, requests: IndicatorRequest[]): Promise<IndicatorSnapshot> {
+    const bars = await this.loadBars(symbol, interval);
+    const lastBar = bars[bars.length - 1];
+
+    return {
+      bars,
+      readings: computeIndicatorReadings(bars, requests),
+      currentPrice: lastBar ? lastBar.close : null,
+      asOf: lastBar ? lastBar.timestamp : null,
+    };
+  }
+
+  async fetchRSI(symbol: string, interval: string = 'daily', timePeriod: number = 14): Promise<number | null> {
+    return this.single(symbol, interval, { type: 'rsi', params: { period: timePeriod } }) as Promise<number | null>;
+  }
+
+  async fetchSMA(symbol: string, interval: string = 'daily', timePeriod: number = 20): Promise<number | null> {
+    return this.single(symbol, interval, { type: 'sma', params: { period: timePeriod } }) as Promise<number | null>;
+  }
+
+  async fetchEMA(symbol: string, interval: string = 'daily', timePeriod: number = 12): Promise<number | null> {
+    return this.single(symbol, interval, { type: 'ema', params: { period: timePeriod } }) as Promise<number | null>;
+  }
+
+  async fetchATR(symbol: string, interval: string = 'daily', timePeriod: number = 14): Promise<number | null> {
+    return this.single(symbol, interval, { type: 'atr', params: { period: timePeriod } }) as Promise<number | null>;
+  }
+
+  async fetchMACD(symbol: string, interval: string = 'daily'): Promise<TechnicalIndicatorResults['macd']> {
+    const result = await this.single(symbol, interval, { type: 'macd', params: {} });
+    return this.objectResult(result, ['macdLine', 'signalLine', 'histogram']);
+  }
+
+  async fetchBollingerBands(symbol: string, interval: string = 'daily', timePeriod: number = 20): Promise<TechnicalIndicatorResults['bollingerBands']> {
+    const result = await this.single(symbol, interval, { type: 'bollinger', params: { period: timePeriod } });
+    return this.objectResult(result, ['upper', 'middle', 'lower']);
+  }
+
+  async fetchStochastic(symbol: string, interval: string = 'daily', fastkperiod: number = 5, slowkperiod: number = 3, slowdperiod: number = 3): Promise<LocalIndicatorResponse['stochastic']> {
+    const result = await this.single(symbol, interval, {
+      type: 'stochastic',
+      params: { fastkperiod, slowkperiod, slowdperiod },
+    });
+    return this.objectResult(result, ['slowK', 'slowD']);
+  }
+
+  async fetchAllIndicators(symbol: string, interval: string = 'daily'): Promise<LocalIndicatorResponse> {
+    const { readings } = await this.getIndicatorSnapshot(symbol, interval, [
+      { type: 'rsi', params: { period: 14 } },
+      { type: 'sma', params: { period: 20 } },
+      { type: 'ema', params: { period: 12 } },
+      { type: 'ema', params: { period: 26 } },
+      { type: 'macd', params: {} },
+      { type: 'bollinger', params: { period: 20 } },
+      { type: 'stochastic', params: { fastkperiod: 5, slowkperiod: 3, slowdperiod: 3 } },
+      { type: 'atr', params: { period: 14 } },
+    ]);
+    const [rsi, sma20, ema12, ema26, macd, bollingerBands, stochastic, atr] = readings.map(r => r.result);
+
+    return {
+      rsi: this.numberResult(rsi),
+      sma20: this.numberResult(sma20),
+      ema12: this.numberResult(ema12),
+      ema26: this.numberResult(ema26),
+      macd: this.objectResult(macd, ['macdLine', 'signalLine', 'histogram']),
+      bollingerBands: this.objectResult(bollingerBands, ['upper', 'middle', 'lower']),
+      stochastic: this.objectResult(stochastic, ['slowK', 'slowD']),
+      atr: this.numberResult(atr),
+    };
+  }
+
+  private numberResult(result: IndicatorReading['result']): number | null {
+    return typeof result === 'number' ? result : null;
+  }
+
+  /**
+   * Picks the named values of a multi-value reading (all null when the reading is missing)
+   */
+  private objectResult<K extends string>(result: IndicatorReading['result'], keys: K[]): Record<K, number | null> {
+    const values = {} as Record<K, number | null>;
+    keys.forEach(key => {
+      const value = result !== null && typeof result === 'object' ? result[key] : undefined;
+      values[key] = typeof value === 'number' ? value : null;
+    });
+    return values;
+  }
+
+  private async single(symbol: string, interval: string, request: IndicatorRequest): Promise<IndicatorReading['result']> {
+    try {
+      const { readings } = await this.getIndicatorSnapshot(symbol, interval, [request]);
+      return readings[0].result;
+    } catch (error) {
+      console.error(`Error calculating ${request.type} for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  private async readCachedBars(symbol: string, interval: string, count: number): Promise<StrategyBar[]> {
+    const rows = await prisma.marketData.findMany({
+      where: { symbol, interval },
+      orderBy: { timestamp: 'desc' },
+      take: count,
+    });
+
+    return rows.reverse().map(row => ({
+      timestamp: row.timestamp,
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume,
+    }));
+  }
+
+  /**
+   * Returns a description of the gap, or null when the cache is usable as-is
+   */
+  private detectGap(bars: StrategyBar[], interval: string, minBars: number): string | null {
+    if (bars.length < minBars) {
+      return `${bars.length}/${minBars} bars cached`;
+    }
+
+    const latest = bars[bars.length - 1].timestamp;
+    const now = new Date();
+    const expectedSession = getLatestSessionDate(now);
+
+    if (interval === 'daily') {
+      // Daily bars are stored at UTC midnight of the trading date
+      const latestDate = latest.toISOString().slice(0, 10);
+      return latestDate < expectedSession ? `latest bar ${latestDate}, expected ${expectedSession}` : null;
+    }
+
+    const minutes = INTERVAL_MINUTES[interval as IntradayInterval];
+    if (!minutes) return null;
+
+    if (isMarketOpen(now)) {
+      const ageMinutes = (now.getTime() - latest.getTime()) / 60000;
+      return ageMinutes > minutes * 2 ? `latest bar ${Math.round(ageMinutes)} minutes old` : null;
+    }
+
+    const latestSession = getEasternClock(latest).date;
+    return latestSession < expectedSession ? `latest bar ${latestSession}, expected ${expectedSession}` : null;
+  }
+
+  private canRefill(symbol: string, interval: string): boolean {
+    const last = this.lastRefill.get(`${symbol}:${interval}`);
+    return last === undefined || Date.now() - last > this.REFILL_COOLDOWN;
+  }
+}
+
+export const localIndicatorService = new LocalIndicatorService();
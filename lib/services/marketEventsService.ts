@@ -7,7 +7,7 @@
  *
  * Features:
  * - Unified interface for all market events
- * - In-memory caching (5 minutes)
+ * - Shared cache and rate budget via dataGatewayService
  * - Rate limit protection
  * - Error handling with fallback
  * - Date filtering for calendar-based APIs
@@ -36,14 +36,22 @@ import {
 
 import { stockScreenerService } from './stockScreenerService';
 import { env } from '@/lib/config/env';
+import { API } from '@/lib/config/trading';
+import { CacheStatus, dataGatewayService } from './dataGatewayService';
+import { normalizeCongressionalTransactionType } from '@/lib/utils/congressionalScoringAlgorithm';
 
 /**
- * Cache entry structure
+ * Gateway cache key prefix per category (market movers come from the stock screener cache)
  */
-interface CacheEntry<T> {
-  data: T;
-  timestamp: Date;
-}
+const CACHE_KEY_PREFIXES: Record<string, string> = {
+  senateTrading: 'fmp:/v4/senate-trading',
+  mergersAcquisitions: 'fmp:/v4/mergers-acquisitions-rss-feed',
+  analystRatings: 'fmp:/v4/upgrades-downgrades-rss-feed',
+  upcomingEarnings: 'fmp:/v3/earning_calendar',
+  stockSplits: 'fmp:/v3/stock_split_calendar',
+  insiderTrading: 'fmp:/v4/insider-trading',
+  marketMovers: 'alphaVantage:TOP_GAINERS_LOSERS',
+};
 
 /**
  * Market Events Service Class
@@ -51,16 +59,6 @@ interface CacheEntry<T> {
 class MarketEventsService {
   private readonly FMP_BASE_URL = 'https://financialmodelingprep.com/api';
   private readonly FMP_API_KEY: string;
-  private readonly CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
-
-  // Individual caches for each category
-  private senateTradingCache: CacheEntry<SenateTrade[]> | null = null;
-  private mergersCache: CacheEntry<MergerAcquisition[]> | null = null;
-  private ratingsCache: CacheEntry<AnalystRating[]> | null = null;
-  private earningsCache: CacheEntry<UpcomingEarnings[]> | null = null;
-  private splitsCache: CacheEntry<StockSplit[]> | null = null;
-  private insiderTradingCache: CacheEntry<InsiderTrading[]> | null = null;
-  private marketMoversCache: CacheEntry<MarketMovers> | null = null;
 
   constructor() {
     const apiKey = env.FMP_API_KEY;
@@ -74,16 +72,6 @@ class MarketEventsService {
   // Utility Methods
   // ========================================
 
-  /**
-   * Check if cached data is still valid
-   */
-  private isCacheValid<T>(cache: CacheEntry<T> | null): boolean {
-    if (!cache) return false;
-    const now = new Date().getTime();
-    const cacheTime = cache.timestamp.getTime();
-    return now - cacheTime < this.CACHE_DURATION_MS;
-  }
-
   /**
    * Generic FMP API fetch method
    */
@@ -197,51 +185,46 @@ class MarketEventsService {
    * Fetch Senate trading data
    */
   async getSenateTrading(options?: { limit?: number }): Promise<SenateTrade[]> {
-    // Check cache
-    if (this.senateTradingCache && this.isCacheValid(this.senateTradingCache)) {
-      console.log('[MarketEvents] Using cached senate trading data');
-      return options?.limit
-        ? this.senateTradingCache.data.slice(0, options.limit)
-        : this.senateTradingCache.data;
-    }
-
-    console.log('[MarketEvents] Fetching fresh senate trading data from FMP');
-
     try {
-      const rawData = await this.fetchFMP<FMPSenateTradingResponse[]>('/v4/senate-trading', {
-        page: '0',
+      const trades = await dataGatewayService.request({
+        provider: 'fmp',
+        endpoint: '/v4/senate-trading',
+        params: { page: '0' },
+        ttlMs: API.CACHE_TTLS.CALENDAR,
+        fetcher: async (): Promise<SenateTrade[]> => {
+          console.log('[MarketEvents] Fetching fresh senate trading data from FMP');
+
+          const rawData = await this.fetchFMP<FMPSenateTradingResponse[]>('/v4/senate-trading', {
+            page: '0',
+          });
+
+          // Check if rawData is an array
+          if (!Array.isArray(rawData)) {
+            console.error('[MarketEvents] Senate Trading API returned non-array response:', rawData);
+            throw new MarketEventsAPIError(`Senate Trading API returned invalid response: ${JSON.stringify(rawData)}`);
+          }
+
+          const trades: SenateTrade[] = rawData.map((item) => ({
+            firstName: item.firstName,
+            lastName: item.lastName,
+            symbol: item.symbol,
+            transactionType: normalizeCongressionalTransactionType(item.type),
+            amount: item.amount,
+            transactionDate: item.transactionDate,
+            disclosureDate: item.dateRecieved,
+            assetType: item.assetType,
+            comment: item.comment,
+            party: item.party,
+          }));
+
+          return trades;
+        },
       });
 
-      // Check if rawData is an array
-      if (!Array.isArray(rawData)) {
-        console.error('[MarketEvents] Senate Trading API returned non-array response:', rawData);
-        throw new MarketEventsAPIError(`Senate Trading API returned invalid response: ${JSON.stringify(rawData)}`);
-      }
-
-      const trades: SenateTrade[] = rawData.map((item) => ({
-        firstName: item.firstName,
-        lastName: item.lastName,
-        symbol: item.symbol,
-        transactionType: item.type.toLowerCase() as 'purchase' | 'sale' | 'exchange',
-        amount: item.amount,
-        transactionDate: item.transactionDate,
-        disclosureDate: item.dateRecieved,
-        assetType: item.assetType,
-        comment: item.comment,
-        party: item.party,
-      }));
-
-      // Update cache
-      this.senateTradingCache = {
-        data: trades,
-        timestamp: new Date(),
-      };
-
       return options?.limit ? trades.slice(0, options.limit) : trades;
     } catch (error) {
       console.error('[MarketEvents] Failed to fetch senate trading:', error);
-      // Return cached data if available, otherwise empty array
-      return this.senateTradingCache?.data || [];
+      return [];
     }
   }
 
@@ -253,43 +236,41 @@ class MarketEventsService {
    * Fetch M&A feed data
    */
   async getMergersAcquisitions(options?: { limit?: number }): Promise<MergerAcquisition[]> {
-    // Check cache
-    if (this.mergersCache && this.isCacheValid(this.mergersCache)) {
-      console.log('[MarketEvents] Using cached M&A data');
-      return options?.limit ? this.mergersCache.data.slice(0, options.limit) : this.mergersCache.data;
-    }
-
-    console.log('[MarketEvents] Fetching fresh M&A data from FMP');
-
     try {
-      const rawData = await this.fetchFMP<FMPMergersAcquisitionsResponse[]>(
-        '/v4/mergers-acquisitions-rss-feed',
-        { page: '0' }
-      );
+      const deals = await dataGatewayService.request({
+        provider: 'fmp',
+        endpoint: '/v4/mergers-acquisitions-rss-feed',
+        params: { page: '0' },
+        ttlMs: API.CACHE_TTLS.MARKET_EVENTS,
+        fetcher: async (): Promise<MergerAcquisition[]> => {
+          console.log('[MarketEvents] Fetching fresh M&A data from FMP');
+
+          const rawData = await this.fetchFMP<FMPMergersAcquisitionsResponse[]>(
+            '/v4/mergers-acquisitions-rss-feed',
+            { page: '0' }
+          );
 
-      // Check if rawData is an array
-      if (!Array.isArray(rawData)) {
-        console.error('[MarketEvents] M&A API returned non-array response:', rawData);
-        throw new MarketEventsAPIError(`M&A API returned invalid response: ${JSON.stringify(rawData)}`);
-      }
+          // Check if rawData is an array
+          if (!Array.isArray(rawData)) {
+            console.error('[MarketEvents] M&A API returned non-array response:', rawData);
+            throw new MarketEventsAPIError(`M&A API returned invalid response: ${JSON.stringify(rawData)}`);
+          }
 
-      const deals: MergerAcquisition[] = rawData.map((item) => ({
-        title: `${item.companyName} → ${item.targetedCompanyName}`,
-        symbol: item.symbol,
-        publishedDate: item.transactionDate,
-        url: item.url,
-      }));
-
-      // Update cache
-      this.mergersCache = {
-        data: deals,
-        timestamp: new Date(),
-      };
+          const deals: MergerAcquisition[] = rawData.map((item) => ({
+            title: `${item.companyName} → ${item.targetedCompanyName}`,
+            symbol: item.symbol,
+            publishedDate: item.transactionDate,
+            url: item.url,
+          }));
+
+          return deals;
+        },
+      });
 
       return options?.limit ? deals.slice(0, options.limit) : deals;
     } catch (error) {
       console.error('[MarketEvents] Failed to fetch M&A data:', error);
-      return this.mergersCache?.data || [];
+      return [];
     }
   }
 
@@ -301,46 +282,44 @@ class MarketEventsService {
    * Fetch analyst rating changes (upgrades/downgrades)
    */
   async getAnalystRatings(options?: { limit?: number }): Promise<AnalystRating[]> {
-    // Check cache
-    if (this.ratingsCache && this.isCacheValid(this.ratingsCache)) {
-      console.log('[MarketEvents] Using cached analyst ratings data');
-      return options?.limit ? this.ratingsCache.data.slice(0, options.limit) : this.ratingsCache.data;
-    }
-
-    console.log('[MarketEvents] Fetching fresh analyst ratings from FMP');
-
     try {
-      const rawData = await this.fetchFMP<FMPRatingResponse[]>('/v4/upgrades-downgrades-rss-feed', {
-        page: '0',
+      const ratings = await dataGatewayService.request({
+        provider: 'fmp',
+        endpoint: '/v4/upgrades-downgrades-rss-feed',
+        params: { page: '0' },
+        ttlMs: API.CACHE_TTLS.MARKET_EVENTS,
+        fetcher: async (): Promise<AnalystRating[]> => {
+          console.log('[MarketEvents] Fetching fresh analyst ratings from FMP');
+
+          const rawData = await this.fetchFMP<FMPRatingResponse[]>('/v4/upgrades-downgrades-rss-feed', {
+            page: '0',
+          });
+
+          // Check if rawData is an array
+          if (!Array.isArray(rawData)) {
+            console.error('[MarketEvents] Analyst Ratings API returned non-array response:', rawData);
+            throw new MarketEventsAPIError(`Analyst Ratings API returned invalid response: ${JSON.stringify(rawData)}`);
+          }
+
+          const ratings: AnalystRating[] = rawData.map((item) => ({
+            symbol: item.symbol,
+            gradingCompany: item.gradingCompany,
+            previousGrade: item.previousGrade,
+            newGrade: item.newGrade,
+            publishedDate: item.publishedDate,
+            newsURL: item.newsURL,
+            newsTitle: item.newsTitle,
+            signal: this.interpretRatingChange(item.previousGrade, item.newGrade),
+          }));
+
+          return ratings;
+        },
       });
 
-      // Check if rawData is an array
-      if (!Array.isArray(rawData)) {
-        console.error('[MarketEvents] Analyst Ratings API returned non-array response:', rawData);
-        throw new MarketEventsAPIError(`Analyst Ratings API returned invalid response: ${JSON.stringify(rawData)}`);
-      }
-
-      const ratings: AnalystRating[] = rawData.map((item) => ({
-        symbol: item.symbol,
-        gradingCompany: item.gradingCompany,
-        previousGrade: item.previousGrade,
-        newGrade: item.newGrade,
-        publishedDate: item.publishedDate,
-        newsURL: item.newsURL,
-        newsTitle: item.newsTitle,
-        signal: this.interpretRatingChange(item.previousGrade, item.newGrade),
-      }));
-
-      // Update cache
-      this.ratingsCache = {
-        data: ratings,
-        timestamp: new Date(),
-      };
-
       return options?.limit ? ratings.slice(0, options.limit) : ratings;
     } catch (error) {
       console.error('[MarketEvents] Failed to fetch analyst ratings:', error);
-      return this.ratingsCache?.data || [];
+      return [];
     }
   }
 
@@ -352,47 +331,40 @@ class MarketEventsService {
    * Fetch upcoming earnings (next 7 days)
    */
   async getUpcomingEarnings(options?: MarketEventsOptions): Promise<UpcomingEarnings[]> {
-    // Check cache
-    if (this.earningsCache && this.isCacheValid(this.earningsCache)) {
-      console.log('[MarketEvents] Using cached earnings data');
-      return options?.limit
-        ? this.earningsCache.data.slice(0, options.limit)
-        : this.earningsCache.data;
-    }
-
-    console.log('[MarketEvents] Fetching fresh earnings calendar from FMP');
-
     try {
       const { from, to } = options?.from && options?.to
         ? { from: options.from, to: options.to }
         : this.getDateRange();
 
-      const rawData = await this.fetchFMP<FMPEarningsCalendarResponse[]>('/v3/earning_calendar', {
-        from,
-        to,
+      const earnings = await dataGatewayService.request({
+        provider: 'fmp',
+        endpoint: '/v3/earning_calendar',
+        params: { from, to },
+        ttlMs: API.CACHE_TTLS.CALENDAR,
+        fetcher: async (): Promise<UpcomingEarnings[]> => {
+          console.log('[MarketEvents] Fetching fresh earnings calendar from FMP');
+
+          const rawData = await this.fetchFMP<FMPEarningsCalendarResponse[]>('/v3/earning_calendar', { from, to });
+
+          const earnings: UpcomingEarnings[] = rawData.map((item) => ({
+            symbol: item.symbol,
+            date: item.date,
+            epsEstimated: item.epsEstimated,
+            eps: item.eps,
+            revenueEstimated: item.revenueEstimated,
+            revenue: item.revenue,
+            time: item.time,
+            fiscalDateEnding: item.fiscalDateEnding,
+          }));
+
+          return earnings;
+        },
       });
 
-      const earnings: UpcomingEarnings[] = rawData.map((item) => ({
-        symbol: item.symbol,
-        date: item.date,
-        epsEstimated: item.epsEstimated,
-        eps: item.eps,
-        revenueEstimated: item.revenueEstimated,
-        revenue: item.revenue,
-        time: item.time,
-        fiscalDateEnding: item.fiscalDateEnding,
-      }));
-
-      // Update cache
-      this.earningsCache = {
-        data: earnings,
-        timestamp: new Date(),
-      };
-
       return options?.limit ? earnings.slice(0, options.limit) : earnings;
     } catch (error) {
       console.error('[MarketEvents] Failed to fetch earnings calendar:', error);
-      return this.earningsCache?.data || [];
+      return [];
     }
   }
 
@@ -404,42 +376,37 @@ class MarketEventsService {
    * Fetch upcoming stock splits (next 7 days)
    */
   async getStockSplits(options?: MarketEventsOptions): Promise<StockSplit[]> {
-    // Check cache
-    if (this.splitsCache && this.isCacheValid(this.splitsCache)) {
-      console.log('[MarketEvents] Using cached stock splits data');
-      return options?.limit ? this.splitsCache.data.slice(0, options.limit) : this.splitsCache.data;
-    }
-
-    console.log('[MarketEvents] Fetching fresh stock splits from FMP');
-
     try {
       const { from, to } = options?.from && options?.to
         ? { from: options.from, to: options.to }
         : this.getDateRange();
 
-      const rawData = await this.fetchFMP<FMPStockSplitResponse[]>('/v3/stock_split_calendar', {
-        from,
-        to,
+      const splits = await dataGatewayService.request({
+        provider: 'fmp',
+        endpoint: '/v3/stock_split_calendar',
+        params: { from, to },
+        ttlMs: API.CACHE_TTLS.CALENDAR,
+        fetcher: async (): Promise<StockSplit[]> => {
+          console.log('[MarketEvents] Fetching fresh stock splits from FMP');
+
+          const rawData = await this.fetchFMP<FMPStockSplitResponse[]>('/v3/stock_split_calendar', { from, to });
+
+          const splits: StockSplit[] = rawData.map((item) => ({
+            symbol: item.symbol,
+            date: item.date,
+            numerator: item.numerator,
+            denominator: item.denominator,
+            label: item.label,
+          }));
+
+          return splits;
+        },
       });
 
-      const splits: StockSplit[] = rawData.map((item) => ({
-        symbol: item.symbol,
-        date: item.date,
-        numerator: item.numerator,
-        denominator: item.denominator,
-        label: item.label,
-      }));
-
-      // Update cache
-      this.splitsCache = {
-        data: splits,
-        timestamp: new Date(),
-      };
-
       return options?.limit ? splits.slice(0, options.limit) : splits;
     } catch (error) {
       console.error('[MarketEvents] Failed to fetch stock splits:', error);
-      return this.splitsCache?.data || [];
+      return [];
     }
   }
 
@@ -451,71 +418,67 @@ class MarketEventsService {
    * Fetch insider trading data (최근 7일, 매수 거래만)
    */
   async getInsiderTrading(options?: { limit?: number }): Promise<InsiderTrading[]> {
-    // Check cache
-    if (this.insiderTradingCache && this.isCacheValid(this.insiderTradingCache)) {
-      console.log('[MarketEvents] Using cached insider trading data');
-      return options?.limit
-        ? this.insiderTradingCache.data.slice(0, options.limit)
-        : this.insiderTradingCache.data;
-    }
-
-    console.log('[MarketEvents] Fetching fresh insider trading data from FMP');
-
     try {
-      // Get recent insider trades (without symbol filter to get more data)
-      const rawData = await this.fetchFMP<FMPInsiderTradingResponse[]>('/v4/insider-trading', {
-        page: '0',
+      const trades = await dataGatewayService.request({
+        provider: 'fmp',
+        endpoint: '/v4/insider-trading',
+        params: { page: '0' },
+        ttlMs: API.CACHE_TTLS.MARKET_EVENTS,
+        fetcher: async (): Promise<InsiderTrading[]> => {
+          console.log('[MarketEvents] Fetching fresh insider trading data from FMP');
+
+          // Get recent insider trades (without symbol filter to get more data)
+          const rawData = await this.fetchFMP<FMPInsiderTradingResponse[]>('/v4/insider-trading', {
+            page: '0',
+          });
+
+          // Check if rawData is an array
+          if (!Array.isArray(rawData)) {
+            console.error('[MarketEvents] Insider Trading API returned non-array response:', rawData);
+            throw new MarketEventsAPIError(
+              `Insider Trading API returned invalid response: ${JSON.stringify(rawData)}`
+            );
+          }
+
+          // Filter and map: 최근 30일, 매수(A)와 매도(D) 모두, price > 0 (실제 거래)
+          const thirtyDaysAgo = new Date();
+          thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+
+          const trades: InsiderTrading[] = rawData
+            .filter((item) => {
+              const transactionDate = new Date(item.transactionDate);
+              return (
+                (item.acquistionOrDisposition === 'A' || item.acquistionOrDisposition === 'D') && // 매수와 매도 모두
+                item.price > 0 && // 실제 거래 가격이 있는 경우만
+                transactionDate >= thirtyDaysAgo && // 최근 30일
+                (item.typeOfOwner.toLowerCase().includes('officer') || // 임원
+                  item.typeOfOwner.toLowerCase().includes('director') || // 이사
+                  item.typeOfOwner.toLowerCase().includes('ceo') ||
+                  item.typeOfOwner.toLowerCase().includes('cfo'))
+              );
+            })
+            .map((item) => ({
+              symbol: item.symbol,
+              reportingName: item.reportingName,
+              typeOfOwner: item.typeOfOwner,
+              transactionType: item.transactionType,
+              acquistionOrDisposition: item.acquistionOrDisposition,
+              securitiesTransacted: item.securitiesTransacted,
+              price: item.price,
+              securitiesOwned: item.securitiesOwned,
+              transactionDate: item.transactionDate,
+              filingDate: item.filingDate,
+              link: item.link,
+            }));
+
+          return trades;
+        },
       });
 
-      // Check if rawData is an array
-      if (!Array.isArray(rawData)) {
-        console.error('[MarketEvents] Insider Trading API returned non-array response:', rawData);
-        throw new MarketEventsAPIError(
-          `Insider Trading API returned invalid response: ${JSON.stringify(rawData)}`
-        );
-      }
-
-      // Filter and map: 최근 30일, 매수(A)와 매도(D) 모두, price > 0 (실제 거래)
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-      const trades: InsiderTrading[] = rawData
-        .filter((item) => {
-          const transactionDate = new Date(item.transactionDate);
-          return (
-            (item.acquistionOrDisposition === 'A' || item.acquistionOrDisposition === 'D') && // 매수와 매도 모두
-            item.price > 0 && // 실제 거래 가격이 있는 경우만
-            transactionDate >= thirtyDaysAgo && // 최근 30일
-            (item.typeOfOwner.toLowerCase().includes('officer') || // 임원
-              item.typeOfOwner.toLowerCase().includes('director') || // 이사
-              item.typeOfOwner.toLowerCase().includes('ceo') ||
-              item.typeOfOwner.toLowerCase().includes('cfo'))
-          );
-        })
-        .map((item) => ({
-          symbol: item.symbol,
-          reportingName: item.reportingName,
-          typeOfOwner: item.typeOfOwner,
-          transactionType: item.transactionType,
-          acquistionOrDisposition: item.acquistionOrDisposition,
-          securitiesTransacted: item.securitiesTransacted,
-          price: item.price,
-          securitiesOwned: item.securitiesOwned,
-          transactionDate: item.transactionDate,
-          filingDate: item.filingDate,
-          link: item.link,
-        }));
-
-      // Update cache
-      this.insiderTradingCache = {
-        data: trades,
-        timestamp: new Date(),
-      };
-
       return options?.limit ? trades.slice(0, options.limit) : trades;
     } catch (error) {
       console.error('[MarketEvents] Failed to fetch insider trading:', error);
-      return this.insiderTradingCache?.data || [];
+      return [];
     }
   }
 
@@ -528,22 +491,6 @@ class MarketEventsService {
    * Uses existing stockScreenerService for Alpha Vantage integration
    */
   async getMarketMovers(options?: { limit?: number }): Promise<MarketMovers> {
-    // Check cache
-    if (this.marketMoversCache && this.isCacheValid(this.marketMoversCache)) {
-      console.log('[MarketEvents] Using cached market movers data');
-      const cached = this.marketMoversCache.data;
-
-      if (options?.limit) {
-        return {
-          topGainers: cached.topGainers.slice(0, options.limit),
-          topLosers: cached.topLosers.slice(0, options.limit),
-          mostActive: cached.mostActive.slice(0, options.limit),
-        };
-      }
-
-      return cached;
-    }
-
     console.log('[MarketEvents] Fetching fresh market movers from Alpha Vantage');
 
     try {
@@ -578,26 +525,13 @@ class MarketEventsService {
         })),
       };
 
-      // Update cache
-      this.marketMoversCache = {
-        data: marketMovers,
-        timestamp: new Date(),
-      };
-
       return marketMovers;
     } catch (error) {
       console.error('[MarketEvents] Failed to fetch market movers:', error);
 
-      // Return cached data with error message, or empty arrays with error
+      // 종목 스크리너 캐시(만료분 포함)도 없으면 빈 목록과 오류 메시지 반환
       const errorMessage = '현재 시장 동향 데이터 서버가 응답하지 않습니다. 잠시 후 다시 시도해주세요.';
 
-      if (this.marketMoversCache?.data) {
-        return {
-          ...this.marketMoversCache.data,
-          error: errorMessage,
-        };
-      }
-
       return {
         topGainers: [],
         topLosers: [],
@@ -640,6 +574,17 @@ class MarketEventsService {
 
     console.log('[MarketEvents] All market events fetched successfully');
 
+    const status = await this.getCacheStatus();
+    const cacheStatus = {
+      senateTrading: status.senateTrading.isCached,
+      mergersAcquisitions: status.mergersAcquisitions.isCached,
+      ratingChanges: status.analystRatings.isCached,
+      earnings: status.upcomingEarnings.isCached,
+      stockSplits: status.stockSplits.isCached,
+      insiderTrading: status.insiderTrading.isCached,
+      marketMovers: status.marketMovers.isCached,
+    };
+
     return {
       senateTrading,
       mergersAcquisitions,
@@ -651,15 +596,7 @@ class MarketEventsService {
       metadata: {
         fetchedAt: new Date().toISOString(),
         categories: 7,
-        cacheStatus: {
-          senateTrading: this.isCacheValid(this.senateTradingCache),
-          mergersAcquisitions: this.isCacheValid(this.mergersCache),
-          ratingChanges: this.isCacheValid(this.ratingsCache),
-          earnings: this.isCacheValid(this.earningsCache),
-          stockSplits: this.isCacheValid(this.splitsCache),
-          insiderTrading: this.isCacheValid(this.insiderTradingCache),
-          marketMovers: this.isCacheValid(this.marketMoversCache),
-        },
+        cacheStatus,
       },
     };
   }
@@ -667,38 +604,27 @@ class MarketEventsService {
   /**
    * Clear all caches (useful for testing or manual refresh)
    */
-  clearCache(): void {
-    this.senateTradingCache = null;
-    this.mergersCache = null;
-    this.ratingsCache = null;
-    this.earningsCache = null;
-    this.splitsCache = null;
-    this.insiderTradingCache = null;
-    this.marketMoversCache = null;
+  async clearCache(): Promise<void> {
+    await Promise.all(
+      Object.keys(CACHE_KEY_PREFIXES).map((category) => dataGatewayService.clearCache(CACHE_KEY_PREFIXES[category]))
+    );
     console.log('[MarketEvents] All caches cleared');
   }
 
   /**
    * Get cache status for all categories
    */
-  getCacheStatus(): Record<string, { isCached: boolean; age?: number }> {
-    const getStatus = <T>(cache: CacheEntry<T> | null) => {
-      if (!cache) return { isCached: false };
-      const age = new Date().getTime() - cache.timestamp.getTime();
-      return {
-        isCached: this.isCacheValid(cache),
-        age: Math.floor(age / 1000), // age in seconds
-      };
-    };
+  async getCacheStatus(): Promise<Record<string, CacheStatus>> {
+    const categories = Object.keys(CACHE_KEY_PREFIXES);
+    const statuses = await Promise.all(
+      categories.map((category) => dataGatewayService.getCacheStatus(CACHE_KEY_PREFIXES[category]))
+    );
 
-    return {
-      senateTrading: getStatus(this.senateTradingCache),
-      mergersAcquisitions: getStatus(this.mergersCache),
-      analystRatings: getStatus(this.ratingsCache),
-      upcomingEarnings: getStatus(this.earningsCache),
-      stockSplits: getStatus(this.splitsCache),
-      marketMovers: getStatus(this.marketMoversCache),
-    };
+    const result: Record<string, CacheStatus> = {};
+    categories.forEach((category, index) => {
+      result[category] = statuses[index];
+    });
+    return result;
   }
 }
 
@@ -12,6 +12,8 @@
 
 import { stockScreenerService } from './stockScreenerService';
 import { env } from '@/lib/config/env';
+import { API } from '@/lib/config/trading';
+import { dataGatewayService } from './dataGatewayService';
 
 /**
  * Momentum Stock Result
@@ -172,13 +174,18 @@ class MomentumScreenerService {
     try {
       const url = `${this.FMP_BASE_URL}/v3/profile/${symbol}?apikey=${this.FMP_API_KEY}`;
 
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        return null;
-      }
-
-      const data = await response.json();
+      const data = await dataGatewayService.request({
+        provider: 'fmp',
+        endpoint: `/v3/profile/${symbol}`,
+        ttlMs: API.CACHE_TTLS.COMPANY_PROFILE,
+        fetcher: async () => {
+          const response = await fetch(url);
+          if (!response.ok) {
+            throw new Error(`FMP profile returned status ${response.status}`);
+          }
+          return response.json();
+        },
+      });
 
       if (Array.isArray(data) && data.length > 0 && data[0].mktCap) {
         return data[0].mktCap;
@@ -199,13 +206,19 @@ class MomentumScreenerService {
       // Get daily RSI with 14-day period
       const url = `${this.FMP_BASE_URL}/v3/technical_indicator/daily/${symbol}?period=14&type=rsi&apikey=${this.FMP_API_KEY}`;
 
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        return null;
-      }
-
-      const data = await response.json();
+      const data = await dataGatewayService.request({
+        provider: 'fmp',
+        endpoint: `/v3/technical_indicator/daily/${symbol}`,
+        params: { period: 14, type: 'rsi' },
+        ttlMs: API.CACHE_TTLS.TECHNICAL_INDICATORS,
+        fetcher: async () => {
+          const response = await fetch(url);
+          if (!response.ok) {
+            throw new Error(`FMP technical indicator returned status ${response.status}`);
+          }
+          return response.json();
+        },
+      });
 
       // Get the most recent RSI value
       if (Array.isArray(data) && data.length > 0 && data[0].rsi !== undefined) {
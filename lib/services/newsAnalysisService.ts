@@ -1,5 +1,7 @@
-import OpenAI from 'openai';
 import { env } from '@/lib/config/env';
+import { AIProvider, getAIProvider } from './aiProviders';
+import { API } from '@/lib/config/trading';
+import { dataGatewayService } from './dataGatewayService';
 
 export interface NewsArticle {
   title: string;
@@ -17,16 +19,6 @@ export interface NewsAnalysis {
 }
 
 class NewsAnalysisService {
-  private openai: OpenAI;
-
-  constructor() {
-    const apiKey = env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not set');
-    }
-    this.openai = new OpenAI({ apiKey });
-  }
-
   /**
    * Fetch news from Alpha Vantage NEWS_SENTIMENT API
    */
@@ -40,13 +32,28 @@ class NewsAnalysisService {
     try {
       const url = `https://www.alphavantage.co/query?function=NEWS_SENTIMENT&tickers=${symbol}&limit=10&apikey=${apiKey}`;
 
-      const response = await fetch(url);
+      const data = await dataGatewayService.request({
+        provider: 'alphaVantage',
+        endpoint: 'NEWS_SENTIMENT',
+        params: { tickers: symbol, limit: 10 },
+        ttlMs: API.CACHE_TTLS.NEWS_SENTIMENT,
+        fetcher: async () => {
+          const response = await fetch(url);
 
-      if (!response.ok) {
-        throw new Error(`Alpha Vantage API error: ${response.statusText}`);
-      }
+          if (!response.ok) {
+            throw new Error(`Alpha Vantage API error: ${response.statusText}`);
+          }
+
+          const data = await response.json();
+
+          // 호출 한도 안내(Note / Information)는 캐시하지 않음
+          if (!Array.isArray(data.feed)) {
+            throw new Error(`Alpha Vantage API limit: ${data.Note || data.Information || 'no news feed'}`);
+          }
 
-      const data = await response.json();
+          return data;
+        },
+      });
 
       if (data.feed && Array.isArray(data.feed)) {
         return data.feed.slice(0, 5).map((item: any) => ({
@@ -69,7 +76,7 @@ class NewsAnalysisService {
   /**
    * Analyze news with AI: summary + sentiment
    */
-  private async analyzeWithAI(symbol: string, articles: NewsArticle[]): Promise<{ summary: string; sentiment: number; sentimentLabel: string }> {
+  private async analyzeWithAI(symbol: string, articles: NewsArticle[], provider: AIProvider): Promise<{ summary: string; sentiment: number; sentimentLabel: string }> {
     if (articles.length === 0) {
       return {
         summary: `${symbol}에 대한 최근 뉴스를 찾을 수 없습니다.`,
@@ -106,24 +113,18 @@ ${articlesText}
   "sentimentLabel": "Positive"
 }`;
 
-      const completion = await this.openai.chat.completions.create({
+      const completion = await provider.complete({
+        task: 'news-sentiment',
         model: 'gpt-4o-mini',  // gpt-4o supports json_object format
-        messages: [
-          {
-            role: 'system',
-            content: '당신은 금융 뉴스를 분석하는 전문가입니다. 항상 JSON 형식으로 응답합니다.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+        systemPrompt: '당신은 금융 뉴스를 분석하는 전문가입니다. 항상 JSON 형식으로 응답합니다.',
+        prompt,
+        input: articlesText,
         temperature: 0.3,
-        max_tokens: 600,
-        response_format: { type: 'json_object' }
+        maxTokens: 600,
+        json: true
       });
 
-      const result = JSON.parse(completion.choices[0]?.message?.content || '{}');
+      const result = JSON.parse(completion.text || '{}');
 
       return {
         summary: result.summary || '요약을 생성할 수 없습니다.',
@@ -132,7 +133,7 @@ ${articlesText}
       };
 
     } catch (error: any) {
-      console.error('❌ OpenAI analysis error:', error);
+      console.error(`❌ AI analysis error (${provider.name}):`, error);
       console.error('Error details:', error.message || error);
 
       // 뉴스는 가져왔지만 AI 분석만 실패한 경우
@@ -147,16 +148,17 @@ ${articlesText}
 
   /**
    * Main function: Analyze news for a given symbol
+   * provider: the bot's AI provider (default: AI_PROVIDER or OpenAI)
    */
-  async analyzeNews(symbol: string): Promise<NewsAnalysis> {
+  async analyzeNews(symbol: string, provider: AIProvider = getAIProvider()): Promise<NewsAnalysis> {
     console.log(`📰 Fetching news for ${symbol}...`);
 
     // 1. Fetch news from Alpha Vantage
     const articles = await this.fetchFromAlphaVantage(symbol);
     console.log(`✅ Found ${articles.length} articles from Alpha Vantage`);
 
-    // 2. Analyze with OpenAI (summary + sentiment)
-    const analysis = await this.analyzeWithAI(symbol, articles);
+    // 2. Analyze with the AI provider (summary + sentiment)
+    const analysis = await this.analyzeWithAI(symbol, articles, provider);
     console.log(`✅ Analysis completed - Sentiment: ${analysis.sentiment} (${analysis.sentimentLabel})`);
 
     return {
@@ -0,0 +1,533 @@
+/**
+ * Order Execution Service
+ *
+ * Runs every live order through SwingOrderExecutionStrategy:
+ * - planOrder(): limit price from the AI score, RSI and ATR of cached bars (stop-loss exits go out as market orders)
+ * - submit(): sends the order and records an OrderExecution row for the bot
+ * - manageWorkingExecutions() (order-fills cron): a limit order still open after the strategy's
+ *   timeout (1h entries, 5min exits) is cancelled and repriced; after MAX_LIMIT_ATTEMPTS it
+ *   falls back to a market order for the remaining quantity
+ * - getBotMetrics(): fill rate, slippage and price improvement from the bot's executions
+ *
+ * Limit orders are sent as day orders (placeLimitOrder); the timeout above replaces the
+ * strategy's ioc/gtc time in force. Every replacement order gets its own Trade row.
+ * A bot's first entry goes out as a gtc bracket order with its protective legs, and a bot's
+ * sell releases the legs first (protectiveOrderService) and is not sent if they stay live.
+ * Replacements of a bracketed entry carry their own legs; other replacements are plain orders.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { OrderExecution } from '@prisma/client';
+import {
+  swingOrderStrategy,
+  Candle,
+  ExecutionMetrics,
+  OrderRequest,
+  Position as StrategyPosition,
+} from '@/lib/trading/orderExecutionStrategy';
+import { computeIndicatorReadings, StrategyBar } from '@/lib/utils/strategyEngine';
+import { parseBrokerOrder } from '@/lib/utils/positionLedger';
+import { BrokerAdapter, BrokerOrder, getBrokerForBot } from './brokers';
+import type { TradeResponse } from './brokers/types';
+import { killSwitchService } from './killSwitchService';
+import { protectiveOrderService } from './protectiveOrderService';
+import { ProtectionLevels } from '@/lib/utils/protectiveOrders';
+import { positionReconciliationService } from './positionReconciliationService';
+
+export interface ExecutionOrderInput {
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  limitPrice: number;      // AI 결정 가격 (최신 가격 조회 실패 시 기준가)
+  botId?: string;
+  finalScore?: number;     // AI 종합 점수 (0-100)
+  rsi?: number | null;
+  interval?: string;       // 캔들 간격 (기본 60min, 부족하면 daily)
+}
+
+export interface ExecutionPlan {
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  referencePrice: number;
+  order: OrderRequest;
+}
+
+export interface ExecutionSubmitResult extends TradeResponse {
+  orderType?: 'limit' | 'market';
+  limitPrice?: number;
+  executionId?: string;
+}
+
+export interface BotExecutionQuality extends ExecutionMetrics {
+  executions: number;
+  completed: number;
+  working: number;
+  marketFallbacks: number;
+  recent: OrderExecution[];
+}
+
+export interface ExecutionManagementResult {
+  checked: number;
+  completed: number;
+  repriced: number;
+  marketFallbacks: number;
+  errors: string[];
+}
+
+const CANDLE_COUNT = 50;
+const MIN_CANDLES = 15;   // ATR(14) 계산에 필요한 봉 수
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Execution quality of a bot's executions (completed ones only, except `working`)
+ * - fillRate: limit executions filled without a market fallback
+ * - avgSlippage / priceImprovement: fractions (0.001 = 0.1%), avgFillTime in ms
+ */
+export function summarizeExecutions(executions: OrderExecution[]): Omit<BotExecutionQuality, 'recent'> {
+  const completed = executions.filter(execution => execution.status !== 'WORKING');
+  const limitExecutions = completed.filter(execution => execution.initialOrderType === 'limit');
+  const filled = completed.filter(execution => execution.status === 'FILLED');
+
+  return {
+    fillRate: limitExecutions.length > 0
+      ? limitExecutions.filter(execution => execution.status === 'FILLED' && !execution.marketFallback).length / limitExecutions.length
+      : 0,
+    avgSlippage: mean(completed.filter(execution => execution.slippage !== null).map(execution => execution.slippage as number)),
+    avgFillTime: mean(filled.filter(execution => execution.fillTimeMs !== null).map(execution => execution.fillTimeMs as number)),
+    priceImprovement: mean(
+      completed.filter(execution => execution.priceImprovement !== null).map(execution => execution.priceImprovement as number)
+    ),
+    missedEntries: completed.filter(execution =>
+      execution.side === 'BUY' && (execution.marketFallback || execution.status !== 'FILLED')
+    ).length,
+    emergencyExits: completed.filter(execution =>
+      execution.side === 'SELL' && (execution.marketFallback || execution.initialOrderType === 'market')
+    ).length,
+    executions: executions.length,
+    completed: completed.length,
+    working: executions.length - completed.length,
+    marketFallbacks: completed.filter(execution => execution.marketFallback).length,
+  };
+}
+
+class OrderExecutionService {
+  /**
+   * Build the order the strategy would send for this decision
+   * Falls back to a plain limit order at the AI price if market data is unavailable.
+   */
+  async planOrder(input: ExecutionOrderInput, broker: BrokerAdapter): Promise<ExecutionPlan> {
+    const { symbol, action, quantity, limitPrice } = input;
+
+    try {
+      const latestPrice = await broker.getLatestPrice(symbol);
+      const currentPrice = latestPrice && latestPrice > 0 ? latestPrice : limitPrice;
+      const bars = await this.loadBars(symbol, input.interval || '60min');
+      const candles: Candle[] = bars.map(bar => ({ o: bar.open, h: bar.high, l: bar.low, c: bar.close, v: bar.volume }));
+      const rsi = input.rsi ?? this.calculateRSI(bars) ?? 50;
+      const params = {
+        action,
+        symbol,
+        currentPrice,
+        rsi,
+        candles,
+        finalScore: input.finalScore ?? 50,
+        quantity,
+      };
+
+      const order = action === 'BUY'
+        ? swingOrderStrategy.generateBuyOrder(params)
+        : swingOrderStrategy.generateSellOrder({
+            ...params,
+            position: await this.getStrategyPosition(input.botId, symbol, quantity, currentPrice),
+          });
+
+      return { symbol, action, quantity, referencePrice: currentPrice, order };
+    } catch (error) {
+      console.warn(`⚠️ 주문 집행 전략 계산 실패 - AI 지정가 사용 (${symbol}):`, error);
+      return {
+        symbol,
+        action,
+        quantity,
+        referencePrice: limitPrice,
+        order: {
+          symbol,
+          qty: quantity,
+          side: action === 'BUY' ? 'buy' : 'sell',
+          type: 'limit',
+          time_in_force: 'day',
+          limit_price: limitPrice,
+          client_order_id: `ai_${action.toLowerCase()}_${Date.now()}`,
+        },
+      };
+    }
+  }
+
+  /**
+   * Send the planned order and start tracking it (OrderExecution row when the order belongs to a bot)
+   */
+  async submit(plan: ExecutionPlan, broker: BrokerAdapter, botId?: string): Promise<ExecutionSubmitResult> {
+    const entryPrice = plan.order.limit_price ?? plan.referencePrice;
+    let protection: ProtectionLevels | null = null;
+
+    if (botId && plan.action === 'SELL') {
+      // 보호 주문이 주식을 잡고 있으면 봇의 매도 주문이 거부됨
+      // 해제에 실패하면 매도하지 않음: 살아 있는 손절 / OCO가 나중에 체결되면 이중 매도(공매도 전환)
+      try {
+        await protectiveOrderService.releaseForExit(botId, plan.symbol, broker);
+      } catch (error: any) {
+        console.error(`❌ [Protection] ${plan.symbol} 보호 주문 해제 실패 - 매도 중단:`, error);
+        return {
+          success: false,
+          message: `${plan.symbol} 매도 중단 (보호 주문 해제 실패)`,
+          error: error?.message || `Failed to cancel protective orders for ${plan.symbol}`,
+          orderType: plan.order.type,
+          limitPrice: plan.order.limit_price,
+        };
+      }
+    } else if (botId) {
+      protection = await protectiveOrderService.planEntry(botId, plan.symbol, entryPrice);
+    }
+
+    const result: ExecutionSubmitResult = {
+      ...(await this.sendOrder(broker, plan.order, botId, protection)),
+      orderType: plan.order.type,
+      limitPrice: plan.order.limit_price,
+    };
+    if (!result.success || !result.orderId || !botId) {
+      return result;
+    }
+
+    if (protection) {
+      try {
+        await protectiveOrderService.recordLegs(botId, plan.symbol, result.data, false, entryPrice);
+      } catch (error) {
+        console.error(`⚠️ 브래킷 레그 기록 실패 (${result.orderId}):`, error);
+      }
+    }
+
+    try {
+      const execution = await prisma.orderExecution.create({
+        data: {
+          botId,
+          symbol: plan.symbol,
+          side: plan.action,
+          quantity: plan.quantity,
+          referencePrice: plan.referencePrice,
+          initialLimitPrice: plan.order.type === 'limit' ? plan.order.limit_price ?? null : null,
+          lastLimitPrice: plan.order.type === 'limit' ? plan.order.limit_price ?? null : null,
+          initialOrderType: plan.order.type,
+          currentOrderId: result.orderId,
+          orderIds: [result.orderId],
+        },
+      });
+      return { ...result, executionId: execution.id };
+    } catch (error) {
+      // 주문은 이미 나갔으므로 기록 실패는 주문 결과에 영향 없음
+      console.error(`⚠️ 주문 집행 기록 실패 (${result.orderId}):`, error);
+      return result;
+    }
+  }
+
+  /**
+   * Reprice or fall back to market for every working execution (order-fills cron)
+   */
+  async manageWorkingExecutions(now: Date = new Date()): Promise<ExecutionManagementResult> {
+    const executions = await prisma.orderExecution.findMany({
+      where: { status: 'WORKING' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const result: ExecutionManagementResult = { checked: executions.length, completed: 0, repriced: 0, marketFallbacks: 0, errors: [] };
+    const touched: Record<string, { botId: string; symbol: string }> = {};
+
+    for (const execution of executions) {
+      try {
+        const outcome = await this.advanceExecution(execution, now);
+        if (outcome === 'waiting') continue;
+
+        touched[`${execution.botId}:${execution.symbol}`] = { botId: execution.botId, symbol: execution.symbol };
+        if (outcome === 'completed') result.completed++;
+        if (outcome === 'repriced') result.repriced++;
+        if (outcome === 'market') result.marketFallbacks++;
+      } catch (error: any) {
+        console.error(`❌ [Execution] ${execution.id} 처리 실패:`, error);
+        result.errors.push(`${execution.id}: ${error.message}`);
+      }
+    }
+
+    // 취소/재주문된 Trade 반영 후 포지션·통계 재계산
+    for (const key of Object.keys(touched)) {
+      const { botId, symbol } = touched[key];
+      try {
+        await positionReconciliationService.syncBotPosition(botId, symbol);
+      } catch (error: any) {
+        result.errors.push(`${botId}/${symbol}: ${error.message}`);
+      }
+    }
+
+    console.log(`✅ [Execution] ${result.checked}건 확인: ${result.completed}건 완료, ${result.repriced}건 재호가, ${result.marketFallbacks}건 시장가 전환`);
+    return result;
+  }
+
+  /**
+   * Execution quality of one bot
+   */
+  async getBotMetrics(botId: string, recentLimit: number = 20): Promise<BotExecutionQuality> {
+    const executions = await prisma.orderExecution.findMany({
+      where: { botId },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+
+    return { ...summarizeExecutions(executions), recent: executions.slice(0, recentLimit) };
+  }
+
+  /**
+   * One step of a working execution: wait, finish, reprice or fall back to market
+   */
+  private async advanceExecution(
+    execution: OrderExecution,
+    now: Date
+  ): Promise<'waiting' | 'completed' | 'repriced' | 'market'> {
+    const broker = await getBrokerForBot(execution.botId);
+    const orderId = execution.currentOrderId as string;
+    let order = await broker.getOrder(orderId);
+    let fill = parseBrokerOrder(order);
+
+    if (!fill.isFinal) {
+      const waited = now.getTime() - execution.lastSubmittedAt.getTime();
+      // 시장가 주문은 체결될 때까지 대기
+      if (order.type === 'market' || waited < swingOrderStrategy.getLimitTimeout(execution.side)) {
+        return 'waiting';
+      }
+
+      console.log(`⏱️ [Execution] ${execution.symbol} ${execution.side} ${orderId} ${Math.round(waited / 60000)}분 미체결 - 주문 취소`);
+      await broker.cancelOrder(orderId);
+      order = await broker.getOrder(orderId);
+      fill = parseBrokerOrder(order);
+    }
+
+    // 이 주문의 체결분을 누적
+    const filledQuantity = execution.filledQuantity + fill.filledQuantity;
+    const filledAvgPrice = fill.filledQuantity > 0 && fill.filledAvgPrice
+      ? ((execution.filledAvgPrice || 0) * execution.filledQuantity + fill.filledAvgPrice * fill.filledQuantity) / filledQuantity
+      : execution.filledAvgPrice;
+    const remaining = execution.quantity - filledQuantity;
+    const progress = { ...execution, filledQuantity, filledAvgPrice };
+
+    if (remaining <= 1e-6) {
+      await this.complete(progress, 'FILLED', order, now);
+      return 'completed';
+    }
+
+    if (fill.brokerStatus === 'rejected') {
+      await this.complete(progress, 'UNFILLED', order, now, `Order ${orderId} rejected by broker`);
+      return 'completed';
+    }
+
+    if (await killSwitchService.isHalted()) {
+      await this.complete(progress, 'UNFILLED', order, now, 'Trading halted - not repriced');
+      return 'completed';
+    }
+
+    const useMarket = execution.attempts >= swingOrderStrategy.getMaxLimitAttempts();
+    const next = useMarket
+      ? swingOrderStrategy.generateFallbackMarketOrder(execution.symbol, remaining, execution.side)
+      : (await this.planOrder({
+          symbol: execution.symbol,
+          action: execution.side,
+          quantity: remaining,
+          limitPrice: execution.lastLimitPrice || execution.referencePrice,
+          botId: execution.botId,
+        }, broker)).order;
+
+    // 브래킷 진입을 대체하는 주문도 레그를 달고 나감 (체결 즉시 브로커 측 손절)
+    const entryPrice = next.limit_price ?? execution.referencePrice;
+    const protection = execution.side === 'BUY'
+      ? await protectiveOrderService.planReplacement(execution.botId, execution.symbol, orderId, entryPrice)
+      : null;
+
+    const placed = await this.sendOrder(broker, next, execution.botId, protection);
+    if (!placed.success || !placed.orderId) {
+      await this.complete(progress, 'FAILED', order, now, placed.error || placed.message);
+      return 'completed';
+    }
+
+    await this.recordReplacementTrade(execution, orderId, placed.orderId, next);
+    if (protection) {
+      try {
+        await protectiveOrderService.recordLegs(execution.botId, execution.symbol, placed.data, false, entryPrice);
+      } catch (error) {
+        console.error(`⚠️ 브래킷 레그 기록 실패 (${placed.orderId}):`, error);
+      }
+    }
+    await prisma.orderExecution.update({
+      where: { id: execution.id },
+      data: {
+        filledQuantity,
+        filledAvgPrice,
+        attempts: execution.attempts + 1,
+        currentOrderId: placed.orderId,
+        orderIds: execution.orderIds.concat(placed.orderId),
+        lastLimitPrice: next.type === 'limit' ? next.limit_price ?? null : execution.lastLimitPrice,
+        marketFallback: execution.marketFallback || next.type === 'market',
+        lastSubmittedAt: now,
+      },
+    });
+
+    console.log(`🔁 [Execution] ${execution.symbol} ${execution.side} ${remaining}주 ${next.type === 'market' ? '시장가 전환' : `재호가 $${next.limit_price}`} (시도 ${execution.attempts + 1})`);
+    return next.type === 'market' ? 'market' : 'repriced';
+  }
+
+  private async complete(
+    execution: OrderExecution,
+    status: 'FILLED' | 'UNFILLED' | 'FAILED',
+    lastOrder: BrokerOrder,
+    now: Date,
+    note?: string
+  ): Promise<void> {
+    const avg = execution.filledAvgPrice;
+    const isBuy = execution.side === 'BUY';
+    const slippage = avg && execution.filledQuantity > 0
+      ? (isBuy ? avg - execution.referencePrice : execution.referencePrice - avg) / execution.referencePrice
+      : null;
+    const priceImprovement = avg && execution.filledQuantity > 0 && execution.initialLimitPrice
+      ? (isBuy ? execution.initialLimitPrice - avg : avg - execution.initialLimitPrice) / execution.initialLimitPrice
+      : null;
+    const completedAt = status === 'FILLED' && lastOrder.filled_at ? new Date(lastOrder.filled_at) : now;
+
+    await prisma.orderExecution.update({
+      where: { id: execution.id },
+      data: {
+        status,
+        filledQuantity: execution.filledQuantity,
+        filledAvgPrice: avg,
+        slippage,
+        priceImprovement,
+        fillTimeMs: status === 'FILLED' ? Math.max(0, completedAt.getTime() - execution.createdAt.getTime()) : null,
+        note: note ?? null,
+        completedAt,
+      },
+    });
+
+    console.log(`📌 [Execution] ${execution.symbol} ${execution.side} ${status}: ${execution.filledQuantity}/${execution.quantity}주${avg ? ` @ $${avg.toFixed(2)}` : ''}${note ? ` (${note})` : ''}`);
+  }
+
+  private async sendOrder(
+    broker: BrokerAdapter,
+    order: OrderRequest,
+    botId?: string,
+    protection?: ProtectionLevels | null
+  ): Promise<TradeResponse> {
+    if (protection) {
+      // 브래킷 레그는 진입 주문의 time in force를 따름 → gtc (미체결 진입은 재호가 시 취소)
+      return broker.executeTrade({
+        symbol: order.symbol,
+        qty: order.qty,
+        side: order.side,
+        type: order.type,
+        price: order.limit_price,
+        timeInForce: 'gtc',
+        orderClass: protection.stopPrice !== null && protection.takeProfitPrice !== null ? 'bracket' : 'oto',
+        takeProfitPrice: protection.takeProfitPrice ?? undefined,
+        stopLossPrice: protection.stopPrice ?? undefined,
+      });
+    }
+
+    if (order.type === 'market') {
+      return broker.executeTrade({
+        symbol: order.symbol,
+        qty: order.qty,
+        side: order.side,
+        type: 'market',
+        timeInForce: 'day',
+      });
+    }
+
+    return broker.placeLimitOrder(order.symbol, order.qty, order.side, order.limit_price as number, botId);
+  }
+
+  /**
+   * Trade row for a repriced or market fallback order (same reason as the order it replaces)
+   */
+  private async recordReplacementTrade(
+    execution: OrderExecution,
+    replacedOrderId: string,
+    orderId: string,
+    order: OrderRequest
+  ): Promise<void> {
+    const replaced = await prisma.trade.findFirst({ where: { botId: execution.botId, alpacaOrderId: replacedOrderId } });
+    const price = order.limit_price ?? execution.referencePrice;
+
+    await prisma.trade.create({
+      data: {
+        botId: execution.botId,
+        symbol: execution.symbol,
+        side: execution.side,
+        quantity: order.qty,
+        price,
+        total: order.qty * price,
+        status: 'PENDING',
+        reason: replaced?.reason ?? null,
+        alpacaOrderId: orderId,
+        replacesOrderId: replacedOrderId,
+      },
+    });
+  }
+
+  /**
+   * Bot position in the shape the strategy reads (sell orders)
+   */
+  private async getStrategyPosition(
+    botId: string | undefined,
+    symbol: string,
+    quantity: number,
+    currentPrice: number
+  ): Promise<StrategyPosition> {
+    const position = botId
+      ? await prisma.position.findUnique({ where: { botId_symbol: { botId, symbol } } })
+      : null;
+
+    if (!position || position.quantity <= 0) {
+      // 봇 포지션 기록이 없으면 손익 기준 없이 일반 청산으로 처리
+      return { qty: quantity.toString(), avg_entry_price: currentPrice.toString(), created_at: new Date().toISOString() };
+    }
+
+    return {
+      qty: position.quantity.toString(),
+      avg_entry_price: position.avgEntryPrice.toString(),
+      created_at: position.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Recent cached bars (oldest first), daily bars if the interval has too few
+   */
+  private async loadBars(symbol: string, interval: string): Promise<StrategyBar[]> {
+    const read = async (barInterval: string) => (await prisma.marketData.findMany({
+      where: { symbol, interval: barInterval },
+      orderBy: { timestamp: 'desc' },
+      take: CANDLE_COUNT,
+      select: { timestamp: true, open: true, high: true, low: true, close: true, volume: true },
+    })).reverse();
+
+    const bars = await read(interval);
+    if (bars.length >= MIN_CANDLES || interval === 'daily') {
+      return bars;
+    }
+
+    const daily = await read('daily');
+    return daily.length > bars.length ? daily : bars;
+  }
+
+  private calculateRSI(bars: StrategyBar[]): number | null {
+    const [reading] = computeIndicatorReadings(bars, [{ type: 'rsi', params: { period: 14 } }]);
+    return reading.success ? (reading.result as number) : null;
+  }
+}
+
+export const orderExecutionService = new OrderExecutionService();
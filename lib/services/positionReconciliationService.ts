@@ -0,0 +1,378 @@
+/**
+ * Position Reconciliation Service
+ *
+ * Bot-scoped positions from each bot's own broker fills:
+ * - Syncs broker order state into Trade rows (by alpacaOrderId, which holds any broker's order id)
+ * - Rebuilds the bot's Position row and stats (totalReturns, winRate, realizedCash) from real fills
+ * - Compares summed bot positions with each broker's account-wide positions
+ *
+ * Broker positions are per account, so two bots trading the same symbol share one
+ * broker position. Bots must never read their holdings from getPosition(symbol).
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Trade, TradeStatus } from '@prisma/client';
+import { getBroker, getBrokerForBot, BrokerName } from './brokers';
+import {
+  LedgerFill,
+  LedgerPosition,
+  PositionMismatch,
+  OPEN_TRADE_STATUSES,
+  rebuildPositionFromFills,
+  parseBrokerOrder,
+  effectiveFill,
+  comparePositions,
+} from '@/lib/utils/positionLedger';
+import { ScalingState, scalingStateFromFills } from '@/lib/utils/positionScaling';
+
+export interface BotPositionSnapshot extends LedgerPosition {
+  botId: string;
+  symbol: string;
+  marketValue: number;
+  unrealizedPL: number;
+  unrealizedPLPercent: number;
+  openOrders: number;  // 미체결 주문 수 (PENDING / PARTIALLY_FILLED, 보호 주문 제외)
+  protectiveOrders: number;  // 살아 있는 보호 주문 수 (브래킷/OCO 레그, 트레일링 스탑)
+  scaling: ScalingState | null;  // 현재 포지션의 분할 진입/일부 익절 진행 상태 (null = 포지션 없음)
+}
+
+export interface BotTradeStats {
+  totalReturns: number;
+  realizedCash: number;
+  winRate: number;
+  totalTrades: number;
+}
+
+export interface BrokerPositionMismatch extends PositionMismatch {
+  broker: BrokerName;
+}
+
+export interface ReconciliationReport {
+  checkedAt: Date;
+  botPositionCount: number;
+  brokerPositionCount: number;
+  mismatches: BrokerPositionMismatch[];
+  brokerError?: string;
+}
+
+export interface FillTrackingResult {
+  ordersChecked: number;
+  ordersUpdated: number;
+  botsUpdated: number;
+  errors: string[];
+}
+
+/**
+ * Ledger fill for a Trade row (what actually filled)
+ */
+function toLedgerFill(trade: Trade): LedgerFill {
+  const fill = effectiveFill(trade);
+  return {
+    side: trade.side,
+    quantity: fill.quantity,
+    price: fill.price,
+    executedAt: trade.executedAt,
+  };
+}
+
+class PositionReconciliationService {
+  /**
+   * Pull fill state from the bot's broker for its orders that may still fill
+   * Returns the number of Trade rows whose status or fill changed.
+   */
+  async syncOrderFills(botId: string, symbol?: string): Promise<{ checked: number; updated: number; errors: string[] }> {
+    const trades = await prisma.trade.findMany({
+      where: {
+        botId,
+        ...(symbol ? { symbol } : {}),
+        status: { in: OPEN_TRADE_STATUSES as TradeStatus[] },
+        alpacaOrderId: { not: null },
+      },
+      orderBy: { executedAt: 'asc' },
+    });
+
+    let updated = 0;
+    const errors: string[] = [];
+    if (trades.length === 0) {
+      return { checked: 0, updated, errors };
+    }
+
+    const broker = await getBrokerForBot(botId);
+
+    for (const trade of trades) {
+      try {
+        const order = await broker.getOrder(trade.alpacaOrderId as string);
+        const fill = parseBrokerOrder(order);
+
+        if (
+          fill.status === trade.status &&
+          fill.brokerStatus === trade.brokerStatus &&
+          fill.filledQuantity === trade.filledQuantity
+        ) {
+          continue;
+        }
+
+        await prisma.trade.update({
+          where: { id: trade.id },
+          data: {
+            status: fill.status,
+            brokerStatus: fill.brokerStatus,
+            filledQuantity: fill.filledQuantity,
+            filledAvgPrice: fill.filledAvgPrice,
+            reconciledAt: fill.isFinal ? new Date() : null,
+            // 보호 주문은 접수 후 한참 뒤에 체결 → 원가 계산 순서를 체결 시각 기준으로
+            ...(trade.legType && fill.filledQuantity > 0 && order.filled_at ? { executedAt: new Date(order.filled_at) } : {}),
+          },
+        });
+        updated++;
+
+        console.log(`🔄 [Reconcile] ${trade.symbol} ${trade.side} ${trade.alpacaOrderId}: ${trade.status} → ${fill.status} (${fill.filledQuantity}/${trade.quantity}주${fill.filledAvgPrice ? ` @ $${fill.filledAvgPrice.toFixed(2)}` : ''})`);
+      } catch (error: any) {
+        // 주문 조회 실패 시 기존 값 유지 (다음 동기화에서 재시도)
+        console.warn(`⚠️ [Reconcile] 주문 상태 조회 실패 ${trade.alpacaOrderId}:`, error.message);
+        errors.push(`${trade.alpacaOrderId}: ${error.message}`);
+      }
+    }
+
+    return { checked: trades.length, updated, errors };
+  }
+
+  /**
+   * Rebuild the bot's Position row from its own filled Trade rows
+   * Deletes the row when the bot is flat.
+   */
+  async rebuildBotPosition(botId: string, symbol: string, currentPrice?: number | null): Promise<BotPositionSnapshot> {
+    const trades = await prisma.trade.findMany({
+      where: { botId, symbol },
+      orderBy: { executedAt: 'asc' },
+    });
+
+    const fills = trades.map(toLedgerFill);
+    const ledger = rebuildPositionFromFills(fills);
+
+    const price = currentPrice && currentPrice > 0 ? currentPrice : ledger.avgEntryPrice;
+    const marketValue = ledger.quantity * price;
+    const unrealizedPL = marketValue - ledger.totalCost;
+
+    if (ledger.quantity > 0) {
+      await prisma.position.upsert({
+        where: { botId_symbol: { botId, symbol } },
+        create: {
+          botId,
+          symbol,
+          quantity: ledger.quantity,
+          avgEntryPrice: ledger.avgEntryPrice,
+          totalCost: ledger.totalCost,
+          marketValue,
+          unrealizedPL,
+        },
+        update: {
+          quantity: ledger.quantity,
+          avgEntryPrice: ledger.avgEntryPrice,
+          totalCost: ledger.totalCost,
+          marketValue,
+          unrealizedPL,
+        },
+      });
+    } else {
+      await prisma.position.deleteMany({ where: { botId, symbol } });
+    }
+
+    return {
+      ...ledger,
+      botId,
+      symbol,
+      marketValue,
+      unrealizedPL,
+      unrealizedPLPercent: ledger.totalCost > 0 ? (unrealizedPL / ledger.totalCost) * 100 : 0,
+      openOrders: trades.filter(trade => !trade.legType && (trade.status === 'PENDING' || trade.status === 'PARTIALLY_FILLED')).length,
+      protectiveOrders: trades.filter(trade => !!trade.legType && (trade.status === 'PENDING' || trade.status === 'PARTIALLY_FILLED')).length,
+      scaling: scalingStateFromFills(fills),
+    };
+  }
+
+  /**
+   * Staged entry / partial exit state of the bot's open position (read-only, no broker sync)
+   */
+  async getScalingState(botId: string, symbol: string): Promise<ScalingState | null> {
+    const trades = await prisma.trade.findMany({
+      where: { botId, symbol },
+      orderBy: { executedAt: 'asc' },
+    });
+    return scalingStateFromFills(trades.map(toLedgerFill));
+  }
+
+  /**
+   * Recompute Bot.totalReturns, realizedCash, winRate and totalTrades from real fills
+   */
+  async recomputeBotStats(botId: string): Promise<BotTradeStats> {
+    const trades = await prisma.trade.findMany({
+      where: { botId },
+      orderBy: { executedAt: 'asc' },
+    });
+
+    // 종목별 원가 계산 후 합산
+    const fillsBySymbol: Record<string, LedgerFill[]> = {};
+    let totalTrades = 0;
+
+    trades.forEach(trade => {
+      const fill = toLedgerFill(trade);
+      if (fill.quantity <= 0) return;
+
+      totalTrades++;
+      (fillsBySymbol[trade.symbol] = fillsBySymbol[trade.symbol] || []).push(fill);
+    });
+
+    let totalReturns = 0;
+    let realizedCash = 0;
+    let closedTrades = 0;
+    let winningTrades = 0;
+
+    Object.keys(fillsBySymbol).forEach(symbol => {
+      const ledger = rebuildPositionFromFills(fillsBySymbol[symbol]);
+      totalReturns += ledger.realizedPL;
+      realizedCash += ledger.realizedCash;
+      closedTrades += ledger.closedTrades;
+      winningTrades += ledger.winningTrades;
+    });
+
+    const stats: BotTradeStats = {
+      totalReturns,
+      realizedCash,
+      winRate: closedTrades > 0 ? (winningTrades / closedTrades) * 100 : 0,
+      totalTrades,
+    };
+
+    await prisma.bot.update({
+      where: { id: botId },
+      data: stats,
+    });
+
+    return stats;
+  }
+
+  /**
+   * Sync the bot's orders, then rebuild its position (used before every bot decision)
+   */
+  async syncBotPosition(botId: string, symbol: string, currentPrice?: number | null): Promise<BotPositionSnapshot> {
+    const sync = await this.syncOrderFills(botId, symbol);
+    const snapshot = await this.rebuildBotPosition(botId, symbol, currentPrice);
+
+    if (sync.updated > 0) {
+      await this.recomputeBotStats(botId);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Fill tracking job: poll every open order, then rebuild positions and stats of bots with changes
+   */
+  async trackOpenOrders(): Promise<FillTrackingResult> {
+    const openTrades = await prisma.trade.findMany({
+      where: {
+        status: { in: OPEN_TRADE_STATUSES as TradeStatus[] },
+        alpacaOrderId: { not: null },
+      },
+      select: { botId: true, symbol: true },
+    });
+
+    // 봇/종목별로 묶어서 처리
+    const pairs: Record<string, { botId: string; symbol: string }> = {};
+    openTrades.forEach(trade => {
+      pairs[`${trade.botId}:${trade.symbol}`] = { botId: trade.botId, symbol: trade.symbol };
+    });
+
+    const result: FillTrackingResult = { ordersChecked: 0, ordersUpdated: 0, botsUpdated: 0, errors: [] };
+    const changedBots: Record<string, boolean> = {};
+
+    console.log(`🔍 [FillTracking] 미체결 주문 ${openTrades.length}건 확인 (${Object.keys(pairs).length}개 봇/종목)`);
+
+    for (const key of Object.keys(pairs)) {
+      const { botId, symbol } = pairs[key];
+
+      try {
+        const sync = await this.syncOrderFills(botId, symbol);
+        result.ordersChecked += sync.checked;
+        result.ordersUpdated += sync.updated;
+        result.errors.push(...sync.errors);
+
+        if (sync.updated > 0) {
+          const broker = await getBrokerForBot(botId);
+          const currentPrice = await broker.getLatestPrice(symbol);
+          await this.rebuildBotPosition(botId, symbol, currentPrice);
+          changedBots[botId] = true;
+        }
+      } catch (error: any) {
+        console.error(`❌ [FillTracking] ${botId} ${symbol} 동기화 실패:`, error);
+        result.errors.push(`${botId}/${symbol}: ${error.message}`);
+      }
+    }
+
+    for (const botId of Object.keys(changedBots)) {
+      try {
+        await this.recomputeBotStats(botId);
+        result.botsUpdated++;
+      } catch (error: any) {
+        console.error(`❌ [FillTracking] ${botId} 통계 재계산 실패:`, error);
+        result.errors.push(`${botId}: ${error.message}`);
+      }
+    }
+
+    console.log(`✅ [FillTracking] 완료: ${result.ordersUpdated}/${result.ordersChecked} 주문 갱신, ${result.botsUpdated}개 봇 재계산`);
+    return result;
+  }
+
+  /**
+   * Compare the sum of bot positions with each broker's account positions
+   * Bots are grouped by the broker their TradingMode resolves to.
+   */
+  async getReconciliationReport(): Promise<ReconciliationReport> {
+    const botPositions = await prisma.position.findMany({
+      select: { botId: true, symbol: true, quantity: true, bot: { select: { mode: true } } },
+    });
+
+    // 기본 브로커는 봇 포지션이 없어도 확인 (계좌에 남은 포지션 경고)
+    const defaultBroker = getBroker();
+    const brokers: Record<string, { broker: typeof defaultBroker; positions: typeof botPositions }> = {
+      [defaultBroker.name]: { broker: defaultBroker, positions: [] },
+    };
+    botPositions.forEach(position => {
+      const broker = getBroker(position.bot.mode);
+      (brokers[broker.name] = brokers[broker.name] || { broker, positions: [] }).positions.push(position);
+    });
+
+    const mismatches: BrokerPositionMismatch[] = [];
+    const errors: string[] = [];
+    let brokerPositionCount = 0;
+
+    for (const name of Object.keys(brokers)) {
+      const { broker, positions } = brokers[name];
+
+      try {
+        const brokerPositions = await broker.getPositions();
+        brokerPositionCount += brokerPositions.length;
+
+        comparePositions(positions, brokerPositions).forEach(mismatch => {
+          console.warn(
+            `⚠️ [Reconcile] ${mismatch.symbol}: 봇 합계 ${mismatch.botQuantity}주 vs ${broker.name} ${mismatch.brokerQuantity}주 (차이 ${mismatch.difference > 0 ? '+' : ''}${mismatch.difference})`
+          );
+          mismatches.push({ ...mismatch, broker: broker.name });
+        });
+      } catch (error: any) {
+        console.error(`❌ [Reconcile] ${broker.name} 포지션 조회 실패:`, error);
+        errors.push(`${broker.name}: ${error.message}`);
+      }
+    }
+
+    return {
+      checkedAt: new Date(),
+      botPositionCount: botPositions.length,
+      brokerPositionCount,
+      mismatches,
+      ...(errors.length > 0 ? { brokerError: errors.join('; ') } : {}),
+    };
+  }
+}
+
+export const positionReconciliationService = new PositionReconciliationService();
@@ -0,0 +1,302 @@
+/**
+ * Profile Tuning Service
+ *
+ * Daily job that runs ProfileAdjuster on every active bot:
+ * - PerformanceMetrics from the bot's filled trades (only sells since the last applied change)
+ * - MarketState from cached daily index bars (MarketData, PROFILE_TUNING_INDEX_SYMBOL)
+ * - Proposed stop-loss / position size / exposure changes are stored as ProfileAdjustment rows
+ * - PROFILE_TUNING_AUTO_APPLY applies changes within ±PROFILE_TUNING_MAX_AUTO_CHANGE;
+ *   everything else waits for manual approval (POST /api/profiles/adjustments/[id])
+ *
+ * Applying writes a new TradingProfileVersion. Bots without their own saved profile get a
+ * bot-level copy of the profile they run with, so shared strategy profiles are never changed.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { env } from '@/lib/config/env';
+import { Bot, Prisma, ProfileAdjustment as ProfileAdjustmentRow, ProfileAdjustmentStatus, Strategy } from '@prisma/client';
+import { MarketState, ProfileAdjustment, ProfileOverrides } from '@/lib/trading-profile-types';
+import { effectiveFill } from '@/lib/utils/positionLedger';
+import {
+  computePerformanceMetrics,
+  computeMarketState,
+  proposeProfileChanges,
+  isWithinAutoApplyBounds,
+} from '@/lib/utils/profileTuning';
+import { tradingProfileService } from './tradingProfileService';
+
+export interface TuningRunResult {
+  evaluated: number;
+  proposed: number;
+  autoApplied: number;
+  skipped: { botId: string; reason: string }[];
+  marketState: MarketState | null;
+}
+
+/**
+ * Thrown when approving or rejecting an adjustment that is no longer pending
+ */
+export class AdjustmentNotPendingError extends Error {
+  constructor(public readonly status: ProfileAdjustmentStatus) {
+    super(`Adjustment is ${status}, only PENDING adjustments can be decided`);
+    this.name = 'AdjustmentNotPendingError';
+  }
+}
+
+class ProfileTuningService {
+  /**
+   * Market state from the cached daily bars of the index symbol
+   */
+  async getMarketState(): Promise<MarketState | null> {
+    const bars = await prisma.marketData.findMany({
+      where: { symbol: env.PROFILE_TUNING_INDEX_SYMBOL, interval: 'daily' },
+      orderBy: { timestamp: 'desc' },
+      take: 60,
+      select: { close: true, volume: true },
+    });
+
+    return computeMarketState(bars.reverse());
+  }
+
+  /**
+   * Propose adjustments for every active bot (scheduled job)
+   */
+  async runTuning(): Promise<TuningRunResult> {
+    const marketState = await this.getMarketState();
+    if (!marketState) {
+      console.warn(`⚠️ ${env.PROFILE_TUNING_INDEX_SYMBOL} 일봉 캐시 부족 - 시장 상태 없이 성과 기준으로만 조정`);
+    }
+
+    const bots = await prisma.bot.findMany({
+      where: { status: 'ACTIVE' },
+      select: { id: true },
+    });
+
+    const result: TuningRunResult = { evaluated: 0, proposed: 0, autoApplied: 0, skipped: [], marketState };
+
+    for (const bot of bots) {
+      result.evaluated++;
+      try {
+        const outcome = await this.proposeForBot(bot.id, marketState);
+        if ('skipped' in outcome) {
+          result.skipped.push({ botId: bot.id, reason: outcome.skipped });
+          continue;
+        }
+
+        result.proposed++;
+        if (outcome.adjustment.status === 'APPLIED') {
+          result.autoApplied++;
+        }
+      } catch (error: any) {
+        console.error(`❌ 프로필 조정 실패 (bot ${bot.id}):`, error);
+        result.skipped.push({ botId: bot.id, reason: error.message || 'Unknown error' });
+      }
+    }
+
+    console.log(`🎛️ 프로필 튜닝 완료: ${result.proposed}건 제안, ${result.autoApplied}건 자동 적용 (${result.evaluated}개 봇)`);
+    return result;
+  }
+
+  /**
+   * Evaluate one bot and store a proposal (superseding its older pending one)
+   */
+  async proposeForBot(
+    botId: string,
+    marketState: MarketState | null
+  ): Promise<{ adjustment: ProfileAdjustmentRow } | { skipped: string }> {
+    const bot = await prisma.bot.findUnique({ where: { id: botId }, include: { strategy: true } });
+    if (!bot) {
+      return { skipped: 'Bot not found' };
+    }
+
+    // 마지막 적용 이후의 거래만 평가 (같은 성과로 반복 조정하지 않도록)
+    const lastApplied = await prisma.profileAdjustment.findFirst({
+      where: { botId, status: 'APPLIED' },
+      orderBy: { decidedAt: 'desc' },
+    });
+
+    const trades = await prisma.trade.findMany({
+      where: { botId, status: { not: 'FAILED' } },
+      orderBy: { executedAt: 'asc' },
+    });
+    const fills = trades.map(trade => ({
+      side: trade.side,
+      executedAt: trade.executedAt,
+      ...effectiveFill(trade),
+    }));
+
+    const performance = computePerformanceMetrics(fills, bot.fundAllocation, lastApplied?.decidedAt);
+    if (performance.closedTrades < env.PROFILE_TUNING_MIN_TRADES) {
+      return { skipped: `${performance.closedTrades} closed trade(s), need ${env.PROFILE_TUNING_MIN_TRADES}` };
+    }
+
+    const resolved = await tradingProfileService.resolveForBot(bot);
+    const changes = proposeProfileChanges(resolved.profile, performance, marketState);
+    if (changes.length === 0) {
+      return { skipped: 'No changes proposed' };
+    }
+
+    await prisma.profileAdjustment.updateMany({
+      where: { botId, status: 'PENDING' },
+      data: { status: 'SUPERSEDED' },
+    });
+
+    const adjustment = await prisma.profileAdjustment.create({
+      data: {
+        botId,
+        profileId: resolved.profileId,
+        changes: changes as unknown as Prisma.InputJsonValue,
+        performance: performance as unknown as Prisma.InputJsonValue,
+        marketState: marketState ? (marketState as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      },
+    });
+
+    console.log(`🎛️ ${bot.name} 프로필 조정 제안: ${changes.map(change => `${change.parameter} ${change.oldValue} → ${change.newValue}`).join(', ')}`);
+
+    if (env.PROFILE_TUNING_AUTO_APPLY && isWithinAutoApplyBounds(changes, env.PROFILE_TUNING_MAX_AUTO_CHANGE)) {
+      return { adjustment: (await this.applyAdjustment(adjustment.id, 'auto'))! };
+    }
+
+    return { adjustment };
+  }
+
+  /**
+   * Write a pending adjustment into the bot's profile as a new version. Returns null if not found.
+   * The row is claimed (PENDING → APPLIED) before the profile is written, so a concurrent
+   * auto-apply and manual approval cannot both apply it.
+   */
+  async applyAdjustment(id: string, actor: string, note?: string): Promise<ProfileAdjustmentRow | null> {
+    const adjustment = await prisma.profileAdjustment.findUnique({
+      where: { id },
+      include: { bot: { include: { strategy: true } } },
+    });
+    if (!adjustment) {
+      return null;
+    }
+
+    await this.claimPending(id, {
+      status: 'APPLIED',
+      autoApplied: actor === 'auto',
+      decidedBy: actor,
+      decisionNote: note ?? null,
+      decidedAt: new Date(),
+    });
+
+    try {
+      const applied = await this.writeToProfile(adjustment, actor);
+
+      return prisma.profileAdjustment.update({
+        where: { id },
+        data: { appliedProfileId: applied.profileId, appliedVersionId: applied.versionId },
+      });
+    } catch (error) {
+      // 프로필 기록 실패 → 선점 해제 (다시 승인 / 자동 적용 가능)
+      await prisma.profileAdjustment.updateMany({
+        where: { id, status: 'APPLIED', appliedProfileId: null },
+        data: { status: 'PENDING', autoApplied: false, decidedBy: null, decisionNote: null, decidedAt: null },
+      });
+      throw error;
+    }
+  }
+
+  async rejectAdjustment(id: string, actor?: string, note?: string): Promise<ProfileAdjustmentRow | null> {
+    const adjustment = await prisma.profileAdjustment.findUnique({ where: { id } });
+    if (!adjustment) {
+      return null;
+    }
+
+    await this.claimPending(id, {
+      status: 'REJECTED',
+      decidedBy: actor ?? null,
+      decisionNote: note ?? null,
+      decidedAt: new Date(),
+    });
+
+    return prisma.profileAdjustment.findUnique({ where: { id } });
+  }
+
+  /**
+   * Conditional PENDING → decided write; throws when another decision got there first
+   */
+  private async claimPending(id: string, data: Prisma.ProfileAdjustmentUpdateManyMutationInput): Promise<void> {
+    const claimed = await prisma.profileAdjustment.updateMany({ where: { id, status: 'PENDING' }, data });
+    if (claimed.count !== 1) {
+      const current = await prisma.profileAdjustment.findUnique({ where: { id } });
+      throw new AdjustmentNotPendingError(current ? current.status : 'SUPERSEDED');
+    }
+  }
+
+  /**
+   * New version of the bot's saved profile (or a bot-level copy) with the adjusted values
+   */
+  private async writeToProfile(
+    adjustment: ProfileAdjustmentRow & { bot: Bot & { strategy: Strategy } },
+    actor: string
+  ): Promise<{ profileId: string; versionId: string | null }> {
+    const { bot } = adjustment;
+    const changes = adjustment.changes as unknown as ProfileAdjustment[];
+    const changedValues: ProfileOverrides = {};
+    changes.forEach(change => {
+      (changedValues as Record<string, number>)[change.parameter] = change.newValue;
+    });
+    const changeNote = `Profile tuning (${actor}): ` +
+      changes.map(change => `${change.parameter} ${change.oldValue} → ${change.newValue} (${change.reason})`).join('; ');
+
+    let profileId: string;
+    if (bot.profileId) {
+      const saved = await prisma.tradingProfile.findUnique({ where: { id: bot.profileId } });
+      if (!saved) {
+        throw new Error(`Trading profile ${bot.profileId} not found`);
+      }
+      await tradingProfileService.updateProfile(saved.id, {
+        overrides: { ...(saved.overrides as ProfileOverrides), ...changedValues },
+        changeNote,
+      });
+      profileId = saved.id;
+    } else {
+      // 전략 프로필(공유)은 그대로 두고 봇 전용 프로필을 만든다
+      const resolved = await tradingProfileService.resolveForBot(bot);
+      const strategyProfile = resolved.profileId
+        ? await prisma.tradingProfile.findUnique({ where: { id: resolved.profileId } })
+        : null;
+      const created = await tradingProfileService.createProfile({
+        name: `${bot.name} (tuned)`,
+        description: `Tuned copy of ${resolved.profile.name}`,
+        timeHorizon: resolved.profile.timeHorizon,
+        riskAppetite: resolved.profile.riskAppetite,
+        overrides: { ...((strategyProfile?.overrides as ProfileOverrides) || {}), ...changedValues },
+        changeNote,
+      });
+      await prisma.bot.update({ where: { id: bot.id }, data: { profileId: created.id } });
+      profileId = created.id;
+    }
+
+    const profile = await prisma.tradingProfile.findUnique({ where: { id: profileId } });
+    const version = profile
+      ? await prisma.tradingProfileVersion.findUnique({
+          where: { profileId_version: { profileId, version: profile.currentVersion } },
+        })
+      : null;
+
+    console.log(`✅ 프로필 조정 적용: ${bot.name} → ${profile?.name} v${version?.version} (${actor})`);
+
+    return { profileId, versionId: version?.id ?? null };
+  }
+
+  /**
+   * Adjustment history (newest first)
+   */
+  async listAdjustments(options: { botId?: string; status?: ProfileAdjustmentStatus; limit?: number } = {}) {
+    return prisma.profileAdjustment.findMany({
+      where: {
+        ...(options.botId && { botId: options.botId }),
+        ...(options.status && { status: options.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 50,
+      include: { bot: { select: { name: true, symbol: true } } },
+    });
+  }
+}
+
+export const profileTuningService = new ProfileTuningService();
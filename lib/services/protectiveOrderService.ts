@@ -0,0 +1,433 @@
+/**
+ * Protective Order Service
+ *
+ * Broker-side exits for bot positions, from each bot's strategy exit conditions:
+ * - planEntry(): bracket / OTO legs (take profit + stop) sent with a bot's first entry
+ * - planReplacement(): the same legs for a repriced / market fallback order replacing that entry
+ * - recordLegs(): Trade rows for the child orders the broker created (legType, parentOrderId)
+ * - releaseForExit(): cancels the legs before the bot sells on its own (the broker holds their shares)
+ * - syncProtection() (order-fills cron): once no entry or exit is working, resizes the legs to the
+ *   bot's position - an OCO stop/take-profit pair, or a native trailing stop when the strategy trails
+ *   (the stop moves up to breakeven once a partial take-profit level has been taken)
+ *   While the kill switch is tripped existing legs are left alone and no new legs are placed.
+ *
+ * Leg fills reach the Position row through the normal fill tracking (syncOrderFills), so the
+ * bot's stats and trade history include exits that happened between bot runs.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { OrderLegType, Trade, TradeStatus } from '@prisma/client';
+import { env } from '@/lib/config/env';
+import { prepareStrategy } from '@/lib/utils/strategyEngine';
+import {
+  ProtectionLevels,
+  PROTECTIVE_LEG_LABELS,
+  resolveProtectionLevels,
+  raiseStopToBreakeven,
+  hasProtection,
+} from '@/lib/utils/protectiveOrders';
+import { resolveScalingPlan, breakevenStopPrice } from '@/lib/utils/positionScaling';
+import { parseBrokerOrder } from '@/lib/utils/positionLedger';
+import { BrokerAdapter, BrokerOrder, getBrokerForBot } from './brokers';
+import type { TradeRequest } from './brokers/types';
+import { tradingProfileService, toProfileExitRules } from './tradingProfileService';
+import { positionReconciliationService } from './positionReconciliationService';
+import { killSwitchService } from './killSwitchService';
+
+export interface ProtectionSyncResult {
+  botId: string;
+  symbol: string;
+  action: 'none' | 'covered' | 'waiting' | 'placed' | 'canceled' | 'halted';
+  legs: number;  // 현재 살아 있는 보호 주문 수
+}
+
+export interface ProtectionSweepResult {
+  checked: number;
+  placed: number;
+  canceled: number;
+  halted: boolean;  // 매매 정지 중 - 새 보호 주문 없이 남은 레그 정리만 수행
+  errors: string[];
+}
+
+const OPEN_STATUSES = ['PENDING', 'PARTIALLY_FILLED'];
+
+/**
+ * Thrown when protective legs are still working at the broker after cancelling them
+ */
+export class ProtectiveOrderReleaseError extends Error {
+  constructor(public readonly symbol: string, public readonly orderIds: string[]) {
+    super(`Failed to cancel ${orderIds.length} protective order(s) for ${symbol}: ${orderIds.join(', ')}`);
+    this.name = 'ProtectiveOrderReleaseError';
+  }
+}
+const ATR_BARS = 30;   // atr_based 손절 계산용 일봉 수
+
+// Alpaca order type → leg (bracket / OCO children report their own type)
+const LEG_TYPES: Record<string, OrderLegType> = {
+  limit: 'TAKE_PROFIT',
+  stop: 'STOP_LOSS',
+  stop_limit: 'STOP_LOSS',
+  trailing_stop: 'TRAILING_STOP',
+};
+
+/**
+ * Shares still covered by open legs (OCO / bracket siblings share the same shares)
+ */
+export function coveredQuantity(legs: Pick<Trade, 'alpacaOrderId' | 'parentOrderId' | 'quantity' | 'filledQuantity'>[]): number {
+  const groups: Record<string, number> = {};
+  legs.forEach(leg => {
+    const key = leg.parentOrderId || leg.alpacaOrderId || '';
+    groups[key] = Math.max(groups[key] || 0, leg.quantity - (leg.filledQuantity || 0));
+  });
+  return Object.keys(groups).reduce((sum, key) => sum + groups[key], 0);
+}
+
+/**
+ * Sell order that protects `quantity` shares with the given levels
+ */
+export function buildProtectionRequest(symbol: string, quantity: number, levels: ProtectionLevels): TradeRequest {
+  const base = { symbol, qty: quantity, side: 'sell' as const, timeInForce: 'gtc' as const };
+
+  if (levels.trailPercent !== null) {
+    return { ...base, type: 'trailing_stop', trailPercent: levels.trailPercent };
+  }
+  if (levels.stopPrice !== null && levels.takeProfitPrice !== null) {
+    return {
+      ...base,
+      type: 'limit',
+      price: levels.takeProfitPrice,
+      orderClass: 'oco',
+      takeProfitPrice: levels.takeProfitPrice,
+      stopLossPrice: levels.stopPrice,
+    };
+  }
+  if (levels.stopPrice !== null) {
+    return { ...base, type: 'stop', stopPrice: levels.stopPrice };
+  }
+  return { ...base, type: 'limit', price: levels.takeProfitPrice as number };
+}
+
+class ProtectiveOrderService {
+  /**
+   * Bracket legs for a bot's entry at `entryPrice`
+   * Null when the bot already holds the symbol (syncProtection resizes the legs after the fill)
+   * or the strategy trails (trailing stops cannot be bracket legs, they follow the fill).
+   */
+  async planEntry(botId: string, symbol: string, entryPrice: number): Promise<ProtectionLevels | null> {
+    if (!env.PROTECTIVE_ORDERS_ENABLED) return null;
+
+    try {
+      const position = await prisma.position.findUnique({ where: { botId_symbol: { botId, symbol } } });
+      if (position && position.quantity > 0) return null;
+
+      const levels = await this.resolveLevels(botId, symbol, entryPrice);
+      if (!levels || levels.trailPercent !== null) return null;
+
+      return levels;
+    } catch (error) {
+      // 보호 주문 계산 실패 시 일반 주문으로 진행 (다음 동기화에서 보호 주문 생성)
+      console.warn(`⚠️ [Protection] ${symbol} 브래킷 레그 계산 실패 - 일반 주문으로 진행:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Bracket legs for a repriced or market fallback entry
+   * Only when the order it replaces carried legs (a bot's first entry), so the replacement's
+   * fill is protected at the broker right away instead of at the next protection sync.
+   */
+  async planReplacement(
+    botId: string,
+    symbol: string,
+    replacedOrderId: string,
+    entryPrice: number
+  ): Promise<ProtectionLevels | null> {
+    if (!env.PROTECTIVE_ORDERS_ENABLED) return null;
+
+    try {
+      const legs = await prisma.trade.count({
+        where: { botId, parentOrderId: replacedOrderId, legType: { not: null } },
+      });
+      if (legs === 0) return null;
+
+      const levels = await this.resolveLevels(botId, symbol, entryPrice);
+      if (!levels || levels.trailPercent !== null) return null;
+
+      return levels;
+    } catch (error) {
+      console.warn(`⚠️ [Protection] ${symbol} 대체 주문 브래킷 레그 계산 실패 - 일반 주문으로 진행:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Trade rows for the protective orders in a broker response
+   * - Bracket / OTO entries: the child legs (the entry has its own Trade row)
+   * - OCO / stop / trailing orders: the order itself and its children
+   */
+  async recordLegs(
+    botId: string,
+    symbol: string,
+    order: BrokerOrder | undefined,
+    includeParent: boolean,
+    referencePrice: number
+  ): Promise<number> {
+    if (!order) return 0;
+
+    const children = order.legs || [];
+    const legs = (includeParent ? [order] : []).concat(children);
+    let recorded = 0;
+
+    for (const leg of legs) {
+      const legType = LEG_TYPES[leg.type];
+      if (!legType || leg.side !== 'sell') continue;
+
+      const trail = leg.trail_percent ? parseFloat(leg.trail_percent) : null;
+      const price = parseFloat(leg.limit_price || leg.stop_price || '') ||
+        referencePrice * (1 - (trail || 0) / 100);
+      const quantity = parseFloat(leg.qty);
+
+      await prisma.trade.create({
+        data: {
+          botId,
+          symbol,
+          side: 'SELL',
+          quantity,
+          price,
+          total: quantity * price,
+          status: 'PENDING',
+          reason: trail !== null
+            ? `${PROTECTIVE_LEG_LABELS[legType]} (${trail}%)`
+            : `${PROTECTIVE_LEG_LABELS[legType]} ($${price.toFixed(2)})`,
+          alpacaOrderId: leg.id,
+          brokerStatus: leg.status,
+          legType,
+          // 같은 부모 = 한쪽 체결 시 나머지 취소 (단독 스탑/트레일링은 부모 없음)
+          parentOrderId: children.length > 0 ? order.id : null,
+        },
+      });
+      recorded++;
+    }
+
+    if (recorded > 0) {
+      console.log(`🛡️ [Protection] ${symbol} 보호 주문 ${recorded}건 기록 (${order.order_class || 'simple'})`);
+    }
+    return recorded;
+  }
+
+  /**
+   * Cancel the bot's legs so its own sell order can use the shares
+   * Throws ProtectiveOrderReleaseError when a leg is still working at the broker.
+   */
+  async releaseForExit(botId: string, symbol: string, broker: BrokerAdapter): Promise<number> {
+    const legs = await this.openLegs(botId, symbol);
+    if (legs.length === 0) return 0;
+
+    const live = await this.cancelLegs(legs, broker);
+    await positionReconciliationService.syncOrderFills(botId, symbol);
+
+    if (live.length > 0) {
+      throw new ProtectiveOrderReleaseError(symbol, live);
+    }
+
+    console.log(`🔓 [Protection] ${symbol} 보호 주문 ${legs.length}건 취소 - 봇 매도 주문 전`);
+    return legs.length;
+  }
+
+  /**
+   * Symbols with protective legs still open for the bot
+   */
+  async openLegSymbols(botId: string): Promise<string[]> {
+    const legs = await prisma.trade.findMany({
+      where: { botId, legType: { not: null }, status: { in: OPEN_STATUSES as TradeStatus[] } },
+      select: { symbol: true },
+    });
+    return legs.map(leg => leg.symbol).filter((symbol, index, symbols) => symbols.indexOf(symbol) === index);
+  }
+
+  /**
+   * Make the bot's legs cover exactly its position
+   * Waits while an entry or exit order is still working (bracket legs activate with the entry fill).
+   */
+  async syncProtection(botId: string, symbol: string): Promise<ProtectionSyncResult> {
+    const trades = await prisma.trade.findMany({
+      where: { botId, symbol, status: { in: OPEN_STATUSES as TradeStatus[] } },
+    });
+    const legs = trades.filter(trade => trade.legType !== null);
+    const result: ProtectionSyncResult = { botId, symbol, action: 'none', legs: legs.length };
+
+    if (trades.some(trade => trade.legType === null)) {
+      return { ...result, action: 'waiting' };
+    }
+
+    const position = await prisma.position.findUnique({ where: { botId_symbol: { botId, symbol } } });
+    const quantity = position?.quantity || 0;
+
+    const levels = position && quantity > 0 && env.PROTECTIVE_ORDERS_ENABLED
+      ? await this.resolveLevels(botId, symbol, position.avgEntryPrice)
+      : null;
+
+    // 수량이 맞고 레그 종류도 같으면 유지 (트레일링 활성화 수익률 도달 시 고정 손절/익절 → 트레일링으로 교체)
+    const trailingLegs = legs.some(leg => leg.legType === 'TRAILING_STOP');
+    const sameKind = !levels || (levels.trailPercent !== null) === trailingLegs;
+    if (quantity > 0 && env.PROTECTIVE_ORDERS_ENABLED && sameKind && Math.abs(coveredQuantity(legs) - quantity) < 1e-6) {
+      return { ...result, action: 'covered' };
+    }
+    if (legs.length === 0 && !levels) {
+      return result;
+    }
+
+    // 매매 정지 중에는 재생성할 수 없으므로 기존 레그도 취소하지 않음 (보호 유지)
+    if (levels && await killSwitchService.isHalted()) {
+      return { ...result, action: 'halted' };
+    }
+
+    // 수량이 맞지 않는 레그(추가 매수, 일부 청산, 봇 청산 후 남은 레그)는 취소 후 재생성
+    const broker = await getBrokerForBot(botId);
+    let protectedQuantity = quantity;
+    if (legs.length > 0) {
+      await this.cancelLegs(legs, broker);
+      // 취소 직전에 체결된 레그가 있으면 포지션이 줄어 있음
+      protectedQuantity = (await positionReconciliationService.syncBotPosition(botId, symbol)).quantity;
+    }
+
+    if (!levels || protectedQuantity <= 0) {
+      console.log(`🧹 [Protection] ${symbol} 보호할 포지션 없음 - 보호 주문 ${legs.length}건 취소`);
+      return { ...result, action: 'canceled', legs: 0 };
+    }
+
+    const response = await broker.executeTrade(buildProtectionRequest(symbol, protectedQuantity, levels));
+    if (!response.success) {
+      throw new Error(response.error || response.message);
+    }
+
+    const recorded = await this.recordLegs(botId, symbol, response.data, true, position!.avgEntryPrice);
+    return { ...result, action: 'placed', legs: recorded };
+  }
+
+  /**
+   * Protection sweep (order-fills cron): bot positions plus legs left without a position
+   */
+  async syncAll(): Promise<ProtectionSweepResult> {
+    const [positions, legs] = await Promise.all([
+      prisma.position.findMany({ where: { quantity: { gt: 0 } }, select: { botId: true, symbol: true } }),
+      prisma.trade.findMany({
+        where: { legType: { not: null }, status: { in: OPEN_STATUSES as TradeStatus[] } },
+        select: { botId: true, symbol: true },
+      }),
+    ]);
+
+    const pairs: Record<string, { botId: string; symbol: string }> = {};
+    positions.concat(legs).forEach(row => {
+      pairs[`${row.botId}:${row.symbol}`] = { botId: row.botId, symbol: row.symbol };
+    });
+
+    const result: ProtectionSweepResult = {
+      checked: 0,
+      placed: 0,
+      canceled: 0,
+      halted: await killSwitchService.isHalted(),
+      errors: [],
+    };
+    if (result.halted) {
+      console.log('🛑 [Protection] Trading halted - 새 보호 주문 없이 남은 레그만 정리');
+    }
+
+    for (const key of Object.keys(pairs)) {
+      const { botId, symbol } = pairs[key];
+      result.checked++;
+
+      try {
+        const sync = await this.syncProtection(botId, symbol);
+        if (sync.action === 'placed') result.placed++;
+        if (sync.action === 'canceled') result.canceled++;
+      } catch (error: any) {
+        console.error(`❌ [Protection] ${botId} ${symbol} 보호 주문 동기화 실패:`, error);
+        result.errors.push(`${botId}/${symbol}: ${error.message}`);
+      }
+    }
+
+    console.log(`✅ [Protection] ${result.checked}개 봇/종목 확인: ${result.placed}건 생성, ${result.canceled}건 정리`);
+    return result;
+  }
+
+  /**
+   * Levels from the bot's strategy (saved profile stop/take-profit take precedence, as in bot runs)
+   * A profile trailing stop with an activation level replaces the fixed legs once the position's
+   * highest close since entry reaches it.
+   */
+  private async resolveLevels(botId: string, symbol: string, entryPrice: number): Promise<ProtectionLevels | null> {
+    const bot = await prisma.bot.findUnique({ where: { id: botId }, include: { strategy: true } });
+    if (!bot) return null;
+
+    const resolved = await tradingProfileService.resolveForBot(bot);
+    const savedProfile = resolved.profileId ? resolved : null;
+    const strategy = prepareStrategy({
+      entryConditions: bot.strategy?.entryConditions ?? {},
+      exitConditions: bot.strategy?.exitConditions ?? {},
+      stopLoss: savedProfile ? savedProfile.profile.stopLoss * 100 : bot.strategy?.stopLoss,
+      takeProfit: savedProfile ? savedProfile.profile.takeProfit * 100 : bot.strategy?.takeProfit,
+      profileExits: savedProfile ? toProfileExitRules(savedProfile.profile) : null,
+    });
+
+    const bars = (await prisma.marketData.findMany({
+      where: { symbol, interval: 'daily' },
+      orderBy: { timestamp: 'desc' },
+      take: ATR_BARS,
+      select: { timestamp: true, open: true, high: true, low: true, close: true, volume: true },
+    })).reverse();
+
+    const state = await positionReconciliationService.getScalingState(botId, symbol);
+    const peakPrice = bars
+      .filter(bar => !state || bar.timestamp.getTime() >= state.openedAt.getTime())
+      .reduce((peak, bar) => Math.max(peak, bar.close), entryPrice);
+
+    let levels = resolveProtectionLevels(strategy, entryPrice, bars, peakPrice);
+
+    // 일부 익절 후 남은 수량은 본전 손절
+    const scaling = resolveScalingPlan(strategy, savedProfile?.profile.specialRules);
+    if (scaling.scaleOut.length > 0) {
+      levels = raiseStopToBreakeven(levels, breakevenStopPrice(scaling, state, entryPrice));
+    }
+
+    return hasProtection(levels) ? levels : null;
+  }
+
+  private async openLegs(botId: string, symbol: string): Promise<Trade[]> {
+    return prisma.trade.findMany({
+      where: {
+        botId,
+        symbol,
+        legType: { not: null },
+        status: { in: OPEN_STATUSES as TradeStatus[] },
+      },
+    });
+  }
+
+  /**
+   * Cancel legs at the broker; returns the order ids that are still working
+   */
+  private async cancelLegs(legs: Trade[], broker: BrokerAdapter): Promise<string[]> {
+    const live: string[] = [];
+
+    for (const leg of legs) {
+      const orderId = leg.alpacaOrderId as string;
+      try {
+        await broker.cancelOrder(orderId);
+      } catch (error: any) {
+        // OCO 형제 레그는 한쪽 취소 시 함께 취소됨 → 이미 종료된 주문이면 정상
+        try {
+          if (parseBrokerOrder(await broker.getOrder(orderId)).isFinal) continue;
+        } catch {
+          // 주문 조회도 실패 → 살아 있는 것으로 간주
+        }
+        console.warn(`⚠️ [Protection] ${orderId} 취소 실패:`, error.message);
+        live.push(orderId);
+      }
+    }
+
+    return live;
+  }
+}
+
+export const protectiveOrderService = new ProtectiveOrderService();
@@ -0,0 +1,118 @@
+/**
+ * Provider Fixture Service
+ *
+ * Record / replay layer under dataGatewayService (PROVIDER_FIXTURE_MODE):
+ * - record: real provider responses are saved as fixture files, keyed by endpoint and params
+ * - replay: responses are served from the fixture files only - no network, no API keys,
+ *   no gateway cache or budget (a missing fixture is an error, never a live call)
+ * - off (default): pass-through
+ *
+ * Lets the regression suite and local demos run offline and reproducibly.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { env } from '@/lib/config/env';
+import {
+  ProviderFixture,
+  ProviderFixtureMode,
+  definedParams,
+  fixturePath,
+} from '@/lib/utils/providerFixtures';
+
+export interface FixtureRequest {
+  key: string;
+  provider: string;
+  endpoint: string;
+  params?: Record<string, string | number | undefined>;
+}
+
+/**
+ * Thrown in replay mode when no fixture was recorded for a request
+ */
+export class ProviderFixtureMissingError extends Error {
+  constructor(public readonly key: string, public readonly file: string) {
+    super(`No provider fixture for ${key} (${file}) - record it with PROVIDER_FIXTURE_MODE=record`);
+    this.name = 'ProviderFixtureMissingError';
+  }
+}
+
+class ProviderFixtureService {
+  private mode: ProviderFixtureMode = env.PROVIDER_FIXTURE_MODE;
+  private dir: string = env.PROVIDER_FIXTURE_DIR;
+
+  getMode(): ProviderFixtureMode {
+    return this.mode;
+  }
+
+  isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  /**
+   * Switch mode / directory at runtime (tests, demo scripts)
+   */
+  configure(mode: ProviderFixtureMode, dir?: string) {
+    this.mode = mode;
+    if (dir) {
+      this.dir = dir;
+    }
+  }
+
+  /**
+   * Serve a request according to the mode
+   * live is only called in record / off mode.
+   */
+  async resolve<T>(request: FixtureRequest, live: () => Promise<T>): Promise<T> {
+    if (this.mode === 'replay') {
+      return this.read<T>(request);
+    }
+
+    const data = await live();
+    if (this.mode === 'record') {
+      await this.write(request, data);
+    }
+    return data;
+  }
+
+  private fileFor(request: FixtureRequest): string {
+    return path.resolve(process.cwd(), this.dir, fixturePath(request.provider, request.endpoint, request.key));
+  }
+
+  private async read<T>(request: FixtureRequest): Promise<T> {
+    const file = this.fileFor(request);
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      console.warn(`[ProviderFixture] ❌ 픽스처 없음: ${request.key}`);
+      throw new ProviderFixtureMissingError(request.key, path.relative(process.cwd(), file));
+    }
+
+    const fixture = JSON.parse(content) as ProviderFixture<T>;
+    console.log(`[ProviderFixture] 📼 재생: ${request.key}`);
+    return fixture.payload;
+  }
+
+  private async write(request: FixtureRequest, data: unknown) {
+    const file = this.fileFor(request);
+    const fixture: ProviderFixture = {
+      key: request.key,
+      provider: request.provider,
+      endpoint: request.endpoint,
+      params: definedParams(request.params),
+      recordedAt: new Date().toISOString(),
+      payload: data ?? null,
+    };
+
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+      console.log(`[ProviderFixture] 💾 녹화: ${request.key}`);
+    } catch (error) {
+      console.warn(`[ProviderFixture] ⚠️ 픽스처 저장 실패 (${request.key}):`, error);
+    }
+  }
+}
+
+export const providerFixtureService = new ProviderFixtureService();
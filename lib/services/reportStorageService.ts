@@ -49,6 +49,8 @@ class ReportStorageService {
           finalScore: report.aiDecision?.finalScore ?? null,
           objectiveReasoning: report.aiDecision?.objectiveReasoning || null,
           aiReasoning: report.aiDecision?.aiReasoning || null,
+          aiProvider: report.aiDecision?.aiProvider || null,
+          aiModel: report.aiDecision?.aiModel || null,
 
           // AI 결정
           aiAction: report.aiDecision?.action || null,
@@ -67,8 +69,9 @@ class ReportStorageService {
           tradeMessage: report.tradeResult?.message || null,
           tradeError: report.tradeResult?.error || null,
 
-          // 전략 파라미터 (빈 객체로 저장)
-          strategyParams: JSON.stringify({}),
+          // 전략 파라미터 (적용된 프로필 설정 스냅샷)
+          strategyParams: JSON.stringify(report.profile ? { profile: report.profile } : {}),
+          profileVersionId: report.profile?.versionId ?? null,
 
           // API 호출 내역
           apiCalls: JSON.stringify(report.apiCalls),
@@ -76,6 +79,11 @@ class ReportStorageService {
           // 조건 평가 결과
           conditions: JSON.stringify(report.conditions),
 
+          // 판단 재현용 입력 (decisionReplayService)
+          decisionInputs: report.aiDecision?.decisionInputs
+            ? JSON.stringify(report.aiDecision.decisionInputs)
+            : null,
+
           // 오류
           error: report.error || null
         }
@@ -193,10 +201,14 @@ class ReportStorageService {
               aiReasoning: report.aiReasoning || '',
               reason: report.aiReason || '',
               limitPrice: report.aiLimitPrice || undefined,
-              quantity: report.aiQuantity || undefined
+              quantity: report.aiQuantity || undefined,
+              aiProvider: report.aiProvider || undefined,
+              aiModel: report.aiModel || undefined
             }
           : undefined,
 
+        profile: JSON.parse(report.strategyParams || '{}').profile,
+
         error: report.error || undefined
       };
 
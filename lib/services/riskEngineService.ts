@@ -0,0 +1,250 @@
+/**
+ * Risk Engine Service
+ *
+ * Pre-trade risk gate: every order from aiTradingService.executeLimitOrder passes here first.
+ * - Limits come from the bot's TradingProfile (saved profile, else strategy timeHorizon × riskAppetite):
+ *   maxTotalExposure, maxLeverage, maxPositionSize, specialRules.maxTradesPerDay
+ * - Account-wide caps come from env: daily trade count, daily loss limit, sector exposure
+ * - Exposure is measured on the bot's broker account; symbol concentration sums every bot's Position
+ * - Rejected orders are stored as RiskRejection rows with the rule that blocked them
+ *
+ * Only BUY orders are checked: SELL orders close positions and always reduce exposure.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { env } from '@/lib/config/env';
+import { API } from '@/lib/config/trading';
+import { RiskRule } from '@prisma/client';
+import { TradingProfile } from '@/lib/trading-profile-types';
+import { getBrokerForBot } from './brokers';
+import { tradingProfileService } from './tradingProfileService';
+import { dataGatewayService } from './dataGatewayService';
+import { getEasternDayStart } from '@/lib/utils/marketCalendar';
+
+export interface RiskOrder {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  botId?: string;
+}
+
+export interface RiskCheckResult {
+  approved: boolean;
+  profileId: string;
+  rule?: RiskRule;
+  message?: string;
+  limit?: number;        // 규칙 한도 ($, 건수)
+  actual?: number;       // 주문 반영 후 값
+  rejectionId?: string;  // RiskRejection ID
+}
+
+interface RuleViolation {
+  rule: RiskRule;
+  message: string;
+  limit: number;
+  actual: number;
+}
+
+class RiskEngineService {
+  private readonly FMP_BASE_URL = 'https://financialmodelingprep.com/api';
+
+  /**
+   * Run every rule against an order; the first violation blocks it and is recorded
+   */
+  async checkOrder(order: RiskOrder): Promise<RiskCheckResult> {
+    const bot = order.botId
+      ? await prisma.bot.findUnique({ where: { id: order.botId }, include: { strategy: true } })
+      : null;
+    const { profile } = bot
+      ? await tradingProfileService.resolveForBot(bot)
+      : { profile: tradingProfileService.getDefaultProfile() };
+
+    if (!env.RISK_ENGINE_ENABLED || order.side === 'SELL') {
+      return { approved: true, profileId: profile.id };
+    }
+
+    const violation = await this.findViolation(order, profile);
+    if (!violation) {
+      console.log(`🛡️ 리스크 점검 통과: ${order.side} ${order.quantity} ${order.symbol} (${profile.id})`);
+      return { approved: true, profileId: profile.id };
+    }
+
+    console.warn(`🚫 리스크 한도 초과 [${violation.rule}]: ${violation.message}`);
+
+    const rejection = await prisma.riskRejection.create({
+      data: {
+        botId: order.botId ?? null,
+        symbol: order.symbol,
+        side: order.side,
+        quantity: order.quantity,
+        price: order.price,
+        orderValue: order.quantity * order.price,
+        rule: violation.rule,
+        message: violation.message,
+        limitValue: violation.limit,
+        actualValue: violation.actual,
+        profileId: profile.id,
+      },
+    });
+
+    return {
+      approved: false,
+      profileId: profile.id,
+      ...violation,
+      rejectionId: rejection.id,
+    };
+  }
+
+  /**
+   * Recently blocked orders (newest first)
+   */
+  async getRecentRejections(options: { botId?: string; limit?: number } = {}) {
+    return prisma.riskRejection.findMany({
+      where: options.botId ? { botId: options.botId } : {},
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 50,
+    });
+  }
+
+  private async findViolation(order: RiskOrder, profile: TradingProfile): Promise<RuleViolation | null> {
+    const orderValue = order.quantity * order.price;
+    const broker = await getBrokerForBot(order.botId);
+    const [account, brokerPositions] = await Promise.all([broker.getAccount(), broker.getPositions()]);
+    const equity = account.equity || account.portfolioValue;
+
+    // 1. 일일 손실 한도 (전일 종가 기준 자산 대비)
+    const dailyLoss = account.lastEquity - equity;
+    const dailyLossLimit = account.lastEquity * (env.RISK_DAILY_LOSS_LIMIT_PERCENT / 100);
+    if (dailyLoss > dailyLossLimit) {
+      return {
+        rule: 'DAILY_LOSS_LIMIT',
+        message: `Daily loss $${dailyLoss.toFixed(2)} exceeds ${env.RISK_DAILY_LOSS_LIMIT_PERCENT}% limit ($${dailyLossLimit.toFixed(2)})`,
+        limit: dailyLossLimit,
+        actual: dailyLoss,
+      };
+    }
+
+    // 2. 일일 거래 횟수 (계좌 전체, 봇별 프로필 한도) - 미국 동부 시간 자정 기준
+    const startOfDay = getEasternDayStart(new Date());
+
+    // 보호 주문 레그는 진입 주문에 딸린 주문, 재호가 주문은 같은 주문의 대체 → 일일 주문 수에서 제외
+    const accountTradesToday = await prisma.trade.count({
+      where: { executedAt: { gte: startOfDay }, legType: null, replacesOrderId: null },
+    });
+    if (accountTradesToday + 1 > env.RISK_MAX_TRADES_PER_DAY) {
+      return {
+        rule: 'DAILY_TRADE_COUNT',
+        message: `Account already placed ${accountTradesToday} order(s) today (max ${env.RISK_MAX_TRADES_PER_DAY})`,
+        limit: env.RISK_MAX_TRADES_PER_DAY,
+        actual: accountTradesToday + 1,
+      };
+    }
+
+    const maxTradesPerDay = profile.specialRules?.maxTradesPerDay;
+    if (maxTradesPerDay && order.botId) {
+      const botTradesToday = await prisma.trade.count({
+        where: { botId: order.botId, executedAt: { gte: startOfDay }, legType: null, replacesOrderId: null },
+      });
+      if (botTradesToday + 1 > maxTradesPerDay) {
+        return {
+          rule: 'DAILY_TRADE_COUNT',
+          message: `Bot already placed ${botTradesToday} order(s) today (${profile.id} max ${maxTradesPerDay})`,
+          limit: maxTradesPerDay,
+          actual: botTradesToday + 1,
+        };
+      }
+    }
+
+    // 3. 계좌 총 노출 / 레버리지
+    const grossExposure = brokerPositions.reduce((sum, position) => sum + Math.abs(position.marketValue), 0);
+    const exposureAfter = grossExposure + orderValue;
+    const exposureLimit = equity * profile.maxTotalExposure;
+    if (exposureAfter > exposureLimit) {
+      return {
+        rule: 'MAX_TOTAL_EXPOSURE',
+        message: `Account exposure $${exposureAfter.toFixed(2)} would exceed ${(profile.maxTotalExposure * 100).toFixed(0)}% of equity ($${exposureLimit.toFixed(2)})`,
+        limit: exposureLimit,
+        actual: exposureAfter,
+      };
+    }
+
+    const leverageAfter = equity > 0 ? exposureAfter / equity : Infinity;
+    if (leverageAfter > profile.maxLeverage) {
+      return {
+        rule: 'MAX_LEVERAGE',
+        message: `Leverage ${leverageAfter.toFixed(2)}x would exceed ${profile.maxLeverage}x`,
+        limit: profile.maxLeverage,
+        actual: leverageAfter,
+      };
+    }
+
+    // 4. 종목 집중도 (같은 종목을 가진 모든 봇 합산)
+    const symbolPositions = await prisma.position.findMany({
+      where: { symbol: order.symbol, quantity: { gt: 0 } },
+      select: { quantity: true },
+    });
+    const symbolExposure = symbolPositions.reduce((sum, position) => sum + position.quantity * order.price, 0) + orderValue;
+    const symbolLimit = equity * profile.maxPositionSize;
+    if (symbolExposure > symbolLimit) {
+      return {
+        rule: 'SYMBOL_CONCENTRATION',
+        message: `${order.symbol} exposure across bots $${symbolExposure.toFixed(2)} would exceed ${(profile.maxPositionSize * 100).toFixed(0)}% of equity ($${symbolLimit.toFixed(2)})`,
+        limit: symbolLimit,
+        actual: symbolExposure,
+      };
+    }
+
+    // 5. 섹터 한도 (섹터를 알 수 없으면 건너뜀)
+    const sector = await this.getSector(order.symbol);
+    if (sector) {
+      let sectorExposure = orderValue;
+      for (const position of brokerPositions) {
+        if (await this.getSector(position.symbol) === sector) {
+          sectorExposure += Math.abs(position.marketValue);
+        }
+      }
+
+      const sectorLimit = equity * env.RISK_MAX_SECTOR_EXPOSURE;
+      if (sectorExposure > sectorLimit) {
+        return {
+          rule: 'SECTOR_CAP',
+          message: `${sector} exposure $${sectorExposure.toFixed(2)} would exceed ${(env.RISK_MAX_SECTOR_EXPOSURE * 100).toFixed(0)}% of equity ($${sectorLimit.toFixed(2)})`,
+          limit: sectorLimit,
+          actual: sectorExposure,
+        };
+      }
+    } else {
+      console.warn(`⚠️ ${order.symbol} 섹터 정보 없음 - 섹터 한도 점검 생략`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Sector from the FMP company profile (shared gateway cache; ETFs usually have none)
+   */
+  private async getSector(symbol: string): Promise<string | null> {
+    try {
+      const data = await dataGatewayService.request({
+        provider: 'fmp',
+        endpoint: `/v3/profile/${symbol}`,
+        ttlMs: API.CACHE_TTLS.COMPANY_PROFILE,
+        fetcher: async () => {
+          const response = await fetch(`${this.FMP_BASE_URL}/v3/profile/${symbol}?apikey=${env.FMP_API_KEY}`);
+          if (!response.ok) {
+            throw new Error(`FMP profile returned status ${response.status}`);
+          }
+          return response.json();
+        },
+      });
+
+      return Array.isArray(data) && data.length > 0 && data[0].sector ? String(data[0].sector) : null;
+    } catch (error) {
+      console.error(`❌ ${symbol} 섹터 조회 실패:`, error);
+      return null;
+    }
+  }
+}
+
+export const riskEngineService = new RiskEngineService();
@@ -0,0 +1,118 @@
+/**
+ * Scoring Config Service
+ *
+ * Versioned investment opportunity scoring rules (ScoringConfigVersion):
+ * - Saving a config creates a new immutable version and makes it active
+ * - Any earlier version can be activated again (rollback)
+ * - Without a saved version the built-in defaults apply (version 0)
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  DEFAULT_SCORING_CONFIG,
+  ScoringConfig,
+  ScoringConfigInput,
+  ScoringConfigSchema,
+  resolveScoringConfig,
+} from '@/lib/utils/signalScoring';
+
+export interface ActiveScoringConfig {
+  version: number;            // 0 = 기본 설정
+  config: ScoringConfig;
+  changeNote: string | null;
+  createdAt: Date | null;
+}
+
+/**
+ * Thrown when activating a version that does not exist
+ */
+export class ScoringConfigVersionNotFoundError extends Error {
+  constructor(public readonly version: number) {
+    super(`Scoring config version ${version} not found`);
+    this.name = 'ScoringConfigVersionNotFoundError';
+  }
+}
+
+const DEFAULT_ACTIVE: ActiveScoringConfig = {
+  version: 0,
+  config: DEFAULT_SCORING_CONFIG,
+  changeNote: null,
+  createdAt: null,
+};
+
+class ScoringConfigService {
+  /**
+   * Active scoring rules (defaults when nothing is saved or the database is unavailable)
+   */
+  async getActive(): Promise<ActiveScoringConfig> {
+    try {
+      const active = await prisma.scoringConfigVersion.findFirst({
+        where: { isActive: true },
+        orderBy: { version: 'desc' },
+      });
+      if (!active) return DEFAULT_ACTIVE;
+
+      return {
+        version: active.version,
+        config: resolveScoringConfig(active.config),
+        changeNote: active.changeNote,
+        createdAt: active.createdAt,
+      };
+    } catch (error) {
+      console.warn('[ScoringConfig] ⚠️ 활성 점수 설정 조회 실패 - 기본 설정 사용:', error);
+      return DEFAULT_ACTIVE;
+    }
+  }
+
+  async listVersions() {
+    return prisma.scoringConfigVersion.findMany({
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Save a validated config as the next version and activate it
+   */
+  async saveVersion(config: ScoringConfigInput, changeNote?: string, createdBy?: string) {
+    const parsed = ScoringConfigSchema.parse(config);
+
+    const saved = await prisma.$transaction(async (tx) => {
+      const latest = await tx.scoringConfigVersion.findFirst({ orderBy: { version: 'desc' } });
+      await tx.scoringConfigVersion.updateMany({ where: { isActive: true }, data: { isActive: false } });
+
+      return tx.scoringConfigVersion.create({
+        data: {
+          version: (latest?.version || 0) + 1,
+          config: parsed as unknown as Prisma.InputJsonValue,
+          changeNote,
+          createdBy,
+          isActive: true,
+        },
+      });
+    });
+
+    console.log(`[ScoringConfig] 💾 점수 설정 v${saved.version} 저장 및 활성화${changeNote ? ` (${changeNote})` : ''}`);
+    return saved;
+  }
+
+  /**
+   * Make an existing version the active one
+   */
+  async activateVersion(version: number) {
+    const activated = await prisma.$transaction(async (tx) => {
+      const target = await tx.scoringConfigVersion.findUnique({ where: { version } });
+      if (!target) {
+        throw new ScoringConfigVersionNotFoundError(version);
+      }
+
+      await tx.scoringConfigVersion.updateMany({ where: { isActive: true }, data: { isActive: false } });
+      return tx.scoringConfigVersion.update({ where: { version }, data: { isActive: true } });
+    });
+
+    console.log(`[ScoringConfig] 🔄 점수 설정 v${version} 활성화`);
+    return activated;
+  }
+}
+
+export const scoringConfigService = new ScoringConfigService();
@@ -2,17 +2,20 @@
  * SEC Document Summary Service
  *
  * Fetches SEC filing documents (8-K, 10-K, 10-Q) from SEC.gov
- * and generates AI-powered summaries using OpenAI.
+ * and generates AI-powered summaries with the bot's AI provider (OpenAI or rule-based).
  *
  * Features:
  * - HTML parsing from SEC.gov
  * - AI-generated summaries in Korean
- * - In-memory caching (5 minutes)
+ * - Shared cache via dataGatewayService (summaries of a filing don't change)
  * - Error resilience with fallbacks
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/config/env';
+import { AIProvider, getAIProvider } from './aiProviders';
+import { CacheStatus, dataGatewayService } from './dataGatewayService';
+import { API } from '@/lib/config/trading';
+
+const CACHE_KEY_PREFIX = 'sec-summary';
 
 /**
  * SEC Document Summary response
@@ -29,28 +32,9 @@ export interface SecDocumentSummary {
   fetchedAt: Date;
 }
 
-/**
- * Cache entry structure
- */
-interface CacheEntry {
-  data: SecDocumentSummary;
-  timestamp: Date;
-}
-
 class SecDocumentSummaryService {
-  private openai: OpenAI;
-  private cache: Map<string, CacheEntry> = new Map();
-  private readonly CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
   private readonly FETCH_TIMEOUT_MS = 10000; // 10 seconds
-  private readonly MAX_HTML_LENGTH = 50000; // Limit HTML size for OpenAI
-
-  constructor() {
-    const apiKey = env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not set');
-    }
-    this.openai = new OpenAI({ apiKey });
-  }
+  private readonly MAX_HTML_LENGTH = 50000; // Limit HTML size for the AI provider
 
   /**
    * Get summary for SEC document
@@ -60,64 +44,68 @@ class SecDocumentSummaryService {
     secLink: string,
     symbol: string,
     filingType: string = '8-K',
-    filingDate: string = ''
+    filingDate: string = '',
+    provider: AIProvider = getAIProvider()
   ): Promise<SecDocumentSummary | null> {
-    // Check cache first
-    const cacheKey = `${symbol}:${filingDate}:${filingType}`;
-    const cached = this.getFromCache(cacheKey);
-    if (cached) {
-      console.log(`[SecSummary] Using cached summary for ${symbol} ${filingType}`);
-      return cached;
-    }
+    // Cache per provider - rule-based summaries never replace LLM ones
+    const cacheKey = `${CACHE_KEY_PREFIX}:${provider.name}:${symbol}:${filingDate}:${filingType}`;
 
     try {
-      console.log(`[SecSummary] Fetching SEC document: ${secLink}`);
-
-      // 1. Fetch HTML from SEC.gov
-      const htmlContent = await this.fetchSecHtml(secLink);
-      if (!htmlContent) {
-        console.log(`[SecSummary] Failed to fetch HTML for ${symbol}`);
-        return null;
-      }
+      const summary = await dataGatewayService.remember(cacheKey, API.CACHE_TTLS.SEC_SUMMARY, () =>
+        this.summarize(secLink, symbol, filingType, filingDate, provider)
+      );
+      // 캐시에서 읽으면 fetchedAt이 문자열
+      return { ...summary, fetchedAt: new Date(summary.fetchedAt) };
+    } catch (error) {
+      console.error(`[SecSummary] Error processing ${symbol}:`, error);
+      return null;
+    }
+  }
 
-      // 2. Parse HTML to extract text and important items
-      const { text, items } = this.parseSecHtml(htmlContent, filingType);
-      if (!text) {
-        console.log(`[SecSummary] No text content found in ${symbol} filing`);
-        return null;
-      }
+  /**
+   * Fetch, parse and summarize a filing (throws when any step fails, so failures aren't cached)
+   */
+  private async summarize(
+    secLink: string,
+    symbol: string,
+    filingType: string,
+    filingDate: string,
+    provider: AIProvider
+  ): Promise<SecDocumentSummary> {
+    console.log(`[SecSummary] Fetching SEC document: ${secLink}`);
+
+    // 1. Fetch HTML from SEC.gov
+    const htmlContent = await this.fetchSecHtml(secLink);
+    if (!htmlContent) {
+      throw new Error(`Failed to fetch HTML for ${symbol}`);
+    }
 
-      // 3. Generate AI summary with sentiment analysis
-      const aiResult = await this.generateSummary(symbol, filingType, text, items);
-      if (!aiResult) {
-        console.log(`[SecSummary] Failed to generate summary for ${symbol}`);
-        return null;
-      }
+    // 2. Parse HTML to extract text and important items
+    const { text, items } = this.parseSecHtml(htmlContent, filingType);
+    if (!text) {
+      throw new Error(`No text content found in ${symbol} filing`);
+    }
 
-      // 4. Cache result
-      const result: SecDocumentSummary = {
-        symbol,
-        filingDate,
-        filingType,
-        summary: aiResult.summary,
-        sentiment: aiResult.sentiment,
-        impact: aiResult.impact,
-        financialQuality: aiResult.financialQuality,
-        items,
-        fetchedAt: new Date()
-      };
-      this.cache.set(cacheKey, {
-        data: result,
-        timestamp: new Date()
-      });
+    // 3. Generate AI summary with sentiment analysis
+    const aiResult = await this.generateSummary(symbol, filingType, text, items, provider);
+    if (!aiResult) {
+      throw new Error(`Failed to generate summary for ${symbol}`);
+    }
 
-      console.log(`[SecSummary] ✅ Summary generated for ${symbol}: ${aiResult.summary} [${aiResult.sentiment}]`);
-      return result;
+    const result: SecDocumentSummary = {
+      symbol,
+      filingDate,
+      filingType,
+      summary: aiResult.summary,
+      sentiment: aiResult.sentiment,
+      impact: aiResult.impact,
+      financialQuality: aiResult.financialQuality,
+      items,
+      fetchedAt: new Date()
+    };
 
-    } catch (error) {
-      console.error(`[SecSummary] Error processing ${symbol}:`, error);
-      return null;
-    }
+    console.log(`[SecSummary] ✅ Summary generated for ${symbol}: ${aiResult.summary} [${aiResult.sentiment}]`);
+    return result;
   }
 
   /**
@@ -195,13 +183,14 @@ class SecDocumentSummaryService {
   }
 
   /**
-   * Generate AI summary using OpenAI with sentiment analysis
+   * Generate AI summary with sentiment analysis
    */
   private async generateSummary(
     symbol: string,
     filingType: string,
     text: string,
-    items: string[]
+    items: string[],
+    provider: AIProvider
   ): Promise<{
     summary: string;
     sentiment: 'positive' | 'negative' | 'neutral';
@@ -288,24 +277,18 @@ ${text.substring(0, 3000)}
   "impact": "주가 영향 설명"
 }`;
 
-      const completion = await this.openai.chat.completions.create({
+      const completion = await provider.complete({
+        task: 'sec-summary',
         model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: '당신은 SEC 문서를 분석하고 투자자 관점에서 감성 분석을 수행하는 금융 전문가입니다. 항상 JSON 형식으로 응답합니다.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+        systemPrompt: '당신은 SEC 문서를 분석하고 투자자 관점에서 감성 분석을 수행하는 금융 전문가입니다. 항상 JSON 형식으로 응답합니다.',
+        prompt,
+        input: text.substring(0, 3000),
         temperature: 0.3,
-        max_tokens: 300,
-        response_format: { type: 'json_object' }
+        maxTokens: 300,
+        json: true
       });
 
-      const result = JSON.parse(completion.choices[0]?.message?.content || '{}');
+      const result = JSON.parse(completion.text || '{}');
 
       // Validate required fields
       if (!result.summary || !result.sentiment || !result.impact) {
@@ -321,46 +304,24 @@ ${text.substring(0, 3000)}
       };
 
     } catch (error: any) {
-      console.error('[SecSummary] OpenAI error:', error.message || error);
+      console.error(`[SecSummary] AI provider error (${provider.name}):`, error.message || error);
       return null;
     }
   }
 
-  /**
-   * Get summary from cache
-   */
-  private getFromCache(key: string): SecDocumentSummary | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-
-    const now = new Date().getTime();
-    const age = now - entry.timestamp.getTime();
-
-    if (age < this.CACHE_DURATION_MS) {
-      return entry.data;
-    }
-
-    // Cache expired
-    this.cache.delete(key);
-    return null;
-  }
-
   /**
    * Clear cache (useful for testing)
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await dataGatewayService.clearCache(`internal:${CACHE_KEY_PREFIX}:`);
     console.log('[SecSummary] Cache cleared');
   }
 
   /**
-   * Get cache status
+   * Get cache status (newest summary)
    */
-  getCacheStatus(): { size: number; keys: string[] } {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
-    };
+  async getCacheStatus(): Promise<CacheStatus> {
+    return dataGatewayService.getCacheStatus(`internal:${CACHE_KEY_PREFIX}:`);
   }
 }
 
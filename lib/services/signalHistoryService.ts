@@ -0,0 +1,236 @@
+/**
+ * Signal History Service
+ *
+ * Historical signal store for back-testing the investment opportunity scoring:
+ * - Daily snapshot of every ranked InvestmentOpportunity and its collected Signals
+ *   (OpportunitySnapshot / SignalObservation, one snapshot per symbol and UTC day)
+ * - Evaluation job: forward returns 1/5/20 trading days after each snapshot from daily bars
+ * - Performance report per signal type and score bucket, so the scoring rules
+ *   (scoringConfigService) can be set from data (lib/utils/signalEvaluation.ts)
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { SIGNAL_EVALUATION } from '@/lib/config/trading';
+import { InvestmentOpportunity } from '@/lib/types/investmentOpportunity';
+import {
+  DailyClose,
+  EvaluatedOpportunity,
+  SignalPerformanceReport,
+  computeForwardReturns,
+  summarizeSignalPerformance,
+} from '@/lib/utils/signalEvaluation';
+import { marketEventsService } from './marketEventsService';
+import { investmentOpportunityService } from './investmentOpportunityService';
+import { historicalDataService } from './historicalDataService';
+import { ProviderBudgetExceededError } from './dataGatewayService';
+import { scoringConfigService } from './scoringConfigService';
+
+export interface SnapshotResult {
+  snapshotDate: string;
+  opportunities: number;
+  signals: number;
+}
+
+export interface EvaluationRunResult {
+  pendingSnapshots: number;
+  evaluated: number;
+  symbols: string[];
+  failedSymbols: string[];
+  remainingSymbols: number;   // 예산 / 실행당 한도로 다음 실행에 넘긴 종목 수
+}
+
+export interface PerformanceReportOptions {
+  days?: number;      // 최근 N일 스냅샷 (기본 180)
+  horizon?: number;   // 판정 기준 기간 (SIGNAL_EVALUATION.HORIZONS 중 하나)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REPORT_DAYS = 180;
+const REEVALUATE_AFTER_MS = 20 * 60 * 60 * 1000;   // 하루 한 번만 다시 평가
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function dateKey(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+class SignalHistoryService {
+  /**
+   * Collect today's market events, rank the opportunities and store them
+   */
+  async captureDailySnapshot(): Promise<SnapshotResult> {
+    const marketEvents = await marketEventsService.getAllMarketEvents();
+    const active = await scoringConfigService.getActive();
+    const opportunities = await investmentOpportunityService.analyzeMarketEvents(marketEvents);
+    return this.captureSnapshot(opportunities, new Date(), active.version);
+  }
+
+  /**
+   * Store ranked opportunities as the snapshot of the (UTC) day - a rerun replaces that day
+   * scoringVersion records which scoring config ranked them (0 = defaults)
+   */
+  async captureSnapshot(
+    opportunities: InvestmentOpportunity[],
+    at: Date = new Date(),
+    scoringVersion: number | null = null
+  ): Promise<SnapshotResult> {
+    const snapshotDate = startOfUtcDay(at);
+
+    await prisma.$transaction([
+      prisma.opportunitySnapshot.deleteMany({ where: { snapshotDate } }),
+      ...opportunities.map(opportunity =>
+        prisma.opportunitySnapshot.create({
+          data: {
+            snapshotDate,
+            symbol: opportunity.symbol,
+            rank: opportunity.rank,
+            totalScore: opportunity.totalScore,
+            companyName: opportunity.companyName,
+            price: opportunity.price,
+            scoringVersion,
+            signals: {
+              create: opportunity.signals.map(signal => {
+                const signalDate = new Date(signal.date);
+                return {
+                  type: signal.type,
+                  score: signal.score,
+                  source: signal.source,
+                  description: signal.description,
+                  signalDate: isNaN(signalDate.getTime()) ? snapshotDate : signalDate,
+                  metadata: signal.metadata as Prisma.InputJsonValue | undefined,
+                };
+              }),
+            },
+          },
+        })
+      ),
+    ]);
+
+    const signals = opportunities.reduce((sum, opportunity) => sum + opportunity.signals.length, 0);
+    console.log(`[SignalHistory] 💾 ${dateKey(snapshotDate)} 스냅샷 저장: 기회 ${opportunities.length}개, 시그널 ${signals}개`);
+
+    return { snapshotDate: dateKey(snapshotDate), opportunities: opportunities.length, signals };
+  }
+
+  /**
+   * Fill forward returns of snapshots whose 20-day return is still missing
+   * Daily bars are fetched once per symbol; stops early when the Alpha Vantage budget runs out.
+   */
+  async evaluatePending(now: Date = new Date()): Promise<EvaluationRunResult> {
+    const pending = await prisma.opportunitySnapshot.findMany({
+      where: {
+        return20d: null,
+        snapshotDate: {
+          gte: startOfUtcDay(new Date(now.getTime() - SIGNAL_EVALUATION.LOOKBACK_DAYS * DAY_MS)),
+          lt: startOfUtcDay(now),
+        },
+        OR: [
+          { evaluatedAt: null },
+          { evaluatedAt: { lt: new Date(now.getTime() - REEVALUATE_AFTER_MS) } },
+        ],
+      },
+      orderBy: { snapshotDate: 'asc' },
+      select: { id: true, symbol: true, snapshotDate: true },
+    });
+
+    const bySymbol = new Map<string, typeof pending>();
+    pending.forEach(snapshot => {
+      const list = bySymbol.get(snapshot.symbol) || [];
+      list.push(snapshot);
+      bySymbol.set(snapshot.symbol, list);
+    });
+
+    const allSymbols = Array.from(bySymbol.keys());
+    const symbols: string[] = [];
+    const failedSymbols: string[] = [];
+    let evaluated = 0;
+
+    for (const symbol of allSymbols.slice(0, SIGNAL_EVALUATION.MAX_SYMBOLS_PER_RUN)) {
+      let bars: DailyClose[];
+      try {
+        const history = await historicalDataService.fetchHistoricalData(symbol, 'compact');
+        bars = history.map(point => ({ date: point.date, close: parseFloat(point.close) }));
+      } catch (error) {
+        if (error instanceof ProviderBudgetExceededError) {
+          console.warn(`[SignalHistory] ⏸️ 데이터 예산 소진 - 나머지 종목은 다음 실행에서 평가`);
+          break;
+        }
+        console.warn(`[SignalHistory] ⚠️ ${symbol} 일봉 조회 실패:`, error instanceof Error ? error.message : error);
+        failedSymbols.push(symbol);
+        continue;
+      }
+
+      symbols.push(symbol);
+      for (const snapshot of bySymbol.get(symbol) || []) {
+        const forward = computeForwardReturns(bars, dateKey(snapshot.snapshotDate), SIGNAL_EVALUATION.HORIZONS);
+        if (!forward) continue;
+
+        await prisma.opportunitySnapshot.update({
+          where: { id: snapshot.id },
+          data: {
+            baseClose: forward.baseClose,
+            return1d: forward.returns[1],
+            return5d: forward.returns[5],
+            return20d: forward.returns[20],
+            evaluatedAt: now,
+          },
+        });
+        evaluated++;
+      }
+    }
+
+    const remainingSymbols = allSymbols.length - symbols.length - failedSymbols.length;
+    console.log(
+      `[SignalHistory] 📈 수익률 평가: 스냅샷 ${evaluated}/${pending.length}개 (${symbols.length}종목, 남은 종목 ${remainingSymbols})`
+    );
+
+    return { pendingSnapshots: pending.length, evaluated, symbols, failedSymbols, remainingSymbols };
+  }
+
+  /**
+   * Which signal types predicted forward returns (evaluated snapshots of the last N days)
+   */
+  async getPerformanceReport(options: PerformanceReportOptions = {}): Promise<SignalPerformanceReport> {
+    const days = options.days || DEFAULT_REPORT_DAYS;
+    const active = await scoringConfigService.getActive();
+    const snapshots = await prisma.opportunitySnapshot.findMany({
+      where: {
+        snapshotDate: { gte: startOfUtcDay(new Date(Date.now() - days * DAY_MS)) },
+        evaluatedAt: { not: null },
+      },
+      include: { signals: { select: { type: true, score: true, signalDate: true } } },
+    });
+
+    const opportunities: EvaluatedOpportunity[] = snapshots.map(snapshot => ({
+      snapshotDate: dateKey(snapshot.snapshotDate),
+      symbol: snapshot.symbol,
+      totalScore: snapshot.totalScore,
+      returns: { 1: snapshot.return1d, 5: snapshot.return5d, 20: snapshot.return20d },
+      signals: snapshot.signals.map(signal => ({
+        type: signal.type,
+        score: signal.score,
+        signalDate: dateKey(signal.signalDate),
+      })),
+    }));
+
+    return summarizeSignalPerformance(opportunities, {
+      horizons: SIGNAL_EVALUATION.HORIZONS,
+      primaryHorizon: options.horizon || SIGNAL_EVALUATION.PRIMARY_HORIZON,
+      scoreBuckets: SIGNAL_EVALUATION.SCORE_BUCKETS,
+      totalScoreBuckets: SIGNAL_EVALUATION.TOTAL_SCORE_BUCKETS,
+      minSamples: SIGNAL_EVALUATION.MIN_SAMPLES,
+      minTStat: SIGNAL_EVALUATION.MIN_T_STAT,
+      // 동적 소스(내부자 거래)는 배율 - 부호로 방향만 판정
+      currentScores: Object.keys(active.config.signals)
+        .filter(type => active.config.signals[type].enabled)
+        .reduce((scores, type) => ({ ...scores, [type]: active.config.signals[type].score }),
+        {} as Record<string, number>
+      ),
+    });
+  }
+}
+
+export const signalHistoryService = new SignalHistoryService();
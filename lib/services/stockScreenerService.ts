@@ -6,7 +6,7 @@
  *
  * Features:
  * - Alpha Vantage API integration
- * - In-memory caching to respect rate limits
+ * - Shared cache and rate budget via dataGatewayService
  * - Stock filtering and sorting
  * - Metric calculation (extensible for quant-analyst)
  */
@@ -23,18 +23,12 @@ import {
   InvalidParametersError
 } from '@/lib/types/stockScreener';
 import { getAlphaVantageKey } from '@/lib/config/env';
+import { API } from '@/lib/config/trading';
+import { CacheStatus, dataGatewayService } from '@/lib/services/dataGatewayService';
 
-/**
- * Cache entry structure
- */
-interface CacheEntry {
-  data: AlphaVantageScreenerResponse;
-  timestamp: Date;
-}
+const SCREENER_ENDPOINT = 'TOP_GAINERS_LOSERS';
 
 class StockScreenerService {
-  private cache: CacheEntry | null = null;
-  private readonly CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
   private readonly API_KEY: string;
   private readonly BASE_URL = 'https://www.alphavantage.co/query';
 
@@ -48,15 +42,18 @@ class StockScreenerService {
 
   /**
    * Fetch raw data from Alpha Vantage TOP_GAINERS_LOSERS endpoint
-   * Uses cache to avoid repeated API calls within 5 minutes
+   * Cached in the shared gateway cache for 5 minutes
    */
   private async fetchTopGainersLosers(): Promise<AlphaVantageScreenerResponse> {
-    // Check cache first
-    if (this.cache && this.isCacheValid()) {
-      console.log('[StockScreener] Using cached data');
-      return this.cache.data;
-    }
+    return dataGatewayService.request({
+      provider: 'alphaVantage',
+      endpoint: SCREENER_ENDPOINT,
+      ttlMs: API.CACHE_TTLS.SCREENER,
+      fetcher: () => this.fetchFromAlphaVantage(),
+    });
+  }
 
+  private async fetchFromAlphaVantage(): Promise<AlphaVantageScreenerResponse> {
     console.log('[StockScreener] Fetching fresh data from Alpha Vantage');
 
     const url = `${this.BASE_URL}?function=TOP_GAINERS_LOSERS&apikey=${this.API_KEY}`;
@@ -92,12 +89,6 @@ class StockScreenerService {
         throw new AlphaVantageAPIError('Invalid response structure from Alpha Vantage');
       }
 
-      // Update cache
-      this.cache = {
-        data,
-        timestamp: new Date()
-      };
-
       return data;
     } catch (error) {
       if (error instanceof AlphaVantageAPIError || error instanceof RateLimitError) {
@@ -111,17 +102,6 @@ class StockScreenerService {
     }
   }
 
-  /**
-   * Check if cached data is still valid
-   */
-  private isCacheValid(): boolean {
-    if (!this.cache) return false;
-
-    const now = new Date().getTime();
-    const cacheTime = this.cache.timestamp.getTime();
-    return (now - cacheTime) < this.CACHE_DURATION_MS;
-  }
-
   /**
    * Convert Alpha Vantage stock data to standardized format
    */
@@ -262,24 +242,16 @@ class StockScreenerService {
   /**
    * Clear cache (useful for testing or manual refresh)
    */
-  clearCache(): void {
-    this.cache = null;
+  async clearCache(): Promise<void> {
+    await dataGatewayService.clearCache(`alphaVantage:${SCREENER_ENDPOINT}`);
     console.log('[StockScreener] Cache cleared');
   }
 
   /**
    * Get cache status
    */
-  getCacheStatus(): { isCached: boolean; age?: number } {
-    if (!this.cache) {
-      return { isCached: false };
-    }
-
-    const age = new Date().getTime() - this.cache.timestamp.getTime();
-    return {
-      isCached: this.isCacheValid(),
-      age: Math.floor(age / 1000) // age in seconds
-    };
+  async getCacheStatus(): Promise<CacheStatus> {
+    return dataGatewayService.getCacheStatus(`alphaVantage:${SCREENER_ENDPOINT}`);
   }
 }
 
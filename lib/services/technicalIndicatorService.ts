@@ -1,5 +1,8 @@
 // Alpha Vantage Technical Indicator Service
 import { getAlphaVantageKey } from '@/lib/config/env';
+import { API } from '@/lib/config/trading';
+import { assertGlobalQuote } from '@/lib/utils/alphaVantageResponse';
+import { dataGatewayService } from './dataGatewayService';
 
 export interface AlphaVantageIndicatorResponse {
   rsi: number | null;
@@ -51,27 +54,37 @@ class TechnicalIndicatorService {
       console.log(`🔍 Fetching ${functionName} for ${symbol}...`);
       console.log(`📡 API URL: ${url}`);
 
-      const response = await fetch(url);
-      const data = await response.json();
-
-      // Detailed logging of API response
-      console.log(`📊 ${functionName} Response Status:`, response.status);
-      console.log(`📋 ${functionName} Response Keys:`, Object.keys(data));
-      console.log(`📄 ${functionName} Full Response:`, JSON.stringify(data, null, 2));
-
-      if (data['Error Message'] || data['Note']) {
-        console.error(`❌ Alpha Vantage API Error:`, data['Error Message'] || data['Note']);
-        throw new Error(`Alpha Vantage error: ${data['Error Message'] || data['Note']}`);
-      }
-
-      if (data['Information']) {
-        console.error(`ℹ️ Alpha Vantage Information:`, data['Information']);
-
-        // Check if it's a rate limit message
-        if (data['Information'].includes('rate limit') || data['Information'].includes('25 requests per day')) {
-          throw new Error(`Alpha Vantage Rate Limit: ${data['Information']}`);
-        }
-      }
+      const data = await dataGatewayService.request({
+        provider: 'alphaVantage',
+        endpoint: functionName,
+        params: { symbol, interval, ...additionalParams },
+        ttlMs: API.CACHE_TTLS.TECHNICAL_INDICATORS,
+        fetcher: async () => {
+          const response = await fetch(url);
+          const data = await response.json();
+
+          // Detailed logging of API response
+          console.log(`📊 ${functionName} Response Status:`, response.status);
+          console.log(`📋 ${functionName} Response Keys:`, Object.keys(data));
+          console.log(`📄 ${functionName} Full Response:`, JSON.stringify(data, null, 2));
+
+          if (data['Error Message'] || data['Note']) {
+            console.error(`❌ Alpha Vantage API Error:`, data['Error Message'] || data['Note']);
+            throw new Error(`Alpha Vantage error: ${data['Error Message'] || data['Note']}`);
+          }
+
+          if (data['Information']) {
+            console.error(`ℹ️ Alpha Vantage Information:`, data['Information']);
+
+            // Check if it's a rate limit message
+            if (data['Information'].includes('rate limit') || data['Information'].includes('25 requests per day')) {
+              throw new Error(`Alpha Vantage Rate Limit: ${data['Information']}`);
+            }
+          }
+
+          return data;
+        },
+      });
 
       return data;
     } catch (error) {
@@ -268,10 +281,21 @@ class TechnicalIndicatorService {
       const url = `${this.BASE_URL}?${params}`;
       console.log(`💰 Fetching real-time price for ${symbol}...`);
 
-      const response = await fetch(url);
-      const data = await response.json();
-
-      console.log(`📊 GLOBAL_QUOTE Response:`, JSON.stringify(data, null, 2));
+      // alphaVantageService.fetchQuote와 같은 캐시 키 (응답 원문 공유)
+      const data = await dataGatewayService.request({
+        provider: 'alphaVantage',
+        endpoint: 'GLOBAL_QUOTE',
+        params: { symbol },
+        ttlMs: API.CACHE_TTLS.QUOTE,
+        fetcher: async () => {
+          const response = await fetch(url);
+          const data = await response.json();
+
+          console.log(`📊 GLOBAL_QUOTE Response:`, JSON.stringify(data, null, 2));
+          return data;
+        },
+        validate: assertGlobalQuote,
+      });
 
       if (data['Global Quote'] && data['Global Quote']['05. price']) {
         const price = parseFloat(data['Global Quote']['05. price']);
@@ -279,10 +303,6 @@ class TechnicalIndicatorService {
         return price;
       }
 
-      if (data['Error Message'] || data['Note'] || data['Information']) {
-        console.error(`❌ Alpha Vantage Error:`, data['Error Message'] || data['Note'] || data['Information']);
-      }
-
       return null;
     } catch (error) {
       console.error('Error fetching real-time price:', error);
@@ -0,0 +1,320 @@
+/**
+ * Trading Profile Service
+ *
+ * User-defined trading profiles stored in the database (trading_profiles):
+ * - A saved profile = 2D grid base (timeHorizon × riskAppetite) + ProfileOverrides
+ * - Every settings change creates an immutable TradingProfileVersion; reports link
+ *   the version they ran with, so older reports keep their original settings
+ * - Bots resolve their profile at run time: bot.profileId → strategy.profileId →
+ *   built-in grid profile from the strategy's enums
+ */
+
+import { prisma } from '@/lib/prisma';
+import {
+  Prisma,
+  TimeHorizon as DbTimeHorizon,
+  RiskAppetite as DbRiskAppetite,
+  TradingProfile as TradingProfileRow,
+  TradingProfileVersion,
+} from '@prisma/client';
+import { TradingProfileBuilder } from '@/lib/trading-profile-builder';
+import {
+  TradingProfile,
+  TimeHorizon,
+  RiskAppetite,
+  ProfileOverrides,
+  SaveProfileInput,
+  AppliedProfileSnapshot,
+} from '@/lib/trading-profile-types';
+import type { ProfileExitRules } from '@/lib/utils/strategyConditions';
+
+export interface ResolvedProfile {
+  profile: TradingProfile;
+  profileId: string | null;       // 저장된 프로필 (null = 기본 그리드 프로필)
+  versionId: string | null;
+  version: number | null;
+  timeHorizon: DbTimeHorizon;     // 봇 실행 주기/인터벌에 사용
+}
+
+export type SavedProfileWithVersions = TradingProfileRow & {
+  versions: TradingProfileVersion[];
+  _count: { strategies: number; bots: number };
+};
+
+/**
+ * Referenced profiles cannot be deleted (their bots would silently change settings)
+ */
+export class ProfileInUseError extends Error {
+  constructor(public readonly strategies: number, public readonly bots: number) {
+    super(`Profile is used by ${strategies} strateg${strategies === 1 ? 'y' : 'ies'} and ${bots} bot(s)`);
+    this.name = 'ProfileInUseError';
+  }
+}
+
+const TO_PROFILE_TIME_HORIZON: Record<DbTimeHorizon, TimeHorizon> = {
+  SHORT_TERM: TimeHorizon.DAY,
+  SWING: TimeHorizon.SWING,
+  LONG_TERM: TimeHorizon.POSITION,
+};
+
+const TO_DB_TIME_HORIZON: Record<TimeHorizon, DbTimeHorizon> = {
+  [TimeHorizon.DAY]: 'SHORT_TERM',
+  [TimeHorizon.SWING]: 'SWING',
+  [TimeHorizon.POSITION]: 'LONG_TERM',
+};
+
+const TO_PROFILE_RISK_APPETITE: Record<DbRiskAppetite, RiskAppetite> = {
+  DEFENSIVE: RiskAppetite.DEFENSIVE,
+  BALANCED: RiskAppetite.BALANCED,
+  AGGRESSIVE: RiskAppetite.AGGRESSIVE,
+};
+
+const TO_DB_RISK_APPETITE: Record<RiskAppetite, DbRiskAppetite> = {
+  [RiskAppetite.DEFENSIVE]: 'DEFENSIVE',
+  [RiskAppetite.BALANCED]: 'BALANCED',
+  [RiskAppetite.AGGRESSIVE]: 'AGGRESSIVE',
+};
+
+class TradingProfileService {
+  /**
+   * Built-in grid profile for a strategy's enums (swing-balanced without a strategy)
+   */
+  getDefaultProfile(strategy?: { timeHorizon: DbTimeHorizon; riskAppetite: DbRiskAppetite } | null): TradingProfile {
+    return TradingProfileBuilder.create({
+      timeHorizon: strategy ? TO_PROFILE_TIME_HORIZON[strategy.timeHorizon] : TimeHorizon.SWING,
+      riskAppetite: strategy ? TO_PROFILE_RISK_APPETITE[strategy.riskAppetite] : RiskAppetite.BALANCED,
+    });
+  }
+
+  /**
+   * Full profile values for a saved profile's settings
+   */
+  buildConfig(
+    input: Pick<SaveProfileInput, 'name' | 'description' | 'timeHorizon' | 'riskAppetite' | 'overrides'>,
+    id: string
+  ): TradingProfile {
+    const profile = TradingProfileBuilder.create({
+      timeHorizon: input.timeHorizon,
+      riskAppetite: input.riskAppetite,
+      customizations: input.overrides,
+    });
+
+    return {
+      ...profile,
+      id,
+      name: input.name,
+      description: input.description || profile.description,
+    };
+  }
+
+  async listProfiles() {
+    return prisma.tradingProfile.findMany({
+      orderBy: { updatedAt: 'desc' },
+      include: { _count: { select: { strategies: true, bots: true } } },
+    });
+  }
+
+  async getProfile(id: string): Promise<SavedProfileWithVersions | null> {
+    return prisma.tradingProfile.findUnique({
+      where: { id },
+      include: {
+        versions: { orderBy: { version: 'desc' } },
+        _count: { select: { strategies: true, bots: true } },
+      },
+    });
+  }
+
+  async createProfile(input: SaveProfileInput): Promise<TradingProfileRow> {
+    const overrides = input.overrides || {};
+
+    // 프로필과 v1은 함께 생성 (버전 없는 프로필이 남지 않도록)
+    const profile = await prisma.$transaction(async (tx) => {
+      const created = await tx.tradingProfile.create({
+        data: {
+          name: input.name,
+          description: input.description ?? null,
+          timeHorizon: TO_DB_TIME_HORIZON[input.timeHorizon],
+          riskAppetite: TO_DB_RISK_APPETITE[input.riskAppetite],
+          overrides: overrides as Prisma.InputJsonValue,
+        },
+      });
+
+      await tx.tradingProfileVersion.create({
+        data: {
+          profileId: created.id,
+          version: 1,
+          overrides: overrides as Prisma.InputJsonValue,
+          config: this.buildConfig({ ...input, overrides }, created.id) as unknown as Prisma.InputJsonValue,
+          changeNote: input.changeNote || 'Created',
+        },
+      });
+
+      return created;
+    });
+
+    console.log(`💾 Trading profile saved: ${profile.name} (v1)`);
+    return profile;
+  }
+
+  /**
+   * Update a saved profile. Settings changes (grid, overrides) create a new version;
+   * name/description changes do not.
+   */
+  async updateProfile(id: string, input: Partial<SaveProfileInput>): Promise<TradingProfileRow | null> {
+    // 새 버전과 currentVersion 변경은 한 트랜잭션 (동시 수정 시 같은 버전 번호는 유니크 제약으로 실패)
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.tradingProfile.findUnique({ where: { id } });
+      if (!existing) {
+        return null;
+      }
+
+      const next = {
+        name: input.name ?? existing.name,
+        description: input.description !== undefined ? input.description : existing.description ?? undefined,
+        timeHorizon: input.timeHorizon ?? TO_PROFILE_TIME_HORIZON[existing.timeHorizon],
+        riskAppetite: input.riskAppetite ?? TO_PROFILE_RISK_APPETITE[existing.riskAppetite],
+        overrides: input.overrides ?? (existing.overrides as ProfileOverrides),
+      };
+
+      const settingsChanged =
+        TO_DB_TIME_HORIZON[next.timeHorizon] !== existing.timeHorizon ||
+        TO_DB_RISK_APPETITE[next.riskAppetite] !== existing.riskAppetite ||
+        JSON.stringify(next.overrides) !== JSON.stringify(existing.overrides);
+      const version = settingsChanged ? existing.currentVersion + 1 : existing.currentVersion;
+
+      if (settingsChanged) {
+        await tx.tradingProfileVersion.create({
+          data: {
+            profileId: id,
+            version,
+            overrides: next.overrides as Prisma.InputJsonValue,
+            config: this.buildConfig(next, id) as unknown as Prisma.InputJsonValue,
+            changeNote: input.changeNote ?? null,
+          },
+        });
+      }
+
+      const profile = await tx.tradingProfile.update({
+        where: { id },
+        data: {
+          name: next.name,
+          description: next.description ?? null,
+          timeHorizon: TO_DB_TIME_HORIZON[next.timeHorizon],
+          riskAppetite: TO_DB_RISK_APPETITE[next.riskAppetite],
+          overrides: next.overrides as Prisma.InputJsonValue,
+          currentVersion: version,
+        },
+      });
+
+      return { profile, settingsChanged };
+    });
+
+    if (result?.settingsChanged) {
+      console.log(`💾 Trading profile updated: ${result.profile.name} (v${result.profile.currentVersion})`);
+    }
+
+    return result ? result.profile : null;
+  }
+
+  /**
+   * Delete an unused profile. Its versions go too; reports keep their settings snapshot.
+   */
+  async deleteProfile(id: string): Promise<boolean> {
+    const profile = await prisma.tradingProfile.findUnique({
+      where: { id },
+      include: { _count: { select: { strategies: true, bots: true } } },
+    });
+    if (!profile) {
+      return false;
+    }
+    if (profile._count.strategies > 0 || profile._count.bots > 0) {
+      throw new ProfileInUseError(profile._count.strategies, profile._count.bots);
+    }
+
+    await prisma.tradingProfile.delete({ where: { id } });
+    return true;
+  }
+
+  /**
+   * Profile a bot applies at run time: bot profile → strategy profile → grid profile
+   */
+  async resolveForBot(bot: {
+    profileId?: string | null;
+    strategy?: { profileId?: string | null; timeHorizon: DbTimeHorizon; riskAppetite: DbRiskAppetite } | null;
+  }): Promise<ResolvedProfile> {
+    const profileId = bot.profileId || bot.strategy?.profileId || null;
+
+    if (profileId) {
+      const saved = await prisma.tradingProfile.findUnique({ where: { id: profileId } });
+      const version = saved
+        ? await prisma.tradingProfileVersion.findUnique({
+            where: { profileId_version: { profileId, version: saved.currentVersion } },
+          })
+        : null;
+
+      if (saved && version) {
+        return {
+          profile: version.config as unknown as TradingProfile,
+          profileId,
+          versionId: version.id,
+          version: version.version,
+          timeHorizon: saved.timeHorizon,
+        };
+      }
+
+      console.warn(`⚠️ Trading profile ${profileId} not found, using the strategy's grid profile`);
+    }
+
+    return {
+      profile: this.getDefaultProfile(bot.strategy),
+      profileId: null,
+      versionId: null,
+      version: null,
+      timeHorizon: bot.strategy?.timeHorizon ?? 'SWING',
+    };
+  }
+}
+
+/**
+ * Settings snapshot stored with a report (percentages as 5 = 5%)
+ */
+export function toAppliedSnapshot(resolved: ResolvedProfile): AppliedProfileSnapshot {
+  const { profile } = resolved;
+
+  return {
+    profileId: resolved.profileId,
+    versionId: resolved.versionId,
+    version: resolved.version,
+    name: profile.name,
+    timeHorizon: profile.timeHorizon,
+    riskAppetite: profile.riskAppetite,
+    stopLoss: profile.stopLoss * 100,
+    takeProfit: profile.takeProfit * 100,
+    maxPositionSize: profile.maxPositionSize,
+    maxTotalExposure: profile.maxTotalExposure,
+    maxLeverage: profile.maxLeverage,
+    trailingStop: profile.trailingStop,
+    holdingPeriod: profile.holdingPeriod,
+    specialRules: profile.specialRules,
+  };
+}
+
+// 보유 기간 표기 ('72h', '30d', '5 days', '2 weeks') → 분
+const DURATION_MINUTES: Record<string, number> = { h: 60, d: 60 * 24, w: 60 * 24 * 7 };
+
+/**
+ * Trailing stop and maximum holding period of a profile as exit rules (percentages as 5 = 5%)
+ */
+export function toProfileExitRules(profile: TradingProfile): ProfileExitRules {
+  const { trailingStop, holdingPeriod } = profile;
+  const trailing = trailingStop?.enabled && trailingStop.distance ? trailingStop : null;
+  const maxHold = holdingPeriod?.max ? /^(\d+(?:\.\d+)?)\s*(h(?:ours?)?|d(?:ays?)?|w(?:eeks?)?)$/i.exec(holdingPeriod.max.trim()) : null;
+
+  return {
+    trailingPercent: trailing ? Math.round(trailing.distance! * 10000) / 100 : null,
+    trailingActivationPercent: trailing && trailing.activation ? Math.round(trailing.activation * 10000) / 100 : null,
+    maxHoldMinutes: maxHold ? parseFloat(maxHold[1]) * DURATION_MINUTES[maxHold[2].charAt(0).toLowerCase()] : null,
+  };
+}
+
+export const tradingProfileService = new TradingProfileService();
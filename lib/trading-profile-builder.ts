@@ -246,15 +246,21 @@ export class TradingProfileBuilder {
         ...timeConfig.indicators,
         ...customizations?.indicators
       },
-      holdingPeriod: timeConfig.holdingPeriod,
+      holdingPeriod: {
+        ...timeConfig.holdingPeriod,
+        ...customizations?.holdingPeriod
+      },
 
       // Risk appetite parameters (adjusted)
       maxPositionSize: customizations?.maxPositionSize || adjustedRiskParams.maxPositionSize,
-      maxTotalExposure: adjustedRiskParams.maxTotalExposure,
+      maxTotalExposure: customizations?.maxTotalExposure || adjustedRiskParams.maxTotalExposure,
       kellyMultiplier: adjustedRiskParams.kellyMultiplier,
       stopLoss: customizations?.stopLoss || adjustedRiskParams.stopLoss,
       takeProfit: customizations?.takeProfit || adjustedRiskParams.takeProfit,
-      trailingStop: adjustedRiskParams.trailingStop,
+      trailingStop: {
+        ...adjustedRiskParams.trailingStop,
+        ...customizations?.trailingStop
+      },
       maxLeverage: adjustedRiskParams.maxLeverage,
       minWinRate: adjustedRiskParams.minWinRate,
       minSharpeRatio: adjustedRiskParams.minSharpeRatio,
@@ -265,7 +271,10 @@ export class TradingProfileBuilder {
       preferredAssets: riskConfig.preferredAssets,
 
       // Special rules
-      specialRules
+      specialRules: {
+        ...specialRules,
+        ...customizations?.specialRules
+      }
     };
 
     return profile;
@@ -270,14 +270,51 @@ export interface UserTradingProfile {
 export interface CreateProfileInput {
   timeHorizon: TimeHorizon;
   riskAppetite: RiskAppetite;
-  customizations?: {
-    // Allow user to override specific parameters
-    executionInterval?: string;
-    stopLoss?: number;
-    takeProfit?: number;
-    maxPositionSize?: number;
-    indicators?: Partial<TimeHorizonConfig['indicators']>;
-  };
+  customizations?: ProfileOverrides;
+}
+
+// Allow user to override specific parameters (also stored with saved profiles)
+export interface ProfileOverrides {
+  executionInterval?: string;
+  stopLoss?: number;
+  takeProfit?: number;
+  maxPositionSize?: number;
+  maxTotalExposure?: number;
+  indicators?: Partial<TimeHorizonConfig['indicators']>;
+  holdingPeriod?: Partial<TimeHorizonConfig['holdingPeriod']>;
+  trailingStop?: Partial<RiskAppetiteConfig['trailingStop']>;
+  specialRules?: TradingProfile['specialRules'];
+}
+
+// ============================================================================
+// Saved Profiles
+// ============================================================================
+
+export interface SaveProfileInput {
+  name: string;
+  description?: string;
+  timeHorizon: TimeHorizon;
+  riskAppetite: RiskAppetite;
+  overrides?: ProfileOverrides;
+  changeNote?: string;          // Stored with the new version
+}
+
+// Profile settings a bot ran with (stored with each report)
+export interface AppliedProfileSnapshot {
+  profileId: string | null;     // Saved profile (null = built-in grid profile)
+  versionId: string | null;
+  version: number | null;
+  name: string;
+  timeHorizon: TimeHorizon;
+  riskAppetite: RiskAppetite;
+  stopLoss: number;             // % (e.g. 5 for 5%)
+  takeProfit: number;           // %
+  maxPositionSize: number;
+  maxTotalExposure: number;
+  maxLeverage: number;
+  trailingStop: RiskAppetiteConfig['trailingStop'];
+  holdingPeriod: TimeHorizonConfig['holdingPeriod'];
+  specialRules?: TradingProfile['specialRules'];
 }
 
 // ============================================================================
@@ -1,9 +1,38 @@
 /**
  * Order Execution Strategy for SWING Trading Bot
  * Optimized for 1-hour execution intervals with RSI-based signals
+ *
+ * Used by orderExecutionService for every live order (aiTradingService.executeLimitOrder).
  */
 
-import { Order, Position, Candle, OrderRequest, OrderSide, OrderType, TimeInForce } from '@alpacahq/alpaca-trade-api';
+// Alpaca-style shapes (only the fields the strategy reads)
+export interface Candle {
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v?: number;
+}
+
+export interface Position {
+  qty: string;
+  avg_entry_price: string;
+  created_at: string;
+}
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'market' | 'limit';
+export type TimeInForce = 'day' | 'gtc' | 'ioc' | 'fok';
+
+export interface OrderRequest {
+  symbol: string;
+  qty: number;
+  side: OrderSide;
+  type: OrderType;
+  time_in_force: TimeInForce;
+  limit_price?: number;
+  client_order_id: string;
+}
 
 export interface MarketConditions {
   volatility: number;      // ATR/Price ratio
@@ -20,6 +49,7 @@ export interface OrderExecutionParams {
   rsi: number;
   candles: Candle[];
   finalScore: number;      // AI confidence score (0-100)
+  quantity?: number;       // Shares to trade (default: $1000 allocation for buys, full position for sells)
   bidPrice?: number;        // Optional real bid price
   askPrice?: number;        // Optional real ask price
 }
@@ -96,6 +126,10 @@ export class SwingOrderExecutionStrategy {
    * Calculate current market volatility as ATR/Price ratio
    */
   private calculateVolatility(candles: Candle[], period: number = 14): number {
+    if (candles.length === 0) {
+      return 0;
+    }
+
     const atr = this.calculateATR(candles, period);
     const currentPrice = candles[candles.length - 1].c;
 
@@ -105,12 +139,16 @@ export class SwingOrderExecutionStrategy {
   /**
    * Estimate bid-ask spread from candle data
    */
-  private estimateSpread(candle: Candle, bidPrice?: number, askPrice?: number): number {
+  private estimateSpread(candle: Candle | undefined, bidPrice?: number, askPrice?: number): number {
     // Use actual bid-ask if available
     if (bidPrice && askPrice && askPrice > bidPrice) {
       return (askPrice - bidPrice) / ((askPrice + bidPrice) / 2);
     }
 
+    if (!candle || candle.c <= 0) {
+      return 0;
+    }
+
     // Otherwise estimate from high-low range
     const range = (candle.h - candle.l) / candle.c;
     return Math.min(range * 0.1, 0.001); // Cap at 0.1%
@@ -241,8 +279,8 @@ export class SwingOrderExecutionStrategy {
     // Set limit price with offset
     const limitPrice = referencePrice * (1 + dynamicOffset);
 
-    // Calculate position size (assuming $1000 allocation)
-    const positionSize = this.calculatePositionSize(1000, limitPrice);
+    // Calculate position size (assuming $1000 allocation unless the caller sized it)
+    const positionSize = params.quantity ?? this.calculatePositionSize(1000, limitPrice);
 
     console.log(`[BUY ORDER] Symbol: ${symbol}, Current: $${currentPrice.toFixed(2)}, ` +
                 `Limit: $${limitPrice.toFixed(2)}, Offset: ${(dynamicOffset * 100).toFixed(3)}%, ` +
@@ -269,6 +307,8 @@ export class SwingOrderExecutionStrategy {
       throw new Error('Position required for sell orders');
     }
 
+    const quantity = params.quantity ?? parseFloat(position.qty);
+
     // Determine exit reason
     const exitReason = this.determineExitReason(position, currentPrice);
 
@@ -281,7 +321,7 @@ export class SwingOrderExecutionStrategy {
 
       return {
         symbol,
-        qty: parseFloat(position.qty),
+        qty: quantity,
         side: 'sell' as OrderSide,
         type: 'market' as OrderType,
         time_in_force: 'day' as TimeInForce,
@@ -298,7 +338,7 @@ export class SwingOrderExecutionStrategy {
 
       return {
         symbol,
-        qty: parseFloat(position.qty),
+        qty: quantity,
         side: 'sell' as OrderSide,
         type: 'limit' as OrderType,
         time_in_force: 'gtc' as TimeInForce, // Good till cancelled for take profit
@@ -335,7 +375,7 @@ export class SwingOrderExecutionStrategy {
     // Use IOC for normal exits to ensure quick execution or cancellation
     return {
       symbol,
-      qty: parseFloat(position.qty),
+      qty: quantity,
       side: 'sell' as OrderSide,
       type: 'limit' as OrderType,
       time_in_force: 'ioc' as TimeInForce, // Immediate or cancel
@@ -370,6 +410,20 @@ export class SwingOrderExecutionStrategy {
     };
   }
 
+  /**
+   * How long a limit order may stay unfilled before it is repriced
+   */
+  public getLimitTimeout(action: 'BUY' | 'SELL'): number {
+    return action === 'BUY' ? this.ENTRY_RETRY_INTERVAL : this.EXIT_LIMIT_TIMEOUT;
+  }
+
+  /**
+   * Limit attempts before falling back to a market order
+   */
+  public getMaxLimitAttempts(): number {
+    return this.MAX_LIMIT_ATTEMPTS;
+  }
+
   /**
    * Get current execution metrics
    */
@@ -5,8 +5,9 @@
  */
 
 /**
- * 시그널 타입
+ * 기본 시그널 타입
  * 각 시그널은 특정 점수를 가지며, 여러 시그널의 조합으로 투자 기회를 평가
+ * 점수 설정(lib/utils/signalScoring.ts)에서 사용자 정의 타입을 추가할 수 있음
  */
 export type SignalType =
   | 'momentum'           // 모멘텀 종목 (+10점) - 거래량+가격+RSI 복합 신호
@@ -17,14 +18,19 @@ export type SignalType =
   | 'top_gainer'         // 급등주 (+2점)
   | 'stock_split'        // 주식 분할 (0점 - 제거 고려)
   | 'earnings_upcoming'  // 실적 발표 임박 (+1점)
-  | 'high_volume';       // 거래량 급증 (+0.5점)
+  | 'high_volume'        // 거래량 급증 (+0.5점)
+  | 'senate_purchase'    // 상원 의원 매수 공시 (동적 스코어링)
+  | 'senate_sale';       // 상원 의원 매도 공시 (동적 스코어링, 부정적 신호)
 
 /**
  * 개별 시그널 정보
  */
 export interface Signal {
-  /** 시그널 타입 */
-  type: SignalType;
+  /** 시그널 타입 (SignalType 또는 점수 설정의 사용자 정의 타입) */
+  type: string;
+
+  /** 표시 이름 (점수 설정의 label) */
+  label?: string;
 
   /** 시그널 점수 */
   score: number;
@@ -38,6 +44,9 @@ export interface Signal {
   /** 시그널 발생 날짜 (ISO 8601 형식) */
   date: string;
 
+  /** 점수 산출 근거 (동적 스코어링 시그널: 내부자 거래, 의원 거래) */
+  explanation?: string;
+
   /** 추가 메타데이터 (선택적) */
   metadata?: Record<string, any>;
 }
@@ -98,7 +107,8 @@ export interface InvestmentOpportunityResponse {
 }
 
 /**
- * 스코어링 설정 (퀀트 분석 기반 조정)
+ * 기본 스코어링 설정 (퀀트 분석 기반 조정)
+ * 실제 점수는 활성 점수 설정 버전(ScoringConfigVersion)을 따르며, 저장된 버전이 없으면 이 값을 사용
  * - insider_buying: 5 (신규 추가 - 가장 강력한 예측 시그널)
  * - high_volume: 1 → 0.5 (방향성 없음, 단독 의미 약함)
  * - stock_split: 1 → 0 (정보 가치 없음, cosmetic event)
@@ -113,6 +123,26 @@ export const SIGNAL_SCORES: Record<SignalType, number> = {
   stock_split: 0,           // 정보 가치 낮음
   earnings_upcoming: 1,     // 실적 발표 임박
   high_volume: 0.5,         // 방향성 없음, 단독 의미 약함
+  senate_purchase: 4,       // 동적 스코어링 (0.6-10.0) - 이 값은 사용 안 됨
+  senate_sale: -4,          // 의원 매도 - 부정적 신호 (동적 스코어링: -0.6~-10.0)
+};
+
+/**
+ * 시그널 타입별 Half-Life (일 단위)
+ * 시간이 지남에 따라 시그널의 가치가 감소하는 속도를 정의
+ */
+export const SIGNAL_HALF_LIFE_DAYS: Record<SignalType, number> = {
+  momentum: 5,                // 5일 (중단기 모멘텀)
+  insider_buying: 60,         // 2개월 (장기 신호)
+  insider_selling: 60,        // 2개월 (장기 부정 신호)
+  analyst_upgrade: 30,        // 1개월 후 50% 가치
+  merger_acquisition: 14,     // 2주 (빠르게 프라이싱됨)
+  top_gainer: 3,              // 3일 (단기 모멘텀)
+  stock_split: 21,            // 3주
+  earnings_upcoming: 7,       // 1주일
+  high_volume: 1,             // 당일만 유효
+  senate_purchase: 30,        // 1개월 (공시일 기준 - 거래일보다 최대 45일 늦음)
+  senate_sale: 30,            // 1개월 (공시일 기준)
 };
 
 /**
@@ -128,4 +158,17 @@ export const SIGNAL_DESCRIPTIONS: Record<SignalType, string> = {
   stock_split: 'Upcoming Stock Split',
   earnings_upcoming: 'Upcoming Earnings with Positive Outlook',
   high_volume: 'Most Active Trading Volume',
+  senate_purchase: 'Senate Purchase Disclosure',
+  senate_sale: 'Senate Sale Disclosure',
 };
+
+/**
+ * 점수 설정 미리보기의 투자 기회 (활성 설정 기준 순위와 비교)
+ */
+export interface ScoringPreviewOpportunity extends InvestmentOpportunity {
+  /** 활성 설정에서의 순위 (없으면 활성 설정에서는 시그널이 없던 종목) */
+  previousRank: number | null;
+
+  /** 활성 설정에서의 총 점수 */
+  previousScore: number | null;
+}
@@ -0,0 +1,52 @@
+/**
+ * Alpha Vantage Response Checks
+ *
+ * Alpha Vantage answers errors and throttling with HTTP 200 and a message body
+ * ("Error Message", "Note" or "Information") instead of the requested data.
+ * These checks throw on such payloads so the data gateway neither logs them as
+ * successful calls nor caches them.
+ *
+ * No database or API access.
+ */
+
+const MESSAGE_FIELDS = ['Error Message', 'Note', 'Information'];
+
+/**
+ * Throw if the payload is an Alpha Vantage error / rate limit message
+ */
+export function assertAlphaVantagePayload(data: any): void {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Alpha Vantage error: empty response');
+  }
+
+  for (const field of MESSAGE_FIELDS) {
+    if (data[field]) {
+      throw new Error(`Alpha Vantage error: ${data[field]}`);
+    }
+  }
+}
+
+/**
+ * Throw unless the payload is a GLOBAL_QUOTE response with a price
+ * (an unknown symbol returns an empty "Global Quote" object)
+ */
+export function assertGlobalQuote(data: any): void {
+  assertAlphaVantagePayload(data);
+
+  const quote = data['Global Quote'];
+  if (!quote || typeof quote !== 'object' || !quote['05. price']) {
+    throw new Error('Alpha Vantage error: no quote data received');
+  }
+}
+
+/**
+ * Throw unless the payload contains the requested time series (e.g. "Time Series (Daily)")
+ */
+export function assertTimeSeries(data: any, seriesKey: string): void {
+  assertAlphaVantagePayload(data);
+
+  const series = data[seriesKey];
+  if (!series || typeof series !== 'object' || Object.keys(series).length === 0) {
+    throw new Error(`Alpha Vantage error: no ${seriesKey} data received`);
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Congressional Trade Score Algorithm
+ *
+ * Scoring for senate / congressional stock trades (STOCK Act disclosures) based on:
+ * - Disclosed amount band (reports give ranges, not exact values)
+ * - Cluster: how many legislators traded the same ticker in the same direction
+ * - Disclosure lag (late filings carry stale information)
+ * - Committee relevance (legislator sits on a committee overseeing the company), when known
+ * - Time decay (handled separately)
+ *
+ * Research Foundation:
+ * - Ziobrowski et al. (2004): "Abnormal Returns from the Common Stock Investments of the U.S. Senate"
+ * - Eggers & Hainmueller (2013): "Capitol Losses: The Mediocre Performance of Congressional Stock Portfolios"
+ * - Belmont et al. (2022): "Do Senators and House Members Beat the Stock Market?"
+ */
+
+/**
+ * Congressional trade scoring parameters
+ */
+export interface CongressionalTradeParams {
+  /** Disclosed amount range (e.g., "$15,001 - $50,000", "Over $50,000,000") */
+  amount: string;
+
+  /** Transaction date (ISO format) */
+  transactionDate: string;
+
+  /** Date the transaction was disclosed */
+  disclosureDate: string;
+
+  /** Distinct legislators who traded the same ticker in the same direction (including this one) */
+  legislatorCount: number;
+
+  /** Legislator sits on a committee relevant to the company (undefined = unknown) */
+  committeeRelevant?: boolean;
+}
+
+/**
+ * Scoring configuration constants
+ */
+const SCORING_CONFIG = {
+  /** Base score before multipliers */
+  BASE_SCORE: 2,
+
+  /** Maximum total score (before time decay) */
+  MAX_SCORE: 10,
+
+  /** Amount band multipliers by band lower bound (STOCK Act reporting ranges) */
+  AMOUNT_BANDS: [
+    { min: 1000001, multiplier: 2.5, label: 'Over $1M' },
+    { min: 500001, multiplier: 2.2, label: '$500K-$1M' },
+    { min: 250001, multiplier: 1.9, label: '$250K-$500K' },
+    { min: 100001, multiplier: 1.6, label: '$100K-$250K' },
+    { min: 50001, multiplier: 1.3, label: '$50K-$100K' },
+    { min: 15001, multiplier: 1.0, label: '$15K-$50K' },
+    { min: 0, multiplier: 0.6, label: 'Under $15K' },
+  ],
+
+  /** Each additional legislator on the same ticker adds 25% (caps at 2x) */
+  CLUSTER_STEP: 0.25,
+  MAX_CLUSTER_MULTIPLIER: 2.0,
+
+  /** Disclosure lag thresholds (days, STOCK Act deadline is 45) */
+  LAG_THRESHOLDS: {
+    FAST: { maxDays: 15, multiplier: 1.2 },
+    NORMAL: { maxDays: 30, multiplier: 1.0 },
+    SLOW: { maxDays: 45, multiplier: 0.8 },
+    LATE: { maxDays: Infinity, multiplier: 0.6 },
+  },
+
+  /** Committee relevance multiplier */
+  COMMITTEE_MULTIPLIER: 1.3,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculate congressional trade score
+ *
+ * @param params - Congressional trade parameters
+ * @returns Calculated score (0.6-10 range, before time decay)
+ *
+ * @example
+ * ```typescript
+ * const score = calculateCongressionalTradeScore({
+ *   amount: "$100,001 - $250,000",
+ *   transactionDate: "2025-01-02",
+ *   disclosureDate: "2025-01-12",
+ *   legislatorCount: 2,
+ * });
+ * // Returns 4.8 (2 * 1.6 size * 1.25 cluster * 1.2 fast disclosure)
+ * ```
+ */
+export function calculateCongressionalTradeScore(params: CongressionalTradeParams): number {
+  const rawScore =
+    SCORING_CONFIG.BASE_SCORE *
+    calculateAmountMultiplier(params.amount) *
+    calculateClusterMultiplier(params.legislatorCount) *
+    calculateLagMultiplier(disclosureLagDays(params.transactionDate, params.disclosureDate)) *
+    calculateCommitteeMultiplier(params.committeeRelevant);
+
+  const finalScore = Math.min(rawScore, SCORING_CONFIG.MAX_SCORE);
+
+  return Math.round(finalScore * 100) / 100; // Round to 2 decimals
+}
+
+/**
+ * Lower bound of a disclosed amount range ("$15,001 - $50,000" → 15001, "Over $50,000,000" → 50000000)
+ * Returns null when no dollar figure can be read
+ */
+export function parseAmountLowerBound(amount: string): number | null {
+  const match = (amount || '').replace(/,/g, '').match(/\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Direction of a disclosed trade from the raw FMP type ("Purchase", "Sale (Full)", "Sale (Partial)", "Exchange")
+ * Anything that is neither a purchase nor a sale is reported as an exchange (not scored)
+ */
+export function normalizeCongressionalTransactionType(type: string): 'purchase' | 'sale' | 'exchange' {
+  const normalized = (type || '').trim().toLowerCase();
+  if (normalized.indexOf('purchase') === 0) return 'purchase';
+  if (normalized.indexOf('sale') === 0) return 'sale';
+  return 'exchange';
+}
+
+/**
+ * Days between the trade and its disclosure (null when either date is missing)
+ */
+export function disclosureLagDays(transactionDate: string, disclosureDate: string): number | null {
+  const traded = new Date(transactionDate).getTime();
+  const disclosed = new Date(disclosureDate).getTime();
+  if (isNaN(traded) || isNaN(disclosed)) return null;
+
+  return Math.max(0, Math.round((disclosed - traded) / DAY_MS));
+}
+
+function amountBand(amount: string) {
+  const lowerBound = parseAmountLowerBound(amount);
+  if (lowerBound === null) return null;
+
+  return SCORING_CONFIG.AMOUNT_BANDS.filter(band => lowerBound >= band.min)[0];
+}
+
+/**
+ * Amount band multiplier - unreadable amounts count as the smallest common band ($15K-$50K)
+ */
+function calculateAmountMultiplier(amount: string): number {
+  const band = amountBand(amount);
+  return band ? band.multiplier : 1.0;
+}
+
+/**
+ * Cluster multiplier - several legislators buying the same ticker is a stronger signal
+ */
+function calculateClusterMultiplier(legislatorCount: number): number {
+  const additional = Math.max(legislatorCount - 1, 0);
+  return Math.min(1 + additional * SCORING_CONFIG.CLUSTER_STEP, SCORING_CONFIG.MAX_CLUSTER_MULTIPLIER);
+}
+
+/**
+ * Disclosure lag multiplier - unknown lag is treated as normal
+ */
+function calculateLagMultiplier(lagDays: number | null): number {
+  if (lagDays === null) return SCORING_CONFIG.LAG_THRESHOLDS.NORMAL.multiplier;
+
+  const { FAST, NORMAL, SLOW, LATE } = SCORING_CONFIG.LAG_THRESHOLDS;
+  if (lagDays <= FAST.maxDays) return FAST.multiplier;
+  if (lagDays <= NORMAL.maxDays) return NORMAL.multiplier;
+  if (lagDays <= SLOW.maxDays) return SLOW.multiplier;
+  return LATE.multiplier;
+}
+
+function calculateCommitteeMultiplier(committeeRelevant?: boolean): number {
+  return committeeRelevant ? SCORING_CONFIG.COMMITTEE_MULTIPLIER : 1.0;
+}
+
+/**
+ * Get human-readable explanation of score components
+ * Shown next to the signal in the investment opportunity card
+ */
+export function explainCongressionalTradeScore(
+  params: CongressionalTradeParams
+): {
+  finalScore: number;
+  breakdown: {
+    amountMultiplier: number;
+    clusterMultiplier: number;
+    lagDays: number | null;
+    lagMultiplier: number;
+    committeeMultiplier: number;
+    explanation: string;
+  };
+} {
+  const amountMultiplier = calculateAmountMultiplier(params.amount);
+  const clusterMultiplier = calculateClusterMultiplier(params.legislatorCount);
+  const lagDays = disclosureLagDays(params.transactionDate, params.disclosureDate);
+  const lagMultiplier = calculateLagMultiplier(lagDays);
+  const committeeMultiplier = calculateCommitteeMultiplier(params.committeeRelevant);
+
+  const finalScore = calculateCongressionalTradeScore(params);
+
+  const explanation = `
+Amount: ${params.amount || 'Unknown'}
+Size Multiplier: ${amountMultiplier.toFixed(2)}x (${getAmountCategory(params.amount)})
+Cluster Multiplier: ${clusterMultiplier.toFixed(2)}x (${params.legislatorCount} legislator${params.legislatorCount > 1 ? 's' : ''})
+Disclosure Lag Multiplier: ${lagMultiplier.toFixed(2)}x (${getLagCategory(lagDays)})
+Committee Multiplier: ${committeeMultiplier.toFixed(2)}x (${getCommitteeCategory(params.committeeRelevant)})
+Final Score: ${finalScore.toFixed(2)} points
+  `.trim();
+
+  return {
+    finalScore,
+    breakdown: {
+      amountMultiplier,
+      clusterMultiplier,
+      lagDays,
+      lagMultiplier,
+      committeeMultiplier,
+      explanation,
+    },
+  };
+}
+
+// Helper formatting functions
+function getAmountCategory(amount: string): string {
+  const band = amountBand(amount);
+  return band ? band.label : 'Unknown amount';
+}
+
+function getLagCategory(lagDays: number | null): string {
+  if (lagDays === null) return 'Unknown lag';
+
+  const { FAST, NORMAL, SLOW } = SCORING_CONFIG.LAG_THRESHOLDS;
+  if (lagDays <= FAST.maxDays) return `Fast (${lagDays} days)`;
+  if (lagDays <= NORMAL.maxDays) return `Normal (${lagDays} days)`;
+  if (lagDays <= SLOW.maxDays) return `Slow (${lagDays} days)`;
+  return `Late filing (${lagDays} days)`;
+}
+
+function getCommitteeCategory(committeeRelevant?: boolean): string {
+  if (committeeRelevant === undefined) return 'No committee data';
+  return committeeRelevant ? 'Relevant committee' : 'No relevant committee';
+}
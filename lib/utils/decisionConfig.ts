@@ -0,0 +1,91 @@
+/**
+ * Decision Config
+ *
+ * Per-strategy settings for the unified trade decision (Strategy.decisionConfig):
+ * - Components: news sentiment, social sentiment, analyst ratings and the GPT adjustment can be switched off
+ * - Objective score weights (sentiment / technical, social share of the sentiment weight)
+ * - Final score thresholds for the target position and the GPT adjustment cap
+ *
+ * Missing fields fall back to AI_TRADING (lib/config/trading.ts), so `{}` is the default decision.
+ * No database or API access.
+ */
+
+import { z } from 'zod';
+import { AI_TRADING } from '@/lib/config/trading';
+
+const WEIGHT_EPSILON = 1e-6;
+
+export const DecisionComponentsSchema = z.object({
+  news: z.boolean().default(true),      // Alpha Vantage 뉴스 감성
+  social: z.boolean().default(true),    // FMP 소셜 감성 (StockTwits, Twitter)
+  analyst: z.boolean().default(true),   // 애널리스트 레이팅 (GPT 프롬프트)
+  gpt: z.boolean().default(true),       // GPT 조정값 (끄면 객관적 점수만 사용)
+});
+
+export const DecisionWeightsSchema = z.object({
+  sentiment: z.number().min(0).max(1).default(AI_TRADING.OBJECTIVE_WEIGHTS.SENTIMENT),
+  technical: z.number().min(0).max(1).default(AI_TRADING.OBJECTIVE_WEIGHTS.TECHNICAL),
+  socialShare: z.number().min(0).max(1).default(AI_TRADING.OBJECTIVE_WEIGHTS.SOCIAL_SHARE),
+})
+  .refine(weights => Math.abs(weights.sentiment + weights.technical - 1) < WEIGHT_EPSILON, {
+    message: 'sentiment and technical weights must add up to 1',
+  })
+  .refine(weights => weights.socialShare <= weights.sentiment, {
+    message: 'socialShare cannot exceed the sentiment weight',
+    path: ['socialShare'],
+  });
+
+export const DecisionThresholdsSchema = z.object({
+  buy: z.number().min(0).max(1).default(AI_TRADING.DECISION_THRESHOLDS.BUY),
+  strongBuy: z.number().min(0).max(1).default(AI_TRADING.DECISION_THRESHOLDS.STRONG_BUY),
+  veryStrongBuy: z.number().min(0).max(1).default(AI_TRADING.DECISION_THRESHOLDS.VERY_STRONG_BUY),
+  sell: z.number().min(-1).max(0).default(AI_TRADING.DECISION_THRESHOLDS.SELL),
+})
+  .refine(thresholds => thresholds.buy <= thresholds.strongBuy && thresholds.strongBuy <= thresholds.veryStrongBuy, {
+    message: 'thresholds must be ordered buy <= strongBuy <= veryStrongBuy',
+  });
+
+export const DecisionConfigSchema = z.object({
+  components: DecisionComponentsSchema.default({}),
+  weights: DecisionWeightsSchema.default({}),
+  thresholds: DecisionThresholdsSchema.default({}),
+  maxGptAdjustment: z.number().min(0).max(1).default(AI_TRADING.GPT_ADJUSTMENT.MAX),
+});
+
+export type DecisionConfig = z.infer<typeof DecisionConfigSchema>;
+export type DecisionConfigInput = z.input<typeof DecisionConfigSchema>;
+
+export const DEFAULT_DECISION_CONFIG: DecisionConfig = DecisionConfigSchema.parse({});
+
+/**
+ * Decision config stored on a strategy (null / missing = defaults)
+ * Stored values are validated on write; an invalid legacy value falls back to the defaults.
+ */
+export function resolveDecisionConfig(raw: unknown): DecisionConfig {
+  if (raw === null || raw === undefined) return DEFAULT_DECISION_CONFIG;
+
+  const parsed = DecisionConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.warn('⚠️ 잘못된 decisionConfig - 기본 판단 설정 사용:', parsed.error.errors.map(e => e.message).join(', '));
+    return DEFAULT_DECISION_CONFIG;
+  }
+  return parsed.data;
+}
+
+/**
+ * Short label for logs and reports (e.g. "technical only, no GPT")
+ */
+export function describeDecisionConfig(config: DecisionConfig): string {
+  const { components } = config;
+  const sources = [
+    components.news ? 'news' : null,
+    components.social ? 'social' : null,
+    components.analyst ? 'analyst' : null,
+  ].filter(Boolean);
+
+  return [
+    sources.length > 0 ? `technical + ${sources.join(' + ')}` : 'technical only',
+    components.gpt ? `GPT ±${config.maxGptAdjustment}` : 'no GPT',
+    `buy ≥ ${config.thresholds.buy}, sell ≤ ${config.thresholds.sell}`,
+  ].join(', ');
+}
@@ -14,6 +14,7 @@ import {
   FMPNewsData,
 } from '@/lib/types/fmpNews';
 import { secDocumentSummaryService } from '@/lib/services/secDocumentSummaryService';
+import type { AIProvider } from '@/lib/services/aiProviders';
 
 // ========================================
 // Type Definitions
@@ -41,14 +42,16 @@ type InsiderSignal = 'STRONG_BUY' | 'BUY' | 'SELL' | 'STRONG_SELL' | 'NEUTRAL';
 
 /**
  * Parse all FMP data into a structured format for GPT
+ * provider: AI provider for SEC filing summaries (default: AI_PROVIDER or OpenAI)
  */
-export async function parseFMPDataForGPT(data: FMPNewsData, symbol: string): Promise<ParsedFMPData> {
+export async function parseFMPDataForGPT(data: FMPNewsData, symbol: string, provider?: AIProvider): Promise<ParsedFMPData> {
   const criticalEvents = await parseCriticalEvents(
     data.secFilings,
     data.insiderTrades,
     data.stockNews,
     data.pressReleases,
-    symbol
+    symbol,
+    provider
   );
   const insiderSignals = parseInsiderSignals(data.insiderTrades);
   const recentNews = parseRecentNews(data.stockNews, data.pressReleases);
@@ -85,7 +88,8 @@ async function parseCriticalEvents(
   insiderTrades: FMPInsiderTrade[],
   stockNews: FMPStockNews[],
   pressReleases: FMPPressRelease[],
-  symbol: string
+  symbol: string,
+  provider?: AIProvider
 ): Promise<string> {
   const events: string[] = [];
 
@@ -120,7 +124,8 @@ async function parseCriticalEvents(
             filing.link,
             symbol,
             filing.type,
-            filingDate
+            filingDate,
+            provider
           );
 
           if (secSummary) {
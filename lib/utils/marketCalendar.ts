@@ -0,0 +1,155 @@
+/**
+ * US Equity Market Calendar
+ *
+ * NYSE regular sessions in US/Eastern:
+ * - Trading days skip weekends and NYSE full-day holidays (observed dates)
+ * - Early closes (day after Thanksgiving, Christmas Eve) count as normal sessions
+ *
+ * Dates are YYYY-MM-DD strings of the US/Eastern calendar date.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MARKET_OPEN_MINUTES = 9 * 60 + 30;
+const MARKET_CLOSE_MINUTES = 16 * 60;
+
+const holidayCache = new Map<number, string[]>();
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDateString(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+// n-th weekday of a month (n = -1 for the last one)
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n < 0) {
+    const last = utcDate(year, month + 1, 0);
+    return utcDate(year, month, last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+  }
+
+  const first = utcDate(year, month, 1);
+  return utcDate(year, month, 1 + ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+}
+
+// Saturday holidays are observed on Friday, Sunday holidays on Monday
+function observed(date: Date): Date {
+  const weekday = date.getUTCDay();
+  if (weekday === 6) return new Date(date.getTime() - DAY_MS);
+  if (weekday === 0) return new Date(date.getTime() + DAY_MS);
+  return date;
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month - 1, day);
+}
+
+/**
+ * NYSE full-day holidays of a year (observed dates, YYYY-MM-DD)
+ */
+export function getMarketHolidays(year: number): string[] {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays: Date[] = [
+    nthWeekday(year, 0, 1, 3),                                   // Martin Luther King Jr. Day
+    nthWeekday(year, 1, 1, 3),                                   // Washington's Birthday
+    new Date(easterSunday(year).getTime() - 2 * DAY_MS),         // Good Friday
+    nthWeekday(year, 4, 1, -1),                                  // Memorial Day
+    observed(utcDate(year, 6, 4)),                               // Independence Day
+    nthWeekday(year, 8, 1, 1),                                   // Labor Day
+    nthWeekday(year, 10, 4, 4),                                  // Thanksgiving
+    observed(utcDate(year, 11, 25)),                             // Christmas
+  ];
+
+  // New Year's Day on a Saturday is not observed on the previous Friday (NYSE rule)
+  const newYear = utcDate(year, 0, 1);
+  if (newYear.getUTCDay() !== 6) holidays.push(observed(newYear));
+
+  if (year >= 2022) {
+    holidays.push(observed(utcDate(year, 5, 19)));               // Juneteenth
+  }
+
+  const result = holidays.map(toDateString).sort();
+  holidayCache.set(year, result);
+  return result;
+}
+
+/**
+ * Whether the (US/Eastern) date has a regular session
+ */
+export function isTradingDay(date: string): boolean {
+  const weekday = parseDateString(date).getUTCDay();
+  if (weekday === 0 || weekday === 6) return false;
+
+  return getMarketHolidays(parseInt(date.slice(0, 4), 10)).indexOf(date) === -1;
+}
+
+/**
+ * Trading day before the given date
+ */
+export function previousTradingDay(date: string): string {
+  let day = parseDateString(date);
+  do {
+    day = new Date(day.getTime() - DAY_MS);
+  } while (!isTradingDay(toDateString(day)));
+
+  return toDateString(day);
+}
+
+/**
+ * Wall-clock parts of a moment in US/Eastern
+ */
+export function getEasternClock(now: Date): { date: string; minutes: number } {
+  const eastern = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  return {
+    date: toDateString(utcDate(eastern.getFullYear(), eastern.getMonth(), eastern.getDate())),
+    minutes: eastern.getHours() * 60 + eastern.getMinutes(),
+  };
+}
+
+/**
+ * Midnight US/Eastern of the current day as a UTC instant (daily limits reset here, not at server midnight)
+ */
+export function getEasternDayStart(now: Date): Date {
+  const midnightUtc = parseDateString(getEasternClock(now).date);
+  const eastern = new Date(midnightUtc.toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  const utc = new Date(midnightUtc.toLocaleString('en-US', { timeZone: 'UTC' }));
+  return new Date(midnightUtc.getTime() + (utc.getTime() - eastern.getTime()));
+}
+
+/**
+ * Most recent trading date with a completed session (before today's close the previous one)
+ */
+export function getLatestSessionDate(now: Date): string {
+  const { date, minutes } = getEasternClock(now);
+  return isTradingDay(date) && minutes >= MARKET_CLOSE_MINUTES ? date : previousTradingDay(date);
+}
+
+/**
+ * Whether the regular session is open right now
+ */
+export function isMarketOpen(now: Date): boolean {
+  const { date, minutes } = getEasternClock(now);
+  return isTradingDay(date) && minutes >= MARKET_OPEN_MINUTES && minutes < MARKET_CLOSE_MINUTES;
+}
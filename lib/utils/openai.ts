@@ -1,17 +1,11 @@
 /**
  * OpenAI Client Configuration
  *
- * OpenAI API를 사용하기 위한 설정 및 헬퍼 함수
+ * 텍스트 생성 헬퍼 함수 - 실제 호출은 AI 제공자(lib/services/aiProviders)가 처리
+ * AI_PROVIDER=rule-based이면 LLM 없이 결정적 출력을 반환
  */
 
-import OpenAI from 'openai';
-
-/**
- * OpenAI 클라이언트 인스턴스
- */
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { AIProvider, getAIProvider } from '@/lib/services/aiProviders';
 
 /**
  * GPT 모델 타입
@@ -34,6 +28,7 @@ export interface OpenAICallOptions {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  provider?: AIProvider;  // 없으면 전역 설정 (AI_PROVIDER, 기본 OpenAI)
 }
 
 /**
@@ -48,28 +43,17 @@ export async function generateText(
     temperature = 0.7,
     maxTokens = 500,
     systemPrompt,
+    provider = getAIProvider(),
   } = options;
 
-  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-
-  if (systemPrompt) {
-    messages.push({
-      role: 'system',
-      content: systemPrompt,
-    });
-  }
-
-  messages.push({
-    role: 'user',
-    content: prompt,
-  });
-
-  const response = await openai.chat.completions.create({
+  const completion = await provider.complete({
+    task: 'text',
+    prompt,
+    systemPrompt,
     model,
-    messages,
     temperature,
-    max_tokens: maxTokens,
+    maxTokens,
   });
 
-  return response.choices[0]?.message?.content || '';
+  return completion.text;
 }
@@ -0,0 +1,225 @@
+/**
+ * Position Ledger
+ *
+ * Pure helpers for bot-scoped positions:
+ * - Rebuilds a bot's position and trade stats from its own fills (average cost)
+ * - Maps Alpaca order state to a Trade status and the quantity/price actually filled
+ * - Compares summed bot positions with the broker's account-wide positions
+ *
+ * No database or API access - used by positionReconciliationService.
+ */
+
+export interface LedgerFill {
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  executedAt: Date;
+}
+
+export interface LedgerPosition {
+  quantity: number;
+  avgEntryPrice: number;
+  totalCost: number;
+  realizedPL: number;
+  realizedCash: number;   // 매도 체결 금액 합계
+  fillCount: number;
+  closedTrades: number;   // 포지션을 줄인 매도 체결 수
+  winningTrades: number;  // 그 중 실현 손익 > 0
+}
+
+export type TradeFillStatus = 'PENDING' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'EXPIRED' | 'FAILED';
+
+export interface BrokerOrderFill {
+  brokerStatus: string;
+  status: TradeFillStatus;
+  filledQuantity: number;
+  filledAvgPrice: number | null;
+  isFinal: boolean;
+}
+
+export interface BotPositionQuantity {
+  botId: string;
+  symbol: string;
+  quantity: number;
+}
+
+export interface BrokerPositionQuantity {
+  symbol: string;
+  qty: number;
+}
+
+export interface PositionMismatch {
+  symbol: string;
+  botQuantity: number;      // 봇 포지션 합계
+  brokerQuantity: number;   // Alpaca 계좌 포지션
+  difference: number;       // brokerQuantity - botQuantity
+  botIds: string[];
+}
+
+// Alpaca order states that will not change anymore
+const FINAL_ORDER_STATUSES = ['filled', 'canceled', 'expired', 'rejected', 'done_for_day', 'replaced'];
+
+// Trade statuses whose order may still fill (EXECUTED = submitted before fill tracking)
+export const OPEN_TRADE_STATUSES = ['EXECUTED', 'PENDING', 'PARTIALLY_FILLED'];
+
+const QUANTITY_EPSILON = 1e-6;
+
+/**
+ * Average-cost position from a bot's fills (oldest first)
+ * Sells beyond the held quantity are clipped - bots never open shorts.
+ */
+export function rebuildPositionFromFills(fills: LedgerFill[]): LedgerPosition {
+  const ordered = fills.slice().sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime());
+
+  let quantity = 0;
+  let totalCost = 0;
+  let realizedPL = 0;
+  let realizedCash = 0;
+  let fillCount = 0;
+  let closedTrades = 0;
+  let winningTrades = 0;
+
+  ordered.forEach(fill => {
+    if (fill.quantity <= 0) return;
+    fillCount++;
+
+    if (fill.side === 'BUY') {
+      quantity += fill.quantity;
+      totalCost += fill.quantity * fill.price;
+      return;
+    }
+
+    const sellQuantity = Math.min(fill.quantity, quantity);
+    if (sellQuantity <= 0) return;
+
+    const avgEntryPrice = totalCost / quantity;
+    const tradePL = (fill.price - avgEntryPrice) * sellQuantity;
+    realizedPL += tradePL;
+    realizedCash += fill.price * sellQuantity;
+    closedTrades++;
+    if (tradePL > 0) winningTrades++;
+    quantity -= sellQuantity;
+    totalCost = quantity > QUANTITY_EPSILON ? avgEntryPrice * quantity : 0;
+    if (quantity <= QUANTITY_EPSILON) quantity = 0;
+  });
+
+  return {
+    quantity,
+    avgEntryPrice: quantity > 0 ? totalCost / quantity : 0,
+    totalCost,
+    realizedPL,
+    realizedCash,
+    fillCount,
+    closedTrades,
+    winningTrades,
+  };
+}
+
+/**
+ * Fill state of an Alpaca order (raw API response)
+ */
+export function parseBrokerOrder(order: any): BrokerOrderFill {
+  const brokerStatus = String(order?.status || 'unknown');
+  const filledQuantity = parseFloat(order?.filled_qty || '0') || 0;
+  const filledAvgPrice = order?.filled_avg_price ? parseFloat(order.filled_avg_price) : null;
+
+  return {
+    brokerStatus,
+    status: mapOrderStatus(brokerStatus, filledQuantity),
+    filledQuantity,
+    filledAvgPrice: filledAvgPrice && filledAvgPrice > 0 ? filledAvgPrice : null,
+    isFinal: FINAL_ORDER_STATUSES.indexOf(brokerStatus) !== -1,
+  };
+}
+
+/**
+ * Trade status for an Alpaca order status
+ */
+export function mapOrderStatus(brokerStatus: string, filledQuantity: number): TradeFillStatus {
+  switch (brokerStatus) {
+    case 'filled':
+      return 'FILLED';
+    case 'partially_filled':
+      return 'PARTIALLY_FILLED';
+    case 'canceled':
+    case 'done_for_day':
+    case 'replaced':
+      return 'CANCELED';
+    case 'expired':
+      return 'EXPIRED';
+    case 'rejected':
+      return 'FAILED';
+    default:
+      // new, accepted, pending_new, ... (filled_qty can only be 0 here)
+      return filledQuantity > 0 ? 'PARTIALLY_FILLED' : 'PENDING';
+  }
+}
+
+/**
+ * Quantity and price a trade actually filled
+ * - Synced with Alpaca: the reported fill (0 for open or canceled orders without fills)
+ * - Legacy EXECUTED rows never synced: the submitted quantity at the limit price
+ */
+export function effectiveFill(trade: {
+  status: string;
+  quantity: number;
+  price: number;
+  filledQuantity: number | null;
+  filledAvgPrice: number | null;
+}): { quantity: number; price: number } {
+  if (trade.status === 'FAILED') {
+    return { quantity: 0, price: trade.price };
+  }
+
+  if (trade.filledQuantity !== null) {
+    return {
+      quantity: trade.filledQuantity,
+      price: trade.filledAvgPrice ?? trade.price,
+    };
+  }
+
+  if (trade.status === 'EXECUTED' || trade.status === 'FILLED') {
+    return { quantity: trade.quantity, price: trade.price };
+  }
+
+  return { quantity: 0, price: trade.price };
+}
+
+/**
+ * Symbols where the summed bot positions differ from the broker position
+ */
+export function comparePositions(
+  botPositions: BotPositionQuantity[],
+  brokerPositions: BrokerPositionQuantity[],
+  tolerance: number = QUANTITY_EPSILON
+): PositionMismatch[] {
+  const bySymbol: Record<string, { botQuantity: number; brokerQuantity: number; botIds: string[] }> = {};
+  const entry = (symbol: string) =>
+    (bySymbol[symbol] = bySymbol[symbol] || { botQuantity: 0, brokerQuantity: 0, botIds: [] });
+
+  botPositions.forEach(position => {
+    const row = entry(position.symbol);
+    row.botQuantity += position.quantity;
+    if (position.quantity !== 0 && row.botIds.indexOf(position.botId) === -1) {
+      row.botIds.push(position.botId);
+    }
+  });
+
+  brokerPositions.forEach(position => {
+    entry(position.symbol).brokerQuantity += position.qty;
+  });
+
+  return Object.keys(bySymbol)
+    .sort()
+    .map(symbol => {
+      const row = bySymbol[symbol];
+      return {
+        symbol,
+        botQuantity: row.botQuantity,
+        brokerQuantity: row.brokerQuantity,
+        difference: row.brokerQuantity - row.botQuantity,
+        botIds: row.botIds,
+      };
+    })
+    .filter(mismatch => Math.abs(mismatch.difference) > tolerance);
+}
@@ -0,0 +1,238 @@
+/**
+ * Position Scaling
+ *
+ * Staged exits and entries for a single position:
+ * - Partial take-profit levels (ExitConditions.takeProfit.partialLevels, or the profile's partialProfits rule)
+ * - Stop raised to breakeven once profit has been taken on part of the position
+ * - Staged entries: a new position buys one tranche, later tranches are added on pullbacks
+ *   (entryConditions.scaleIn, or the profile's pyramiding rule)
+ *
+ * Scaling state is rebuilt from fills, so live bots (Trade rows) and backtests
+ * (VirtualPortfolioEngine) follow the same rules. No database or API access.
+ */
+
+import { ExitConditions, ScaleInConditions } from './strategyConditions';
+import { PreparedStrategy } from './strategyEngine';
+import type { TradingProfile } from '@/lib/trading-profile-types';
+
+export interface ScaleOutLevel {
+  percentage: number;   // gain over the average entry price (5 = +5%)
+  exitPercent: number;  // share of the full position sold at this level (capped at what is left)
+}
+
+export interface ScaleInPlan {
+  tranches: number;         // entries including the first one
+  pullbackPercent: number;  // drop below the last entry price that adds the next tranche
+}
+
+export interface ScalingPlan {
+  scaleOut: ScaleOutLevel[];  // ascending by percentage (empty = all-or-nothing exits)
+  scaleIn: ScaleInPlan | null;
+}
+
+export interface ScalingFill {
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  executedAt: Date;
+}
+
+/**
+ * Fills of the current position (since the bot was last flat)
+ */
+export interface ScalingState {
+  entries: number;              // buy fills
+  firstEntryQuantity: number;   // size of the first tranche (later tranches buy the same)
+  lastEntryPrice: number;
+  peakQuantity: number;         // largest size held
+  profitTakenQuantity: number;  // shares sold above the average cost
+  openedAt: Date;               // first buy of the current position (holding period)
+}
+
+export interface ScaleAction {
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  step: number;   // 1-based level (SELL) or tranche (BUY)
+  reason: string;
+}
+
+export const DEFAULT_SCALE_IN: ScaleInPlan = { tranches: 3, pullbackPercent: 2 };
+
+const QUANTITY_EPSILON = 1e-6;
+
+/**
+ * Scaling rules for a strategy (the strategy's own settings win over the profile's special rules)
+ */
+export function resolveScalingPlan(
+  strategy: PreparedStrategy,
+  specialRules?: TradingProfile['specialRules']
+): ScalingPlan {
+  const takeProfit = strategy.isNewExitFormat ? (strategy.exit as ExitConditions).takeProfit : undefined;
+  let scaleOut: ScaleOutLevel[] = [];
+
+  if (takeProfit?.partialTakingEnabled && takeProfit.partialLevels && takeProfit.partialLevels.length > 0) {
+    scaleOut = takeProfit.partialLevels
+      .filter(level => level.percentage > 0 && level.exitPercent > 0)
+      .map(level => ({ percentage: level.percentage, exitPercent: level.exitPercent }));
+  } else if (specialRules?.partialProfits) {
+    // Same defaults as the strategy wizard: half at half the target, the rest at the target
+    scaleOut = [
+      { percentage: strategy.takeProfitPercent / 2, exitPercent: 50 },
+      { percentage: strategy.takeProfitPercent, exitPercent: 100 },
+    ];
+  }
+  scaleOut.sort((a, b) => a.percentage - b.percentage);
+
+  let scaleIn: ScaleInPlan | null = null;
+  if (strategy.scaleIn) {
+    scaleIn = strategy.scaleIn.enabled ? normalizeScaleIn(strategy.scaleIn) : null;
+  } else if (specialRules?.pyramiding) {
+    scaleIn = DEFAULT_SCALE_IN;
+  }
+
+  return { scaleOut, scaleIn };
+}
+
+function normalizeScaleIn(config: ScaleInConditions): ScaleInPlan | null {
+  const tranches = Math.floor(config.tranches || DEFAULT_SCALE_IN.tranches);
+  if (tranches < 2) return null;
+
+  return {
+    tranches,
+    pullbackPercent: config.pullbackPercent > 0 ? config.pullbackPercent : DEFAULT_SCALE_IN.pullbackPercent,
+  };
+}
+
+export function hasScaling(plan: ScalingPlan): boolean {
+  return plan.scaleOut.length > 0 || plan.scaleIn !== null;
+}
+
+/**
+ * Scaling state of the open position from a bot's fills (null when flat)
+ */
+export function scalingStateFromFills(fills: ScalingFill[]): ScalingState | null {
+  const ordered = fills.slice().sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime());
+
+  let state: ScalingState | null = null;
+  let quantity = 0;
+  let totalCost = 0;
+
+  ordered.forEach(fill => {
+    if (fill.quantity <= 0) return;
+
+    if (fill.side === 'BUY') {
+      state = state
+        ? { ...state, entries: state.entries + 1, lastEntryPrice: fill.price }
+        : {
+            entries: 1,
+            firstEntryQuantity: fill.quantity,
+            lastEntryPrice: fill.price,
+            peakQuantity: 0,
+            profitTakenQuantity: 0,
+            openedAt: fill.executedAt,
+          };
+      quantity += fill.quantity;
+      totalCost += fill.quantity * fill.price;
+      state.peakQuantity = Math.max(state.peakQuantity, quantity);
+      return;
+    }
+
+    const sellQuantity = Math.min(fill.quantity, quantity);
+    if (!state || sellQuantity <= 0) return;
+
+    const avgEntryPrice = totalCost / quantity;
+    if (fill.price > avgEntryPrice) {
+      state = { ...state, profitTakenQuantity: state.profitTakenQuantity + sellQuantity };
+    }
+    quantity -= sellQuantity;
+    totalCost = avgEntryPrice * quantity;
+
+    // Flat again → the next buy opens a new position
+    if (quantity <= QUANTITY_EPSILON) {
+      state = null;
+      quantity = 0;
+      totalCost = 0;
+    }
+  });
+
+  return state;
+}
+
+/**
+ * Quantity for a new position: one tranche of the full size when entries are staged
+ */
+export function initialEntryQuantity(plan: ScalingPlan, fullQuantity: number): number {
+  if (!plan.scaleIn || fullQuantity <= 0) return fullQuantity;
+  return Math.max(1, Math.floor(fullQuantity / plan.scaleIn.tranches));
+}
+
+/**
+ * Partial take-profit due at `price` (shares still owed to every level reached)
+ */
+export function planScaleOut(
+  plan: ScalingPlan,
+  state: ScalingState,
+  position: { quantity: number; avgEntryPrice: number },
+  price: number
+): ScaleAction | null {
+  if (plan.scaleOut.length === 0 || position.quantity <= 0 || position.avgEntryPrice <= 0) return null;
+
+  const gainPercent = (price / position.avgEntryPrice - 1) * 100;
+  let cumulativePercent = 0;
+  let reached = 0;
+
+  plan.scaleOut.forEach((level, index) => {
+    if (gainPercent >= level.percentage) {
+      cumulativePercent += level.exitPercent;
+      reached = index + 1;
+    }
+  });
+  if (reached === 0) return null;
+
+  const targetQuantity = Math.min(
+    state.peakQuantity,
+    Math.floor((Math.min(100, cumulativePercent) / 100) * state.peakQuantity + QUANTITY_EPSILON)
+  );
+  const quantity = Math.min(position.quantity, targetQuantity - state.profitTakenQuantity);
+  if (quantity <= QUANTITY_EPSILON) return null;
+
+  const level = plan.scaleOut[reached - 1];
+  return {
+    side: 'SELL',
+    quantity,
+    step: reached,
+    reason: `Partial take profit ${reached}/${plan.scaleOut.length} (+${level.percentage}%): ` +
+      `${quantity} of ${position.quantity} shares`,
+  };
+}
+
+/**
+ * Next staged entry due at `price` (no adds once profit has been taken)
+ */
+export function planScaleIn(plan: ScalingPlan, state: ScalingState, price: number): ScaleAction | null {
+  if (!plan.scaleIn || state.entries >= plan.scaleIn.tranches || state.profitTakenQuantity > 0) return null;
+
+  const triggerPrice = state.lastEntryPrice * (1 - plan.scaleIn.pullbackPercent / 100);
+  if (price > triggerPrice) return null;
+
+  const tranche = state.entries + 1;
+  return {
+    side: 'BUY',
+    quantity: state.firstEntryQuantity,
+    step: tranche,
+    reason: `Scale-in tranche ${tranche}/${plan.scaleIn.tranches} ` +
+      `(-${plan.scaleIn.pullbackPercent}% from $${state.lastEntryPrice.toFixed(2)})`,
+  };
+}
+
+/**
+ * Stop floor for the rest of the position (average entry once profit has been taken)
+ */
+export function breakevenStopPrice(
+  plan: ScalingPlan,
+  state: ScalingState | null,
+  avgEntryPrice: number
+): number | null {
+  if (plan.scaleOut.length === 0 || !state || state.profitTakenQuantity <= 0 || avgEntryPrice <= 0) return null;
+  return avgEntryPrice;
+}
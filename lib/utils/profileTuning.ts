@@ -0,0 +1,218 @@
+/**
+ * Profile Tuning
+ *
+ * Pure helpers for adaptive profile tuning:
+ * - Realized PerformanceMetrics from a bot's fills (average cost, same as positionLedger)
+ * - MarketState from daily index bars (realized volatility, trend, volume)
+ * - Stop-loss / position size / exposure changes proposed by ProfileAdjuster
+ *
+ * Ratios are fractions like the TradingProfile fields they are compared with
+ * (winRate 0.55 = 55%, maxDrawdown 0.12 = 12%). No database or API access.
+ */
+
+import { ProfileAdjuster } from '@/lib/trading-profile-builder';
+import {
+  TradingProfile,
+  PerformanceMetrics,
+  MarketState,
+  ProfileAdjustment,
+} from '@/lib/trading-profile-types';
+import type { LedgerFill } from './positionLedger';
+
+export interface RealizedPerformance extends PerformanceMetrics {
+  closedTrades: number;   // 포지션을 줄인 매도 체결 수 (since 이후)
+}
+
+export interface IndexBar {
+  close: number;
+  volume: number;
+}
+
+// Profile values the tuning job may change
+export const TUNABLE_PARAMETERS = ['stopLoss', 'maxPositionSize', 'maxTotalExposure'] as const;
+export type TunableParameter = typeof TUNABLE_PARAMETERS[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_BARS = 21;
+const NO_LOSS_PROFIT_FACTOR = 999;   // 손실 거래가 없을 때
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - avg, 2), 0) / (values.length - 1));
+}
+
+/**
+ * Realized performance of a bot's closed trades.
+ * Fills before `since` still build the average cost, but only later sells are counted.
+ */
+export function computePerformanceMetrics(fills: LedgerFill[], capital: number, since?: Date | null): RealizedPerformance {
+  const ordered = fills.slice().sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime());
+
+  let quantity = 0;
+  let totalCost = 0;
+  let openedAt: Date | null = null;
+  const returns: number[] = [];
+  const holdingDays: number[] = [];
+  let grossProfit = 0;
+  let grossLoss = 0;
+  let equity = capital;
+  let peak = capital;
+  let maxDrawdown = 0;
+  let firstSellAt: Date | null = null;
+  let lastSellAt: Date | null = null;
+
+  for (const fill of ordered) {
+    if (fill.quantity <= 0) continue;
+
+    if (fill.side === 'BUY') {
+      if (quantity === 0) openedAt = fill.executedAt;
+      quantity += fill.quantity;
+      totalCost += fill.quantity * fill.price;
+      continue;
+    }
+
+    const sellQuantity = Math.min(fill.quantity, quantity);
+    if (sellQuantity <= 0) continue;
+
+    const avgEntryPrice = totalCost / quantity;
+    const entryAt = openedAt;
+    quantity -= sellQuantity;
+    totalCost = quantity > 1e-6 ? avgEntryPrice * quantity : 0;
+    if (quantity <= 1e-6) {
+      quantity = 0;
+      openedAt = null;
+    }
+
+    if (since && fill.executedAt < since) continue;
+
+    const tradePL = (fill.price - avgEntryPrice) * sellQuantity;
+    returns.push((fill.price - avgEntryPrice) / avgEntryPrice);
+    if (entryAt) holdingDays.push((fill.executedAt.getTime() - entryAt.getTime()) / DAY_MS);
+    if (tradePL > 0) grossProfit += tradePL;
+    else grossLoss -= tradePL;
+
+    equity += tradePL;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - equity) / peak : 0);
+
+    firstSellAt = firstSellAt || fill.executedAt;
+    lastSellAt = fill.executedAt;
+  }
+
+  // 연율화: 실제 거래 빈도 기준 (기간은 최소 30일로 계산)
+  const spanDays = firstSellAt && lastSellAt
+    ? Math.max((lastSellAt.getTime() - firstSellAt.getTime()) / DAY_MS, 30)
+    : 30;
+  const tradesPerYear = returns.length / (spanDays / 365);
+  const returnStdDev = stdDev(returns);
+  const realizedPL = grossProfit - grossLoss;
+
+  return {
+    winRate: returns.length > 0 ? returns.filter(value => value > 0).length / returns.length : 0,
+    sharpeRatio: returnStdDev > 0 ? (mean(returns) / returnStdDev) * Math.sqrt(tradesPerYear) : 0,
+    maxDrawdown,
+    avgReturn: mean(returns),
+    totalReturn: capital > 0 ? realizedPL / capital : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : (grossProfit > 0 ? NO_LOSS_PROFIT_FACTOR : 0),
+    avgHoldingPeriod: `${mean(holdingDays).toFixed(1)} days`,
+    closedTrades: returns.length,
+  };
+}
+
+/**
+ * Market state from daily index bars (oldest first). Null with fewer than 21 bars.
+ * volatility = annualized 20-day realized volatility in % (VIX-like scale)
+ */
+export function computeMarketState(bars: IndexBar[]): MarketState | null {
+  if (bars.length < MIN_BARS) {
+    return null;
+  }
+
+  const closes = bars.map(bar => bar.close);
+  const recent = closes.slice(-MIN_BARS);
+  const dailyReturns = recent.slice(1).map((close, index) => close / recent[index] - 1);
+  const volatility = stdDev(dailyReturns) * Math.sqrt(252) * 100;
+
+  const last = closes[closes.length - 1];
+  const sma20 = mean(closes.slice(-20));
+  const sma50 = mean(closes.slice(-50));
+  const return20 = last / recent[0] - 1;
+
+  let trend: MarketState['trend'] = 'neutral';
+  if (last > sma20 && sma20 > sma50 && return20 > 0.05) {
+    trend = 'strong_bull';
+  } else if (last < sma20 && sma20 < sma50 && return20 < -0.05) {
+    trend = 'strong_bear';
+  } else if (last > sma50 * 1.01) {
+    trend = 'weak_bull';
+  } else if (last < sma50 * 0.99) {
+    trend = 'weak_bear';
+  }
+
+  const avgVolume = mean(bars.slice(-20).map(bar => bar.volume));
+  const volumeRatio = avgVolume > 0 ? bars[bars.length - 1].volume / avgVolume : 1;
+
+  return {
+    volatility: Math.round(volatility * 100) / 100,
+    trend,
+    volume: volumeRatio > 1.5 ? 'high' : volumeRatio < 0.67 ? 'low' : 'normal',
+    correlations: {},
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Changes ProfileAdjuster proposes for the tunable parameters (empty = keep the profile)
+ */
+export function proposeProfileChanges(
+  profile: TradingProfile,
+  performance: RealizedPerformance,
+  marketState: MarketState | null,
+  timestamp: Date = new Date()
+): ProfileAdjustment[] {
+  // 어드저스터가 trailingStop을 직접 수정하므로 복사본 사용
+  const base = { ...profile, trailingStop: { ...profile.trailingStop } };
+  const afterPerformance = ProfileAdjuster.adjustFromPerformance(base, performance);
+  const afterMarket = marketState
+    ? ProfileAdjuster.adjustForMarket({ ...afterPerformance, trailingStop: { ...afterPerformance.trailingStop } }, marketState)
+    : afterPerformance;
+
+  const performanceReason =
+    `performance: win rate ${(performance.winRate * 100).toFixed(0)}%, Sharpe ${performance.sharpeRatio.toFixed(2)}, ` +
+    `max drawdown ${(performance.maxDrawdown * 100).toFixed(1)}% over ${performance.closedTrades} trades`;
+  const marketReason = marketState
+    ? `market: volatility ${marketState.volatility.toFixed(1)}, trend ${marketState.trend}`
+    : '';
+
+  const changes: ProfileAdjustment[] = [];
+  TUNABLE_PARAMETERS.forEach(parameter => {
+    const oldValue = profile[parameter];
+    const newValue = round(afterMarket[parameter]);
+    if (Math.abs(newValue - oldValue) < 1e-6) return;
+
+    const reasons: string[] = [];
+    if (Math.abs(afterPerformance[parameter] - oldValue) > 1e-9) reasons.push(performanceReason);
+    if (Math.abs(afterMarket[parameter] - afterPerformance[parameter]) > 1e-9) reasons.push(marketReason);
+
+    changes.push({ parameter, oldValue, newValue, reason: reasons.join('; '), timestamp });
+  });
+
+  return changes;
+}
+
+/**
+ * True if every change stays within ±maxChange of its current value (auto-apply bound)
+ */
+export function isWithinAutoApplyBounds(changes: ProfileAdjustment[], maxChange: number): boolean {
+  return changes.every(change =>
+    change.oldValue > 0 && Math.abs(change.newValue - change.oldValue) / change.oldValue <= maxChange + 1e-9
+  );
+}
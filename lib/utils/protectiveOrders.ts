@@ -0,0 +1,136 @@
+/**
+ * Protective Orders
+ *
+ * Broker-side exit orders shared by live trading, the simulated broker and the backtester:
+ * - Levels from the strategy's exit conditions (same stop / target / trailing rules as evaluateExitConditions)
+ * - Bar-by-bar fill model for stop, take-profit (OCO pair) and trailing stop legs
+ *
+ * With a trailing stop the position is protected by the trailing order alone: brokers hold the
+ * shares for each sell order, so a take-profit leg cannot sit next to it (the bot still takes profit
+ * on its own run). Prices are absolute, trailPercent is a percentage (3 = 3%).
+ * No database or API access.
+ */
+
+import { ExitConditions } from './strategyConditions';
+import { PreparedStrategy, StrategyBar, resolveExitLevels } from './strategyEngine';
+
+export type ProtectiveLegType = 'TAKE_PROFIT' | 'STOP_LOSS' | 'TRAILING_STOP';
+
+export const PROTECTIVE_LEG_LABELS: Record<ProtectiveLegType, string> = {
+  TAKE_PROFIT: 'Take Profit',
+  STOP_LOSS: 'Stop Loss',
+  TRAILING_STOP: 'Trailing Stop',
+};
+
+export interface ProtectionLevels {
+  stopPrice: number | null;        // fixed stop (null with a trailing stop or an invalid level)
+  takeProfitPrice: number | null;  // take-profit limit (null with a trailing stop or an invalid level)
+  trailPercent: number | null;
+}
+
+export interface ProtectiveOrderState extends ProtectionLevels {
+  highWaterMark: number;           // trailing stop reference (highest high since the legs went live)
+}
+
+export interface ProtectiveFill {
+  leg: ProtectiveLegType;
+  price: number;
+}
+
+export interface ProtectiveBar {
+  open: number;
+  high: number;
+  low: number;
+}
+
+// Alpaca price rules: 2 decimals at $1 and above, 4 below
+export function roundOrderPrice(price: number): number {
+  return price >= 1 ? parseFloat(price.toFixed(2)) : parseFloat(price.toFixed(4));
+}
+
+/**
+ * Protective levels for a position entered at `entryPrice`
+ * Levels on the wrong side of the entry (fixed prices already crossed) are dropped.
+ * A trailing stop with an activation level keeps the fixed stop / target until `peakPrice` reaches it.
+ */
+export function resolveProtectionLevels(
+  strategy: PreparedStrategy,
+  entryPrice: number,
+  bars?: StrategyBar[],
+  peakPrice: number = entryPrice
+): ProtectionLevels {
+  const exit = strategy.isNewExitFormat ? (strategy.exit as ExitConditions) : {};
+  const levels = resolveExitLevels(exit, entryPrice, strategy, [], bars);
+  const trailingArmed = levels.trailingActivationPrice === null || peakPrice >= levels.trailingActivationPrice;
+
+  if (levels.trailingDistance !== null && levels.trailingDistance > 0 && trailingArmed) {
+    return { stopPrice: null, takeProfitPrice: null, trailPercent: levels.trailingDistance };
+  }
+
+  const stopPrice = roundOrderPrice(levels.stopPrice);
+  const takeProfitPrice = roundOrderPrice(levels.targetPrice);
+
+  return {
+    stopPrice: stopPrice > 0 && stopPrice < entryPrice ? stopPrice : null,
+    takeProfitPrice: takeProfitPrice > entryPrice ? takeProfitPrice : null,
+    trailPercent: null,
+  };
+}
+
+/**
+ * Raise a fixed stop to `breakevenPrice` after a partial take-profit (trailing stops already ratchet up)
+ */
+export function raiseStopToBreakeven<T extends ProtectionLevels>(levels: T, breakevenPrice: number | null): T {
+  if (breakevenPrice === null || levels.trailPercent !== null) return levels;
+
+  const stopPrice = roundOrderPrice(breakevenPrice);
+  return levels.stopPrice === null || stopPrice > levels.stopPrice ? { ...levels, stopPrice } : levels;
+}
+
+export function hasProtection(levels: ProtectionLevels): boolean {
+  return levels.stopPrice !== null || levels.takeProfitPrice !== null || levels.trailPercent !== null;
+}
+
+/**
+ * Live legs for a position just entered at `entryPrice` (null when the strategy sets no usable level)
+ */
+export function openProtection(levels: ProtectionLevels, entryPrice: number): ProtectiveOrderState | null {
+  return hasProtection(levels) ? { ...levels, highWaterMark: entryPrice } : null;
+}
+
+/**
+ * Current stop trigger (trailing: highWaterMark - trailPercent)
+ */
+export function currentStopPrice(state: ProtectiveOrderState): number | null {
+  if (state.trailPercent !== null) {
+    return state.highWaterMark * (1 - state.trailPercent / 100);
+  }
+  return state.stopPrice;
+}
+
+/**
+ * Which leg a bar fills, if any (the other legs are cancelled - one-cancels-other)
+ * - Gaps through a level fill at the open
+ * - A bar touching both levels fills the stop (worst case)
+ * - Trailing stops trigger against the high-water mark before this bar; update it with advanceHighWaterMark()
+ */
+export function checkProtectiveFill(state: ProtectiveOrderState, bar: ProtectiveBar): ProtectiveFill | null {
+  const stop = currentStopPrice(state);
+  const stopLeg: ProtectiveLegType = state.trailPercent !== null ? 'TRAILING_STOP' : 'STOP_LOSS';
+  const target = state.takeProfitPrice;
+
+  if (stop !== null && bar.open <= stop) return { leg: stopLeg, price: bar.open };
+  if (target !== null && bar.open >= target) return { leg: 'TAKE_PROFIT', price: bar.open };
+  if (stop !== null && bar.low <= stop) return { leg: stopLeg, price: stop };
+  if (target !== null && bar.high >= target) return { leg: 'TAKE_PROFIT', price: target };
+
+  return null;
+}
+
+export function describeProtectiveFill(fill: ProtectiveFill): string {
+  return `${PROTECTIVE_LEG_LABELS[fill.leg]} order filled @ $${fill.price.toFixed(2)}`;
+}
+
+export function advanceHighWaterMark(state: ProtectiveOrderState, bar: ProtectiveBar): ProtectiveOrderState {
+  return bar.high > state.highWaterMark ? { ...state, highWaterMark: bar.high } : state;
+}
@@ -0,0 +1,66 @@
+/**
+ * Provider Fixture Utilities
+ *
+ * File layout for recorded provider responses (lib/services/providerFixtureService.ts).
+ * One JSON file per gateway request key:
+ *   <fixture dir>/<provider>/<endpoint slug>-<key hash>.json
+ * The slug keeps the files readable, the hash keeps params apart (AAPL vs TSLA).
+ */
+
+import { createHash } from 'crypto';
+
+export type ProviderFixtureMode = 'off' | 'record' | 'replay';
+
+export interface ProviderFixture<T = unknown> {
+  key: string;                                        // gateway cache key (provider:endpoint?params)
+  provider: string;
+  endpoint: string;
+  params: Record<string, string | number>;
+  recordedAt: string;                                 // ISO
+  payload: T;
+}
+
+const MAX_SLUG_LENGTH = 60;
+
+/**
+ * Short stable hash for keys and long inputs (prompts)
+ */
+export function contentDigest(text: string, length: number = 16): string {
+  return createHash('sha256').update(text).digest('hex').substring(0, length);
+}
+
+/**
+ * Endpoint → file-name-safe slug ("/v3/profile/AAPL" → "v3-profile-AAPL")
+ */
+export function endpointSlug(endpoint: string): string {
+  const slug = endpoint
+    .replace(/[^a-zA-Z0-9_]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, MAX_SLUG_LENGTH);
+  return slug || 'root';
+}
+
+/**
+ * Fixture path relative to the fixture directory
+ */
+export function fixturePath(provider: string, endpoint: string, key: string): string {
+  return `${provider}/${endpointSlug(endpoint)}-${contentDigest(key, 12)}.json`;
+}
+
+/**
+ * Params without undefined values (as stored in the fixture file)
+ */
+export function definedParams(
+  params: Record<string, string | number | undefined> = {}
+): Record<string, string | number> {
+  const result: Record<string, string | number> = {};
+  Object.keys(params)
+    .sort()
+    .forEach(name => {
+      const value = params[name];
+      if (value !== undefined) {
+        result[name] = value;
+      }
+    });
+  return result;
+}
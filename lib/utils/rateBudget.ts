@@ -0,0 +1,80 @@
+/**
+ * Rate Budget
+ *
+ * Per-minute and daily budget checks for external data providers (dataGatewayService):
+ * - perMinute: sliding one-minute window over the calls in ProviderApiLog
+ * - perDay: calls per UTC day, counted from ProviderApiLog
+ * - Priorities: lower priorities may only use a share of each budget, so the rest
+ *   stays available for bot execution
+ *
+ * Both windows are counted from the shared usage log, so every server instance
+ * sees the same budget. No database or API access here.
+ */
+
+export type RequestPriority = 'BOT_EXECUTION' | 'BACKGROUND' | 'DASHBOARD';
+
+export interface ProviderBudget {
+  perMinute: number | null;
+  perDay: number | null;
+}
+
+export type BudgetDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'minute' | 'day'; retryAfterMs: number };
+
+export interface BudgetCheckInput {
+  budget: ProviderBudget;
+  recentCalls: number[]; // epoch ms of the calls in the last minute (all instances)
+  usedToday: number;
+  share: number; // PRIORITY_SHARES[priority]
+  now: number;
+}
+
+/**
+ * Length of the per-minute window (the gateway loads the calls made within it)
+ */
+export const MINUTE_WINDOW_MS = 60 * 1000;
+
+/**
+ * Milliseconds until the next UTC midnight (daily budgets reset then)
+ */
+export function msUntilUtcMidnight(now: number): number {
+  const date = new Date(now);
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  return midnight - now;
+}
+
+/**
+ * Whether a request with the given priority share may call the provider now
+ *
+ * A priority with share s may only call while fewer than s × perMinute calls were made
+ * in the last minute, and may only use floor(s × perDay) calls per day.
+ */
+export function checkBudget(input: BudgetCheckInput): BudgetDecision {
+  const { budget, usedToday, share, now } = input;
+
+  if (budget.perDay !== null) {
+    const allowance = Math.floor(budget.perDay * share);
+    if (usedToday >= allowance) {
+      return { allowed: false, reason: 'day', retryAfterMs: msUntilUtcMidnight(now) };
+    }
+  }
+
+  if (budget.perMinute !== null) {
+    const window = input.recentCalls
+      .filter(timestamp => timestamp > now - MINUTE_WINDOW_MS)
+      .sort((a, b) => a - b);
+    const allowance = Math.ceil(budget.perMinute * share);
+    if (window.length >= allowance) {
+      // 허용량 아래로 내려가려면 가장 오래된 (초과분 + 1)건이 창을 벗어나야 함
+      const expiring = window[window.length - allowance];
+      return {
+        allowed: false,
+        reason: 'minute',
+        retryAfterMs: Math.max(1, expiring + MINUTE_WINDOW_MS - now),
+      };
+    }
+  }
+
+  return { allowed: true };
+}
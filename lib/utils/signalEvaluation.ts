@@ -0,0 +1,314 @@
+/**
+ * Signal Evaluation
+ *
+ * Pure helpers for back-testing the investment opportunity scoring:
+ * - Forward returns of a snapshot from daily closes (N trading days after the snapshot date)
+ * - Per signal type and score bucket: average return, excess return over the same day's
+ *   opportunities, hit rate and t-stat of the excess return
+ * - A signal event (symbol, type, signal date) is counted once, on the first snapshot that
+ *   carried it - it stays in the daily snapshots until it decays
+ * - Verdict per signal type: did it predict returns in the direction of its weight?
+ *
+ * Returns are fractions (0.02 = +2%). No database or API access.
+ */
+
+export interface DailyClose {
+  date: string;   // YYYY-MM-DD
+  close: number;
+}
+
+export interface ForwardReturns {
+  baseClose: number;
+  returns: Record<number, number | null>;  // horizon (trading days) -> return, null = not yet available
+}
+
+export interface EvaluatedOpportunity {
+  snapshotDate: string;                    // YYYY-MM-DD
+  symbol: string;
+  totalScore: number;
+  returns: Record<number, number | null>;
+  signals: Array<{ type: string; score: number; signalDate: string }>;   // signalDate: YYYY-MM-DD
+}
+
+export interface ReturnStats {
+  count: number;
+  avgReturn: number;
+  avgExcessReturn: number;   // 같은 날 스냅샷 전체 평균 대비
+  hitRate: number;           // 수익률 > 0 비율
+  tStat: number;             // 초과 수익률 평균의 t 통계량
+}
+
+export interface BucketStats {
+  bucket: string;            // "<0", "0-2", "2-5", "10+"
+  horizons: Record<number, ReturnStats>;
+}
+
+/**
+ * predictive: returns followed the sign of the weight, inverse: the opposite,
+ * no_edge: not significant, insufficient_data: fewer than minSamples observations
+ */
+export type SignalVerdict = 'predictive' | 'inverse' | 'no_edge' | 'insufficient_data';
+
+export interface SignalTypePerformance {
+  type: string;
+  currentScore: number | null;   // SIGNAL_SCORES 현재 가중치
+  observations: number;          // 시그널 이벤트 수 - 같은 이벤트는 처음 잡힌 스냅샷 1건, 같은 기회의 같은 타입은 1건
+  horizons: Record<number, ReturnStats>;
+  verdict: SignalVerdict;
+  buckets: BucketStats[];        // 시그널 점수 구간별
+}
+
+export interface SignalPerformanceReport {
+  primaryHorizon: number;
+  opportunities: number;
+  snapshotDays: number;
+  signalTypes: SignalTypePerformance[];
+  totalScoreBuckets: BucketStats[];   // 기회 총점 구간별 (종합 스코어 검증)
+}
+
+export interface SignalEvaluationOptions {
+  horizons: readonly number[];
+  primaryHorizon: number;
+  scoreBuckets: readonly number[];
+  totalScoreBuckets: readonly number[];
+  minSamples: number;
+  minTStat: number;
+  currentScores: Record<string, number>;
+}
+
+interface Observation {
+  snapshotDate: string;
+  score: number;
+  returns: Record<number, number | null>;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - avg, 2), 0) / (values.length - 1));
+}
+
+/**
+ * Returns from the last close on or before the snapshot date to the close N bars later
+ */
+export function computeForwardReturns(
+  bars: DailyClose[],
+  snapshotDate: string,
+  horizons: readonly number[]
+): ForwardReturns | null {
+  const ordered = bars.slice().sort((a, b) => a.date.localeCompare(b.date));
+
+  let baseIndex = -1;
+  ordered.forEach((bar, index) => {
+    if (bar.date <= snapshotDate) {
+      baseIndex = index;
+    }
+  });
+  if (baseIndex < 0 || ordered[baseIndex].close <= 0) {
+    return null;
+  }
+
+  const baseClose = ordered[baseIndex].close;
+  const returns: Record<number, number | null> = {};
+  horizons.forEach(horizon => {
+    const target = ordered[baseIndex + horizon];
+    returns[horizon] = target ? target.close / baseClose - 1 : null;
+  });
+
+  return { baseClose, returns };
+}
+
+/**
+ * Bucket label for a score ("<0" below the first edge, "10+" from the last edge)
+ */
+export function scoreBucket(score: number, edges: readonly number[]): string {
+  if (score < edges[0]) {
+    return `<${edges[0]}`;
+  }
+  for (let i = edges.length - 1; i >= 0; i--) {
+    if (score >= edges[i]) {
+      return i === edges.length - 1 ? `${edges[i]}+` : `${edges[i]}-${edges[i + 1]}`;
+    }
+  }
+  return `<${edges[0]}`;
+}
+
+/**
+ * Average return per snapshot date and horizon (the benchmark for excess returns)
+ */
+function dailyAverages(
+  opportunities: EvaluatedOpportunity[],
+  horizons: readonly number[]
+): Map<string, Record<number, number>> {
+  const grouped = new Map<string, EvaluatedOpportunity[]>();
+  opportunities.forEach(opportunity => {
+    const list = grouped.get(opportunity.snapshotDate) || [];
+    list.push(opportunity);
+    grouped.set(opportunity.snapshotDate, list);
+  });
+
+  const averages = new Map<string, Record<number, number>>();
+  grouped.forEach((list, date) => {
+    const byHorizon: Record<number, number> = {};
+    horizons.forEach(horizon => {
+      const values = list
+        .map(opportunity => opportunity.returns[horizon])
+        .filter((value): value is number => value !== null && value !== undefined);
+      byHorizon[horizon] = mean(values);
+    });
+    averages.set(date, byHorizon);
+  });
+  return averages;
+}
+
+function returnStats(
+  observations: Observation[],
+  horizon: number,
+  averages: Map<string, Record<number, number>>
+): ReturnStats {
+  const returns: number[] = [];
+  const excess: number[] = [];
+  observations.forEach(observation => {
+    const value = observation.returns[horizon];
+    if (value === null || value === undefined) return;
+    returns.push(value);
+    excess.push(value - (averages.get(observation.snapshotDate)?.[horizon] ?? 0));
+  });
+
+  const deviation = stdDev(excess);
+  return {
+    count: returns.length,
+    avgReturn: mean(returns),
+    avgExcessReturn: mean(excess),
+    hitRate: returns.length > 0 ? returns.filter(value => value > 0).length / returns.length : 0,
+    tStat: deviation > 0 ? mean(excess) / (deviation / Math.sqrt(excess.length)) : 0,
+  };
+}
+
+function statsByHorizon(
+  observations: Observation[],
+  horizons: readonly number[],
+  averages: Map<string, Record<number, number>>
+): Record<number, ReturnStats> {
+  const result: Record<number, ReturnStats> = {};
+  horizons.forEach(horizon => {
+    result[horizon] = returnStats(observations, horizon, averages);
+  });
+  return result;
+}
+
+function bucketStats(
+  observations: Observation[],
+  edges: readonly number[],
+  horizons: readonly number[],
+  averages: Map<string, Record<number, number>>
+): BucketStats[] {
+  const labels = [`<${edges[0]}`].concat(edges.map(edge => scoreBucket(edge, edges)));
+  return labels
+    .map(bucket => ({
+      bucket,
+      horizons: statsByHorizon(
+        observations.filter(observation => scoreBucket(observation.score, edges) === bucket),
+        horizons,
+        averages
+      ),
+    }))
+    .filter(stats => horizons.some(horizon => stats.horizons[horizon].count > 0));
+}
+
+/**
+ * Verdict on the primary horizon, in the direction of the current weight
+ * (a negative-weight signal like insider_selling is predictive when its excess return is negative)
+ */
+export function signalVerdict(
+  stats: ReturnStats,
+  currentScore: number | null,
+  minSamples: number,
+  minTStat: number
+): SignalVerdict {
+  if (stats.count < minSamples) {
+    return 'insufficient_data';
+  }
+  const edge = currentScore !== null && currentScore < 0 ? -stats.tStat : stats.tStat;
+  if (edge >= minTStat) return 'predictive';
+  if (edge <= -minTStat) return 'inverse';
+  return 'no_edge';
+}
+
+const VERDICT_ORDER: SignalVerdict[] = ['predictive', 'inverse', 'no_edge', 'insufficient_data'];
+
+function signalEventKey(symbol: string, signal: { type: string; signalDate: string }): string {
+  return `${symbol}|${signal.type}|${signal.signalDate}`;
+}
+
+/**
+ * Signal type / score bucket performance of evaluated opportunities
+ */
+export function summarizeSignalPerformance(
+  opportunities: EvaluatedOpportunity[],
+  options: SignalEvaluationOptions
+): SignalPerformanceReport {
+  const averages = dailyAverages(opportunities, options.horizons);
+
+  // 같은 이벤트(종목, 타입, 시그널 날짜)는 감쇠될 때까지 매일 스냅샷에 남음 → 처음 잡힌 날만 관측
+  // 같은 기회의 같은 타입 새 시그널은 1건으로 (가장 강한 점수)
+  const seenEvents: Record<string, boolean> = {};
+  const chronological = opportunities.slice().sort((a, b) => a.snapshotDate.localeCompare(b.snapshotDate));
+  const byType = new Map<string, Observation[]>();
+  chronological.forEach(opportunity => {
+    const newSignals = opportunity.signals.filter(signal => !seenEvents[signalEventKey(opportunity.symbol, signal)]);
+    newSignals.forEach(signal => {
+      seenEvents[signalEventKey(opportunity.symbol, signal)] = true;
+    });
+
+    const strongest = new Map<string, number>();
+    newSignals.forEach(signal => {
+      const existing = strongest.get(signal.type);
+      if (existing === undefined || Math.abs(signal.score) > Math.abs(existing)) {
+        strongest.set(signal.type, signal.score);
+      }
+    });
+    strongest.forEach((score, type) => {
+      const list = byType.get(type) || [];
+      list.push({ snapshotDate: opportunity.snapshotDate, score, returns: opportunity.returns });
+      byType.set(type, list);
+    });
+  });
+
+  const signalTypes: SignalTypePerformance[] = [];
+  byType.forEach((observations, type) => {
+    const currentScore = type in options.currentScores ? options.currentScores[type] : null;
+    const horizons = statsByHorizon(observations, options.horizons, averages);
+    signalTypes.push({
+      type,
+      currentScore,
+      observations: observations.length,
+      horizons,
+      verdict: signalVerdict(horizons[options.primaryHorizon], currentScore, options.minSamples, options.minTStat),
+      buckets: bucketStats(observations, options.scoreBuckets, options.horizons, averages),
+    });
+  });
+
+  signalTypes.sort((a, b) =>
+    VERDICT_ORDER.indexOf(a.verdict) - VERDICT_ORDER.indexOf(b.verdict) ||
+    Math.abs(b.horizons[options.primaryHorizon].tStat) - Math.abs(a.horizons[options.primaryHorizon].tStat)
+  );
+
+  const totalScoreObservations = opportunities.map(opportunity => ({
+    snapshotDate: opportunity.snapshotDate,
+    score: opportunity.totalScore,
+    returns: opportunity.returns,
+  }));
+
+  return {
+    primaryHorizon: options.primaryHorizon,
+    opportunities: opportunities.length,
+    snapshotDays: averages.size,
+    signalTypes,
+    totalScoreBuckets: bucketStats(totalScoreObservations, options.totalScoreBuckets, options.horizons, averages),
+  };
+}
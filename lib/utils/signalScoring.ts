@@ -0,0 +1,257 @@
+/**
+ * Signal Scoring
+ *
+ * Editable scoring rules for investment opportunities (versioned as ScoringConfigVersion):
+ * - Signal rules per type: market event source, base score, half-life, per-type cap, on/off.
+ *   Custom types reuse a source with their own parameters (e.g. senate purchases).
+ * - Duplicate penalties for repeated signals of one type, diversity and combination bonuses
+ * - Analyst grade keywords that count as a buy / upgrade
+ * - Committee tickers per legislator for congressional trade scoring
+ *
+ * Missing fields fall back to the built-in constants (lib/types/investmentOpportunity.ts),
+ * so `{}` reproduces the default scoring. No database or API access.
+ */
+
+import { z } from 'zod';
+import {
+  Signal,
+  SignalType,
+  SIGNAL_DESCRIPTIONS,
+  SIGNAL_HALF_LIFE_DAYS,
+  SIGNAL_SCORES,
+} from '@/lib/types/investmentOpportunity';
+
+/**
+ * Market event feeds a signal rule can score
+ */
+export const SIGNAL_SOURCES = [
+  'analystRatings',       // Buy / 업그레이드 레이팅 (analyst.buyKeywords, analyst.gradeOrder)
+  'mergersAcquisitions',
+  'topGainers',           // 상위 30개
+  'stockSplits',          // 향후 30일 이내
+  'upcomingEarnings',     // 향후 7일 이내 + EPS 추정치 > 0
+  'mostActive',           // 상위 30개
+  'insiderBuying',        // 동적 점수 (calculateInsiderBuyingScore)
+  'insiderSelling',       // 동적 점수 (매수와 같은 알고리즘)
+  'momentum',             // momentumScreenerService
+  'senatePurchases',      // 동적 점수 (calculateCongressionalTradeScore)
+  'senateSales',          // 동적 점수 (매수와 같은 알고리즘)
+] as const;
+
+export type SignalSource = typeof SIGNAL_SOURCES[number];
+
+/**
+ * Sources whose events carry their own score - the rule score multiplies it (1 = as is, -1 = negative signal)
+ */
+export const DYNAMIC_SIGNAL_SOURCES: readonly SignalSource[] = ['insiderBuying', 'insiderSelling', 'senatePurchases', 'senateSales'];
+
+const BUILT_IN_SOURCES: Record<SignalType, SignalSource> = {
+  momentum: 'momentum',
+  insider_buying: 'insiderBuying',
+  insider_selling: 'insiderSelling',
+  analyst_upgrade: 'analystRatings',
+  merger_acquisition: 'mergersAcquisitions',
+  top_gainer: 'topGainers',
+  stock_split: 'stockSplits',
+  earnings_upcoming: 'upcomingEarnings',
+  high_volume: 'mostActive',
+  senate_purchase: 'senatePurchases',
+  senate_sale: 'senateSales',
+};
+
+export const SignalRuleSchema = z.object({
+  source: z.enum(SIGNAL_SOURCES),
+  label: z.string().min(1),
+  score: z.number(),                                          // 고정 점수 (동적 소스는 배율)
+  halfLifeDays: z.number().positive(),
+  cap: z.number().positive().nullable().default(null),        // 타입별 합산 점수 상한 (절댓값)
+  enabled: z.boolean().default(true),
+});
+
+export const DiversityBonusSchema = z.object({
+  minTypes: z.number().int().min(2),
+  bonus: z.number(),
+});
+
+export const CombinationBonusSchema = z.object({
+  types: z.array(z.string().min(1)).min(2),                   // 모두 있어야 보너스
+  bonus: z.number(),
+  label: z.string().optional(),
+});
+
+export const AnalystRulesSchema = z.object({
+  buyKeywords: z.array(z.string().min(1)).min(1).default(['buy', 'outperform', 'overweight', 'strong buy']),
+  gradeOrder: z.array(z.string().min(1)).min(2).default(['sell', 'underperform', 'hold', 'neutral', 'buy', 'outperform']),
+});
+
+export const CongressRulesSchema = z.object({
+  // 의원 이름("First Last") → 소속 위원회 관할 종목 (공시 데이터에 위원회 정보가 없어 직접 지정)
+  committeeTickers: z.record(z.string().min(1), z.array(z.string().min(1))).default({}),
+});
+
+export type SignalRule = z.infer<typeof SignalRuleSchema>;
+
+function builtInRule(type: SignalType): SignalRule {
+  const source = BUILT_IN_SOURCES[type];
+  const isDynamic = DYNAMIC_SIGNAL_SOURCES.indexOf(source) >= 0;
+  return {
+    source,
+    label: SIGNAL_DESCRIPTIONS[type],
+    score: isDynamic ? Math.sign(SIGNAL_SCORES[type]) : SIGNAL_SCORES[type],
+    halfLifeDays: SIGNAL_HALF_LIFE_DAYS[type],
+    cap: null,
+    enabled: true,
+  };
+}
+
+export const DEFAULT_SIGNAL_RULES: Record<string, SignalRule> = (Object.keys(BUILT_IN_SOURCES) as SignalType[])
+  .reduce((rules, type) => ({ ...rules, [type]: builtInRule(type) }), {} as Record<string, SignalRule>);
+
+export const ScoringConfigSchema = z.object({
+  signals: z.record(
+    z.string().regex(/^[a-z][a-z0-9_]*$/, 'signal types must be snake_case'),
+    SignalRuleSchema
+  ).default(DEFAULT_SIGNAL_RULES),
+  duplicatePenalties: z.array(z.number().min(0).max(1)).min(1).default([1, 0.5, 0.25, 0.1]),  // 마지막 값은 이후 전부
+  diversityBonuses: z.array(DiversityBonusSchema).default([
+    { minTypes: 2, bonus: 3 },
+    { minTypes: 3, bonus: 5 },
+  ]),
+  combinationBonuses: z.array(CombinationBonusSchema).default([]),
+  analyst: AnalystRulesSchema.default({}),
+  congress: CongressRulesSchema.default({}),
+})
+  .superRefine((config, ctx) => {
+    config.combinationBonuses.forEach((combination, index) => {
+      combination.types
+        .filter(type => !(type in config.signals))
+        .forEach(type => ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `combination bonus uses unknown signal type "${type}"`,
+          path: ['combinationBonuses', index, 'types'],
+        }));
+    });
+  });
+
+export type ScoringConfig = z.infer<typeof ScoringConfigSchema>;
+export type ScoringConfigInput = z.input<typeof ScoringConfigSchema>;
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = ScoringConfigSchema.parse({});
+
+/**
+ * Stored scoring config (null / missing = defaults)
+ * Stored values are validated on write; an invalid legacy value falls back to the defaults.
+ */
+export function resolveScoringConfig(raw: unknown): ScoringConfig {
+  if (raw === null || raw === undefined) return DEFAULT_SCORING_CONFIG;
+
+  const parsed = ScoringConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.warn('⚠️ 잘못된 점수 설정 - 기본 점수 설정 사용:', parsed.error.errors.map(e => e.message).join(', '));
+    return DEFAULT_SCORING_CONFIG;
+  }
+  return parsed.data;
+}
+
+export function isDynamicSignalSource(source: SignalSource): boolean {
+  return DYNAMIC_SIGNAL_SOURCES.indexOf(source) >= 0;
+}
+
+/**
+ * Score of one signal from its rule (dynamic sources: event score × rule score)
+ */
+export function ruleScore(rule: SignalRule, eventScore?: number): number {
+  return isDynamicSignalSource(rule.source) ? (eventScore ?? 0) * rule.score : rule.score;
+}
+
+/**
+ * Analyst rating counts as a buy signal: buy-like new grade or an upgrade along gradeOrder
+ */
+export function isAnalystBuySignal(
+  rating: { previousGrade?: string; newGrade?: string },
+  rules: ScoringConfig['analyst']
+): boolean {
+  const newGradeLower = rating.newGrade?.toLowerCase() || '';
+  const previousGradeLower = rating.previousGrade?.toLowerCase() || '';
+
+  // 새 등급이 Buy 계열인지 확인
+  const isNewGradeBuy = rules.buyKeywords.some(keyword => newGradeLower.includes(keyword.toLowerCase()));
+
+  // 업그레이드인지 확인 (Hold → Buy, Sell → Hold 등)
+  const gradeIndex = (grade: string) => rules.gradeOrder.findIndex(step => grade.includes(step.toLowerCase()));
+  const previousIndex = previousGradeLower ? gradeIndex(previousGradeLower) : -1;
+  const isUpgrade = previousIndex !== -1 && gradeIndex(newGradeLower) > previousIndex;
+
+  return isNewGradeBuy || isUpgrade;
+}
+
+/**
+ * Legislator trades a ticker their committee oversees (undefined = legislator not in committeeTickers)
+ */
+export function isCommitteeRelevant(
+  legislator: string,
+  symbol: string,
+  rules: ScoringConfig['congress']
+): boolean | undefined {
+  const name = legislator.trim().toLowerCase();
+  const key = Object.keys(rules.committeeTickers).filter(entry => entry.trim().toLowerCase() === name)[0];
+  if (key === undefined) return undefined;
+
+  return rules.committeeTickers[key].some(ticker => ticker.toUpperCase() === symbol.toUpperCase());
+}
+
+/**
+ * Exponential decay e^(-ln(2) * t / t_half); unparsable dates get half the value
+ */
+export function signalDecayFactor(signal: Signal, halfLifeDays: number, now: Date = new Date()): number {
+  const signalTime = new Date(signal.date).getTime();
+  if (isNaN(signalTime)) return 0.5;
+
+  const daysSince = Math.max(0, (now.getTime() - signalTime) / (1000 * 60 * 60 * 24));
+  return Math.exp(-0.693 * daysSince / halfLifeDays);
+}
+
+/**
+ * Total opportunity score
+ * 1. Per type: decayed scores, strongest first, with duplicate penalties, clamped to the type cap
+ * 2. Diversity bonus for the number of distinct types (largest satisfied minTypes)
+ * 3. Combination bonuses when all listed types are present
+ */
+export function calculateOpportunityScore(signals: Signal[], config: ScoringConfig, now: Date = new Date()): number {
+  const signalsByType = new Map<string, Signal[]>();
+  signals.forEach(signal => {
+    const list = signalsByType.get(signal.type) || [];
+    list.push(signal);
+    signalsByType.set(signal.type, list);
+  });
+
+  let baseScore = 0;
+  signalsByType.forEach((typeSignals, type) => {
+    const rule = config.signals[type];
+    const halfLifeDays = rule ? rule.halfLifeDays : 1;
+    const penalties = config.duplicatePenalties;
+
+    // 시그널을 점수 기준 내림차순 정렬 (큰 것부터 처리)
+    const typeScore = typeSignals
+      .slice()
+      .sort((a, b) => b.score - a.score)
+      .reduce((sum, signal, index) =>
+        sum + signal.score * signalDecayFactor(signal, halfLifeDays, now) * penalties[Math.min(index, penalties.length - 1)],
+      0);
+
+    const cap = rule?.cap ?? null;
+    baseScore += cap !== null ? Math.max(-cap, Math.min(cap, typeScore)) : typeScore;
+  });
+
+  const typeCount = signalsByType.size;
+  const diversityBonus = config.diversityBonuses
+    .filter(entry => typeCount >= entry.minTypes)
+    .sort((a, b) => b.minTypes - a.minTypes)
+    .map(entry => entry.bonus)[0] || 0;
+
+  const combinationBonus = config.combinationBonuses
+    .filter(combination => combination.types.every(type => signalsByType.has(type)))
+    .reduce((sum, combination) => sum + combination.bonus, 0);
+
+  return baseScore + diversityBonus + combinationBonus;
+}
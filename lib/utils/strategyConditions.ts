@@ -0,0 +1,385 @@
+/**
+ * Strategy Condition Definitions
+ *
+ * Shared shapes for strategy entry/exit conditions and the conversion from the
+ * formats stored in Strategy.entryConditions / Strategy.exitConditions.
+ * Used by live bot runs (botTestService) and backtests (BacktestController).
+ */
+
+import type { AppliedProfileSnapshot } from '@/lib/trading-profile-types';
+import type { DecisionConfig } from './decisionConfig';
+
+export interface StrategyCondition {
+  rsi?: { period: number; operator: '<' | '>'; value: number };
+  sma?: { period: number; operator: 'price_above' | 'price_below' };
+  ema?: { period: number; operator: 'price_above' | 'price_below' };
+  macd?: { operator: 'histogram_positive' | 'histogram_negative' | 'bullish_crossover' | 'bearish_crossover' };
+  bollinger?: {
+    period: number;
+    operator: 'price_above_upper' | 'price_below_lower' | 'price_in_middle' |
+              'price_below_upper' | 'price_above_lower' | 'price_above_middle' | 'price_below_middle' |
+              'price_approaching_upper' | 'price_approaching_lower' | 'band_squeeze' | 'band_expansion'
+  };
+  stochastic?: { fastkperiod?: number; slowkperiod?: number; slowdperiod?: number; operator: 'oversold' | 'overbought' | 'bullish_cross' | 'bearish_cross'; kValue?: number; dValue?: number };
+  // 🆕 Crossover detection
+  smaCrossover?: { fastPeriod: number; slowPeriod: number; operator: 'golden_cross' | 'death_cross' };
+  emaCrossover?: { fastPeriod: number; slowPeriod: number; operator: 'bullish_cross' | 'bearish_cross' };
+}
+
+/**
+ * Staged entries, stored next to the entry rules (Strategy.entryConditions.scaleIn)
+ */
+export interface ScaleInConditions {
+  enabled: boolean;
+  tranches: number;         // entries including the first one (e.g. 3)
+  pullbackPercent: number;  // drop below the last entry that adds the next tranche
+}
+
+export interface ExitConditions {
+  // Risk Management
+  stopLoss?: {
+    enabled: boolean;
+    type: 'percentage' | 'fixed_price' | 'atr_based';
+    value: number;
+    trailingEnabled?: boolean;
+    trailingDistance?: number;
+  };
+  takeProfit?: {
+    enabled: boolean;
+    type: 'percentage' | 'fixed_price' | 'risk_reward_ratio';
+    value: number;
+    partialTakingEnabled?: boolean;
+    partialLevels?: { percentage: number; exitPercent: number }[]; // gain %, % of the position sold there
+  };
+
+  // Technical Indicators
+  indicators?: string[];
+  rsi?: {
+    period: number;
+    exitSignal: 'overbought' | 'momentum_reversal' | 'divergence';
+    overboughtThreshold?: number;
+    momentumThreshold?: number;
+  };
+  macd?: {
+    exitSignal: 'bearish_crossover' | 'histogram_negative' | 'divergence';
+    fastPeriod?: number;
+    slowPeriod?: number;
+    signalPeriod?: number;
+  };
+  sma?: {
+    period: number;
+    exitSignal: 'price_below' | 'slope_negative' | 'cross_below';
+  };
+  ema?: {
+    period: number;
+    exitSignal: 'price_below' | 'slope_negative' | 'cross_below';
+  };
+  bb?: {
+    period: number;
+    stdDev: number;
+    exitSignal: 'touch_upper' | 'break_middle_down' | 'squeeze_release';
+  };
+  stochastic?: {
+    fastkperiod: number;
+    slowkperiod: number;
+    slowdperiod: number;
+    exitSignal: 'overbought' | 'bearish_cross' | 'divergence';
+    overboughtThreshold?: number;
+  };
+
+  // Time-Based
+  timeBasedExit?: {
+    enabled: boolean;
+    maxHoldTime?: number; // minutes
+    endOfDayExit?: boolean;
+    weekendExit?: boolean;
+  };
+
+  // Advanced
+  riskRewardRatio?: number;
+  maxDrawdown?: number;
+  volatilityExit?: {
+    enabled: boolean;
+    threshold: number;
+    period: number;
+  };
+}
+
+/**
+ * Exit rules from the bot's saved trading profile (used where the strategy's exit conditions set none)
+ */
+export interface ProfileExitRules {
+  trailingPercent: number | null;            // % below the peak (null = no trailing stop)
+  trailingActivationPercent: number | null;  // gain over entry before the trailing stop arms (null = from entry)
+  maxHoldMinutes: number | null;             // maximum holding period (null = no limit)
+}
+
+export interface BotStrategy {
+  id: string;
+  name: string;
+  timeHorizon?: string; // SHORT_TERM, SWING, LONG_TERM
+  entryConditions: StrategyCondition;
+  exitConditions: ExitConditions | StrategyCondition; // Support both old and new formats
+  stopLoss?: number; // Stop loss percentage (e.g., 5.0 for 5%) - backward compatibility
+  takeProfit?: number; // Take profit percentage (e.g., 10.0 for 10%) - backward compatibility
+  profile?: AppliedProfileSnapshot; // Saved TradingProfile version applied to this run
+  profileExits?: ProfileExitRules; // Trailing stop / holding period of that profile
+  decisionConfig?: DecisionConfig; // Unified decision weights / components / thresholds (Strategy.decisionConfig)
+}
+
+/**
+ * Convert DB strategy format (rules-based or legacy) to the StrategyCondition format
+ */
+export function convertDBStrategyToTestFormat(dbConditions: any): StrategyCondition {
+  const converted: StrategyCondition = {};
+
+  // Handle null or undefined
+  if (!dbConditions) {
+    return converted;
+  }
+
+  // ===== NEW FORMAT: rules-based strategy conditions =====
+  if (dbConditions.rules && Array.isArray(dbConditions.rules)) {
+    console.log('🔄 Converting rules-based strategy format...');
+
+    for (const rule of dbConditions.rules) {
+      const { indicator, operator, value, weight } = rule;
+
+      // RSI rules
+      if (indicator === 'RSI') {
+        converted.rsi = {
+          period: 14, // Default RSI period
+          operator: operator as '<' | '>',
+          value: typeof value === 'number' ? value : 70
+        };
+      }
+
+      // 🆕 Enhanced SMA rules with crossover support
+      else if (indicator === 'SMA_50' || indicator === 'SMA_200' || indicator === 'SMA') {
+        // Handle golden/death cross: SMA_50 CROSS_ABOVE SMA_200
+        if ((operator === 'CROSS_ABOVE' || operator === 'CROSS_BELOW') && typeof value === 'string' && value.includes('SMA')) {
+          // Extract periods from indicator names
+          const fastPeriod = indicator === 'SMA_50' ? 50 : indicator === 'SMA_200' ? 200 : 50;
+          const slowPeriod = value === 'SMA_200' ? 200 : value === 'SMA_50' ? 50 : 200;
+
+          converted.smaCrossover = {
+            fastPeriod,
+            slowPeriod,
+            operator: operator === 'CROSS_ABOVE' ? 'golden_cross' : 'death_cross'
+          };
+        } else {
+          // Simple SMA price position: PRICE > SMA_200
+          const period = indicator === 'SMA_200' ? 200 : indicator === 'SMA_50' ? 50 : 50;
+          converted.sma = {
+            period,
+            operator: operator === '>' ? 'price_above' : 'price_below'
+          };
+        }
+      }
+
+      // 🆕 Enhanced EMA rules with crossover support
+      else if (indicator === 'EMA_50' || indicator === 'EMA_200' || indicator === 'EMA') {
+        // Handle EMA crossover: EMA_50 CROSS_ABOVE EMA_200
+        if ((operator === 'CROSS_ABOVE' || operator === 'CROSS_BELOW') && typeof value === 'string' && value.includes('EMA')) {
+          // Extract periods from indicator names
+          const fastPeriod = indicator === 'EMA_50' ? 50 : indicator === 'EMA_200' ? 200 : 50;
+          const slowPeriod = value === 'EMA_200' ? 200 : value === 'EMA_50' ? 50 : 200;
+
+          converted.emaCrossover = {
+            fastPeriod,
+            slowPeriod,
+            operator: operator === 'CROSS_ABOVE' ? 'bullish_cross' : 'bearish_cross'
+          };
+        } else {
+          // Simple EMA price position: PRICE > EMA_200
+          const period = indicator === 'EMA_200' ? 200 : indicator === 'EMA_50' ? 50 : 50;
+          converted.ema = {
+            period,
+            operator: operator === '>' ? 'price_above' : 'price_below'
+          };
+        }
+      }
+
+      // MACD rules
+      else if (indicator === 'MACD') {
+        if (operator === 'CROSS_ABOVE') {
+          converted.macd = { operator: 'bullish_crossover' };
+        } else if (operator === 'CROSS_BELOW') {
+          converted.macd = { operator: 'bearish_crossover' };
+        } else if (operator === '>') {
+          converted.macd = { operator: 'histogram_positive' };
+        } else if (operator === '<') {
+          converted.macd = { operator: 'histogram_negative' };
+        }
+      }
+
+      // 🆕 Enhanced Bollinger Bands rules with full operator support
+      else if (indicator === 'PRICE' && typeof value === 'string') {
+        // PRICE compared to BB_UPPER, BB_MIDDLE, BB_LOWER
+        if (value === 'BB_UPPER') {
+          converted.bollinger = {
+            period: 20, // Default BB period
+            operator: operator === '>' ? 'price_above_upper' :
+                     operator === '<' ? 'price_below_upper' :
+                     operator === '>=' ? 'price_above_upper' :
+                     operator === '<=' ? 'price_below_upper' : 'price_above_upper'
+          };
+        } else if (value === 'BB_LOWER') {
+          converted.bollinger = {
+            period: 20,
+            operator: operator === '<' ? 'price_below_lower' :
+                     operator === '>' ? 'price_above_lower' :
+                     operator === '<=' ? 'price_below_lower' :
+                     operator === '>=' ? 'price_above_lower' : 'price_below_lower'
+          };
+        } else if (value === 'BB_MIDDLE') {
+          converted.bollinger = {
+            period: 20,
+            operator: operator === '>' ? 'price_above_middle' :
+                     operator === '<' ? 'price_below_middle' :
+                     operator === '>=' ? 'price_above_middle' :
+                     operator === '<=' ? 'price_below_middle' : 'price_above_middle'
+          };
+        }
+      }
+
+      // BBANDS direct indicator (fallback for legacy format)
+      else if (indicator === 'BBANDS') {
+        converted.bollinger = {
+          period: 20,
+          operator: operator === '>' ? 'price_above_upper' : 'price_below_lower'
+        };
+      }
+
+      // VOLUME, CHANGE_PERCENT rules are skipped (not technical indicators)
+      // They're used in AI scoring but don't need indicator data
+    }
+
+    console.log('✅ Converted rules-based format:', converted);
+    return converted;
+  }
+
+  // ===== OLD FORMAT: legacy strategy conditions =====
+  // RSI conversion
+  if (dbConditions.rsi) {
+    const rsi = dbConditions.rsi;
+    let operator: '<' | '>' = '<';
+
+    if (rsi.condition === 'below' || rsi.exitSignal === 'momentum_reversal') {
+      operator = '<';
+    } else if (rsi.condition === 'above' || rsi.exitSignal === 'overbought') {
+      operator = '>';
+    }
+
+    converted.rsi = {
+      period: rsi.period,
+      operator,
+      value: rsi.value || rsi.overboughtThreshold || 70
+    };
+  }
+
+  // SMA conversion
+  if (dbConditions.sma) {
+    const sma = dbConditions.sma;
+    let operator: 'price_above' | 'price_below' = 'price_above';
+
+    if (sma.position === 'above' || sma.exitSignal === 'cross_below') {
+      operator = sma.exitSignal === 'cross_below' ? 'price_below' : 'price_above';
+    } else if (sma.position === 'below' || sma.exitSignal === 'price_below') {
+      operator = 'price_below';
+    }
+
+    converted.sma = {
+      period: sma.period,
+      operator
+    };
+  }
+
+  // EMA conversion
+  if (dbConditions.ema) {
+    const ema = dbConditions.ema;
+    let operator: 'price_above' | 'price_below' = 'price_above';
+
+    if (ema.position === 'above') {
+      operator = 'price_above';
+    } else if (ema.position === 'below' || ema.exitSignal === 'price_below') {
+      operator = 'price_below';
+    }
+
+    converted.ema = {
+      period: ema.period,
+      operator
+    };
+  }
+
+  // MACD conversion
+  if (dbConditions.macd) {
+    const macd = dbConditions.macd;
+    let operator: 'histogram_positive' | 'histogram_negative' | 'bullish_crossover' | 'bearish_crossover' = 'histogram_positive';
+
+    // Entry conditions (signal field)
+    if (macd.signal === 'bullish_crossover') {
+      operator = 'bullish_crossover';
+    } else if (macd.signal === 'bearish_crossover') {
+      operator = 'bearish_crossover';
+    } else if (macd.signal === 'histogram_positive') {
+      operator = 'histogram_positive';
+    } else if (macd.signal === 'histogram_negative') {
+      operator = 'histogram_negative';
+    }
+
+    // Exit conditions (exitSignal field) - override if present
+    else if (macd.exitSignal === 'bullish_crossover') {
+      operator = 'bullish_crossover';
+    } else if (macd.exitSignal === 'bearish_crossover') {
+      operator = 'bearish_crossover';
+    } else if (macd.exitSignal === 'histogram_positive') {
+      operator = 'histogram_positive';
+    } else if (macd.exitSignal === 'histogram_negative') {
+      operator = 'histogram_negative';
+    }
+
+    converted.macd = { operator };
+  }
+
+  // Bollinger Bands conversion
+  if (dbConditions.bb) {
+    const bb = dbConditions.bb;
+    let operator: 'price_above_upper' | 'price_below_lower' | 'price_in_middle' = 'price_below_lower';
+
+    if (bb.position === 'lower') {
+      operator = 'price_below_lower';
+    } else if (bb.position === 'upper' || bb.exitSignal === 'touch_upper') {
+      operator = 'price_above_upper';
+    } else if (bb.position === 'middle') {
+      operator = 'price_in_middle';
+    }
+
+    converted.bollinger = {
+      period: bb.period,
+      operator
+    };
+  }
+
+  // Stochastic conversion
+  if (dbConditions.stochastic) {
+    const stoch = dbConditions.stochastic;
+    let operator: 'oversold' | 'overbought' | 'bullish_cross' | 'bearish_cross' = 'oversold';
+
+    if (stoch.operator === 'oversold' || stoch.exitSignal === 'overbought') {
+      operator = stoch.exitSignal === 'overbought' ? 'overbought' : 'oversold';
+    } else if (stoch.operator === 'bullish_cross' || stoch.exitSignal === 'bearish_cross') {
+      operator = stoch.exitSignal === 'bearish_cross' ? 'bearish_cross' : 'bullish_cross';
+    }
+
+    converted.stochastic = {
+      fastkperiod: stoch.fastkperiod,
+      slowkperiod: stoch.slowkperiod,
+      slowdperiod: stoch.slowdperiod,
+      operator,
+      kValue: stoch.kValue || stoch.overboughtThreshold
+    };
+  }
+
+  return converted;
+}
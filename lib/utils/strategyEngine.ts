@@ -0,0 +1,1304 @@
+/**
+ * Strategy Evaluation Engine
+ *
+ * Side-effect-free evaluation of strategy entry/exit conditions:
+ * - No API calls, database access or order placement
+ * - Works on an indicator snapshot (live bots) or a bar series (backtests, previews)
+ * - Returns a decision plus a per-condition trace
+ *
+ * Shared by botTestService.runTest, BacktestController and the strategy preview API.
+ */
+
+import { TechnicalIndicatorCalculator } from './technicalIndicators';
+import {
+  StrategyCondition,
+  ExitConditions,
+  ScaleInConditions,
+  ProfileExitRules,
+  convertDBStrategyToTestFormat,
+} from './strategyConditions';
+import { DecisionConfig, resolveDecisionConfig } from './decisionConfig';
+
+// ===== Types =====
+
+export interface StrategyBar {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type IndicatorType = 'rsi' | 'sma' | 'ema' | 'macd' | 'bollinger' | 'stochastic' | 'atr';
+
+export interface IndicatorRequest {
+  type: IndicatorType;
+  params: any;
+}
+
+/**
+ * Indicator value at the evaluated bar.
+ * Same shape as TestReport['apiCalls'] so live API results can be passed in directly.
+ */
+export interface IndicatorReading {
+  indicator: string;
+  params: any;
+  result: number | { [key: string]: number | null } | null;
+  success: boolean;
+}
+
+export interface ConditionTrace {
+  condition: string;
+  actual: string;
+  result: boolean;
+  details?: string;
+}
+
+export interface EntryEvaluation {
+  allMet: boolean;
+  reasons: string[];
+  failedReasons: string[];
+  conditions: ConditionTrace[];
+}
+
+export interface ExitEvaluation {
+  triggered: boolean;
+  riskManagementTriggered: boolean;
+  technicalExitTriggered: boolean;
+  timeBasedExitTriggered: boolean;
+  reasons: string[];
+  conditions: ConditionTrace[];
+}
+
+export interface PositionState {
+  entryPrice: number;
+  entryTime?: Date;
+  peakPrice?: number; // Highest price since entry (used when no bars are available)
+  breakevenPrice?: number | null; // Stop floor after a partial take-profit (positionScaling)
+}
+
+export interface StrategyDefinition {
+  entryConditions: any;
+  exitConditions?: any;
+  stopLoss?: number | null;
+  takeProfit?: number | null;
+  timeHorizon?: string | null;
+  decisionConfig?: unknown;            // Strategy.decisionConfig (null = all-conditions entry)
+  profileExits?: ProfileExitRules | null; // Saved profile trailing stop / holding period
+}
+
+export interface PreparedStrategy {
+  entry: StrategyCondition;
+  exit: ExitConditions | StrategyCondition;
+  isNewExitFormat: boolean;
+  stopLossPercent: number;
+  takeProfitPercent: number;
+  isIntraday: boolean;
+  scaleIn: ScaleInConditions | null;
+  entryIndicators: IndicatorRequest[];
+  exitIndicators: IndicatorRequest[];
+  decisionConfig: DecisionConfig | null;
+  profileExits: ProfileExitRules | null;
+}
+
+export interface MarketInput {
+  bars?: StrategyBar[];                // Enables local indicator calculation and history-based signals
+  indicators?: IndicatorReading[];     // Pre-fetched indicator snapshot (takes precedence over bars)
+  currentPrice?: number;               // Defaults to the last bar close
+  timestamp?: Date;                    // Defaults to the last bar timestamp
+}
+
+export interface StrategyDecision {
+  action: 'BUY' | 'SELL' | 'HOLD';
+  reason: string;
+  entry: EntryEvaluation;
+  exit: ExitEvaluation | null;
+  trace: ConditionTrace[];
+  technicalScore: number; // -0.5 ~ +0.5, same scale as aiTradingService
+  indicators: IndicatorReading[];
+}
+
+export interface ExitLevels {
+  stopPrice: number;
+  stopLabel: string;
+  targetPrice: number;
+  targetLabel: string;
+  trailingDistance: number | null;  // % below the peak (null = no trailing stop)
+  trailingActivationPrice: number | null;  // peak the trailing stop waits for (null = active from entry)
+}
+
+interface ExitContext {
+  currentPrice: number;
+  position: PositionState;
+  bars?: StrategyBar[];
+  timestamp?: Date;
+  stopLossPercent: number;
+  takeProfitPercent: number;
+  isIntraday: boolean;
+  profileExits?: ProfileExitRules | null;
+}
+
+const DEFAULT_STOP_LOSS_PERCENT = 5.0;
+const DEFAULT_TAKE_PROFIT_PERCENT = 10.0;
+const DIVERGENCE_LOOKBACK = 14;
+const ATR_PERIOD = 14;
+const BAND_SQUEEZE_WIDTH = 0.05;
+const INTRADAY_SESSION_CLOSE_MINUTES = 15 * 60 + 45; // last 15 minutes before 16:00 ET
+
+// ===== Strategy preparation =====
+
+/**
+ * Normalize stored strategy conditions once (JSON strings, rules-based and legacy formats)
+ */
+export function prepareStrategy(strategy: StrategyDefinition): PreparedStrategy {
+  const rawEntry = parseConditionsJson(strategy.entryConditions);
+  const entry = convertDBStrategyToTestFormat(rawEntry);
+
+  const rawExit = parseConditionsJson(strategy.exitConditions) || {};
+  const newExitFormat = isNewExitFormat(rawExit);
+  const exit = newExitFormat ? (rawExit as ExitConditions) : convertDBStrategyToTestFormat(rawExit);
+
+  return {
+    entry,
+    exit,
+    isNewExitFormat: newExitFormat,
+    stopLossPercent: strategy.stopLoss ?? DEFAULT_STOP_LOSS_PERCENT,
+    takeProfitPercent: strategy.takeProfit ?? DEFAULT_TAKE_PROFIT_PERCENT,
+    isIntraday: strategy.timeHorizon === 'SHORT_TERM',
+    scaleIn: rawEntry && typeof rawEntry === 'object' && rawEntry.scaleIn ? rawEntry.scaleIn : null,
+    entryIndicators: parseRequiredIndicators(entry),
+    exitIndicators: newExitFormat
+      ? parseRequiredExitIndicators(exit as ExitConditions)
+      : parseRequiredIndicators(exit as StrategyCondition),
+    decisionConfig: strategy.decisionConfig === null || strategy.decisionConfig === undefined
+      ? null
+      : resolveDecisionConfig(strategy.decisionConfig),
+    profileExits: strategy.profileExits ?? null,
+  };
+}
+
+export function isNewExitFormat(exitConditions: any): boolean {
+  return !!exitConditions && typeof exitConditions === 'object' &&
+    ('indicators' in exitConditions || 'stopLoss' in exitConditions || 'takeProfit' in exitConditions);
+}
+
+function parseConditionsJson(value: any): any {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  return value;
+}
+
+/**
+ * Indicators required to evaluate entry (or legacy exit) conditions
+ */
+export function parseRequiredIndicators(conditions: StrategyCondition): IndicatorRequest[] {
+  const indicators: IndicatorRequest[] = [];
+
+  if (conditions.rsi) {
+    indicators.push({ type: 'rsi', params: { period: conditions.rsi.period } });
+  }
+  if (conditions.sma) {
+    indicators.push({ type: 'sma', params: { period: conditions.sma.period } });
+  }
+  if (conditions.ema) {
+    indicators.push({ type: 'ema', params: { period: conditions.ema.period } });
+  }
+  if (conditions.macd) {
+    indicators.push({ type: 'macd', params: {} });
+  }
+  if (conditions.bollinger) {
+    indicators.push({ type: 'bollinger', params: { period: conditions.bollinger.period } });
+  }
+  if (conditions.stochastic) {
+    indicators.push({
+      type: 'stochastic',
+      params: {
+        fastkperiod: conditions.stochastic.fastkperiod || 5,
+        slowkperiod: conditions.stochastic.slowkperiod || 3,
+        slowdperiod: conditions.stochastic.slowdperiod || 3
+      }
+    });
+  }
+  // 🆕 SMA Crossover - fetch both fast and slow period SMAs
+  if (conditions.smaCrossover) {
+    indicators.push({ type: 'sma', params: { period: conditions.smaCrossover.fastPeriod } });
+    indicators.push({ type: 'sma', params: { period: conditions.smaCrossover.slowPeriod } });
+  }
+  // 🆕 EMA Crossover - fetch both fast and slow period EMAs
+  if (conditions.emaCrossover) {
+    indicators.push({ type: 'ema', params: { period: conditions.emaCrossover.fastPeriod } });
+    indicators.push({ type: 'ema', params: { period: conditions.emaCrossover.slowPeriod } });
+  }
+
+  return indicators;
+}
+
+/**
+ * Indicators required to evaluate technical exit signals (new exit format)
+ */
+export function parseRequiredExitIndicators(conditions: ExitConditions): IndicatorRequest[] {
+  const indicators: IndicatorRequest[] = [];
+  const enabled = conditions.indicators || [];
+
+  if (enabled.indexOf('RSI') >= 0 && conditions.rsi) {
+    indicators.push({ type: 'rsi', params: { period: conditions.rsi.period || 14 } });
+  }
+  if (enabled.indexOf('MACD') >= 0 && conditions.macd) {
+    indicators.push({
+      type: 'macd',
+      params: {
+        fastPeriod: conditions.macd.fastPeriod || 12,
+        slowPeriod: conditions.macd.slowPeriod || 26,
+        signalPeriod: conditions.macd.signalPeriod || 9
+      }
+    });
+  }
+  if (enabled.indexOf('SMA') >= 0 && conditions.sma) {
+    indicators.push({ type: 'sma', params: { period: conditions.sma.period } });
+  }
+  if (enabled.indexOf('EMA') >= 0 && conditions.ema) {
+    indicators.push({ type: 'ema', params: { period: conditions.ema.period } });
+  }
+  if ((enabled.indexOf('BB') >= 0 || enabled.indexOf('BBANDS') >= 0) && conditions.bb) {
+    indicators.push({
+      type: 'bollinger',
+      params: { period: conditions.bb.period || 20, stdDev: conditions.bb.stdDev || 2 }
+    });
+  }
+  if ((enabled.indexOf('STOCH') >= 0 || enabled.indexOf('STOCHASTIC') >= 0) && conditions.stochastic) {
+    indicators.push({
+      type: 'stochastic',
+      params: {
+        fastkperiod: conditions.stochastic.fastkperiod || 5,
+        slowkperiod: conditions.stochastic.slowkperiod || 3,
+        slowdperiod: conditions.stochastic.slowdperiod || 3
+      }
+    });
+  }
+  if (conditions.stopLoss?.enabled && conditions.stopLoss.type === 'atr_based') {
+    indicators.push({ type: 'atr', params: { period: ATR_PERIOD } });
+  }
+
+  return indicators;
+}
+
+// ===== Indicator snapshot =====
+
+/**
+ * Calculate requested indicators at the last bar of the series
+ */
+export function computeIndicatorReadings(bars: StrategyBar[], requests: IndicatorRequest[]): IndicatorReading[] {
+  const closes = bars.map(b => b.close);
+
+  return requests.map(request => {
+    let result: IndicatorReading['result'] = null;
+
+    switch (request.type) {
+      case 'rsi':
+        result = TechnicalIndicatorCalculator.calculateRSI(bars, request.params.period);
+        break;
+      case 'sma':
+        result = TechnicalIndicatorCalculator.calculateSMA(closes, request.params.period);
+        break;
+      case 'ema':
+        result = TechnicalIndicatorCalculator.calculateEMA(closes, request.params.period);
+        break;
+      case 'macd': {
+        const series = TechnicalIndicatorCalculator.calculateMACDSeries(
+          bars,
+          request.params.fastPeriod || 12,
+          request.params.slowPeriod || 26,
+          request.params.signalPeriod || 9
+        );
+        result = series.length > 0 ? series[series.length - 1] : null;
+        break;
+      }
+      case 'bollinger':
+        result = TechnicalIndicatorCalculator.calculateBollingerBands(
+          bars,
+          request.params.period || 20,
+          request.params.stdDev || 2
+        );
+        break;
+      case 'stochastic':
+        result = TechnicalIndicatorCalculator.calculateStochastic(
+          bars,
+          request.params.fastkperiod || 5,
+          request.params.slowkperiod || 3,
+          request.params.slowdperiod || 3
+        );
+        break;
+      case 'atr':
+        result = TechnicalIndicatorCalculator.calculateATR(bars, request.params.period || ATR_PERIOD);
+        break;
+    }
+
+    return toReading(request, result);
+  });
+}
+
+/**
+ * Calculate requested indicators at every bar of the series in one pass
+ *
+ * `series[i]` equals `computeIndicatorReadings(bars.slice(0, i + 1), requests)`, so
+ * a backtest can index into it per bar instead of recalculating the whole history.
+ */
+export function computeIndicatorSeries(bars: StrategyBar[], requests: IndicatorRequest[]): IndicatorReading[][] {
+  const closes = bars.map(b => b.close);
+
+  const columns: IndicatorReading['result'][][] = requests.map(request => {
+    switch (request.type) {
+      case 'rsi':
+        return TechnicalIndicatorCalculator.calculateRSISeries(bars, request.params.period);
+      case 'sma':
+        return TechnicalIndicatorCalculator.calculateSMASeries(closes, request.params.period);
+      case 'ema':
+        return TechnicalIndicatorCalculator.calculateEMASeries(closes, request.params.period);
+      case 'macd':
+        return TechnicalIndicatorCalculator.calculateMACDSeries(
+          bars,
+          request.params.fastPeriod || 12,
+          request.params.slowPeriod || 26,
+          request.params.signalPeriod || 9
+        );
+      case 'bollinger':
+        return TechnicalIndicatorCalculator.calculateBollingerBandsSeries(
+          bars,
+          request.params.period || 20,
+          request.params.stdDev || 2
+        );
+      case 'stochastic':
+        return TechnicalIndicatorCalculator.calculateStochasticSeries(
+          bars,
+          request.params.fastkperiod || 5,
+          request.params.slowkperiod || 3,
+          request.params.slowdperiod || 3
+        );
+      case 'atr':
+        return TechnicalIndicatorCalculator.calculateATRSeries(bars, request.params.period || ATR_PERIOD);
+      default:
+        return bars.map(() => null);
+    }
+  });
+
+  return bars.map((_, i) => requests.map((request, j) => toReading(request, columns[j][i])));
+}
+
+function toReading(request: IndicatorRequest, result: IndicatorReading['result']): IndicatorReading {
+  const values = result;
+  const success = values !== null &&
+    (typeof values === 'number' || Object.keys(values).every(key => values[key] !== null));
+
+  return {
+    indicator: request.type,
+    params: request.params,
+    result,
+    success,
+  };
+}
+
+function findReading(readings: IndicatorReading[], type: IndicatorType, period?: number): IndicatorReading | undefined {
+  const matches = readings.filter(r => r.indicator === type);
+  if (period === undefined) return matches[0];
+  // A reading with another period must not stand in (SMA(50) for SMA(20) would compare a series with itself)
+  return matches.find(r => r.params?.period === undefined || r.params.period === period);
+}
+
+function numericReading(readings: IndicatorReading[], type: IndicatorType, period?: number): number | null {
+  const reading = findReading(readings, type, period);
+  return reading && reading.success && typeof reading.result === 'number' ? reading.result : null;
+}
+
+function objectReading<T extends { [key: string]: number | null }>(
+  readings: IndicatorReading[],
+  type: IndicatorType,
+  keys: (keyof T)[]
+): { [K in keyof T]: number } | null {
+  const reading = findReading(readings, type);
+  if (!reading || !reading.success || !reading.result || typeof reading.result !== 'object') return null;
+
+  const values = reading.result as T;
+  if (keys.some(k => values[k] === null || values[k] === undefined)) return null;
+  return values as unknown as { [K in keyof T]: number };
+}
+
+// ===== Entry evaluation =====
+
+/**
+ * Evaluate strategy conditions against an indicator snapshot
+ *
+ * Every configured condition must be met. Indicators that are unavailable
+ * (API failure or warm-up period) count as not met.
+ */
+export function evaluateEntryConditions(
+  conditions: StrategyCondition,
+  readings: IndicatorReading[],
+  currentPrice: number
+): EntryEvaluation {
+  const results: ConditionTrace[] = [];
+  const reasons: string[] = [];
+  const failedReasons: string[] = [];
+
+  const unavailable = (condition: string, indicator: string) => {
+    results.push({
+      condition,
+      actual: 'Data unavailable',
+      result: false,
+      details: `Failed to fetch ${indicator} data`
+    });
+    failedReasons.push(`${indicator} data unavailable`);
+  };
+
+  // RSI condition
+  if (conditions.rsi) {
+    const condition = conditions.rsi;
+    const operatorSymbol = condition.operator === '<' ? '<' : '>';
+    const conditionText = `RSI(${condition.period}) ${operatorSymbol} ${condition.value}`;
+    const rsiValue = numericReading(readings, 'rsi', condition.period);
+
+    if (rsiValue !== null) {
+      const conditionMet = condition.operator === '<' ? rsiValue < condition.value : rsiValue > condition.value;
+
+      results.push({
+        condition: conditionText,
+        actual: `${rsiValue.toFixed(2)} ${operatorSymbol} ${condition.value}`,
+        result: conditionMet,
+        details: `RSI ${condition.period}-period = ${rsiValue.toFixed(2)}`
+      });
+
+      if (conditionMet) {
+        reasons.push(`RSI(${rsiValue.toFixed(2)}) ${condition.operator} ${condition.value}`);
+      } else {
+        failedReasons.push(`RSI(${rsiValue.toFixed(2)}) not ${condition.operator} ${condition.value}`);
+      }
+    } else {
+      unavailable(conditionText, 'RSI');
+    }
+  }
+
+  // SMA / EMA price position conditions
+  const pricePositions: Array<{ name: 'SMA' | 'EMA'; type: IndicatorType; condition?: StrategyCondition['sma'] }> = [
+    { name: 'SMA', type: 'sma', condition: conditions.sma },
+    { name: 'EMA', type: 'ema', condition: conditions.ema },
+  ];
+
+  pricePositions.forEach(({ name, type, condition }) => {
+    if (!condition) return;
+
+    const operatorText = condition.operator === 'price_above' ? 'above' : 'below';
+    const operatorSymbol = condition.operator === 'price_above' ? '>' : '<';
+    const conditionText = `Price ${operatorText} ${name}(${condition.period})`;
+    const value = numericReading(readings, type, condition.period);
+
+    if (value === null) {
+      unavailable(conditionText, name);
+      return;
+    }
+
+    const conditionMet = condition.operator === 'price_above' ? currentPrice > value : currentPrice < value;
+
+    results.push({
+      condition: conditionText,
+      actual: `${currentPrice} ${operatorSymbol} ${value.toFixed(2)}`,
+      result: conditionMet,
+      details: `Price=${currentPrice}, ${name} ${condition.period}=${value.toFixed(2)}`
+    });
+
+    if (conditionMet) {
+      reasons.push(`Price(${currentPrice}) ${operatorText} ${name}(${value.toFixed(2)})`);
+    } else {
+      failedReasons.push(`Price(${currentPrice}) not ${operatorText} ${name}(${value.toFixed(2)})`);
+    }
+  });
+
+  // 🆕 SMA / EMA crossover conditions (Golden/Death Cross, Bullish/Bearish EMA Cross)
+  const crossovers: Array<{ name: 'SMA' | 'EMA'; type: IndicatorType; fastPeriod: number; slowPeriod: number; bullish: boolean; label: string }> = [];
+  if (conditions.smaCrossover) {
+    const { fastPeriod, slowPeriod, operator } = conditions.smaCrossover;
+    crossovers.push({
+      name: 'SMA', type: 'sma', fastPeriod, slowPeriod,
+      bullish: operator === 'golden_cross',
+      label: operator === 'golden_cross' ? 'Golden Cross' : 'Death Cross'
+    });
+  }
+  if (conditions.emaCrossover) {
+    const { fastPeriod, slowPeriod, operator } = conditions.emaCrossover;
+    crossovers.push({
+      name: 'EMA', type: 'ema', fastPeriod, slowPeriod,
+      bullish: operator === 'bullish_cross',
+      label: operator === 'bullish_cross' ? 'Bullish EMA Cross' : 'Bearish EMA Cross'
+    });
+  }
+
+  crossovers.forEach(({ name, type, fastPeriod, slowPeriod, bullish, label }) => {
+    const fast = numericReading(readings, type, fastPeriod);
+    const slow = numericReading(readings, type, slowPeriod);
+
+    if (fast === null || slow === null) {
+      unavailable(label, `${name}${fastPeriod}/${name}${slowPeriod}`);
+      return;
+    }
+
+    const conditionMet = bullish ? fast > slow : fast < slow;
+    const crossSymbol = bullish ? '>' : '<';
+
+    results.push({
+      condition: label,
+      actual: `${fast.toFixed(2)} ${crossSymbol} ${slow.toFixed(2)}`,
+      result: conditionMet,
+      details: `${name}${fastPeriod}=${fast.toFixed(2)}, ${name}${slowPeriod}=${slow.toFixed(2)}`
+    });
+
+    if (conditionMet) {
+      reasons.push(`${label}: ${name}${fastPeriod}(${fast.toFixed(2)}) ${crossSymbol} ${name}${slowPeriod}(${slow.toFixed(2)})`);
+    } else {
+      failedReasons.push(`No ${label}: ${name}${fastPeriod}(${fast.toFixed(2)}) ${crossSymbol} ${name}${slowPeriod}(${slow.toFixed(2)})`);
+    }
+  });
+
+  // MACD condition
+  if (conditions.macd) {
+    const operator = conditions.macd.operator;
+    const operatorText = operator.replace('_', ' ');
+    const macdData = objectReading<{ macdLine: number | null; signalLine: number | null; histogram: number | null }>(
+      readings, 'macd', ['macdLine', 'signalLine', 'histogram']
+    );
+
+    if (!macdData) {
+      unavailable(`MACD ${operatorText}`, 'MACD');
+    } else {
+      let conditionMet = false;
+      let actualText = '';
+
+      if (operator === 'histogram_positive') {
+        conditionMet = macdData.histogram > 0;
+        actualText = `Histogram = ${macdData.histogram.toFixed(4)}`;
+      } else if (operator === 'histogram_negative') {
+        conditionMet = macdData.histogram < 0;
+        actualText = `Histogram = ${macdData.histogram.toFixed(4)}`;
+      } else if (operator === 'bullish_crossover') {
+        conditionMet = macdData.macdLine > macdData.signalLine;
+        actualText = `MACD(${macdData.macdLine.toFixed(4)}) > Signal(${macdData.signalLine.toFixed(4)})`;
+      } else if (operator === 'bearish_crossover') {
+        conditionMet = macdData.macdLine < macdData.signalLine;
+        actualText = `MACD(${macdData.macdLine.toFixed(4)}) < Signal(${macdData.signalLine.toFixed(4)})`;
+      }
+
+      results.push({
+        condition: `MACD ${operatorText}`,
+        actual: actualText,
+        result: conditionMet,
+        details: `MACD=${macdData.macdLine.toFixed(4)}, Signal=${macdData.signalLine.toFixed(4)}, Hist=${macdData.histogram.toFixed(4)}`
+      });
+
+      if (conditionMet) {
+        reasons.push(`MACD ${operatorText}`);
+      } else {
+        failedReasons.push(`MACD ${operatorText} not met`);
+      }
+    }
+  }
+
+  // Bollinger Bands condition
+  if (conditions.bollinger) {
+    const operator = conditions.bollinger.operator;
+    const operatorText = operator.replace(/_/g, ' ');
+    const bands = objectReading<{ upper: number | null; middle: number | null; lower: number | null }>(
+      readings, 'bollinger', ['upper', 'middle', 'lower']
+    );
+
+    if (!bands) {
+      unavailable(`Bollinger ${operatorText}`, 'Bollinger Bands');
+    } else {
+      const bandWidth = (bands.upper - bands.lower) / bands.middle;
+      let conditionMet = false;
+
+      if (operator === 'price_above_upper') conditionMet = currentPrice > bands.upper;
+      else if (operator === 'price_below_upper') conditionMet = currentPrice < bands.upper;
+      else if (operator === 'price_below_lower') conditionMet = currentPrice < bands.lower;
+      else if (operator === 'price_above_lower') conditionMet = currentPrice > bands.lower;
+      else if (operator === 'price_above_middle') conditionMet = currentPrice > bands.middle;
+      else if (operator === 'price_below_middle') conditionMet = currentPrice < bands.middle;
+      else if (operator === 'price_in_middle') conditionMet = currentPrice > bands.lower && currentPrice < bands.upper;
+      // Price within 5% of the band
+      else if (operator === 'price_approaching_upper') conditionMet = currentPrice >= bands.upper * 0.95 && currentPrice < bands.upper;
+      else if (operator === 'price_approaching_lower') conditionMet = currentPrice <= bands.lower * 1.05 && currentPrice > bands.lower;
+      // Band width relative to the middle band
+      else if (operator === 'band_squeeze') conditionMet = bandWidth < BAND_SQUEEZE_WIDTH;
+      else if (operator === 'band_expansion') conditionMet = bandWidth > 0.10;
+
+      results.push({
+        condition: `Bollinger ${operatorText}`,
+        actual: `Price=${currentPrice}, Upper=${bands.upper.toFixed(2)}, Lower=${bands.lower.toFixed(2)}`,
+        result: conditionMet,
+        details: `Upper=${bands.upper.toFixed(2)}, Middle=${bands.middle.toFixed(2)}, Lower=${bands.lower.toFixed(2)}`
+      });
+
+      if (conditionMet) {
+        reasons.push(`Bollinger ${operatorText}`);
+      } else {
+        failedReasons.push(`Bollinger ${operatorText} not met`);
+      }
+    }
+  }
+
+  // Stochastic condition
+  if (conditions.stochastic) {
+    const condition = conditions.stochastic;
+    const operatorText = condition.operator.replace('_', ' ');
+    const stochastic = objectReading<{ slowK: number | null; slowD: number | null }>(
+      readings, 'stochastic', ['slowK', 'slowD']
+    );
+
+    if (!stochastic) {
+      unavailable(`Stochastic ${operatorText}`, 'Stochastic');
+    } else {
+      let conditionMet = false;
+
+      if (condition.operator === 'oversold') conditionMet = stochastic.slowK < (condition.kValue || 20);
+      else if (condition.operator === 'overbought') conditionMet = stochastic.slowK > (condition.kValue || 80);
+      else if (condition.operator === 'bullish_cross') conditionMet = stochastic.slowK > stochastic.slowD;
+      else if (condition.operator === 'bearish_cross') conditionMet = stochastic.slowK < stochastic.slowD;
+
+      results.push({
+        condition: `Stochastic ${operatorText}`,
+        actual: `%K=${stochastic.slowK.toFixed(2)}, %D=${stochastic.slowD.toFixed(2)}`,
+        result: conditionMet,
+        details: `SlowK=${stochastic.slowK.toFixed(2)}, SlowD=${stochastic.slowD.toFixed(2)}`
+      });
+
+      if (conditionMet) {
+        reasons.push(`Stochastic ${operatorText}`);
+      } else {
+        failedReasons.push(`Stochastic ${operatorText} not met`);
+      }
+    }
+  }
+
+  return {
+    allMet: results.length > 0 && results.every(r => r.result),
+    reasons,
+    failedReasons,
+    conditions: results
+  };
+}
+
+// ===== Exit evaluation =====
+
+/**
+ * Evaluate exit conditions for an open position
+ *
+ * Priority:
+ * 1. Risk management (stop loss, trailing stop, take profit) - always checked
+ * 2. Technical exit signals
+ * 3. Time-based exits
+ *
+ * Signals that need history (divergence, slope, crossings) are only evaluated
+ * when a bar series is available.
+ */
+export function evaluateExitConditions(
+  exitConditions: ExitConditions | StrategyCondition,
+  readings: IndicatorReading[],
+  context: ExitContext
+): ExitEvaluation {
+  const results: ConditionTrace[] = [];
+  const reasons: string[] = [];
+  const newFormat = isNewExitFormat(exitConditions);
+
+  // 1. Risk management
+  const riskManagementTriggered = evaluateRiskExits(
+    newFormat ? (exitConditions as ExitConditions) : {},
+    readings,
+    context,
+    results,
+    reasons
+  );
+
+  // 2. Technical exits
+  let technicalExitTriggered = false;
+  if (!riskManagementTriggered) {
+    if (newFormat) {
+      technicalExitTriggered = evaluateTechnicalExits(exitConditions as ExitConditions, readings, context, results, reasons);
+    } else {
+      // Backward compatibility: legacy exit conditions must all be met
+      const legacy = evaluateEntryConditions(exitConditions as StrategyCondition, readings, context.currentPrice);
+      results.push(...legacy.conditions);
+      if (legacy.allMet) {
+        technicalExitTriggered = true;
+        reasons.push(...legacy.reasons);
+      }
+    }
+  }
+
+  // 3. Time-based exits (legacy exit conditions only get the profile's holding period)
+  let timeBasedExitTriggered = false;
+  if (!riskManagementTriggered && !technicalExitTriggered) {
+    timeBasedExitTriggered = evaluateTimeBasedExit(
+      newFormat ? (exitConditions as ExitConditions) : {},
+      context,
+      results,
+      reasons
+    );
+  }
+
+  return {
+    triggered: riskManagementTriggered || technicalExitTriggered || timeBasedExitTriggered,
+    riskManagementTriggered,
+    technicalExitTriggered,
+    timeBasedExitTriggered,
+    reasons,
+    conditions: results
+  };
+}
+
+/**
+ * Stop / target prices for a position (strategy stopLoss/takeProfit unless the exit conditions configure their own)
+ * The saved profile's trailing stop applies when the exit conditions configure no stop loss.
+ * Shared with broker-side protective orders (protectiveOrders.ts).
+ */
+export function resolveExitLevels(
+  exit: ExitConditions,
+  entryPrice: number,
+  percents: { stopLossPercent: number; takeProfitPercent: number; profileExits?: ProfileExitRules | null },
+  readings: IndicatorReading[],
+  bars?: StrategyBar[]
+): ExitLevels {
+  let stopPrice = entryPrice * (1 - percents.stopLossPercent / 100);
+  let stopLabel = `Stop Loss (${percents.stopLossPercent}%)`;
+
+  if (exit.stopLoss?.enabled) {
+    if (exit.stopLoss.type === 'fixed_price') {
+      stopPrice = exit.stopLoss.value;
+      stopLabel = `Stop Loss ($${exit.stopLoss.value})`;
+    } else if (exit.stopLoss.type === 'atr_based') {
+      const atr = numericReading(readings, 'atr', ATR_PERIOD) ??
+        (bars ? TechnicalIndicatorCalculator.calculateATR(bars, ATR_PERIOD) : null);
+      if (atr !== null) {
+        stopPrice = entryPrice - exit.stopLoss.value * atr;
+        stopLabel = `Stop Loss (${exit.stopLoss.value}x ATR)`;
+      }
+    } else {
+      stopPrice = entryPrice * (1 - exit.stopLoss.value / 100);
+      stopLabel = `Stop Loss (${exit.stopLoss.value}%)`;
+    }
+  }
+
+  let targetPrice = entryPrice * (1 + percents.takeProfitPercent / 100);
+  let targetLabel = `Take Profit (${percents.takeProfitPercent}%)`;
+
+  if (exit.takeProfit?.enabled) {
+    if (exit.takeProfit.type === 'fixed_price') {
+      targetPrice = exit.takeProfit.value;
+      targetLabel = `Take Profit ($${exit.takeProfit.value})`;
+    } else if (exit.takeProfit.type === 'risk_reward_ratio') {
+      targetPrice = entryPrice + exit.takeProfit.value * (entryPrice - stopPrice);
+      targetLabel = `Take Profit (${exit.takeProfit.value}R)`;
+    } else {
+      targetPrice = entryPrice * (1 + exit.takeProfit.value / 100);
+      targetLabel = `Take Profit (${exit.takeProfit.value}%)`;
+    }
+  }
+
+  const profileExits = exit.stopLoss?.enabled ? null : percents.profileExits;
+  const trailingDistance = exit.stopLoss?.enabled && exit.stopLoss.trailingEnabled
+    ? exit.stopLoss.trailingDistance || exit.stopLoss.value
+    : profileExits?.trailingPercent ?? null;
+  const trailingActivationPrice = trailingDistance !== null && profileExits?.trailingActivationPercent
+    ? entryPrice * (1 + profileExits.trailingActivationPercent / 100)
+    : null;
+
+  return { stopPrice, stopLabel, targetPrice, targetLabel, trailingDistance, trailingActivationPrice };
+}
+
+function evaluateRiskExits(
+  exit: ExitConditions,
+  readings: IndicatorReading[],
+  context: ExitContext,
+  results: ConditionTrace[],
+  reasons: string[]
+): boolean {
+  const { currentPrice, position } = context;
+  const entryPrice = position.entryPrice;
+  let triggered = false;
+
+  const levels = resolveExitLevels(exit, entryPrice, context, readings, context.bars);
+  const { targetPrice, targetLabel, trailingDistance, trailingActivationPrice } = levels;
+  let { stopPrice, stopLabel } = levels;
+
+  // 일부 익절 후 남은 수량은 본전(평균 진입가) 아래로 내려가지 않도록 손절가 상향
+  if (position.breakevenPrice && position.breakevenPrice > stopPrice) {
+    stopPrice = position.breakevenPrice;
+    stopLabel = 'Stop Loss (breakeven)';
+  }
+
+  const stopTriggered = currentPrice <= stopPrice;
+  results.push({
+    condition: stopLabel,
+    actual: `Current: ${currentPrice}, Stop: ${stopPrice.toFixed(2)}`,
+    result: stopTriggered,
+    details: 'Fixed stop loss'
+  });
+  if (stopTriggered) {
+    triggered = true;
+    reasons.push(`Stop loss triggered at ${stopPrice.toFixed(2)}`);
+  }
+
+  // Trailing stop: distance from the highest close since entry
+  if (trailingDistance !== null) {
+    const distance = trailingDistance;
+    const entryTime = position.entryTime;
+    const closesSinceEntry = context.bars
+      ? context.bars
+          .filter(b => !entryTime || b.timestamp.getTime() >= entryTime.getTime())
+          .map(b => b.close)
+      : [];
+    const peak = Math.max(entryPrice, position.peakPrice ?? entryPrice, currentPrice, ...closesSinceEntry);
+    const trailingStop = peak * (1 - distance / 100);
+    // 활성화 수익률 도달 전에는 고정 손절만 적용
+    const armed = trailingActivationPrice === null || peak >= trailingActivationPrice;
+    const trailingTriggered = armed && currentPrice <= trailingStop;
+
+    results.push({
+      condition: `Trailing Stop (${distance}%)`,
+      actual: `Current: ${currentPrice}, Peak: ${peak.toFixed(2)}, Stop: ${trailingStop.toFixed(2)}`,
+      result: trailingTriggered,
+      details: armed ? 'Trailing stop loss active' : `Arms once price reaches ${trailingActivationPrice!.toFixed(2)}`
+    });
+    if (trailingTriggered && !stopTriggered) {
+      triggered = true;
+      reasons.push(`Trailing stop triggered at ${trailingStop.toFixed(2)} (peak ${peak.toFixed(2)})`);
+    }
+  }
+
+  // Take profit
+  const takeProfitTriggered = currentPrice >= targetPrice;
+  results.push({
+    condition: targetLabel,
+    actual: `Current: ${currentPrice}, Target: ${targetPrice.toFixed(2)}`,
+    result: takeProfitTriggered,
+    details: exit.takeProfit?.partialTakingEnabled ? 'Partial profit taking enabled' : 'Full profit taking'
+  });
+  if (takeProfitTriggered) {
+    triggered = true;
+    reasons.push(`Take profit triggered at ${targetPrice.toFixed(2)}`);
+  }
+
+  return triggered;
+}
+
+function evaluateTechnicalExits(
+  exit: ExitConditions,
+  readings: IndicatorReading[],
+  context: ExitContext,
+  results: ConditionTrace[],
+  reasons: string[]
+): boolean {
+  const indicators = exit.indicators || [];
+  if (indicators.length === 0) return false;
+
+  const { currentPrice, bars } = context;
+  const closes = bars ? bars.map(b => b.close) : null;
+  const previousPrice = closes && closes.length > 1 ? closes[closes.length - 2] : null;
+  let triggered = false;
+
+  const push = (condition: string, actual: string, result: boolean, details: string) => {
+    results.push({ condition, actual, result, details });
+    if (result) {
+      triggered = true;
+      reasons.push(actual);
+    }
+  };
+  const requiresHistory = (condition: string, analysis: string, details: string) =>
+    results.push({ condition, actual: `${analysis} (requires historical data)`, result: false, details });
+
+  // RSI exits
+  if (indicators.indexOf('RSI') >= 0 && exit.rsi) {
+    const period = exit.rsi.period || 14;
+    const rsi = numericReading(readings, 'rsi', period);
+
+    if (rsi !== null) {
+      const condition = `RSI Exit (${exit.rsi.exitSignal})`;
+      const details = `RSI ${period}-period = ${rsi.toFixed(2)}`;
+
+      if (exit.rsi.exitSignal === 'overbought') {
+        const threshold = exit.rsi.overboughtThreshold || 70;
+        push(condition, `RSI overbought (${rsi.toFixed(2)} > ${threshold})`, rsi > threshold, details);
+      } else if (exit.rsi.exitSignal === 'momentum_reversal') {
+        const threshold = exit.rsi.momentumThreshold || 50;
+        push(condition, `RSI momentum reversal (${rsi.toFixed(2)} < ${threshold})`, rsi < threshold, details);
+      } else if (exit.rsi.exitSignal === 'divergence') {
+        if (bars && closes) {
+          const rsiSeries = TechnicalIndicatorCalculator.calculateRSISeries(bars, period);
+          push(condition, 'RSI bearish divergence (price higher high, RSI lower high)', hasBearishDivergence(closes, rsiSeries), details);
+        } else {
+          requiresHistory(condition, 'RSI divergence analysis', details);
+        }
+      }
+    }
+  }
+
+  // MACD exits
+  if (indicators.indexOf('MACD') >= 0 && exit.macd) {
+    const macdData = objectReading<{ macdLine: number | null; signalLine: number | null; histogram: number | null }>(
+      readings, 'macd', ['macdLine', 'signalLine', 'histogram']
+    );
+
+    if (macdData) {
+      const condition = `MACD Exit (${exit.macd.exitSignal})`;
+      const details = `MACD=${macdData.macdLine.toFixed(4)}, Signal=${macdData.signalLine.toFixed(4)}`;
+
+      if (exit.macd.exitSignal === 'bearish_crossover') {
+        push(condition, `MACD bearish crossover (${macdData.macdLine.toFixed(4)} < ${macdData.signalLine.toFixed(4)})`, macdData.macdLine < macdData.signalLine, details);
+      } else if (exit.macd.exitSignal === 'histogram_negative') {
+        push(condition, `MACD histogram negative (${macdData.histogram.toFixed(4)})`, macdData.histogram < 0, details);
+      } else if (exit.macd.exitSignal === 'divergence') {
+        if (bars && closes) {
+          const macdSeries = TechnicalIndicatorCalculator.calculateMACDSeries(
+            bars,
+            exit.macd.fastPeriod || 12,
+            exit.macd.slowPeriod || 26,
+            exit.macd.signalPeriod || 9
+          );
+          push(condition, 'MACD bearish divergence (price higher high, MACD lower high)',
+            hasBearishDivergence(closes, macdSeries.map(m => m.macdLine)), details);
+        } else {
+          requiresHistory(condition, 'MACD divergence analysis', details);
+        }
+      }
+    }
+  }
+
+  // Moving average exits
+  const movingAverageExits: Array<{ name: 'SMA' | 'EMA'; type: IndicatorType; config?: ExitConditions['sma'] }> = [
+    { name: 'SMA', type: 'sma', config: exit.sma },
+    { name: 'EMA', type: 'ema', config: exit.ema },
+  ];
+
+  movingAverageExits.forEach(({ name, type, config }) => {
+    if (indicators.indexOf(name) < 0 || !config) return;
+
+    const value = numericReading(readings, type, config.period);
+    if (value === null) return;
+
+    const series = closes
+      ? (name === 'SMA'
+          ? TechnicalIndicatorCalculator.calculateSMASeries(closes, config.period)
+          : TechnicalIndicatorCalculator.calculateEMASeries(closes, config.period))
+      : null;
+    const previousValue = series && series.length > 1 ? series[series.length - 2] : null;
+    const condition = `${name} Exit (${config.exitSignal})`;
+    const details = `Price=${currentPrice}, ${name} ${config.period}=${value.toFixed(2)}`;
+
+    if (config.exitSignal === 'price_below') {
+      push(condition, `Price below ${name} (${currentPrice} < ${value.toFixed(2)})`, currentPrice < value, details);
+    } else if (config.exitSignal === 'cross_below') {
+      // Without history, price below the average is the best available approximation
+      const crossed = series
+        ? previousPrice !== null && previousValue !== null && previousPrice >= previousValue && currentPrice < value
+        : currentPrice < value;
+      push(condition, `Price crossed below ${name} (${currentPrice} < ${value.toFixed(2)})`, crossed, details);
+    } else if (config.exitSignal === 'slope_negative') {
+      if (series) {
+        const falling = previousValue !== null && value < previousValue;
+        push(condition, `${name} slope negative (${previousValue?.toFixed(2) ?? 'N/A'} → ${value.toFixed(2)})`, falling, details);
+      } else {
+        requiresHistory(condition, `${name} slope analysis`, details);
+      }
+    }
+  });
+
+  // Bollinger Bands exits
+  if ((indicators.indexOf('BB') >= 0 || indicators.indexOf('BBANDS') >= 0) && exit.bb) {
+    const bands = objectReading<{ upper: number | null; middle: number | null; lower: number | null }>(
+      readings, 'bollinger', ['upper', 'middle', 'lower']
+    );
+
+    if (bands) {
+      const condition = `BB Exit (${exit.bb.exitSignal})`;
+      const details = `Upper=${bands.upper.toFixed(2)}, Middle=${bands.middle.toFixed(2)}, Lower=${bands.lower.toFixed(2)}`;
+      const previous = bars && bars.length > 1
+        ? TechnicalIndicatorCalculator.calculateBollingerBands(bars.slice(0, -1), exit.bb.period || 20, exit.bb.stdDev || 2)
+        : null;
+
+      if (exit.bb.exitSignal === 'touch_upper') {
+        push(condition, `Price touched upper band (${currentPrice} >= ${bands.upper.toFixed(2)})`, currentPrice >= bands.upper, details);
+      } else if (exit.bb.exitSignal === 'break_middle_down') {
+        const broke = previous
+          ? previousPrice !== null && previous.middle !== null && previousPrice >= previous.middle && currentPrice < bands.middle
+          : currentPrice < bands.middle;
+        push(condition, `Price broke below middle band (${currentPrice} < ${bands.middle.toFixed(2)})`, broke, details);
+      } else if (exit.bb.exitSignal === 'squeeze_release') {
+        const currentWidth = (bands.upper - bands.lower) / bands.middle;
+        if (previous) {
+          const previousWidth = previous.upper !== null && previous.lower !== null && previous.middle !== null
+            ? (previous.upper - previous.lower) / previous.middle
+            : null;
+          const released = previousWidth !== null && previousWidth < BAND_SQUEEZE_WIDTH && currentWidth >= BAND_SQUEEZE_WIDTH;
+          push(condition, `Band squeeze released (width ${(currentWidth * 100).toFixed(2)}%)`, released, details);
+        } else {
+          requiresHistory(condition, 'Band squeeze analysis', details);
+        }
+      }
+    }
+  }
+
+  // Stochastic exits
+  if ((indicators.indexOf('STOCH') >= 0 || indicators.indexOf('STOCHASTIC') >= 0) && exit.stochastic) {
+    const stochastic = objectReading<{ slowK: number | null; slowD: number | null }>(
+      readings, 'stochastic', ['slowK', 'slowD']
+    );
+
+    if (stochastic) {
+      const condition = `Stochastic Exit (${exit.stochastic.exitSignal})`;
+      const details = `SlowK=${stochastic.slowK.toFixed(2)}, SlowD=${stochastic.slowD.toFixed(2)}`;
+      const series = bars
+        ? TechnicalIndicatorCalculator.calculateStochasticSeries(
+            bars,
+            exit.stochastic.fastkperiod || 5,
+            exit.stochastic.slowkperiod || 3,
+            exit.stochastic.slowdperiod || 3
+          )
+        : null;
+
+      if (exit.stochastic.exitSignal === 'overbought') {
+        const threshold = exit.stochastic.overboughtThreshold || 80;
+        push(condition, `Stochastic overbought (%K ${stochastic.slowK.toFixed(2)} > ${threshold})`, stochastic.slowK > threshold, details);
+      } else if (exit.stochastic.exitSignal === 'bearish_cross') {
+        const previous = series && series.length > 1 ? series[series.length - 2] : null;
+        const crossed = series
+          ? previous !== null && previous.slowK !== null && previous.slowD !== null &&
+            previous.slowK >= previous.slowD && stochastic.slowK < stochastic.slowD
+          : stochastic.slowK < stochastic.slowD;
+        push(condition, `Stochastic bearish cross (%K ${stochastic.slowK.toFixed(2)} < %D ${stochastic.slowD.toFixed(2)})`, crossed, details);
+      } else if (exit.stochastic.exitSignal === 'divergence') {
+        if (series && closes) {
+          push(condition, 'Stochastic bearish divergence (price higher high, %K lower high)',
+            hasBearishDivergence(closes, series.map(s => s.slowK)), details);
+        } else {
+          requiresHistory(condition, 'Stochastic divergence analysis', details);
+        }
+      }
+    }
+  }
+
+  return triggered;
+}
+
+function evaluateTimeBasedExit(
+  exit: ExitConditions,
+  context: ExitContext,
+  results: ConditionTrace[],
+  reasons: string[]
+): boolean {
+  // 전략에 시간 기반 청산이 없으면 저장 프로필의 최대 보유 기간 적용
+  const timeBased = exit.timeBasedExit?.enabled
+    ? exit.timeBasedExit
+    : { maxHoldTime: context.profileExits?.maxHoldMinutes ?? undefined, endOfDayExit: false, weekendExit: false };
+  if (!timeBased.maxHoldTime && !timeBased.endOfDayExit && !timeBased.weekendExit) return false;
+
+  const current = context.timestamp;
+  if (!current) return false;
+
+  const { maxHoldTime, endOfDayExit, weekendExit } = timeBased;
+  let triggered = false;
+
+  if (maxHoldTime && context.position.entryTime) {
+    const heldMinutes = (current.getTime() - context.position.entryTime.getTime()) / (1000 * 60);
+    const exceeded = heldMinutes >= maxHoldTime;
+    results.push({
+      condition: `Max Hold Time (${maxHoldTime} min)`,
+      actual: `Held ${heldMinutes.toFixed(0)} min`,
+      result: exceeded
+    });
+    if (exceeded) {
+      triggered = true;
+      reasons.push('Maximum hold time exceeded');
+    }
+  }
+
+  const { weekday, minutes } = getEasternTime(current);
+  const atSessionClose = !context.isIntraday || minutes >= INTRADAY_SESSION_CLOSE_MINUTES;
+
+  // End-of-day exits only apply to intraday bars (daily bars are already end of day)
+  if (endOfDayExit && context.isIntraday) {
+    results.push({
+      condition: 'End of Day Exit',
+      actual: `Bar time ${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')} ET`,
+      result: atSessionClose
+    });
+    if (atSessionClose) {
+      triggered = true;
+      reasons.push('End of day exit');
+    }
+  }
+
+  if (weekendExit) {
+    const beforeWeekend = weekday === 5 && atSessionClose;
+    results.push({
+      condition: 'Weekend Exit',
+      actual: beforeWeekend ? 'Friday session close' : 'Not before weekend',
+      result: beforeWeekend
+    });
+    if (beforeWeekend) {
+      triggered = true;
+      reasons.push('Weekend exit');
+    }
+  }
+
+  return triggered;
+}
+
+/**
+ * Bearish divergence: the latest close is a new high within the lookback window,
+ * but the oscillator is below its value at the previous price high.
+ */
+function hasBearishDivergence(closes: number[], oscillator: (number | null)[]): boolean {
+  const last = closes.length - 1;
+  const start = Math.max(0, last - DIVERGENCE_LOOKBACK);
+  if (last - start < 2) return false;
+
+  let previousPeak = start;
+  for (let i = start; i < last; i++) {
+    if (closes[i] > closes[previousPeak]) previousPeak = i;
+  }
+
+  const currentValue = oscillator[last];
+  const peakValue = oscillator[previousPeak];
+  if (currentValue === null || currentValue === undefined || peakValue === null || peakValue === undefined) return false;
+
+  return closes[last] > closes[previousPeak] && currentValue < peakValue;
+}
+
+function getEasternTime(date: Date): { weekday: number; minutes: number } {
+  const eastern = new Date(date.toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  return {
+    weekday: eastern.getDay(),
+    minutes: eastern.getHours() * 60 + eastern.getMinutes(),
+  };
+}
+
+// ===== Decision =====
+
+/**
+ * Technical score: +0.5/n per met condition, -0.5/n per unmet condition
+ */
+export function calculateTechnicalScore(conditions?: ConditionTrace[]): number {
+  if (!conditions || conditions.length === 0) {
+    return 0;
+  }
+
+  const scorePerCondition = 0.5 / conditions.length;
+  return conditions.reduce((sum, c) => sum + (c.result ? scorePerCondition : -scorePerCondition), 0);
+}
+
+/**
+ * Evaluate a strategy at a single point in time
+ *
+ * With a decisionConfig the technical score is compared to its buy / sell thresholds instead of
+ * requiring every entry condition (no news or GPT here, so the score is the objective score).
+ *
+ * - With an open position: exit conditions are checked first (SELL), then entry (BUY = add)
+ * - Without a position: entry conditions only (BUY or HOLD)
+ *
+ * Indicators come from `market.indicators` when given, otherwise they are
+ * calculated from `market.bars`.
+ */
+export function evaluateStrategy(
+  strategy: PreparedStrategy,
+  market: MarketInput,
+  position?: PositionState | null
+): StrategyDecision {
+  const bars = market.bars && market.bars.length > 0 ? market.bars : undefined;
+  const lastBar = bars ? bars[bars.length - 1] : undefined;
+  const currentPrice = market.currentPrice ?? lastBar?.close;
+
+  if (currentPrice === undefined) {
+    throw new Error('evaluateStrategy requires bars or a current price');
+  }
+
+  const requests = position
+    ? strategy.entryIndicators.concat(strategy.exitIndicators)
+    : strategy.entryIndicators;
+  const indicators = resolveIndicators(requests, market.indicators, bars);
+
+  let exit: ExitEvaluation | null = null;
+  if (position) {
+    exit = evaluateExitConditions(strategy.exit, indicators, {
+      currentPrice,
+      position,
+      bars,
+      timestamp: market.timestamp ?? lastBar?.timestamp,
+      stopLossPercent: strategy.stopLossPercent,
+      takeProfitPercent: strategy.takeProfitPercent,
+      isIntraday: strategy.isIntraday,
+      profileExits: strategy.profileExits,
+    });
+  }
+
+  const entry = evaluateEntryConditions(strategy.entry, indicators, currentPrice);
+
+  let action: StrategyDecision['action'] = 'HOLD';
+  let reason = entry.failedReasons.length > 0
+    ? `Entry conditions not met: ${entry.failedReasons.join(', ')}`
+    : 'No conditions met';
+
+  const thresholds = strategy.decisionConfig ? strategy.decisionConfig.thresholds : null;
+  const entryScore = calculateTechnicalScore(entry.conditions);
+
+  if (exit?.triggered) {
+    action = 'SELL';
+    reason = exit.reasons.join('; ');
+  } else if (thresholds) {
+    if (position && entryScore <= thresholds.sell) {
+      action = 'SELL';
+      reason = `Technical score ${entryScore.toFixed(2)} <= sell threshold ${thresholds.sell}`;
+    } else if (entry.conditions.length > 0 && entryScore >= thresholds.buy) {
+      action = 'BUY';
+      reason = `Technical score ${entryScore.toFixed(2)} >= buy threshold ${thresholds.buy}`;
+    }
+  } else if (entry.allMet) {
+    action = 'BUY';
+    reason = entry.conditions.map(c => c.condition).join(', ');
+  }
+
+  return {
+    action,
+    reason,
+    entry,
+    exit,
+    trace: entry.conditions.concat(exit ? exit.conditions : []),
+    technicalScore: action === 'SELL' && exit?.triggered ? calculateTechnicalScore(exit.conditions) : entryScore,
+    indicators,
+  };
+}
+
+/**
+ * Use the provided snapshot where possible and calculate anything missing from bars
+ */
+function resolveIndicators(
+  requests: IndicatorRequest[],
+  snapshot: IndicatorReading[] | undefined,
+  bars: StrategyBar[] | undefined
+): IndicatorReading[] {
+  const readings = snapshot ? snapshot.slice() : [];
+  if (!bars) return readings;
+
+  const covers = (reading: { indicator: string; params: any }, request: IndicatorRequest) =>
+    reading.indicator === request.type &&
+    (request.params?.period === undefined || reading.params?.period === request.params.period);
+
+  const missing: IndicatorRequest[] = [];
+  requests.forEach(request => {
+    const covered = readings.some(r => covers(r, request)) ||
+      missing.some(m => covers({ indicator: m.type, params: m.params }, request));
+    if (!covered) missing.push(request);
+  });
+
+  return readings.concat(computeIndicatorReadings(bars, missing));
+}
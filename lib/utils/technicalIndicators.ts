@@ -48,61 +48,126 @@ export class TechnicalIndicatorCalculator {
     return ema;
   }
 
-  // Relative Strength Index
-  static calculateRSI(data: MarketDataPoint[], period: number = 14): number | null {
-    if (data.length < period + 1) return null;
+  // Simple Moving Average series (aligned to input, null until enough data)
+  static calculateSMASeries(data: number[], period: number): (number | null)[] {
+    const series: (number | null)[] = [];
+    let sum = 0;
 
-    const closes = data.map(d => d.close);
-    const gains: number[] = [];
-    const losses: number[] = [];
-
-    // Calculate gains and losses
-    for (let i = 1; i < closes.length; i++) {
-      const change = closes[i] - closes[i - 1];
-      gains.push(change > 0 ? change : 0);
-      losses.push(change < 0 ? Math.abs(change) : 0);
+    for (let i = 0; i < data.length; i++) {
+      sum += data[i];
+      if (i >= period) sum -= data[i - period];
+      series.push(i >= period - 1 ? sum / period : null);
+    }
+
+    return series;
+  }
+
+  // Exponential Moving Average series (aligned to input, seeded with the first SMA)
+  static calculateEMASeries(data: number[], period: number): (number | null)[] {
+    const series: (number | null)[] = [];
+    if (data.length < period) return data.map(() => null);
+
+    const multiplier = 2 / (period + 1);
+    let ema = data.slice(0, period).reduce((acc, val) => acc + val, 0) / period;
+
+    for (let i = 0; i < data.length; i++) {
+      if (i < period - 1) {
+        series.push(null);
+      } else if (i === period - 1) {
+        series.push(ema);
+      } else {
+        ema = (data[i] * multiplier) + (ema * (1 - multiplier));
+        series.push(ema);
+      }
     }
 
-    if (gains.length < period) return null;
+    return series;
+  }
+
+  // Relative Strength Index (Wilder smoothing, same as Alpha Vantage / TA-Lib)
+  static calculateRSI(data: MarketDataPoint[], period: number = 14): number | null {
+    const series = this.calculateRSISeries(data, period);
+    return series.length > 0 ? series[series.length - 1] : null;
+  }
+
+  // RSI series (aligned to input, first value at index `period`)
+  static calculateRSISeries(data: MarketDataPoint[], period: number = 14): (number | null)[] {
+    const series: (number | null)[] = data.map(() => null);
+    if (data.length < period + 1) return series;
 
-    // Calculate average gains and losses
-    const avgGain = this.calculateSMA(gains.slice(-period), period) || 0;
-    const avgLoss = this.calculateSMA(losses.slice(-period), period) || 0;
+    let avgGain = 0;
+    let avgLoss = 0;
 
-    if (avgLoss === 0) return 100;
+    // Seed with simple averages of the first `period` changes
+    for (let i = 1; i <= period; i++) {
+      const change = data[i].close - data[i - 1].close;
+      if (change > 0) avgGain += change;
+      else avgLoss -= change;
+    }
+    avgGain /= period;
+    avgLoss /= period;
+    series[period] = this.rsiFromAverages(avgGain, avgLoss);
+
+    for (let i = period + 1; i < data.length; i++) {
+      const change = data[i].close - data[i - 1].close;
+      avgGain = ((avgGain * (period - 1)) + (change > 0 ? change : 0)) / period;
+      avgLoss = ((avgLoss * (period - 1)) + (change < 0 ? -change : 0)) / period;
+      series[i] = this.rsiFromAverages(avgGain, avgLoss);
+    }
 
-    const rs = avgGain / avgLoss;
-    const rsi = 100 - (100 / (1 + rs));
+    return series;
+  }
 
-    return rsi;
+  private static rsiFromAverages(avgGain: number, avgLoss: number): number {
+    const total = avgGain + avgLoss;
+    return total === 0 ? 0 : (100 * avgGain) / total;
   }
 
-  // MACD Calculation
+  // MACD Calculation (signal line = EMA of the MACD line)
   static calculateMACD(data: MarketDataPoint[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9): {
     macdLine: number | null;
     signalLine: number | null;
     histogram: number | null;
   } {
-    const closes = data.map(d => d.close);
+    const series = this.calculateMACDSeries(data, fastPeriod, slowPeriod, signalPeriod);
+    const latest = series[series.length - 1];
 
-    const ema12 = this.calculateEMA(closes, fastPeriod);
-    const ema26 = this.calculateEMA(closes, slowPeriod);
+    return latest || { macdLine: null, signalLine: null, histogram: null };
+  }
 
-    if (ema12 === null || ema26 === null) {
-      return { macdLine: null, signalLine: null, histogram: null };
-    }
+  // MACD series (aligned to input)
+  static calculateMACDSeries(data: MarketDataPoint[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9): Array<{
+    macdLine: number | null;
+    signalLine: number | null;
+    histogram: number | null;
+  }> {
+    const closes = data.map(d => d.close);
+    const slowSeries = this.calculateEMASeries(closes, slowPeriod);
 
-    const macdLine = ema12 - ema26;
+    // Seed the fast EMA so both averages start on the same bar (TA-Lib MACD behaviour)
+    const fastOffset = Math.max(0, slowPeriod - fastPeriod);
+    const fastValues = this.calculateEMASeries(closes.slice(fastOffset), fastPeriod);
+    const fastSeries = closes.map((_, i) => (i >= fastOffset ? fastValues[i - fastOffset] : null));
 
-    // For signal line, we need MACD history - simplified for now
-    const signalLine = macdLine; // This would need proper EMA calculation on MACD values
-    const histogram = macdLine - signalLine;
+    const macdSeries = closes.map((_, i) => {
+      const fast = fastSeries[i];
+      const slow = slowSeries[i];
+      return fast !== null && slow !== null ? fast - slow : null;
+    });
 
-    return {
-      macdLine,
-      signalLine,
-      histogram
-    };
+    // Signal line is an EMA over the available MACD values
+    const firstMacdIndex = macdSeries.findIndex(value => value !== null);
+    const macdValues = firstMacdIndex >= 0 ? (macdSeries.slice(firstMacdIndex) as number[]) : [];
+    const signalValues = this.calculateEMASeries(macdValues, signalPeriod);
+
+    return macdSeries.map((macdLine, i) => {
+      const signalLine = firstMacdIndex >= 0 && i >= firstMacdIndex ? signalValues[i - firstMacdIndex] : null;
+      return {
+        macdLine,
+        signalLine,
+        histogram: macdLine !== null && signalLine !== null ? macdLine - signalLine : null
+      };
+    });
   }
 
   // Bollinger Bands
@@ -132,6 +197,118 @@ export class TechnicalIndicatorCalculator {
     };
   }
 
+  // Bollinger Bands series (aligned to input, population standard deviation like calculateBollingerBands)
+  static calculateBollingerBandsSeries(data: MarketDataPoint[], period: number = 20, stdDev: number = 2): Array<{
+    upper: number | null;
+    middle: number | null;
+    lower: number | null;
+  }> {
+    const closes = data.map(d => d.close);
+    const smaSeries = this.calculateSMASeries(closes, period);
+
+    return smaSeries.map((sma, i) => {
+      if (sma === null) return { upper: null, middle: null, lower: null };
+
+      const window = closes.slice(i - period + 1, i + 1);
+      const variance = window.reduce((acc, close) => acc + Math.pow(close - sma, 2), 0) / period;
+      const standardDeviation = Math.sqrt(variance);
+
+      return {
+        upper: sma + (standardDeviation * stdDev),
+        middle: sma,
+        lower: sma - (standardDeviation * stdDev)
+      };
+    });
+  }
+
+  // Stochastic Oscillator (slow %K / %D, SMA smoothing like Alpha Vantage STOCH with matype 0)
+  static calculateStochastic(data: MarketDataPoint[], fastkPeriod: number = 5, slowkPeriod: number = 3, slowdPeriod: number = 3): {
+    slowK: number | null;
+    slowD: number | null;
+  } {
+    const series = this.calculateStochasticSeries(data, fastkPeriod, slowkPeriod, slowdPeriod);
+    const latest = series[series.length - 1];
+
+    return latest || { slowK: null, slowD: null };
+  }
+
+  // Stochastic Oscillator series (aligned to input)
+  static calculateStochasticSeries(data: MarketDataPoint[], fastkPeriod: number = 5, slowkPeriod: number = 3, slowdPeriod: number = 3): Array<{
+    slowK: number | null;
+    slowD: number | null;
+  }> {
+    const fastK: (number | null)[] = data.map((_, i) => {
+      if (i < fastkPeriod - 1) return null;
+      const window = data.slice(i - fastkPeriod + 1, i + 1);
+      const highest = Math.max(...window.map(d => d.high));
+      const lowest = Math.min(...window.map(d => d.low));
+      if (highest === lowest) return 0;
+      return ((data[i].close - lowest) / (highest - lowest)) * 100;
+    });
+
+    const smoothNullable = (values: (number | null)[], period: number): (number | null)[] => {
+      const firstIndex = values.findIndex(value => value !== null);
+      if (firstIndex < 0) return values.map(() => null);
+      const smoothed = this.calculateSMASeries(values.slice(firstIndex) as number[], period);
+      return values.map((_, i) => (i >= firstIndex ? smoothed[i - firstIndex] : null));
+    };
+
+    const slowK = smoothNullable(fastK, slowkPeriod);
+    const slowD = smoothNullable(slowK, slowdPeriod);
+
+    return data.map((_, i) => ({ slowK: slowK[i], slowD: slowD[i] }));
+  }
+
+  // Average True Range (Wilder smoothing)
+  static calculateATR(data: MarketDataPoint[], period: number = 14): number | null {
+    if (data.length < period + 1) return null;
+
+    const trueRanges: number[] = [];
+    for (let i = 1; i < data.length; i++) {
+      const previousClose = data[i - 1].close;
+      trueRanges.push(Math.max(
+        data[i].high - data[i].low,
+        Math.abs(data[i].high - previousClose),
+        Math.abs(data[i].low - previousClose)
+      ));
+    }
+
+    let atr = trueRanges.slice(0, period).reduce((acc, val) => acc + val, 0) / period;
+    for (let i = period; i < trueRanges.length; i++) {
+      atr = ((atr * (period - 1)) + trueRanges[i]) / period;
+    }
+
+    return atr;
+  }
+
+  // ATR series (aligned to input, first value at index `period`)
+  static calculateATRSeries(data: MarketDataPoint[], period: number = 14): (number | null)[] {
+    const series: (number | null)[] = data.map(() => null);
+    if (data.length < period + 1) return series;
+
+    let atr = 0;
+    for (let i = 1; i < data.length; i++) {
+      const previousClose = data[i - 1].close;
+      const trueRange = Math.max(
+        data[i].high - data[i].low,
+        Math.abs(data[i].high - previousClose),
+        Math.abs(data[i].low - previousClose)
+      );
+
+      if (i < period) {
+        atr += trueRange;
+      } else if (i === period) {
+        atr = (atr + trueRange) / period;
+        series[i] = atr;
+      } else {
+        atr = ((atr * (period - 1)) + trueRange) / period;
+        series[i] = atr;
+      }
+    }
+
+    return series;
+  }
+
   // Calculate all indicators
   static calculateAllIndicators(data: MarketDataPoint[]): TechnicalIndicatorResults {
     const closes = data.map(d => d.close);
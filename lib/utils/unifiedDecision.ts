@@ -0,0 +1,377 @@
+/**
+ * Unified Decision
+ *
+ * Deterministic part of AITradingService.makeUnifiedDecision:
+ * - Objective score from news sentiment, social sentiment and the technical conditions
+ * - GPT adjustment safety limits (±0.5, damping with a concentrated position)
+ * - Stop loss / take profit checks and target-ratio rebalancing into an action and quantity
+ *
+ * Weights, enabled components and thresholds come from the strategy's DecisionConfig.
+ *
+ * The GPT call is the only network step, so a decision can be replayed from its recorded
+ * inputs (Report.decisionInputs) with the current code. No database or API access.
+ */
+
+import type { FMPNewsData } from '@/lib/types/fmpNews';
+import type { AITradeDecision, ActionType, CurrentPosition } from '@/lib/services/aiTradingService';
+import { roundOrderPrice } from './protectiveOrders';
+import { ConditionTrace, calculateTechnicalScore } from './strategyEngine';
+import { DecisionConfig, DEFAULT_DECISION_CONFIG } from './decisionConfig';
+
+export type TechnicalConditionResult = ConditionTrace;
+
+/**
+ * Everything makeUnifiedDecision uses besides the GPT judgement
+ */
+export interface DecisionInputs {
+  currentPrice: number;
+  currentPosition: CurrentPosition | null;
+  fundAllocation: number;
+  stopLoss: number;     // %
+  takeProfit: number;   // %
+  sentimentScore: number;   // Alpha Vantage 감성 점수
+  sentimentLabel: string;
+  socialScore: number;      // StockTwits + Twitter 평균 (없으면 0)
+  technicalSignal: boolean;
+  technicalConditions?: TechnicalConditionResult[];
+}
+
+/**
+ * Raw GPT response (before the safety limits)
+ */
+export interface GptJudgement {
+  adjustment: number;
+  reasoning: string;
+}
+
+/**
+ * Stored on Report.decisionInputs for replay (gpt = null when the GPT call failed)
+ */
+export interface RecordedDecisionInputs extends DecisionInputs {
+  gpt: GptJudgement | null;
+  gptError?: string;
+}
+
+export interface ObjectiveScore {
+  sentimentScore: number;
+  socialScore: number;
+  technicalScore: number;
+  baseScore: number;
+  scoreExplanation: string;
+  objectiveReasoning: string;
+}
+
+const GPT_DISABLED: GptJudgement = { adjustment: 0, reasoning: 'GPT 비활성화 (전략 설정)' };
+
+/**
+ * Social sentiment from the latest FMP reading (0 without data)
+ */
+export function socialScoreFromFMP(fmpNewsData?: FMPNewsData | null): number {
+  if (!fmpNewsData || fmpNewsData.socialSentiment.length === 0) return 0;
+
+  const latest = fmpNewsData.socialSentiment[0];
+  return (latest.stocktwitsSentiment + latest.twitterSentiment) / 2;
+}
+
+/**
+ * Objective score (before GPT) - disabled components count as missing data
+ */
+export function computeObjectiveScore(
+  inputs: DecisionInputs,
+  config: DecisionConfig = DEFAULT_DECISION_CONFIG
+): ObjectiveScore {
+  const { technicalConditions, technicalSignal } = inputs;
+  const { weights } = config;
+  const sentimentScore = config.components.news ? inputs.sentimentScore : 0;
+  const socialScore = config.components.social ? inputs.socialScore : 0;
+
+  const technicalScore = technicalConditions
+    ? calculateTechnicalScore(technicalConditions)
+    : (technicalSignal ? 0.5 : -0.5);  // fallback to old logic
+
+  let baseScore: number;
+  let scoreExplanation: string;
+
+  if (sentimentScore === 0 && socialScore !== 0) {
+    // Alpha Vantage 없고 소셜만 있음 → 소셜을 주요 소스로
+    baseScore = socialScore * weights.sentiment + technicalScore * weights.technical;
+    scoreExplanation = `소셜 ${socialScore.toFixed(2)} * ${weights.sentiment} + 기술 ${technicalScore.toFixed(2)} * ${weights.technical}`;
+  } else if (sentimentScore !== 0 && socialScore !== 0) {
+    // 둘 다 있음 → 감성 가중치 중 socialShare만큼 소셜에 배분
+    const newsWeight = weights.sentiment - weights.socialShare;
+    baseScore = sentimentScore * newsWeight + socialScore * weights.socialShare + technicalScore * weights.technical;
+    scoreExplanation = `Alpha ${sentimentScore.toFixed(2)} * ${parseFloat(newsWeight.toFixed(4))} + 소셜 ${socialScore.toFixed(2)} * ${weights.socialShare} + 기술 ${technicalScore.toFixed(2)} * ${weights.technical}`;
+  } else if (sentimentScore !== 0) {
+    // Alpha Vantage만 있음 → 기존 로직
+    baseScore = sentimentScore * weights.sentiment + technicalScore * weights.technical;
+    scoreExplanation = `Alpha ${sentimentScore.toFixed(2)} * ${weights.sentiment} + 기술 ${technicalScore.toFixed(2)} * ${weights.technical}`;
+  } else {
+    // 둘 다 없음 → 기술적 신호만
+    baseScore = technicalScore * 1.0;
+    scoreExplanation = `기술 ${technicalScore.toFixed(2)} * 1.0 (뉴스 데이터 없음)`;
+  }
+
+  const metConditions = technicalConditions
+    ? `${technicalConditions.filter(c => c.result).length}/${technicalConditions.length} 충족`
+    : (technicalSignal ? '충족' : '불충족');
+
+  const objectiveReasoning = [
+    `📊 객관적 분석:`,
+    `  • Alpha Vantage 감성: ${sentimentScore.toFixed(2)} (${inputs.sentimentLabel})`,
+    socialScore !== 0 ? `  • 소셜 감성: ${socialScore.toFixed(2)} (StockTwits + Twitter)` : null,
+    `  • 기술적 조건: ${technicalScore.toFixed(2)} (${metConditions})`,
+    `  • 기초 점수: ${baseScore.toFixed(2)} (${scoreExplanation})`
+  ].filter(Boolean).join('\n');
+
+  return { sentimentScore, socialScore, technicalScore, baseScore, scoreExplanation, objectiveReasoning };
+}
+
+/**
+ * Current position value / fund allocation
+ */
+export function currentPositionRatio(inputs: DecisionInputs): number {
+  const positionValue = inputs.currentPosition ? inputs.currentPosition.quantity * inputs.currentPrice : 0;
+  return inputs.fundAllocation > 0 ? positionValue / inputs.fundAllocation : 0;
+}
+
+/**
+ * 목표 포지션 비율 (신호 강도 기반, -1 = 현재 포지션 유지)
+ */
+export function calculateTargetPositionRatio(
+  finalScore: number,
+  thresholds: DecisionConfig['thresholds'] = DEFAULT_DECISION_CONFIG.thresholds
+): number {
+  if (finalScore >= thresholds.veryStrongBuy) {
+    // 매우 강한 신호: 80% (단일 종목 집중 투자)
+    return 0.80;
+  } else if (finalScore >= thresholds.strongBuy) {
+    // 강한 신호: 60%
+    return 0.60;
+  } else if (finalScore >= thresholds.buy) {
+    // 보통 신호: 40%
+    return 0.40;
+  } else if (finalScore <= thresholds.sell) {
+    // 강한 매도 신호: 0% (전량 매도)
+    return 0.0;
+  } else {
+    // HOLD 범위 (sell ~ buy): 현재 포지션 유지
+    return -1;
+  }
+}
+
+/**
+ * finalScore에 따른 리미트 가격 오프셋
+ * - 매우 긍정적 (0.7 이상): +0.3% (빠른 체결)
+ * - 긍정적 (0.3 ~ 0.7): 0% (시장가 수준)
+ * - 중립 (0.3 미만): -0.3% (저가 매수)
+ */
+export function calculateLimitPriceOffset(finalScore: number): number {
+  if (finalScore >= 0.7) {
+    return 0.003;
+  } else if (finalScore >= 0.3) {
+    return 0;
+  } else {
+    return -0.003;
+  }
+}
+
+/**
+ * Damping applied to a positive GPT adjustment once the position is over 50% of the fund
+ */
+export function positionDampingFactor(ratio: number): number {
+  return ratio > 0.5 ? Math.max(0.3, 1 - ((ratio - 0.5) * 1.5)) : 1;
+}
+
+/**
+ * GPT adjustment after the safety limits (±maxAdjustment, damping above 50% of the fund, no adds at 80%)
+ */
+export function limitGptAdjustment(
+  inputs: DecisionInputs,
+  gpt: GptJudgement,
+  maxAdjustment: number = DEFAULT_DECISION_CONFIG.maxGptAdjustment
+): { gptAdjustment: number; aiReasoning: string } {
+  let gptAdjustment = gpt.adjustment || 0;
+  let aiReasoning = gpt.reasoning || '판단 없음';
+  const currentRatio = currentPositionRatio(inputs);
+
+  if (Math.abs(gptAdjustment) > maxAdjustment) {
+    gptAdjustment = Math.sign(gptAdjustment) * maxAdjustment;
+    aiReasoning += ` (조정값이 제한됨: ±${maxAdjustment})`;
+  }
+
+  // 50% 이상 보유 중이면 긍정 조정값 감소
+  if (inputs.currentPosition && currentRatio > 0.5 && gptAdjustment > 0) {
+    const dampingFactor = positionDampingFactor(currentRatio);
+    const originalAdjustment = gptAdjustment;
+    gptAdjustment *= dampingFactor;
+    aiReasoning += ` [포지션 ${(currentRatio * 100).toFixed(1)}%로 조정값 ${originalAdjustment.toFixed(2)} → ${gptAdjustment.toFixed(2)} 감쇠]`;
+  }
+
+  // 80% 이상 보유 시 추가 매수 차단
+  if (inputs.currentPosition && currentRatio >= 0.8 && gptAdjustment > 0) {
+    gptAdjustment = Math.min(0, gptAdjustment);
+    aiReasoning += ` [포지션 ${(currentRatio * 100).toFixed(1)}% 집중도 초과 - 추가 매수 차단]`;
+  }
+
+  return { gptAdjustment, aiReasoning };
+}
+
+/**
+ * Final decision from the inputs and the GPT judgement
+ * - gpt null = the GPT call failed → objective score only
+ * - GPT disabled in the config → the judgement is ignored (adjustment 0)
+ */
+export function resolveUnifiedDecision(
+  inputs: DecisionInputs,
+  gpt: GptJudgement | null,
+  options: { config?: DecisionConfig; gptError?: string } = {}
+): AITradeDecision {
+  const config = options.config || DEFAULT_DECISION_CONFIG;
+  const objective = computeObjectiveScore(inputs, config);
+  const { currentPrice, currentPosition, fundAllocation, stopLoss, takeProfit } = inputs;
+  const objectiveScore = {
+    sentiment: objective.sentimentScore,
+    technical: objective.technicalScore,
+    baseScore: objective.baseScore
+  };
+  const profitPercent = currentPosition
+    ? ((currentPrice - currentPosition.entryPrice) / currentPosition.entryPrice) * 100
+    : 0;
+
+  const judgement = config.components.gpt ? gpt : GPT_DISABLED;
+  if (!judgement) {
+    return fallbackDecision(inputs, objective, objectiveScore, profitPercent, options.gptError || 'unknown error');
+  }
+
+  const { gptAdjustment, aiReasoning: limitedReasoning } = limitGptAdjustment(inputs, judgement, config.maxGptAdjustment);
+  let aiReasoning = limitedReasoning;
+  const finalScore = Math.max(-1.0, Math.min(1.0, objective.baseScore + gptAdjustment));
+
+  let action: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
+  let quantity = 0;
+  let sellType: 'FULL' | 'PARTIAL' | undefined;
+  let actionType: ActionType = 'HOLD';
+  let shouldTrade = false;
+
+  const currentPositionValue = currentPosition ? currentPosition.quantity * currentPrice : 0;
+  const currentRatio = currentPositionRatio(inputs);
+  const targetRatio = calculateTargetPositionRatio(finalScore, config.thresholds);
+
+  // Stop Loss / Take Profit 우선
+  if (currentPosition) {
+    if (profitPercent <= -stopLoss) {
+      action = 'SELL';
+      quantity = currentPosition.quantity;
+      sellType = 'FULL';
+      actionType = 'FULL_EXIT';
+      shouldTrade = true;
+      aiReasoning = `Stop Loss 도달 (${profitPercent.toFixed(2)}%). ${aiReasoning}`;
+    } else if (profitPercent >= takeProfit) {
+      action = 'SELL';
+      quantity = currentPosition.quantity;
+      sellType = 'FULL';
+      actionType = 'FULL_EXIT';
+      shouldTrade = true;
+      aiReasoning = `Take Profit 도달 (${profitPercent.toFixed(2)}%). ${aiReasoning}`;
+    }
+  }
+
+  // 목표 비율 기반 리밸런싱 (델타 ±5% 이내면 유지)
+  if (!shouldTrade && targetRatio >= 0) {
+    const deltaRatio = targetRatio - currentRatio;
+
+    if (deltaRatio > 0.05) {
+      action = 'BUY';
+      actionType = currentPosition ? 'ADD_TO_POSITION' : 'NEW_POSITION';
+
+      const additionalValue = fundAllocation * targetRatio - currentPositionValue;
+      const estimatedLimitPrice = currentPrice * (1 + calculateLimitPriceOffset(finalScore));
+      quantity = Math.floor(additionalValue / estimatedLimitPrice);
+
+      if (quantity > 0) shouldTrade = true;
+    } else if (deltaRatio < -0.05) {
+      if (currentPosition && currentPosition.quantity > 0) {
+        action = 'SELL';
+        quantity = Math.floor((currentPositionValue - fundAllocation * targetRatio) / currentPrice);
+
+        if (quantity >= currentPosition.quantity || targetRatio === 0) {
+          quantity = currentPosition.quantity;
+          sellType = 'FULL';
+          actionType = 'FULL_EXIT';
+        } else if (quantity > 0) {
+          sellType = 'PARTIAL';
+          actionType = 'PARTIAL_EXIT';
+        }
+
+        if (quantity > 0) shouldTrade = true;
+      }
+    }
+  }
+
+  // 기계적 오프셋: 매수 +0.15%, 매도 -0.10% (Alpaca 가격 규칙으로 반올림)
+  let limitPrice: number | undefined;
+  if (action === 'BUY' && quantity > 0) {
+    limitPrice = roundOrderPrice(currentPrice * 1.0015);
+  } else if (action === 'SELL' && quantity > 0) {
+    limitPrice = roundOrderPrice(currentPrice * 0.999);
+  }
+
+  return {
+    shouldTrade,
+    action,
+    actionType,
+    objectiveScore,
+    gptAdjustment,
+    finalScore,
+    objectiveReasoning: objective.objectiveReasoning,
+    aiReasoning,
+    limitPrice,
+    quantity,
+    sellType
+  };
+}
+
+// GPT 실패시 기본 로직 (기초 점수 + 손절/익절만으로 판단)
+function fallbackDecision(
+  inputs: DecisionInputs,
+  objective: ObjectiveScore,
+  objectiveScore: AITradeDecision['objectiveScore'],
+  profitPercent: number,
+  gptError: string
+): AITradeDecision {
+  const { currentPrice, currentPosition, fundAllocation, stopLoss, takeProfit } = inputs;
+  let action: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
+
+  if (currentPosition) {
+    if (profitPercent <= -stopLoss || profitPercent >= takeProfit) {
+      action = 'SELL';
+    } else if (objective.baseScore >= 0.5) {
+      action = 'BUY'; // 추가 매수
+    }
+  } else if (objective.baseScore >= 0.2) {
+    action = 'BUY';
+  }
+
+  let actionType: ActionType;
+  if (action === 'BUY') {
+    actionType = currentPosition ? 'ADD_TO_POSITION' : 'NEW_POSITION';
+  } else if (action === 'SELL') {
+    actionType = 'FULL_EXIT';
+  } else {
+    actionType = 'HOLD';
+  }
+
+  return {
+    shouldTrade: action !== 'HOLD',
+    action,
+    actionType,
+    objectiveScore,
+    gptAdjustment: 0,
+    finalScore: objective.baseScore,
+    objectiveReasoning: objective.objectiveReasoning,
+    aiReasoning: `GPT 분석 실패 (${gptError}). 기본 로직으로 판단.`,
+    limitPrice: roundOrderPrice(currentPrice),
+    quantity: action === 'BUY' ? Math.floor((fundAllocation * 0.3) / currentPrice) : (currentPosition?.quantity || 0),
+    sellType: action === 'SELL' && currentPosition ? 'FULL' : undefined
+  };
+}
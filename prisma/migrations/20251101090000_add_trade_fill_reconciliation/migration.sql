@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."trades" ADD COLUMN     "brokerStatus" TEXT,
+ADD COLUMN     "filledAvgPrice" DOUBLE PRECISION,
+ADD COLUMN     "filledQuantity" DOUBLE PRECISION,
+ADD COLUMN     "reconciledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "trades_alpacaOrderId_idx" ON "public"."trades"("alpacaOrderId");
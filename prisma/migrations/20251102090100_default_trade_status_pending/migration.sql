@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."trades" ALTER COLUMN "status" SET DEFAULT 'PENDING';
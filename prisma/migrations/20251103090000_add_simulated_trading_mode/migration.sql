@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."TradingMode" ADD VALUE 'SIMULATED';
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "public"."JobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELED');
+
+-- CreateTable
+CREATE TABLE "public"."jobs" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "botId" TEXT,
+    "payload" JSONB,
+    "status" "public"."JobStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastError" TEXT,
+    "result" JSONB,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."job_attempts" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "workerId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "success" BOOLEAN,
+    "error" TEXT,
+
+    CONSTRAINT "job_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "jobs_status_runAt_idx" ON "public"."jobs"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "jobs_botId_idx" ON "public"."jobs"("botId");
+
+-- CreateIndex
+CREATE INDEX "job_attempts_jobId_idx" ON "public"."job_attempts"("jobId");
+
+-- CreateIndex
+CREATE INDEX "job_attempts_startedAt_idx" ON "public"."job_attempts"("startedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."jobs" ADD CONSTRAINT "jobs_botId_fkey" FOREIGN KEY ("botId") REFERENCES "public"."bots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."job_attempts" ADD CONSTRAINT "job_attempts_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
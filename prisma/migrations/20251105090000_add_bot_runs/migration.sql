@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."BotRunTrigger" AS ENUM ('CRON', 'MANUAL', 'BULK');
+
+-- CreateEnum
+CREATE TYPE "public"."BotRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "public"."bot_runs" (
+    "id" TEXT NOT NULL,
+    "botId" TEXT NOT NULL,
+    "trigger" "public"."BotRunTrigger" NOT NULL,
+    "timeHorizon" "public"."TimeHorizon",
+    "jobId" TEXT,
+    "status" "public"."BotRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "decision" TEXT,
+    "tradeExecuted" BOOLEAN NOT NULL DEFAULT false,
+    "outcome" TEXT,
+    "error" TEXT,
+    "reportId" TEXT,
+    "tradeIds" TEXT[],
+    "apiCallCount" INTEGER NOT NULL DEFAULT 0,
+    "apiCalls" JSONB,
+
+    CONSTRAINT "bot_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bot_runs_botId_startedAt_idx" ON "public"."bot_runs"("botId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "bot_runs_status_idx" ON "public"."bot_runs"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."bot_runs" ADD CONSTRAINT "bot_runs_botId_fkey" FOREIGN KEY ("botId") REFERENCES "public"."bots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bot_runs" ADD CONSTRAINT "bot_runs_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "public"."reports"("id") ON DELETE SET NULL ON UPDATE CASCADE;
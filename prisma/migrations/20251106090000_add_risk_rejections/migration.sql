@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."RiskRule" AS ENUM ('MAX_TOTAL_EXPOSURE', 'MAX_LEVERAGE', 'SYMBOL_CONCENTRATION', 'SECTOR_CAP', 'DAILY_TRADE_COUNT', 'DAILY_LOSS_LIMIT');
+
+-- CreateTable
+CREATE TABLE "public"."risk_rejections" (
+    "id" TEXT NOT NULL,
+    "botId" TEXT,
+    "symbol" TEXT NOT NULL,
+    "side" "public"."TradeSide" NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "orderValue" DOUBLE PRECISION NOT NULL,
+    "rule" "public"."RiskRule" NOT NULL,
+    "message" TEXT NOT NULL,
+    "limitValue" DOUBLE PRECISION NOT NULL,
+    "actualValue" DOUBLE PRECISION NOT NULL,
+    "profileId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "risk_rejections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "risk_rejections_botId_createdAt_idx" ON "public"."risk_rejections"("botId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "risk_rejections_createdAt_idx" ON "public"."risk_rejections"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."risk_rejections" ADD CONSTRAINT "risk_rejections_botId_fkey" FOREIGN KEY ("botId") REFERENCES "public"."bots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "public"."TradingHaltAction" AS ENUM ('TRIP', 'RESUME');
+
+-- CreateEnum
+CREATE TYPE "public"."TradingHaltTrigger" AS ENUM ('MANUAL', 'ORDER_FAILURES', 'EQUITY_DRAWDOWN', 'STALE_PRICE_DATA');
+
+-- CreateTable
+CREATE TABLE "public"."trading_control" (
+    "id" TEXT NOT NULL DEFAULT 'global',
+    "halted" BOOLEAN NOT NULL DEFAULT false,
+    "haltedAt" TIMESTAMP(3),
+    "haltTrigger" "public"."TradingHaltTrigger",
+    "haltReason" TEXT,
+    "consecutiveOrderFailures" INTEGER NOT NULL DEFAULT 0,
+    "consecutiveStalePrices" INTEGER NOT NULL DEFAULT 0,
+    "equityPeaks" JSONB,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trading_control_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."trading_halt_events" (
+    "id" TEXT NOT NULL,
+    "action" "public"."TradingHaltAction" NOT NULL,
+    "trigger" "public"."TradingHaltTrigger" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "actor" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trading_halt_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trading_halt_events_createdAt_idx" ON "public"."trading_halt_events"("createdAt");
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "public"."strategies" ADD COLUMN     "profileId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."bots" ADD COLUMN     "profileId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."reports" ADD COLUMN     "profileVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."trading_profiles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "timeHorizon" "public"."TimeHorizon" NOT NULL,
+    "riskAppetite" "public"."RiskAppetite" NOT NULL,
+    "overrides" JSONB NOT NULL,
+    "currentVersion" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trading_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."trading_profile_versions" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "overrides" JSONB NOT NULL,
+    "config" JSONB NOT NULL,
+    "changeNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trading_profile_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trading_profile_versions_profileId_version_key" ON "public"."trading_profile_versions"("profileId", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."strategies" ADD CONSTRAINT "strategies_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."trading_profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bots" ADD CONSTRAINT "bots_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."trading_profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."reports" ADD CONSTRAINT "reports_profileVersionId_fkey" FOREIGN KEY ("profileVersionId") REFERENCES "public"."trading_profile_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."trading_profile_versions" ADD CONSTRAINT "trading_profile_versions_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."trading_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."ProfileAdjustmentStatus" AS ENUM ('PENDING', 'APPLIED', 'REJECTED', 'SUPERSEDED');
+
+-- CreateTable
+CREATE TABLE "public"."profile_adjustments" (
+    "id" TEXT NOT NULL,
+    "botId" TEXT NOT NULL,
+    "profileId" TEXT,
+    "status" "public"."ProfileAdjustmentStatus" NOT NULL DEFAULT 'PENDING',
+    "changes" JSONB NOT NULL,
+    "performance" JSONB NOT NULL,
+    "marketState" JSONB,
+    "autoApplied" BOOLEAN NOT NULL DEFAULT false,
+    "appliedProfileId" TEXT,
+    "appliedVersionId" TEXT,
+    "decidedBy" TEXT,
+    "decisionNote" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "profile_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "profile_adjustments_botId_createdAt_idx" ON "public"."profile_adjustments"("botId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "profile_adjustments_status_idx" ON "public"."profile_adjustments"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."profile_adjustments" ADD CONSTRAINT "profile_adjustments_botId_fkey" FOREIGN KEY ("botId") REFERENCES "public"."bots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."OrderExecutionStatus" AS ENUM ('WORKING', 'FILLED', 'UNFILLED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."order_executions" (
+    "id" TEXT NOT NULL,
+    "botId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "side" "public"."TradeSide" NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "status" "public"."OrderExecutionStatus" NOT NULL DEFAULT 'WORKING',
+    "referencePrice" DOUBLE PRECISION NOT NULL,
+    "initialLimitPrice" DOUBLE PRECISION,
+    "lastLimitPrice" DOUBLE PRECISION,
+    "initialOrderType" TEXT NOT NULL,
+    "marketFallback" BOOLEAN NOT NULL DEFAULT false,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "currentOrderId" TEXT,
+    "orderIds" TEXT[],
+    "filledQuantity" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "filledAvgPrice" DOUBLE PRECISION,
+    "slippage" DOUBLE PRECISION,
+    "priceImprovement" DOUBLE PRECISION,
+    "fillTimeMs" INTEGER,
+    "note" TEXT,
+    "lastSubmittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_executions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_executions_botId_createdAt_idx" ON "public"."order_executions"("botId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "order_executions_status_idx" ON "public"."order_executions"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."order_executions" ADD CONSTRAINT "order_executions_botId_fkey" FOREIGN KEY ("botId") REFERENCES "public"."bots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "public"."OrderLegType" AS ENUM ('TAKE_PROFIT', 'STOP_LOSS', 'TRAILING_STOP');
+
+-- AlterTable
+ALTER TABLE "public"."trades" ADD COLUMN     "legType" "public"."OrderLegType",
+ADD COLUMN     "parentOrderId" TEXT;
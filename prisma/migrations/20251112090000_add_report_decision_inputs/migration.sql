@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."reports" ADD COLUMN     "decisionInputs" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."strategies" ADD COLUMN     "decisionConfig" JSONB;
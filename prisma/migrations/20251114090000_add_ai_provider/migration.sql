@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "public"."AIProviderMode" AS ENUM ('OPENAI', 'RULE_BASED');
+
+-- AlterTable
+ALTER TABLE "public"."bots" ADD COLUMN     "aiProvider" "public"."AIProviderMode" NOT NULL DEFAULT 'OPENAI';
+
+-- AlterTable
+ALTER TABLE "public"."reports" ADD COLUMN     "aiModel" TEXT,
+ADD COLUMN     "aiProvider" TEXT;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "public"."provider_cache_entries" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "provider_cache_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."provider_api_logs" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "priority" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "responseTime" INTEGER NOT NULL,
+    "errorMessage" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "provider_api_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_cache_entries_key_key" ON "public"."provider_cache_entries"("key");
+
+-- CreateIndex
+CREATE INDEX "provider_cache_entries_provider_idx" ON "public"."provider_cache_entries"("provider");
+
+-- CreateIndex
+CREATE INDEX "provider_cache_entries_expiresAt_idx" ON "public"."provider_cache_entries"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "provider_api_logs_provider_timestamp_idx" ON "public"."provider_api_logs"("provider", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "provider_api_logs_status_idx" ON "public"."provider_api_logs"("status");
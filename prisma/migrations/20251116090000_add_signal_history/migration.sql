@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "public"."opportunity_snapshots" (
+    "id" TEXT NOT NULL,
+    "snapshotDate" TIMESTAMP(3) NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "totalScore" DOUBLE PRECISION NOT NULL,
+    "companyName" TEXT,
+    "price" DOUBLE PRECISION,
+    "baseClose" DOUBLE PRECISION,
+    "return1d" DOUBLE PRECISION,
+    "return5d" DOUBLE PRECISION,
+    "return20d" DOUBLE PRECISION,
+    "evaluatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "opportunity_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."signal_observations" (
+    "id" TEXT NOT NULL,
+    "snapshotId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "signalDate" TIMESTAMP(3) NOT NULL,
+    "metadata" JSONB,
+
+    CONSTRAINT "signal_observations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "opportunity_snapshots_snapshotDate_symbol_key" ON "public"."opportunity_snapshots"("snapshotDate", "symbol");
+
+-- CreateIndex
+CREATE INDEX "opportunity_snapshots_snapshotDate_idx" ON "public"."opportunity_snapshots"("snapshotDate");
+
+-- CreateIndex
+CREATE INDEX "opportunity_snapshots_symbol_idx" ON "public"."opportunity_snapshots"("symbol");
+
+-- CreateIndex
+CREATE INDEX "signal_observations_snapshotId_idx" ON "public"."signal_observations"("snapshotId");
+
+-- CreateIndex
+CREATE INDEX "signal_observations_type_idx" ON "public"."signal_observations"("type");
+
+-- AddForeignKey
+ALTER TABLE "public"."signal_observations" ADD CONSTRAINT "signal_observations_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "public"."opportunity_snapshots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
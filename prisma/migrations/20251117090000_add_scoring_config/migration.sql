@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."opportunity_snapshots" ADD COLUMN     "scoringVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."scoring_config_versions" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "config" JSONB NOT NULL,
+    "changeNote" TEXT,
+    "createdBy" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scoring_config_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scoring_config_versions_version_key" ON "public"."scoring_config_versions"("version");
+
+-- CreateIndex
+CREATE INDEX "scoring_config_versions_isActive_idx" ON "public"."scoring_config_versions"("isActive");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."trades" ADD COLUMN     "replacesOrderId" TEXT;
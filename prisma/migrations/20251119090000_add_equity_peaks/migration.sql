@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."equity_peaks" (
+    "broker" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "equity" DOUBLE PRECISION NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "equity_peaks_pkey" PRIMARY KEY ("broker")
+);
+
+-- Carry over today's peaks from the trading_control JSON column
+INSERT INTO "public"."equity_peaks" ("broker", "date", "equity", "updatedAt")
+SELECT peak.key, peak.value->>'date', (peak.value->>'equity')::DOUBLE PRECISION, CURRENT_TIMESTAMP
+FROM "public"."trading_control", jsonb_each("trading_control"."equityPeaks") AS peak
+WHERE "trading_control"."equityPeaks" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."trading_control" DROP COLUMN "equityPeaks";
@@ -0,0 +1,16 @@
+-- Cancel queued duplicates left by racing enqueues (keep the running or oldest job per bot)
+UPDATE "public"."jobs" AS "dup"
+SET "status" = 'CANCELED', "lastError" = 'Duplicate of an active job for the same bot', "completedAt" = CURRENT_TIMESTAMP, "updatedAt" = CURRENT_TIMESTAMP
+WHERE "dup"."status" = 'QUEUED'
+  AND "dup"."botId" IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM "public"."jobs" AS "kept"
+    WHERE "kept"."type" = "dup"."type"
+      AND "kept"."botId" = "dup"."botId"
+      AND "kept"."id" <> "dup"."id"
+      AND ("kept"."status" = 'RUNNING'
+        OR ("kept"."status" = 'QUEUED' AND ("kept"."createdAt", "kept"."id") < ("dup"."createdAt", "dup"."id")))
+  );
+
+-- CreateIndex (partial: Prisma schema cannot express it, so it only lives here)
+CREATE UNIQUE INDEX "jobs_type_botId_active_key" ON "public"."jobs"("type", "botId") WHERE "status" IN ('QUEUED', 'RUNNING');
@@ -0,0 +1,118 @@
+/**
+ * Record Alpha Vantage indicator fixtures
+ *
+ * Saves daily bars plus Alpha Vantage's own RSI/SMA/EMA/MACD/BBANDS/STOCH/ATR values
+ * to __tests__/fixtures/indicators/<symbol>-daily.json. The fixture tests check that
+ * local calculations (lib/utils/technicalIndicators.ts) reproduce them.
+ *
+ * Requests are spaced 12s apart (Alpha Vantage free tier: 5 requests per minute),
+ * so one symbol (8 requests) takes about 1.5 minutes.
+ *
+ * Usage: npm run fixtures:indicators -- AAPL MSFT
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAlphaVantageKey } from '../lib/config/env';
+
+const BARS_TO_KEEP = 300;
+const COMPARE_LAST = 30;
+const FIXTURE_DIR = path.join(__dirname, '..', '__tests__', 'fixtures', 'indicators');
+const REQUEST_INTERVAL_MS = 12 * 1000;
+
+let lastRequestAt = 0;
+
+const INDICATORS: Array<{ name: string; params: Record<string, number>; extra?: Record<string, string> }> = [
+  { name: 'RSI', params: { time_period: 14 }, extra: { series_type: 'close' } },
+  { name: 'SMA', params: { time_period: 20 }, extra: { series_type: 'close' } },
+  { name: 'EMA', params: { time_period: 12 }, extra: { series_type: 'close' } },
+  { name: 'MACD', params: { fastperiod: 12, slowperiod: 26, signalperiod: 9 }, extra: { series_type: 'close' } },
+  { name: 'BBANDS', params: { time_period: 20, nbdevup: 2, nbdevdn: 2 }, extra: { series_type: 'close', matype: '0' } },
+  { name: 'STOCH', params: { fastkperiod: 5, slowkperiod: 3, slowdperiod: 3 }, extra: { slowkmatype: '0', slowdmatype: '0' } },
+  { name: 'ATR', params: { time_period: 14 } },
+];
+
+async function query(params: Record<string, string>): Promise<any> {
+  const wait = lastRequestAt + REQUEST_INTERVAL_MS - Date.now();
+  if (wait > 0) {
+    await new Promise(resolve => setTimeout(resolve, wait));
+  }
+  lastRequestAt = Date.now();
+
+  const url = `https://www.alphavantage.co/query?${new URLSearchParams({ ...params, apikey: getAlphaVantageKey() })}`;
+  const response = await fetch(url);
+  const data = await response.json();
+
+  if (data['Error Message'] || data['Note'] || data['Information']) {
+    throw new Error(`Alpha Vantage error: ${data['Error Message'] || data['Note'] || data['Information']}`);
+  }
+
+  return data;
+}
+
+async function recordSymbol(symbol: string) {
+  console.log(`📥 Recording ${symbol}...`);
+
+  const series = await query({ function: 'TIME_SERIES_DAILY', symbol, outputsize: 'full' });
+  const dates = Object.keys(series['Time Series (Daily)']).sort().slice(-BARS_TO_KEEP);
+  const bars = dates.map(date => {
+    const values = series['Time Series (Daily)'][date];
+    return {
+      timestamp: date,
+      open: parseFloat(values['1. open']),
+      high: parseFloat(values['2. high']),
+      low: parseFloat(values['3. low']),
+      close: parseFloat(values['4. close']),
+      volume: parseFloat(values['5. volume']),
+    };
+  });
+
+  const indicators: Record<string, { params: Record<string, number>; values: Record<string, Record<string, string>> }> = {};
+  for (const indicator of INDICATORS) {
+    const params: Record<string, string> = { function: indicator.name, symbol, interval: 'daily', ...indicator.extra };
+    Object.keys(indicator.params).forEach(key => { params[key] = String(indicator.params[key]); });
+
+    const data = await query(params);
+    const analysis = data[`Technical Analysis: ${indicator.name}`];
+
+    // Keep only dates covered by the recorded bars
+    const values: Record<string, Record<string, string>> = {};
+    dates.forEach(date => {
+      if (analysis[date]) values[date] = analysis[date];
+    });
+
+    indicators[indicator.name] = { params: indicator.params, values };
+    console.log(`  ✅ ${indicator.name}: ${Object.keys(values).length} values`);
+  }
+
+  const fixture = {
+    symbol,
+    interval: 'daily',
+    source: `Alpha Vantage (TIME_SERIES_DAILY + indicator endpoints), recorded ${new Date().toISOString().slice(0, 10)}`,
+    compareLast: COMPARE_LAST,
+    bars,
+    indicators,
+  };
+
+  const file = path.join(FIXTURE_DIR, `${symbol.toLowerCase()}-daily.json`);
+  fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+  console.log(`💾 Saved ${file}`);
+}
+
+async function main() {
+  const symbols = process.argv.slice(2).map(s => s.toUpperCase());
+  if (symbols.length === 0) {
+    console.error('Usage: npm run fixtures:indicators -- SYMBOL [SYMBOL...]');
+    process.exit(1);
+  }
+
+  for (const symbol of symbols) {
+    await recordSymbol(symbol);
+  }
+}
+
+main().catch(error => {
+  console.error('💥 Failed to record fixtures:', error);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+/**
+ * Replay stored report decisions
+ *
+ * Feeds stored Reports through the current decision logic with their recorded inputs
+ * (no OpenAI, news or broker calls) and prints the decisions that would change.
+ * Run it before deploying changes to makeUnifiedDecision / lib/utils/unifiedDecision.ts.
+ *
+ * Usage: npx tsx scripts/replay-decisions.ts [--bot <id>] [--symbol AAPL] [--from 2025-11-01] [--to 2025-11-30] [--limit 500] [--all]
+ */
+
+import { decisionReplayService, ReplayFilter } from '../lib/services/decisionReplayService';
+import { prisma } from '../lib/prisma';
+
+function parseArgs(args: string[]): ReplayFilter {
+  const filter: ReplayFilter = { changedOnly: true };
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--bot':
+        filter.botId = value;
+        i++;
+        break;
+      case '--symbol':
+        filter.symbol = value.toUpperCase();
+        i++;
+        break;
+      case '--from':
+        filter.from = new Date(value);
+        i++;
+        break;
+      case '--to':
+        filter.to = new Date(value);
+        i++;
+        break;
+      case '--limit':
+        filter.limit = parseInt(value, 10);
+        i++;
+        break;
+      case '--all':
+        filter.changedOnly = false;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${args[i]}`);
+    }
+  }
+
+  return filter;
+}
+
+async function main() {
+  const filter = parseArgs(process.argv.slice(2));
+  const replay = await decisionReplayService.replay(filter);
+
+  console.log('');
+  console.log(`📊 재현 결과: ${replay.replayed}/${replay.total}건, 결정 변경 ${replay.changed}건`);
+  console.log(`   평균 점수 변화: ${replay.averageScoreDelta >= 0 ? '+' : ''}${replay.averageScoreDelta.toFixed(3)}`);
+  Object.keys(replay.transitions).forEach(transition => {
+    console.log(`   ${transition}: ${replay.transitions[transition]}건`);
+  });
+
+  if (replay.results.length > 0) {
+    console.log('');
+    replay.results.forEach(result => {
+      const marker = result.actionChanged ? '⚠️' : '  ';
+      console.log(
+        `${marker} ${result.timestamp.toISOString()} ${result.symbol.padEnd(6)} ${result.reportId} ` +
+        `${result.original.action} (${result.original.finalScore.toFixed(2)}) → ` +
+        `${result.replayed.action} (${result.replayed.finalScore.toFixed(2)})` +
+        (result.inputSource === 'RECONSTRUCTED' ? ' [reconstructed]' : '')
+      );
+    });
+  }
+
+  if (replay.skipped.length > 0) {
+    console.log('');
+    console.log(`⏭️  건너뜀 ${replay.skipped.length}건`);
+    replay.skipped.forEach(skip => console.log(`   ${skip.reportId}: ${skip.reason}`));
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Replay failed:', error);
+    process.exitCode = 1;
+  })
+  .then(() => prisma.$disconnect());